@@ -1,6 +1,6 @@
 import axios from 'axios'
 import { API_BASE_URL } from '@utils/constants'
-import { getToken } from '@utils/storage'
+import { getToken, getCartToken } from '@utils/storage'
 
 // Create axios instance with default config
 export const api = axios.create({
@@ -19,6 +19,11 @@ api.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`
     }
+    // Identifies a guest's cart; sent on sign-in too, so the server can merge it
+    const cartToken = getCartToken()
+    if (cartToken) {
+      config.headers['X-Cart-Token'] = cartToken
+    }
     return config
   },
   (error) => {
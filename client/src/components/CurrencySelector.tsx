@@ -1,4 +1,5 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
+import { currencyService } from "@/services/currency.service";
 
 interface CurrencySelectorProps {
   value: string;
@@ -6,31 +7,51 @@ interface CurrencySelectorProps {
   className?: string;
 }
 
-const CURRENCIES = [
-  { code: "USD", name: "US Dollar", symbol: "$" },
-  { code: "EUR", name: "Euro", symbol: "€" },
-  { code: "GBP", name: "British Pound", symbol: "£" },
-  { code: "JPY", name: "Japanese Yen", symbol: "¥" },
-  { code: "AUD", name: "Australian Dollar", symbol: "A$" },
-  { code: "CAD", name: "Canadian Dollar", symbol: "C$" },
-  { code: "CHF", name: "Swiss Franc", symbol: "CHF" },
-  { code: "CNY", name: "Chinese Yuan", symbol: "¥" },
-];
+const CURRENCY_NAMES: Record<string, { name: string; symbol: string }> = {
+  USD: { name: "US Dollar", symbol: "$" },
+  ETB: { name: "Ethiopian Birr", symbol: "Br" },
+  EUR: { name: "Euro", symbol: "€" },
+  GBP: { name: "British Pound", symbol: "£" },
+};
+
+// Shown until the server's supported list arrives
+const DEFAULT_CURRENCIES = Object.keys(CURRENCY_NAMES);
 
 const CurrencySelector: React.FC<CurrencySelectorProps> = ({
   value,
   onChange,
   className = "",
 }) => {
+  const [currencies, setCurrencies] = useState<string[]>(DEFAULT_CURRENCIES);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    currencyService
+      .getCurrencies()
+      .then((result) => {
+        if (!cancelled) setCurrencies(result.currencies);
+      })
+      .catch((error) => {
+        console.error("Error fetching currencies:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   return (
     <select
       value={value}
       onChange={(e) => onChange(e.target.value)}
       className={`block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md ${className}`}
     >
-      {CURRENCIES.map((currency) => (
-        <option key={currency.code} value={currency.code}>
-          {currency.code} - {currency.name} ({currency.symbol})
+      {currencies.map((code) => (
+        <option key={code} value={code}>
+          {CURRENCY_NAMES[code]
+            ? `${code} - ${CURRENCY_NAMES[code].name} (${CURRENCY_NAMES[code].symbol})`
+            : code}
         </option>
       ))}
     </select>
@@ -18,6 +18,8 @@ export const FloatingChatbot = ({ className = '' }: FloatingChatbotProps) => {
   const [isMobile, setIsMobile] = useState(false)
   const dragRef = useRef<HTMLDivElement>(null)
   const { messages } = useChat()
+  // Shown while minimized, so an answer can be followed without expanding the chat
+  const streamingMessage = messages.find((msg) => msg.status === 'streaming' && msg.content)
 
   // Calculate safe chat window dimensions
   const getChatDimensions = () => {
@@ -313,7 +315,7 @@ export const FloatingChatbot = ({ className = '' }: FloatingChatbotProps) => {
               {isMinimized && (
                 <div className="flex items-center justify-center h-full px-4">
                   <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
-                    Chat minimized - Click to expand
+                    {streamingMessage ? `🤖 ${streamingMessage.content.slice(-80)}` : 'Chat minimized - Click to expand'}
                   </p>
                 </div>
               )}
@@ -1,12 +1,15 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
-import { useSelector } from "react-redux";
+import { useDispatch, useSelector } from "react-redux";
 import { useAuth } from "@hooks/useAuth";
 import { Button } from "@/components/ui/Button";
 import { LanguageSwitcher } from "@components/common/LanguageSwitcher";
+import { NotificationBell } from "@features/notifications/components";
 import { ROUTES, APP_NAME } from "@utils/constants";
-import { RootState } from "@store/store";
+import { RootState, AppDispatch } from "@store/store";
+import { fetchCart } from "@store/slices/bookingSlice";
+import { fetchWishlist } from "@store/slices/tourSlice";
 
 export const Header = () => {
   const { t } = useTranslation();
@@ -14,8 +17,21 @@ export const Header = () => {
   const navigate = useNavigate();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+  const dispatch = useDispatch<AppDispatch>();
   const { totalItems } = useSelector((state: RootState) => state.booking);
 
+  // Load the cart from the server, again after signing in or out since that changes whose cart it is
+  useEffect(() => {
+    dispatch(fetchCart());
+  }, [dispatch, isAuthenticated]);
+
+  // Pick up the signed-in user's saved tours, saving any picked while signed out
+  useEffect(() => {
+    if (isAuthenticated) {
+      dispatch(fetchWishlist());
+    }
+  }, [dispatch, isAuthenticated]);
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -102,6 +118,9 @@ export const Header = () => {
               )}
             </Link>
 
+            {/* Notifications - Signed in users only */}
+            {isAuthenticated && <NotificationBell />}
+
             {/* Language Switcher - Hidden on mobile */}
             <div className="hidden md:block flex-shrink-0">
               <LanguageSwitcher />
@@ -1,12 +1,14 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useDispatch } from 'react-redux'
+import { AppDispatch } from '@store/store'
 import { addToCart } from '@store/slices/bookingSlice'
-import { BookingFormData, BookingItem, AddOn } from '@/types/booking'
+import { BookingFormData, AddOn } from '@/types/booking'
 import { Tour } from '@/types/tour'
 import { Button } from '@components/common/Button/Button'
 import { Input } from '@components/common/Input/Input'
 import { useAvailability } from '@/hooks/useAvailability'
+import { tourService, TourDeparture } from '@/services/tour.service'
 import WaitlistModal from './WaitlistModal'
 import { FaCalendar, FaUsers, FaChild, FaUtensils, FaCar, FaUserTie, FaPlus, FaMinus, FaExclamationTriangle, FaCheckCircle, FaSpinner } from 'react-icons/fa'
 
@@ -14,7 +16,7 @@ interface BookingFormProps {
   tour: Tour
 }
 
-// Available add-ons for tours
+// Available add-ons for tours; the server prices them from the same list
 const AVAILABLE_ADDONS: AddOn[] = [
   { id: 'meal-1', name: 'Traditional Ethiopian Lunch', price: 15, description: 'Authentic injera with various wots', type: 'meal' },
   { id: 'meal-2', name: 'Vegetarian Meal Package', price: 12, description: 'Plant-based Ethiopian cuisine', type: 'meal' },
@@ -24,16 +26,9 @@ const AVAILABLE_ADDONS: AddOn[] = [
   { id: 'guide-2', name: 'Photography Guide', price: 40, description: 'Professional photo assistance', type: 'guide' },
 ]
 
-// Mock unavailable dates (in production, fetch from API)
-const UNAVAILABLE_DATES = [
-  '2024-12-25',
-  '2024-12-26',
-  '2025-01-01',
-]
-
 export default function BookingForm({ tour }: BookingFormProps) {
   const navigate = useNavigate()
-  const dispatch = useDispatch()
+  const dispatch = useDispatch<AppDispatch>()
   
   const [formData, setFormData] = useState<BookingFormData>({
     tourId: tour.id,
@@ -49,20 +44,36 @@ export default function BookingForm({ tour }: BookingFormProps) {
 
   const [showAvailability, setShowAvailability] = useState(false)
   const [showWaitlistModal, setShowWaitlistModal] = useState(false)
+  const [departures, setDepartures] = useState<TourDeparture[]>([])
   
-  // Check availability when date changes
-  const { availability, loading: availabilityLoading } = useAvailability(tour.id, formData.date)
+  // Check availability when date or party size changes
+  const { availability, loading: availabilityLoading } = useAvailability(
+    tour.id,
+    formData.date,
+    formData.adults,
+    formData.children
+  )
+
+  useEffect(() => {
+    tourService.getDepartures(tour.id)
+      .then(setDepartures)
+      .catch((err) => console.error('Failed to load departures', err))
+  }, [tour.id])
 
   const isDateUnavailable = (date: string) => {
-    return UNAVAILABLE_DATES.includes(date)
+    return !!date && !!availability && !availability.available && !availability.isFullyBooked
   }
 
+  // Departure price overrides win over the tour's list price
+  const pricePerAdult = availability?.price ?? tour.price
+  const pricePerChild = availability?.childPrice ?? tour.price * 0.5
+
   const getSelectedAddOns = (): AddOn[] => {
     return AVAILABLE_ADDONS.filter(addon => formData.selectedAddOns.includes(addon.id))
   }
 
   const calculateTotal = () => {
-    const participantsTotal = (formData.adults * tour.price) + (formData.children * tour.price * 0.5)
+    const participantsTotal = (formData.adults * pricePerAdult) + (formData.children * pricePerChild)
     const addOnsTotal = getSelectedAddOns().reduce((sum, addon) => sum + addon.price, 0)
     return participantsTotal + addOnsTotal
   }
@@ -85,7 +96,7 @@ export default function BookingForm({ tour }: BookingFormProps) {
     }))
   }
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
     if (isDateUnavailable(formData.date)) {
@@ -93,26 +104,23 @@ export default function BookingForm({ tour }: BookingFormProps) {
       return
     }
     
-    const bookingItem: BookingItem = {
-      id: `${tour.id}-${Date.now()}`,
+    // The server prices the booking and checks the departure again
+    const result = await dispatch(addToCart({
+      type: 'TOUR',
       tourId: tour.id,
-      tourName: tour.title,
-      tourImage: tour.images?.[0] || '',
-      date: formData.date,
-      participants: {
-        adults: formData.adults,
-        children: formData.children,
-      },
-      pricePerAdult: tour.price,
-      pricePerChild: tour.price * 0.5,
-      addOns: getSelectedAddOns(),
-      totalPrice: calculateTotal(),
-      meetingPoint: tour.location,
-      duration: tour.duration,
-      specialRequests: formData.specialRequests,
+      departureId: availability?.departureId ?? undefined,
+      startDate: formData.date,
+      adults: formData.adults,
+      children: formData.children,
+      addOns: formData.selectedAddOns,
+      specialRequests: formData.specialRequests || undefined,
+    }))
+
+    if (addToCart.rejected.match(result)) {
+      alert(result.payload as string)
+      return
     }
 
-    dispatch(addToCart(bookingItem))
     navigate('/cart')
   }
 
@@ -165,6 +173,11 @@ export default function BookingForm({ tour }: BookingFormProps) {
                       <FaExclamationTriangle />
                       <span className="font-medium">Fully booked for this date</span>
                     </div>
+                  ) : !availability.available ? (
+                    <div className="flex items-center gap-2 text-red-600 text-sm bg-red-50 p-3 rounded-lg">
+                      <FaExclamationTriangle />
+                      <span className="font-medium">{availability.reason || 'This date is not available'}</span>
+                    </div>
                   ) : availability.spotsLeft <= 5 ? (
                     <div className="flex items-center gap-2 text-orange-600 text-sm bg-orange-50 p-3 rounded-lg">
                       <FaExclamationTriangle />
@@ -177,8 +190,6 @@ export default function BookingForm({ tour }: BookingFormProps) {
                     </div>
                   )}
                 </>
-              ) : isDateUnavailable(formData.date) ? (
-                <p className="text-red-600 text-sm">This date is not available</p>
               ) : null}
             </div>
           )}
@@ -192,14 +203,27 @@ export default function BookingForm({ tour }: BookingFormProps) {
         </button>
         {showAvailability && (
           <div className="mt-2 p-3 bg-gray-50 rounded-lg text-sm">
-            <p className="font-medium mb-2">Unavailable dates:</p>
-            <div className="flex flex-wrap gap-2">
-              {UNAVAILABLE_DATES.map(date => (
-                <span key={date} className="px-2 py-1 bg-red-100 text-red-700 rounded">
-                  {new Date(date).toLocaleDateString()}
-                </span>
-              ))}
-            </div>
+            <p className="font-medium mb-2">Upcoming departures:</p>
+            {departures.length === 0 ? (
+              <p className="text-gray-600">No departures are scheduled yet</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {departures.map(departure => (
+                  <button
+                    key={departure.id}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, date: departure.startDate.split('T')[0] })}
+                    className={`px-2 py-1 rounded ${
+                      departure.spotsLeft > 0
+                        ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                        : 'bg-red-100 text-red-700'
+                    }`}
+                  >
+                    {new Date(departure.startDate).toLocaleDateString()} · {departure.spotsLeft} left
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -218,7 +242,7 @@ export default function BookingForm({ tour }: BookingFormProps) {
               <FaUsers className="text-gray-600" />
               <span className="font-medium">Adults</span>
             </div>
-            <p className="text-sm text-gray-500">${tour.price} per person</p>
+            <p className="text-sm text-gray-500">${pricePerAdult} per person</p>
           </div>
           <div className="flex items-center gap-3">
             <button
@@ -248,7 +272,7 @@ export default function BookingForm({ tour }: BookingFormProps) {
               <FaChild className="text-gray-600" />
               <span className="font-medium">Children</span>
             </div>
-            <p className="text-sm text-gray-500">${tour.price * 0.5} per child (50% off)</p>
+            <p className="text-sm text-gray-500">${pricePerChild} per child</p>
           </div>
           <div className="flex items-center gap-3">
             <button
@@ -358,13 +382,13 @@ export default function BookingForm({ tour }: BookingFormProps) {
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
             <span className="text-gray-700">Adults × {formData.adults}</span>
-            <span className="font-medium">${formData.adults * tour.price}</span>
+            <span className="font-medium">${formData.adults * pricePerAdult}</span>
           </div>
           
           {formData.children > 0 && (
             <div className="flex justify-between text-sm">
               <span className="text-gray-700">Children × {formData.children}</span>
-              <span className="font-medium">${formData.children * tour.price * 0.5}</span>
+              <span className="font-medium">${formData.children * pricePerChild}</span>
             </div>
           )}
           
@@ -431,6 +455,7 @@ export default function BookingForm({ tour }: BookingFormProps) {
         onClose={() => setShowWaitlistModal(false)}
         tourId={tour.id}
         tourName={tour.title}
+        departureId={availability?.departureId ?? undefined}
         date={formData.date}
         participants={{
           adults: formData.adults,
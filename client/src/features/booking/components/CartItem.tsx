@@ -1,14 +1,23 @@
 import { useDispatch } from 'react-redux'
-import { removeFromCart, updateParticipants } from '@store/slices/bookingSlice'
+import { AppDispatch } from '@store/store'
+import { removeFromCart, updateParticipants, updateCartItem } from '@store/slices/bookingSlice'
 import { BookingItem } from '@/types/booking'
-import { FaTrash, FaCalendar, FaUsers, FaMapMarkerAlt, FaClock, FaUtensils, FaCar, FaUserTie, FaPlus, FaMinus } from 'react-icons/fa'
+import { FaTrash, FaCalendar, FaUsers, FaMapMarkerAlt, FaClock, FaUtensils, FaCar, FaUserTie, FaPlus, FaMinus, FaExclamationTriangle } from 'react-icons/fa'
 
 interface CartItemProps {
   item: BookingItem
+  currency: string
 }
 
-export default function CartItem({ item }: CartItemProps) {
-  const dispatch = useDispatch()
+export default function CartItem({ item, currency }: CartItemProps) {
+  const dispatch = useDispatch<AppDispatch>()
+
+  const formatPrice = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
 
   const handleRemove = () => {
     dispatch(removeFromCart(item.id))
@@ -34,6 +43,14 @@ export default function CartItem({ item }: CartItemProps) {
     }))
   }
 
+  const handleUpdateQuantity = (increment: boolean) => {
+    const quantity = item.quantity || 1
+    dispatch(updateCartItem({
+      id: item.id,
+      data: { quantity: increment ? Math.min(quantity + 1, 100) : Math.max(quantity - 1, 1) },
+    }))
+  }
+
   const getAddOnIcon = (type: string) => {
     switch (type) {
       case 'meal': return <FaUtensils className="text-orange-600" />
@@ -68,127 +85,171 @@ export default function CartItem({ item }: CartItemProps) {
             </button>
           </div>
 
-          {/* Booking Details */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
-            <div className="flex items-center text-gray-600">
-              <FaCalendar className="w-4 h-4 mr-2 text-orange-500" />
-              <span className="text-sm">{new Date(item.date).toLocaleDateString()}</span>
+          {/* Availability problem found when the cart was last priced */}
+          {item.issue && (
+            <div className="flex items-center gap-2 mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <FaExclamationTriangle className="flex-shrink-0" />
+              <span>{item.issue}</span>
             </div>
+          )}
 
-            <div className="flex items-center text-gray-600">
-              <FaMapMarkerAlt className="w-4 h-4 mr-2 text-orange-500" />
-              <span className="text-sm">{item.meetingPoint}</span>
-            </div>
-
-            <div className="flex items-center text-gray-600">
-              <FaClock className="w-4 h-4 mr-2 text-orange-500" />
-              <span className="text-sm">{item.duration}</span>
-            </div>
-          </div>
-
-          {/* Editable Participants */}
-          <div className="mb-4 space-y-3">
-            <h4 className="text-sm font-medium text-gray-700">Participants:</h4>
-            
-            {/* Adults */}
-            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-              <div className="flex items-center gap-2">
-                <FaUsers className="text-gray-600" />
-                <span className="text-sm">Adults</span>
-              </div>
+          {item.type === 'PRODUCT' ? (
+            <div className="mb-4 flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="text-sm">Quantity</span>
               <div className="flex items-center gap-3">
                 <button
-                  onClick={() => handleUpdateParticipants('adults', false)}
+                  onClick={() => handleUpdateQuantity(false)}
                   className="w-7 h-7 flex items-center justify-center rounded-full border border-gray-300 hover:border-orange-600 hover:text-orange-600 transition-colors"
-                  disabled={item.participants.adults <= 1}
+                  disabled={(item.quantity || 1) <= 1}
                 >
                   <FaMinus size={10} />
                 </button>
-                <span className="w-6 text-center font-semibold">{item.participants.adults}</span>
+                <span className="w-6 text-center font-semibold">{item.quantity || 1}</span>
                 <button
-                  onClick={() => handleUpdateParticipants('adults', true)}
+                  onClick={() => handleUpdateQuantity(true)}
                   className="w-7 h-7 flex items-center justify-center rounded-full border border-gray-300 hover:border-orange-600 hover:text-orange-600 transition-colors"
-                  disabled={item.participants.adults >= 20}
+                  disabled={(item.quantity || 1) >= 100}
                 >
                   <FaPlus size={10} />
                 </button>
               </div>
             </div>
+          ) : (
+            <>
+              {/* Booking Details */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                <div className="flex items-center text-gray-600">
+                  <FaCalendar className="w-4 h-4 mr-2 text-orange-500" />
+                  <span className="text-sm">{new Date(item.date).toLocaleDateString()}</span>
+                </div>
 
-            {/* Children */}
-            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-              <div className="flex items-center gap-2">
-                <FaUsers className="text-gray-600" />
-                <span className="text-sm">Children</span>
-              </div>
-              <div className="flex items-center gap-3">
-                <button
-                  onClick={() => handleUpdateParticipants('children', false)}
-                  className="w-7 h-7 flex items-center justify-center rounded-full border border-gray-300 hover:border-orange-600 hover:text-orange-600 transition-colors"
-                  disabled={item.participants.children <= 0}
-                >
-                  <FaMinus size={10} />
-                </button>
-                <span className="w-6 text-center font-semibold">{item.participants.children}</span>
-                <button
-                  onClick={() => handleUpdateParticipants('children', true)}
-                  className="w-7 h-7 flex items-center justify-center rounded-full border border-gray-300 hover:border-orange-600 hover:text-orange-600 transition-colors"
-                  disabled={item.participants.children >= 20}
-                >
-                  <FaPlus size={10} />
-                </button>
+                {item.meetingPoint && (
+                  <div className="flex items-center text-gray-600">
+                    <FaMapMarkerAlt className="w-4 h-4 mr-2 text-orange-500" />
+                    <span className="text-sm">{item.meetingPoint}</span>
+                  </div>
+                )}
+
+                <div className="flex items-center text-gray-600">
+                  <FaClock className="w-4 h-4 mr-2 text-orange-500" />
+                  <span className="text-sm">{item.duration}</span>
+                </div>
               </div>
-            </div>
-          </div>
 
-          {/* Add-ons */}
-          {item.addOns && item.addOns.length > 0 && (
-            <div className="mb-4">
-              <p className="text-sm font-medium text-gray-700 mb-2">Add-ons:</p>
-              <div className="flex flex-wrap gap-2">
-                {item.addOns.map(addon => (
-                  <div
-                    key={addon.id}
-                    className="flex items-center gap-2 px-3 py-1 bg-gray-100 rounded-full text-sm"
-                  >
-                    {getAddOnIcon(addon.type)}
-                    <span>{addon.name}</span>
-                    <span className="font-medium text-orange-600">+${addon.price}</span>
+              {/* Editable Participants */}
+              <div className="mb-4 space-y-3">
+                <h4 className="text-sm font-medium text-gray-700">Participants:</h4>
+            
+                {/* Adults */}
+                <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <FaUsers className="text-gray-600" />
+                    <span className="text-sm">Adults</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => handleUpdateParticipants('adults', false)}
+                      className="w-7 h-7 flex items-center justify-center rounded-full border border-gray-300 hover:border-orange-600 hover:text-orange-600 transition-colors"
+                      disabled={item.participants.adults <= 1}
+                    >
+                      <FaMinus size={10} />
+                    </button>
+                    <span className="w-6 text-center font-semibold">{item.participants.adults}</span>
+                    <button
+                      onClick={() => handleUpdateParticipants('adults', true)}
+                      className="w-7 h-7 flex items-center justify-center rounded-full border border-gray-300 hover:border-orange-600 hover:text-orange-600 transition-colors"
+                      disabled={item.participants.adults >= 20}
+                    >
+                      <FaPlus size={10} />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Children */}
+                <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <FaUsers className="text-gray-600" />
+                    <span className="text-sm">Children</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => handleUpdateParticipants('children', false)}
+                      className="w-7 h-7 flex items-center justify-center rounded-full border border-gray-300 hover:border-orange-600 hover:text-orange-600 transition-colors"
+                      disabled={item.participants.children <= 0}
+                    >
+                      <FaMinus size={10} />
+                    </button>
+                    <span className="w-6 text-center font-semibold">{item.participants.children}</span>
+                    <button
+                      onClick={() => handleUpdateParticipants('children', true)}
+                      className="w-7 h-7 flex items-center justify-center rounded-full border border-gray-300 hover:border-orange-600 hover:text-orange-600 transition-colors"
+                      disabled={item.participants.children >= 20}
+                    >
+                      <FaPlus size={10} />
+                    </button>
                   </div>
-                ))}
+                </div>
               </div>
-            </div>
-          )}
 
-          {/* Special Requests */}
-          {item.specialRequests && (
-            <div className="mb-4 p-3 bg-blue-50 rounded-lg">
-              <p className="text-sm font-medium text-gray-700 mb-1">Special Requests:</p>
-              <p className="text-sm text-gray-600">{item.specialRequests}</p>
-            </div>
+              {/* Add-ons */}
+              {item.addOns && item.addOns.length > 0 && (
+                <div className="mb-4">
+                  <p className="text-sm font-medium text-gray-700 mb-2">Add-ons:</p>
+                  <div className="flex flex-wrap gap-2">
+                    {item.addOns.map(addon => (
+                      <div
+                        key={addon.id}
+                        className="flex items-center gap-2 px-3 py-1 bg-gray-100 rounded-full text-sm"
+                      >
+                        {getAddOnIcon(addon.type)}
+                        <span>{addon.name}</span>
+                        <span className="font-medium text-orange-600">+{formatPrice(addon.price)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Special Requests */}
+              {item.specialRequests && (
+                <div className="mb-4 p-3 bg-blue-50 rounded-lg">
+                  <p className="text-sm font-medium text-gray-700 mb-1">Special Requests:</p>
+                  <p className="text-sm text-gray-600">{item.specialRequests}</p>
+                </div>
+              )}
+            </>
           )}
 
           {/* Price Breakdown */}
           <div className="bg-gray-50 p-4 rounded-lg space-y-2">
-            <div className="flex justify-between text-sm text-gray-600">
-              <span>{item.participants.adults} × Adult</span>
-              <span>${item.pricePerAdult * item.participants.adults}</span>
-            </div>
-            {item.participants.children > 0 && (
+            {item.type === 'PRODUCT' ? (
               <div className="flex justify-between text-sm text-gray-600">
-                <span>{item.participants.children} × Child</span>
-                <span>${item.pricePerChild * item.participants.children}</span>
-              </div>
-            )}
-            {item.addOns && item.addOns.length > 0 && (
-              <div className="flex justify-between text-sm text-gray-600">
-                <span>Add-ons</span>
-                <span>${item.addOns.reduce((sum, addon) => sum + addon.price, 0)}</span>
+                <span>{item.quantity || 1} × {formatPrice(item.pricePerAdult)}</span>
+                <span>{formatPrice(item.pricePerAdult * (item.quantity || 1))}</span>
               </div>
+            ) : (
+              <>
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>{item.participants.adults} × Adult</span>
+                  <span>{formatPrice(item.pricePerAdult * item.participants.adults)}</span>
+                </div>
+                {item.participants.children > 0 && (
+                  <div className="flex justify-between text-sm text-gray-600">
+                    <span>{item.participants.children} × Child</span>
+                    <span>{formatPrice(item.pricePerChild * item.participants.children)}</span>
+                  </div>
+                )}
+                {item.addOns && item.addOns.length > 0 && (
+                  <div className="flex justify-between text-sm text-gray-600">
+                    <span>Add-ons</span>
+                    <span>{formatPrice(item.addOns.reduce((sum, addon) => sum + addon.price, 0))}</span>
+                  </div>
+                )}
+              </>
             )}
             <div className="flex justify-between font-bold text-lg text-gray-900 border-t pt-2">
               <span>Subtotal</span>
-              <span className="text-orange-600">${item.totalPrice}</span>
+              <span className="text-orange-600">{formatPrice(item.totalPrice)}</span>
             </div>
           </div>
         </div>
@@ -9,6 +9,7 @@ interface WaitlistModalProps {
   onClose: () => void
   tourId: string
   tourName: string
+  departureId?: string
   date: string
   participants: {
     adults: number
@@ -21,6 +22,7 @@ export default function WaitlistModal({
   onClose, 
   tourId, 
   tourName, 
+  departureId,
   date,
   participants 
 }: WaitlistModalProps) {
@@ -40,6 +42,7 @@ export default function WaitlistModal({
     try {
       const waitlistData: WaitlistRequest = {
         tourId,
+        departureId,
         date,
         email,
         name,
@@ -3,27 +3,9 @@ import { useState, useEffect } from 'react'
 import BookingForm from '../components/BookingForm'
 import { Loader } from '@components/common/Loader/Loader'
 import { api } from '@api/axios.config'
+import { Tour as ApiTour } from '@/services/tour.service'
 
-interface Tour {
-  id: string
-  title: string
-  slug: string
-  description: string
-  shortDescription?: string
-  images: string
-  price: number
-  duration: number
-  maxGroupSize: number
-  difficulty: string
-  status: string
-  featured: boolean
-  category: string
-  startLocation?: string
-  locations?: string
-  included?: string
-  excluded?: string
-  itinerary?: string
-  tags?: string
+type Tour = ApiTour & {
   rating?: number
   reviews?: number
 }
@@ -47,21 +29,7 @@ export default function BookingPage() {
         const response = await api.get(`/api/tours/${tourId}`)
         
         if (response.data?.success && response.data?.data?.tour) {
-          const tourData = response.data.data.tour
-          
-          // Parse JSON strings back to arrays/objects
-          const parsedTour = {
-            ...tourData,
-            images: tourData.images ? JSON.parse(tourData.images) : [],
-            startLocation: tourData.startLocation ? JSON.parse(tourData.startLocation) : {},
-            locations: tourData.locations ? JSON.parse(tourData.locations) : [],
-            included: tourData.included ? JSON.parse(tourData.included) : [],
-            excluded: tourData.excluded ? JSON.parse(tourData.excluded) : [],
-            itinerary: tourData.itinerary ? JSON.parse(tourData.itinerary) : [],
-            tags: tourData.tags ? JSON.parse(tourData.tags) : []
-          }
-          
-          setTour(parsedTour)
+          setTour(response.data.data.tour)
         } else {
           setError('Tour not found')
         }
@@ -89,19 +57,17 @@ export default function BookingPage() {
   }
 
   // Get the first image or use a default
-  const tourImage = Array.isArray(tour.images) && tour.images.length > 0 
-    ? tour.images[0] 
-    : 'https://images.unsplash.com/photo-1523805009345-7448845a9e53?w=800'
+  const tourImage = tour.images[0] || 'https://images.unsplash.com/photo-1523805009345-7448845a9e53?w=800'
 
   // Get location from startLocation or fallback
-  const location = (tour.startLocation as any)?.description || tour.category || 'Ethiopia'
+  const location = tour.startLocation?.name || tour.category || 'Ethiopia'
 
   // Format the tour data for the BookingForm component
   const formattedTour = {
     id: tour.id,
     title: tour.title,
     image: tourImage,
-    images: Array.isArray(tour.images) ? tour.images : [tourImage],
+    images: tour.images.length > 0 ? tour.images : [tourImage],
     price: Number(tour.price),
     location: location,
     duration: `${tour.duration} days`,
@@ -153,11 +119,11 @@ export default function BookingPage() {
                 <p className="mt-4 text-gray-700">{tour.description}</p>
                 
                 {/* Show included items if available */}
-                {(tour.included as any) && (tour.included as any).length > 0 && (
+                {tour.included.length > 0 && (
                   <div className="mt-4">
                     <h3 className="font-semibold text-gray-900 mb-2">Included:</h3>
                     <ul className="text-sm text-gray-600 space-y-1">
-                      {(tour.included as any).map((item: any, index: number) => (
+                      {tour.included.map((item, index) => (
                         <li key={index} className="flex items-center">
                           <span className="text-green-500 mr-2">✓</span>
                           {item}
@@ -1,8 +1,8 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useSelector, useDispatch } from 'react-redux'
 import { useNavigate } from 'react-router-dom'
-import { RootState } from '@store/store'
-import { applyPromoCode, removePromoCode, AVAILABLE_PROMO_CODES } from '@store/slices/bookingSlice'
+import { RootState, AppDispatch } from '@store/store'
+import { fetchCart, applyPromoCode, removePromoCode } from '@store/slices/bookingSlice'
 import CartItem from '../components/CartItem'
 import { Button } from '@components/common/Button/Button'
 import { Input } from '@components/common/Input/Input'
@@ -10,34 +10,33 @@ import { FaShoppingCart, FaArrowLeft, FaTag, FaTimes, FaCheckCircle, FaExclamati
 
 export default function CartPage() {
   const navigate = useNavigate()
-  const dispatch = useDispatch()
-  const { items, totalItems, subtotal, discount, totalPrice, appliedPromo } = useSelector((state: RootState) => state.booking)
+  const dispatch = useDispatch<AppDispatch>()
+  const { items, totalItems, subtotal, discount, totalPrice, appliedPromo, currency, issues, cartLoading, cartError } = useSelector((state: RootState) => state.booking)
   
   const [promoInput, setPromoInput] = useState('')
   const [promoError, setPromoError] = useState('')
-  const [showAvailablePromos, setShowAvailablePromos] = useState(false)
 
-  const handleApplyPromo = () => {
+  // Prices and availability can change while the cart sits, so always show the server's view
+  useEffect(() => {
+    dispatch(fetchCart())
+  }, [dispatch])
+
+  const formatPrice = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
+
+  const handleApplyPromo = async () => {
     setPromoError('')
-    const code = promoInput.toUpperCase()
-    const promo = AVAILABLE_PROMO_CODES.find(p => p.code === code)
-    
-    if (!promo) {
-      setPromoError('Invalid promo code')
-      return
-    }
-    
-    if (promo.expiryDate && new Date(promo.expiryDate) < new Date()) {
-      setPromoError('This promo code has expired')
-      return
-    }
-    
-    if (promo.minPurchase && subtotal < promo.minPurchase) {
-      setPromoError(`Minimum purchase of $${promo.minPurchase} required`)
+    const result = await dispatch(applyPromoCode(promoInput.toUpperCase()))
+
+    if (applyPromoCode.rejected.match(result)) {
+      setPromoError(result.payload as string)
       return
     }
-    
-    dispatch(applyPromoCode(code))
+
     setPromoInput('')
   }
   
@@ -46,6 +45,14 @@ export default function CartPage() {
     setPromoError('')
   }
 
+  if (items.length === 0 && cartLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="text-center py-16 text-gray-600">Loading your cart...</div>
+      </div>
+    )
+  }
+
   if (items.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 py-12">
@@ -91,7 +98,7 @@ export default function CartPage() {
           {/* Cart Items */}
           <div className="lg:col-span-2 space-y-4">
             {items.map((item) => (
-              <CartItem key={item.id} item={item} />
+              <CartItem key={item.id} item={item} currency={currency} />
             ))}
           </div>
 
@@ -124,9 +131,7 @@ export default function CartPage() {
                       </button>
                     </div>
                     <p className="text-sm text-green-700">
-                      {appliedPromo.type === 'percentage' 
-                        ? `${appliedPromo.discount}% discount applied`
-                        : `$${appliedPromo.discount} discount applied`}
+                      {formatPrice(appliedPromo.discount)} discount applied
                     </p>
                   </div>
                 ) : (
@@ -157,36 +162,6 @@ export default function CartPage() {
                         <span>{promoError}</span>
                       </div>
                     )}
-                    
-                    <button
-                      onClick={() => setShowAvailablePromos(!showAvailablePromos)}
-                      className="text-sm text-orange-600 hover:text-orange-700 mt-2"
-                    >
-                      {showAvailablePromos ? 'Hide' : 'View'} available codes
-                    </button>
-                    
-                    {showAvailablePromos && (
-                      <div className="mt-3 space-y-2">
-                        {AVAILABLE_PROMO_CODES.map(promo => (
-                          <div
-                            key={promo.code}
-                            className="p-2 bg-gray-50 rounded text-xs cursor-pointer hover:bg-gray-100"
-                            onClick={() => {
-                              setPromoInput(promo.code)
-                              setShowAvailablePromos(false)
-                            }}
-                          >
-                            <div className="font-semibold text-orange-600">{promo.code}</div>
-                            <div className="text-gray-600">
-                              {promo.type === 'percentage' 
-                                ? `${promo.discount}% off`
-                                : `$${promo.discount} off`}
-                              {promo.minPurchase && ` (min $${promo.minPurchase})`}
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    )}
                   </>
                 )}
               </div>
@@ -195,37 +170,47 @@ export default function CartPage() {
               <div className="space-y-4 mb-6">
                 <div className="flex justify-between text-gray-600">
                   <span>Subtotal ({totalItems} {totalItems === 1 ? 'item' : 'items'})</span>
-                  <span>${subtotal.toFixed(2)}</span>
+                  <span>{formatPrice(subtotal)}</span>
                 </div>
                 
                 {discount > 0 && (
                   <div className="flex justify-between text-green-600">
                     <span>Discount</span>
-                    <span>-${discount.toFixed(2)}</span>
+                    <span>-{formatPrice(discount)}</span>
                   </div>
                 )}
                 
                 <div className="flex justify-between text-gray-600">
                   <span>Service Fee</span>
-                  <span>$0</span>
+                  <span>{formatPrice(0)}</span>
                 </div>
                 
                 <div className="border-t pt-4 flex justify-between font-bold text-xl">
                   <span>Total</span>
-                  <span className="text-orange-600">${totalPrice.toFixed(2)}</span>
+                  <span className="text-orange-600">{formatPrice(totalPrice)}</span>
                 </div>
                 
                 {discount > 0 && (
                   <div className="text-center text-sm text-green-600 font-medium">
-                    You saved ${discount.toFixed(2)}!
+                    You saved {formatPrice(discount)}!
                   </div>
                 )}
               </div>
 
+              {(issues.length > 0 || cartError) && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+                  {cartError && <p>{cartError}</p>}
+                  {issues.map(issue => (
+                    <p key={issue}>{issue}</p>
+                  ))}
+                </div>
+              )}
+
               <Button
                 variant="primary"
                 className="w-full mb-3"
                 onClick={() => navigate('/checkout')}
+                disabled={issues.length > 0 || cartLoading}
               >
                 Proceed to Checkout
               </Button>
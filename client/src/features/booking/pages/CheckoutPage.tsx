@@ -1,7 +1,8 @@
-import { useState } from 'react'
-import { useSelector } from 'react-redux'
+import { useEffect, useState } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
 import { useNavigate } from 'react-router-dom'
-import { RootState } from '@store/store'
+import { RootState, AppDispatch } from '@store/store'
+import { fetchCart } from '@store/slices/bookingSlice'
 import { CheckoutFormData, TravelerDetails } from '@/types/booking'
 import { Button } from '@components/common/Button/Button'
 import { Input } from '@components/common/Input/Input'
@@ -10,7 +11,8 @@ import { FaArrowLeft, FaShieldAlt, FaUsers, FaPhone, FaCheckCircle } from 'react
 
 export default function CheckoutPage() {
   const navigate = useNavigate()
-  const { items, totalItems, subtotal, discount, totalPrice, appliedPromo } = useSelector((state: RootState) => state.booking)
+  const dispatch = useDispatch<AppDispatch>()
+  const { items, totalItems, subtotal, discount, totalPrice, appliedPromo, currency, issues } = useSelector((state: RootState) => state.booking)
   
   const [formData, setFormData] = useState<CheckoutFormData>({
     contactInfo: {
@@ -39,11 +41,22 @@ export default function CheckoutPage() {
   const [currentStep, setCurrentStep] = useState(1)
   const totalSteps = 3
 
-  // Initialize travelers based on cart items
+  useEffect(() => {
+    dispatch(fetchCart())
+  }, [dispatch])
+
+  const formatPrice = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
+
+  // Initialize travelers based on the tours in the cart
   const initializeTravelers = () => {
-    const totalTravelers = items.reduce((sum, item) => 
-      sum + item.participants.adults + item.participants.children, 0
-    )
+    const totalTravelers = items
+      .filter(item => item.type === 'TOUR')
+      .reduce((sum, item) => sum + item.participants.adults + item.participants.children, 0)
     
     const travelers: TravelerDetails[] = []
     for (let i = 0; i < totalTravelers; i++) {
@@ -60,26 +73,34 @@ export default function CheckoutPage() {
       })
     }
     
-    setFormData(prev => ({ ...prev, travelers }))
+    // Keep details already entered when the cart is reloaded
+    setFormData(prev => prev.travelers.length > 0 ? prev : { ...prev, travelers })
   }
 
-  // Initialize travelers on component mount
-  useState(() => {
-    if (items.length > 0 && formData.travelers.length === 0) {
+  // Initialize travelers once the cart has loaded
+  useEffect(() => {
+    if (items.length > 0) {
       initializeTravelers()
     }
-  })
+  }, [items]) // eslint-disable-line react-hooks/exhaustive-deps
 
-  const handleNext = () => {
+  const handleNext = async () => {
     if (currentStep < totalSteps) {
       setCurrentStep(currentStep + 1)
     } else {
+      // Price the cart once more; stay here if anything can no longer be booked
+      const result = await dispatch(fetchCart())
+      if (!fetchCart.fulfilled.match(result) || result.payload.issues.length > 0) {
+        return
+      }
+
       // Proceed to payment with complete booking data
       navigate('/payment', { 
         state: { 
           checkoutData: formData,
           cartItems: items,
           totalPrice,
+          currency,
           subtotal,
           discount,
           appliedPromo
@@ -209,18 +230,27 @@ export default function CheckoutPage() {
                       <h3 className="text-sm font-medium text-gray-900 truncate">
                         {item.tourName}
                       </h3>
-                      <p className="text-sm text-gray-500">
-                        {new Date(item.date).toLocaleDateString()}
-                      </p>
-                      <p className="text-sm text-gray-500">
-                        {item.participants.adults} adult{item.participants.adults > 1 ? 's' : ''}
-                        {item.participants.children > 0 && 
-                          `, ${item.participants.children} child${item.participants.children > 1 ? 'ren' : ''}`
-                        }
-                      </p>
+                      {item.type === 'PRODUCT' ? (
+                        <p className="text-sm text-gray-500">Quantity: {item.quantity || 1}</p>
+                      ) : (
+                        <>
+                          <p className="text-sm text-gray-500">
+                            {new Date(item.date).toLocaleDateString()}
+                          </p>
+                          <p className="text-sm text-gray-500">
+                            {item.participants.adults} adult{item.participants.adults > 1 ? 's' : ''}
+                            {item.participants.children > 0 && 
+                              `, ${item.participants.children} child${item.participants.children > 1 ? 'ren' : ''}`
+                            }
+                          </p>
+                        </>
+                      )}
+                      {item.issue && (
+                        <p className="text-sm text-red-600">{item.issue}</p>
+                      )}
                     </div>
                     <div className="text-sm font-medium text-gray-900">
-                      ${item.totalPrice}
+                      {formatPrice(item.totalPrice)}
                     </div>
                   </div>
                 ))}
@@ -230,24 +260,24 @@ export default function CheckoutPage() {
               <div className="space-y-2 mb-6 border-t pt-4">
                 <div className="flex justify-between text-sm">
                   <span>Subtotal ({totalItems} item{totalItems > 1 ? 's' : ''})</span>
-                  <span>${subtotal.toFixed(2)}</span>
+                  <span>{formatPrice(subtotal)}</span>
                 </div>
                 
                 {discount > 0 && (
                   <div className="flex justify-between text-sm text-green-600">
                     <span>Discount ({appliedPromo?.code})</span>
-                    <span>-${discount.toFixed(2)}</span>
+                    <span>-{formatPrice(discount)}</span>
                   </div>
                 )}
                 
                 <div className="flex justify-between text-sm">
                   <span>Service Fee</span>
-                  <span>$0</span>
+                  <span>{formatPrice(0)}</span>
                 </div>
                 
                 <div className="border-t pt-2 flex justify-between font-bold text-lg">
                   <span>Total</span>
-                  <span className="text-orange-600">${totalPrice.toFixed(2)}</span>
+                  <span className="text-orange-600">{formatPrice(totalPrice)}</span>
                 </div>
               </div>
 
@@ -270,6 +300,15 @@ export default function CheckoutPage() {
           </div>
         </div>
 
+        {issues.length > 0 && (
+          <div className="mt-8 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <p className="font-medium mb-1">Some items in your cart need attention before you can pay:</p>
+            {issues.map(issue => (
+              <p key={issue}>{issue}</p>
+            ))}
+          </div>
+        )}
+
         {/* Navigation Buttons */}
         <div className="mt-8 flex justify-between">
           <Button
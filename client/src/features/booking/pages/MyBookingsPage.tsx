@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 // import { useSelector } from 'react-redux'
 // import { RootState } from '@store/store'
 import { Button } from '@components/common/Button/Button'
 import { Card, CardContent } from '@components/common/Card'
-import { FaCalendar, FaMapMarkerAlt, FaClock, FaUsers, FaQrcode, FaDownload, FaTimes, FaFilter, FaSearch } from 'react-icons/fa'
+import { FaCalendar, FaMapMarkerAlt, FaClock, FaUsers, FaQrcode, FaDownload, FaTimes, FaFilter, FaSearch, FaHourglassHalf } from 'react-icons/fa'
+import bookingService, { WaitlistEntry, CancellationQuote } from '@/services/booking.service'
 
 interface Booking {
   id: string
@@ -78,6 +79,7 @@ const mockBookings: Booking[] = [
 
 const MyBookingsPage: React.FC = () => {
   const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
   // const { user } = useSelector((state: RootState) => state.auth) // TODO: Use for user-specific bookings
   
   const [bookings, setBookings] = useState<Booking[]>(mockBookings)
@@ -87,12 +89,68 @@ const MyBookingsPage: React.FC = () => {
   const [loading, setLoading] = useState(false)
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null)
   const [showCancelModal, setShowCancelModal] = useState(false)
+  const [cancelQuote, setCancelQuote] = useState<CancellationQuote | null>(null)
+  const [cancelReason, setCancelReason] = useState('')
+  const [cancelError, setCancelError] = useState<string | null>(null)
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([])
+  const [waitlistAction, setWaitlistAction] = useState<string | null>(null)
+  const [waitlistMessage, setWaitlistMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
   useEffect(() => {
     // TODO: Replace with actual API call
     // fetchUserBookings()
   }, [])
 
+  useEffect(() => {
+    // Offer emails link here with the claim token
+    const offerToken = searchParams.get('waitlistOffer')
+    if (offerToken) {
+      searchParams.delete('waitlistOffer')
+      setSearchParams(searchParams, { replace: true })
+      runWaitlistAction('token', () => bookingService.claimWaitlistOfferByToken(offerToken), 'claim')
+    } else {
+      fetchWaitlist()
+    }
+  }, [])
+
+  const fetchWaitlist = async () => {
+    try {
+      setWaitlist(await bookingService.getMyWaitlist())
+    } catch (error) {
+      console.error('Failed to load waitlist:', error)
+    }
+  }
+
+  const runWaitlistAction = async (
+    key: string,
+    action: () => Promise<any>,
+    kind: 'claim' | 'leave'
+  ) => {
+    setWaitlistAction(key)
+    setWaitlistMessage(null)
+    try {
+      const result = await action()
+      setWaitlistMessage({
+        type: 'success',
+        text: kind === 'claim'
+          ? `Spot claimed! Booking ${result.data?.booking?.bookingNumber ?? ''} is awaiting payment.`
+          : 'You have left the waitlist.',
+      })
+    } catch (error: any) {
+      setWaitlistMessage({
+        type: 'error',
+        text: error.response?.data?.message || (kind === 'claim'
+          ? 'Failed to claim this offer. It may have expired.'
+          : 'Failed to leave the waitlist.'),
+      })
+    } finally {
+      setWaitlistAction(null)
+      fetchWaitlist()
+    }
+  }
+
+  const activeWaitlist = waitlist.filter(entry => entry.status === 'WAITING' || entry.status === 'OFFERED')
+
   useEffect(() => {
     filterBookings()
   }, [activeFilter, searchTerm, bookings])
@@ -116,23 +174,43 @@ const MyBookingsPage: React.FC = () => {
     setFilteredBookings(filtered)
   }
 
+  // Show the refund the booking's cancellation policy allows before the user confirms
+  const openCancelModal = async (booking: Booking) => {
+    setSelectedBooking(booking)
+    setShowCancelModal(true)
+    setCancelQuote(null)
+    setCancelReason('')
+    setCancelError(null)
+    try {
+      setCancelQuote(await bookingService.getCancellationQuote(booking.id))
+    } catch (error: any) {
+      setCancelError(error.response?.data?.error?.message || 'Could not calculate your refund')
+    }
+  }
+
+  const closeCancelModal = () => {
+    setShowCancelModal(false)
+    setSelectedBooking(null)
+    setCancelQuote(null)
+  }
+
   const handleCancelBooking = async (bookingId: string) => {
     setLoading(true)
+    setCancelError(null)
     try {
-      // TODO: API call to cancel booking
-      // await bookingService.cancelBooking(bookingId)
-      
-      // Mock cancellation
+      await bookingService.cancelBooking(bookingId, { reason: cancelReason, requestRefund: true })
+
+      const refunded = (cancelQuote?.refunds || []).some(refund => refund.amount > 0)
       setBookings(prev => prev.map(booking =>
         booking.id === bookingId
-          ? { ...booking, status: 'cancelled' as const, paymentStatus: 'refunded' as const }
+          ? { ...booking, status: 'cancelled' as const, paymentStatus: refunded ? 'refunded' as const : booking.paymentStatus }
           : booking
       ))
-      
-      setShowCancelModal(false)
-      setSelectedBooking(null)
-    } catch (error) {
+
+      closeCancelModal()
+    } catch (error: any) {
       console.error('Failed to cancel booking:', error)
+      setCancelError(error.response?.data?.error?.message || 'Failed to cancel booking')
     } finally {
       setLoading(false)
     }
@@ -146,6 +224,15 @@ const MyBookingsPage: React.FC = () => {
     })
   }
 
+  const formatOfferExpiry = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
   const formatPrice = (amount: number, currency: string) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -190,6 +277,74 @@ const MyBookingsPage: React.FC = () => {
           <p className="text-gray-600 mt-2">Manage your tour bookings and view booking history</p>
         </div>
 
+        {/* Waitlist */}
+        {waitlistMessage && (
+          <div className={`rounded-lg p-4 mb-6 text-sm border ${
+            waitlistMessage.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-700'
+              : 'bg-red-50 border-red-200 text-red-700'
+          }`}>
+            {waitlistMessage.text}
+          </div>
+        )}
+
+        {activeWaitlist.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <FaHourglassHalf className="mr-2 text-orange-500" />
+              Waitlist
+            </h2>
+            <div className="space-y-3">
+              {activeWaitlist.map(entry => (
+                <div
+                  key={entry.id}
+                  className={`flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 rounded-lg border ${
+                    entry.status === 'OFFERED' ? 'border-green-300 bg-green-50' : 'border-gray-200'
+                  }`}
+                >
+                  <div>
+                    <div className="font-medium text-gray-900">{entry.tour?.title ?? 'Tour'}</div>
+                    <div className="text-sm text-gray-600">
+                      {entry.departure && <span>{formatDate(entry.departure.startDate)} · </span>}
+                      {entry.adults} Adults{entry.children > 0 && `, ${entry.children} Children`}
+                    </div>
+                    {entry.status === 'WAITING' ? (
+                      <div className="text-sm text-orange-600 mt-1">
+                        Position #{entry.position} in the queue
+                      </div>
+                    ) : (
+                      <div className="text-sm text-green-700 mt-1 font-medium">
+                        Seats are held for you until {entry.offerExpiresAt && formatOfferExpiry(entry.offerExpiresAt)}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {entry.status === 'OFFERED' && (
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        disabled={waitlistAction !== null}
+                        onClick={() => runWaitlistAction(entry.id, () => bookingService.claimWaitlistOffer(entry.id), 'claim')}
+                      >
+                        {waitlistAction === entry.id ? 'Claiming...' : 'Claim Spot'}
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={waitlistAction !== null}
+                      onClick={() => runWaitlistAction(entry.id, () => bookingService.leaveWaitlist(entry.id), 'leave')}
+                      className="text-red-600 border-red-600 hover:bg-red-50"
+                    >
+                      Leave
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Filters and Search */}
         <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
           <div className="flex flex-col md:flex-row gap-4 items-center justify-between">
@@ -331,10 +486,7 @@ const MyBookingsPage: React.FC = () => {
                                 <Button
                                   variant="outline"
                                   size="sm"
-                                  onClick={() => {
-                                    setSelectedBooking(booking)
-                                    setShowCancelModal(true)
-                                  }}
+                                  onClick={() => openCancelModal(booking)}
                                   className="flex items-center justify-center text-red-600 border-red-600 hover:bg-red-50"
                                 >
                                   <FaTimes className="mr-2" />
@@ -374,22 +526,57 @@ const MyBookingsPage: React.FC = () => {
                 This action cannot be undone and refund processing may take 3-5 business days.
               </p>
               
-              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
                 <h4 className="font-medium text-yellow-800 mb-2">Cancellation Policy</h4>
-                <ul className="text-sm text-yellow-700 space-y-1">
-                  <li>• Free cancellation up to 24 hours before tour</li>
-                  <li>• 50% refund for cancellations within 24 hours</li>
-                  <li>• No refund for same-day cancellations</li>
-                </ul>
+                {cancelQuote ? (
+                  <ul className="text-sm text-yellow-700 space-y-1">
+                    {cancelQuote.policy.summary.map((rule, idx) => (
+                      <li key={idx}>• {rule}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-yellow-700">{cancelError ? 'Unavailable' : 'Loading...'}</p>
+                )}
               </div>
 
+              {cancelQuote && (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 text-sm text-gray-700">
+                  {cancelQuote.refunds.some(refund => refund.amount > 0) ? (
+                    <>
+                      <p className="font-medium text-gray-900">
+                        You will be refunded{' '}
+                        {cancelQuote.refunds
+                          .filter(refund => refund.amount > 0)
+                          .map(refund => formatPrice(refund.amount, refund.currency))
+                          .join(' + ')}
+                      </p>
+                      <p>{cancelQuote.refundPercent}% refund, {cancelQuote.hoursBeforeStart} hours before the tour starts</p>
+                    </>
+                  ) : (
+                    <p className="font-medium text-gray-900">
+                      {cancelQuote.refunds.length > 0 ? 'This cancellation is not eligible for a refund' : 'Nothing has been paid for this booking yet'}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason for cancelling</label>
+              <textarea
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                rows={3}
+                placeholder="At least 10 characters"
+                className="w-full px-3 py-2 mb-4 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              />
+
+              {cancelError && (
+                <p className="text-sm text-red-600 mb-4">{cancelError}</p>
+              )}
+
               <div className="flex gap-3">
                 <Button
                   variant="outline"
-                  onClick={() => {
-                    setShowCancelModal(false)
-                    setSelectedBooking(null)
-                  }}
+                  onClick={closeCancelModal}
                   className="flex-1"
                 >
                   Keep Booking
@@ -397,7 +584,7 @@ const MyBookingsPage: React.FC = () => {
                 <Button
                   variant="primary"
                   onClick={() => handleCancelBooking(selectedBooking.id)}
-                  disabled={loading}
+                  disabled={loading || !cancelQuote || cancelReason.trim().length < 10}
                   className="flex-1 bg-red-600 hover:bg-red-700"
                 >
                   {loading ? 'Cancelling...' : 'Cancel Booking'}
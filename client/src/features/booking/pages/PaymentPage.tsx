@@ -1,7 +1,7 @@
 import { useState } from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
 import { useSelector, useDispatch } from 'react-redux'
-import { RootState } from '@store/store'
+import { RootState, AppDispatch } from '@store/store'
 import { clearCart } from '@store/slices/bookingSlice'
 import { CheckoutFormData } from '@/types/booking'
 import { Button } from '@components/common/Button/Button'
@@ -25,7 +25,7 @@ interface PaymentFormData {
 export default function PaymentPage() {
   const location = useLocation()
   const navigate = useNavigate()
-  const dispatch = useDispatch()
+  const dispatch = useDispatch<AppDispatch>()
   
   const { items, totalItems, subtotal, discount, totalPrice, appliedPromo } = useSelector((state: RootState) => state.booking)
   const checkoutData = location.state?.checkoutData as CheckoutFormData
@@ -1,5 +1,6 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useChat } from '@hooks/useChat'
+import { useAuth } from '@hooks/useAuth'
 
 export interface ChatHistoryProps {
   isOpen: boolean
@@ -7,9 +8,30 @@ export interface ChatHistoryProps {
 }
 
 export const ChatHistory = ({ isOpen, onClose }: ChatHistoryProps) => {
-  const { conversations, currentConversationId, openConversation, removeConversation, saveConversation } = useChat()
+  const {
+    conversations,
+    currentConversationId,
+    isLoadingConversations,
+    loadConversations,
+    openConversation,
+    renameConversation,
+    archiveConversation,
+    removeConversation,
+    startNewChat,
+  } = useChat()
+  const { isAuthenticated } = useAuth()
   const [searchQuery, setSearchQuery] = useState('')
+  const [showArchived, setShowArchived] = useState(false)
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameTitle, setRenameTitle] = useState('')
+
+  // Conversations are kept on the server for signed-in users
+  useEffect(() => {
+    if (isOpen && isAuthenticated) {
+      loadConversations(showArchived)
+    }
+  }, [isOpen, isAuthenticated, showArchived, loadConversations])
 
   // Filter conversations based on search query
   const filteredConversations = conversations.filter((conv) =>
@@ -17,6 +39,7 @@ export const ChatHistory = ({ isOpen, onClose }: ChatHistoryProps) => {
   )
 
   const handleConversationClick = (conversationId: string) => {
+    if (renamingId || deleteConfirmId) return
     openConversation(conversationId)
     onClose()
   }
@@ -37,12 +60,32 @@ export const ChatHistory = ({ isOpen, onClose }: ChatHistoryProps) => {
     setDeleteConfirmId(null)
   }
 
+  const handleRenameClick = (e: React.MouseEvent, conversationId: string, title: string) => {
+    e.stopPropagation()
+    setRenamingId(conversationId)
+    setRenameTitle(title)
+  }
+
+  const handleRenameSubmit = (e: React.FormEvent, conversationId: string) => {
+    e.preventDefault()
+    const title = renameTitle.trim()
+    if (title) {
+      renameConversation(conversationId, title)
+    }
+    setRenamingId(null)
+  }
+
+  const handleArchiveClick = (e: React.MouseEvent, conversationId: string) => {
+    e.stopPropagation()
+    archiveConversation(conversationId, !showArchived)
+  }
+
   const handleNewChat = () => {
-    saveConversation('New Conversation')
+    startNewChat()
     onClose()
   }
 
-  const formatDate = (date: Date) => {
+  const formatDate = (date: string) => {
     const now = new Date()
     const diffMs = now.getTime() - new Date(date).getTime()
     const diffMins = Math.floor(diffMs / 60000)
@@ -126,20 +169,50 @@ export const ChatHistory = ({ isOpen, onClose }: ChatHistoryProps) => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
             </svg>
           </div>
+
+          {/* Active / Archived */}
+          {isAuthenticated && (
+            <div className="mt-3 grid grid-cols-2 gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm">
+              {[false, true].map((archived) => (
+                <button
+                  key={String(archived)}
+                  onClick={() => setShowArchived(archived)}
+                  className={`py-1 rounded-md transition-colors ${
+                    showArchived === archived
+                      ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                  }`}
+                >
+                  {archived ? 'Archived' : 'Active'}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Conversations List */}
         <div className="flex-1 overflow-y-auto p-2">
-          {filteredConversations.length === 0 ? (
+          {!isAuthenticated ? (
+            <div className="flex flex-col items-center justify-center h-full text-center p-4">
+              <p className="text-gray-500 dark:text-gray-400 text-sm">Sign in to keep your conversations</p>
+              <p className="text-gray-400 dark:text-gray-500 text-xs mt-1">
+                You can pick up any of them later, on any device
+              </p>
+            </div>
+          ) : isLoadingConversations && conversations.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-sm text-gray-500 dark:text-gray-400">
+              Loading conversations...
+            </div>
+          ) : filteredConversations.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-center p-4">
               <svg className="w-16 h-16 text-gray-300 dark:text-gray-700 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
               </svg>
               <p className="text-gray-500 dark:text-gray-400 text-sm">
-                {searchQuery ? 'No conversations found' : 'No conversations yet'}
+                {searchQuery ? 'No conversations found' : showArchived ? 'No archived conversations' : 'No conversations yet'}
               </p>
               <p className="text-gray-400 dark:text-gray-500 text-xs mt-1">
-                {searchQuery ? 'Try a different search term' : 'Start a new chat to begin'}
+                {searchQuery ? 'Try a different search term' : showArchived ? 'Archived conversations show up here' : 'Start a new chat to begin'}
               </p>
             </div>
           ) : (
@@ -176,6 +249,29 @@ export const ChatHistory = ({ isOpen, onClose }: ChatHistoryProps) => {
                         </button>
                       </div>
                     </div>
+                  ) : renamingId === conversation.id ? (
+                    // Rename
+                    <form
+                      onSubmit={(e) => handleRenameSubmit(e, conversation.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="flex items-center gap-2"
+                    >
+                      <input
+                        autoFocus
+                        value={renameTitle}
+                        maxLength={200}
+                        onChange={(e) => setRenameTitle(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Escape' && setRenamingId(null)}
+                        className="flex-1 min-w-0 px-2 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded focus:outline-none focus:ring-2 focus:ring-orange-500"
+                        aria-label="Conversation title"
+                      />
+                      <button
+                        type="submit"
+                        className="px-2 py-1 bg-orange-600 hover:bg-orange-700 text-white text-xs rounded transition-colors"
+                      >
+                        Save
+                      </button>
+                    </form>
                   ) : (
                     // Normal View
                     <>
@@ -185,18 +281,38 @@ export const ChatHistory = ({ isOpen, onClose }: ChatHistoryProps) => {
                             {conversation.title}
                           </h3>
                           <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                            {conversation.messages.length} messages • {formatDate(conversation.updatedAt)}
+                            {conversation.messageCount ?? 0} messages • {formatDate(conversation.lastMessageAt || conversation.updatedAt)}
                           </p>
                         </div>
-                        <button
-                          onClick={(e) => handleDeleteClick(e, conversation.id)}
-                          className="opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-all"
-                          aria-label="Delete conversation"
-                        >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
+                        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-all">
+                          <button
+                            onClick={(e) => handleRenameClick(e, conversation.id, conversation.title)}
+                            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-all"
+                            aria-label="Rename conversation"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536a4 4 0 01-1.897 1.055L7 18.5l.909-3.64A4 4 0 019 13z" />
+                            </svg>
+                          </button>
+                          <button
+                            onClick={(e) => handleArchiveClick(e, conversation.id)}
+                            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-all"
+                            aria-label={showArchived ? 'Unarchive conversation' : 'Archive conversation'}
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                            </svg>
+                          </button>
+                          <button
+                            onClick={(e) => handleDeleteClick(e, conversation.id)}
+                            className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-all"
+                            aria-label="Delete conversation"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
+                        </div>
                       </div>
                       {currentConversationId === conversation.id && (
                         <div className="absolute left-0 top-0 bottom-0 w-1 bg-orange-600 rounded-l-lg" />
@@ -212,7 +328,7 @@ export const ChatHistory = ({ isOpen, onClose }: ChatHistoryProps) => {
         {/* Footer */}
         <div className="p-4 border-t border-gray-200 dark:border-gray-800">
           <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
-            {conversations.length} conversation{conversations.length !== 1 ? 's' : ''} saved
+            {conversations.length} {showArchived ? 'archived ' : ''}conversation{conversations.length !== 1 ? 's' : ''}
           </div>
         </div>
       </div>
@@ -4,11 +4,14 @@ import { VoiceInput } from './VoiceInput'
 
 export interface ChatInputProps {
   onSendMessage: (message: string) => void
+  // Shown instead of the send button while an answer is being generated
+  onStop?: () => void
+  isGenerating?: boolean
   disabled?: boolean
   placeholder?: string
 }
 
-export const ChatInput = ({ onSendMessage, disabled = false, placeholder }: ChatInputProps) => {
+export const ChatInput = ({ onSendMessage, onStop, isGenerating = false, disabled = false, placeholder }: ChatInputProps) => {
   const [message, setMessage] = useState('')
 
   const handleVoiceTranscript = (transcript: string) => {
@@ -57,27 +60,40 @@ export const ChatInput = ({ onSendMessage, disabled = false, placeholder }: Chat
           />
         </div>
 
-        {/* Send Button */}
-        <Button
-          onClick={handleSend}
-          disabled={!message.trim() || disabled}
-          variant="primary"
-          className="h-12 px-6"
-        >
-          <svg
-            className="w-5 h-5"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
+        {/* Send / Stop Button */}
+        {isGenerating && onStop ? (
+          <Button
+            onClick={onStop}
+            variant="outline"
+            className="h-12 px-6"
+            aria-label="Stop generating"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-            />
-          </svg>
-        </Button>
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+              <rect x="6" y="6" width="12" height="12" rx="2" />
+            </svg>
+          </Button>
+        ) : (
+          <Button
+            onClick={handleSend}
+            disabled={!message.trim() || disabled}
+            variant="primary"
+            className="h-12 px-6"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+              />
+            </svg>
+          </Button>
+        )}
       </div>
 
       {/* Helper Text */}
@@ -1,5 +1,6 @@
 import { useRef, useEffect, useState } from 'react'
 import { ChatMessage } from './ChatMessage'
+import { RichChatMessage } from './RichChatMessage'
 import { ChatInput } from './ChatInput'
 import { TypingIndicator } from './TypingIndicator'
 import { SuggestedQuestions } from './SuggestedQuestions'
@@ -7,16 +8,32 @@ import { ChatLanguageSelector } from './ChatLanguageSelector'
 import { QuickActions } from './QuickActions'
 import { useChat } from '@hooks/useChat'
 import { detectLanguage } from '@utils/languageDetection'
+import type { ChatAttachment } from '@/services/chatService'
+import type { RichMessage } from '@/types/richMessage'
+
+// Cards are shown as rich messages following the answer they belong to
+const toRichMessage = (
+  message: { id: string; timestamp: Date },
+  attachment: ChatAttachment,
+  index: number
+): RichMessage => ({
+  ...attachment,
+  id: `${message.id}-card-${index}`,
+  role: 'assistant',
+  timestamp: message.timestamp,
+})
 
 export const ChatInterface = () => {
   const { 
     messages, 
+    isLoading,
     isTyping, 
     error, 
     chatLanguage,
     autoDetectLanguage,
     translationEnabled,
     sendMessage, 
+    stopGenerating,
     clearChat, 
     dismissError,
     changeChatLanguage,
@@ -72,7 +89,7 @@ export const ChatInterface = () => {
             <div className="min-w-0 flex-1 overflow-hidden">
               <h2 className="font-semibold text-base sm:text-lg truncate">AI Travel Guide</h2>
               <p className="text-xs text-muted-foreground truncate">
-                {isTyping ? 'Typing...' : 'Online'}
+                {isLoading ? 'Typing...' : 'Online'}
               </p>
             </div>
           </div>
@@ -93,7 +110,7 @@ export const ChatInterface = () => {
             <ChatLanguageSelector
               selectedLanguage={chatLanguage}
               onLanguageChange={changeChatLanguage}
-              disabled={isTyping}
+              disabled={isLoading}
             />
           </div>
           <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 text-xs sm:text-sm min-w-0 overflow-hidden">
@@ -146,11 +163,17 @@ export const ChatInterface = () => {
         style={{ maxHeight: 'calc(100vh - 320px)' }}
       >
         <div className="min-w-0 w-full">
-          {messages.map((message) => (
-            <div key={message.id} className="min-w-0 w-full mb-3 sm:mb-4">
-              <ChatMessage message={message} />
-            </div>
-          ))}
+          {messages
+            // An answer shows once its first words or cards arrive; the typing indicator stands in until then
+            .filter((message) => message.status !== 'streaming' || message.content || message.attachments?.length)
+            .map((message) => (
+              <div key={message.id} className="min-w-0 w-full mb-3 sm:mb-4">
+                {message.content && <ChatMessage message={message} />}
+                {message.attachments?.map((attachment, index) => (
+                  <RichChatMessage key={index} message={toRichMessage(message, attachment, index)} />
+                ))}
+              </div>
+            ))}
           {isTyping && (
             <div className="min-w-0 w-full">
               <TypingIndicator />
@@ -162,16 +185,21 @@ export const ChatInterface = () => {
 
       {/* Quick Actions */}
       {messages.length <= 1 && (
-        <QuickActions onActionClick={handleSendMessage} disabled={isTyping} />
+        <QuickActions onActionClick={handleSendMessage} disabled={isLoading} />
       )}
 
       {/* Suggested Questions */}
       {showSuggestions && messages.length <= 1 && (
-        <SuggestedQuestions onQuestionClick={handleQuestionClick} disabled={isTyping} />
+        <SuggestedQuestions onQuestionClick={handleQuestionClick} disabled={isLoading} />
       )}
 
       {/* Input Area */}
-      <ChatInput onSendMessage={handleSendMessage} disabled={isTyping} />
+      <ChatInput
+        onSendMessage={handleSendMessage}
+        onStop={stopGenerating}
+        isGenerating={isLoading}
+        disabled={isLoading}
+      />
     </div>
   )
 }
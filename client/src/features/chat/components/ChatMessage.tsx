@@ -1,10 +1,12 @@
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import { Link } from 'react-router-dom'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import rehypeHighlight from 'rehype-highlight'
 import rehypeRaw from 'rehype-raw'
 import { useSpeech } from '@hooks/useSpeech'
+import type { ChatSource } from '@/services/chatService'
 import 'highlight.js/styles/github-dark.css'
 
 export interface Message {
@@ -12,6 +14,8 @@ export interface Message {
   content: string
   role: 'user' | 'assistant'
   timestamp: Date
+  status?: 'sending' | 'streaming' | 'sent' | 'error'
+  sources?: ChatSource[]
 }
 
 export interface ChatMessageProps {
@@ -165,10 +169,29 @@ export const ChatMessage = ({ message }: ChatMessageProps) => {
                 >
                   {message.content}
                 </ReactMarkdown>
+                {message.status === 'streaming' && (
+                  <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-current animate-pulse" aria-hidden="true" />
+                )}
               </div>
             )}
           </div>
 
+          {/* Sources the answer cites */}
+          {!isUser && message.sources && message.sources.length > 0 && (
+            <div className="mt-2 px-2 flex flex-wrap gap-x-3 gap-y-1 text-xs">
+              <span className="text-muted-foreground">Sources:</span>
+              {message.sources.map((source) => (
+                <Link
+                  key={source.index}
+                  to={source.url}
+                  className="text-green-600 dark:text-green-400 hover:underline break-words"
+                >
+                  [{source.index}] {source.title}
+                </Link>
+              ))}
+            </div>
+          )}
+
           {/* Timestamp */}
           <span className="text-xs text-muted-foreground mt-1 px-2">
             {formatTime(message.timestamp)}
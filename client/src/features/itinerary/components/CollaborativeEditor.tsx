@@ -1,9 +1,12 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useRef } from 'react'
 import { Button } from '@components/common/Button/Button'
-import { Itinerary, ItineraryItem } from '../pages/ItineraryPage'
+import { Itinerary, ItineraryItem, DayPlanData } from '../pages/ItineraryPage'
+import itineraryService, { fromServerItem } from '@/services/itinerary.service'
+import { useItineraryCollaboration, ItemChangeEvent } from '@/hooks/useItineraryCollaboration'
+import { useAuth } from '@/hooks/useAuth'
 import {
   FaUsers, FaEdit, FaEye, FaSave, FaTimes, FaPlus, FaTrash,
-  FaClock, FaMapMarkerAlt, FaDollarSign, FaCommentAlt,
+  FaClock, FaDollarSign, FaCommentAlt,
   FaUserCircle, FaCircle
 } from 'react-icons/fa'
 
@@ -14,20 +17,46 @@ interface CollaborativeEditorProps {
   isShared?: boolean
 }
 
-interface ActiveUser {
-  id: string
-  name: string
-  avatar?: string
-  color: string
-  cursor?: { x: number; y: number }
-  editing?: string // ID of item being edited
+type EditableField = 'title' | 'location' | 'startTime' | 'endTime' | 'price' | 'description' | 'notes'
+
+// The API calls an item's price its cost
+const toServerField = (field: string) => (field === 'price' ? 'cost' : field)
+
+const dayTarget = (dayNumber: number) => `day:${dayNumber}`
+
+/**
+ * Replace the items of one day, keeping day and trip totals in step
+ */
+const withDayItems = (itinerary: Itinerary, dayIndex: number, items: ItineraryItem[]): Itinerary => {
+  const days = itinerary.days.map((day, index): DayPlanData =>
+    index === dayIndex
+      ? {
+          ...day,
+          items,
+          totalCost: items.reduce((sum, item) => sum + item.price, 0),
+          totalDuration: items.reduce((sum, item) => sum + item.duration, 0)
+        }
+      : day
+  )
+
+  return {
+    ...itinerary,
+    days,
+    actualCost: days.reduce((sum, day) => sum + day.totalCost, 0),
+    updatedAt: new Date().toISOString()
+  }
 }
 
-interface EditingState {
-  itemId: string
-  field: string
-  value: string
-  userId: string
+/**
+ * Put an item into a day's list in the order reported by the server
+ */
+const placeItem = (items: ItineraryItem[], item: ItineraryItem, order: string[]): ItineraryItem[] => {
+  const byId = new Map(items.filter((entry) => entry.id !== item.id).map((entry) => [entry.id, entry]))
+  byId.set(item.id, item)
+
+  const ordered = order.map((id) => byId.get(id)).filter((entry): entry is ItineraryItem => !!entry)
+  const unordered = Array.from(byId.values()).filter((entry) => !order.includes(entry.id))
+  return [...ordered, ...unordered]
 }
 
 const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
@@ -36,98 +65,166 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
   userRole,
   isShared = false
 }) => {
-  const [activeUsers, setActiveUsers] = useState<ActiveUser[]>([])
-  const [editingStates, setEditingStates] = useState<EditingState[]>([])
+  const { user } = useAuth()
   const [selectedDay, setSelectedDay] = useState(0)
-  const [editingItem, setEditingItem] = useState<string | null>(null)
+  const [editingTarget, setEditingTarget] = useState<string | null>(null)
   const [editingField, setEditingField] = useState<string | null>(null)
   const [tempValues, setTempValues] = useState<Record<string, string>>({})
   const [showActiveUsers, setShowActiveUsers] = useState(true)
+  const [statusMessage, setStatusMessage] = useState<string | null>(null)
 
-  // Simulate active users for demo
-  useEffect(() => {
-    if (isShared) {
-      const mockUsers: ActiveUser[] = [
-        {
-          id: 'user-1',
-          name: 'Sarah Johnson',
-          color: '#3B82F6',
-          editing: undefined
-        },
-        {
-          id: 'user-2',
-          name: 'Mike Chen',
-          color: '#10B981',
-          editing: 'item-2'
-        },
-        {
-          id: 'user-3',
-          name: 'Emily Davis',
-          color: '#8B5CF6',
-          editing: undefined
-        }
-      ]
-      setActiveUsers(mockUsers)
-
-      // Simulate editing states
-      const mockEditingStates: EditingState[] = [
-        {
-          itemId: 'item-2',
-          field: 'description',
-          value: 'Updated description...',
-          userId: 'user-2'
-        }
-      ]
-      setEditingStates(mockEditingStates)
+  // Live events can arrive between renders, so they are applied to the latest itinerary
+  const itineraryRef = useRef(itinerary)
+  itineraryRef.current = itinerary
+
+  const applyUpdate = (updated: Itinerary) => {
+    itineraryRef.current = updated
+    onUpdate(updated)
+  }
+
+  const applyItemChange = (event: ItemChangeEvent) => {
+    let updated = itineraryRef.current
+    const item = fromServerItem(event.item)
+
+    if (event.previousDayNumber && event.previousDayNumber !== event.dayNumber) {
+      const previousIndex = event.previousDayNumber - 1
+      const previousDay = updated.days[previousIndex]
+      if (previousDay) {
+        updated = withDayItems(updated, previousIndex, previousDay.items.filter((entry) => entry.id !== item.id))
+      }
     }
-  }, [isShared])
 
-  const canEdit = userRole === 'owner' || userRole === 'editor'
+    const dayIndex = event.dayNumber - 1
+    const day = updated.days[dayIndex]
+    if (day) {
+      applyUpdate(withDayItems(updated, dayIndex, placeItem(day.items, item, event.order)))
+    }
+  }
 
-  const handleStartEdit = (itemId: string, field: string, currentValue: string) => {
-    if (!canEdit) return
-    
-    setEditingItem(itemId)
+  const {
+    isConnected,
+    participants,
+    locks,
+    role: liveRole,
+    error: connectionError,
+    lockField,
+    unlockField
+  } = useItineraryCollaboration(itinerary.id, {
+    onItemAdded: applyItemChange,
+    onItemUpdated: applyItemChange,
+    onItemDeleted: ({ itemId, dayNumber }) => {
+      const day = itineraryRef.current.days[dayNumber - 1]
+      if (day) {
+        applyUpdate(withDayItems(itineraryRef.current, dayNumber - 1, day.items.filter((item) => item.id !== itemId)))
+      }
+    },
+    onDayUpdated: ({ dayNumber, notes }) => {
+      applyUpdate({
+        ...itineraryRef.current,
+        days: itineraryRef.current.days.map((day, index) =>
+          index === dayNumber - 1 ? { ...day, notes: notes || undefined } : day
+        )
+      })
+    },
+    onItineraryUpdated: async ({ updatedBy }) => {
+      if (updatedBy === user?.id) return
+
+      try {
+        applyUpdate(await itineraryService.getItinerary(itinerary.id))
+      } catch (error) {
+        console.error('Error reloading itinerary:', error)
+      }
+    },
+    onRemoved: () => {
+      setStatusMessage('You no longer have access to edit this itinerary.')
+    }
+  })
+
+  const effectiveRole = liveRole ?? userRole
+  const canEdit = effectiveRole === 'owner' || effectiveRole === 'editor'
+
+  const getFieldLock = (targetId: string, field: string) => {
+    return locks.find(lock =>
+      lock.targetId === targetId && lock.field === toServerField(field) && lock.userId !== user?.id
+    )
+  }
+
+  const getUserEditingItem = (itemId: string) => {
+    return locks.find(lock => lock.targetId === itemId && lock.userId !== user?.id)
+  }
+
+  const getErrorMessage = (error: unknown, fallback: string) => {
+    return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback
+  }
+
+  const handleStartEdit = async (targetId: string, field: string, currentValue: string) => {
+    if (!canEdit || getFieldLock(targetId, field)) return
+
+    const result = await lockField(targetId, toServerField(field))
+    if (!result.ok) {
+      setStatusMessage(result.error || 'Someone else is editing this field')
+      return
+    }
+
+    setStatusMessage(null)
+    setEditingTarget(targetId)
     setEditingField(field)
-    setTempValues({ ...tempValues, [`${itemId}-${field}`]: currentValue })
+    setTempValues({ ...tempValues, [`${targetId}-${field}`]: currentValue })
+  }
+
+  const finishEdit = (targetId: string, field: string) => {
+    unlockField(targetId, toServerField(field))
+    setEditingTarget(null)
+    setEditingField(null)
+    const newTempValues = { ...tempValues }
+    delete newTempValues[`${targetId}-${field}`]
+    setTempValues(newTempValues)
   }
 
-  const handleSaveEdit = (itemId: string, field: string) => {
-    const key = `${itemId}-${field}`
-    const newValue = tempValues[key]
-    
+  const handleSaveEdit = async (targetId: string, field: string) => {
+    const newValue = tempValues[`${targetId}-${field}`]
+
     if (newValue !== undefined) {
-      const updatedItinerary = { ...itinerary }
-      const dayIndex = selectedDay
-      const itemIndex = updatedItinerary.days[dayIndex].items.findIndex(item => item.id === itemId)
-      
-      if (itemIndex !== -1) {
-        updatedItinerary.days[dayIndex].items[itemIndex] = {
-          ...updatedItinerary.days[dayIndex].items[itemIndex],
-          [field]: field === 'price' ? parseFloat(newValue) || 0 : newValue
+      try {
+        if (targetId.startsWith('day:')) {
+          const dayNumber = Number(targetId.slice(4))
+          await itineraryService.updateDay(itinerary.id, dayNumber, { notes: newValue || null })
+          applyUpdate({
+            ...itineraryRef.current,
+            days: itineraryRef.current.days.map((day, index) =>
+              index === dayNumber - 1 ? { ...day, notes: newValue || undefined } : day
+            )
+          })
+        } else {
+          const saved = await itineraryService.updateItem(itinerary.id, targetId, {
+            [field]: field === 'price' ? parseFloat(newValue) || 0 : newValue
+          })
+          const dayIndex = itineraryRef.current.days.findIndex(day => day.items.some(item => item.id === targetId))
+          if (dayIndex !== -1) {
+            const items = itineraryRef.current.days[dayIndex].items.map(item => item.id === targetId ? saved : item)
+            applyUpdate(withDayItems(itineraryRef.current, dayIndex, items))
+          }
         }
-        onUpdate(updatedItinerary)
+        setStatusMessage(null)
+      } catch (error) {
+        console.error('Error saving change:', error)
+        setStatusMessage(getErrorMessage(error, 'Could not save your change. Please try again.'))
       }
     }
-    
-    setEditingItem(null)
-    setEditingField(null)
-    const newTempValues = { ...tempValues }
-    delete newTempValues[key]
-    setTempValues(newTempValues)
+
+    finishEdit(targetId, field)
   }
 
   const handleCancelEdit = () => {
-    setEditingItem(null)
-    setEditingField(null)
-    setTempValues({})
+    if (editingTarget && editingField) {
+      finishEdit(editingTarget, editingField)
+    }
   }
 
-  const handleAddItem = () => {
+  const handleAddItem = async () => {
     if (!canEdit) return
-    
-    const newItem: ItineraryItem = {
-      id: `item-${Date.now()}`,
+
+    const newItem: Partial<ItineraryItem> = {
       type: 'activity',
       title: 'New Activity',
       description: '',
@@ -139,47 +236,49 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
       category: 'Activity',
       bookingStatus: 'pending'
     }
-    
-    const updatedItinerary = { ...itinerary }
-    updatedItinerary.days[selectedDay].items.push(newItem)
-    onUpdate(updatedItinerary)
+
+    try {
+      const saved = await itineraryService.addItem(itinerary.id, selectedDay + 1, newItem)
+      const day = itineraryRef.current.days[selectedDay]
+      applyUpdate(withDayItems(itineraryRef.current, selectedDay, [...day.items.filter(item => item.id !== saved.id), saved]))
+      setStatusMessage(null)
+    } catch (error) {
+      console.error('Error adding activity:', error)
+      setStatusMessage(getErrorMessage(error, 'Could not add the activity. Please try again.'))
+    }
   }
 
-  const handleDeleteItem = (itemId: string) => {
+  const handleDeleteItem = async (itemId: string) => {
     if (!canEdit) return
-    
-    const updatedItinerary = { ...itinerary }
-    updatedItinerary.days[selectedDay].items = updatedItinerary.days[selectedDay].items.filter(
-      item => item.id !== itemId
-    )
-    onUpdate(updatedItinerary)
-  }
 
-  const getUserEditingItem = (itemId: string) => {
-    const editingState = editingStates.find(state => state.itemId === itemId)
-    if (editingState) {
-      return activeUsers.find(user => user.id === editingState.userId)
+    const editingLock = getUserEditingItem(itemId)
+    if (editingLock) {
+      setStatusMessage(`${editingLock.name} is editing this activity`)
+      return
     }
-    return null
-  }
 
-  const isFieldBeingEdited = (itemId: string, field: string) => {
-    return editingStates.some(state => 
-      state.itemId === itemId && state.field === field
-    )
+    try {
+      await itineraryService.deleteItem(itinerary.id, itemId)
+      const day = itineraryRef.current.days[selectedDay]
+      applyUpdate(withDayItems(itineraryRef.current, selectedDay, day.items.filter(item => item.id !== itemId)))
+      setStatusMessage(null)
+    } catch (error) {
+      console.error('Error deleting activity:', error)
+      setStatusMessage(getErrorMessage(error, 'Could not delete the activity. Please try again.'))
+    }
   }
 
   const renderEditableField = (
-    item: ItineraryItem,
-    field: keyof ItineraryItem,
+    targetId: string,
+    field: EditableField,
+    rawValue: string | number | undefined,
     label: string,
     type: 'text' | 'textarea' | 'time' | 'number' = 'text'
   ) => {
-    const isEditing = editingItem === item.id && editingField === field
-    const isBeingEdited = isFieldBeingEdited(item.id, field as string)
-    const editingUser = getUserEditingItem(item.id)
-    const key = `${item.id}-${field}`
-    const value = isEditing ? (tempValues[key] ?? item[field]) : item[field]
+    const isEditing = editingTarget === targetId && editingField === field
+    const editingLock = getFieldLock(targetId, field)
+    const key = `${targetId}-${field}`
+    const value = isEditing ? (tempValues[key] ?? String(rawValue ?? '')) : rawValue
 
     if (isEditing) {
       return (
@@ -204,7 +303,7 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
               />
             )}
             <Button
-              onClick={() => handleSaveEdit(item.id, field as string)}
+              onClick={() => handleSaveEdit(targetId, field)}
               size="sm"
               className="bg-green-600 hover:bg-green-700 text-white"
             >
@@ -222,30 +321,32 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
       )
     }
 
+    const isEditable = canEdit && !editingLock
+
     return (
       <div className="space-y-1">
         <label className="block text-sm font-medium text-gray-700">{label}</label>
         <div
           className={`group relative ${
-            canEdit ? 'cursor-pointer hover:bg-gray-50' : ''
+            isEditable ? 'cursor-pointer hover:bg-gray-50' : ''
           } ${
-            isBeingEdited ? 'bg-yellow-50 border border-yellow-200' : ''
+            editingLock ? 'bg-yellow-50 border border-yellow-200' : ''
           } p-2 rounded-lg transition-all`}
-          onClick={() => canEdit && handleStartEdit(item.id, field as string, value as string)}
+          onClick={() => isEditable && handleStartEdit(targetId, field, String(rawValue ?? ''))}
         >
           <div className="flex items-center justify-between">
             <span className={`${!value ? 'text-gray-400 italic' : 'text-gray-900'}`}>
               {value || `Enter ${label.toLowerCase()}...`}
             </span>
-            {canEdit && (
+            {isEditable && (
               <FaEdit className="opacity-0 group-hover:opacity-100 text-gray-400 text-sm transition-opacity" />
             )}
           </div>
-          
-          {isBeingEdited && editingUser && (
+
+          {editingLock && (
             <div className="absolute -top-2 -right-2 flex items-center space-x-1 bg-white border border-gray-200 rounded-full px-2 py-1 text-xs">
-              <FaCircle className="text-xs" style={{ color: editingUser.color }} />
-              <span>{editingUser.name}</span>
+              <FaCircle className="text-xs" style={{ color: editingLock.color }} />
+              <span>{editingLock.name}</span>
             </div>
           )}
         </div>
@@ -255,16 +356,24 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
 
   const currentDay = itinerary.days[selectedDay]
 
+  if (!currentDay) {
+    return (
+      <div className="bg-white rounded-xl shadow-lg p-6 text-gray-600">
+        This itinerary has no days to edit yet.
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-6">
       {/* Active Users Bar */}
-      {isShared && activeUsers.length > 0 && (
+      {participants.length > 0 && (
         <div className="bg-white rounded-xl shadow-lg p-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
               <FaUsers className="text-blue-600" />
               <span className="font-medium">Active Collaborators</span>
-              <span className="text-sm text-gray-500">({activeUsers.length} online)</span>
+              <span className="text-sm text-gray-500">({participants.length} online)</span>
             </div>
             <Button
               onClick={() => setShowActiveUsers(!showActiveUsers)}
@@ -274,26 +383,28 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
               {showActiveUsers ? <FaEye /> : <FaUsers />}
             </Button>
           </div>
-          
+
           {showActiveUsers && (
             <div className="mt-3 flex items-center space-x-3">
-              {activeUsers.map((user) => (
-                <div key={user.id} className="flex items-center space-x-2">
+              {participants.map((participant) => (
+                <div key={participant.userId} className="flex items-center space-x-2">
                   <div
                     className="w-8 h-8 rounded-full flex items-center justify-center text-white text-sm font-medium"
-                    style={{ backgroundColor: user.color }}
+                    style={{ backgroundColor: participant.color }}
                   >
-                    {user.avatar ? (
-                      <img src={user.avatar} alt={user.name} className="w-8 h-8 rounded-full" />
+                    {participant.avatar ? (
+                      <img src={participant.avatar} alt={participant.name} className="w-8 h-8 rounded-full" />
                     ) : (
-                      user.name.split(' ').map(n => n[0]).join('')
+                      participant.name.split(' ').map(n => n[0]).join('')
                     )}
                   </div>
                   <div className="text-sm">
-                    <div className="font-medium">{user.name}</div>
-                    {user.editing && (
-                      <div className="text-xs text-gray-500">Editing...</div>
-                    )}
+                    <div className="font-medium">
+                      {participant.userId === user?.id ? `${participant.name} (you)` : participant.name}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {locks.some(lock => lock.userId === participant.userId) ? 'Editing...' : participant.role}
+                    </div>
                   </div>
                 </div>
               ))}
@@ -302,6 +413,14 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
         </div>
       )}
 
+      {(connectionError || statusMessage || !isConnected) && (
+        <div className={`rounded-lg px-4 py-3 text-sm ${
+          statusMessage || connectionError ? 'bg-yellow-50 text-yellow-800' : 'bg-gray-50 text-gray-600'
+        }`}>
+          {statusMessage || connectionError || 'Connecting to live collaboration... Changes are still saved.'}
+        </div>
+      )}
+
       {/* Day Navigation */}
       <div className="bg-white rounded-xl shadow-lg overflow-hidden">
         <div className="border-b border-gray-200 bg-gray-50">
@@ -318,9 +437,9 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
               >
                 <div>Day {index + 1}</div>
                 <div className="text-xs opacity-75">
-                  {new Date(day.date).toLocaleDateString('en-US', { 
-                    month: 'short', 
-                    day: 'numeric' 
+                  {new Date(day.date).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric'
                   })}
                 </div>
               </button>
@@ -344,7 +463,7 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
                 {currentDay.items.length} activities • ${currentDay.totalCost} total cost
               </p>
             </div>
-            
+
             {canEdit && (
               <Button
                 onClick={handleAddItem}
@@ -358,18 +477,16 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
 
           {/* Activities */}
           <div className="space-y-4">
-            {currentDay.items.map((item, index) => {
+            {currentDay.items.map((item) => {
               const editingUser = getUserEditingItem(item.id)
-              
+
               return (
                 <div
                   key={item.id}
                   className={`bg-gray-50 rounded-xl p-6 transition-all ${
                     editingUser ? 'ring-2 ring-opacity-50' : ''
                   }`}
-                  style={{
-                    ringColor: editingUser?.color
-                  }}
+                  style={editingUser ? { '--tw-ring-color': editingUser.color } as React.CSSProperties : undefined}
                 >
                   {editingUser && (
                     <div className="flex items-center space-x-2 mb-4 text-sm">
@@ -379,13 +496,13 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
                       </span>
                     </div>
                   )}
-                  
+
                   <div className="flex items-start justify-between mb-4">
                     <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
-                      {renderEditableField(item, 'title', 'Activity Title')}
-                      {renderEditableField(item, 'location', 'Location')}
+                      {renderEditableField(item.id, 'title', item.title, 'Activity Title')}
+                      {renderEditableField(item.id, 'location', item.location, 'Location')}
                     </div>
-                    
+
                     {canEdit && (
                       <Button
                         onClick={() => handleDeleteItem(item.id)}
@@ -399,12 +516,12 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-                    {renderEditableField(item, 'startTime', 'Start Time', 'time')}
-                    {renderEditableField(item, 'endTime', 'End Time', 'time')}
-                    {renderEditableField(item, 'price', 'Price ($)', 'number')}
+                    {renderEditableField(item.id, 'startTime', item.startTime, 'Start Time', 'time')}
+                    {renderEditableField(item.id, 'endTime', item.endTime, 'End Time', 'time')}
+                    {renderEditableField(item.id, 'price', item.price, 'Price ($)', 'number')}
                   </div>
 
-                  {renderEditableField(item, 'description', 'Description', 'textarea')}
+                  {renderEditableField(item.id, 'description', item.description, 'Description', 'textarea')}
 
                   {/* Activity Meta */}
                   <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-200">
@@ -425,7 +542,7 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
                         {item.bookingStatus}
                       </span>
                     </div>
-                    
+
                     <div className="flex items-center space-x-2">
                       {isShared && (
                         <Button
@@ -446,8 +563,9 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
           {/* Day Notes */}
           <div className="mt-6">
             {renderEditableField(
-              { ...currentDay, id: `day-${selectedDay}` } as any,
+              dayTarget(selectedDay + 1),
               'notes',
+              currentDay.notes,
               'Day Notes',
               'textarea'
             )}
@@ -458,4 +576,4 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
   )
 }
 
-export default CollaborativeEditor
\ No newline at end of file
+export default CollaborativeEditor
@@ -1,10 +1,11 @@
 import React, { useState } from 'react'
 import { Button } from '@components/common/Button/Button'
 import { Itinerary } from '../pages/ItineraryPage'
+import itineraryService, { type ItineraryExportFormat } from '@/services/itinerary.service'
 import {
   FaDownload, FaFilePdf, FaCalendarAlt, FaShare, FaEnvelope,
   FaWhatsapp, FaFacebook, FaTwitter, FaCopy, FaQrcode,
-  FaCheckCircle, FaTimes
+  FaCheckCircle, FaTimes, FaMapMarkedAlt
 } from 'react-icons/fa'
 
 interface ItineraryExportProps {
@@ -18,168 +19,103 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
   isOpen,
   onClose
 }) => {
-  const [exportFormat, setExportFormat] = useState<'pdf' | 'calendar' | 'share'>('pdf')
+  const [exportFormat, setExportFormat] = useState<'pdf' | 'calendar' | 'gpx' | 'share'>('pdf')
   const [isExporting, setIsExporting] = useState(false)
-  const [shareUrl, setShareUrl] = useState('')
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [selectedDay, setSelectedDay] = useState<number | undefined>(undefined)
   const [copied, setCopied] = useState(false)
 
   if (!isOpen) return null
 
-  const handleExportPDF = async () => {
-    setIsExporting(true)
-    
-    try {
-      // Simulate PDF generation
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      // In a real implementation, you would use a library like jsPDF or react-pdf
-      const pdfContent = generatePDFContent()
-      const blob = new Blob([pdfContent], { type: 'application/pdf' })
-      const url = URL.createObjectURL(blob)
-      
-      const link = document.createElement('a')
-      link.href = url
-      link.download = `${itinerary.title.replace(/\s+/g, '_')}_itinerary.pdf`
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      URL.revokeObjectURL(url)
-      
-    } catch (error) {
-      console.error('Error exporting PDF:', error)
-      alert('Error exporting PDF. Please try again.')
-    } finally {
-      setIsExporting(false)
-    }
-  }
+  const shareUrl = itinerary.shareToken
+    ? `${window.location.origin}/itinerary/shared/${itinerary.shareToken}`
+    : ''
 
-  const handleExportCalendar = async () => {
+  const handleExport = async (format: ItineraryExportFormat) => {
     setIsExporting(true)
-    
+    setExportError(null)
+
     try {
-      // Simulate calendar generation
-      await new Promise(resolve => setTimeout(resolve, 1500))
-      
-      const icsContent = generateICSContent()
-      const blob = new Blob([icsContent], { type: 'text/calendar' })
+      const { blob, filename } = await itineraryService.exportItinerary(itinerary.id, format, {
+        day: selectedDay,
+      })
       const url = URL.createObjectURL(blob)
-      
+
       const link = document.createElement('a')
       link.href = url
-      link.download = `${itinerary.title.replace(/\s+/g, '_')}_calendar.ics`
+      link.download = filename
       document.body.appendChild(link)
       link.click()
       document.body.removeChild(link)
       URL.revokeObjectURL(url)
-      
     } catch (error) {
-      console.error('Error exporting calendar:', error)
-      alert('Error exporting calendar. Please try again.')
+      console.error(`Error exporting ${format}:`, error)
+      // Errors of blob requests arrive as a blob as well
+      const data = (error as { response?: { data?: unknown } })?.response?.data
+      const message = data instanceof Blob
+        ? JSON.parse(await data.text())?.error?.message
+        : undefined
+      setExportError(message || 'Error exporting itinerary. Please try again.')
     } finally {
       setIsExporting(false)
     }
   }
 
-  const generateShareUrl = () => {
-    const shareToken = Math.random().toString(36).substring(2, 15)
-    const url = `${window.location.origin}/itinerary/shared/${shareToken}`
-    setShareUrl(url)
-    return url
-  }
-
   const handleCopyLink = () => {
-    const url = shareUrl || generateShareUrl()
-    navigator.clipboard.writeText(url)
+    if (!shareUrl) return
+    navigator.clipboard.writeText(shareUrl)
     setCopied(true)
     setTimeout(() => setCopied(false), 2000)
   }
 
   const handleSocialShare = (platform: string) => {
-    const url = shareUrl || generateShareUrl()
+    if (!shareUrl) return
     const text = `Check out my travel itinerary: ${itinerary.title}`
-    
-    let shareUrl = ''
+
+    let targetUrl = ''
     switch (platform) {
       case 'whatsapp':
-        shareUrl = `https://wa.me/?text=${encodeURIComponent(text + ' ' + url)}`
+        targetUrl = `https://wa.me/?text=${encodeURIComponent(text + ' ' + shareUrl)}`
         break
       case 'facebook':
-        shareUrl = `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(url)}`
+        targetUrl = `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(shareUrl)}`
         break
       case 'twitter':
-        shareUrl = `https://twitter.com/intent/tweet?text=${encodeURIComponent(text)}&url=${encodeURIComponent(url)}`
+        targetUrl = `https://twitter.com/intent/tweet?text=${encodeURIComponent(text)}&url=${encodeURIComponent(shareUrl)}`
         break
       case 'email':
-        shareUrl = `mailto:?subject=${encodeURIComponent(itinerary.title)}&body=${encodeURIComponent(text + '\n\n' + url)}`
+        targetUrl = `mailto:?subject=${encodeURIComponent(itinerary.title)}&body=${encodeURIComponent(text + '\n\n' + shareUrl)}`
         break
     }
-    
-    if (shareUrl) {
-      window.open(shareUrl, '_blank')
-    }
-  }
 
-  const generatePDFContent = () => {
-    // This is a simplified text representation
-    // In a real implementation, you'd use a proper PDF library
-    let content = `${itinerary.title}\n\n`
-    content += `Destination: ${itinerary.destination}\n`
-    content += `Duration: ${itinerary.days.length} days\n`
-    content += `Travelers: ${itinerary.travelers}\n`
-    content += `Total Budget: $${itinerary.totalBudget}\n\n`
-    
-    itinerary.days.forEach((day, index) => {
-      content += `Day ${index + 1} - ${new Date(day.date).toLocaleDateString()}\n`
-      content += `Total Cost: $${day.totalCost}\n\n`
-      
-      day.items.forEach((item, itemIndex) => {
-        content += `${itemIndex + 1}. ${item.title}\n`
-        content += `   Time: ${item.startTime} - ${item.endTime}\n`
-        content += `   Location: ${item.location}\n`
-        content += `   Price: $${item.price}\n`
-        if (item.description) {
-          content += `   Description: ${item.description}\n`
-        }
-        content += '\n'
-      })
-      
-      if (day.notes) {
-        content += `Notes: ${day.notes}\n`
-      }
-      content += '\n'
-    })
-    
-    return content
+    if (targetUrl) {
+      window.open(targetUrl, '_blank')
+    }
   }
 
-  const generateICSContent = () => {
-    let icsContent = 'BEGIN:VCALENDAR\n'
-    icsContent += 'VERSION:2.0\n'
-    icsContent += 'PRODID:-//Travel Planner//Travel Itinerary//EN\n'
-    
-    itinerary.days.forEach((day, dayIndex) => {
-      day.items.forEach((item, itemIndex) => {
-        const startDate = new Date(`${day.date}T${item.startTime}:00`)
-        const endDate = new Date(`${day.date}T${item.endTime}:00`)
-        
-        icsContent += 'BEGIN:VEVENT\n'
-        icsContent += `UID:${itinerary.id}-${dayIndex}-${itemIndex}@travelplanner.com\n`
-        icsContent += `DTSTART:${formatDateForICS(startDate)}\n`
-        icsContent += `DTEND:${formatDateForICS(endDate)}\n`
-        icsContent += `SUMMARY:${item.title}\n`
-        icsContent += `DESCRIPTION:${item.description || ''}\n`
-        icsContent += `LOCATION:${item.location}\n`
-        icsContent += 'END:VEVENT\n'
-      })
-    })
-    
-    icsContent += 'END:VCALENDAR'
-    return icsContent
-  }
+  const renderDaySelector = () => (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Days to export
+      </label>
+      <select
+        value={selectedDay ?? ''}
+        onChange={(e) => setSelectedDay(e.target.value ? Number(e.target.value) : undefined)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm"
+      >
+        <option value="">Whole trip</option>
+        {itinerary.days.map((day, index) => (
+          <option key={day.date} value={index + 1}>
+            Day {index + 1} - {new Date(day.date).toLocaleDateString()}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
 
-  const formatDateForICS = (date: Date) => {
-    return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'
-  }
+  const renderError = () => exportError && (
+    <p className="text-sm text-red-600 mb-4">{exportError}</p>
+  )
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -199,7 +135,7 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
         <div className="p-6 border-b border-gray-200">
           <div className="flex space-x-4">
             <button
-              onClick={() => setExportFormat('pdf')}
+              onClick={() => { setExportFormat('pdf'); setExportError(null) }}
               className={`flex items-center px-4 py-3 rounded-lg transition-all ${
                 exportFormat === 'pdf'
                   ? 'bg-blue-100 text-blue-700 border-2 border-blue-300'
@@ -210,7 +146,7 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
               PDF Export
             </button>
             <button
-              onClick={() => setExportFormat('calendar')}
+              onClick={() => { setExportFormat('calendar'); setExportError(null) }}
               className={`flex items-center px-4 py-3 rounded-lg transition-all ${
                 exportFormat === 'calendar'
                   ? 'bg-green-100 text-green-700 border-2 border-green-300'
@@ -221,7 +157,18 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
               Calendar
             </button>
             <button
-              onClick={() => setExportFormat('share')}
+              onClick={() => { setExportFormat('gpx'); setExportError(null) }}
+              className={`flex items-center px-4 py-3 rounded-lg transition-all ${
+                exportFormat === 'gpx'
+                  ? 'bg-orange-100 text-orange-700 border-2 border-orange-300'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <FaMapMarkedAlt className="mr-2" />
+              GPX
+            </button>
+            <button
+              onClick={() => { setExportFormat('share'); setExportError(null) }}
               className={`flex items-center px-4 py-3 rounded-lg transition-all ${
                 exportFormat === 'share'
                   ? 'bg-purple-100 text-purple-700 border-2 border-purple-300'
@@ -250,13 +197,16 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
                   <li>• Complete day-by-day schedule</li>
                   <li>• Activity details and locations</li>
                   <li>• Cost breakdown and budget summary</li>
-                  <li>• Travel notes and recommendations</li>
-                  <li>• Contact information and booking details</li>
+                  <li>• Day and activity notes</li>
+                  <li>• Booking status and references</li>
                 </ul>
               </div>
 
+              {renderDaySelector()}
+              {renderError()}
+
               <Button
-                onClick={handleExportPDF}
+                onClick={() => handleExport('pdf')}
                 disabled={isExporting}
                 className="w-full bg-blue-600 hover:bg-blue-700 text-white"
               >
@@ -288,13 +238,16 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
                 <ul className="text-sm text-gray-600 space-y-1">
                   <li>• All activities with correct dates and times</li>
                   <li>• Location information for each event</li>
-                  <li>• Activity descriptions and notes</li>
-                  <li>• Reminders and notifications</li>
+                  <li>• Activity descriptions, costs and notes</li>
+                  <li>• Map coordinates where the activity has them</li>
                 </ul>
               </div>
 
+              {renderDaySelector()}
+              {renderError()}
+
               <Button
-                onClick={handleExportCalendar}
+                onClick={() => handleExport('ical')}
                 disabled={isExporting}
                 className="w-full bg-green-600 hover:bg-green-700 text-white"
               >
@@ -313,11 +266,52 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
             </div>
           )}
 
+          {exportFormat === 'gpx' && (
+            <div>
+              <h3 className="text-lg font-semibold mb-4">Export for Maps & GPS</h3>
+              <p className="text-gray-600 mb-6">
+                Download a .gpx file of your stops to open in offline map apps
+                like Maps.me, OsmAnd or Google Earth, or load onto a GPS device.
+              </p>
+
+              <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                <h4 className="font-medium mb-2">GPX file will include:</h4>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  <li>• A waypoint for every activity with a map location</li>
+                  <li>• A route per day connecting its stops in order</li>
+                  <li>• Times and notes in the waypoint descriptions</li>
+                </ul>
+              </div>
+
+              {renderDaySelector()}
+              {renderError()}
+
+              <Button
+                onClick={() => handleExport('gpx')}
+                disabled={isExporting}
+                className="w-full bg-orange-600 hover:bg-orange-700 text-white"
+              >
+                {isExporting ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    Generating GPX...
+                  </>
+                ) : (
+                  <>
+                    <FaMapMarkedAlt className="mr-2" />
+                    Download GPX File
+                  </>
+                )}
+              </Button>
+            </div>
+          )}
+
           {exportFormat === 'share' && (
             <div>
               <h3 className="text-lg font-semibold mb-4">Share Itinerary</h3>
               <p className="text-gray-600 mb-6">
-                Create a shareable link that allows others to view and collaborate on your itinerary.
+                Send your share link so others can view your itinerary. Create or change the link
+                in the share settings.
               </p>
 
               {/* Share Link */}
@@ -328,12 +322,13 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
                 <div className="flex">
                   <input
                     type="text"
-                    value={shareUrl || 'Click "Generate Link" to create a shareable URL'}
+                    value={shareUrl || 'This itinerary has no share link yet'}
                     readOnly
                     className="flex-1 px-3 py-2 border border-gray-300 rounded-l-lg bg-white text-sm"
                   />
                   <Button
                     onClick={handleCopyLink}
+                    disabled={!shareUrl}
                     className={`rounded-l-none ${
                       copied ? 'bg-green-600 hover:bg-green-700' : 'bg-blue-600 hover:bg-blue-700'
                     } text-white`}
@@ -352,6 +347,7 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
                 <div className="grid grid-cols-2 gap-3">
                   <Button
                     onClick={() => handleSocialShare('whatsapp')}
+                    disabled={!shareUrl}
                     variant="outline"
                     className="flex items-center justify-center"
                   >
@@ -360,6 +356,7 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
                   </Button>
                   <Button
                     onClick={() => handleSocialShare('facebook')}
+                    disabled={!shareUrl}
                     variant="outline"
                     className="flex items-center justify-center"
                   >
@@ -368,6 +365,7 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
                   </Button>
                   <Button
                     onClick={() => handleSocialShare('twitter')}
+                    disabled={!shareUrl}
                     variant="outline"
                     className="flex items-center justify-center"
                   >
@@ -376,6 +374,7 @@ const ItineraryExport: React.FC<ItineraryExportProps> = ({
                   </Button>
                   <Button
                     onClick={() => handleSocialShare('email')}
+                    disabled={!shareUrl}
                     variant="outline"
                     className="flex items-center justify-center"
                   >
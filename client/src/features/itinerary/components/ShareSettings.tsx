@@ -10,7 +10,9 @@ interface ShareSettingsProps {
   itineraryId: string
   isOpen: boolean
   onClose: () => void
-  onShare: (settings: ShareSettings) => void
+  shareUrl?: string
+  // Saves the settings and resolves to the share link when one was created
+  onShare: (settings: ShareSettings) => Promise<string | void> | void
 }
 
 interface ShareSettings {
@@ -37,6 +39,7 @@ const ShareSettings: React.FC<ShareSettingsProps> = ({
   itineraryId,
   isOpen,
   onClose,
+  shareUrl: savedShareUrl,
   onShare
 }) => {
   const [settings, setSettings] = useState<ShareSettings>({
@@ -78,21 +81,21 @@ const ShareSettings: React.FC<ShareSettingsProps> = ({
   
   const [inviteEmail, setInviteEmail] = useState('')
   const [inviteRole, setInviteRole] = useState<'editor' | 'viewer'>('viewer')
-  const [shareUrl, setShareUrl] = useState('')
+  const [shareUrl, setShareUrl] = useState(savedShareUrl || '')
   const [copied, setCopied] = useState(false)
   const [activeTab, setActiveTab] = useState<'general' | 'collaborators' | 'advanced'>('general')
 
   if (!isOpen) return null
 
-  const generateShareUrl = () => {
-    const token = Math.random().toString(36).substring(2, 15)
-    const url = `${window.location.origin}/itinerary/shared/${token}`
-    setShareUrl(url)
-    return url
+  const generateShareUrl = async () => {
+    const url = await onShare(settings)
+    if (url) setShareUrl(url)
+    return url || ''
   }
 
-  const handleCopyLink = () => {
-    const url = shareUrl || generateShareUrl()
+  const handleCopyLink = async () => {
+    const url = shareUrl || await generateShareUrl()
+    if (!url) return
     navigator.clipboard.writeText(url)
     setCopied(true)
     setTimeout(() => setCopied(false), 2000)
@@ -128,8 +131,8 @@ const ShareSettings: React.FC<ShareSettingsProps> = ({
     }
   }
 
-  const handleSaveSettings = () => {
-    onShare(settings)
+  const handleSaveSettings = async () => {
+    await onShare(settings)
     onClose()
   }
 
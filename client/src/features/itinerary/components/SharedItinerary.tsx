@@ -3,6 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom'
 import { Button } from '@components/common/Button/Button'
 import { Itinerary } from '../pages/ItineraryPage'
 import DayPlan from './DayPlan'
+import itineraryService from '@/services/itinerary.service'
 import {
   FaShare, FaUsers, FaComment, FaHeart, FaCopy,
   FaExclamationTriangle, FaCheckCircle, FaArrowLeft, FaEye
@@ -42,13 +43,14 @@ const SharedItinerary: React.FC<SharedItineraryProps> = ({
   const [isLoading, setIsLoading] = useState(true)
   const [selectedDay, setSelectedDay] = useState(0)
   const [comments, setComments] = useState<Comment[]>([])
-  const [collaborators, setCollaborators] = useState<Collaborator[]>([])
+  const [collaborators] = useState<Collaborator[]>([])
   const [newComment, setNewComment] = useState('')
   const [showComments, setShowComments] = useState(true)
   const [showCollaborators, setShowCollaborators] = useState(false)
   const [userRole, setUserRole] = useState<'owner' | 'editor' | 'viewer'>('viewer')
   const [isLiked, setIsLiked] = useState(false)
   const [likes, setLikes] = useState(0)
+  const [isCopying, setIsCopying] = useState(false)
 
   const currentToken = shareToken || urlToken
 
@@ -62,135 +64,31 @@ const SharedItinerary: React.FC<SharedItineraryProps> = ({
     setIsLoading(true)
     
     try {
-      // Simulate API call to load shared itinerary
-      await new Promise(resolve => setTimeout(resolve, 1500))
-      
-      // Mock shared itinerary data
-      const mockItinerary: Itinerary = {
-        id: 'shared-001',
-        title: 'Ethiopian Highlands Adventure (Shared)',
-        description: 'A collaborative 7-day journey through Ethiopia\'s stunning highlands',
-        destination: 'Ethiopia',
-        startDate: '2024-03-15',
-        endDate: '2024-03-22',
-        travelers: 4,
-        totalBudget: 3000,
-        actualCost: 2650,
-        status: 'confirmed',
-        createdAt: '2024-01-20',
-        updatedAt: '2024-01-25',
-        days: [
-          {
-            date: '2024-03-15',
-            totalCost: 380,
-            totalDuration: 420,
-            items: [
-              {
-                id: 'shared-item-1',
-                type: 'flight',
-                title: 'Arrival in Addis Ababa',
-                description: 'Ethiopian Airlines flight from international destination',
-                location: 'Bole International Airport',
-                startTime: '15:30',
-                endTime: '16:30',
-                duration: 60,
-                price: 0,
-                category: 'Transportation',
-                bookingStatus: 'confirmed'
-              },
-              {
-                id: 'shared-item-2',
-                type: 'hotel',
-                title: 'Sheraton Addis Check-in',
-                description: 'Luxury accommodation in the heart of Addis Ababa',
-                location: 'Addis Ababa',
-                startTime: '17:00',
-                endTime: '17:30',
-                duration: 30,
-                price: 180,
-                category: 'Accommodation',
-                bookingStatus: 'confirmed'
-              },
-              {
-                id: 'shared-item-3',
-                type: 'restaurant',
-                title: 'Welcome Dinner at Yod Abyssinia',
-                description: 'Traditional Ethiopian feast with cultural show',
-                location: 'Yod Abyssinia Cultural Restaurant',
-                startTime: '19:00',
-                endTime: '21:30',
-                duration: 150,
-                price: 45,
-                category: 'Dining',
-                bookingStatus: 'confirmed'
-              }
-            ],
-            notes: 'Welcome to Ethiopia! First day to settle in and experience local culture.'
-          }
-        ]
-      }
-      
-      // Mock comments
-      const mockComments: Comment[] = [
-        {
-          id: 'comment-1',
-          author: 'Sarah Johnson',
-          avatar: '/avatars/sarah.jpg',
-          content: 'This itinerary looks amazing! I\'m so excited for the Yod Abyssinia dinner.',
-          timestamp: '2024-01-22T10:30:00Z',
-          dayIndex: 0
-        },
-        {
-          id: 'comment-2',
-          author: 'Mike Chen',
-          content: 'Should we book the Sheraton or look for something more budget-friendly?',
-          timestamp: '2024-01-22T14:15:00Z',
-          itemId: 'shared-item-2',
-          replies: [
-            {
-              id: 'reply-1',
-              author: 'Emily Davis',
-              content: 'I think Sheraton is worth it for the first night. We can do budget places later.',
-              timestamp: '2024-01-22T15:00:00Z'
-            }
-          ]
-        }
-      ]
-      
-      // Mock collaborators
-      const mockCollaborators: Collaborator[] = [
-        {
-          id: 'user-1',
-          name: 'Emily Davis',
-          email: 'emily@example.com',
-          avatar: '/avatars/emily.jpg',
-          role: 'owner',
-          joinedAt: '2024-01-20T08:00:00Z',
-          lastActive: '2024-01-25T16:30:00Z'
-        },
-        {
-          id: 'user-2',
-          name: 'Sarah Johnson',
-          email: 'sarah@example.com',
-          role: 'editor',
-          joinedAt: '2024-01-20T10:15:00Z',
-          lastActive: '2024-01-25T14:20:00Z'
-        }
-      ]
-      
-      setItinerary(mockItinerary)
-      setComments(mockComments)
-      setCollaborators(mockCollaborators)
-      setUserRole('editor')
-      setLikes(12)
-      setIsLoading(false)
-      
+      const sharedItinerary = await itineraryService.getSharedItinerary(token)
+      setItinerary(sharedItinerary)
+      setUserRole(sharedItinerary.isOwner ? 'owner' : 'viewer')
     } catch (error) {
       console.error('Error loading shared itinerary:', error)
+      setItinerary(null)
+    } finally {
       setIsLoading(false)
     }
   }
 
+  const handleCopyItinerary = async () => {
+    if (!currentToken) return
+
+    setIsCopying(true)
+    try {
+      const copy = await itineraryService.copyItinerary(currentToken)
+      navigate(`/itinerary/${copy.id}`)
+    } catch (error) {
+      console.error('Error copying itinerary:', error)
+      alert('Could not copy this itinerary. Please sign in and try again.')
+      setIsCopying(false)
+    }
+  }
+
   const handleAddComment = () => {
     if (!newComment.trim()) return
     
@@ -312,6 +210,18 @@ const SharedItinerary: React.FC<SharedItineraryProps> = ({
                 <span className="hidden sm:inline">Copy Link</span>
                 <span className="sm:hidden">Copy</span>
               </Button>
+
+              {itinerary.allowCopy && !itinerary.isOwner && (
+                <Button
+                  onClick={handleCopyItinerary}
+                  disabled={isCopying}
+                  size="sm"
+                  className="text-sm bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  <FaCheckCircle className="mr-1 sm:mr-2" />
+                  {isCopying ? 'Saving...' : 'Save a Copy'}
+                </Button>
+              )}
             </div>
           </div>
 
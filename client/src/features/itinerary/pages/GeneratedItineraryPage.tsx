@@ -4,6 +4,7 @@ import { Button } from '@components/common/Button/Button'
 import { TripPreferencesData } from './GenerateItineraryPage'
 import { ItineraryItem, DayPlanData, Itinerary } from './ItineraryPage'
 import GeneratedDayPlan from '../components/GeneratedDayPlan'
+import itineraryService from '@/services/itinerary.service'
 import WeatherForecast from '../components/WeatherForecast'
 import {
   FaRobot, FaArrowLeft, FaSave, FaEdit, FaShoppingCart, FaShare,
@@ -19,6 +20,7 @@ const GeneratedItineraryPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true)
   const [selectedDay, setSelectedDay] = useState(0)
   const [showWeather, setShowWeather] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
 
   useEffect(() => {
     if (!preferences) {
@@ -279,19 +281,23 @@ const GeneratedItineraryPage: React.FC = () => {
     return `Day ${dayIndex + 1} of your Ethiopian adventure. Enjoy the experiences!`
   }
 
-  const handleSaveItinerary = () => {
-    if (generatedItinerary) {
-      // Save to user's itineraries
-      navigate('/itinerary', { state: { savedItinerary: generatedItinerary } })
-    }
-  }
+  // Saving and customizing both store the plan in the user's itineraries and open it in the editor
+  const handleSaveItinerary = async () => {
+    if (!generatedItinerary || isSaving) return
 
-  const handleCustomizeItinerary = () => {
-    if (generatedItinerary) {
-      navigate('/itinerary', { state: { editItinerary: generatedItinerary } })
+    setIsSaving(true)
+    try {
+      const saved = await itineraryService.createItinerary(generatedItinerary, 'GENERATED')
+      navigate(`/itinerary/${saved.id}`)
+    } catch (error) {
+      console.error('Error saving generated itinerary:', error)
+      alert('Could not save the itinerary. Please sign in and try again.')
+      setIsSaving(false)
     }
   }
 
+  const handleCustomizeItinerary = handleSaveItinerary
+
   const handleBookAll = () => {
     alert('Booking all activities functionality will be implemented with payment integration!')
   }
@@ -404,14 +410,16 @@ const GeneratedItineraryPage: React.FC = () => {
             <div className="space-y-3 pt-4">
               <Button
                 onClick={handleSaveItinerary}
+                disabled={isSaving}
                 className="w-full bg-blue-600 hover:bg-blue-700 text-white"
               >
                 <FaSave className="mr-2" />
-                Save Itinerary
+                {isSaving ? 'Saving...' : 'Save Itinerary'}
               </Button>
               
               <Button
                 onClick={handleCustomizeItinerary}
+                disabled={isSaving}
                 variant="outline"
                 className="w-full"
               >
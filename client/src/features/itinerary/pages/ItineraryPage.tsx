@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useParams } from 'react-router-dom'
 import { Button } from '@components/common/Button/Button'
+import itineraryService from '@/services/itinerary.service'
 import DayPlan from '../components/DayPlan'
 import RouteOptimizer from '../components/RouteOptimizer'
 import BudgetCalculator from '../components/BudgetCalculator'
@@ -56,13 +57,22 @@ export interface Itinerary {
   totalBudget: number
   actualCost: number
   status: 'draft' | 'confirmed' | 'completed'
+  isPublic?: boolean
+  shareToken?: string | null
+  allowCopy?: boolean
+  isOwner?: boolean
+  role?: 'owner' | 'editor' | 'viewer'
   createdAt: string
   updatedAt: string
 }
 
 const ItineraryPage: React.FC = () => {
   const navigate = useNavigate()
+  const { id } = useParams<{ id: string }>()
   const [itinerary, setItinerary] = useState<Itinerary | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
   const [selectedDay, setSelectedDay] = useState(0)
   const [isEditing, setIsEditing] = useState(false)
   const [showRouteOptimizer, setShowRouteOptimizer] = useState(false)
@@ -72,130 +82,74 @@ const ItineraryPage: React.FC = () => {
   const [showExportModal, setShowExportModal] = useState(false)
   const [showShareSettings, setShowShareSettings] = useState(false)
   const [isShared, setIsShared] = useState(false)
-  const [userRole, setUserRole] = useState<'owner' | 'editor' | 'viewer'>('owner')
   const [useCollaborativeEditor, setUseCollaborativeEditor] = useState(false)
   const [showAIAssistant, setShowAIAssistant] = useState(false)
   const [showBudgetOptimizer, setShowBudgetOptimizer] = useState(false)
   const [showRiskAssessment, setShowRiskAssessment] = useState(false)
   const [showAnalyticsDashboard, setShowAnalyticsDashboard] = useState(false)
 
-  // Mock itinerary data
-  const mockItinerary: Itinerary = {
-    id: 'itin-001',
-    title: 'Ethiopian Historical Circuit',
-    description: 'Explore the ancient wonders of Ethiopia including Lalibela, Gondar, and Axum',
-    destination: 'Ethiopia',
-    startDate: '2024-02-15',
-    endDate: '2024-02-22',
-    travelers: 2,
-    totalBudget: 2500,
-    actualCost: 2180,
-    status: 'draft',
-    createdAt: '2024-01-10',
-    updatedAt: '2024-01-15',
-    days: [
-      {
-        date: '2024-02-15',
-        totalCost: 320,
-        totalDuration: 480,
-        items: [
-          {
-            id: 'item-001',
-            type: 'flight',
-            title: 'Flight to Lalibela',
-            description: 'Ethiopian Airlines ET 101 - Addis Ababa to Lalibela',
-            location: 'Bole International Airport',
-            startTime: '08:30',
-            endTime: '09:45',
-            duration: 75,
-            price: 189,
-            category: 'Transportation',
-            bookingStatus: 'confirmed',
-            bookingReference: 'ET101-ABC123'
-          },
-          {
-            id: 'item-002',
-            type: 'hotel',
-            title: 'Check-in at Lalibela Hotel',
-            description: 'Traditional Ethiopian hotel with mountain views',
-            location: 'Lalibela',
-            startTime: '11:00',
-            endTime: '11:30',
-            duration: 30,
-            price: 85,
-            category: 'Accommodation',
-            bookingStatus: 'confirmed'
-          },
-          {
-            id: 'item-003',
-            type: 'tour',
-            title: 'Rock Churches Tour - Group 1',
-            description: 'Visit Bet Giyorgis, Bet Maryam, and other famous rock-hewn churches',
-            location: 'Lalibela Rock Churches',
-            startTime: '14:00',
-            endTime: '17:30',
-            duration: 210,
-            price: 45,
-            category: 'Sightseeing',
-            bookingStatus: 'pending',
-            notes: 'Bring comfortable walking shoes'
-          }
-        ],
-        notes: 'First day in Lalibela - take it easy and adjust to altitude'
-      },
-      {
-        date: '2024-02-16',
-        totalCost: 180,
-        totalDuration: 420,
-        items: [
-          {
-            id: 'item-004',
-            type: 'tour',
-            title: 'Rock Churches Tour - Group 2',
-            description: 'Continue exploring the remaining rock churches',
-            location: 'Lalibela Rock Churches',
-            startTime: '09:00',
-            endTime: '12:00',
-            duration: 180,
-            price: 45,
-            category: 'Sightseeing',
-            bookingStatus: 'pending'
-          },
-          {
-            id: 'item-005',
-            type: 'restaurant',
-            title: 'Traditional Ethiopian Lunch',
-            description: 'Authentic Ethiopian cuisine with injera and various stews',
-            location: 'Seven Olives Hotel Restaurant',
-            startTime: '12:30',
-            endTime: '13:30',
-            duration: 60,
-            price: 25,
-            category: 'Dining',
-            bookingStatus: 'pending'
-          },
-          {
-            id: 'item-006',
-            type: 'activity',
-            title: 'Local Market Visit',
-            description: 'Explore local crafts and souvenirs at Lalibela market',
-            location: 'Lalibela Market',
-            startTime: '15:00',
-            endTime: '17:00',
-            duration: 120,
-            price: 0,
-            category: 'Cultural',
-            bookingStatus: 'pending'
-          }
-        ]
+  useEffect(() => {
+    loadItinerary()
+  }, [id])
+
+  const loadItinerary = async () => {
+    setIsLoading(true)
+    setLoadError(null)
+
+    try {
+      if (id) {
+        const loaded = await itineraryService.getItinerary(id)
+        setItinerary(loaded)
+        setIsShared(!!loaded.shareToken)
+        setSelectedDay(0)
+        return
+      }
+
+      // Without an ID, open the most recently edited itinerary
+      const { itineraries } = await itineraryService.getMyItineraries({
+        limit: 1,
+        sortBy: 'updatedAt',
+        sortOrder: 'desc',
+      })
+
+      if (itineraries.length > 0) {
+        navigate(`/itinerary/${itineraries[0].id}`, { replace: true })
+      } else {
+        setItinerary(null)
       }
-    ]
+    } catch (error) {
+      console.error('Error loading itinerary:', error)
+      setLoadError('We could not load this itinerary. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
   }
 
-  useEffect(() => {
-    // Load itinerary data (mock for now)
-    setItinerary(mockItinerary)
-  }, [])
+  const handleCreateItinerary = async () => {
+    const today = new Date().toISOString().split('T')[0]
+
+    try {
+      const created = await itineraryService.createItinerary({
+        id: '',
+        title: 'My Ethiopian Trip',
+        description: '',
+        destination: 'Ethiopia',
+        startDate: today,
+        endDate: today,
+        travelers: 1,
+        totalBudget: 0,
+        actualCost: 0,
+        status: 'draft',
+        createdAt: today,
+        updatedAt: today,
+        days: [{ date: today, items: [], totalCost: 0, totalDuration: 0 }]
+      })
+      navigate(`/itinerary/${created.id}`)
+    } catch (error) {
+      console.error('Error creating itinerary:', error)
+      alert('Could not create the itinerary. Please try again.')
+    }
+  }
 
   const handleAddDay = () => {
     if (!itinerary) return
@@ -213,6 +167,7 @@ const ItineraryPage: React.FC = () => {
     
     setItinerary({
       ...itinerary,
+      endDate: newDay.date > itinerary.endDate ? newDay.date : itinerary.endDate,
       days: [...itinerary.days, newDay]
     })
   }
@@ -234,9 +189,20 @@ const ItineraryPage: React.FC = () => {
     })
   }
 
-  const handleSaveItinerary = () => {
-    // Save itinerary logic will be implemented with backend
-    alert('Itinerary saved successfully!')
+  const handleSaveItinerary = async () => {
+    if (!itinerary) return
+
+    setIsSaving(true)
+    try {
+      const saved = await itineraryService.updateItinerary(itinerary.id, itinerary)
+      setItinerary(saved)
+      alert('Itinerary saved successfully!')
+    } catch (error) {
+      console.error('Error saving itinerary:', error)
+      alert('Could not save the itinerary. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   const handleShareItinerary = () => {
@@ -247,10 +213,22 @@ const ItineraryPage: React.FC = () => {
     setShowExportModal(true)
   }
 
-  const handleShareSettings = (settings: any) => {
-    setIsShared(true)
-    console.log('Share settings updated:', settings)
-    // In a real app, this would make an API call to update sharing settings
+  const handleShareSettings = async (settings: { isPublic: boolean; allowComments: boolean; expiresAt?: string }) => {
+    if (!itinerary) return
+
+    try {
+      const shareInfo = await itineraryService.shareItinerary(itinerary.id, {
+        isPublic: settings.isPublic,
+        allowComments: settings.allowComments,
+        expiresAt: settings.expiresAt ? new Date(settings.expiresAt).toISOString() : undefined
+      })
+      setIsShared(true)
+      setItinerary({ ...itinerary, isPublic: shareInfo.isPublic, shareToken: shareInfo.shareToken })
+      return shareInfo.shareUrl
+    } catch (error) {
+      console.error('Error updating share settings:', error)
+      alert('Could not update sharing settings. Please try again.')
+    }
   }
 
   const toggleCollaborativeMode = () => {
@@ -297,7 +275,7 @@ const ItineraryPage: React.FC = () => {
     return diffDays + 1
   }
 
-  if (!itinerary) {
+  if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-50 flex items-center justify-center">
         <div className="text-center">
@@ -308,6 +286,44 @@ const ItineraryPage: React.FC = () => {
     )
   }
 
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-600 mb-6">{loadError}</p>
+          <Button onClick={loadItinerary} className="bg-purple-600 hover:bg-purple-700 text-white">
+            Try Again
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (!itinerary) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-50 flex items-center justify-center">
+        <div className="text-center">
+          <FaMapMarkedAlt className="text-6xl text-purple-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">No itineraries yet</h2>
+          <p className="text-gray-600 mb-6">Let AI plan your trip or start from a blank itinerary.</p>
+          <div className="flex items-center justify-center gap-3">
+            <Button
+              onClick={() => navigate('/itinerary/generate')}
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              <FaRobot className="mr-2" />
+              Generate with AI
+            </Button>
+            <Button variant="outline" onClick={handleCreateItinerary}>
+              <FaPlus className="mr-2" />
+              Start Blank Itinerary
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-50">
       <div className="container mx-auto px-4 py-8">
@@ -442,10 +458,11 @@ const ItineraryPage: React.FC = () => {
                 </Button>
                 <Button
                   onClick={handleSaveItinerary}
+                  disabled={isSaving}
                   className="bg-purple-600 hover:bg-purple-700 text-white"
                 >
                   <FaSave className="mr-2" />
-                  Save
+                  {isSaving ? 'Saving...' : 'Save'}
                 </Button>
               </div>
             </div>
@@ -524,7 +541,7 @@ const ItineraryPage: React.FC = () => {
               <CollaborativeEditor
                 itinerary={itinerary}
                 onUpdate={setItinerary}
-                userRole={userRole}
+                userRole={itinerary.role || (itinerary.isOwner ? 'owner' : 'viewer')}
                 isShared={isShared}
               />
             ) : (
@@ -625,6 +642,7 @@ const ItineraryPage: React.FC = () => {
         {/* Share Settings Modal */}
         <ShareSettings
           itineraryId={itinerary.id}
+          shareUrl={itinerary.shareToken ? `${window.location.origin}/itinerary/shared/${itinerary.shareToken}` : undefined}
           isOpen={showShareSettings}
           onClose={() => setShowShareSettings(false)}
           onShare={handleShareSettings}
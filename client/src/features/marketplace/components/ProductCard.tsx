@@ -3,7 +3,7 @@ import { useDispatch } from "react-redux";
 import { Button } from "@/components/ui/Button";
 import { Product } from "../pages/MarketplacePage";
 import { addToCart } from "@store/slices/bookingSlice";
-import { BookingItem } from "@/types/booking";
+import { AppDispatch } from "@store/store";
 import { Badge } from "@/components/ui/Badge";
 import { MapPin, Clock, Check, Gift, Truck, Flag, Flame } from "lucide-react";
 import {
@@ -30,7 +30,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
   onAddToCart,
   onClick,
 }) => {
-  const dispatch = useDispatch();
+  const dispatch = useDispatch<AppDispatch>();
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [isImageLoading, setIsImageLoading] = useState(true);
 
@@ -62,26 +62,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
   const handleAddToCartClick = (e: React.MouseEvent) => {
     e.stopPropagation();
 
-    const bookingItem: BookingItem = {
-      id: `product-${product.id}-${Date.now()}`,
-      tourId: product.id,
-      tourName: product.name,
-      tourImage: product.images[0] || "/placeholder-product.jpg",
-      date: new Date().toISOString().split("T")[0],
-      participants: {
-        adults: 1,
-        children: 0,
-      },
-      pricePerAdult: product.price,
-      pricePerChild: 0,
-      addOns: [],
-      totalPrice: product.price,
-      meetingPoint: product.vendor.location,
-      duration: "Product",
-      specialRequests: "",
-    };
-
-    dispatch(addToCart(bookingItem));
+    dispatch(addToCart({ type: "PRODUCT", productId: product.id, quantity: 1 }));
     onAddToCart?.(product.id);
   };
 
@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { FaBell } from 'react-icons/fa'
+import { notificationService, Notification } from '@/services/notification.service'
+import { ROUTES } from '@utils/constants'
+
+// How often the unread count is refreshed
+const POLL_INTERVAL_MS = 60000
+
+const RECENT_LIMIT = 5
+
+const formatTime = (date: string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000)
+  if (minutes < 1) return 'Just now'
+  if (minutes < 60) return `${minutes}m ago`
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h ago`
+  return new Date(date).toLocaleDateString()
+}
+
+const NotificationBell = () => {
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [recent, setRecent] = useState<Notification[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setUnreadCount(await notificationService.getUnreadCount())
+    } catch (error) {
+      console.error('Error fetching unread notifications:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refreshCount()
+    const timer = setInterval(refreshCount, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [refreshCount])
+
+  const handleToggle = async () => {
+    const opening = !isOpen
+    setIsOpen(opening)
+    if (!opening) return
+
+    try {
+      setIsLoading(true)
+      const result = await notificationService.getNotifications({ limit: RECENT_LIMIT })
+      setRecent(result.notifications)
+      setUnreadCount(result.unreadCount)
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenNotification = async (notification: Notification) => {
+    if (notification.status === 'READ') return
+
+    try {
+      await notificationService.markAsRead(notification.id)
+      setRecent(current => current.map(item => (item.id === notification.id ? { ...item, status: 'READ' } : item)))
+      setUnreadCount(count => Math.max(0, count - 1))
+    } catch (error) {
+      console.error('Error marking notification as read:', error)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllAsRead()
+      setRecent(current => current.map(item => ({ ...item, status: 'READ' })))
+      setUnreadCount(0)
+    } catch (error) {
+      console.error('Error marking notifications as read:', error)
+    }
+  }
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        onClick={handleToggle}
+        className="relative p-1.5 sm:p-2 rounded-md hover:bg-accent transition-colors"
+        aria-label="Notifications"
+      >
+        <FaBell className="h-5 w-5 sm:h-6 sm:w-6 text-foreground" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-orange-600 text-white text-xs rounded-full h-4 w-4 sm:h-5 sm:w-5 flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-72 sm:w-80 rounded-xl shadow-xl bg-card border-2 border-orange-200 dark:border-orange-800 z-50 overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-orange-200 dark:border-orange-800">
+              <span className="text-sm font-semibold text-gray-900 dark:text-white">Notifications</span>
+              {unreadCount > 0 && (
+                <button
+                  onClick={handleMarkAllRead}
+                  className="text-xs font-medium text-orange-600 hover:text-orange-700"
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-80 overflow-y-auto">
+              {isLoading ? (
+                <p className="px-4 py-6 text-sm text-center text-gray-500">Loading...</p>
+              ) : recent.length === 0 ? (
+                <p className="px-4 py-6 text-sm text-center text-gray-500">You have no notifications</p>
+              ) : (
+                recent.map(notification => (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpenNotification(notification)}
+                    className={`block w-full text-left px-4 py-3 border-b border-gray-100 dark:border-gray-700 hover:bg-orange-50 dark:hover:bg-orange-900/20 ${
+                      notification.status === 'READ' ? '' : 'bg-orange-50/50 dark:bg-orange-900/10'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white line-clamp-1">
+                        {notification.title}
+                      </p>
+                      {notification.status !== 'READ' && (
+                        <span className="mt-1.5 h-2 w-2 rounded-full bg-orange-600 flex-shrink-0" />
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2">{notification.content}</p>
+                    <p className="mt-1 text-xs text-gray-400">{formatTime(notification.createdAt)}</p>
+                  </button>
+                ))
+              )}
+            </div>
+
+            <Link
+              to={ROUTES.NOTIFICATIONS}
+              onClick={() => setIsOpen(false)}
+              className="block px-4 py-2.5 text-sm text-center font-medium text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20"
+            >
+              View all notifications
+            </Link>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default NotificationBell
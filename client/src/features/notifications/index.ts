@@ -0,0 +1,2 @@
+export * from './pages'
+export * from './components'
@@ -0,0 +1,399 @@
+import { useState, useEffect } from 'react'
+import {
+  notificationService,
+  Notification,
+  NotificationPreferences,
+  NotificationType,
+  DeliveryChannel,
+  QuietHours,
+} from '@/services/notification.service'
+
+const PAGE_SIZE = 20
+
+const CHANNELS: DeliveryChannel[] = ['IN_APP', 'EMAIL', 'PUSH', 'SMS']
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  BOOKING_CONFIRMATION: 'Booking confirmations',
+  BOOKING_REMINDER: 'Booking reminders',
+  BOOKING_CANCELLED: 'Booking cancellations',
+  TRIP_CHECKLIST: 'Pre-trip checklists',
+  TRIP_WEATHER: 'Trip weather updates',
+  REVIEW_REQUEST: 'Review requests',
+  PAYMENT_SUCCESS: 'Successful payments',
+  PAYMENT_FAILED: 'Failed payments',
+  CHAT_MESSAGE: 'Chat messages',
+  CHAT_MENTION: 'Chat mentions',
+  SYSTEM_ANNOUNCEMENT: 'Announcements',
+  SECURITY_ALERT: 'Security alerts',
+  PROMOTIONAL: 'Offers and promotions',
+}
+
+const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  startTime: '22:00',
+  endTime: '07:00',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  allowCritical: true,
+}
+
+export default function NotificationsPage() {
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [unreadOnly, setUnreadOnly] = useState(false)
+  const [page, setPage] = useState(1)
+  const [pages, setPages] = useState(0)
+  const [selected, setSelected] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [quietHours, setQuietHours] = useState<QuietHours>(DEFAULT_QUIET_HOURS)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const loadPage = async (nextPage: number) => {
+    try {
+      setIsLoading(true)
+      const result = await notificationService.getNotifications({ page: nextPage, limit: PAGE_SIZE, unreadOnly })
+      setNotifications(current => (nextPage === 1 ? result.notifications : [...current, ...result.notifications]))
+      setUnreadCount(result.unreadCount)
+      setPage(nextPage)
+      setPages(result.pagination.pages)
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setSelected([])
+    loadPage(1)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [unreadOnly])
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const result = await notificationService.getPreferences()
+        setPreferences(result)
+        setQuietHours(result.quietHours || DEFAULT_QUIET_HOURS)
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error)
+      }
+    }
+
+    fetchPreferences()
+  }, [])
+
+  const toggleSelected = (id: string) => {
+    setSelected(current => (current.includes(id) ? current.filter(item => item !== id) : [...current, id]))
+  }
+
+  const handleMarkRead = async (ids: string[]) => {
+    try {
+      await notificationService.markManyAsRead(ids)
+      setNotifications(current =>
+        unreadOnly
+          ? current.filter(item => !ids.includes(item.id))
+          : current.map(item => (ids.includes(item.id) ? { ...item, status: 'READ' } : item))
+      )
+      setUnreadCount(await notificationService.getUnreadCount())
+      setSelected([])
+    } catch (error) {
+      console.error('Error marking notifications as read:', error)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllAsRead()
+      setSelected([])
+      await loadPage(1)
+    } catch (error) {
+      console.error('Error marking notifications as read:', error)
+    }
+  }
+
+  const handleDelete = async (ids: string[]) => {
+    try {
+      await notificationService.deleteMany(ids)
+      setNotifications(current => current.filter(item => !ids.includes(item.id)))
+      setUnreadCount(await notificationService.getUnreadCount())
+      setSelected([])
+    } catch (error) {
+      console.error('Error deleting notifications:', error)
+    }
+  }
+
+  const savePreferences = async (save: () => Promise<NotificationPreferences>, success: string) => {
+    try {
+      setIsSaving(true)
+      setMessage(null)
+      const result = await save()
+      setPreferences(result)
+      setQuietHours(result.quietHours || DEFAULT_QUIET_HOURS)
+      setMessage(success)
+    } catch (error: any) {
+      setMessage(error.response?.data?.error?.message || 'Failed to save preferences')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleChannel = (type: NotificationType, channel: DeliveryChannel) => {
+    if (!preferences) return
+
+    const current = preferences.channels[type] || []
+    const channels = current.includes(channel)
+      ? current.filter(item => item !== channel)
+      : [...current, channel]
+
+    savePreferences(
+      () => notificationService.updatePreferences({ channels: { ...preferences.channels, [type]: channels } }),
+      'Channels updated'
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 max-w-5xl">
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gradient-ethiopian mb-2">Notifications</h1>
+        <p className="text-sm text-muted-foreground">
+          {unreadCount > 0 ? `You have ${unreadCount} unread notifications` : 'You are all caught up'}
+        </p>
+      </div>
+
+      {/* Inbox */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md mb-8">
+        <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex gap-2">
+            {[false, true].map(value => (
+              <button
+                key={String(value)}
+                onClick={() => setUnreadOnly(value)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+                  unreadOnly === value ? 'bg-orange-600 text-white' : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+              >
+                {value ? 'Unread' : 'All'}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            {selected.length > 0 ? (
+              <>
+                <button
+                  onClick={() => handleMarkRead(selected)}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-sm"
+                >
+                  Mark {selected.length} as read
+                </button>
+                <button
+                  onClick={() => handleDelete(selected)}
+                  className="px-3 py-1.5 rounded-lg border border-red-300 text-red-600 text-sm"
+                >
+                  Delete {selected.length}
+                </button>
+              </>
+            ) : (
+              unreadCount > 0 && (
+                <button
+                  onClick={handleMarkAllRead}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-sm"
+                >
+                  Mark all as read
+                </button>
+              )
+            )}
+          </div>
+        </div>
+
+        {notifications.length === 0 && !isLoading ? (
+          <p className="px-4 py-10 text-center text-sm text-gray-500">No notifications to show</p>
+        ) : (
+          <ul>
+            {notifications.map(notification => (
+              <li
+                key={notification.id}
+                className={`flex items-start gap-3 px-4 py-3 border-b border-gray-100 dark:border-gray-700 ${
+                  notification.status === 'READ' ? '' : 'bg-orange-50/50 dark:bg-orange-900/10'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(notification.id)}
+                  onChange={() => toggleSelected(notification.id)}
+                  className="mt-1"
+                  aria-label={`Select ${notification.title}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{notification.title}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{notification.content}</p>
+                  <p className="mt-1 text-xs text-gray-400">{new Date(notification.createdAt).toLocaleString()}</p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  {notification.status !== 'READ' && (
+                    <button
+                      onClick={() => handleMarkRead([notification.id])}
+                      className="text-xs font-medium text-orange-600 hover:text-orange-700"
+                    >
+                      Mark read
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete([notification.id])}
+                    className="text-xs font-medium text-red-600 hover:text-red-700"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {page < pages && (
+          <div className="p-4 flex justify-center">
+            <button
+              onClick={() => loadPage(page + 1)}
+              disabled={isLoading}
+              className="px-6 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-sm font-medium disabled:opacity-50"
+            >
+              {isLoading ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Preferences */}
+      {preferences && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md p-4 sm:p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Preferences</h2>
+            <button
+              onClick={() => savePreferences(() => notificationService.resetPreferences(), 'Preferences reset')}
+              disabled={isSaving}
+              className="text-sm text-gray-600 hover:text-gray-900 dark:text-gray-300 disabled:opacity-50"
+            >
+              Reset to defaults
+            </button>
+          </div>
+
+          {message && <p className="text-sm text-orange-600">{message}</p>}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Notification</th>
+                  {CHANNELS.map(channel => (
+                    <th key={channel} className="py-2 px-2 font-medium text-center">
+                      {channel === 'IN_APP' ? 'In app' : channel.charAt(0) + channel.slice(1).toLowerCase()}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(TYPE_LABELS) as NotificationType[]).map(type => (
+                  <tr key={type} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{TYPE_LABELS[type]}</td>
+                    {CHANNELS.map(channel => (
+                      <td key={channel} className="py-2 px-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={preferences.channels[type]?.includes(channel) ?? false}
+                          onChange={() => handleToggleChannel(type, channel)}
+                          disabled={isSaving}
+                          aria-label={`${TYPE_LABELS[type]} by ${channel}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Frequency</label>
+            <select
+              value={preferences.frequency}
+              onChange={(event) => savePreferences(
+                () => notificationService.updatePreferences({ frequency: event.target.value as NotificationPreferences['frequency'] }),
+                'Frequency updated'
+              )}
+              disabled={isSaving}
+              className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm"
+            >
+              <option value="immediate">Immediately</option>
+              <option value="hourly">Hourly digest</option>
+              <option value="daily">Daily digest</option>
+            </select>
+          </div>
+
+          <form
+            onSubmit={(event) => {
+              event.preventDefault()
+              savePreferences(() => notificationService.updateQuietHours(quietHours), 'Quiet hours updated')
+            }}
+            className="space-y-3"
+          >
+            <h3 className="font-medium text-gray-900 dark:text-white">Quiet hours</h3>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={quietHours.enabled}
+                onChange={(event) => setQuietHours({ ...quietHours, enabled: event.target.checked })}
+              />
+              Pause notifications during quiet hours
+            </label>
+            <div className="flex flex-wrap gap-3">
+              <label className="text-sm text-gray-700 dark:text-gray-300">
+                From
+                <input
+                  type="time"
+                  value={quietHours.startTime}
+                  onChange={(event) => setQuietHours({ ...quietHours, startTime: event.target.value })}
+                  className="ml-2 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700"
+                />
+              </label>
+              <label className="text-sm text-gray-700 dark:text-gray-300">
+                To
+                <input
+                  type="time"
+                  value={quietHours.endTime}
+                  onChange={(event) => setQuietHours({ ...quietHours, endTime: event.target.value })}
+                  className="ml-2 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700"
+                />
+              </label>
+              <label className="text-sm text-gray-700 dark:text-gray-300">
+                Time zone
+                <input
+                  type="text"
+                  value={quietHours.timezone}
+                  onChange={(event) => setQuietHours({ ...quietHours, timezone: event.target.value })}
+                  className="ml-2 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700"
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={quietHours.allowCritical}
+                onChange={(event) => setQuietHours({ ...quietHours, allowCritical: event.target.checked })}
+              />
+              Still notify me about critical alerts
+            </label>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 rounded-lg bg-orange-600 text-white text-sm font-medium hover:bg-orange-700 disabled:opacity-50"
+            >
+              Save quiet hours
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,8 @@
 import React, { useState } from 'react'
-import { PAYMENT_METHODS } from '../../../services/paymentService'
+import { PaymentMethod } from '../../../services/paymentService'
 
 interface PaymentFormProps {
-  selectedMethodId?: string
+  selectedMethod?: PaymentMethod
   amount: number
   currency: string
   onSubmit: (formData: any) => void
@@ -10,7 +10,7 @@ interface PaymentFormProps {
 }
 
 const PaymentForm: React.FC<PaymentFormProps> = ({
-  selectedMethodId,
+  selectedMethod,
   amount,
   currency,
   onSubmit,
@@ -25,8 +25,6 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     fullName: ''
   })
 
-  const selectedMethod = PAYMENT_METHODS.find(m => m.id === selectedMethodId)
-
   if (!selectedMethod) {
     return (
       <div className="text-center py-8 text-gray-500">
@@ -66,7 +64,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4">
-        {selectedMethod.provider === 'stripe' ? (
+        {selectedMethod.type === 'card' ? (
           // Stripe Card Payment Form
           <div className="space-y-4">
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
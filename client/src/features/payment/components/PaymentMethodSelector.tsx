@@ -1,23 +1,30 @@
-import React from 'react'
-import { PAYMENT_METHODS } from '../../../services/paymentService'
+import React, { useEffect, useState } from 'react'
+import { paymentService, PaymentMethod } from '../../../services/paymentService'
 
 interface PaymentMethodSelectorProps {
   selectedMethod?: string
-  onMethodSelect: (methodId: string) => void
+  onMethodSelect: (method: PaymentMethod) => void
   currency?: string
-  country?: string
 }
 
 const PaymentMethodSelector: React.FC<PaymentMethodSelectorProps> = ({
   selectedMethod,
   onMethodSelect,
-  currency = 'USD',
-  country = 'US'
+  currency = 'USD'
 }) => {
-  // Filter available methods based on currency and country
-  const availableMethods = PAYMENT_METHODS.filter(method => 
-    method.currencies.includes(currency) && method.countries.includes(country)
-  )
+  const [methods, setMethods] = useState<PaymentMethod[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // The server reports which providers are enabled
+  useEffect(() => {
+    paymentService.getPaymentMethods()
+      .then(setMethods)
+      .catch((error) => console.error('Failed to load payment methods:', error))
+      .finally(() => setLoading(false))
+  }, [])
+
+  // Filter available methods based on currency
+  const availableMethods = methods.filter(method => method.currencies.includes(currency))
 
   return (
     <div className="space-y-4">
@@ -27,7 +34,7 @@ const PaymentMethodSelector: React.FC<PaymentMethodSelectorProps> = ({
         {availableMethods.map((method) => (
           <button
             key={method.id}
-            onClick={() => onMethodSelect(method.id)}
+            onClick={() => onMethodSelect(method)}
             className={`
               w-full p-4 border-2 rounded-lg text-left transition-all duration-200
               ${selectedMethod === method.id
@@ -40,7 +47,12 @@ const PaymentMethodSelector: React.FC<PaymentMethodSelectorProps> = ({
               <div className="flex items-center space-x-3">
                 <span className="text-2xl">{method.icon}</span>
                 <div>
-                  <div className="font-medium text-gray-900">{method.name}</div>
+                  <div className="font-medium text-gray-900">
+                    {method.name}
+                    {method.sandbox && (
+                      <span className="ml-2 px-2 py-0.5 text-xs bg-yellow-100 text-yellow-800 rounded">Sandbox</span>
+                    )}
+                  </div>
                   <div className="text-sm text-gray-500">{method.description}</div>
                 </div>
               </div>
@@ -71,9 +83,15 @@ const PaymentMethodSelector: React.FC<PaymentMethodSelectorProps> = ({
         ))}
       </div>
       
-      {availableMethods.length === 0 && (
+      {loading && (
+        <div className="text-center py-8 text-gray-500">
+          <p>Loading payment methods...</p>
+        </div>
+      )}
+
+      {!loading && availableMethods.length === 0 && (
         <div className="text-center py-8 text-gray-500">
-          <p>No payment methods available for {currency} in {country}</p>
+          <p>No payment methods available for {currency}</p>
         </div>
       )}
     </div>
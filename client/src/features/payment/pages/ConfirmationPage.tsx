@@ -2,6 +2,7 @@ import React from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
 import { useDispatch } from 'react-redux'
 import { clearCart } from '@store/slices/bookingSlice'
+import { AppDispatch } from '@store/store'
 import QRCodeGenerator from '../components/QRCodeGenerator'
 
 interface LocationState {
@@ -22,7 +23,7 @@ interface LocationState {
 const ConfirmationPage: React.FC = () => {
   const location = useLocation()
   const navigate = useNavigate()
-  const dispatch = useDispatch()
+  const dispatch = useDispatch<AppDispatch>()
   const state = location.state as LocationState
 
   // Clear cart on successful payment
@@ -2,7 +2,8 @@ import React, { useState } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
 import PaymentMethodSelector from '../components/PaymentMethodSelector'
 import PaymentForm from '../components/PaymentForm'
-import { api } from '@api/axios.config'
+import { PaymentMethod } from '@/services/paymentService'
+import { checkoutService, toCheckoutSessionData } from '@/services/checkout.service'
 
 interface LocationState {
   packageDetails?: {
@@ -17,6 +18,7 @@ interface LocationState {
   checkoutData?: any
   cartItems?: any[]
   totalPrice?: number
+  currency?: string
   subtotal?: number
   discount?: number
   appliedPromo?: any
@@ -27,7 +29,7 @@ const PaymentPage: React.FC = () => {
   const location = useLocation()
   const state = location.state as LocationState
 
-  const [selectedMethodId, setSelectedMethodId] = useState<string>('')
+  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string>('')
 
@@ -35,7 +37,7 @@ const PaymentPage: React.FC = () => {
   const cartItems = state?.cartItems || []
   const checkoutData = state?.checkoutData
   const totalAmount = state?.totalPrice || state?.packageDetails?.price || 0
-  const currency = state?.packageDetails?.currency || 'USD'
+  const currency = state?.currency || state?.packageDetails?.currency || 'USD'
 
   // Mock package details if not provided
   const packageDetails = state?.packageDetails || {
@@ -48,11 +50,16 @@ const PaymentPage: React.FC = () => {
   }
 
   const handlePaymentSubmit = async (formData: any) => {
-    if (!selectedMethodId) {
+    if (!selectedMethod) {
       setError('Please select a payment method')
       return
     }
 
+    if (!checkoutData || cartItems.length === 0) {
+      setError('Please complete checkout before paying')
+      return
+    }
+
     setLoading(true)
     setError('')
 
@@ -76,81 +83,37 @@ const PaymentPage: React.FC = () => {
         return
       }
 
-      // Step 1: Create bookings for all cart items
-      const bookingPromises = cartItems.map(async (item) => {
-        const bookingData = {
-          tourId: item.tourId,
-          startDate: item.date,
-          endDate: item.date, // Will be calculated on backend based on tour duration
-          numberOfAdults: item.participants.adults,
-          numberOfChildren: item.participants.children,
-          totalPrice: item.totalPrice,
-          specialRequests: checkoutData?.specialRequests || item.specialRequests || '',
-          contactInfo: checkoutData?.contactInfo || {
-            firstName: formData.cardholderName?.split(' ')[0] || formData.fullName?.split(' ')[0] || 'Guest',
-            lastName: formData.cardholderName?.split(' ')[1] || formData.fullName?.split(' ')[1] || 'User',
-            email: checkoutData?.contactInfo?.email || 'user@example.com',
-            phone: formData.phoneNumber || checkoutData?.contactInfo?.phone || '',
-          },
-          travelers: checkoutData?.travelers || [],
-          emergencyContact: checkoutData?.emergencyContact,
-          addOns: item.addOns || [],
-        }
-
-        const response = await api.post('/api/bookings', bookingData)
-        return response.data.data.booking
+      // Step 1: Check out the cart; every tour and product is held until the payment settles
+      const session = await checkoutService.createSession(
+        toCheckoutSessionData(checkoutData, cartItems, currency)
+      )
+
+      // Step 2: Pay for the whole checkout at once
+      const paymentResponse = await checkoutService.pay(session.id, {
+        method: selectedMethod.method,
+        email: checkoutData?.contactInfo?.email || undefined,
+        firstName: checkoutData?.contactInfo?.firstName || undefined,
+        lastName: checkoutData?.contactInfo?.lastName || undefined,
+        phone: formData.phoneNumber || checkoutData?.contactInfo?.phone || undefined,
       })
 
-      const bookings = await Promise.all(bookingPromises)
-      const bookingIds = bookings.map(b => b.id)
-
-      // Step 2: Create payment intent
-      const paymentData = {
-        amount: packageDetails.price,
-        currency: packageDetails.currency,
-        bookingIds: bookingIds,
-        paymentMethod: selectedMethodId,
-        customerInfo: {
-          name: formData.cardholderName || formData.fullName || 'Guest User',
-          email: checkoutData?.contactInfo?.email || 'user@example.com',
-          phone: formData.phoneNumber || checkoutData?.contactInfo?.phone,
-        },
-        metadata: {
-          cartItems: cartItems.map(item => ({
-            tourId: item.tourId,
-            tourName: item.tourName,
-            date: item.date,
-            participants: item.participants,
-          })),
-          discount: state?.discount || 0,
-          promoCode: state?.appliedPromo?.code,
-        }
-      }
-
-      // Use Stripe or Chapa based on selected method
-      let paymentResponse
-      if (selectedMethodId === 'stripe_card') {
-        paymentResponse = await api.post('/api/payments/stripe/create-intent', paymentData)
-      } else if (selectedMethodId.startsWith('chapa_')) {
-        paymentResponse = await api.post('/api/payments/chapa/initialize', paymentData)
-      } else {
-        throw new Error('Unsupported payment method')
+      // Redirect providers are paid on their own checkout page
+      if (selectedMethod.flow === 'redirect' && paymentResponse.checkoutUrl) {
+        window.location.href = paymentResponse.checkoutUrl
+        return
       }
 
-      if (paymentResponse.data.success) {
-        // Navigate to confirmation with all data
-        navigate('/confirmation', {
-          state: {
-            paymentResponse: paymentResponse.data.data,
-            bookings: bookings,
-            packageDetails,
-            totalAmount: packageDetails.price,
-            paymentMethod: selectedMethodId,
-          }
-        })
-      } else {
-        setError(paymentResponse.data.message || 'Payment failed. Please try again.')
-      }
+      // Navigate to confirmation with all data
+      navigate('/confirmation', {
+        state: {
+          paymentResponse,
+          bookings: session.bookings,
+          checkoutSession: session,
+          packageDetails,
+          totalAmount: Number(session.total),
+          paymentMethod: selectedMethod.id,
+        }
+      })
     } catch (err: any) {
       console.error('Payment error:', err)
       const errorMessage = err.response?.data?.error?.message || err.message || 'An unexpected error occurred. Please try again.'
@@ -259,17 +222,16 @@ const PaymentPage: React.FC = () => {
           <div className="space-y-6">
             <div className="bg-white rounded-lg shadow-sm border p-6">
               <PaymentMethodSelector
-                selectedMethod={selectedMethodId}
-                onMethodSelect={setSelectedMethodId}
+                selectedMethod={selectedMethod?.id}
+                onMethodSelect={setSelectedMethod}
                 currency={packageDetails.currency}
-                country="ET"
               />
             </div>
 
-            {selectedMethodId && (
+            {selectedMethod && (
               <div className="bg-white rounded-lg shadow-sm border p-6">
                 <PaymentForm
-                  selectedMethodId={selectedMethodId}
+                  selectedMethod={selectedMethod}
                   amount={packageDetails.price}
                   currency={packageDetails.currency}
                   onSubmit={handlePaymentSubmit}
@@ -1,76 +1,128 @@
 import { useState } from 'react'
-import { TourFilters as TourFiltersType, TourCategory, TourDifficulty } from '@/types/tour'
-import { PriceRangeSlider } from './PriceRangeSlider'
+import { TourFilters as TourFiltersType } from '@/types/tour'
+import type { TourFacets, TourFacetValue, TourRangeFacet } from '@/services/tour.service'
 import { DateRangePicker, DateRange } from './DateRangePicker'
 
 export interface EnhancedTourFiltersProps {
   filters: TourFiltersType
   onFiltersChange: (filters: TourFiltersType) => void
   onReset: () => void
+  facets?: TourFacets | null
 }
 
-const categories: { value: TourCategory; label: string; icon: string }[] = [
-  { value: 'historical', label: 'Historical', icon: '🏛️' },
-  { value: 'adventure', label: 'Adventure', icon: '🏔️' },
-  { value: 'cultural', label: 'Cultural', icon: '🎭' },
-  { value: 'nature', label: 'Nature', icon: '🌿' },
-  { value: 'religious', label: 'Religious', icon: '⛪' },
-  { value: 'wildlife', label: 'Wildlife', icon: '🦁' },
-  { value: 'trekking', label: 'Trekking', icon: '🥾' },
-  { value: 'city', label: 'City Tours', icon: '🏙️' },
-]
-
-const difficulties: { value: TourDifficulty; label: string; color: string }[] = [
-  { value: 'easy', label: 'Easy', color: 'text-green-600' },
-  { value: 'moderate', label: 'Moderate', color: 'text-yellow-600' },
-  { value: 'challenging', label: 'Challenging', color: 'text-orange-600' },
-  { value: 'extreme', label: 'Extreme', color: 'text-red-600' },
-]
-
-const regions = [
-  'Addis Ababa',
-  'Amhara',
-  'Oromia',
-  'Tigray',
-  'Southern Nations',
-  'Afar',
-  'Somali',
-]
-
-export const EnhancedTourFilters = ({ filters, onFiltersChange, onReset }: EnhancedTourFiltersProps) => {
+const categoryIcons: Record<string, string> = {
+  historical: '🏛️',
+  adventure: '🏔️',
+  cultural: '🎭',
+  nature: '🌿',
+  religious: '⛪',
+  wildlife: '🦁',
+  trekking: '🥾',
+  city: '🏙️',
+}
+
+const difficultyColors: Record<string, string> = {
+  easy: 'text-green-600',
+  moderate: 'text-yellow-600',
+  challenging: 'text-orange-600',
+  extreme: 'text-red-600',
+}
+
+const languageNames: Record<string, string> = {
+  en: 'English',
+  am: 'Amharic',
+  om: 'Afaan Oromo',
+  ti: 'Tigrinya',
+  fr: 'French',
+  de: 'German',
+  es: 'Spanish',
+  it: 'Italian',
+  zh: 'Chinese',
+}
+
+const radiusOptions = [50, 100, 250, 500]
+
+const toggleValue = (values: string[] | undefined, value: string) => {
+  const current = values || []
+  return current.includes(value)
+    ? current.filter(v => v !== value)
+    : [...current, value]
+}
+
+// Open-ended ranges are kept as [min, Infinity]
+const toRange = (facet: TourRangeFacet): [number, number] => [facet.min, facet.max ?? Infinity]
+
+const isSelectedRange = (range: [number, number] | undefined, facet: TourRangeFacet) =>
+  !!range && range[0] === facet.min && range[1] === (facet.max ?? Infinity)
+
+export const EnhancedTourFilters = ({ filters, onFiltersChange, onReset, facets }: EnhancedTourFiltersProps) => {
   const [isOpen, setIsOpen] = useState(false)
   const [dateRange, setDateRange] = useState<DateRange>({ startDate: null, endDate: null })
+  const [isLocating, setIsLocating] = useState(false)
+  const [locationError, setLocationError] = useState<string | null>(null)
 
-  const handleCategoryToggle = (category: TourCategory) => {
-    const current = filters.category || []
-    const updated = current.includes(category)
-      ? current.filter(c => c !== category)
-      : [...current, category]
-    onFiltersChange({ ...filters, category: updated })
+  const handleCategoryToggle = (category: string) => {
+    onFiltersChange({ ...filters, category: toggleValue(filters.category, category) })
   }
 
-  const handleDifficultyToggle = (difficulty: TourDifficulty) => {
-    const current = filters.difficulty || []
-    const updated = current.includes(difficulty)
-      ? current.filter(d => d !== difficulty)
-      : [...current, difficulty]
-    onFiltersChange({ ...filters, difficulty: updated })
+  const handleDifficultyToggle = (difficulty: string) => {
+    onFiltersChange({ ...filters, difficulty: toggleValue(filters.difficulty, difficulty) })
   }
 
-  const handleRegionToggle = (region: string) => {
-    const current = filters.region || []
-    const updated = current.includes(region)
-      ? current.filter(r => r !== region)
-      : [...current, region]
-    onFiltersChange({ ...filters, region: updated })
+  const handleLanguageToggle = (language: string) => {
+    onFiltersChange({ ...filters, language: toggleValue(filters.language, language) })
   }
 
-  const handlePriceChange = (value: [number, number]) => {
-    onFiltersChange({ ...filters, priceRange: value })
+  const handlePriceSelect = (facet: TourRangeFacet) => {
+    onFiltersChange({
+      ...filters,
+      priceRange: isSelectedRange(filters.priceRange, facet) ? undefined : toRange(facet),
+    })
   }
 
-  const handleDurationChange = (value: [number, number]) => {
-    onFiltersChange({ ...filters, duration: value })
+  const handleDurationSelect = (facet: TourRangeFacet) => {
+    onFiltersChange({
+      ...filters,
+      duration: isSelectedRange(filters.duration, facet) ? undefined : toRange(facet),
+    })
+  }
+
+  const handleNearMe = () => {
+    if (filters.near) {
+      onFiltersChange({ ...filters, near: undefined })
+      return
+    }
+
+    if (!navigator.geolocation) {
+      setLocationError('Your browser cannot share its location')
+      return
+    }
+
+    setIsLocating(true)
+    setLocationError(null)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false)
+        onFiltersChange({
+          ...filters,
+          near: {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            radius: radiusOptions[1],
+          },
+        })
+      },
+      () => {
+        setIsLocating(false)
+        setLocationError('Could not get your location')
+      }
+    )
+  }
+
+  const handleRadiusChange = (radius: number) => {
+    if (filters.near) {
+      onFiltersChange({ ...filters, near: { ...filters.near, radius } })
+    }
   }
 
   const handleDateRangeChange = (value: DateRange) => {
@@ -78,13 +130,54 @@ export const EnhancedTourFilters = ({ filters, onFiltersChange, onReset }: Enhan
     // You can add date filtering logic here
   }
 
+  // Selected values stay visible even when the current results have none of them
+  const withSelected = (values: TourFacetValue[] | undefined, selected: string[] | undefined) => [
+    ...(values || []),
+    ...(selected || [])
+      .filter(value => !values?.some(facet => facet.value === value))
+      .map(value => ({ value, count: 0 })),
+  ]
+
+  const categoryFacets = withSelected(facets?.category, filters.category)
+  const difficultyFacets = withSelected(facets?.difficulty, filters.difficulty)
+  const languageFacets = withSelected(facets?.language, filters.language)
+
   const activeFiltersCount = 
     (filters.category?.length || 0) +
     (filters.difficulty?.length || 0) +
-    (filters.region?.length || 0) +
+    (filters.language?.length || 0) +
     (filters.priceRange ? 1 : 0) +
     (filters.duration ? 1 : 0) +
-    (filters.rating ? 1 : 0)
+    (filters.rating ? 1 : 0) +
+    (filters.near ? 1 : 0)
+
+  const renderRangeOptions = (
+    ranges: TourRangeFacet[] | undefined,
+    selected: [number, number] | undefined,
+    onSelect: (facet: TourRangeFacet) => void,
+    prefix = ''
+  ) => (
+    <div className="space-y-2">
+      {(ranges || []).map((facet) => {
+        const isSelected = isSelectedRange(selected, facet)
+        return (
+          <button
+            key={facet.key}
+            onClick={() => onSelect(facet)}
+            disabled={facet.count === 0 && !isSelected}
+            className={`w-full flex items-center justify-between px-3 py-2 rounded-lg border text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+              isSelected
+                ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20 text-orange-600 dark:text-orange-400'
+                : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 text-gray-700 dark:text-gray-300'
+            }`}
+          >
+            <span>{prefix}{facet.label}</span>
+            <span className="text-xs text-gray-500">{facet.count}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md">
@@ -139,92 +232,124 @@ export const EnhancedTourFilters = ({ filters, onFiltersChange, onReset }: Enhan
           />
         </div>
 
-        {/* Price Range Slider */}
+        {/* Near Me */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Starting Point</h4>
+          <button
+            onClick={handleNearMe}
+            disabled={isLocating}
+            className={`w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+              filters.near
+                ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20 text-orange-600 dark:text-orange-400'
+                : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 text-gray-700 dark:text-gray-300'
+            }`}
+          >
+            <span>📍</span>
+            {isLocating ? 'Finding you...' : filters.near ? 'Near me (clear)' : 'Tours starting near me'}
+          </button>
+          {filters.near && (
+            <select
+              value={filters.near.radius}
+              onChange={(e) => handleRadiusChange(Number(e.target.value))}
+              className="mt-2 w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+            >
+              {radiusOptions.map((radius) => (
+                <option key={radius} value={radius}>
+                  Within {radius} km
+                </option>
+              ))}
+            </select>
+          )}
+          {locationError && (
+            <p className="mt-2 text-xs text-red-600">{locationError}</p>
+          )}
+        </div>
+
+        {/* Price Range */}
         <div>
           <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Price Range</h4>
-          <PriceRangeSlider
-            min={0}
-            max={50000}
-            value={filters.priceRange || [0, 50000]}
-            onChange={handlePriceChange}
-            currency="ETB"
-            step={500}
-          />
+          {renderRangeOptions(facets?.price, filters.priceRange, handlePriceSelect, '$')}
         </div>
 
-        {/* Duration Slider */}
+        {/* Duration */}
         <div>
-          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Duration (Days)</h4>
-          <PriceRangeSlider
-            min={1}
-            max={30}
-            value={filters.duration || [1, 30]}
-            onChange={handleDurationChange}
-            currency=""
-            step={1}
-          />
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Duration</h4>
+          {renderRangeOptions(facets?.duration, filters.duration, handleDurationSelect)}
         </div>
 
         {/* Categories */}
-        <div>
-          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Category</h4>
-          <div className="grid grid-cols-2 gap-2">
-            {categories.map((cat) => (
-              <button
-                key={cat.value}
-                onClick={() => handleCategoryToggle(cat.value)}
-                className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors ${
-                  filters.category?.includes(cat.value)
-                    ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20 text-orange-600 dark:text-orange-400'
-                    : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 text-gray-700 dark:text-gray-300'
-                }`}
-              >
-                <span className="text-lg">{cat.icon}</span>
-                <span className="text-xs font-medium">{cat.label}</span>
-              </button>
-            ))}
+        {categoryFacets.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Category</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {categoryFacets.map((cat) => {
+                const isSelected = filters.category?.includes(cat.value) || false
+                return (
+                  <button
+                    key={cat.value}
+                    onClick={() => handleCategoryToggle(cat.value)}
+                    disabled={cat.count === 0 && !isSelected}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                      isSelected
+                        ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20 text-orange-600 dark:text-orange-400'
+                        : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    <span className="text-lg">{categoryIcons[cat.value.toLowerCase()] || '🧭'}</span>
+                    <span className="text-xs font-medium truncate">{cat.value}</span>
+                    <span className="ml-auto text-xs text-gray-500">{cat.count}</span>
+                  </button>
+                )
+              })}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Difficulty */}
-        <div>
-          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Difficulty</h4>
-          <div className="space-y-2">
-            {difficulties.map((diff) => (
-              <label key={diff.value} className="flex items-center gap-2 cursor-pointer group">
-                <input
-                  type="checkbox"
-                  checked={filters.difficulty?.includes(diff.value) || false}
-                  onChange={() => handleDifficultyToggle(diff.value)}
-                  className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
-                />
-                <span className={`text-sm font-medium ${diff.color} group-hover:opacity-80`}>
-                  {diff.label}
-                </span>
-              </label>
-            ))}
+        {difficultyFacets.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Difficulty</h4>
+            <div className="space-y-2">
+              {difficultyFacets.map((diff) => (
+                <label key={diff.value} className="flex items-center gap-2 cursor-pointer group">
+                  <input
+                    type="checkbox"
+                    checked={filters.difficulty?.includes(diff.value) || false}
+                    onChange={() => handleDifficultyToggle(diff.value)}
+                    className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                  />
+                  <span className={`text-sm font-medium ${difficultyColors[diff.value.toLowerCase()] || 'text-gray-700'} group-hover:opacity-80`}>
+                    {diff.value}
+                  </span>
+                  <span className="ml-auto text-xs text-gray-500">{diff.count}</span>
+                </label>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
-        {/* Region */}
-        <div>
-          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Region</h4>
-          <div className="space-y-2 max-h-48 overflow-y-auto">
-            {regions.map((region) => (
-              <label key={region} className="flex items-center gap-2 cursor-pointer group">
-                <input
-                  type="checkbox"
-                  checked={filters.region?.includes(region) || false}
-                  onChange={() => handleRegionToggle(region)}
-                  className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
-                />
-                <span className="text-sm text-gray-700 dark:text-gray-300 group-hover:text-orange-600">
-                  {region}
-                </span>
-              </label>
-            ))}
+        {/* Language */}
+        {languageFacets.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Language</h4>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {languageFacets.map((lang) => (
+                <label key={lang.value} className="flex items-center gap-2 cursor-pointer group">
+                  <input
+                    type="checkbox"
+                    checked={filters.language?.includes(lang.value) || false}
+                    onChange={() => handleLanguageToggle(lang.value)}
+                    className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-gray-300 group-hover:text-orange-600">
+                    {languageNames[lang.value.toLowerCase()] || lang.value}
+                  </span>
+                  <span className="ml-auto text-xs text-gray-500">{lang.count}</span>
+                </label>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Rating */}
         <div>
@@ -233,7 +358,7 @@ export const EnhancedTourFilters = ({ filters, onFiltersChange, onReset }: Enhan
             {[1, 2, 3, 4, 5].map((rating) => (
               <button
                 key={rating}
-                onClick={() => onFiltersChange({ ...filters, rating })}
+                onClick={() => onFiltersChange({ ...filters, rating: filters.rating === rating ? undefined : rating })}
                 className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
                   filters.rating === rating
                     ? 'bg-orange-600 text-white'
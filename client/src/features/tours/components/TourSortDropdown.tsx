@@ -1,26 +1,41 @@
 import { useState, useRef, useEffect } from 'react'
 
-export type SortOption = 'price-asc' | 'price-desc' | 'rating' | 'popularity' | 'duration' | 'newest'
+export type SortOption =
+  | 'relevance'
+  | 'price-asc'
+  | 'price-desc'
+  | 'rating'
+  | 'popularity'
+  | 'duration'
+  | 'newest'
+  | 'distance'
 
 export interface TourSortDropdownProps {
   value: SortOption
   onChange: (value: SortOption) => void
+  // Sorts the current results support, e.g. relevance only while searching
+  available?: SortOption[]
 }
 
 const sortOptions: { value: SortOption; label: string; icon: string }[] = [
+  { value: 'relevance', label: 'Best Match', icon: '🎯' },
   { value: 'popularity', label: 'Most Popular', icon: '🔥' },
   { value: 'rating', label: 'Highest Rated', icon: '⭐' },
   { value: 'price-asc', label: 'Price: Low to High', icon: '💰' },
   { value: 'price-desc', label: 'Price: High to Low', icon: '💎' },
   { value: 'duration', label: 'Duration', icon: '⏱️' },
   { value: 'newest', label: 'Newest First', icon: '🆕' },
+  { value: 'distance', label: 'Nearest First', icon: '📍' },
 ]
 
-export const TourSortDropdown = ({ value, onChange }: TourSortDropdownProps) => {
+export const TourSortDropdown = ({ value, onChange, available }: TourSortDropdownProps) => {
   const [isOpen, setIsOpen] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
 
-  const selectedOption = sortOptions.find(opt => opt.value === value) || sortOptions[0]
+  const visibleOptions = available
+    ? sortOptions.filter(opt => available.includes(opt.value))
+    : sortOptions
+  const selectedOption = visibleOptions.find(opt => opt.value === value) || visibleOptions[0] || sortOptions[0]
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -61,7 +76,7 @@ export const TourSortDropdown = ({ value, onChange }: TourSortDropdownProps) =>
 
       {isOpen && (
         <div className="absolute right-0 mt-2 w-56 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-2 z-50">
-          {sortOptions.map((option) => (
+          {visibleOptions.map((option) => (
             <button
               key={option.value}
               onClick={() => handleSelect(option.value)}
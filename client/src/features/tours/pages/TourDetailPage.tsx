@@ -2,25 +2,11 @@ import { useParams, useNavigate, Link } from 'react-router-dom'
 import { useState, useEffect } from 'react'
 import { api } from '@api/axios.config'
 import { Loader } from '@components/common/Loader/Loader'
+import { Tour as ApiTour, CancellationPolicy, tourService } from '@/services/tour.service'
+import { getCurrency } from '@/utils/storage'
 import { FaStar, FaMapMarkerAlt, FaClock, FaUsers, FaCalendar, FaCheck, FaTimes } from 'react-icons/fa'
 
-interface Tour {
-  id: string
-  title: string
-  description: string
-  images: string[]
-  price: number
-  duration: number
-  maxGroupSize: number
-  difficulty: string
-  category: string
-  startLocation: any
-  locations: any[]
-  included: string[]
-  excluded: string[]
-  itinerary: any[]
-  tags: string[]
-  featured: boolean
+type Tour = ApiTour & {
   rating?: number
   reviews?: number
 }
@@ -31,6 +17,7 @@ export const TourDetailPage = () => {
   const [tour, setTour] = useState<Tour | null>(null)
   const [loading, setLoading] = useState(true)
   const [selectedImage, setSelectedImage] = useState(0)
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy | null>(null)
 
   useEffect(() => {
     const fetchTour = async () => {
@@ -41,25 +28,18 @@ export const TourDetailPage = () => {
 
       try {
         setLoading(true)
-        const response = await api.get(`/api/tours/${tourId}`)
+        const response = await api.get(`/api/tours/${tourId}`, {
+          params: { currency: getCurrency() || undefined },
+        })
         
         if (response.data?.success && response.data?.data?.tour) {
           const tourData = response.data.data.tour
           
-          const parsedTour = {
+          setTour({
             ...tourData,
-            images: tourData.images ? JSON.parse(tourData.images) : [],
-            startLocation: tourData.startLocation ? JSON.parse(tourData.startLocation) : {},
-            locations: tourData.locations ? JSON.parse(tourData.locations) : [],
-            included: tourData.included ? JSON.parse(tourData.included) : [],
-            excluded: tourData.excluded ? JSON.parse(tourData.excluded) : [],
-            itinerary: tourData.itinerary ? JSON.parse(tourData.itinerary) : [],
-            tags: tourData.tags ? JSON.parse(tourData.tags) : [],
             rating: 4.5,
             reviews: 0
-          }
-          
-          setTour(parsedTour)
+          })
         } else {
           navigate('/tours')
         }
@@ -74,6 +54,14 @@ export const TourDetailPage = () => {
     fetchTour()
   }, [tourId, navigate])
 
+  useEffect(() => {
+    if (!tourId) return
+
+    tourService.getCancellationPolicy(tourId)
+      .then(setCancellationPolicy)
+      .catch(err => console.error('Error fetching cancellation policy:', err))
+  }, [tourId])
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -87,7 +75,7 @@ export const TourDetailPage = () => {
   }
 
   const mainImage = tour.images[selectedImage] || tour.images[0] || 'https://images.unsplash.com/photo-1523805009345-7448845a9e53?w=800'
-  const location = tour.startLocation?.description || tour.category
+  const location = tour.startLocation?.name || tour.category
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -212,13 +200,31 @@ export const TourDetailPage = () => {
               </div>
             </div>
 
+            {/* Cancellation Policy */}
+            {cancellationPolicy && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-2xl font-bold mb-4">Cancellation Policy</h2>
+                <ul className="space-y-2">
+                  {cancellationPolicy.summary.map((rule, idx) => (
+                    <li key={idx} className="flex items-start gap-2 text-gray-700">
+                      <FaCalendar className="text-orange-600 mt-1 flex-shrink-0" />
+                      <span>{rule}</span>
+                    </li>
+                  ))}
+                </ul>
+                {cancellationPolicy.notes && (
+                  <p className="mt-4 text-sm text-gray-600">{cancellationPolicy.notes}</p>
+                )}
+              </div>
+            )}
+
             {/* Itinerary */}
             {tour.itinerary.length > 0 && (
               <div className="bg-white rounded-lg shadow-md p-6">
                 <h2 className="text-2xl font-bold mb-4">Itinerary</h2>
                 <div className="space-y-4">
-                  {tour.itinerary.map((day: any, idx: number) => (
-                    <div key={idx} className="border-l-4 border-orange-600 pl-4">
+                  {tour.itinerary.map((day) => (
+                    <div key={day.day} className="border-l-4 border-orange-600 pl-4">
                       <h3 className="font-semibold text-lg">Day {day.day}: {day.title}</h3>
                       <p className="text-gray-700 mt-1">{day.description}</p>
                     </div>
@@ -233,7 +239,9 @@ export const TourDetailPage = () => {
             <div className="bg-white rounded-lg shadow-md p-6 sticky top-8">
               <div className="text-center mb-6">
                 <div className="text-sm text-gray-600">From</div>
-                <div className="text-4xl font-bold text-orange-600">${tour.price}</div>
+                <div className="text-4xl font-bold text-orange-600">
+                  {tour.displayCurrency ?? tour.currency} {Number(tour.displayPrice ?? tour.price).toLocaleString()}
+                </div>
                 <div className="text-sm text-gray-600">per person</div>
               </div>
 
@@ -244,9 +252,11 @@ export const TourDetailPage = () => {
                 Book Now
               </Link>
 
-              <div className="text-center text-sm text-gray-600 mb-4">
-                Free cancellation up to 24 hours before
-              </div>
+              {cancellationPolicy?.summary[0] && (
+                <div className="text-center text-sm text-gray-600 mb-4">
+                  {cancellationPolicy.summary[0]}
+                </div>
+              )}
 
               {tour.tags.length > 0 && (
                 <div className="border-t pt-4">
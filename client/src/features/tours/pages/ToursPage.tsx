@@ -1,169 +1,219 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { TourGrid } from '../components/TourGrid'
 import { EnhancedTourFilters } from '../components/EnhancedTourFilters'
 import { TourSearchBar, SearchSuggestion } from '../components/TourSearchBar'
 import { TourSortDropdown, SortOption } from '../components/TourSortDropdown'
 import { Tour, TourFilters as TourFiltersType } from '@/types/tour'
-import { api } from '@api/axios.config'
+import {
+  tourService,
+  Tour as ApiTour,
+  TourFacets,
+  TourFilters as TourQuery,
+  TourSortField,
+} from '@/services/tour.service'
+import { useDebounce } from '@hooks/useDebounce'
+import CurrencySelector from '@/components/CurrencySelector'
+import { getCurrency, setCurrency as storeCurrency } from '@/utils/storage'
+
+const PAGE_SIZE = 12
+
+const FALLBACK_IMAGE = 'https://images.unsplash.com/photo-1523805009345-7448845a9e53?w=800'
+
+const sortParams: Record<SortOption, Pick<TourQuery, 'sortBy' | 'sortOrder'>> = {
+  relevance: { sortBy: 'relevance' },
+  'price-asc': { sortBy: 'price', sortOrder: 'asc' },
+  'price-desc': { sortBy: 'price', sortOrder: 'desc' },
+  rating: { sortBy: 'rating' },
+  popularity: { sortBy: 'popularity' },
+  duration: { sortBy: 'duration', sortOrder: 'asc' },
+  newest: { sortBy: 'createdAt', sortOrder: 'desc' },
+  distance: { sortBy: 'distance' },
+}
+
+const sortOptionsFor: Record<TourSortField, SortOption[]> = {
+  relevance: ['relevance'],
+  price: ['price-asc', 'price-desc'],
+  rating: ['rating'],
+  popularity: ['popularity'],
+  duration: ['duration'],
+  createdAt: ['newest'],
+  distance: ['distance'],
+  title: [],
+}
+
+const toTourCard = (tour: ApiTour): Tour => {
+  return {
+    id: tour.id,
+    title: tour.title,
+    description: tour.description,
+    shortDescription: tour.shortDescription || tour.description.substring(0, 100) + '...',
+    imageUrl: tour.images[0] || FALLBACK_IMAGE,
+    images: tour.images,
+    price: Number(tour.displayDiscountPrice ?? tour.displayPrice ?? tour.discountPrice ?? tour.price),
+    currency: tour.displayCurrency ?? tour.currency,
+    duration: `${tour.duration} days`,
+    durationDays: tour.duration,
+    location: tour.startLocation?.name || tour.category,
+    region: 'Ethiopia',
+    category: tour.category.toLowerCase() as Tour['category'],
+    difficulty: tour.difficulty.toLowerCase() as Tour['difficulty'],
+    rating: tour.averageRating ?? 0,
+    reviewCount: tour.reviewCount ?? 0,
+    maxGroupSize: tour.maxGroupSize,
+    minAge: 12,
+    highlights: tour.tags,
+    included: tour.included,
+    excluded: tour.excluded,
+    itinerary: tour.itinerary.map(day => ({
+      day: day.day,
+      title: day.title,
+      description: day.description,
+      activities: day.activities,
+      meals: day.meals,
+      accommodation: day.accommodation ?? undefined,
+    })),
+    guide: {
+      id: '1',
+      name: 'Professional Guide',
+      avatar: '',
+      languages: ['English', 'Amharic'],
+      rating: 4.8,
+      toursGuided: 50,
+    },
+    availability: [],
+    tags: tour.tags,
+    featured: tour.featured,
+    createdAt: new Date(tour.createdAt),
+    updatedAt: new Date(tour.updatedAt),
+  }
+}
+
+const toQuery = (filters: TourFiltersType, search: string, sortBy: SortOption, currency: string): TourQuery => ({
+  search: search.trim() || undefined,
+  currency,
+  category: filters.category?.length ? filters.category.join(',') : undefined,
+  difficulty: filters.difficulty?.length ? filters.difficulty.join(',') : undefined,
+  language: filters.language?.length ? filters.language.join(',') : undefined,
+  minPrice: filters.priceRange?.[0],
+  maxPrice: filters.priceRange && Number.isFinite(filters.priceRange[1]) ? filters.priceRange[1] : undefined,
+  minDuration: filters.duration?.[0],
+  maxDuration: filters.duration && Number.isFinite(filters.duration[1]) ? filters.duration[1] : undefined,
+  minRating: filters.rating,
+  latitude: filters.near?.latitude,
+  longitude: filters.near?.longitude,
+  radius: filters.near?.radius,
+  ...sortParams[sortBy],
+})
 
 export const ToursPage = () => {
   const [tours, setTours] = useState<Tour[]>([])
-  const [filteredTours, setFilteredTours] = useState<Tour[]>([])
+  const [facets, setFacets] = useState<TourFacets | null>(null)
+  const [availableSorts, setAvailableSorts] = useState<SortOption[] | undefined>(undefined)
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [pages, setPages] = useState(0)
   const [filters, setFilters] = useState<TourFiltersType>({})
   const [searchQuery, setSearchQuery] = useState('')
   const [sortBy, setSortBy] = useState<SortOption>('popularity')
   const [isLoading, setIsLoading] = useState(true)
   const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([])
+  const [currency, setCurrency] = useState(() => getCurrency() || 'USD')
 
-  // Fetch tours from API
+  const debouncedQuery = useDebounce(searchQuery, 300)
+
+  // Searching ranks by relevance until the user picks another sort
   useEffect(() => {
+    if (debouncedQuery.trim()) {
+      setSortBy(current => (current === 'popularity' ? 'relevance' : current))
+    }
+  }, [debouncedQuery])
+
+  // Fetch the first page whenever the search, filters or sort change
+  useEffect(() => {
+    let cancelled = false
+
     const fetchTours = async () => {
       try {
         setIsLoading(true)
-        const response = await api.get('/api/tours')
-        
-        if (response.data?.success && response.data?.data?.tours) {
-          const apiTours = response.data.data.tours.map((tour: any) => ({
-            id: tour.id,
-            title: tour.title,
-            description: tour.description,
-            shortDescription: tour.shortDescription || tour.description.substring(0, 100) + '...',
-            imageUrl: tour.images ? JSON.parse(tour.images)[0] || 'https://images.unsplash.com/photo-1523805009345-7448845a9e53?w=800' : 'https://images.unsplash.com/photo-1523805009345-7448845a9e53?w=800',
-            images: tour.images ? JSON.parse(tour.images) : [],
-            price: Number(tour.price),
-            currency: 'USD',
-            duration: `${tour.duration} days`,
-            durationDays: tour.duration,
-            location: tour.startLocation ? JSON.parse(tour.startLocation).description : tour.category,
-            region: 'Ethiopia',
-            category: tour.category.toLowerCase(),
-            difficulty: tour.difficulty.toLowerCase(),
-            rating: 4.5, // Default rating since we don't have this in the API yet
-            reviewCount: 0, // Default review count
-            maxGroupSize: tour.maxGroupSize,
-            minAge: 12,
-            highlights: tour.tags ? JSON.parse(tour.tags) : [],
-            included: tour.included ? JSON.parse(tour.included) : [],
-            excluded: tour.excluded ? JSON.parse(tour.excluded) : [],
-            itinerary: tour.itinerary ? JSON.parse(tour.itinerary) : [],
-            guide: {
-              id: '1',
-              name: 'Professional Guide',
-              avatar: '',
-              languages: ['English', 'Amharic'],
-              rating: 4.8,
-              toursGuided: 50,
-            },
-            availability: [],
-            tags: tour.tags ? JSON.parse(tour.tags) : [],
-            featured: tour.featured,
-            createdAt: new Date(tour.createdAt),
-            updatedAt: new Date(tour.updatedAt),
-          }))
-          
-          setTours(apiTours)
-          setFilteredTours(apiTours)
-        }
+        const result = await tourService.getTours({
+          ...toQuery(filters, debouncedQuery, sortBy, currency),
+          page: 1,
+          limit: PAGE_SIZE,
+        })
+        if (cancelled) return
+
+        setTours(result.tours.map(toTourCard))
+        setFacets(result.facets)
+        setAvailableSorts(result.sortOptions.flatMap(field => sortOptionsFor[field] || []))
+        setTotal(result.pagination.total)
+        setPages(result.pagination.pages)
+        setPage(1)
       } catch (error) {
         console.error('Error fetching tours:', error)
-        // Keep empty array on error
+        // Keep the previous results on error
       } finally {
-        setIsLoading(false)
+        if (!cancelled) setIsLoading(false)
       }
     }
 
     fetchTours()
-  }, [])
-
-  // Apply filters
-  useEffect(() => {
-    let result = [...tours]
-
-    // Search
-    if (searchQuery) {
-      result = result.filter(tour =>
-        tour.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        tour.description.toLowerCase().includes(searchQuery.toLowerCase())
-      )
+    return () => {
+      cancelled = true
     }
+  }, [filters, debouncedQuery, sortBy, currency])
 
-    // Category filter
-    if (filters.category && filters.category.length > 0) {
-      result = result.filter(tour => filters.category!.includes(tour.category))
-    }
-
-    // Price range
-    if (filters.priceRange) {
-      result = result.filter(tour =>
-        tour.price >= filters.priceRange![0] && tour.price <= filters.priceRange![1]
-      )
-    }
-
-    // Duration
-    if (filters.duration) {
-      result = result.filter(tour =>
-        tour.durationDays >= filters.duration![0] && tour.durationDays <= filters.duration![1]
-      )
-    }
-
-    // Difficulty
-    if (filters.difficulty && filters.difficulty.length > 0) {
-      result = result.filter(tour => filters.difficulty!.includes(tour.difficulty))
-    }
-
-    // Rating
-    if (filters.rating) {
-      result = result.filter(tour => tour.rating >= filters.rating!)
+  // Fall back to popularity when the chosen sort no longer applies, e.g. after clearing the search
+  useEffect(() => {
+    if (availableSorts && !availableSorts.includes(sortBy)) {
+      setSortBy('popularity')
     }
+  }, [availableSorts, sortBy])
 
-    // Region
-    if (filters.region && filters.region.length > 0) {
-      result = result.filter(tour => filters.region!.includes(tour.region))
+  const handleLoadMore = async () => {
+    try {
+      setIsLoading(true)
+      const result = await tourService.getTours({
+        ...toQuery(filters, debouncedQuery, sortBy, currency),
+        page: page + 1,
+        limit: PAGE_SIZE,
+      })
+      setTours(current => [...current, ...result.tours.map(toTourCard)])
+      setPage(page + 1)
+    } catch (error) {
+      console.error('Error fetching tours:', error)
+    } finally {
+      setIsLoading(false)
     }
-
-    // Sort
-    result.sort((a, b) => {
-      switch (sortBy) {
-        case 'price-asc':
-          return a.price - b.price
-        case 'price-desc':
-          return b.price - a.price
-        case 'rating':
-          return b.rating - a.rating
-        case 'duration':
-          return a.durationDays - b.durationDays
-        case 'popularity':
-          return b.reviewCount - a.reviewCount
-        case 'newest':
-          return b.createdAt.getTime() - a.createdAt.getTime()
-        default:
-          return 0
-      }
-    })
-
-    setFilteredTours(result)
-  }, [tours, filters, searchQuery, sortBy])
+  }
 
   const handleFiltersChange = (newFilters: TourFiltersType) => {
     setFilters(newFilters)
   }
 
+  // Remember the display currency across visits
+  const handleCurrencyChange = (code: string) => {
+    storeCurrency(code)
+    setCurrency(code)
+  }
+
   const handleResetFilters = () => {
     setFilters({})
     setSearchQuery('')
   }
 
-  const handleSearch = (query: string) => {
-    // Generate suggestions based on query
-    const mockSuggestions: SearchSuggestion[] = [
-      { id: '1', title: 'Lalibela Rock Churches', type: 'tour', icon: '🏛️' },
-      { id: '2', title: 'Simien Mountains', type: 'location', icon: '📍' },
-      { id: '3', title: 'Historical Tours', type: 'category', icon: '🏷️' },
-    ]
-    setSuggestions(mockSuggestions.filter(s => 
-      s.title.toLowerCase().includes(query.toLowerCase())
-    ))
-  }
+  // Suggest matching tours from the current results and matching categories from the facets
+  const handleSearch = useCallback((query: string) => {
+    const needle = query.toLowerCase()
+    const tourSuggestions: SearchSuggestion[] = tours
+      .filter(tour => tour.title.toLowerCase().includes(needle))
+      .slice(0, 5)
+      .map(tour => ({ id: tour.id, title: tour.title, type: 'tour', icon: '🏛️' }))
+    const categorySuggestions: SearchSuggestion[] = (facets?.category || [])
+      .filter(category => category.value.toLowerCase().includes(needle))
+      .map(category => ({ id: `category-${category.value}`, title: category.value, type: 'category', icon: '🏷️' }))
+
+    setSuggestions([...tourSuggestions, ...categorySuggestions])
+  }, [tours, facets])
 
   return (
     <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 max-w-full overflow-hidden">
@@ -190,18 +240,24 @@ export const ToursPage = () => {
           />
         </div>
 
-        {/* Sort */}
-        <div className="w-full sm:w-auto sm:self-end flex-shrink-0">
+        {/* Currency & Sort */}
+        <div className="w-full sm:w-auto sm:self-end flex-shrink-0 flex gap-3">
+          <CurrencySelector
+            value={currency}
+            onChange={handleCurrencyChange}
+            className="w-auto"
+          />
           <TourSortDropdown
             value={sortBy}
             onChange={setSortBy}
+            available={availableSorts}
           />
         </div>
       </div>
 
       {/* Results Count */}
       <div className="mb-4 text-xs sm:text-sm text-gray-600 dark:text-gray-400 truncate">
-        Showing {filteredTours.length} of {tours.length} tours
+        Showing {tours.length} of {total} tours
       </div>
 
       {/* Main Content */}
@@ -212,12 +268,25 @@ export const ToursPage = () => {
             filters={filters}
             onFiltersChange={handleFiltersChange}
             onReset={handleResetFilters}
+            facets={facets}
           />
         </div>
 
         {/* Tours Grid */}
         <div className="lg:col-span-3 order-1 lg:order-2 min-w-0 overflow-hidden">
-          <TourGrid tours={filteredTours} isLoading={isLoading} />
+          <TourGrid tours={tours} isLoading={isLoading && tours.length === 0} />
+
+          {page < pages && (
+            <div className="mt-6 flex justify-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={isLoading}
+                className="px-6 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                {isLoading ? 'Loading...' : 'Load more tours'}
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
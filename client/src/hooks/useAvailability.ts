@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react'
 import bookingService, { AvailabilityResponse } from '@/services/booking.service'
 
-export const useAvailability = (tourId: string, date: string) => {
+export const useAvailability = (tourId: string, date: string, adults = 1, children = 0) => {
   const [availability, setAvailability] = useState<AvailabilityResponse | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -17,7 +17,7 @@ export const useAvailability = (tourId: string, date: string) => {
       setError(null)
       
       try {
-        const result = await bookingService.checkAvailability(tourId, date)
+        const result = await bookingService.checkAvailability(tourId, date, { adults, children })
         setAvailability(result)
       } catch (err) {
         setError('Failed to check availability')
@@ -28,7 +28,7 @@ export const useAvailability = (tourId: string, date: string) => {
     }
 
     checkAvailability()
-  }, [tourId, date])
+  }, [tourId, date, adults, children])
 
   return { availability, loading, error }
 }
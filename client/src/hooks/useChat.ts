@@ -8,6 +8,7 @@ import {
   selectError,
   selectConversations,
   selectCurrentConversationId,
+  selectIsLoadingConversations,
   selectLastMessageId,
   selectChatLanguage,
   selectAutoDetectLanguage,
@@ -16,15 +17,20 @@ import {
   sendMessageAsync,
   clearMessages,
   clearError,
-  createConversation,
+  startNewConversation,
+  fetchConversations,
   loadConversation,
+  renameConversation as renameConversationAsync,
+  archiveConversation as archiveConversationAsync,
   deleteConversation,
-  updateConversation,
   setChatLanguage,
   setAutoDetectLanguage,
   setTranslationEnabled,
 } from '@store/slices/chatSlice'
 
+// The answer being streamed, shared by every chat window so any of them can stop it
+let activeRequest: { abort: () => void } | null = null
+
 export const useChat = () => {
   const dispatch = useDispatch<AppDispatch>()
 
@@ -35,6 +41,7 @@ export const useChat = () => {
   const error = useSelector(selectError)
   const conversations = useSelector(selectConversations)
   const currentConversationId = useSelector(selectCurrentConversationId)
+  const isLoadingConversations = useSelector(selectIsLoadingConversations)
   const lastMessageId = useSelector(selectLastMessageId)
   const chatLanguage = useSelector(selectChatLanguage)
   const autoDetectLanguage = useSelector(selectAutoDetectLanguage)
@@ -45,21 +52,27 @@ export const useChat = () => {
     async (content: string) => {
       // Add user message immediately
       dispatch(addUserMessage(content))
-      // Send to AI and get response
-      await dispatch(
+      // Send to AI and stream the response; the first message starts a conversation
+      const request = dispatch(
         sendMessageAsync({
           content,
           conversationId: currentConversationId || undefined,
         })
       )
-      // Update conversation if exists
-      if (currentConversationId) {
-        dispatch(updateConversation())
+      activeRequest = request
+      await request
+      if (activeRequest === request) {
+        activeRequest = null
       }
     },
     [dispatch, currentConversationId]
   )
 
+  const stopGenerating = useCallback(() => {
+    activeRequest?.abort()
+    activeRequest = null
+  }, [])
+
   const clearChat = useCallback(() => {
     dispatch(clearMessages())
   }, [dispatch])
@@ -68,9 +81,13 @@ export const useChat = () => {
     dispatch(clearError())
   }, [dispatch])
 
-  const saveConversation = useCallback(
-    (title?: string) => {
-      dispatch(createConversation(title || 'New Conversation'))
+  const startNewChat = useCallback(() => {
+    dispatch(startNewConversation())
+  }, [dispatch])
+
+  const loadConversations = useCallback(
+    (archived: boolean = false) => {
+      dispatch(fetchConversations({ archived }))
     },
     [dispatch]
   )
@@ -89,6 +106,20 @@ export const useChat = () => {
     [dispatch]
   )
 
+  const renameConversation = useCallback(
+    (conversationId: string, title: string) => {
+      dispatch(renameConversationAsync({ id: conversationId, title }))
+    },
+    [dispatch]
+  )
+
+  const archiveConversation = useCallback(
+    (conversationId: string, archived: boolean = true) => {
+      dispatch(archiveConversationAsync({ id: conversationId, archived }))
+    },
+    [dispatch]
+  )
+
   const changeChatLanguage = useCallback(
     (language: string) => {
       dispatch(setChatLanguage(language))
@@ -118,16 +149,21 @@ export const useChat = () => {
     error,
     conversations,
     currentConversationId,
+    isLoadingConversations,
     lastMessageId,
     chatLanguage,
     autoDetectLanguage,
     translationEnabled,
     // Actions
     sendMessage,
+    stopGenerating,
     clearChat,
     dismissError,
-    saveConversation,
+    startNewChat,
+    loadConversations,
     openConversation,
+    renameConversation,
+    archiveConversation,
     removeConversation,
     changeChatLanguage,
     toggleAutoDetectLanguage,
@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { io, Socket } from 'socket.io-client'
+import { API_BASE_URL } from '@utils/constants'
+import { getToken } from '@utils/storage'
+import type { ItineraryRole, ServerItineraryItem } from '@/services/itinerary.service'
+
+export interface CollaborationParticipant {
+  userId: string
+  name: string
+  avatar: string | null
+  color: string
+  role: ItineraryRole
+}
+
+/**
+ * A field someone is editing; the target is an item ID or `day:<number>`
+ */
+export interface FieldLock {
+  targetId: string
+  field: string
+  userId: string
+  name: string
+  color: string
+  expiresAt: string
+}
+
+export interface ItemChangeEvent {
+  itineraryId: string
+  dayNumber: number
+  previousDayNumber?: number
+  item: ServerItineraryItem
+  order: string[]
+  updatedBy: string
+}
+
+export interface CollaborationHandlers {
+  onItemAdded?: (event: ItemChangeEvent) => void
+  onItemUpdated?: (event: ItemChangeEvent) => void
+  onItemDeleted?: (event: { itemId: string; dayNumber: number; updatedBy: string }) => void
+  onDayUpdated?: (event: { dayNumber: number; title: string | null; notes: string | null; updatedBy: string }) => void
+  onItineraryUpdated?: (event: { updatedBy: string }) => void
+  onRemoved?: () => void
+}
+
+interface AckResponse {
+  ok: boolean
+  error?: string
+  role?: ItineraryRole
+  participants?: CollaborationParticipant[]
+  locks?: FieldLock[]
+}
+
+// Locks lapse on the server after two minutes, so held locks are renewed well before that
+const LOCK_RENEW_INTERVAL = 60 * 1000
+
+/**
+ * Join the live collaboration room of an itinerary: presence, field locks and the changes
+ * other collaborators save
+ */
+export const useItineraryCollaboration = (
+  itineraryId: string | undefined,
+  handlers: CollaborationHandlers = {},
+  enabled = true
+) => {
+  const [isConnected, setIsConnected] = useState(false)
+  const [participants, setParticipants] = useState<CollaborationParticipant[]>([])
+  const [locks, setLocks] = useState<FieldLock[]>([])
+  const [role, setRole] = useState<ItineraryRole | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const socketRef = useRef<Socket | null>(null)
+  const handlersRef = useRef(handlers)
+  const heldLocksRef = useRef(new Set<string>())
+
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    const token = getToken()
+    if (!itineraryId || !enabled || !token) {
+      return
+    }
+
+    const socket = io(`${API_BASE_URL}/itineraries`, {
+      auth: { token },
+      transports: ['websocket', 'polling'],
+    })
+    socketRef.current = socket
+    const heldLocks = heldLocksRef.current
+
+    const join = () => {
+      socket.emit('itinerary:join', { itineraryId }, (response: AckResponse) => {
+        if (!response?.ok) {
+          setError(response?.error || 'Could not join the collaboration session')
+          return
+        }
+
+        setError(null)
+        setRole(response.role || null)
+        setParticipants(response.participants || [])
+        setLocks(response.locks || [])
+      })
+    }
+
+    socket.on('connect', () => {
+      setIsConnected(true)
+      join()
+    })
+
+    socket.on('disconnect', () => {
+      setIsConnected(false)
+      setLocks([])
+      heldLocks.clear()
+    })
+
+    socket.on('connect_error', (err) => {
+      setError(err.message || 'Could not connect to the collaboration server')
+    })
+
+    socket.on('presence:update', (event: { participants: CollaborationParticipant[] }) => {
+      setParticipants(event.participants)
+    })
+
+    socket.on('field:locked', (event: { lock: FieldLock }) => {
+      setLocks((current) => [
+        ...current.filter((lock) => lock.targetId !== event.lock.targetId || lock.field !== event.lock.field),
+        event.lock,
+      ])
+    })
+
+    socket.on('field:unlocked', (event: { targetId: string; field: string }) => {
+      setLocks((current) => current.filter((lock) => lock.targetId !== event.targetId || lock.field !== event.field))
+    })
+
+    socket.on('item:added', (event: ItemChangeEvent) => handlersRef.current.onItemAdded?.(event))
+    socket.on('item:updated', (event: ItemChangeEvent) => handlersRef.current.onItemUpdated?.(event))
+    socket.on('item:deleted', (event) => handlersRef.current.onItemDeleted?.(event))
+    socket.on('day:updated', (event) => handlersRef.current.onDayUpdated?.(event))
+    socket.on('itinerary:updated', (event) => handlersRef.current.onItineraryUpdated?.(event))
+    socket.on('itinerary:removed', () => {
+      setRole(null)
+      handlersRef.current.onRemoved?.()
+    })
+
+    const renewTimer = setInterval(() => {
+      heldLocks.forEach((key) => {
+        const separator = key.lastIndexOf(':')
+        socket.emit('field:lock', {
+          itineraryId,
+          targetId: key.slice(0, separator),
+          field: key.slice(separator + 1),
+        })
+      })
+    }, LOCK_RENEW_INTERVAL)
+
+    return () => {
+      clearInterval(renewTimer)
+      socket.emit('itinerary:leave', { itineraryId })
+      socket.disconnect()
+      socketRef.current = null
+      heldLocks.clear()
+      setIsConnected(false)
+      setParticipants([])
+      setLocks([])
+    }
+  }, [itineraryId, enabled])
+
+  /**
+   * Take the lock on a field before editing it; resolves false when someone else holds it
+   */
+  const lockField = useCallback(
+    (targetId: string, field: string): Promise<{ ok: boolean; error?: string }> => {
+      const socket = socketRef.current
+      if (!socket || !socket.connected || !itineraryId) {
+        // Without a live connection edits still go through the API, just without a lock
+        return Promise.resolve({ ok: true })
+      }
+
+      return new Promise((resolve) => {
+        socket.emit('field:lock', { itineraryId, targetId, field }, (response: AckResponse) => {
+          if (response?.ok) {
+            heldLocksRef.current.add(`${targetId}:${field}`)
+          }
+          resolve({ ok: !!response?.ok, error: response?.error })
+        })
+      })
+    },
+    [itineraryId]
+  )
+
+  const unlockField = useCallback(
+    (targetId: string, field: string) => {
+      heldLocksRef.current.delete(`${targetId}:${field}`)
+      socketRef.current?.emit('field:unlock', { itineraryId, targetId, field })
+    },
+    [itineraryId]
+  )
+
+  return {
+    isConnected,
+    participants,
+    locks,
+    role,
+    error,
+    lockField,
+    unlockField,
+  }
+}
+
+export default useItineraryCollaboration
@@ -15,7 +15,6 @@ import {
   toggleSortOrder,
   setPage,
   setLimit,
-  toggleWishlist,
   clearWishlist,
   addToComparison,
   removeFromComparison,
@@ -140,9 +139,9 @@ export const useTours = () => {
 
   const toggleTourWishlist = useCallback(
     (tourId: string) => {
-      dispatch(toggleWishlist(tourId))
+      return dispatch(wishlist.includes(tourId) ? removeFromWishlist(tourId) : addToWishlist(tourId))
     },
-    [dispatch]
+    [dispatch, wishlist]
   )
 
   const addTourToWishlist = useCallback(
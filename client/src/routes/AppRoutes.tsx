@@ -12,6 +12,7 @@ import { TransportPage, FlightsPage, CarRentalPage } from '@features/transport/p
 import { ItineraryPage, GenerateItineraryPage, GeneratedItineraryPage, SharedItineraryPage, CollaborationDemoPage } from '@features/itinerary/pages'
 import { MarketplacePage, ProductDetailPage, CategoriesPage, CategoryPage, MyOrdersPage, VendorPage, VendorDashboardPage } from '@features/marketplace/pages'
 import { ReviewsPage } from '@features/reviews/pages'
+import { NotificationsPage } from '@features/notifications/pages'
 import { MainLayout } from '@components/layout'
 import { PrivateRoute } from './PrivateRoute'
 import { PublicRoute } from './PublicRoute'
@@ -230,6 +231,11 @@ export const AppRoutes = () => {
           path="/itinerary/collaboration-demo"
           element={<CollaborationDemoPage />}
         />
+        
+        <Route
+          path="/itinerary/:id"
+          element={<ItineraryPage />}
+        />
 
         <Route
           path={ROUTES.MARKETPLACE}
@@ -279,6 +285,15 @@ export const AppRoutes = () => {
           element={<ReviewsPage />}
         />
 
+        <Route
+          path={ROUTES.NOTIFICATIONS}
+          element={
+            <PrivateRoute>
+              <NotificationsPage />
+            </PrivateRoute>
+          }
+        />
+
         <Route
           path="/about"
           element={<PlaceholderPage title="About Us" icon="ℹ️" />}
@@ -1,6 +1,6 @@
 import api from '@api/axios.config'
 import { AUTH_ENDPOINTS } from '@api/endpoints'
-import { setToken, setUser, clearAuth, getToken } from '@utils/storage'
+import { setToken, setUser, clearAuth, getToken, removeCartToken } from '@utils/storage'
 import type { 
   LoginCredentials, 
   RegisterData, 
@@ -25,6 +25,9 @@ class AuthService {
       // Store access token and user data
       setToken(tokens.accessToken)
       setUser(user)
+
+      // The server has moved the guest cart into the user's cart
+      removeCartToken()
       
       // Return in expected format
       return { user, token: tokens.accessToken }
@@ -52,6 +55,9 @@ class AuthService {
       // Store access token and user data
       setToken(tokens.accessToken)
       setUser(user)
+
+      // The server has moved the guest cart into the user's cart
+      removeCartToken()
       
       // Return in expected format
       return { user, token: tokens.accessToken }
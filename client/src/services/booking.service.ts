@@ -1,5 +1,6 @@
 import { api } from '@/api/axios.config';
 import { API_ENDPOINTS } from '@/utils/constants';
+import { TourAvailability, CancellationPolicy } from '@/services/tour.service';
 
 export interface Participant {
   firstName: string;
@@ -15,18 +16,31 @@ export interface Participant {
 
 export interface CreateBookingData {
   tourId: string;
+  departureId?: string;
   startDate: string;
   endDate: string;
   adults: number;
   children: number;
-  totalPrice: number;
-  discountAmount?: number;
+  // The total shown to the traveller; the server prices the booking and rejects it if this differs
+  totalPrice?: number;
   promoCode?: string;
+  // Currency to pay in; the quote is locked in it when the booking is created
+  currency?: string;
   participants: Participant[];
   notes?: string;
   specialRequests?: string;
 }
 
+export interface BookingQuote {
+  currency: string;
+  quoteCurrency: string | null;
+  quoteAmount: string | null;
+  quoteRate: string | null;
+  quoteRateSource: string | null;
+  quoteLockedAt: string | null;
+  quoteExpiresAt: string | null;
+}
+
 export interface UpdateBookingData {
   startDate?: string;
   endDate?: string;
@@ -62,21 +76,35 @@ export interface CancelBookingData {
   requestRefund?: boolean;
 }
 
+export interface CancellationRefundQuote {
+  paymentId: string;
+  method: string;
+  currency: string;
+  paidAmount: number;
+  alreadyRefunded: number;
+  amount: number;
+}
+
+export interface CancellationQuote {
+  bookingId: string;
+  hoursBeforeStart: number;
+  refundPercent: number;
+  depositPercent: number;
+  refunds: CancellationRefundQuote[];
+  policy: CancellationPolicy;
+}
+
 export interface UpdateBookingStatusData {
   status: 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED' | 'REFUNDED';
   reason?: string;
   refundAmount?: number;
 }
 
-export interface AvailabilityResponse {
-  available: boolean;
-  spotsLeft: number;
-  maxGroupSize: number;
-  currentBookings: number;
-}
+export type AvailabilityResponse = TourAvailability;
 
 export interface WaitlistRequest {
   tourId: string;
+  departureId?: string;
   date: string;
   email: string;
   name: string;
@@ -86,6 +114,37 @@ export interface WaitlistRequest {
   };
 }
 
+export type WaitlistStatus = 'WAITING' | 'OFFERED' | 'CLAIMED' | 'EXPIRED' | 'CANCELLED';
+
+export interface WaitlistEntry {
+  id: string;
+  tourId: string;
+  departureId: string;
+  name: string;
+  email: string;
+  adults: number;
+  children: number;
+  status: WaitlistStatus;
+  position: number | null;
+  offeredAt: string | null;
+  offerExpiresAt: string | null;
+  bookingId: string | null;
+  createdAt: string;
+  tour?: {
+    id: string;
+    title: string;
+    slug: string;
+    // Cover image only
+    images: Array<{ url: string }>;
+  };
+  departure?: {
+    id: string;
+    startDate: string;
+    endDate: string;
+    status: string;
+  };
+}
+
 class BookingService {
   /**
    * Create a new booking
@@ -143,6 +202,22 @@ class BookingService {
     return response.data;
   }
 
+  /**
+   * Show what cancelling a booking now would refund
+   */
+  async getCancellationQuote(id: string): Promise<CancellationQuote> {
+    const response = await api.get(API_ENDPOINTS.BOOKINGS.CANCELLATION_QUOTE(id));
+    return response.data.data.quote;
+  }
+
+  /**
+   * Lock a new price quote, e.g. after the previous one expired
+   */
+  async lockQuote(id: string, currency: string) {
+    const response = await api.post(API_ENDPOINTS.BOOKINGS.QUOTE(id), { currency });
+    return response.data;
+  }
+
   /**
    * Update booking status (admin)
    */
@@ -191,20 +266,57 @@ class BookingService {
   }
 
   /**
-   * Check availability for a tour on a specific date
+   * Check seat availability on the departure leaving on a specific date
    */
-  async checkAvailability(tourId: string, date: string): Promise<AvailabilityResponse> {
-    const response = await api.get(`${API_ENDPOINTS.BOOKINGS.LIST}/availability`, {
-      params: { tourId, date },
+  async checkAvailability(
+    tourId: string,
+    date: string,
+    participants: { adults: number; children: number } = { adults: 1, children: 0 }
+  ): Promise<AvailabilityResponse> {
+    const response = await api.post(API_ENDPOINTS.TOURS.AVAILABILITY(tourId), {
+      startDate: new Date(`${date}T00:00:00.000Z`).toISOString(),
+      ...participants,
     });
-    return response.data;
+    return response.data.data;
   }
 
   /**
    * Join waitlist for a fully booked tour
    */
   async joinWaitlist(data: WaitlistRequest) {
-    const response = await api.post(`${API_ENDPOINTS.BOOKINGS.LIST}/waitlist`, data);
+    const response = await api.post(API_ENDPOINTS.BOOKINGS.WAITLIST, data);
+    return response.data;
+  }
+
+  /**
+   * Get current user's waitlist entries with queue position and offer status
+   */
+  async getMyWaitlist(): Promise<WaitlistEntry[]> {
+    const response = await api.get(API_ENDPOINTS.BOOKINGS.MY_WAITLIST);
+    return response.data.data.entries;
+  }
+
+  /**
+   * Leave a waitlist
+   */
+  async leaveWaitlist(id: string) {
+    const response = await api.delete(API_ENDPOINTS.BOOKINGS.WAITLIST_ENTRY(id));
+    return response.data;
+  }
+
+  /**
+   * Claim the seats offered on one of the user's waitlist entries
+   */
+  async claimWaitlistOffer(id: string) {
+    const response = await api.post(API_ENDPOINTS.BOOKINGS.CLAIM_WAITLIST(id));
+    return response.data;
+  }
+
+  /**
+   * Claim a waitlist offer using the token from the offer email
+   */
+  async claimWaitlistOfferByToken(token: string) {
+    const response = await api.post(API_ENDPOINTS.BOOKINGS.CLAIM_WAITLIST_OFFER(token));
     return response.data;
   }
 }
@@ -0,0 +1,196 @@
+import { api } from '@/api/axios.config';
+import { API_ENDPOINTS } from '@/utils/constants';
+import { setCartToken, removeCartToken } from '@/utils/storage';
+import { AddOn, BookingItem, CartState } from '@/types/booking';
+
+export interface AddTourToCartData {
+  type: 'TOUR';
+  tourId: string;
+  departureId?: string;
+  startDate: string;
+  adults: number;
+  children: number;
+  addOns?: string[];
+  specialRequests?: string;
+}
+
+export interface AddProductToCartData {
+  type: 'PRODUCT';
+  productId: string;
+  quantity: number;
+  variant?: { color?: string; size?: string; material?: string };
+}
+
+export type AddCartItemData = AddTourToCartData | AddProductToCartData;
+
+export interface UpdateCartItemData {
+  departureId?: string;
+  startDate?: string;
+  adults?: number;
+  children?: number;
+  addOns?: string[];
+  specialRequests?: string;
+  quantity?: number;
+}
+
+// Item as the server prices it
+export interface ServerCartItem {
+  id: string;
+  type: 'TOUR' | 'PRODUCT';
+  name: string;
+  image: string | null;
+  tourId?: string;
+  departureId?: string | null;
+  startDate?: string | null;
+  duration?: number;
+  adults?: number;
+  children?: number;
+  pricePerAdult?: number;
+  pricePerChild?: number;
+  addOns?: AddOn[];
+  specialRequests?: string | null;
+  productId?: string;
+  quantity?: number;
+  unitPrice?: number;
+  total: number;
+  available: boolean;
+  issue?: string;
+}
+
+export interface ServerCart {
+  id: string | null;
+  guestToken: string | null;
+  currency: string;
+  items: ServerCartItem[];
+  itemCount: number;
+  promoCode: string | null;
+  promo: { valid: boolean; message?: string; discountAmount: number } | null;
+  subtotal: number;
+  discount: number;
+  total: number;
+  valid: boolean;
+  issues: string[];
+}
+
+const toBookingItem = (item: ServerCartItem): BookingItem => {
+  if (item.type === 'PRODUCT') {
+    return {
+      id: item.id,
+      type: 'PRODUCT',
+      productId: item.productId,
+      tourName: item.name,
+      tourImage: item.image || '/placeholder-product.jpg',
+      date: '',
+      participants: { adults: 0, children: 0 },
+      pricePerAdult: item.unitPrice || 0,
+      pricePerChild: 0,
+      quantity: item.quantity,
+      addOns: [],
+      totalPrice: item.total,
+      duration: 'Product',
+      issue: item.issue,
+    };
+  }
+
+  return {
+    id: item.id,
+    type: 'TOUR',
+    tourId: item.tourId,
+    departureId: item.departureId || undefined,
+    tourName: item.name,
+    tourImage: item.image || '',
+    date: item.startDate || '',
+    participants: { adults: item.adults || 0, children: item.children || 0 },
+    pricePerAdult: item.pricePerAdult || 0,
+    pricePerChild: item.pricePerChild || 0,
+    addOns: item.addOns || [],
+    totalPrice: item.total,
+    duration: item.duration ? `${item.duration} ${item.duration === 1 ? 'day' : 'days'}` : '',
+    specialRequests: item.specialRequests || undefined,
+    issue: item.issue,
+  };
+};
+
+/**
+ * Map a server cart onto the cart state, and keep the guest token of guest carts
+ */
+const toCartState = (cart: ServerCart): CartState => {
+  if (cart.guestToken) {
+    setCartToken(cart.guestToken);
+  } else if (cart.id) {
+    removeCartToken();
+  }
+
+  return {
+    items: cart.items.map(toBookingItem),
+    totalItems: cart.itemCount,
+    subtotal: cart.subtotal,
+    discount: cart.discount,
+    totalPrice: cart.total,
+    appliedPromo: cart.promoCode && cart.promo?.valid
+      ? { code: cart.promoCode, discount: cart.promo.discountAmount, type: 'fixed' }
+      : null,
+    currency: cart.currency,
+    issues: cart.promoCode && cart.promo && !cart.promo.valid
+      ? [...cart.issues, `${cart.promoCode}: ${cart.promo.message}`]
+      : cart.issues,
+  };
+};
+
+export const cartService = {
+  /**
+   * Get the cart, re-priced by the server
+   */
+  async getCart(): Promise<CartState> {
+    const response = await api.get(API_ENDPOINTS.CART.GET);
+    return toCartState(response.data.data.cart);
+  },
+
+  /**
+   * Add a tour booking or a product
+   */
+  async addItem(data: AddCartItemData): Promise<CartState> {
+    const response = await api.post(API_ENDPOINTS.CART.ITEMS, data);
+    return toCartState(response.data.data.cart);
+  },
+
+  /**
+   * Change an item's party, date, add-ons or quantity
+   */
+  async updateItem(id: string, data: UpdateCartItemData): Promise<CartState> {
+    const response = await api.patch(API_ENDPOINTS.CART.ITEM(id), data);
+    return toCartState(response.data.data.cart);
+  },
+
+  /**
+   * Remove an item
+   */
+  async removeItem(id: string): Promise<CartState> {
+    const response = await api.delete(API_ENDPOINTS.CART.ITEM(id));
+    return toCartState(response.data.data.cart);
+  },
+
+  /**
+   * Empty the cart
+   */
+  async clear(): Promise<CartState> {
+    const response = await api.delete(API_ENDPOINTS.CART.CLEAR);
+    return toCartState(response.data.data.cart);
+  },
+
+  /**
+   * Apply a promo code; rejects when the server finds it invalid for this cart
+   */
+  async applyPromoCode(code: string): Promise<CartState> {
+    const response = await api.post(API_ENDPOINTS.CART.PROMO, { code });
+    return toCartState(response.data.data.cart);
+  },
+
+  /**
+   * Remove the promo code
+   */
+  async removePromoCode(): Promise<CartState> {
+    const response = await api.delete(API_ENDPOINTS.CART.PROMO);
+    return toCartState(response.data.data.cart);
+  },
+};
@@ -1,4 +1,7 @@
 import { api } from '@api/axios.config'
+import { API_BASE_URL, API_ENDPOINTS } from '@utils/constants'
+import { getToken } from '@utils/storage'
+import type { ItineraryData, LocationData, TourCardData } from '@/types/richMessage'
 
 // Types
 export interface ChatMessage {
@@ -13,6 +16,8 @@ export interface SendMessageRequest {
   message: string
   language?: 'en' | 'am' | 'om'
   messageType?: 'text' | 'tour_recommendation' | 'cultural_info' | 'travel_advice'
+  // Continues a conversation; signed-in users get a new one when left out
+  conversationId?: string
   context?: {
     tourId?: string
     location?: string
@@ -25,22 +30,55 @@ export interface SendMessageRequest {
   }
 }
 
+export interface ChatConversation {
+  id: string
+  title: string
+  language: string
+  archived: boolean
+  lastMessageAt: string | null
+  createdAt: string
+  updatedAt: string
+  messageCount?: number
+}
+
+// A card the assistant found with its tools, shown with its answer
+export type ChatAttachment =
+  | { type: 'tour'; tour: TourCardData }
+  | { type: 'location'; location: LocationData }
+  | { type: 'itinerary'; itinerary: ItineraryData }
+
+// A library article, recipe, artifact or tour an answer cites as [index]
+export interface ChatSource {
+  index: number
+  title: string
+  // Client route of the source
+  url: string
+  sourceType: 'cultural' | 'tour'
+}
+
+// One exchange: the user's message and the assistant's response
+export interface ChatExchange {
+  id: string
+  conversationId: string | null
+  message: string
+  response: string | null
+  language: string
+  messageType: string
+  // JSON; holds the answer's cards under `attachments` and its cited sources under `sources`
+  metadata: string | null
+  createdAt: string
+}
+
 export interface SendMessageResponse {
-  userMessage: {
-    id: string
-    message: string
-    language: string
-    messageType: string
-    createdAt: string
-  }
-  aiResponse: {
-    id: string
-    message: string
-    response: string
-    language: string
-    messageType: string
-    createdAt: string
-  }
+  // Null for anonymous chats
+  conversation: ChatConversation | null
+  message: ChatExchange
+}
+
+export interface ConversationResponse {
+  conversation: ChatConversation
+  messages: ChatExchange[]
+  hasMore: boolean
 }
 
 export interface ChatHistoryResponse {
@@ -74,8 +112,8 @@ export const chatService = {
    */
   sendMessage: async (data: SendMessageRequest): Promise<SendMessageResponse> => {
     try {
-      const response = await api.post<SendMessageResponse>('/chat/messages', data)
-      return response.data
+      const response = await api.post(API_ENDPOINTS.CHAT.MESSAGES.SEND, data)
+      return response.data.data
     } catch (error: any) {
       throw new Error(
         error.response?.data?.message || 'Failed to send message. Please try again.'
@@ -83,6 +121,153 @@ export const chatService = {
     }
   },
 
+  /**
+   * Send a message and receive the AI response as it is generated, over Server-Sent Events
+   * @param data - Message content and optional context
+   * @param handlers - Called with each piece of text; aborting the signal stops the response
+   * @returns The stored exchange, once the response is complete
+   */
+  streamMessage: async (
+    data: SendMessageRequest,
+    handlers: {
+      onToken: (text: string) => void
+      // Cards from each catalog lookup the assistant makes while answering
+      onAttachments?: (attachments: ChatAttachment[]) => void
+      signal?: AbortSignal
+    }
+  ): Promise<SendMessageResponse> => {
+    const token = getToken()
+    // Axios cannot read a response while it arrives in the browser, so this uses fetch
+    const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.CHAT.MESSAGES.STREAM}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify(data),
+      signal: handlers.signal,
+    })
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null)
+      throw new Error(
+        body?.error?.message || body?.message || 'Failed to send message. Please try again.'
+      )
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let result: SendMessageResponse | null = null
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      // Events end with a blank line
+      let end = buffer.indexOf('\n\n')
+      while (end !== -1) {
+        const event = parseServerSentEvent(buffer.slice(0, end))
+        buffer = buffer.slice(end + 2)
+        end = buffer.indexOf('\n\n')
+
+        if (event.type === 'token') {
+          handlers.onToken(event.data.text)
+        } else if (event.type === 'tool') {
+          if (event.data.attachments.length > 0) {
+            handlers.onAttachments?.(event.data.attachments)
+          }
+        } else if (event.type === 'done') {
+          result = event.data
+        } else if (event.type === 'error') {
+          throw new Error(event.data.message)
+        }
+      }
+    }
+
+    if (!result) {
+      throw new Error('The response ended unexpectedly. Please try again.')
+    }
+    return result
+  },
+
+  /**
+   * Get the signed-in user's conversations, most recently active first
+   * @param params - Archived ones instead of active ones, title search and pagination
+   * @returns Conversations with their message counts
+   */
+  getConversations: async (params?: {
+    archived?: boolean
+    search?: string
+    page?: number
+    limit?: number
+  }): Promise<ChatConversation[]> => {
+    try {
+      const response = await api.get(API_ENDPOINTS.CHAT.CONVERSATIONS.LIST, { params })
+      return response.data.data
+    } catch (error: any) {
+      throw new Error(
+        error.response?.data?.message || 'Failed to load conversations.'
+      )
+    }
+  },
+
+  /**
+   * Get a conversation with its latest messages, for resuming it
+   * @param conversationId - Conversation ID
+   * @param params - Number of messages, and a date to load earlier ones
+   * @returns Conversation and its messages, oldest first
+   */
+  getConversation: async (
+    conversationId: string,
+    params?: { limit?: number; before?: string }
+  ): Promise<ConversationResponse> => {
+    try {
+      const response = await api.get(API_ENDPOINTS.CHAT.CONVERSATIONS.BY_ID(conversationId), { params })
+      return response.data.data
+    } catch (error: any) {
+      throw new Error(
+        error.response?.data?.message || 'Failed to load conversation.'
+      )
+    }
+  },
+
+  /**
+   * Rename or archive a conversation
+   * @param conversationId - Conversation ID
+   * @param data - New title and/or archived flag
+   * @returns Updated conversation
+   */
+  updateConversation: async (
+    conversationId: string,
+    data: { title?: string; archived?: boolean }
+  ): Promise<ChatConversation> => {
+    try {
+      const response = await api.patch(API_ENDPOINTS.CHAT.CONVERSATIONS.UPDATE(conversationId), data)
+      return response.data.data.conversation
+    } catch (error: any) {
+      throw new Error(
+        error.response?.data?.message || 'Failed to update conversation.'
+      )
+    }
+  },
+
+  /**
+   * Delete a conversation and its messages
+   * @param conversationId - Conversation ID
+   */
+  deleteConversation: async (conversationId: string): Promise<void> => {
+    try {
+      await api.delete(API_ENDPOINTS.CHAT.CONVERSATIONS.DELETE(conversationId))
+    } catch (error: any) {
+      throw new Error(
+        error.response?.data?.message || 'Failed to delete conversation.'
+      )
+    }
+  },
+
   /**
    * Get chat history with pagination and filtering
    * @param params - Optional pagination and filter params
@@ -379,6 +564,52 @@ export const chatService = {
 
 export default chatService
 
+/**
+ * The cards stored with an answer
+ * @param exchange - A stored exchange
+ * @returns Its attachments, or none when its metadata has none or cannot be read
+ */
+export function getAttachments(exchange: Pick<ChatExchange, 'metadata'>): ChatAttachment[] {
+  if (!exchange.metadata) return []
+  try {
+    const metadata = JSON.parse(exchange.metadata)
+    return Array.isArray(metadata?.attachments) ? metadata.attachments : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * The library sources an answer cites
+ * @param exchange - A stored exchange
+ * @returns Its sources, or none when its metadata has none or cannot be read
+ */
+export function getSources(exchange: Pick<ChatExchange, 'metadata'>): ChatSource[] {
+  if (!exchange.metadata) return []
+  try {
+    const metadata = JSON.parse(exchange.metadata)
+    return Array.isArray(metadata?.sources) ? metadata.sources : []
+  } catch {
+    return []
+  }
+}
+
+// Reads one event in the `event: name` / `data: json` format the chat stream uses
+function parseServerSentEvent(raw: string): { type: string; data: any } {
+  let type = 'message'
+  const data: string[] = []
+
+  for (const line of raw.split('\n')) {
+    if (line.startsWith('event:')) {
+      type = line.slice(6).trim()
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trim())
+    }
+  }
+
+  return { type, data: data.length ? JSON.parse(data.join('\n')) : null }
+}
+
 // Simulated responses for development (remove when backend is ready)
 export const simulatedChatService = {
   sendMessage: async (data: { message: string; conversationId?: string }): Promise<{
@@ -0,0 +1,164 @@
+import { api } from '@/api/axios.config';
+import { API_ENDPOINTS } from '@/utils/constants';
+import { BookingItem, CheckoutFormData, TravelerDetails } from '@/types/booking';
+import { PaymentMethod, PaymentResponse } from './paymentService';
+
+export interface CheckoutParticipant {
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phone?: string;
+  age?: number;
+  passportNumber?: string;
+  nationality?: string;
+  dietaryRequirements?: string;
+  medicalConditions?: string;
+}
+
+export interface CheckoutAddress {
+  firstName: string;
+  lastName: string;
+  address1: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  phone?: string;
+}
+
+export interface CreateCheckoutSessionData {
+  currency?: string;
+  bookings: Array<{ cartItemId: string; participants: CheckoutParticipant[]; notes?: string }>;
+  shippingAddress?: CheckoutAddress;
+  notes?: string;
+}
+
+export interface PayCheckoutSessionData {
+  method: PaymentMethod['method'];
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  returnUrl?: string;
+}
+
+// Pending bookings and order held until the session is paid, released if it is not
+export interface CheckoutSession {
+  id: string;
+  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'EXPIRED';
+  currency: string;
+  subtotal: string;
+  discount: string;
+  tax: string;
+  shipping: string;
+  total: string;
+  promoCode: string | null;
+  expiresAt: string;
+  bookings: any[];
+  order: any | null;
+  payments: any[];
+}
+
+const ageOn = (dateOfBirth: string, date: Date): number | undefined => {
+  const birth = new Date(dateOfBirth);
+  if (isNaN(birth.getTime())) {
+    return undefined;
+  }
+
+  const age = date.getFullYear() - birth.getFullYear();
+  const hadBirthday = date.getMonth() > birth.getMonth() ||
+    (date.getMonth() === birth.getMonth() && date.getDate() >= birth.getDate());
+  return Math.max(0, hadBirthday ? age : age - 1);
+};
+
+const toParticipant = (traveler: TravelerDetails, startDate: Date): CheckoutParticipant => ({
+  firstName: traveler.firstName,
+  lastName: traveler.lastName,
+  email: traveler.email || undefined,
+  phone: traveler.phone || undefined,
+  age: ageOn(traveler.dateOfBirth, startDate),
+  passportNumber: traveler.passportNumber || undefined,
+  nationality: traveler.nationality || undefined,
+  dietaryRequirements: traveler.dietaryRequirements || undefined,
+  medicalConditions: traveler.medicalConditions || undefined,
+});
+
+/**
+ * Build a checkout from the checkout form. Travellers were entered tour by tour in cart order,
+ * so each tour takes as many as its party has.
+ */
+export const toCheckoutSessionData = (
+  checkoutData: CheckoutFormData,
+  items: BookingItem[],
+  currency?: string
+): CreateCheckoutSessionData => {
+  const { contactInfo } = checkoutData;
+  let nextTraveler = 0;
+
+  const bookings = items
+    .filter((item) => item.type === 'TOUR')
+    .map((item) => {
+      const partySize = item.participants.adults + item.participants.children;
+      const travelers = checkoutData.travelers.slice(nextTraveler, nextTraveler + partySize);
+      nextTraveler += partySize;
+
+      return {
+        cartItemId: item.id,
+        participants: travelers.map((traveler) => toParticipant(traveler, new Date(item.date))),
+      };
+    });
+
+  const hasProducts = items.some((item) => item.type === 'PRODUCT');
+
+  return {
+    currency,
+    bookings,
+    shippingAddress: hasProducts
+      ? {
+        firstName: contactInfo.firstName,
+        lastName: contactInfo.lastName,
+        address1: contactInfo.address,
+        city: contactInfo.city,
+        state: contactInfo.city,
+        postalCode: contactInfo.postalCode,
+        country: contactInfo.country,
+        phone: contactInfo.phone || undefined,
+      }
+      : undefined,
+    notes: checkoutData.specialRequests || undefined,
+  };
+};
+
+export const checkoutService = {
+  /**
+   * Check out the cart, holding every tour's seats and product's stock until it is paid
+   */
+  async createSession(data: CreateCheckoutSessionData): Promise<CheckoutSession> {
+    const response = await api.post(API_ENDPOINTS.CHECKOUT.SESSIONS, data);
+    return response.data.data.session;
+  },
+
+  /**
+   * Get a checkout session
+   */
+  async getSession(id: string): Promise<CheckoutSession> {
+    const response = await api.get(API_ENDPOINTS.CHECKOUT.SESSION(id));
+    return response.data.data.session;
+  },
+
+  /**
+   * Pay for a checkout session with one payment from any provider
+   */
+  async pay(id: string, data: PayCheckoutSessionData): Promise<PaymentResponse> {
+    const response = await api.post(API_ENDPOINTS.CHECKOUT.PAY(id), data);
+    return response.data.data;
+  },
+
+  /**
+   * Abandon an unpaid checkout session, releasing its holds
+   */
+  async cancel(id: string): Promise<CheckoutSession> {
+    const response = await api.post(API_ENDPOINTS.CHECKOUT.CANCEL(id));
+    return response.data.data.session;
+  },
+};
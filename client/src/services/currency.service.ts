@@ -0,0 +1,47 @@
+import { api } from '@/api/axios.config';
+import { API_ENDPOINTS } from '@/utils/constants';
+
+export interface CurrencyRates {
+  currencies: string[];
+  default: string;
+  base: string;
+  // 1 base = rates[code] of each currency
+  rates: Record<string, number>;
+  fetchedAt: string | null;
+}
+
+export interface CurrencyConversion {
+  amount: number;
+  currency: string;
+  baseAmount: number;
+  baseCurrency: string;
+  rate: number;
+  source: string;
+  fetchedAt: string;
+}
+
+export const currencyService = {
+  /**
+   * Get supported currencies and their rates against a base currency
+   */
+  async getCurrencies(base?: string): Promise<CurrencyRates> {
+    const response = await api.get(API_ENDPOINTS.CURRENCIES.LIST, { params: { base } });
+    return response.data.data;
+  },
+
+  /**
+   * Convert an amount between supported currencies
+   */
+  async convert(amount: number, from: string, to: string): Promise<CurrencyConversion> {
+    const response = await api.get(API_ENDPOINTS.CURRENCIES.CONVERT, { params: { amount, from, to } });
+    return response.data.data.conversion;
+  },
+
+  /**
+   * Refresh rates from the provider (admin)
+   */
+  async refreshRates(): Promise<number> {
+    const response = await api.post(API_ENDPOINTS.CURRENCIES.REFRESH_RATES);
+    return response.data.data.updated;
+  },
+};
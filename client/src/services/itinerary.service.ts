@@ -0,0 +1,373 @@
+import { api } from '@/api/axios.config';
+import { API_ENDPOINTS } from '@/utils/constants';
+import type { Itinerary, DayPlanData, ItineraryItem } from '@/features/itinerary/pages/ItineraryPage';
+
+export interface ServerItineraryItem {
+  id: string;
+  position: number;
+  type: ItineraryItem['type'];
+  title: string;
+  description: string | null;
+  category: string | null;
+  location: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  duration: number;
+  cost: number;
+  currency: string;
+  notes: string | null;
+  priority: 'low' | 'medium' | 'high';
+  bookingStatus: ItineraryItem['bookingStatus'];
+  bookingReference: string | null;
+  tourId: string | null;
+}
+
+export interface ServerItineraryDay {
+  id: string;
+  dayNumber: number;
+  date: string;
+  title: string | null;
+  notes: string | null;
+  items: ServerItineraryItem[];
+  totalCost: number;
+  totalDuration: number;
+}
+
+export interface ServerItinerary {
+  id: string;
+  userId: string;
+  title: string;
+  description: string | null;
+  destination: string | null;
+  startDate: string;
+  endDate: string;
+  durationDays: number;
+  travelers: number;
+  budget: number | null;
+  currency: string;
+  status: Itinerary['status'];
+  source: 'MANUAL' | 'GENERATED' | 'COPY';
+  isPublic: boolean;
+  shareToken: string | null;
+  allowComments: boolean;
+  allowCopy: boolean;
+  viewCount: number;
+  days: ServerItineraryDay[];
+  actualCost: number;
+  isOwner: boolean;
+  role: ItineraryRole;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ItineraryRole = 'owner' | 'editor' | 'viewer';
+
+export interface ItineraryCollaborator {
+  userId: string;
+  name: string | null;
+  email: string;
+  avatar: string | null;
+  role: ItineraryRole;
+  joinedAt: string;
+}
+
+export interface InviteCollaboratorData {
+  email: string;
+  role: Exclude<ItineraryRole, 'owner'>;
+  message?: string;
+}
+
+export type ItineraryItemChanges = Partial<Omit<ItineraryItem, 'id'>> & {
+  dayNumber?: number;
+  position?: number;
+};
+
+export interface ItineraryQueryParams {
+  page?: number;
+  limit?: number;
+  sortBy?: 'createdAt' | 'updatedAt' | 'title' | 'startDate' | 'endDate' | 'budget';
+  sortOrder?: 'asc' | 'desc';
+  status?: Itinerary['status'];
+  search?: string;
+}
+
+export interface ShareItineraryData {
+  isPublic?: boolean;
+  allowComments?: boolean;
+  allowCopy?: boolean;
+  expiresAt?: string;
+}
+
+export type ItineraryExportFormat = 'pdf' | 'ical' | 'gpx' | 'csv' | 'json';
+
+export interface ItineraryExportOptions {
+  day?: number;
+  includeNotes?: boolean;
+  includeBudget?: boolean;
+}
+
+export interface ItineraryShareInfo {
+  itineraryId: string;
+  shareToken: string;
+  shareUrl: string;
+  isPublic: boolean;
+  allowComments: boolean;
+  allowCopy: boolean;
+  expiresAt: string | null;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toDateString = (value: string) => value.split('T')[0];
+
+/**
+ * Convert a day plan item from the API into the shape the itinerary pages work with
+ */
+export const fromServerItem = (item: ServerItineraryItem): ItineraryItem => ({
+  id: item.id,
+  type: item.type,
+  title: item.title,
+  description: item.description || '',
+  location: item.location || '',
+  startTime: item.startTime || '',
+  endTime: item.endTime || '',
+  duration: item.duration,
+  price: item.cost,
+  category: item.category || '',
+  notes: item.notes || undefined,
+  bookingStatus: item.bookingStatus,
+  bookingReference: item.bookingReference || undefined,
+});
+
+/**
+ * Convert an itinerary from the API into the shape the itinerary pages work with
+ */
+export const fromServerItinerary = (itinerary: ServerItinerary): Itinerary => ({
+  id: itinerary.id,
+  title: itinerary.title,
+  description: itinerary.description || '',
+  destination: itinerary.destination || '',
+  startDate: toDateString(itinerary.startDate),
+  endDate: toDateString(itinerary.endDate),
+  travelers: itinerary.travelers,
+  totalBudget: itinerary.budget || 0,
+  actualCost: itinerary.actualCost,
+  status: itinerary.status,
+  isPublic: itinerary.isPublic,
+  shareToken: itinerary.shareToken,
+  allowCopy: itinerary.allowCopy,
+  isOwner: itinerary.isOwner,
+  role: itinerary.role,
+  createdAt: itinerary.createdAt,
+  updatedAt: itinerary.updatedAt,
+  days: itinerary.days.map((day): DayPlanData => ({
+    date: toDateString(day.date),
+    notes: day.notes || undefined,
+    totalCost: day.totalCost,
+    totalDuration: day.totalDuration,
+    items: day.items.map(fromServerItem),
+  })),
+});
+
+/**
+ * Build the request body for a day plan item. Only the fields present are sent, so partial
+ * changes leave the other fields of the stored item alone; cleared text is sent as ''.
+ */
+const toItemPayload = (item: Partial<ItineraryItem>) => {
+  const payload: Record<string, unknown> = {};
+
+  if (item.type !== undefined) payload.type = item.type;
+  if (item.title !== undefined) payload.title = item.title;
+  if (item.description !== undefined) payload.description = item.description;
+  if (item.category !== undefined) payload.category = item.category;
+  if (item.location !== undefined) payload.location = item.location;
+  if (item.startTime !== undefined && TIME_PATTERN.test(item.startTime)) payload.startTime = item.startTime;
+  if (item.endTime !== undefined && TIME_PATTERN.test(item.endTime)) payload.endTime = item.endTime;
+  if (item.duration !== undefined) payload.duration = Math.max(0, Math.round(item.duration || 0));
+  if (item.price !== undefined) payload.cost = Math.max(0, item.price || 0);
+  if (item.notes !== undefined) payload.notes = item.notes;
+  if (item.bookingStatus !== undefined) payload.bookingStatus = item.bookingStatus;
+  if (item.bookingReference !== undefined) payload.bookingReference = item.bookingReference;
+
+  return payload;
+};
+
+/**
+ * Build the request body for saving an itinerary, including its full day plan. Item IDs are
+ * sent along so the server keeps the ones it already knows.
+ */
+const toItineraryPayload = (itinerary: Itinerary) => ({
+  title: itinerary.title,
+  description: itinerary.description || undefined,
+  destination: itinerary.destination || undefined,
+  startDate: itinerary.startDate,
+  endDate: itinerary.endDate,
+  groupSize: itinerary.travelers,
+  budget: itinerary.totalBudget || undefined,
+  status: itinerary.status,
+  days: itinerary.days.map((day) => ({
+    notes: day.notes || undefined,
+    items: day.items.map((item) => ({
+      id: item.id,
+      ...toItemPayload(item),
+    })),
+  })),
+});
+
+class ItineraryService {
+  /**
+   * Get the signed-in user's itineraries
+   */
+  async getMyItineraries(params?: ItineraryQueryParams) {
+    const response = await api.get(API_ENDPOINTS.ITINERARY.MY_ITINERARIES, { params });
+    return {
+      itineraries: (response.data.data as ServerItinerary[]).map(fromServerItinerary),
+      pagination: response.data.pagination,
+    };
+  }
+
+  /**
+   * Get an itinerary by ID
+   */
+  async getItinerary(id: string): Promise<Itinerary> {
+    const response = await api.get(API_ENDPOINTS.ITINERARY.BY_ID(id));
+    return fromServerItinerary(response.data.data.itinerary);
+  }
+
+  /**
+   * Get an itinerary through its share link
+   */
+  async getSharedItinerary(token: string): Promise<Itinerary> {
+    const response = await api.get(API_ENDPOINTS.ITINERARY.SHARED(token));
+    return fromServerItinerary(response.data.data.itinerary);
+  }
+
+  /**
+   * Save a new itinerary
+   */
+  async createItinerary(itinerary: Itinerary, source: 'MANUAL' | 'GENERATED' = 'MANUAL'): Promise<Itinerary> {
+    const response = await api.post(API_ENDPOINTS.ITINERARY.CREATE, {
+      ...toItineraryPayload(itinerary),
+      source,
+    });
+    return fromServerItinerary(response.data.data.itinerary);
+  }
+
+  /**
+   * Save changes to an itinerary, replacing its day plan
+   */
+  async updateItinerary(id: string, itinerary: Itinerary): Promise<Itinerary> {
+    const response = await api.put(API_ENDPOINTS.ITINERARY.UPDATE(id), toItineraryPayload(itinerary));
+    return fromServerItinerary(response.data.data.itinerary);
+  }
+
+  /**
+   * Delete an itinerary
+   */
+  async deleteItinerary(id: string) {
+    const response = await api.delete(API_ENDPOINTS.ITINERARY.DELETE(id));
+    return response.data;
+  }
+
+  /**
+   * Create or update the share link of an itinerary
+   */
+  async shareItinerary(id: string, data: ShareItineraryData): Promise<ItineraryShareInfo> {
+    const response = await api.post(API_ENDPOINTS.ITINERARY.SHARE(id), data);
+    return response.data.data;
+  }
+
+  /**
+   * Download an itinerary (or a single day of it) as a file
+   */
+  async exportItinerary(
+    id: string,
+    format: ItineraryExportFormat,
+    options: ItineraryExportOptions = {}
+  ): Promise<{ blob: Blob; filename: string }> {
+    const response = await api.get(API_ENDPOINTS.ITINERARY.EXPORT(id), {
+      params: { format, ...options },
+      responseType: 'blob',
+    });
+    const disposition: string = response.headers['content-disposition'] || '';
+    const match = disposition.match(/filename="?([^"]+)"?/);
+    return {
+      blob: response.data,
+      filename: match ? match[1] : `itinerary.${format === 'ical' ? 'ics' : format}`,
+    };
+  }
+
+  /**
+   * Get the owner and collaborators of an itinerary
+   */
+  async getCollaborators(id: string): Promise<ItineraryCollaborator[]> {
+    const response = await api.get(API_ENDPOINTS.ITINERARY.COLLABORATORS(id));
+    return response.data.data.collaborators;
+  }
+
+  /**
+   * Invite a registered user to an itinerary, or change their role
+   */
+  async addCollaborator(id: string, data: InviteCollaboratorData): Promise<ItineraryCollaborator> {
+    const response = await api.post(API_ENDPOINTS.ITINERARY.COLLABORATORS(id), data);
+    return response.data.data.collaborator;
+  }
+
+  /**
+   * Remove a collaborator, or leave an itinerary shared with you
+   */
+  async removeCollaborator(id: string, userId: string) {
+    const response = await api.delete(API_ENDPOINTS.ITINERARY.COLLABORATOR(id, userId));
+    return response.data;
+  }
+
+  /**
+   * Add an item to a day (days are numbered from 1)
+   */
+  async addItem(id: string, dayNumber: number, item: Partial<ItineraryItem>, position?: number): Promise<ItineraryItem> {
+    const response = await api.post(API_ENDPOINTS.ITINERARY.DAY_ITEMS(id, dayNumber), {
+      ...toItemPayload(item),
+      position,
+    });
+    return fromServerItem(response.data.data.item);
+  }
+
+  /**
+   * Save changes to some fields of an item, or move it to another day or position
+   */
+  async updateItem(id: string, itemId: string, changes: ItineraryItemChanges): Promise<ItineraryItem> {
+    const { dayNumber, position, ...fields } = changes;
+    const response = await api.patch(API_ENDPOINTS.ITINERARY.ITEM(id, itemId), {
+      ...toItemPayload(fields),
+      dayNumber,
+      position,
+    });
+    return fromServerItem(response.data.data.item);
+  }
+
+  /**
+   * Delete an item
+   */
+  async deleteItem(id: string, itemId: string) {
+    const response = await api.delete(API_ENDPOINTS.ITINERARY.ITEM(id, itemId));
+    return response.data;
+  }
+
+  /**
+   * Save the title or notes of a day
+   */
+  async updateDay(id: string, dayNumber: number, data: { title?: string | null; notes?: string | null }) {
+    const response = await api.patch(API_ENDPOINTS.ITINERARY.DAY(id, dayNumber), data);
+    return response.data.data.day;
+  }
+
+  /**
+   * Copy an itinerary (by ID or share token) into the user's own itineraries
+   */
+  async copyItinerary(idOrToken: string, title?: string): Promise<Itinerary> {
+    const response = await api.post(API_ENDPOINTS.ITINERARY.COPY(idOrToken), { title });
+    return fromServerItinerary(response.data.data.itinerary);
+  }
+}
+
+export default new ItineraryService();
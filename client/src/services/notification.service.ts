@@ -0,0 +1,173 @@
+import { api } from '@/api/axios.config';
+import { API_ENDPOINTS } from '@/utils/constants';
+
+export type NotificationType =
+  | 'BOOKING_CONFIRMATION'
+  | 'BOOKING_REMINDER'
+  | 'BOOKING_CANCELLED'
+  | 'TRIP_CHECKLIST'
+  | 'TRIP_WEATHER'
+  | 'REVIEW_REQUEST'
+  | 'PAYMENT_SUCCESS'
+  | 'PAYMENT_FAILED'
+  | 'CHAT_MESSAGE'
+  | 'CHAT_MENTION'
+  | 'SYSTEM_ANNOUNCEMENT'
+  | 'SECURITY_ALERT'
+  | 'PROMOTIONAL';
+
+export type DeliveryChannel = 'IN_APP' | 'PUSH' | 'EMAIL' | 'SMS';
+
+export type NotificationFrequency = 'immediate' | 'hourly' | 'daily';
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  content: string;
+  data?: Record<string, any>;
+  channels: DeliveryChannel[];
+  // 1 (low) to 4 (critical)
+  priority: number;
+  status: 'PENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+  readAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  scheduledAt?: string;
+  expiresAt?: string;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  startTime: string;
+  endTime: string;
+  timezone: string;
+  allowCritical: boolean;
+}
+
+export interface NotificationPreferences {
+  userId: string;
+  channels: Record<NotificationType, DeliveryChannel[]>;
+  quietHours?: QuietHours;
+  frequency: NotificationFrequency;
+  language: string;
+  timezone: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationFilters {
+  page?: number;
+  limit?: number;
+  types?: NotificationType[];
+  unreadOnly?: boolean;
+  includeExpired?: boolean;
+}
+
+export interface NotificationListResponse {
+  notifications: Notification[];
+  unreadCount: number;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export type UpdateNotificationPreferences = Partial<
+  Pick<NotificationPreferences, 'channels' | 'quietHours' | 'frequency' | 'language' | 'timezone'>
+>;
+
+export const notificationService = {
+  /**
+   * Get the current user's notifications
+   */
+  async getNotifications(filters: NotificationFilters = {}): Promise<NotificationListResponse> {
+    const response = await api.get(API_ENDPOINTS.NOTIFICATIONS.LIST, {
+      params: {
+        ...filters,
+        types: filters.types?.length ? filters.types.join(',') : undefined,
+      },
+    });
+    return response.data.data;
+  },
+
+  /**
+   * Get the number of unread notifications
+   */
+  async getUnreadCount(): Promise<number> {
+    const response = await api.get(API_ENDPOINTS.NOTIFICATIONS.UNREAD_COUNT);
+    return response.data.data.count;
+  },
+
+  /**
+   * Mark a notification as read
+   */
+  async markAsRead(id: string): Promise<void> {
+    await api.patch(API_ENDPOINTS.NOTIFICATIONS.MARK_READ(id));
+  },
+
+  /**
+   * Mark all notifications as read
+   */
+  async markAllAsRead(): Promise<void> {
+    await api.patch(API_ENDPOINTS.NOTIFICATIONS.MARK_ALL_READ);
+  },
+
+  /**
+   * Mark several notifications as read
+   */
+  async markManyAsRead(ids: string[]): Promise<number> {
+    const response = await api.post(API_ENDPOINTS.NOTIFICATIONS.BULK_READ, { ids });
+    return response.data.data.updated;
+  },
+
+  /**
+   * Delete several notifications
+   */
+  async deleteMany(ids: string[]): Promise<number> {
+    const response = await api.post(API_ENDPOINTS.NOTIFICATIONS.BULK_DELETE, { ids });
+    return response.data.data.deleted;
+  },
+
+  /**
+   * Delete a notification
+   */
+  async deleteNotification(id: string): Promise<void> {
+    await api.delete(API_ENDPOINTS.NOTIFICATIONS.DELETE(id));
+  },
+
+  /**
+   * Get notification preferences
+   */
+  async getPreferences(): Promise<NotificationPreferences> {
+    const response = await api.get(API_ENDPOINTS.NOTIFICATIONS.PREFERENCES);
+    return response.data.data.preferences;
+  },
+
+  /**
+   * Update notification preferences
+   */
+  async updatePreferences(updates: UpdateNotificationPreferences): Promise<NotificationPreferences> {
+    const response = await api.put(API_ENDPOINTS.NOTIFICATIONS.PREFERENCES, updates);
+    return response.data.data.preferences;
+  },
+
+  /**
+   * Update quiet hours
+   */
+  async updateQuietHours(quietHours: QuietHours): Promise<NotificationPreferences> {
+    const response = await api.put(API_ENDPOINTS.NOTIFICATIONS.QUIET_HOURS, quietHours);
+    return response.data.data.preferences;
+  },
+
+  /**
+   * Reset notification preferences to the defaults
+   */
+  async resetPreferences(): Promise<NotificationPreferences> {
+    const response = await api.post(API_ENDPOINTS.NOTIFICATIONS.RESET_PREFERENCES);
+    return response.data.data.preferences;
+  },
+};
@@ -1,137 +1,83 @@
-// Payment Service for EthioAI - Stripe & Chapa/Telebirr Integration
+// Payment Service for EthioAI - payment providers enabled on the server
+
+import { api } from '@/api/axios.config'
+import { API_ENDPOINTS } from '@/utils/constants'
 
 export interface PaymentMethod {
+  // Provider slug used in payment routes, e.g. "cbe-birr"
   id: string
+  method: 'STRIPE' | 'CHAPA' | 'TELEBIRR' | 'CBE_BIRR'
   name: string
   type: 'card' | 'mobile_money' | 'bank_transfer'
-  provider: 'stripe' | 'chapa' | 'telebirr'
+  // "client": confirmed in the browser with a client secret, "redirect": paid on the provider's checkout page
+  flow: 'client' | 'redirect'
   icon: string
   description: string
   currencies: string[]
-  countries: string[]
+  sandbox: boolean
 }
 
 export interface PaymentRequest {
-  amount: number
-  currency: string
-  paymentMethodId: string
-  customerInfo: {
-    name: string
-    email: string
-    phone?: string
-  }
-  bookingDetails: {
-    bookingId: string
-    items: any[]
-    metadata: Record<string, any>
-  }
+  amount?: number
+  currency?: string
+  bookingId?: string
+  orderId?: string
+  checkoutSessionId?: string
+  email?: string
+  firstName?: string
+  lastName?: string
+  phone?: string
+  description?: string
+  returnUrl?: string
+  metadata?: Record<string, string>
 }
 
 export interface PaymentResponse {
-  success: boolean
-  paymentId: string
-  status: 'pending' | 'completed' | 'failed' | 'cancelled'
-  redirectUrl?: string
-  qrCode?: string
-  message: string
-  transactionRef?: string
+  payment: any
+  reference: string
+  checkoutUrl?: string
+  clientSecret?: string
 }
 
-// Available payment methods
-export const PAYMENT_METHODS: PaymentMethod[] = [
-  // International Cards via Stripe
-  {
-    id: 'stripe_card',
-    name: 'Credit/Debit Card',
-    type: 'card',
-    provider: 'stripe',
-    icon: '💳',
-    description: 'Visa, Mastercard, American Express',
-    currencies: ['USD', 'EUR', 'GBP', 'ETB'],
-    countries: ['US', 'CA', 'GB', 'DE', 'FR', 'AU', 'ET']
-  },
-  
-  // Ethiopian Mobile Money via Chapa
-  {
-    id: 'chapa_telebirr',
-    name: 'Telebirr',
-    type: 'mobile_money',
-    provider: 'chapa',
-    icon: '📱',
-    description: 'Ethiopian mobile money service',
-    currencies: ['ETB'],
-    countries: ['ET']
-  },
-  {
-    id: 'chapa_cbe',
-    name: 'CBE Birr',
-    type: 'mobile_money',
-    provider: 'chapa',
-    icon: '🏦',
-    description: 'Commercial Bank of Ethiopia',
-    currencies: ['ETB'],
-    countries: ['ET']
-  },
-  {
-    id: 'chapa_awash',
-    name: 'Awash Bank',
-    type: 'bank_transfer',
-    provider: 'chapa',
-    icon: '🏛️',
-    description: 'Bank transfer via Awash Bank',
-    currencies: ['ETB'],
-    countries: ['ET']
-  }
-]
+const TYPE_ICONS: Record<PaymentMethod['type'], string> = {
+  card: '💳',
+  mobile_money: '📱',
+  bank_transfer: '🏦',
+}
 
 class PaymentService {
-  private apiBaseUrl: string
-
-  constructor() {
-    this.apiBaseUrl = import.meta.env?.VITE_API_BASE_URL || 'http://localhost:3000/api'
-  }
-
   /**
-   * Get available payment methods based on user location and currency
+   * Get the payment methods the server has enabled
    */
-  getAvailablePaymentMethods(currency: string = 'USD', country: string = 'US'): PaymentMethod[] {
-    return PAYMENT_METHODS.filter(method => 
-      method.currencies.includes(currency) && method.countries.includes(country)
-    )
+  async getPaymentMethods(): Promise<PaymentMethod[]> {
+    const response = await api.get(API_ENDPOINTS.PAYMENTS.PROVIDERS)
+    return response.data.data.providers.map((provider: any) => ({
+      id: provider.slug,
+      method: provider.method,
+      name: provider.name,
+      type: provider.type,
+      flow: provider.flow,
+      icon: TYPE_ICONS[provider.type as PaymentMethod['type']] || '💰',
+      description: provider.description,
+      currencies: provider.currencies,
+      sandbox: provider.sandbox,
+    }))
   }
 
   /**
-   * Process payment based on selected method
+   * Start a payment with a provider
    */
-  async processPayment(paymentRequest: PaymentRequest): Promise<PaymentResponse> {
-    const method = PAYMENT_METHODS.find(m => m.id === paymentRequest.paymentMethodId)
-    
-    if (!method) {
-      return {
-        success: false,
-        paymentId: '',
-        status: 'failed',
-        message: 'Invalid payment method selected',
-      }
-    }
-
-    // Mock payment processing for development
-    await new Promise(resolve => setTimeout(resolve, 2000))
-    
-    return {
-      success: true,
-      paymentId: `${method.provider}_mock_${Date.now()}`,
-      status: 'completed',
-      message: `Payment completed successfully via ${method.name} (Mock)`,
-      transactionRef: `TXN_MOCK_${Date.now()}`,
-    }
+  async initializePayment(methodId: string, request: PaymentRequest): Promise<PaymentResponse> {
+    const response = await api.post(API_ENDPOINTS.PAYMENTS.INITIALIZE(methodId), request)
+    return response.data.data
   }
 
   /**
-   * Get payment method by ID
+   * Ask the provider for the status of a payment
    */
-  getPaymentMethod(methodId: string): PaymentMethod | undefined {
-    return PAYMENT_METHODS.find(method => method.id === methodId)
+  async verifyPayment(methodId: string, reference: string): Promise<any> {
+    const response = await api.get(API_ENDPOINTS.PAYMENTS.VERIFY(methodId, reference))
+    return response.data.data.payment
   }
 
   /**
@@ -146,4 +92,4 @@ class PaymentService {
 }
 
 export const paymentService = new PaymentService()
-export default paymentService
\ No newline at end of file
+export default paymentService
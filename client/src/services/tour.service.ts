@@ -2,6 +2,13 @@ import { api } from "@/api/axios.config";
 import { API_ENDPOINTS } from "@/utils/constants";
 
 // Updated Tour interface to match server response
+export interface TourLocation {
+  name: string;
+  description: string | null;
+  address: string | null;
+  coordinates: [number, number] | null;
+}
+
 export interface Tour {
   id: string;
   title: string;
@@ -11,31 +18,31 @@ export interface Tour {
   images: string[];
   price: number;
   discountPrice?: number;
+  // ISO code the tour is priced in
+  currency: string;
+  // Prices converted into the requested display currency (listing, search and detail only)
+  displayCurrency?: string;
+  displayPrice?: number;
+  displayDiscountPrice?: number | null;
+  exchangeRate?: number;
   duration: number;
   maxGroupSize: number;
   difficulty: 'Easy' | 'Moderate' | 'Challenging';
   status: 'DRAFT' | 'PUBLISHED' | 'SUSPENDED' | 'ARCHIVED';
   featured: boolean;
-  startLocation: {
-    name: string;
-    coordinates: [number, number];
-    address?: string;
-  };
-  locations: Array<{
-    name: string;
-    coordinates: [number, number];
-    description?: string;
-  }>;
+  startLocation: TourLocation | null;
+  locations: TourLocation[];
   included: string[];
-  excluded?: string[];
+  excluded: string[];
   itinerary: Array<{
     day: number;
     title: string;
+    description: string;
     activities: string[];
-    accommodation?: string;
-    meals?: string[];
+    accommodation: string | null;
+    meals: string[];
   }>;
-  tags?: string[];
+  tags: string[];
   category: string;
   language: string;
   metaTitle?: string;
@@ -66,23 +73,39 @@ export interface Tour {
     };
     createdAt: string;
   }>;
-  averageRating?: number;
+  averageRating?: number | null;
   reviewCount?: number;
+  bookingCount?: number;
+  distanceKm?: number | null;
+  relevance?: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type TourSortField =
+  | 'relevance'
+  | 'createdAt'
+  | 'price'
+  | 'duration'
+  | 'title'
+  | 'rating'
+  | 'popularity'
+  | 'distance';
+
 export interface TourFilters {
   page?: number;
   limit?: number;
-  sortBy?: 'createdAt' | 'price' | 'duration' | 'title' | 'rating';
+  sortBy?: TourSortField;
   sortOrder?: 'asc' | 'desc';
+  // category, difficulty and language take comma separated lists
   category?: string;
-  difficulty?: 'Easy' | 'Moderate' | 'Challenging';
+  difficulty?: string;
+  language?: string;
   minPrice?: number;
   maxPrice?: number;
   minDuration?: number;
   maxDuration?: number;
+  minRating?: number;
   maxGroupSize?: number;
   search?: string;
   tags?: string;
@@ -91,13 +114,81 @@ export interface TourFilters {
   latitude?: number;
   longitude?: number;
   radius?: number;
+  // south,west,north,east
+  bounds?: string;
   guideId?: string;
+  // Also return prices in this currency; price filters use each tour's own currency
+  currency?: string;
+}
+
+export interface TourFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface TourRangeFacet {
+  key: string;
+  label: string;
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface TourFacets {
+  category: TourFacetValue[];
+  difficulty: TourFacetValue[];
+  language: TourFacetValue[];
+  duration: TourRangeFacet[];
+  price: TourRangeFacet[];
 }
 
 export interface TourAvailability {
   available: boolean;
-  message: string;
-  conflictingBookings?: number;
+  reason?: string;
+  departureId: string | null;
+  status: TourDepartureStatus | null;
+  startDate: string | null;
+  endDate: string | null;
+  cutoffAt: string | null;
+  capacity: number;
+  seatsBooked: number;
+  spotsLeft: number;
+  isFullyBooked: boolean;
+  price: number;
+  childPrice: number;
+}
+
+export type TourDepartureStatus = 'OPEN' | 'CLOSED' | 'GUARANTEED' | 'CANCELLED';
+
+export interface TourDeparture {
+  id: string;
+  tourId: string;
+  startDate: string;
+  endDate: string;
+  capacity: number;
+  seatsBooked: number;
+  spotsLeft: number;
+  bookable: boolean;
+  price?: number | null;
+  childPrice?: number | null;
+  cutoffAt?: string | null;
+  status: TourDepartureStatus;
+  notes?: string;
+}
+
+export interface CancellationTier {
+  minHoursBefore: number;
+  refundPercent: number;
+}
+
+export interface CancellationPolicy {
+  tourId: string;
+  depositPercent: number;
+  notes: string | null;
+  tiers: CancellationTier[];
+  isDefault: boolean;
+  // Human readable rules, one per line
+  summary: string[];
 }
 
 export interface CreateTourData {
@@ -107,29 +198,23 @@ export interface CreateTourData {
   images: string[];
   price: number;
   discountPrice?: number;
+  currency?: string;
   duration: number;
   maxGroupSize: number;
   difficulty: 'Easy' | 'Moderate' | 'Challenging';
-  startLocation: {
-    name: string;
-    coordinates: [number, number];
-    address?: string;
-  };
-  locations: Array<{
-    name: string;
-    coordinates: [number, number];
-    description?: string;
-  }>;
+  startLocation: TourLocation | null;
+  locations: TourLocation[];
   included: string[];
-  excluded?: string[];
+  excluded: string[];
   itinerary: Array<{
     day: number;
     title: string;
+    description: string;
     activities: string[];
-    accommodation?: string;
-    meals?: string[];
+    accommodation: string | null;
+    meals: string[];
   }>;
-  tags?: string[];
+  tags: string[];
   category: string;
   language?: string;
   metaTitle?: string;
@@ -144,10 +229,17 @@ export const tourService = {
    */
   async getTours(filters?: TourFilters): Promise<{
     tours: Tour[];
+    facets: TourFacets;
+    // The currency of minPrice, maxPrice and the price facets
+    priceCurrency: string;
+    sortBy: TourSortField;
+    sortOrder: 'asc' | 'desc';
+    sortOptions: TourSortField[];
     pagination: {
       page: number;
       limit: number;
       total: number;
+      pages: number;
       totalPages: number;
       hasNext: boolean;
       hasPrev: boolean;
@@ -170,8 +262,8 @@ export const tourService = {
   /**
    * Get tour by ID or slug
    */
-  async getTourById(id: string): Promise<Tour> {
-    const response = await api.get(API_ENDPOINTS.TOURS.DETAIL(id));
+  async getTourById(id: string, currency?: string): Promise<Tour> {
+    const response = await api.get(API_ENDPOINTS.TOURS.DETAIL(id), { params: { currency } });
     return response.data.data.tour;
   },
 
@@ -202,14 +294,35 @@ export const tourService = {
    * Check tour availability
    */
   async checkAvailability(id: string, data: {
-    startDate: string;
-    endDate: string;
-    groupSize: number;
+    departureId?: string;
+    startDate?: string;
+    adults: number;
+    children?: number;
   }): Promise<TourAvailability> {
-    const response = await api.post(`${API_ENDPOINTS.TOURS.DETAIL(id)}/availability`, data);
+    const response = await api.post(API_ENDPOINTS.TOURS.AVAILABILITY(id), data);
     return response.data.data;
   },
 
+  /**
+   * Get scheduled departures for a tour
+   */
+  async getDepartures(id: string, params?: {
+    from?: string;
+    to?: string;
+    includeUnavailable?: boolean;
+  }): Promise<TourDeparture[]> {
+    const response = await api.get(API_ENDPOINTS.TOURS.DEPARTURES(id), { params });
+    return response.data.data.departures;
+  },
+
+  /**
+   * Get the cancellation policy of a tour
+   */
+  async getCancellationPolicy(id: string): Promise<CancellationPolicy> {
+    const response = await api.get(API_ENDPOINTS.TOURS.CANCELLATION_POLICY(id));
+    return response.data.data.policy;
+  },
+
   /**
    * Get featured tours
    */
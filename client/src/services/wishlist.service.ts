@@ -0,0 +1,42 @@
+import { api } from '@/api/axios.config';
+import { API_ENDPOINTS } from '@/utils/constants';
+
+export interface WishlistItem {
+  id: string;
+  tourId: string;
+  createdAt: string;
+  tour: {
+    id: string;
+    title: string;
+    slug: string;
+    price: number;
+    discountPrice: number | null;
+    currency: string;
+    duration: number;
+    category: string;
+  };
+}
+
+export const wishlistService = {
+  /**
+   * Get the signed-in user's saved tours
+   */
+  async getWishlist(): Promise<WishlistItem[]> {
+    const response = await api.get(API_ENDPOINTS.WISHLIST.LIST);
+    return response.data.data.items;
+  },
+
+  /**
+   * Save a tour to the signed-in user's wishlist
+   */
+  async addTour(tourId: string): Promise<void> {
+    await api.put(API_ENDPOINTS.WISHLIST.TOUR(tourId));
+  },
+
+  /**
+   * Remove a tour from the signed-in user's wishlist
+   */
+  async removeTour(tourId: string): Promise<void> {
+    await api.delete(API_ENDPOINTS.WISHLIST.TOUR(tourId));
+  },
+};
@@ -1,5 +1,5 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
-import { BookingItem, CartState, PromoCode } from '@/types/booking'
+import { createSlice, createAsyncThunk, isPending, isFulfilled, isRejected } from '@reduxjs/toolkit'
+import { CartState } from '@/types/booking'
 import bookingService, { 
   CreateBookingData, 
   UpdateBookingData, 
@@ -7,60 +7,98 @@ import bookingService, {
   ValidatePromoCodeData,
   BookingQueryParams 
 } from '@/services/booking.service'
+import { cartService, AddCartItemData, UpdateCartItemData } from '@/services/cart.service'
 
-// Mock promo codes (in production, validate these on the backend)
-export const AVAILABLE_PROMO_CODES: PromoCode[] = [
-  {
-    code: 'WELCOME10',
-    discount: 10,
-    type: 'percentage',
-    minPurchase: 50,
-  },
-  {
-    code: 'SUMMER20',
-    discount: 20,
-    type: 'percentage',
-    minPurchase: 100,
-    maxDiscount: 50,
-  },
-  {
-    code: 'FIRST25',
-    discount: 25,
-    type: 'fixed',
-    minPurchase: 75,
-  },
-  {
-    code: 'HOLIDAY15',
-    discount: 15,
-    type: 'percentage',
-    expiryDate: '2025-12-31',
-  },
-]
+// Async Thunks
+// The cart lives on the server, which prices it; every cart thunk resolves to the new cart
+export const fetchCart = createAsyncThunk(
+  'booking/fetchCart',
+  async (_: void, { rejectWithValue }) => {
+    try {
+      return await cartService.getCart()
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to load cart')
+    }
+  }
+)
 
-const calculateTotals = (state: CartState) => {
-  state.subtotal = state.items.reduce((sum, item) => sum + item.totalPrice, 0)
-  state.totalItems = state.items.length
-  
-  // Calculate discount
-  if (state.appliedPromo) {
-    const promo = state.appliedPromo
-    
-    if (promo.type === 'percentage') {
-      state.discount = (state.subtotal * promo.discount) / 100
-      if (promo.maxDiscount) {
-        state.discount = Math.min(state.discount, promo.maxDiscount)
-      }
-    } else {
-      state.discount = promo.discount
+export const addToCart = createAsyncThunk(
+  'booking/addToCart',
+  async (data: AddCartItemData, { rejectWithValue }) => {
+    try {
+      return await cartService.addItem(data)
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to add item to cart')
     }
-  } else {
-    state.discount = 0
   }
-  
-  state.totalPrice = Math.max(0, state.subtotal - state.discount)
-}
+)
+
+export const updateCartItem = createAsyncThunk(
+  'booking/updateCartItem',
+  async ({ id, data }: { id: string; data: UpdateCartItemData }, { rejectWithValue }) => {
+    try {
+      return await cartService.updateItem(id, data)
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update cart item')
+    }
+  }
+)
+
+export const updateParticipants = createAsyncThunk(
+  'booking/updateParticipants',
+  async ({ id, adults, children }: { id: string; adults: number; children: number }, { rejectWithValue }) => {
+    try {
+      return await cartService.updateItem(id, { adults, children })
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update participants')
+    }
+  }
+)
+
+export const removeFromCart = createAsyncThunk(
+  'booking/removeFromCart',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      return await cartService.removeItem(id)
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to remove item from cart')
+    }
+  }
+)
+
+export const applyPromoCode = createAsyncThunk(
+  'booking/applyPromoCode',
+  async (code: string, { rejectWithValue }) => {
+    try {
+      return await cartService.applyPromoCode(code)
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Invalid promo code')
+    }
+  }
+)
+
+export const removePromoCode = createAsyncThunk(
+  'booking/removePromoCode',
+  async (_: void, { rejectWithValue }) => {
+    try {
+      return await cartService.removePromoCode()
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to remove promo code')
+    }
+  }
+)
+
+export const clearCart = createAsyncThunk(
+  'booking/clearCart',
+  async (_: void, { rejectWithValue }) => {
+    try {
+      return await cartService.clear()
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to clear cart')
+    }
+  }
+)
 
-// Async Thunks
 export const createBooking = createAsyncThunk(
   'booking/createBooking',
   async (data: CreateBookingData, { rejectWithValue }) => {
@@ -150,6 +188,8 @@ const initialState: CartState & {
   currentBooking: any | null;
   loading: boolean;
   error: string | null;
+  cartLoading: boolean;
+  cartError: string | null;
   promoValidation: {
     loading: boolean;
     error: string | null;
@@ -162,10 +202,14 @@ const initialState: CartState & {
   discount: 0,
   totalPrice: 0,
   appliedPromo: null,
+  currency: 'USD',
+  issues: [],
   bookings: [],
   currentBooking: null,
   loading: false,
   error: null,
+  cartLoading: false,
+  cartError: null,
   promoValidation: {
     loading: false,
     error: null,
@@ -173,93 +217,21 @@ const initialState: CartState & {
   },
 }
 
+const cartThunks = [
+  fetchCart,
+  addToCart,
+  updateCartItem,
+  updateParticipants,
+  removeFromCart,
+  applyPromoCode,
+  removePromoCode,
+  clearCart,
+] as const
+
 const bookingSlice = createSlice({
   name: 'booking',
   initialState,
-  reducers: {
-    addToCart: (state, action: PayloadAction<BookingItem>) => {
-      // Check if item already exists (same tour, same date)
-      const existingIndex = state.items.findIndex(
-        item => item.tourId === action.payload.tourId && item.date === action.payload.date
-      )
-      
-      if (existingIndex !== -1) {
-        // Update existing item
-        state.items[existingIndex] = action.payload
-      } else {
-        // Add new item
-        state.items.push(action.payload)
-      }
-      
-      calculateTotals(state)
-    },
-    
-    removeFromCart: (state, action: PayloadAction<string>) => {
-      state.items = state.items.filter(item => item.id !== action.payload)
-      calculateTotals(state)
-    },
-    
-    updateCartItem: (state, action: PayloadAction<BookingItem>) => {
-      const index = state.items.findIndex(item => item.id === action.payload.id)
-      if (index !== -1) {
-        state.items[index] = action.payload
-        calculateTotals(state)
-      }
-    },
-    
-    updateParticipants: (state, action: PayloadAction<{ id: string; adults: number; children: number }>) => {
-      const item = state.items.find(item => item.id === action.payload.id)
-      if (item) {
-        item.participants.adults = action.payload.adults
-        item.participants.children = action.payload.children
-        
-        // Recalculate total price
-        const participantsTotal = 
-          (item.participants.adults * item.pricePerAdult) + 
-          (item.participants.children * item.pricePerChild)
-        const addOnsTotal = item.addOns?.reduce((sum, addon) => sum + addon.price, 0) || 0
-        item.totalPrice = participantsTotal + addOnsTotal
-        
-        calculateTotals(state)
-      }
-    },
-    
-    applyPromoCode: (state, action: PayloadAction<string>) => {
-      const code = action.payload.toUpperCase()
-      const promo = AVAILABLE_PROMO_CODES.find(p => p.code === code)
-      
-      if (!promo) {
-        return // Invalid code
-      }
-      
-      // Check expiry
-      if (promo.expiryDate && new Date(promo.expiryDate) < new Date()) {
-        return // Expired
-      }
-      
-      // Check minimum purchase
-      if (promo.minPurchase && state.subtotal < promo.minPurchase) {
-        return // Doesn't meet minimum
-      }
-      
-      state.appliedPromo = promo
-      calculateTotals(state)
-    },
-    
-    removePromoCode: (state) => {
-      state.appliedPromo = null
-      calculateTotals(state)
-    },
-    
-    clearCart: (state) => {
-      state.items = []
-      state.totalItems = 0
-      state.subtotal = 0
-      state.discount = 0
-      state.totalPrice = 0
-      state.appliedPromo = null
-    },
-  },
+  reducers: {},
   extraReducers: (builder) => {
     // Create Booking
     builder.addCase(createBooking.pending, (state) => {
@@ -386,17 +358,21 @@ const bookingSlice = createSlice({
       state.loading = false;
       state.error = action.payload as string;
     });
+
+    // Cart
+    builder.addMatcher(isPending(...cartThunks), (state) => {
+      state.cartLoading = true;
+      state.cartError = null;
+    });
+    builder.addMatcher(isFulfilled(...cartThunks), (state, action) => {
+      state.cartLoading = false;
+      Object.assign(state, action.payload);
+    });
+    builder.addMatcher(isRejected(...cartThunks), (state, action) => {
+      state.cartLoading = false;
+      state.cartError = action.payload as string;
+    });
   },
 })
 
-export const { 
-  addToCart, 
-  removeFromCart, 
-  updateCartItem, 
-  updateParticipants,
-  applyPromoCode,
-  removePromoCode,
-  clearCart 
-} = bookingSlice.actions
-
 export default bookingSlice.reducer
@@ -1,5 +1,14 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
+import { createSlice, createAsyncThunk, isRejected, PayloadAction } from '@reduxjs/toolkit'
 import type { RootState } from '../store'
+import {
+  chatService,
+  getAttachments,
+  getSources,
+  ChatAttachment,
+  ChatConversation,
+  ChatExchange,
+  ChatSource,
+} from '@/services/chatService'
 
 // Types
 export interface Message {
@@ -7,20 +16,20 @@ export interface Message {
   content: string
   role: 'user' | 'assistant'
   timestamp: Date
-  status?: 'sending' | 'sent' | 'error'
+  status?: 'sending' | 'streaming' | 'sent' | 'error'
+  // Tours, locations and itineraries the assistant looked up for this answer
+  attachments?: ChatAttachment[]
+  // Library sources the answer cites
+  sources?: ChatSource[]
 }
 
-export interface Conversation {
-  id: string
-  title: string
-  messages: Message[]
-  createdAt: Date
-  updatedAt: Date
-}
+// Conversations are kept on the server; the list holds their summaries
+export type Conversation = ChatConversation
 
 export interface ChatState {
   conversations: Conversation[]
   currentConversationId: string | null
+  isLoadingConversations: boolean
   messages: Message[]
   isLoading: boolean
   isTyping: boolean
@@ -31,19 +40,24 @@ export interface ChatState {
   translationEnabled: boolean
 }
 
+const welcomeMessage = (): Message => ({
+  id: '1',
+  content: "Hello! I'm your AI guide for Ethiopia. I can help you discover amazing destinations, plan your trips, learn about Ethiopian culture, and answer any questions you have. How can I assist you today?",
+  role: 'assistant',
+  timestamp: new Date(),
+  status: 'sent',
+})
+
+// Languages the chat API accepts; answers in other languages are asked for in English
+const API_LANGUAGES = ['en', 'am', 'om'] as const
+type ApiLanguage = typeof API_LANGUAGES[number]
+
 // Initial state
 const initialState: ChatState = {
   conversations: [],
   currentConversationId: null,
-  messages: [
-    {
-      id: '1',
-      content: "Hello! I'm your AI guide for Ethiopia. I can help you discover amazing destinations, plan your trips, learn about Ethiopian culture, and answer any questions you have. How can I assist you today?",
-      role: 'assistant',
-      timestamp: new Date(),
-      status: 'sent',
-    },
-  ],
+  isLoadingConversations: false,
+  messages: [welcomeMessage()],
   isLoading: false,
   isTyping: false,
   error: null,
@@ -53,38 +67,119 @@ const initialState: ChatState = {
   translationEnabled: false,
 }
 
-// Import chat service
-import { api } from '@api/axios.config'
+// Each stored exchange is shown as the user's message and the assistant's answer
+const exchangeToMessages = (exchange: ChatExchange): Message[] => [
+  {
+    id: `${exchange.id}-user`,
+    content: exchange.message,
+    role: 'user',
+    timestamp: new Date(exchange.createdAt),
+    status: 'sent',
+  },
+  ...(exchange.response || getAttachments(exchange).length > 0
+    ? [{
+        id: exchange.id,
+        content: exchange.response || '',
+        role: 'assistant' as const,
+        timestamp: new Date(exchange.createdAt),
+        status: 'sent' as const,
+        attachments: getAttachments(exchange),
+        sources: getSources(exchange),
+      }]
+    : []),
+]
 
 // Async thunks
+// The answer is streamed into a message named after the request; aborting the thunk stops it
 export const sendMessageAsync = createAsyncThunk(
   'chat/sendMessage',
   async (
     { content, conversationId }: { content: string; conversationId?: string },
-    { rejectWithValue }
+    { getState, dispatch, requestId, signal, rejectWithValue }
   ) => {
     try {
-      // Use real Google AI API
-      const response = await api.post('/api/ai/chat', {
-        message: content,
-        context: 'You are a helpful AI guide for Ethiopia tourism. Provide informative, friendly responses about Ethiopian culture, destinations, tours, and travel advice. Keep responses conversational and engaging.'
-      })
-
-      if (response.data?.success && response.data?.data?.message) {
-        return {
-          content: response.data.data.message,
-          timestamp: new Date(),
+      const language = (getState() as RootState).chat.chatLanguage
+      const result = await chatService.streamMessage(
+        {
+          message: content,
+          language: API_LANGUAGES.includes(language as ApiLanguage) ? (language as ApiLanguage) : 'en',
+          conversationId,
+        },
+        {
+          signal,
+          onToken: (text) => dispatch(chatSlice.actions.appendStreamedText({ id: requestId, text })),
+          onAttachments: (attachments) =>
+            dispatch(chatSlice.actions.appendStreamedAttachments({ id: requestId, attachments })),
         }
-      } else {
-        throw new Error('Invalid response from AI service')
+      )
+
+      return {
+        id: result.message.id,
+        content: result.message.response || '',
+        attachments: getAttachments(result.message),
+        sources: getSources(result.message),
+        timestamp: new Date(result.message.createdAt),
+        conversation: result.conversation,
       }
     } catch (error: any) {
-      console.error('AI API Error:', error)
-      return rejectWithValue(
-        error.response?.data?.message || 
-        error.message || 
-        'Failed to send message. Please try again.'
-      )
+      return rejectWithValue(error.message || 'Failed to send message. Please try again.')
+    }
+  }
+)
+
+export const fetchConversations = createAsyncThunk(
+  'chat/fetchConversations',
+  async (params: { archived?: boolean; search?: string } | undefined, { rejectWithValue }) => {
+    try {
+      return await chatService.getConversations(params)
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to load conversations.')
+    }
+  }
+)
+
+// Resume a conversation where it was left
+export const loadConversation = createAsyncThunk(
+  'chat/loadConversation',
+  async (conversationId: string, { rejectWithValue }) => {
+    try {
+      return await chatService.getConversation(conversationId)
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to load conversation.')
+    }
+  }
+)
+
+export const renameConversation = createAsyncThunk(
+  'chat/renameConversation',
+  async ({ id, title }: { id: string; title: string }, { rejectWithValue }) => {
+    try {
+      return await chatService.updateConversation(id, { title })
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to rename conversation.')
+    }
+  }
+)
+
+export const archiveConversation = createAsyncThunk(
+  'chat/archiveConversation',
+  async ({ id, archived }: { id: string; archived: boolean }, { rejectWithValue }) => {
+    try {
+      return await chatService.updateConversation(id, { archived })
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to archive conversation.')
+    }
+  }
+)
+
+export const deleteConversation = createAsyncThunk(
+  'chat/deleteConversation',
+  async (conversationId: string, { rejectWithValue }) => {
+    try {
+      await chatService.deleteConversation(conversationId)
+      return conversationId
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to delete conversation.')
     }
   }
 )
@@ -162,6 +257,27 @@ const chatSlice = createSlice({
       state.lastMessageId = message.id
     },
 
+    // Append streamed text to the answer being generated
+    appendStreamedText: (state, action: PayloadAction<{ id: string; text: string }>) => {
+      const message = state.messages.find((m) => m.id === action.payload.id)
+      if (message) {
+        message.content += action.payload.text
+        state.isTyping = false
+      }
+    },
+
+    // Add the cards of a lookup made while the answer is generated
+    appendStreamedAttachments: (
+      state,
+      action: PayloadAction<{ id: string; attachments: ChatAttachment[] }>
+    ) => {
+      const message = state.messages.find((m) => m.id === action.payload.id)
+      if (message) {
+        message.attachments = [...(message.attachments || []), ...action.payload.attachments]
+        state.isTyping = false
+      }
+    },
+
     // Set typing state
     setTyping: (state, action: PayloadAction<boolean>) => {
       state.isTyping = action.payload
@@ -178,6 +294,7 @@ const chatSlice = createSlice({
           status: 'sent',
         },
       ]
+      state.currentConversationId = null
       state.error = null
       state.isTyping = false
     },
@@ -187,56 +304,12 @@ const chatSlice = createSlice({
       state.error = null
     },
 
-    // Create new conversation
-    createConversation: (state, action: PayloadAction<string>) => {
-      const conversation: Conversation = {
-        id: Date.now().toString(),
-        title: action.payload || 'New Conversation',
-        messages: [...state.messages],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }
-      state.conversations.push(conversation)
-      state.currentConversationId = conversation.id
-    },
-
-    // Load conversation
-    loadConversation: (state, action: PayloadAction<string>) => {
-      const conversation = state.conversations.find((c) => c.id === action.payload)
-      if (conversation) {
-        state.messages = conversation.messages
-        state.currentConversationId = conversation.id
-        state.error = null
-      }
-    },
-
-    // Delete conversation
-    deleteConversation: (state, action: PayloadAction<string>) => {
-      state.conversations = state.conversations.filter((c) => c.id !== action.payload)
-      if (state.currentConversationId === action.payload) {
-        state.currentConversationId = null
-        state.messages = initialState.messages
-      }
-    },
-
-    // Update conversation
-    updateConversation: (state) => {
-      if (state.currentConversationId) {
-        const conversation = state.conversations.find(
-          (c) => c.id === state.currentConversationId
-        )
-        if (conversation) {
-          conversation.messages = [...state.messages]
-          conversation.updatedAt = new Date()
-          // Update title based on first user message if not set
-          if (conversation.title === 'New Conversation') {
-            const firstUserMessage = state.messages.find((m) => m.role === 'user')
-            if (firstUserMessage) {
-              conversation.title = firstUserMessage.content.slice(0, 50) + '...'
-            }
-          }
-        }
-      }
+    // Start a new conversation; the server creates it with the first message
+    startNewConversation: (state) => {
+      state.messages = [welcomeMessage()]
+      state.currentConversationId = null
+      state.error = null
+      state.isTyping = false
     },
 
     // Set chat language
@@ -257,7 +330,7 @@ const chatSlice = createSlice({
   extraReducers: (builder) => {
     builder
       // Send message pending
-      .addCase(sendMessageAsync.pending, (state) => {
+      .addCase(sendMessageAsync.pending, (state, action) => {
         state.isLoading = true
         state.isTyping = true
         state.error = null
@@ -266,6 +339,14 @@ const chatSlice = createSlice({
         if (lastMessage && lastMessage.role === 'user') {
           lastMessage.status = 'sending'
         }
+        // Empty answer that streamed text is added to
+        state.messages.push({
+          id: action.meta.requestId,
+          content: '',
+          role: 'assistant',
+          timestamp: new Date(),
+          status: 'streaming',
+        })
       })
       // Send message fulfilled
       .addCase(sendMessageAsync.fulfilled, (state, action) => {
@@ -278,30 +359,100 @@ const chatSlice = createSlice({
         if (lastUserMessage) {
           lastUserMessage.status = 'sent'
         }
-        // Add AI response
-        const aiMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          content: action.payload.content,
-          role: 'assistant',
-          timestamp: action.payload.timestamp,
-          status: 'sent',
+        // The streamed answer becomes the stored one
+        const aiMessage = state.messages.find((m) => m.id === action.meta.requestId)
+        if (aiMessage) {
+          aiMessage.id = action.payload.id
+          aiMessage.content = action.payload.content
+          aiMessage.attachments = action.payload.attachments
+          aiMessage.sources = action.payload.sources
+          aiMessage.timestamp = action.payload.timestamp
+          aiMessage.status = 'sent'
+        }
+        state.lastMessageId = action.payload.id
+        // Keep the conversation, new or continued, at the top of the list
+        const conversation = action.payload.conversation
+        if (conversation) {
+          state.currentConversationId = conversation.id
+          const existing = state.conversations.find((c) => c.id === conversation.id)
+          state.conversations = [
+            { ...conversation, messageCount: (existing?.messageCount ?? 0) + 1 },
+            ...state.conversations.filter((c) => c.id !== conversation.id),
+          ]
         }
-        state.messages.push(aiMessage)
-        state.lastMessageId = aiMessage.id
       })
-      // Send message rejected
+      // Send message rejected, or stopped by the user
       .addCase(sendMessageAsync.rejected, (state, action) => {
         state.isLoading = false
         state.isTyping = false
-        state.error = action.payload as string
-        // Update last user message status to 'error'
         const lastUserMessage = [...state.messages]
           .reverse()
           .find((m) => m.role === 'user')
+        const aiMessage = state.messages.find((m) => m.id === action.meta.requestId)
+
+        // A stopped answer keeps what was generated so far
+        if (action.meta.aborted) {
+          if (lastUserMessage) {
+            lastUserMessage.status = 'sent'
+          }
+          if (aiMessage?.content || aiMessage?.attachments?.length) {
+            aiMessage.status = 'sent'
+          } else {
+            state.messages = state.messages.filter((m) => m.id !== action.meta.requestId)
+          }
+          return
+        }
+
+        state.error = action.payload as string
+        state.messages = state.messages.filter((m) => m.id !== action.meta.requestId)
+        // Update last user message status to 'error'
         if (lastUserMessage) {
           lastUserMessage.status = 'error'
         }
       })
+      // Conversations
+      .addCase(fetchConversations.pending, (state) => {
+        state.isLoadingConversations = true
+      })
+      .addCase(fetchConversations.fulfilled, (state, action) => {
+        state.isLoadingConversations = false
+        state.conversations = action.payload
+      })
+      .addCase(fetchConversations.rejected, (state, action) => {
+        state.isLoadingConversations = false
+        state.error = action.payload as string
+      })
+      .addCase(loadConversation.fulfilled, (state, action) => {
+        const { conversation, messages } = action.payload
+        state.currentConversationId = conversation.id
+        state.messages = [welcomeMessage(), ...messages.flatMap(exchangeToMessages)]
+        state.lastMessageId = state.messages[state.messages.length - 1].id
+        state.error = null
+        state.isTyping = false
+      })
+      .addCase(renameConversation.fulfilled, (state, action) => {
+        const conversation = state.conversations.find((c) => c.id === action.payload.id)
+        if (conversation) {
+          conversation.title = action.payload.title
+        }
+      })
+      // Archived conversations move out of the list being shown, and back again
+      .addCase(archiveConversation.fulfilled, (state, action) => {
+        state.conversations = state.conversations.filter((c) => c.id !== action.payload.id)
+      })
+      .addCase(deleteConversation.fulfilled, (state, action) => {
+        state.conversations = state.conversations.filter((c) => c.id !== action.payload)
+        if (state.currentConversationId === action.payload) {
+          state.currentConversationId = null
+          state.messages = [welcomeMessage()]
+        }
+      })
+      .addMatcher(
+        isRejected(loadConversation, renameConversation, archiveConversation, deleteConversation),
+        (state, action) => {
+          state.error = action.payload as string
+        }
+      )
   },
 })
 
@@ -313,10 +464,7 @@ export const {
   setTyping,
   clearMessages,
   clearError,
-  createConversation,
-  loadConversation,
-  deleteConversation,
-  updateConversation,
+  startNewConversation,
   setChatLanguage,
   setAutoDetectLanguage,
   setTranslationEnabled,
@@ -330,6 +478,8 @@ export const selectError = (state: RootState) => state.chat.error
 export const selectConversations = (state: RootState) => state.chat.conversations
 export const selectCurrentConversationId = (state: RootState) =>
   state.chat.currentConversationId
+export const selectIsLoadingConversations = (state: RootState) =>
+  state.chat.isLoadingConversations
 export const selectLastMessageId = (state: RootState) => state.chat.lastMessageId
 export const selectChatLanguage = (state: RootState) => state.chat.chatLanguage
 export const selectAutoDetectLanguage = (state: RootState) => state.chat.autoDetectLanguage
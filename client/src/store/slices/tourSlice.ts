@@ -1,5 +1,7 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
 import { tourService, Tour, TourFilters as ServiceTourFilters } from '@/services/tour.service'
+import { wishlistService } from '@/services/wishlist.service'
+import { getToken } from '@/utils/storage'
 
 // Types
 export interface TourFilters {
@@ -159,12 +161,13 @@ export const fetchTourCategories = createAsyncThunk(
 
 export const checkTourAvailability = createAsyncThunk(
   'tours/checkAvailability',
-  async (params: { tourId: string; startDate: string; endDate: string; groupSize: number }, { rejectWithValue }) => {
+  async (params: { tourId: string; departureId?: string; startDate?: string; adults: number; children?: number }, { rejectWithValue }) => {
     try {
       const availability = await tourService.checkAvailability(params.tourId, {
+        departureId: params.departureId,
         startDate: params.startDate,
-        endDate: params.endDate,
-        groupSize: params.groupSize,
+        adults: params.adults,
+        children: params.children,
       })
       return availability
     } catch (error: any) {
@@ -173,6 +176,54 @@ export const checkTourAvailability = createAsyncThunk(
   }
 )
 
+// Signed-in users' wishlists are kept on the server too, so they follow them across devices
+export const fetchWishlist = createAsyncThunk(
+  'tours/fetchWishlist',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const items = await wishlistService.getWishlist()
+      const serverIds = items.map((item) => item.tourId)
+
+      // Save tours picked before signing in
+      const localIds = (getState() as { tours: TourState }).tours.wishlist
+      const unsaved = localIds.filter((tourId) => !serverIds.includes(tourId))
+      await Promise.all(unsaved.map((tourId) => wishlistService.addTour(tourId).catch(() => undefined)))
+
+      return [...serverIds, ...unsaved]
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to fetch wishlist')
+    }
+  }
+)
+
+export const addToWishlist = createAsyncThunk(
+  'tours/addToWishlist',
+  async (tourId: string, { rejectWithValue }) => {
+    try {
+      if (getToken()) {
+        await wishlistService.addTour(tourId)
+      }
+      return tourId
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to add tour to wishlist')
+    }
+  }
+)
+
+export const removeFromWishlist = createAsyncThunk(
+  'tours/removeFromWishlist',
+  async (tourId: string, { rejectWithValue }) => {
+    try {
+      if (getToken()) {
+        await wishlistService.removeTour(tourId)
+      }
+      return tourId
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to remove tour from wishlist')
+    }
+  }
+)
+
 // Slice
 const tourSlice = createSlice({
   name: 'tours',
@@ -341,6 +392,28 @@ const tourSlice = createSlice({
       .addCase(fetchTourCategories.rejected, (state, action) => {
         state.error = action.payload as string
       })
+
+      // Wishlist
+      .addCase(fetchWishlist.fulfilled, (state, action) => {
+        state.wishlist = action.payload
+        localStorage.setItem('tour_wishlist', JSON.stringify(state.wishlist))
+      })
+      .addCase(addToWishlist.fulfilled, (state, action) => {
+        if (!state.wishlist.includes(action.payload)) {
+          state.wishlist.push(action.payload)
+          localStorage.setItem('tour_wishlist', JSON.stringify(state.wishlist))
+        }
+      })
+      .addCase(addToWishlist.rejected, (state, action) => {
+        state.error = action.payload as string
+      })
+      .addCase(removeFromWishlist.fulfilled, (state, action) => {
+        state.wishlist = state.wishlist.filter((tourId) => tourId !== action.payload)
+        localStorage.setItem('tour_wishlist', JSON.stringify(state.wishlist))
+      })
+      .addCase(removeFromWishlist.rejected, (state, action) => {
+        state.error = action.payload as string
+      })
   },
 })
 
@@ -8,7 +8,10 @@ export interface AddOn {
 
 export interface BookingItem {
   id: string
-  tourId: string
+  type: 'TOUR' | 'PRODUCT'
+  tourId?: string
+  departureId?: string
+  productId?: string
   tourName: string
   tourImage: string
   date: string
@@ -18,11 +21,14 @@ export interface BookingItem {
   }
   pricePerAdult: number
   pricePerChild: number
+  quantity?: number
   addOns: AddOn[]
   totalPrice: number
-  meetingPoint: string
+  meetingPoint?: string
   duration: string
   specialRequests?: string
+  // Why the item can no longer be booked or bought, set by the server
+  issue?: string
 }
 
 export interface BookingFormData {
@@ -91,4 +97,7 @@ export interface CartState {
   discount: number
   totalPrice: number
   appliedPromo: PromoCode | null
+  currency: string
+  // Problems with the items; checkout waits until they are resolved
+  issues: string[]
 }
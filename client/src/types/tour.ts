@@ -70,12 +70,19 @@ export interface TourAvailability {
 
 export interface TourFilters {
   search?: string
-  category?: TourCategory[]
+  // Category, difficulty and language values as the server returns them in its facets
+  category?: string[]
   priceRange?: [number, number]
   duration?: [number, number]
-  difficulty?: TourDifficulty[]
+  difficulty?: string[]
+  language?: string[]
   rating?: number
   region?: string[]
+  near?: {
+    latitude: number
+    longitude: number
+    radius: number
+  }
   sortBy?: 'price' | 'rating' | 'duration' | 'popularity'
   sortOrder?: 'asc' | 'desc'
 }
@@ -37,6 +37,7 @@ export const ROUTES = {
   REVIEWS: '/reviews',
   PAYMENT: '/payment',
   CONFIRMATION: '/confirmation',
+  NOTIFICATIONS: '/notifications',
 } as const
 
 // Storage Keys
@@ -46,6 +47,8 @@ export const STORAGE_KEYS = {
   USER: 'auth_user',
   LANGUAGE: 'app_language',
   CART: 'booking_cart',
+  CART_TOKEN: 'cart_token',
+  CURRENCY: 'display_currency',
 } as const
 
 // Supported Languages
@@ -80,8 +83,27 @@ export const API_ENDPOINTS = {
     CATEGORIES: '/api/tours/categories',
     CATEGORY: (category: string) => `/api/tours/category/${category}`,
     AVAILABILITY: (id: string) => `/api/tours/${id}/availability`,
+    DEPARTURES: (id: string) => `/api/tours/${id}/departures`,
+    CANCELLATION_POLICY: (id: string) => `/api/tours/${id}/cancellation-policy`,
     STATUS: (id: string) => `/api/tours/${id}/status`,
   },
+  CART: {
+    GET: '/api/cart',
+    CLEAR: '/api/cart',
+    ITEMS: '/api/cart/items',
+    ITEM: (id: string) => `/api/cart/items/${id}`,
+    PROMO: '/api/cart/promo',
+  },
+  WISHLIST: {
+    LIST: '/api/wishlist',
+    TOUR: (tourId: string) => `/api/wishlist/${tourId}`,
+  },
+  CHECKOUT: {
+    SESSIONS: '/api/checkout/sessions',
+    SESSION: (id: string) => `/api/checkout/sessions/${id}`,
+    PAY: (id: string) => `/api/checkout/sessions/${id}/pay`,
+    CANCEL: (id: string) => `/api/checkout/sessions/${id}/cancel`,
+  },
   BOOKINGS: {
     LIST: '/api/bookings',
     CREATE: '/api/bookings',
@@ -89,12 +111,36 @@ export const API_ENDPOINTS = {
     BY_NUMBER: (bookingNumber: string) => `/api/bookings/number/${bookingNumber}`,
     UPDATE: (id: string) => `/api/bookings/${id}`,
     CANCEL: (id: string) => `/api/bookings/${id}/cancel`,
+    CANCELLATION_QUOTE: (id: string) => `/api/bookings/${id}/cancellation-quote`,
     UPDATE_STATUS: (id: string) => `/api/bookings/${id}/status`,
     MY_BOOKINGS: '/api/bookings/my-bookings',
     UPCOMING: '/api/bookings/upcoming',
     PAST: '/api/bookings/past',
     VALIDATE_PROMO: '/api/bookings/validate-promo',
     STATS: '/api/bookings/admin/stats',
+    WAITLIST: '/api/bookings/waitlist',
+    MY_WAITLIST: '/api/bookings/waitlist/my-entries',
+    WAITLIST_ENTRY: (id: string) => `/api/bookings/waitlist/${id}`,
+    CLAIM_WAITLIST: (id: string) => `/api/bookings/waitlist/${id}/claim`,
+    CLAIM_WAITLIST_OFFER: (token: string) => `/api/bookings/waitlist/offers/${token}/claim`,
+    QUOTE: (id: string) => `/api/bookings/${id}/quote`,
+  },
+  CURRENCIES: {
+    LIST: '/api/currencies',
+    CONVERT: '/api/currencies/convert',
+    REFRESH_RATES: '/api/currencies/rates/refresh',
+  },
+  NOTIFICATIONS: {
+    LIST: '/api/notifications',
+    UNREAD_COUNT: '/api/notifications/unread-count',
+    MARK_READ: (id: string) => `/api/notifications/${id}/read`,
+    MARK_ALL_READ: '/api/notifications/read-all',
+    BULK_READ: '/api/notifications/bulk/read',
+    BULK_DELETE: '/api/notifications/bulk/delete',
+    DELETE: (id: string) => `/api/notifications/${id}`,
+    PREFERENCES: '/api/notifications/preferences',
+    QUIET_HOURS: '/api/notifications/preferences/quiet-hours',
+    RESET_PREFERENCES: '/api/notifications/preferences/reset',
   },
   PAYMENTS: {
     LIST: '/api/payments',
@@ -102,6 +148,9 @@ export const API_ENDPOINTS = {
     MY_PAYMENTS: '/api/payments/my-payments',
     REFUND: (id: string) => `/api/payments/${id}/refund`,
     STATS: '/api/payments/admin/stats',
+    PROVIDERS: '/api/payments/providers',
+    INITIALIZE: (provider: string) => `/api/payments/providers/${provider}/initialize`,
+    VERIFY: (provider: string, reference: string) => `/api/payments/providers/${provider}/verify/${reference}`,
     STRIPE: {
       CREATE_INTENT: '/api/payments/stripe/create-intent',
       CONFIRM: '/api/payments/stripe/confirm',
@@ -164,6 +213,7 @@ export const API_ENDPOINTS = {
   CHAT: {
     MESSAGES: {
       SEND: '/api/chat/messages',
+      STREAM: '/api/chat/messages/stream',
       LIST: '/api/chat/messages',
       BY_ID: (id: string) => `/api/chat/messages/${id}`,
       UPDATE: (id: string) => `/api/chat/messages/${id}`,
@@ -171,6 +221,13 @@ export const API_ENDPOINTS = {
       CLEAR_ALL: '/api/chat/messages',
       FEEDBACK: (id: string) => `/api/chat/messages/${id}/feedback`,
     },
+    CONVERSATIONS: {
+      LIST: '/api/chat/conversations',
+      CREATE: '/api/chat/conversations',
+      BY_ID: (id: string) => `/api/chat/conversations/${id}`,
+      UPDATE: (id: string) => `/api/chat/conversations/${id}`,
+      DELETE: (id: string) => `/api/chat/conversations/${id}`,
+    },
     SUGGESTIONS: '/api/chat/suggestions',
     RECENT: '/api/chat/recent',
     EXPORT: '/api/chat/export',
@@ -231,23 +288,28 @@ export const API_ENDPOINTS = {
     STATS: '/api/transport/stats',
   },
   ITINERARY: {
-    OVERVIEW: '/api/itinerary/overview',
-    LIST: '/api/itinerary',
-    CREATE: '/api/itinerary',
-    BY_ID: (id: string) => `/api/itinerary/${id}`,
-    UPDATE: (id: string) => `/api/itinerary/${id}`,
-    DELETE: (id: string) => `/api/itinerary/${id}`,
-    SHARE: (id: string) => `/api/itinerary/${id}/share`,
-    COPY: (id: string) => `/api/itinerary/${id}/copy`,
-    OPTIMIZE: (id: string) => `/api/itinerary/${id}/optimize`,
-    EXPORT: (id: string) => `/api/itinerary/${id}/export`,
-    MY_ITINERARIES: '/api/itinerary/my-itineraries',
-    PUBLIC: '/api/itinerary/public',
-    SHARED: (token: string) => `/api/itinerary/shared/${token}`,
-    SEARCH: '/api/itinerary/search',
-    RECOMMENDATIONS: '/api/itinerary/recommendations',
-    POPULAR_DESTINATIONS: '/api/itinerary/popular-destinations',
-    STATS: '/api/itinerary/admin/stats',
+    OVERVIEW: '/api/itineraries/overview',
+    LIST: '/api/itineraries',
+    CREATE: '/api/itineraries',
+    BY_ID: (id: string) => `/api/itineraries/${id}`,
+    UPDATE: (id: string) => `/api/itineraries/${id}`,
+    DELETE: (id: string) => `/api/itineraries/${id}`,
+    SHARE: (id: string) => `/api/itineraries/${id}/share`,
+    COPY: (id: string) => `/api/itineraries/${id}/copy`,
+    OPTIMIZE: (id: string) => `/api/itineraries/${id}/optimize`,
+    EXPORT: (id: string) => `/api/itineraries/${id}/export`,
+    COLLABORATORS: (id: string) => `/api/itineraries/${id}/collaborators`,
+    COLLABORATOR: (id: string, userId: string) => `/api/itineraries/${id}/collaborators/${userId}`,
+    DAY: (id: string, dayNumber: number) => `/api/itineraries/${id}/days/${dayNumber}`,
+    DAY_ITEMS: (id: string, dayNumber: number) => `/api/itineraries/${id}/days/${dayNumber}/items`,
+    ITEM: (id: string, itemId: string) => `/api/itineraries/${id}/items/${itemId}`,
+    MY_ITINERARIES: '/api/itineraries/my-itineraries',
+    PUBLIC: '/api/itineraries/public',
+    SHARED: (token: string) => `/api/itineraries/shared/${token}`,
+    SEARCH: '/api/itineraries/search',
+    RECOMMENDATIONS: '/api/itineraries/recommendations',
+    POPULAR_DESTINATIONS: '/api/itineraries/popular-destinations',
+    STATS: '/api/itineraries/admin/stats',
   },
   UPLOAD: {
     SINGLE: '/api/upload/single',
@@ -59,6 +59,28 @@ export const getLanguage = (): string | null => {
   return localStorage.getItem(STORAGE_KEYS.LANGUAGE)
 }
 
+// Display currency management
+export const setCurrency = (currency: string): void => {
+  localStorage.setItem(STORAGE_KEYS.CURRENCY, currency)
+}
+
+export const getCurrency = (): string | null => {
+  return localStorage.getItem(STORAGE_KEYS.CURRENCY)
+}
+
+// Guest cart token management
+export const setCartToken = (token: string): void => {
+  localStorage.setItem(STORAGE_KEYS.CART_TOKEN, token)
+}
+
+export const getCartToken = (): string | null => {
+  return localStorage.getItem(STORAGE_KEYS.CART_TOKEN)
+}
+
+export const removeCartToken = (): void => {
+  localStorage.removeItem(STORAGE_KEYS.CART_TOKEN)
+}
+
 // Clear all auth data
 export const clearAuth = (): void => {
   removeToken()
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE `bookings` ADD COLUMN `departureId` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `tour_departures` (
+    `id` VARCHAR(191) NOT NULL,
+    `tourId` VARCHAR(191) NOT NULL,
+    `startDate` DATETIME(3) NOT NULL,
+    `endDate` DATETIME(3) NOT NULL,
+    `capacity` INTEGER NOT NULL,
+    `seatsBooked` INTEGER NOT NULL DEFAULT 0,
+    `price` DECIMAL(65, 30) NULL,
+    `childPrice` DECIMAL(65, 30) NULL,
+    `cutoffAt` DATETIME(3) NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'OPEN',
+    `notes` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `tour_departures_tourId_status_idx`(`tourId`, `status`),
+    INDEX `tour_departures_startDate_idx`(`startDate`),
+    UNIQUE INDEX `tour_departures_tourId_startDate_key`(`tourId`, `startDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `bookings_departureId_idx` ON `bookings`(`departureId`);
+
+-- AddForeignKey
+ALTER TABLE `bookings` ADD CONSTRAINT `bookings_departureId_fkey` FOREIGN KEY (`departureId`) REFERENCES `tour_departures`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `tour_departures` ADD CONSTRAINT `tour_departures_tourId_fkey` FOREIGN KEY (`tourId`) REFERENCES `tours`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
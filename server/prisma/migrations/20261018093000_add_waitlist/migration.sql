@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE `waitlist_entries` (
+    `id` VARCHAR(191) NOT NULL,
+    `tourId` VARCHAR(191) NOT NULL,
+    `departureId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `email` VARCHAR(191) NOT NULL,
+    `adults` INTEGER NOT NULL DEFAULT 1,
+    `children` INTEGER NOT NULL DEFAULT 0,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'WAITING',
+    `claimToken` VARCHAR(191) NULL,
+    `offeredAt` DATETIME(3) NULL,
+    `offerExpiresAt` DATETIME(3) NULL,
+    `bookingId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `waitlist_entries_claimToken_key`(`claimToken`),
+    INDEX `waitlist_entries_departureId_status_createdAt_idx`(`departureId`, `status`, `createdAt`),
+    INDEX `waitlist_entries_userId_idx`(`userId`),
+    INDEX `waitlist_entries_email_idx`(`email`),
+    INDEX `waitlist_entries_status_offerExpiresAt_idx`(`status`, `offerExpiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `waitlist_entries` ADD CONSTRAINT `waitlist_entries_tourId_fkey` FOREIGN KEY (`tourId`) REFERENCES `tours`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `waitlist_entries` ADD CONSTRAINT `waitlist_entries_departureId_fkey` FOREIGN KEY (`departureId`) REFERENCES `tour_departures`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `waitlist_entries` ADD CONSTRAINT `waitlist_entries_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
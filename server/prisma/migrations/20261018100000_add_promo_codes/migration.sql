@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE `orders` ADD COLUMN `promoCode` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `promo_codes` (
+    `id` VARCHAR(191) NOT NULL,
+    `code` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `campaign` VARCHAR(191) NULL,
+    `discountType` VARCHAR(191) NOT NULL,
+    `discountValue` DECIMAL(65, 30) NOT NULL,
+    `maxDiscount` DECIMAL(65, 30) NULL,
+    `minOrderAmount` DECIMAL(65, 30) NULL,
+    `usageLimit` INTEGER NULL,
+    `usageCount` INTEGER NOT NULL DEFAULT 0,
+    `perUserLimit` INTEGER NULL,
+    `validFrom` DATETIME(3) NOT NULL,
+    `validUntil` DATETIME(3) NOT NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `applicableToTours` BOOLEAN NOT NULL DEFAULT true,
+    `applicableToProducts` BOOLEAN NOT NULL DEFAULT true,
+    `tourIds` TEXT NULL,
+    `tourCategories` TEXT NULL,
+    `productIds` TEXT NULL,
+    `productCategories` TEXT NULL,
+    `createdById` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `promo_codes_code_key`(`code`),
+    INDEX `promo_codes_campaign_idx`(`campaign`),
+    INDEX `promo_codes_isActive_validFrom_validUntil_idx`(`isActive`, `validFrom`, `validUntil`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `promo_redemptions` (
+    `id` VARCHAR(191) NOT NULL,
+    `promoCodeId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `bookingId` VARCHAR(191) NULL,
+    `orderId` VARCHAR(191) NULL,
+    `discountAmount` DECIMAL(65, 30) NOT NULL,
+    `orderAmount` DECIMAL(65, 30) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `promo_redemptions_bookingId_key`(`bookingId`),
+    UNIQUE INDEX `promo_redemptions_orderId_key`(`orderId`),
+    INDEX `promo_redemptions_promoCodeId_createdAt_idx`(`promoCodeId`, `createdAt`),
+    INDEX `promo_redemptions_userId_idx`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `promo_codes` ADD CONSTRAINT `promo_codes_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `promo_redemptions` ADD CONSTRAINT `promo_redemptions_promoCodeId_fkey` FOREIGN KEY (`promoCodeId`) REFERENCES `promo_codes`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `promo_redemptions` ADD CONSTRAINT `promo_redemptions_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `promo_redemptions` ADD CONSTRAINT `promo_redemptions_bookingId_fkey` FOREIGN KEY (`bookingId`) REFERENCES `bookings`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `promo_redemptions` ADD CONSTRAINT `promo_redemptions_orderId_fkey` FOREIGN KEY (`orderId`) REFERENCES `orders`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,84 @@
+-- CreateTable
+CREATE TABLE `itineraries` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `destination` VARCHAR(191) NULL,
+    `startDate` DATETIME(3) NOT NULL,
+    `endDate` DATETIME(3) NOT NULL,
+    `durationDays` INTEGER NOT NULL DEFAULT 1,
+    `travelers` INTEGER NOT NULL DEFAULT 1,
+    `budget` DECIMAL(65, 30) NULL,
+    `currency` VARCHAR(191) NOT NULL DEFAULT 'USD',
+    `status` VARCHAR(191) NOT NULL DEFAULT 'draft',
+    `travelStyle` VARCHAR(191) NULL,
+    `source` VARCHAR(191) NOT NULL DEFAULT 'MANUAL',
+    `destinations` TEXT NULL,
+    `tags` TEXT NULL,
+    `preferences` TEXT NULL,
+    `isPublic` BOOLEAN NOT NULL DEFAULT false,
+    `shareToken` VARCHAR(191) NULL,
+    `shareExpiresAt` DATETIME(3) NULL,
+    `allowComments` BOOLEAN NOT NULL DEFAULT true,
+    `allowCopy` BOOLEAN NOT NULL DEFAULT true,
+    `viewCount` INTEGER NOT NULL DEFAULT 0,
+    `copiedFromId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `itineraries_shareToken_key`(`shareToken`),
+    INDEX `itineraries_userId_updatedAt_idx`(`userId`, `updatedAt`),
+    INDEX `itineraries_isPublic_createdAt_idx`(`isPublic`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `itinerary_days` (
+    `id` VARCHAR(191) NOT NULL,
+    `itineraryId` VARCHAR(191) NOT NULL,
+    `dayNumber` INTEGER NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `title` VARCHAR(191) NULL,
+    `notes` TEXT NULL,
+
+    UNIQUE INDEX `itinerary_days_itineraryId_dayNumber_key`(`itineraryId`, `dayNumber`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `itinerary_items` (
+    `id` VARCHAR(191) NOT NULL,
+    `dayId` VARCHAR(191) NOT NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `type` VARCHAR(191) NOT NULL DEFAULT 'activity',
+    `title` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `category` VARCHAR(191) NULL,
+    `location` VARCHAR(191) NULL,
+    `address` VARCHAR(191) NULL,
+    `latitude` DOUBLE NULL,
+    `longitude` DOUBLE NULL,
+    `startTime` VARCHAR(191) NULL,
+    `endTime` VARCHAR(191) NULL,
+    `duration` INTEGER NOT NULL DEFAULT 0,
+    `cost` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+    `currency` VARCHAR(191) NOT NULL DEFAULT 'USD',
+    `notes` TEXT NULL,
+    `priority` VARCHAR(191) NOT NULL DEFAULT 'medium',
+    `bookingStatus` VARCHAR(191) NOT NULL DEFAULT 'pending',
+    `bookingReference` VARCHAR(191) NULL,
+    `tourId` VARCHAR(191) NULL,
+
+    INDEX `itinerary_items_dayId_position_idx`(`dayId`, `position`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `itineraries` ADD CONSTRAINT `itineraries_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `itinerary_days` ADD CONSTRAINT `itinerary_days_itineraryId_fkey` FOREIGN KEY (`itineraryId`) REFERENCES `itineraries`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `itinerary_items` ADD CONSTRAINT `itinerary_items_dayId_fkey` FOREIGN KEY (`dayId`) REFERENCES `itinerary_days`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `itinerary_collaborators` (
+    `id` VARCHAR(191) NOT NULL,
+    `itineraryId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `role` VARCHAR(191) NOT NULL DEFAULT 'viewer',
+    `invitedById` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `itinerary_collaborators_userId_idx`(`userId`),
+    UNIQUE INDEX `itinerary_collaborators_itineraryId_userId_key`(`itineraryId`, `userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `itinerary_collaborators` ADD CONSTRAINT `itinerary_collaborators_itineraryId_fkey` FOREIGN KEY (`itineraryId`) REFERENCES `itineraries`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `itinerary_collaborators` ADD CONSTRAINT `itinerary_collaborators_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
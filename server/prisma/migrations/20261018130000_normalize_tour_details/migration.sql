@@ -0,0 +1,255 @@
+-- CreateTable
+CREATE TABLE `tour_images` (
+    `id` VARCHAR(191) NOT NULL,
+    `tourId` VARCHAR(191) NOT NULL,
+    `url` VARCHAR(1024) NOT NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `tour_images_tourId_position_idx`(`tourId`, `position`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `tour_stops` (
+    `id` VARCHAR(191) NOT NULL,
+    `tourId` VARCHAR(191) NOT NULL,
+    `isStart` BOOLEAN NOT NULL DEFAULT false,
+    `name` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `address` VARCHAR(191) NULL,
+    `latitude` DOUBLE NULL,
+    `longitude` DOUBLE NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `tour_stops_tourId_position_idx`(`tourId`, `position`),
+    INDEX `tour_stops_isStart_latitude_longitude_idx`(`isStart`, `latitude`, `longitude`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `tour_days` (
+    `id` VARCHAR(191) NOT NULL,
+    `tourId` VARCHAR(191) NOT NULL,
+    `dayNumber` INTEGER NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `description` TEXT NOT NULL,
+    `activities` JSON NOT NULL,
+    `meals` JSON NOT NULL,
+    `accommodation` VARCHAR(191) NULL,
+
+    UNIQUE INDEX `tour_days_tourId_dayNumber_key`(`tourId`, `dayNumber`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `tour_inclusions` (
+    `id` VARCHAR(191) NOT NULL,
+    `tourId` VARCHAR(191) NOT NULL,
+    `item` VARCHAR(191) NOT NULL,
+    `included` BOOLEAN NOT NULL DEFAULT true,
+    `position` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `tour_inclusions_tourId_included_position_idx`(`tourId`, `included`, `position`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `tour_tags` (
+    `tourId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(100) NOT NULL,
+
+    INDEX `tour_tags_name_idx`(`name`),
+    PRIMARY KEY (`tourId`, `name`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `booking_participants` (
+    `id` VARCHAR(191) NOT NULL,
+    `bookingId` VARCHAR(191) NOT NULL,
+    `firstName` VARCHAR(191) NOT NULL,
+    `lastName` VARCHAR(191) NOT NULL,
+    `email` VARCHAR(191) NULL,
+    `phone` VARCHAR(191) NULL,
+    `age` INTEGER NULL,
+    `passportNumber` VARCHAR(191) NULL,
+    `nationality` VARCHAR(191) NULL,
+    `dietaryRequirements` TEXT NULL,
+    `medicalConditions` TEXT NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `booking_participants_bookingId_idx`(`bookingId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `review_images` (
+    `id` VARCHAR(191) NOT NULL,
+    `reviewId` VARCHAR(191) NOT NULL,
+    `url` VARCHAR(1024) NOT NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `review_images_reviewId_position_idx`(`reviewId`, `position`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Convert the JSON text columns into rows. Invalid or missing JSON converts to nothing.
+
+-- Tour images: ["url", ...]
+INSERT INTO `tour_images` (`id`, `tourId`, `url`, `position`)
+SELECT UUID(), t.`id`, j.`url`, j.`ord` - 1
+FROM `tours` t,
+     JSON_TABLE(IF(JSON_VALID(t.`images`), t.`images`, '[]'), '$[*]' COLUMNS (
+         `ord` FOR ORDINALITY,
+         `url` VARCHAR(1024) PATH '$' NULL ON ERROR
+     )) j
+WHERE j.`url` IS NOT NULL AND j.`url` <> '';
+
+-- Start location: { name | description, address, coordinates: [lat, lng] }
+INSERT INTO `tour_stops` (`id`, `tourId`, `isStart`, `name`, `description`, `address`, `latitude`, `longitude`, `position`)
+SELECT UUID(), t.`id`, true,
+       LEFT(COALESCE(j.`name`, j.`description`, j.`address`, 'Meeting point'), 191),
+       j.`description`, LEFT(j.`address`, 191), j.`latitude`, j.`longitude`, 0
+FROM `tours` t,
+     JSON_TABLE(IF(JSON_VALID(t.`startLocation`), t.`startLocation`, '[]'), '$' COLUMNS (
+         `name` VARCHAR(191) PATH '$.name' NULL ON ERROR,
+         `description` TEXT PATH '$.description' NULL ON ERROR,
+         `address` VARCHAR(191) PATH '$.address' NULL ON ERROR,
+         `latitude` DOUBLE PATH '$.coordinates[0]' NULL ON ERROR,
+         `longitude` DOUBLE PATH '$.coordinates[1]' NULL ON ERROR
+     )) j
+WHERE JSON_TYPE(t.`startLocation`) = 'OBJECT';
+
+-- Visited locations: [{ name, description, coordinates: [lat, lng] }, ...]
+INSERT INTO `tour_stops` (`id`, `tourId`, `isStart`, `name`, `description`, `latitude`, `longitude`, `position`)
+SELECT UUID(), t.`id`, false, LEFT(j.`name`, 191), j.`description`, j.`latitude`, j.`longitude`, j.`ord`
+FROM `tours` t,
+     JSON_TABLE(IF(JSON_VALID(t.`locations`), t.`locations`, '[]'), '$[*]' COLUMNS (
+         `ord` FOR ORDINALITY,
+         `name` VARCHAR(191) PATH '$.name' NULL ON ERROR,
+         `description` TEXT PATH '$.description' NULL ON ERROR,
+         `latitude` DOUBLE PATH '$.coordinates[0]' NULL ON ERROR,
+         `longitude` DOUBLE PATH '$.coordinates[1]' NULL ON ERROR
+     )) j
+WHERE j.`name` IS NOT NULL AND j.`name` <> '';
+
+-- Itinerary: [{ day, title, description, activities, meals, accommodation }, ...]
+INSERT INTO `tour_days` (`id`, `tourId`, `dayNumber`, `title`, `description`, `activities`, `meals`, `accommodation`)
+SELECT UUID(), t.`id`, COALESCE(j.`day`, j.`ord`),
+       LEFT(COALESCE(j.`title`, CONCAT('Day ', COALESCE(j.`day`, j.`ord`))), 191),
+       COALESCE(j.`description`, ''),
+       IF(JSON_TYPE(j.`activities`) = 'ARRAY', j.`activities`, JSON_ARRAY()),
+       IF(JSON_TYPE(j.`meals`) = 'ARRAY', j.`meals`, JSON_ARRAY()),
+       LEFT(j.`accommodation`, 191)
+FROM `tours` t,
+     JSON_TABLE(IF(JSON_VALID(t.`itinerary`), t.`itinerary`, '[]'), '$[*]' COLUMNS (
+         `ord` FOR ORDINALITY,
+         `day` INTEGER PATH '$.day' NULL ON ERROR,
+         `title` VARCHAR(191) PATH '$.title' NULL ON ERROR,
+         `description` TEXT PATH '$.description' NULL ON ERROR,
+         `activities` JSON PATH '$.activities' NULL ON ERROR,
+         `meals` JSON PATH '$.meals' NULL ON ERROR,
+         `accommodation` VARCHAR(191) PATH '$.accommodation' NULL ON ERROR
+     )) j;
+
+-- Included and excluded items: ["item", ...]
+INSERT INTO `tour_inclusions` (`id`, `tourId`, `item`, `included`, `position`)
+SELECT UUID(), t.`id`, LEFT(j.`item`, 191), true, j.`ord` - 1
+FROM `tours` t,
+     JSON_TABLE(IF(JSON_VALID(t.`included`), t.`included`, '[]'), '$[*]' COLUMNS (
+         `ord` FOR ORDINALITY,
+         `item` TEXT PATH '$' NULL ON ERROR
+     )) j
+WHERE j.`item` IS NOT NULL AND j.`item` <> '';
+
+INSERT INTO `tour_inclusions` (`id`, `tourId`, `item`, `included`, `position`)
+SELECT UUID(), t.`id`, LEFT(j.`item`, 191), false, j.`ord` - 1
+FROM `tours` t,
+     JSON_TABLE(IF(JSON_VALID(t.`excluded`), t.`excluded`, '[]'), '$[*]' COLUMNS (
+         `ord` FOR ORDINALITY,
+         `item` TEXT PATH '$' NULL ON ERROR
+     )) j
+WHERE j.`item` IS NOT NULL AND j.`item` <> '';
+
+-- Tags: ["tag", ...], once per tour whatever the case
+INSERT INTO `tour_tags` (`tourId`, `name`)
+SELECT t.`id`, MIN(LEFT(TRIM(j.`name`), 100))
+FROM `tours` t,
+     JSON_TABLE(IF(JSON_VALID(t.`tags`), t.`tags`, '[]'), '$[*]' COLUMNS (
+         `name` VARCHAR(191) PATH '$' NULL ON ERROR
+     )) j
+WHERE j.`name` IS NOT NULL AND TRIM(j.`name`) <> ''
+GROUP BY t.`id`, LOWER(LEFT(TRIM(j.`name`), 100));
+
+-- Booking participants: [{ firstName, lastName } or { name }, email, phone, age, passportNumber | passport, ... ]
+INSERT INTO `booking_participants` (
+    `id`, `bookingId`, `firstName`, `lastName`, `email`, `phone`, `age`, `passportNumber`,
+    `nationality`, `dietaryRequirements`, `medicalConditions`, `position`
+)
+SELECT UUID(), b.`id`,
+       COALESCE(j.`firstName`, NULLIF(SUBSTRING_INDEX(TRIM(j.`name`), ' ', 1), ''), 'Guest'),
+       COALESCE(j.`lastName`, TRIM(SUBSTRING(TRIM(j.`name`), CHAR_LENGTH(SUBSTRING_INDEX(TRIM(j.`name`), ' ', 1)) + 1)), ''),
+       j.`email`, j.`phone`, j.`age`, COALESCE(j.`passportNumber`, j.`passport`),
+       j.`nationality`, j.`dietaryRequirements`, j.`medicalConditions`, j.`ord` - 1
+FROM `bookings` b,
+     JSON_TABLE(IF(JSON_VALID(b.`participants`), b.`participants`, '[]'), '$[*]' COLUMNS (
+         `ord` FOR ORDINALITY,
+         `firstName` VARCHAR(191) PATH '$.firstName' NULL ON ERROR,
+         `lastName` VARCHAR(191) PATH '$.lastName' NULL ON ERROR,
+         `name` VARCHAR(191) PATH '$.name' NULL ON ERROR,
+         `email` VARCHAR(191) PATH '$.email' NULL ON ERROR,
+         `phone` VARCHAR(191) PATH '$.phone' NULL ON ERROR,
+         `age` INTEGER PATH '$.age' NULL ON ERROR,
+         `passportNumber` VARCHAR(191) PATH '$.passportNumber' NULL ON ERROR,
+         `passport` VARCHAR(191) PATH '$.passport' NULL ON ERROR,
+         `nationality` VARCHAR(191) PATH '$.nationality' NULL ON ERROR,
+         `dietaryRequirements` TEXT PATH '$.dietaryRequirements' NULL ON ERROR,
+         `medicalConditions` TEXT PATH '$.medicalConditions' NULL ON ERROR
+     )) j;
+
+-- Review images: ["url", ...]
+INSERT INTO `review_images` (`id`, `reviewId`, `url`, `position`)
+SELECT UUID(), r.`id`, j.`url`, j.`ord` - 1
+FROM `reviews` r,
+     JSON_TABLE(IF(JSON_VALID(r.`images`), r.`images`, '[]'), '$[*]' COLUMNS (
+         `ord` FOR ORDINALITY,
+         `url` VARCHAR(1024) PATH '$' NULL ON ERROR
+     )) j
+WHERE j.`url` IS NOT NULL AND j.`url` <> '';
+
+-- AlterTable
+ALTER TABLE `tours` DROP COLUMN `images`,
+    DROP COLUMN `startLocation`,
+    DROP COLUMN `locations`,
+    DROP COLUMN `included`,
+    DROP COLUMN `excluded`,
+    DROP COLUMN `itinerary`,
+    DROP COLUMN `tags`;
+
+-- AlterTable
+ALTER TABLE `bookings` DROP COLUMN `participants`;
+
+-- AlterTable
+ALTER TABLE `reviews` DROP COLUMN `images`;
+
+-- AddForeignKey
+ALTER TABLE `tour_images` ADD CONSTRAINT `tour_images_tourId_fkey` FOREIGN KEY (`tourId`) REFERENCES `tours`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `tour_stops` ADD CONSTRAINT `tour_stops_tourId_fkey` FOREIGN KEY (`tourId`) REFERENCES `tours`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `tour_days` ADD CONSTRAINT `tour_days_tourId_fkey` FOREIGN KEY (`tourId`) REFERENCES `tours`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `tour_inclusions` ADD CONSTRAINT `tour_inclusions_tourId_fkey` FOREIGN KEY (`tourId`) REFERENCES `tours`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `tour_tags` ADD CONSTRAINT `tour_tags_tourId_fkey` FOREIGN KEY (`tourId`) REFERENCES `tours`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `booking_participants` ADD CONSTRAINT `booking_participants_bookingId_fkey` FOREIGN KEY (`bookingId`) REFERENCES `bookings`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `review_images` ADD CONSTRAINT `review_images_reviewId_fkey` FOREIGN KEY (`reviewId`) REFERENCES `reviews`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
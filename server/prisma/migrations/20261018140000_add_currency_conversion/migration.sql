@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `preferredCurrency` VARCHAR(3) NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE `tours` ADD COLUMN `currency` VARCHAR(3) NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE `bookings` ADD COLUMN `currency` VARCHAR(3) NOT NULL DEFAULT 'USD',
+    ADD COLUMN `quoteCurrency` VARCHAR(3) NULL,
+    ADD COLUMN `quoteAmount` DECIMAL(12, 2) NULL,
+    ADD COLUMN `quoteRate` DECIMAL(18, 8) NULL,
+    ADD COLUMN `quoteRateSource` VARCHAR(191) NULL,
+    ADD COLUMN `quoteRateFetchedAt` DATETIME(3) NULL,
+    ADD COLUMN `quoteLockedAt` DATETIME(3) NULL,
+    ADD COLUMN `quoteExpiresAt` DATETIME(3) NULL;
+
+-- AlterTable
+ALTER TABLE `payments` ADD COLUMN `baseAmount` DECIMAL(12, 2) NULL,
+    ADD COLUMN `baseCurrency` VARCHAR(3) NULL,
+    ADD COLUMN `exchangeRate` DECIMAL(18, 8) NULL,
+    ADD COLUMN `rateSource` VARCHAR(191) NULL,
+    ADD COLUMN `rateFetchedAt` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `exchange_rates` (
+    `id` VARCHAR(191) NOT NULL,
+    `baseCurrency` VARCHAR(3) NOT NULL,
+    `quoteCurrency` VARCHAR(3) NOT NULL,
+    `rate` DECIMAL(18, 8) NOT NULL,
+    `source` VARCHAR(191) NOT NULL,
+    `fetchedAt` DATETIME(3) NOT NULL,
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `exchange_rates_baseCurrency_quoteCurrency_key`(`baseCurrency`, `quoteCurrency`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,86 @@
+-- CreateTable
+CREATE TABLE `notifications` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `content` TEXT NOT NULL,
+    `data` JSON NULL,
+    `channels` JSON NOT NULL,
+    `priority` VARCHAR(191) NOT NULL DEFAULT 'NORMAL',
+    `status` VARCHAR(191) NOT NULL DEFAULT 'PENDING',
+    `readAt` DATETIME(3) NULL,
+    `scheduledAt` DATETIME(3) NULL,
+    `expiresAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `notifications_userId_status_idx`(`userId`, `status`),
+    INDEX `notifications_userId_createdAt_idx`(`userId`, `createdAt`),
+    INDEX `notifications_scheduledAt_idx`(`scheduledAt`),
+    INDEX `notifications_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `notification_preferences` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `channels` JSON NOT NULL,
+    `quietHours` JSON NULL,
+    `frequency` VARCHAR(191) NOT NULL DEFAULT 'immediate',
+    `language` VARCHAR(191) NOT NULL DEFAULT 'en',
+    `timezone` VARCHAR(191) NOT NULL DEFAULT 'UTC',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `notification_preferences_userId_key`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `device_registrations` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `deviceToken` VARCHAR(191) NOT NULL,
+    `platform` VARCHAR(191) NOT NULL,
+    `appVersion` VARCHAR(191) NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `lastUsed` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `device_registrations_deviceToken_key`(`deviceToken`),
+    INDEX `device_registrations_userId_isActive_idx`(`userId`, `isActive`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `notification_templates` (
+    `id` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `locale` VARCHAR(191) NOT NULL DEFAULT 'en',
+    `title` VARCHAR(191) NOT NULL,
+    `content` TEXT NOT NULL,
+    `emailSubject` VARCHAR(191) NULL,
+    `pushTitle` VARCHAR(191) NULL,
+    `pushBody` TEXT NULL,
+    `variables` JSON NULL,
+    `version` INTEGER NOT NULL DEFAULT 1,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `notification_templates_type_locale_version_key`(`type`, `locale`, `version`),
+    INDEX `notification_templates_type_locale_isActive_idx`(`type`, `locale`, `isActive`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `notifications` ADD CONSTRAINT `notifications_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `notification_preferences` ADD CONSTRAINT `notification_preferences_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `device_registrations` ADD CONSTRAINT `device_registrations_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
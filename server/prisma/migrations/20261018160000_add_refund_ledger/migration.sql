@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE `payments` ADD COLUMN `refundedAmount` DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE `refunds` (
+    `id` VARCHAR(191) NOT NULL,
+    `paymentId` VARCHAR(191) NOT NULL,
+    `amount` DECIMAL(12, 2) NOT NULL,
+    `currency` VARCHAR(3) NOT NULL,
+    `reason` TEXT NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'PENDING',
+    `gatewayRefundId` VARCHAR(191) NULL,
+    `failureReason` TEXT NULL,
+    `requestedById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `refunds_paymentId_idx`(`paymentId`),
+    INDEX `refunds_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Existing refunded payments were refunded in full
+UPDATE `payments` SET `refundedAmount` = `amount` WHERE `status` = 'REFUNDED';
+
+-- AddForeignKey
+ALTER TABLE `refunds` ADD CONSTRAINT `refunds_paymentId_fkey` FOREIGN KEY (`paymentId`) REFERENCES `payments`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `refunds` ADD CONSTRAINT `refunds_requestedById_fkey` FOREIGN KEY (`requestedById`) REFERENCES `users`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE `cancellation_policies` (
+    `id` VARCHAR(191) NOT NULL,
+    `tourId` VARCHAR(191) NOT NULL,
+    `depositPercent` DECIMAL(5, 2) NOT NULL DEFAULT 0,
+    `notes` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `cancellation_policies_tourId_key`(`tourId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `cancellation_policy_tiers` (
+    `id` VARCHAR(191) NOT NULL,
+    `policyId` VARCHAR(191) NOT NULL,
+    `minHoursBefore` INTEGER NOT NULL,
+    `refundPercent` DECIMAL(5, 2) NOT NULL,
+
+    UNIQUE INDEX `cancellation_policy_tiers_policyId_minHoursBefore_key`(`policyId`, `minHoursBefore`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `cancellation_policies` ADD CONSTRAINT `cancellation_policies_tourId_fkey` FOREIGN KEY (`tourId`) REFERENCES `tours`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `cancellation_policy_tiers` ADD CONSTRAINT `cancellation_policy_tiers_policyId_fkey` FOREIGN KEY (`policyId`) REFERENCES `cancellation_policies`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
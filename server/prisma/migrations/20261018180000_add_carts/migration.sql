@@ -0,0 +1,172 @@
+-- Marketplace tables, dropped by add_token_tables while the product and order services still use them
+
+-- CreateTable
+CREATE TABLE `vendor_profiles` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `businessName` VARCHAR(191) NOT NULL,
+    `description` TEXT NOT NULL,
+    `logo` VARCHAR(191) NULL,
+    `banner` VARCHAR(191) NULL,
+    `address` VARCHAR(191) NOT NULL,
+    `phone` VARCHAR(191) NOT NULL,
+    `website` VARCHAR(191) NULL,
+    `businessLicense` VARCHAR(191) NULL,
+    `taxId` VARCHAR(191) NULL,
+    `isVerified` BOOLEAN NOT NULL DEFAULT false,
+    `rating` DECIMAL(3, 2) NULL,
+    `totalReviews` INTEGER NOT NULL DEFAULT 0,
+    `totalSales` INTEGER NOT NULL DEFAULT 0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `vendor_profiles_userId_key`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `categories` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `slug` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `image` VARCHAR(191) NULL,
+    `parentId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `categories_name_key`(`name`),
+    UNIQUE INDEX `categories_slug_key`(`slug`),
+    INDEX `categories_parentId_idx`(`parentId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `products` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `slug` VARCHAR(191) NOT NULL,
+    `description` TEXT NOT NULL,
+    `shortDescription` VARCHAR(500) NULL,
+    `images` JSON NOT NULL,
+    `price` DECIMAL(10, 2) NOT NULL,
+    `discountPrice` DECIMAL(10, 2) NULL,
+    `stock` INTEGER NOT NULL DEFAULT 0,
+    `sku` VARCHAR(191) NULL,
+    `weight` DECIMAL(8, 2) NULL,
+    `dimensions` JSON NULL,
+    `materials` JSON NULL,
+    `colors` JSON NULL,
+    `sizes` JSON NULL,
+    `status` ENUM('DRAFT', 'PUBLISHED', 'ARCHIVED') NOT NULL DEFAULT 'DRAFT',
+    `featured` BOOLEAN NOT NULL DEFAULT false,
+    `metaTitle` VARCHAR(191) NULL,
+    `metaDescription` VARCHAR(191) NULL,
+    `vendorId` VARCHAR(191) NOT NULL,
+    `categoryId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `products_slug_key`(`slug`),
+    UNIQUE INDEX `products_sku_key`(`sku`),
+    INDEX `products_vendorId_idx`(`vendorId`),
+    INDEX `products_categoryId_idx`(`categoryId`),
+    INDEX `products_status_featured_idx`(`status`, `featured`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `order_items` (
+    `id` VARCHAR(191) NOT NULL,
+    `orderId` VARCHAR(191) NOT NULL,
+    `productId` VARCHAR(191) NOT NULL,
+    `quantity` INTEGER NOT NULL,
+    `price` DECIMAL(10, 2) NOT NULL,
+    `total` DECIMAL(10, 2) NOT NULL,
+    `variant` JSON NULL,
+
+    INDEX `order_items_orderId_idx`(`orderId`),
+    INDEX `order_items_productId_idx`(`productId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `reviews` ADD COLUMN `productId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `reviews_productId_idx` ON `reviews`(`productId`);
+
+-- CreateTable
+CREATE TABLE `carts` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NULL,
+    `guestToken` VARCHAR(64) NULL,
+    `promoCode` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `carts_userId_key`(`userId`),
+    UNIQUE INDEX `carts_guestToken_key`(`guestToken`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `cart_items` (
+    `id` VARCHAR(191) NOT NULL,
+    `cartId` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `tourId` VARCHAR(191) NULL,
+    `departureId` VARCHAR(191) NULL,
+    `startDate` DATETIME(3) NULL,
+    `adults` INTEGER NOT NULL DEFAULT 0,
+    `children` INTEGER NOT NULL DEFAULT 0,
+    `addOns` TEXT NULL,
+    `specialRequests` TEXT NULL,
+    `productId` VARCHAR(191) NULL,
+    `quantity` INTEGER NOT NULL DEFAULT 1,
+    `variant` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `cart_items_cartId_idx`(`cartId`),
+    INDEX `cart_items_tourId_idx`(`tourId`),
+    INDEX `cart_items_departureId_idx`(`departureId`),
+    INDEX `cart_items_productId_idx`(`productId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `carts` ADD CONSTRAINT `carts_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `cart_items` ADD CONSTRAINT `cart_items_cartId_fkey` FOREIGN KEY (`cartId`) REFERENCES `carts`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `cart_items` ADD CONSTRAINT `cart_items_tourId_fkey` FOREIGN KEY (`tourId`) REFERENCES `tours`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `cart_items` ADD CONSTRAINT `cart_items_departureId_fkey` FOREIGN KEY (`departureId`) REFERENCES `tour_departures`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `cart_items` ADD CONSTRAINT `cart_items_productId_fkey` FOREIGN KEY (`productId`) REFERENCES `products`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `vendor_profiles` ADD CONSTRAINT `vendor_profiles_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `categories` ADD CONSTRAINT `categories_parentId_fkey` FOREIGN KEY (`parentId`) REFERENCES `categories`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `products` ADD CONSTRAINT `products_vendorId_fkey` FOREIGN KEY (`vendorId`) REFERENCES `vendor_profiles`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `products` ADD CONSTRAINT `products_categoryId_fkey` FOREIGN KEY (`categoryId`) REFERENCES `categories`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `order_items` ADD CONSTRAINT `order_items_orderId_fkey` FOREIGN KEY (`orderId`) REFERENCES `orders`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `reviews` ADD CONSTRAINT `reviews_productId_fkey` FOREIGN KEY (`productId`) REFERENCES `products`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `order_items` ADD CONSTRAINT `order_items_productId_fkey` FOREIGN KEY (`productId`) REFERENCES `products`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,75 @@
+-- AlterTable
+ALTER TABLE `bookings` ADD COLUMN `checkoutSessionId` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `orders` ADD COLUMN `checkoutSessionId` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `payments` ADD COLUMN `checkoutSessionId` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `checkout_sessions` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'PENDING',
+    `currency` VARCHAR(3) NOT NULL,
+    `subtotal` DECIMAL(12, 2) NOT NULL,
+    `discount` DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    `tax` DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    `shipping` DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    `total` DECIMAL(12, 2) NOT NULL,
+    `promoCode` VARCHAR(191) NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `checkout_sessions_userId_idx`(`userId`),
+    INDEX `checkout_sessions_status_expiresAt_idx`(`status`, `expiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `payment_allocations` (
+    `id` VARCHAR(191) NOT NULL,
+    `paymentId` VARCHAR(191) NOT NULL,
+    `bookingId` VARCHAR(191) NULL,
+    `orderId` VARCHAR(191) NULL,
+    `amount` DECIMAL(12, 2) NOT NULL,
+    `refundedAmount` DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `payment_allocations_paymentId_idx`(`paymentId`),
+    INDEX `payment_allocations_bookingId_idx`(`bookingId`),
+    INDEX `payment_allocations_orderId_idx`(`orderId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `bookings_checkoutSessionId_idx` ON `bookings`(`checkoutSessionId`);
+
+-- CreateIndex
+CREATE UNIQUE INDEX `orders_checkoutSessionId_key` ON `orders`(`checkoutSessionId`);
+
+-- CreateIndex
+CREATE INDEX `payments_checkoutSessionId_idx` ON `payments`(`checkoutSessionId`);
+
+-- AddForeignKey
+ALTER TABLE `bookings` ADD CONSTRAINT `bookings_checkoutSessionId_fkey` FOREIGN KEY (`checkoutSessionId`) REFERENCES `checkout_sessions`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `orders` ADD CONSTRAINT `orders_checkoutSessionId_fkey` FOREIGN KEY (`checkoutSessionId`) REFERENCES `checkout_sessions`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `payments` ADD CONSTRAINT `payments_checkoutSessionId_fkey` FOREIGN KEY (`checkoutSessionId`) REFERENCES `checkout_sessions`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `checkout_sessions` ADD CONSTRAINT `checkout_sessions_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `payment_allocations` ADD CONSTRAINT `payment_allocations_paymentId_fkey` FOREIGN KEY (`paymentId`) REFERENCES `payments`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `payment_allocations` ADD CONSTRAINT `payment_allocations_bookingId_fkey` FOREIGN KEY (`bookingId`) REFERENCES `bookings`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `payment_allocations` ADD CONSTRAINT `payment_allocations_orderId_fkey` FOREIGN KEY (`orderId`) REFERENCES `orders`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `device_registrations` MODIFY `deviceToken` VARCHAR(500) NOT NULL,
+    ADD COLUMN `p256dh` VARCHAR(255) NULL,
+    ADD COLUMN `auth` VARCHAR(255) NULL;
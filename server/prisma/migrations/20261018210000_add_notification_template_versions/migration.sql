@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `notification_templates` ADD COLUMN `emailHtml` TEXT NULL,
+    ADD COLUMN `smsText` TEXT NULL,
+    ADD COLUMN `createdById` VARCHAR(191) NULL,
+    ADD COLUMN `changeNote` VARCHAR(500) NULL;
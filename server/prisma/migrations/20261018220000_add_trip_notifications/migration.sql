@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE `trip_notifications` (
+    `id` VARCHAR(191) NOT NULL,
+    `bookingId` VARCHAR(191) NOT NULL,
+    `kind` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'PENDING',
+    `scheduledFor` DATETIME(3) NOT NULL,
+    `nextAttemptAt` DATETIME(3) NOT NULL,
+    `sentAt` DATETIME(3) NULL,
+    `notificationId` VARCHAR(191) NULL,
+    `reason` VARCHAR(255) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `trip_notifications_bookingId_kind_key`(`bookingId`, `kind`),
+    INDEX `trip_notifications_status_nextAttemptAt_idx`(`status`, `nextAttemptAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `trip_notifications` ADD CONSTRAINT `trip_notifications_bookingId_fkey` FOREIGN KEY (`bookingId`) REFERENCES `bookings`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,79 @@
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `nationality` VARCHAR(100) NULL,
+    ADD COLUMN `lastActiveAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `users_lastActiveAt_idx` ON `users`(`lastActiveAt`);
+
+-- CreateTable
+CREATE TABLE `wishlist_items` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `tourId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `wishlist_items_userId_tourId_key`(`userId`, `tourId`),
+    INDEX `wishlist_items_tourId_idx`(`tourId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `campaigns` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL DEFAULT 'PROMOTIONAL',
+    `title` VARCHAR(191) NOT NULL,
+    `content` TEXT NOT NULL,
+    `url` VARCHAR(1024) NULL,
+    `channels` JSON NOT NULL,
+    `priority` VARCHAR(191) NOT NULL DEFAULT 'NORMAL',
+    `segment` JSON NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'DRAFT',
+    `scheduledAt` DATETIME(3) NULL,
+    `throttlePerMinute` INTEGER NULL,
+    `audienceSize` INTEGER NULL,
+    `startedAt` DATETIME(3) NULL,
+    `completedAt` DATETIME(3) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `campaigns_status_scheduledAt_idx`(`status`, `scheduledAt`),
+    INDEX `campaigns_createdById_idx`(`createdById`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `campaign_recipients` (
+    `id` VARCHAR(191) NOT NULL,
+    `campaignId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'PENDING',
+    `notificationId` VARCHAR(191) NULL,
+    `error` VARCHAR(500) NULL,
+    `sentAt` DATETIME(3) NULL,
+    `openedAt` DATETIME(3) NULL,
+    `clickedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `campaign_recipients_campaignId_userId_key`(`campaignId`, `userId`),
+    INDEX `campaign_recipients_campaignId_status_idx`(`campaignId`, `status`),
+    INDEX `campaign_recipients_userId_idx`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `wishlist_items` ADD CONSTRAINT `wishlist_items_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `wishlist_items` ADD CONSTRAINT `wishlist_items_tourId_fkey` FOREIGN KEY (`tourId`) REFERENCES `tours`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `campaigns` ADD CONSTRAINT `campaigns_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `campaign_recipients` ADD CONSTRAINT `campaign_recipients_campaignId_fkey` FOREIGN KEY (`campaignId`) REFERENCES `campaigns`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `campaign_recipients` ADD CONSTRAINT `campaign_recipients_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE `email_outbox` (
+    `id` VARCHAR(191) NOT NULL,
+    `to` VARCHAR(191) NOT NULL,
+    `subject` VARCHAR(500) NOT NULL,
+    `html` MEDIUMTEXT NOT NULL,
+    `text` TEXT NULL,
+    `attachments` JSON NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'PENDING',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `nextAttemptAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `lockedUntil` DATETIME(3) NULL,
+    `lastError` VARCHAR(1000) NULL,
+    `messageId` VARCHAR(191) NULL,
+    `sentAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `email_outbox_status_nextAttemptAt_idx`(`status`, `nextAttemptAt`),
+    INDEX `email_outbox_to_idx`(`to`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `email_suppressions` (
+    `id` VARCHAR(191) NOT NULL,
+    `email` VARCHAR(191) NOT NULL,
+    `reason` VARCHAR(191) NOT NULL,
+    `provider` VARCHAR(191) NULL,
+    `detail` VARCHAR(1000) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `email_suppressions_email_key`(`email`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
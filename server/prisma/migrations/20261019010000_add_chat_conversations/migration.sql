@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE `chat_conversations` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(200) NOT NULL,
+    `language` VARCHAR(191) NOT NULL DEFAULT 'en',
+    `archived` BOOLEAN NOT NULL DEFAULT false,
+    `lastMessageAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `chat_conversations_userId_archived_updatedAt_idx`(`userId`, `archived`, `updatedAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `chat_messages` ADD COLUMN `conversationId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `chat_messages_conversationId_createdAt_idx` ON `chat_messages`(`conversationId`, `createdAt`);
+
+-- AddForeignKey
+ALTER TABLE `chat_conversations` ADD CONSTRAINT `chat_conversations_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `chat_messages` ADD CONSTRAINT `chat_messages_conversationId_fkey` FOREIGN KEY (`conversationId`) REFERENCES `chat_conversations`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Drop the user-only copies of messages, which were also stored with their response
+DELETE `m` FROM `chat_messages` AS `m`
+JOIN `chat_messages` AS `r`
+  ON `r`.`userId` = `m`.`userId`
+ AND `r`.`message` = `m`.`message`
+ AND `r`.`response` IS NOT NULL
+ AND `r`.`createdAt` >= `m`.`createdAt`
+WHERE `m`.`response` IS NULL;
+
+-- Keep signed-in users' earlier messages as one conversation each
+INSERT INTO `chat_conversations` (`id`, `userId`, `title`, `language`, `lastMessageAt`, `createdAt`, `updatedAt`)
+SELECT UUID(), `userId`, 'Earlier messages', 'en', MAX(`createdAt`), MIN(`createdAt`), MAX(`createdAt`)
+FROM `chat_messages`
+WHERE `userId` IS NOT NULL
+GROUP BY `userId`;
+
+UPDATE `chat_messages` AS `m`
+JOIN `chat_conversations` AS `c` ON `c`.`userId` = `m`.`userId`
+SET `m`.`conversationId` = `c`.`id`
+WHERE `m`.`userId` IS NOT NULL;
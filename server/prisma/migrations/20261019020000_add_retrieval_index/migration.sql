@@ -0,0 +1,47 @@
+-- Restore cultural content, which the token tables migration dropped while it was still in use
+CREATE TABLE IF NOT EXISTS `cultural_content` (
+    `id` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `slug` VARCHAR(191) NOT NULL,
+    `content` LONGTEXT NOT NULL,
+    `excerpt` TEXT NULL,
+    `images` JSON NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `category` VARCHAR(191) NOT NULL,
+    `tags` JSON NULL,
+    `language` VARCHAR(191) NOT NULL DEFAULT 'en',
+    `status` ENUM('DRAFT', 'PUBLISHED', 'ARCHIVED') NOT NULL DEFAULT 'DRAFT',
+    `featured` BOOLEAN NOT NULL DEFAULT false,
+    `metaTitle` VARCHAR(191) NULL,
+    `metaDescription` VARCHAR(191) NULL,
+    `authorId` VARCHAR(191) NULL,
+    `authorName` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `cultural_content_slug_key`(`slug`),
+    INDEX `cultural_content_type_category_idx`(`type`, `category`),
+    INDEX `cultural_content_status_featured_idx`(`status`, `featured`),
+    INDEX `cultural_content_slug_idx`(`slug`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `retrieval_chunks` (
+    `id` VARCHAR(191) NOT NULL,
+    `sourceType` VARCHAR(20) NOT NULL,
+    `sourceId` VARCHAR(191) NOT NULL,
+    `position` INTEGER NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `url` VARCHAR(500) NOT NULL,
+    `language` VARCHAR(191) NOT NULL DEFAULT 'en',
+    `content` TEXT NOT NULL,
+    `sourceHash` VARCHAR(64) NOT NULL,
+    `embeddingProvider` VARCHAR(100) NOT NULL,
+    `embedding` JSON NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `retrieval_chunks_sourceType_sourceId_position_key`(`sourceType`, `sourceId`, `position`),
+    INDEX `retrieval_chunks_embeddingProvider_idx`(`embeddingProvider`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
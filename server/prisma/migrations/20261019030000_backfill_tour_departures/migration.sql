@@ -0,0 +1,59 @@
+-- Departures for the dates existing bookings were made on, so they keep holding their seats.
+-- Capacity is the tour's group size, or the seats already sold on that date if more.
+INSERT INTO `tour_departures` (`id`, `tourId`, `startDate`, `endDate`, `capacity`, `seatsBooked`, `status`, `createdAt`, `updatedAt`)
+SELECT
+    UUID(),
+    b.`tourId`,
+    b.`startDate`,
+    MAX(b.`endDate`),
+    GREATEST(t.`maxGroupSize`, SUM(CASE WHEN b.`status` IN ('PENDING', 'CONFIRMED') THEN b.`adults` + b.`children` ELSE 0 END)),
+    0,
+    CASE WHEN b.`startDate` > CURRENT_TIMESTAMP(3) THEN 'OPEN' ELSE 'CLOSED' END,
+    CURRENT_TIMESTAMP(3),
+    CURRENT_TIMESTAMP(3)
+FROM `bookings` b
+INNER JOIN `tours` t ON t.`id` = b.`tourId`
+WHERE b.`departureId` IS NULL
+    AND NOT EXISTS (
+        SELECT 1 FROM `tour_departures` d WHERE d.`tourId` = b.`tourId` AND d.`startDate` = b.`startDate`
+    )
+GROUP BY b.`tourId`, b.`startDate`, t.`maxGroupSize`;
+
+-- Count the seats of unlinked PENDING and CONFIRMED bookings on their departures
+UPDATE `tour_departures` d
+INNER JOIN (
+    SELECT `tourId`, `startDate`, SUM(`adults` + `children`) AS `seats`
+    FROM `bookings`
+    WHERE `departureId` IS NULL AND `status` IN ('PENDING', 'CONFIRMED')
+    GROUP BY `tourId`, `startDate`
+) s ON s.`tourId` = d.`tourId` AND s.`startDate` = d.`startDate`
+SET d.`seatsBooked` = d.`seatsBooked` + s.`seats`;
+
+-- Link existing bookings to their departures
+UPDATE `bookings` b
+INNER JOIN `tour_departures` d ON d.`tourId` = b.`tourId` AND d.`startDate` = b.`startDate`
+SET b.`departureId` = d.`id`
+WHERE b.`departureId` IS NULL;
+
+-- Tours had no dates of their own. Published tours without an upcoming departure get a weekly
+-- schedule for the next 12 weeks, which admins can change through the departures API.
+INSERT INTO `tour_departures` (`id`, `tourId`, `startDate`, `endDate`, `capacity`, `seatsBooked`, `status`, `createdAt`, `updatedAt`)
+SELECT
+    UUID(),
+    t.`id`,
+    TIMESTAMP(DATE_ADD(CURRENT_DATE(), INTERVAL 7 * w.`n` DAY)),
+    TIMESTAMP(DATE_ADD(CURRENT_DATE(), INTERVAL 7 * w.`n` + t.`duration` DAY)),
+    t.`maxGroupSize`,
+    0,
+    'OPEN',
+    CURRENT_TIMESTAMP(3),
+    CURRENT_TIMESTAMP(3)
+FROM `tours` t
+CROSS JOIN (
+    SELECT 1 AS `n` UNION ALL SELECT 2 UNION ALL SELECT 3 UNION ALL SELECT 4 UNION ALL SELECT 5 UNION ALL SELECT 6
+    UNION ALL SELECT 7 UNION ALL SELECT 8 UNION ALL SELECT 9 UNION ALL SELECT 10 UNION ALL SELECT 11 UNION ALL SELECT 12
+) w
+WHERE t.`status` = 'PUBLISHED'
+    AND NOT EXISTS (
+        SELECT 1 FROM `tour_departures` d WHERE d.`tourId` = t.`id` AND d.`startDate` > CURRENT_TIMESTAMP(3)
+    );
@@ -50,10 +50,12 @@ async function seedBookingsAndReviews() {
         totalPrice: parseFloat(tour.discountPrice || tour.price),
         status: i === 0 ? 'CONFIRMED' : 'PENDING',
         notes: 'Looking forward to this amazing experience!',
-        participants: JSON.stringify([
-          { name: 'Demo User', age: 30, passport: 'ET123456' },
-          { name: 'Travel Companion', age: 28, passport: 'ET789012' }
-        ])
+        participants: {
+          create: [
+            { firstName: 'Demo', lastName: 'User', age: 30, passportNumber: 'ET123456', position: 0 },
+            { firstName: 'Travel', lastName: 'Companion', age: 28, passportNumber: 'ET789012', position: 1 }
+          ]
+        }
       };
       
       const booking = await prisma.booking.create({
@@ -0,0 +1,117 @@
+import type { Booking, Tour, TourDeparture, User } from '@prisma/client';
+import { resetTestPrisma, rows, seed } from '../test/prisma';
+import { daysFromNow, seedBooking, seedDeparture, seedTour, seedUser } from '../test/fixtures';
+import { BookingService } from '../services/booking.service';
+import { ValidationError } from '../middlewares/error.middleware';
+
+jest.mock('@prisma/client', () => require('../test/prisma').prismaModuleMock());
+jest.mock('../services/notification', () => ({ getNotificationService: jest.fn() }));
+
+describe('BookingService.updateBooking', () => {
+  let user: User;
+  let tour: Tour;
+  let departure: TourDeparture;
+  let booking: Booking;
+
+  const stored = () => rows('Booking')[0];
+  const seatsBooked = () => rows('TourDeparture').map((row) => row.seatsBooked);
+
+  beforeEach(() => {
+    resetTestPrisma();
+    user = seedUser();
+    tour = seedTour({ price: 100 });
+    // 2 adults at 100 USD
+    departure = seedDeparture(tour, { seatsBooked: 2 });
+    booking = seedBooking(user, tour, departure, { quoteExpiresAt: daysFromNow(-1) });
+    seed('ExchangeRate', {
+      baseCurrency: 'USD',
+      quoteCurrency: 'ETB',
+      rate: 100,
+      source: 'test',
+      fetchedAt: new Date(),
+    });
+  });
+
+  it('re-prices the booking and locks a new quote when the party changes', async () => {
+    const updated = await BookingService.updateBooking(booking.id, { adults: 3, children: 1 }, user.id);
+
+    expect(Number(updated.totalPrice)).toBe(350);
+    expect(Number(updated.quoteAmount)).toBe(350);
+    expect(updated.quoteExpiresAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(seatsBooked()).toEqual([4]);
+  });
+
+  it('prices a move to another departure at that departure\'s price', async () => {
+    const later = seedDeparture(tour, { startDate: daysFromNow(60), endDate: daysFromNow(64), price: 130 });
+
+    const updated = await BookingService.updateBooking(
+      booking.id,
+      { startDate: later.startDate.toISOString() },
+      user.id
+    );
+
+    expect(updated.departureId).toBe(later.id);
+    expect(Number(updated.totalPrice)).toBe(260);
+    expect(seatsBooked()).toEqual([0, 2]);
+  });
+
+  it('works the promo discount out again on the new total', async () => {
+    seed('PromoCode', {
+      code: 'MESKEL',
+      discountType: 'percentage',
+      discountValue: 10,
+      validFrom: daysFromNow(-1),
+      validUntil: daysFromNow(30),
+    });
+    booking = seedBooking(user, tour, departure, { promoCode: 'MESKEL', discountAmount: 20, quoteAmount: 180 });
+
+    const updated = await BookingService.updateBooking(booking.id, { adults: 4 }, user.id);
+
+    expect(Number(updated.totalPrice)).toBe(400);
+    expect(Number(updated.discountAmount)).toBe(40);
+    expect(Number(updated.quoteAmount)).toBe(360);
+  });
+
+  it('quotes the new price in the currency the traveller pays in', async () => {
+    booking = seedBooking(user, tour, departure, { quoteCurrency: 'ETB', quoteAmount: 20000, quoteRate: 100 });
+
+    const updated = await BookingService.updateBooking(booking.id, { adults: 3 }, user.id);
+
+    expect(updated.quoteCurrency).toBe('ETB');
+    expect(Number(updated.quoteAmount)).toBe(30000);
+  });
+
+  it('refuses to change the party of a paid booking', async () => {
+    seed('Payment', {
+      paymentId: 'STRIPE-paid',
+      userId: user.id,
+      bookingId: booking.id,
+      amount: 200,
+      method: 'STRIPE',
+      status: 'COMPLETED',
+    });
+
+    await expect(BookingService.updateBooking(booking.id, { adults: 3 }, user.id)).rejects.toThrow(ValidationError);
+
+    expect(Number(stored().totalPrice)).toBe(200);
+    expect(seatsBooked()).toEqual([2]);
+  });
+
+  it('refuses to move a confirmed booking to another departure', async () => {
+    const later = seedDeparture(tour, { startDate: daysFromNow(60), endDate: daysFromNow(64) });
+    booking = seedBooking(user, tour, departure, { status: 'CONFIRMED' });
+
+    await expect(
+      BookingService.updateBooking(booking.id, { startDate: later.startDate.toISOString() }, user.id)
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('keeps the price of a paid booking when only its notes change', async () => {
+    booking = seedBooking(user, tour, departure, { status: 'CONFIRMED' });
+
+    const updated = await BookingService.updateBooking(booking.id, { notes: 'Vegetarian meals' }, user.id);
+
+    expect(updated.notes).toBe('Vegetarian meals');
+    expect(Number(updated.totalPrice)).toBe(200);
+  });
+});
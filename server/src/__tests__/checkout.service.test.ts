@@ -0,0 +1,152 @@
+import type { User } from '@prisma/client';
+import { resetTestPrisma, rows, seed, testPrisma } from '../test/prisma';
+import { daysFromNow, seedDeparture, seedTour, seedUser, useSandboxPayments } from '../test/fixtures';
+import { CheckoutService, CheckoutSessionDetails } from '../services/checkout.service';
+import { PaymentService } from '../services/payment.service';
+import { SandboxPaymentProvider } from '../services/payment-providers';
+import { ValidationError } from '../middlewares/error.middleware';
+
+jest.mock('@prisma/client', () => require('../test/prisma').prismaModuleMock());
+jest.mock('../services/notification', () => ({ getNotificationService: jest.fn() }));
+
+const traveller = { firstName: 'Abebe', lastName: 'Kebede' };
+
+describe('CheckoutService', () => {
+  let sandbox: SandboxPaymentProvider;
+  let user: User;
+
+  const seatsBooked = () => rows('TourDeparture').map((departure) => departure.seatsBooked);
+  const sessionStatus = (id: string) => rows('CheckoutSession').find((session) => session.id === id)!.status;
+  const bookingStatuses = () => rows('Booking').map((booking) => booking.status);
+
+  // A cart with two tours, 2 adults each: 200 USD and 300 USD
+  const checkOut = async (): Promise<CheckoutSessionDetails> => {
+    const cart = seed('Cart', { userId: user.id });
+    const items = [100, 150].map((price) => {
+      const tour = seedTour({ price });
+      const departure = seedDeparture(tour, { seatsBooked: 1 });
+      return seed('CartItem', {
+        cartId: cart.id,
+        type: 'TOUR',
+        tourId: tour.id,
+        departureId: departure.id,
+        startDate: departure.startDate,
+        adults: 2,
+      });
+    });
+
+    return CheckoutService.createSession(user.id, {
+      currency: 'USD',
+      bookings: items.map((item) => ({ cartItemId: item.id, participants: [traveller, traveller] })),
+    });
+  };
+
+  const pay = async (session: CheckoutSessionDetails) =>
+    (await CheckoutService.pay(session.id, { method: 'STRIPE' }, user.id)).reference;
+
+  const expire = (session: CheckoutSessionDetails) =>
+    testPrisma.checkoutSession.update({ where: { id: session.id }, data: { expiresAt: daysFromNow(-1) } });
+
+  beforeEach(() => {
+    resetTestPrisma();
+    sandbox = useSandboxPayments();
+    user = seedUser();
+  });
+
+  it('holds seats for every booking in the cart', async () => {
+    const session = await checkOut();
+
+    expect(Number(session.total)).toBe(500);
+    expect(session.bookings.map((booking) => Number(booking.quoteAmount))).toEqual([200, 300]);
+    expect(bookingStatuses()).toEqual(['PENDING', 'PENDING']);
+    expect(seatsBooked()).toEqual([3, 3]);
+  });
+
+  it('splits the payment across the bookings it pays for', async () => {
+    const session = await checkOut();
+
+    await pay(session);
+
+    const [payment] = await testPrisma.payment.findMany({ include: { allocations: true } });
+    expect(Number(payment.amount)).toBe(500);
+    expect(payment.allocations.map((allocation) => [allocation.bookingId, Number(allocation.amount)])).toEqual([
+      [session.bookings[0].id, 200],
+      [session.bookings[1].id, 300],
+    ]);
+  });
+
+  it('confirms every booking and empties the cart once paid', async () => {
+    const session = await checkOut();
+
+    await PaymentService.verifyPayment('STRIPE', await pay(session), user.id);
+
+    expect(sessionStatus(session.id)).toBe('COMPLETED');
+    expect(bookingStatuses()).toEqual(['CONFIRMED', 'CONFIRMED']);
+    expect(rows('CartItem')).toHaveLength(0);
+    expect(seatsBooked()).toEqual([3, 3]);
+  });
+
+  it('releases every hold when the payment fails', async () => {
+    const session = await checkOut();
+    const reference = await pay(session);
+    sandbox.settle(reference, 'FAILED', 'Card declined');
+
+    await PaymentService.verifyPayment('STRIPE', reference, user.id);
+
+    expect(sessionStatus(session.id)).toBe('FAILED');
+    expect(bookingStatuses()).toEqual(['CANCELLED', 'CANCELLED']);
+    expect(seatsBooked()).toEqual([1, 1]);
+    expect(rows('CartItem')).toHaveLength(2);
+  });
+
+  it('releases the holds of sessions left unpaid past their expiry', async () => {
+    const session = await checkOut();
+    await expire(session);
+
+    expect(await CheckoutService.expireSessions()).toBe(1);
+
+    expect(sessionStatus(session.id)).toBe('EXPIRED');
+    expect(bookingStatuses()).toEqual(['CANCELLED', 'CANCELLED']);
+    expect(seatsBooked()).toEqual([1, 1]);
+  });
+
+  it('keeps the holds of expired sessions while their payment is still open', async () => {
+    const session = await checkOut();
+    const reference = await pay(session);
+    await expire(session);
+
+    expect(await CheckoutService.expireSessions()).toBe(0);
+    expect(await CheckoutService.releaseSession(session.id, 'EXPIRED')).toBe(false);
+    expect(seatsBooked()).toEqual([3, 3]);
+
+    await PaymentService.verifyPayment('STRIPE', reference, user.id);
+
+    expect(sessionStatus(session.id)).toBe('COMPLETED');
+    expect(bookingStatuses()).toEqual(['CONFIRMED', 'CONFIRMED']);
+  });
+
+  it('does not take payments for expired sessions', async () => {
+    const session = await checkOut();
+    await expire(session);
+
+    await expect(pay(session)).rejects.toThrow(new ValidationError('This checkout has expired, please check out again'));
+  });
+
+  it('refunds no more than a booking\'s share of the payment', async () => {
+    const session = await checkOut();
+    await PaymentService.verifyPayment('STRIPE', await pay(session), user.id);
+    const [payment] = await testPrisma.payment.findMany({ include: { allocations: true } });
+    const share = payment.allocations[0];
+    const admin = seedUser({ role: 'ADMIN' });
+
+    await expect(
+      PaymentService.refundPayment(payment.id, { amount: 250, reason: 'Cancelled tour' }, admin.id, share.id)
+    ).rejects.toThrow(new ValidationError('At most 200 USD can still be refunded'));
+
+    const result = await PaymentService.refundPayment(payment.id, { reason: 'Cancelled tour' }, admin.id, share.id);
+
+    expect(Number(result.refund.amount)).toBe(200);
+    expect(result.payment.status).toBe('PARTIALLY_REFUNDED');
+    expect(rows('PaymentAllocation').map((allocation) => allocation.refundedAmount)).toEqual([200, 0]);
+  });
+});
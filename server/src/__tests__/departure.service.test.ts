@@ -0,0 +1,97 @@
+import { resetTestPrisma, rows, testPrisma } from '../test/prisma';
+import { seedDeparture, seedTour, seedUser, daysFromNow } from '../test/fixtures';
+import { DepartureService } from '../services/departure.service';
+import { BookingService } from '../services/booking.service';
+import { ConflictError, ValidationError } from '../middlewares/error.middleware';
+
+jest.mock('@prisma/client', () => require('../test/prisma').prismaModuleMock());
+jest.mock('../services/notification', () => ({ getNotificationService: jest.fn() }));
+
+const participant = { firstName: 'Abebe', lastName: 'Kebede' };
+
+describe('DepartureService seat holds', () => {
+  beforeEach(() => {
+    resetTestPrisma();
+  });
+
+  it('holds seats while enough are left', async () => {
+    const departure = seedDeparture(seedTour(), { seatsBooked: 4 });
+
+    const held = await DepartureService.holdSeats(testPrisma, departure.id, 3);
+
+    expect(held.seatsBooked).toBe(7);
+  });
+
+  it('refuses more seats than are left', async () => {
+    const departure = seedDeparture(seedTour(), { seatsBooked: 9 });
+
+    await expect(DepartureService.holdSeats(testPrisma, departure.id, 2)).rejects.toThrow(
+      new ConflictError('Only 1 spots available for this departure')
+    );
+    expect(rows('TourDeparture')[0].seatsBooked).toBe(9);
+  });
+
+  it('lets only one of two concurrent holds take the last seats', async () => {
+    const departure = seedDeparture(seedTour(), { seatsBooked: 8 });
+
+    const results = await Promise.allSettled([
+      DepartureService.holdSeats(testPrisma, departure.id, 2),
+      DepartureService.holdSeats(testPrisma, departure.id, 2),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+      reason: expect.any(ConflictError),
+    });
+    expect(rows('TourDeparture')[0].seatsBooked).toBe(10);
+  });
+
+  it('refuses departures past their booking cutoff', async () => {
+    const departure = seedDeparture(seedTour(), { cutoffAt: daysFromNow(-1) });
+
+    await expect(DepartureService.holdSeats(testPrisma, departure.id, 1)).rejects.toThrow(ValidationError);
+  });
+
+  it('does not release seats of cancelled bookings twice', async () => {
+    const departure = seedDeparture(seedTour(), { seatsBooked: 6 });
+
+    await DepartureService.releaseBookingSeats(testPrisma, {
+      departureId: departure.id,
+      status: 'CANCELLED',
+      adults: 2,
+      children: 0,
+    });
+    await DepartureService.releaseBookingSeats(testPrisma, {
+      departureId: departure.id,
+      status: 'PENDING',
+      adults: 2,
+      children: 1,
+    });
+
+    expect(rows('TourDeparture')[0].seatsBooked).toBe(3);
+  });
+
+  it('does not oversell when two travellers book the last seats at once', async () => {
+    const tour = seedTour();
+    const departure = seedDeparture(tour, { capacity: 4, seatsBooked: 2 });
+    const book = () =>
+      BookingService.createBooking(
+        {
+          tourId: tour.id,
+          departureId: departure.id,
+          startDate: departure.startDate.toISOString(),
+          endDate: departure.endDate.toISOString(),
+          adults: 2,
+          children: 0,
+          participants: [participant, participant],
+        },
+        seedUser().id
+      );
+
+    const results = await Promise.allSettled([book(), book()]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(rows('Booking')).toHaveLength(1);
+    expect(rows('TourDeparture')[0].seatsBooked).toBe(4);
+  });
+});
@@ -0,0 +1,103 @@
+import path from 'path';
+import { OfflineAIProvider } from '../services/offline-ai.service';
+import type { AIToolDefinition, AITranscriptItem } from '../services/ai.service';
+
+const FIXTURES_DIR = path.join(__dirname, '../../data/ai-fixtures');
+
+const CHAT_SYSTEM = 'You are EthioAI, a helpful travel assistant for Ethiopia.';
+const SENTIMENT_SYSTEM = 'Analyze the sentiment of the following text and answer in JSON.';
+
+const tool = (name: string): AIToolDefinition => ({ name, description: name, parameters: {} });
+
+const chat = (message: string): AITranscriptItem[] => [
+  { role: 'system', content: CHAT_SYSTEM },
+  { role: 'user', content: message },
+];
+
+describe('OfflineAIProvider with the bundled fixtures', () => {
+  const provider = new OfflineAIProvider(FIXTURES_DIR);
+
+  describe('chat', () => {
+    it('answers a greeting', async () => {
+      const reply = await provider.reply(chat('Hello there'));
+
+      expect(reply.rule).toBe('greeting');
+      expect(reply.text).toMatch(/^Selam!/);
+      expect(reply.toolCalls).toEqual([]);
+    });
+
+    it('falls back to the default reply', async () => {
+      const reply = await provider.reply(chat('What is the weather like?'));
+
+      expect(reply.rule).toBe('default');
+      expect(reply.text).toMatch(/scripted offline reply/);
+    });
+  });
+
+  describe('draft_itinerary', () => {
+    const tools = [tool('search_tours'), tool('draft_itinerary')];
+
+    it('calls the tool when it is offered', async () => {
+      const reply = await provider.reply(chat('Can you plan my trip for next spring?'), tools);
+
+      expect(reply.rule).toBe('itinerary');
+      expect(reply.text).toBe('');
+      expect(reply.toolCalls).toEqual([
+        {
+          id: 'offline-1',
+          name: 'draft_itinerary',
+          arguments: {
+            tourIds: ['historic-route-ethiopia', 'simien-mountains-trekking'],
+            title: 'Historic North and Simien Mountains',
+          },
+        },
+      ]);
+    });
+
+    it('answers once the tool result is in', async () => {
+      const first = await provider.reply(chat('Can you plan my trip for next spring?'), tools);
+      const reply = await provider.reply(
+        [
+          ...chat('Can you plan my trip for next spring?'),
+          { role: 'assistant', content: '', toolCalls: first.toolCalls },
+          { role: 'tool', toolCallId: 'offline-1', name: 'draft_itinerary', content: '{"id":"itinerary-1"}' },
+        ],
+        tools
+      );
+
+      expect(reply.rule).toBe('itinerary');
+      expect(reply.text).toMatch(/drafted an itinerary/);
+      expect(reply.toolCalls).toEqual([]);
+    });
+
+    it('answers in text when the tool is not offered', async () => {
+      const reply = await provider.reply(chat('Can you plan my trip for next spring?'));
+
+      expect(reply.rule).toBe('itinerary');
+      expect(reply.text).toMatch(/drafted an itinerary/);
+      expect(reply.toolCalls).toEqual([]);
+    });
+  });
+
+  describe('sentiment', () => {
+    it.each([
+      ['The guide was rude and the bus was delayed for hours', 'sentiment-negative', 'negative'],
+      ['An amazing trip, I would recommend it to anyone', 'sentiment-positive', 'positive'],
+      ['We visited Gondar in March', 'sentiment-neutral', 'neutral'],
+    ])('classifies "%s"', async (message, rule, sentiment) => {
+      const reply = await provider.reply([
+        { role: 'system', content: SENTIMENT_SYSTEM },
+        { role: 'user', content: message },
+      ]);
+
+      expect(reply.rule).toBe(rule);
+      expect(JSON.parse(reply.text)).toMatchObject({ sentiment });
+    });
+
+    it('does not answer chat with a sentiment rule', async () => {
+      const reply = await provider.reply(chat('An amazing trip'));
+
+      expect(reply.rule).not.toMatch(/^sentiment-/);
+    });
+  });
+});
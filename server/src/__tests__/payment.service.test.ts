@@ -0,0 +1,180 @@
+import type { Booking, Payment, User } from '@prisma/client';
+import { resetTestPrisma, rows } from '../test/prisma';
+import { seedBooking, seedDeparture, seedTour, seedUser, useSandboxPayments } from '../test/fixtures';
+import { PaymentService } from '../services/payment.service';
+import { SandboxPaymentProvider, WebhookSignatureError, createPaymentProvider } from '../services/payment-providers';
+import { ConflictError, ValidationError } from '../middlewares/error.middleware';
+import { config } from '../config';
+
+jest.mock('@prisma/client', () => require('../test/prisma').prismaModuleMock());
+jest.mock('../services/notification', () => ({ getNotificationService: jest.fn() }));
+
+const REASON = 'Traveller changed plans';
+
+describe('PaymentService with the sandbox provider', () => {
+  let sandbox: SandboxPaymentProvider;
+  let user: User;
+  let admin: User;
+  let booking: Booking;
+
+  const startPayment = async () => {
+    const { reference } = await PaymentService.initializePayment('STRIPE', { bookingId: booking.id }, user.id);
+    return reference;
+  };
+
+  const payBooking = async (): Promise<Payment> =>
+    PaymentService.verifyPayment('STRIPE', await startPayment(), user.id);
+
+  const bookingStatus = () => rows('Booking').find((row) => row.id === booking.id)!.status;
+  const seatsBooked = () => rows('TourDeparture')[0].seatsBooked;
+
+  beforeEach(() => {
+    resetTestPrisma();
+    sandbox = useSandboxPayments();
+    user = seedUser();
+    admin = seedUser({ role: 'ADMIN' });
+
+    const tour = seedTour();
+    booking = seedBooking(user, tour, seedDeparture(tour, { seatsBooked: 2 }));
+  });
+
+  describe('payments', () => {
+    it('charges the locked quote and confirms the booking once the payment completes', async () => {
+      const payment = await payBooking();
+
+      expect(payment.status).toBe('COMPLETED');
+      expect(Number(payment.amount)).toBe(200);
+      expect(payment.currency).toBe('USD');
+      expect(bookingStatus()).toBe('CONFIRMED');
+    });
+
+    it('cancels the booking and frees its seats when the payment fails', async () => {
+      const reference = await startPayment();
+      sandbox.settle(reference, 'FAILED', 'Card declined');
+
+      const payment = await PaymentService.verifyPayment('STRIPE', reference, user.id);
+
+      expect(payment.status).toBe('FAILED');
+      expect(payment.failureReason).toBe('Card declined');
+      expect(bookingStatus()).toBe('CANCELLED');
+      expect(seatsBooked()).toBe(0);
+    });
+
+    it('applies a signed webhook once', async () => {
+      const reference = await startPayment();
+      const body = JSON.stringify({ reference, status: 'COMPLETED' });
+      const headers = { 'x-sandbox-signature': sandbox.sign(body) };
+
+      await PaymentService.handleWebhook('STRIPE', Buffer.from(body), headers);
+      await PaymentService.handleWebhook('STRIPE', Buffer.from(body), headers);
+
+      expect(rows('Payment')[0].status).toBe('COMPLETED');
+      expect(bookingStatus()).toBe('CONFIRMED');
+      // Booking and payment confirmations, queued once
+      expect(rows('EmailOutbox')).toHaveLength(2);
+    });
+
+    it('rejects webhooks with a bad signature', async () => {
+      const reference = await startPayment();
+      const body = JSON.stringify({ reference, status: 'COMPLETED' });
+
+      await expect(
+        PaymentService.handleWebhook('STRIPE', Buffer.from(body), { 'x-sandbox-signature': 'deadbeef' })
+      ).rejects.toThrow(WebhookSignatureError);
+      expect(rows('Payment')[0].status).toBe('PENDING');
+    });
+  });
+
+  describe('refunds', () => {
+    it('refunds part of a payment and keeps the booking', async () => {
+      const payment = await payBooking();
+
+      const result = await PaymentService.refundPayment(payment.id, { amount: 50, reason: REASON }, admin.id);
+
+      expect(result.payment.status).toBe('PARTIALLY_REFUNDED');
+      expect(Number(result.payment.refundedAmount)).toBe(50);
+      expect(result.refund).toMatchObject({
+        status: 'SUCCEEDED',
+        gatewayRefundId: `sandbox-refund-${result.refund.id}`,
+      });
+      expect(bookingStatus()).toBe('CONFIRMED');
+      expect(seatsBooked()).toBe(2);
+    });
+
+    it('releases the booking once the payment is refunded in full', async () => {
+      const payment = await payBooking();
+      await PaymentService.refundPayment(payment.id, { amount: 50, reason: REASON }, admin.id);
+
+      const result = await PaymentService.refundPayment(payment.id, { reason: REASON }, admin.id);
+
+      expect(Number(result.refund.amount)).toBe(150);
+      expect(result.payment.status).toBe('REFUNDED');
+      expect(bookingStatus()).toBe('REFUNDED');
+      expect(seatsBooked()).toBe(0);
+    });
+
+    it('rejects refunds over what is left of the payment', async () => {
+      const payment = await payBooking();
+      await PaymentService.refundPayment(payment.id, { amount: 50, reason: REASON }, admin.id);
+
+      await expect(
+        PaymentService.refundPayment(payment.id, { amount: 200, reason: REASON }, admin.id)
+      ).rejects.toThrow(new ValidationError('At most 150 USD can still be refunded'));
+      expect(rows('Refund')).toHaveLength(1);
+      expect(rows('Payment')[0].refundedAmount).toBe(50);
+    });
+
+    it('rejects refunds of a payment refunded in full', async () => {
+      const payment = await payBooking();
+      await PaymentService.refundPayment(payment.id, { reason: REASON }, admin.id);
+
+      await expect(
+        PaymentService.refundPayment(payment.id, { amount: 1, reason: REASON }, admin.id)
+      ).rejects.toThrow(new ValidationError('Only completed payments can be refunded'));
+    });
+
+    it('lets only one of two concurrent refunds reserve the amount', async () => {
+      const payment = await payBooking();
+
+      const results = await Promise.allSettled([
+        PaymentService.refundPayment(payment.id, { amount: 150, reason: REASON }, admin.id),
+        PaymentService.refundPayment(payment.id, { amount: 150, reason: REASON }, admin.id),
+      ]);
+
+      expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+        reason: expect.any(ConflictError),
+      });
+      expect(rows('Refund')).toHaveLength(1);
+      expect(rows('Payment')[0].refundedAmount).toBe(150);
+    });
+  });
+
+  describe('sandbox configuration', () => {
+    beforeEach(() => {
+      jest.replaceProperty(config.payment, 'sandbox', ['TELEBIRR']);
+      jest.replaceProperty(config.payment, 'sandboxSecret', 'sandbox-webhook-secret');
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('serves listed gateways from the sandbox outside production', () => {
+      const provider = createPaymentProvider('TELEBIRR');
+      const body = JSON.stringify({ reference: 'TELEBIRR-1', status: 'COMPLETED' });
+      // Signed with the default secret rather than PAYMENT_SANDBOX_SECRET
+      const forged = new SandboxPaymentProvider(provider.profile).sign(body);
+
+      expect(provider.sandbox).toBe(true);
+      expect(() => provider.parseWebhook(Buffer.from(body), { 'x-sandbox-signature': forged })).toThrow(
+        WebhookSignatureError
+      );
+    });
+
+    it('never serves a gateway from the sandbox in production', () => {
+      jest.replaceProperty(config.server, 'nodeEnv', 'production');
+
+      expect(createPaymentProvider('TELEBIRR').sandbox).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import type { PromoCode, Tour, TourDeparture, User } from '@prisma/client';
+import { resetTestPrisma, rows, seed, testPrisma } from '../test/prisma';
+import { daysFromNow, SeedData, seedBooking, seedDeparture, seedTour, seedUser } from '../test/fixtures';
+import { PromoService } from '../services/promo.service';
+import { BookingService } from '../services/booking.service';
+
+jest.mock('@prisma/client', () => require('../test/prisma').prismaModuleMock());
+jest.mock('../services/notification', () => ({ getNotificationService: jest.fn() }));
+
+const seedPromo = (data: SeedData<PromoCode> = {}): PromoCode =>
+  seed<PromoCode>('PromoCode', {
+    code: 'MESKEL',
+    discountType: 'fixed',
+    discountValue: 10,
+    validFrom: daysFromNow(-1),
+    validUntil: daysFromNow(30),
+    ...data,
+  });
+
+describe('PromoService', () => {
+  let user: User;
+
+  beforeEach(() => {
+    resetTestPrisma();
+    user = seedUser();
+    // 1 USD = 100 ETB; codes are in USD, the default currency
+    seed('ExchangeRate', {
+      baseCurrency: 'USD',
+      quoteCurrency: 'ETB',
+      rate: 100,
+      source: 'test',
+      fetchedAt: new Date(),
+    });
+  });
+
+  describe('validatePromoCode', () => {
+    it('refuses codes past their usage limit', async () => {
+      seedPromo({ usageLimit: 5, usageCount: 5 });
+
+      const result = await PromoService.validatePromoCode('meskel', { userId: user.id, totalAmount: 100 });
+
+      expect(result).toEqual({ valid: false, message: 'Promo code usage limit reached' });
+    });
+
+    it('refuses codes the user has redeemed as often as allowed', async () => {
+      const promo = seedPromo({ perUserLimit: 1 });
+      seed('PromoRedemption', { promoCodeId: promo.id, userId: user.id, discountAmount: 10, orderAmount: 100 });
+
+      const used = await PromoService.validatePromoCode('MESKEL', { userId: user.id, totalAmount: 100 });
+      const unused = await PromoService.validatePromoCode('MESKEL', { userId: seedUser().id, totalAmount: 100 });
+
+      expect(used).toEqual({
+        valid: false,
+        message: 'You have already used this promo code the maximum number of times',
+      });
+      expect(unused.valid).toBe(true);
+    });
+
+    it('checks the minimum order amount in the default currency', async () => {
+      seedPromo({ minOrderAmount: 50 });
+
+      const tooSmall = await PromoService.validatePromoCode('MESKEL', { currency: 'ETB', totalAmount: 4000 });
+      const enough = await PromoService.validatePromoCode('MESKEL', { currency: 'ETB', totalAmount: 6000 });
+
+      expect(tooSmall).toEqual({ valid: false, message: 'Minimum order amount of 50 USD required' });
+      expect(enough.valid).toBe(true);
+    });
+
+    it('returns fixed discounts in the currency of the order', async () => {
+      seedPromo();
+
+      const result = await PromoService.validatePromoCode('MESKEL', { currency: 'ETB', totalAmount: 6000 });
+
+      expect(result.discountAmount).toBe(1000);
+    });
+
+    it('caps percentage discounts in the default currency', async () => {
+      seedPromo({ discountType: 'percentage', discountValue: 10, maxDiscount: 20 });
+
+      const capped = await PromoService.validatePromoCode('MESKEL', { currency: 'ETB', totalAmount: 30000 });
+      const uncapped = await PromoService.validatePromoCode('MESKEL', { currency: 'ETB', totalAmount: 15000 });
+
+      expect(capped.discountAmount).toBe(2000);
+      expect(uncapped.discountAmount).toBe(1500);
+    });
+
+    it('never discounts more than the order', async () => {
+      seedPromo({ discountValue: 500 });
+
+      const result = await PromoService.validatePromoCode('MESKEL', { totalAmount: 120 });
+
+      expect(result.discountAmount).toBe(120);
+    });
+  });
+
+  describe('redemption', () => {
+    let tour: Tour;
+    let departure: TourDeparture;
+
+    const confirmWithCode = (owner: User) =>
+      BookingService.confirmBooking(
+        seedBooking(owner, tour, departure, { promoCode: 'MESKEL', discountAmount: 10 }).id
+      );
+
+    beforeEach(() => {
+      tour = seedTour();
+      departure = seedDeparture(tour, { seatsBooked: 4 });
+
+      // The guarded increment PromoService.redeem runs as raw SQL
+      jest.spyOn(testPrisma, '$executeRaw').mockImplementation((async (_sql: TemplateStringsArray, id: string) => {
+        const { usageLimit } = rows('PromoCode').find((promo) => promo.id === id)!;
+        const { count } = await testPrisma.promoCode.updateMany({
+          where: { id, ...(usageLimit !== null && { usageCount: { lt: usageLimit } }) },
+          data: { usageCount: { increment: 1 } },
+        });
+        return count;
+      }) as never);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('counts a confirmed booking once against the code', async () => {
+      seedPromo();
+      const booking = await confirmWithCode(user);
+
+      await BookingService.confirmBooking(booking.id);
+
+      expect(rows('PromoRedemption')).toHaveLength(1);
+      expect(rows('PromoCode')[0].usageCount).toBe(1);
+    });
+
+    it('stops redeeming a code at its usage limit', async () => {
+      seedPromo({ usageLimit: 1 });
+
+      await Promise.all([confirmWithCode(user), confirmWithCode(seedUser())]);
+
+      expect(rows('PromoRedemption')).toHaveLength(1);
+      expect(rows('PromoCode')[0].usageCount).toBe(1);
+      expect(rows('Booking').map((booking) => booking.status)).toEqual(['CONFIRMED', 'CONFIRMED']);
+    });
+
+    it('stops redeeming a code at the per-user limit', async () => {
+      seedPromo({ perUserLimit: 1 });
+
+      await confirmWithCode(user);
+      await confirmWithCode(user);
+
+      expect(rows('PromoRedemption')).toHaveLength(1);
+      expect(rows('PromoCode')[0].usageCount).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import type { Tour, TourDeparture, User } from '@prisma/client';
+import { resetTestPrisma, rows, testPrisma } from '../test/prisma';
+import { daysFromNow, seedBooking, seedDeparture, seedTour, seedUser, seedWaitlistEntry } from '../test/fixtures';
+import { WaitlistService } from '../services/waitlist.service';
+import { BookingService } from '../services/booking.service';
+import { NotFoundError } from '../middlewares/error.middleware';
+
+jest.mock('@prisma/client', () => require('../test/prisma').prismaModuleMock());
+jest.mock('../services/notification', () => ({ getNotificationService: jest.fn() }));
+
+describe('WaitlistService offers', () => {
+  let user: User;
+  let tour: Tour;
+  let departure: TourDeparture;
+
+  const seatsBooked = () => rows('TourDeparture')[0].seatsBooked;
+  const entryStatuses = () => rows('WaitlistEntry').map((entry) => entry.status);
+
+  // The claim token only leaves the server in the offer email
+  const claimToken = (email: string) =>
+    rows('EmailOutbox').find((row) => row.to === email)!.html.match(/waitlistOffer=([0-9a-f]+)/)[1];
+
+  // A full departure whose 2 seats are given up by a cancelled booking
+  const releaseSeats = async () => {
+    const booking = seedBooking(seedUser(), tour, departure);
+    await BookingService.releaseBooking(booking.id, 'CANCELLED');
+  };
+
+  beforeEach(() => {
+    resetTestPrisma();
+    user = seedUser();
+    tour = seedTour({ price: 120 });
+    departure = seedDeparture(tour, { capacity: 4, seatsBooked: 4, price: 33.333 });
+  });
+
+  it('offers released seats to the first entry that fits and holds them', async () => {
+    seedWaitlistEntry(tour, departure, { adults: 3, email: 'big@example.com' });
+    seedWaitlistEntry(tour, departure, { userId: user.id, adults: 2, email: 'hanna@example.com' });
+
+    await releaseSeats();
+
+    expect(entryStatuses()).toEqual(['WAITING', 'OFFERED']);
+    expect(seatsBooked()).toBe(4);
+    expect(claimToken('hanna@example.com')).toHaveLength(64);
+  });
+
+  it('books a claimed offer on the seats held for it, priced like a booking', async () => {
+    seedWaitlistEntry(tour, departure, { userId: user.id, adults: 3, email: 'hanna@example.com' });
+    await testPrisma.tourDeparture.update({ where: { id: departure.id }, data: { seatsBooked: 1 } });
+    await WaitlistService.offerReleasedSeats(departure.id);
+
+    const entry = await WaitlistService.getOfferByToken(claimToken('hanna@example.com'));
+    const booking = await BookingService.claimWaitlistOffer(entry, user.id);
+
+    expect(Number(booking.totalPrice)).toBe(100);
+    expect(Number(booking.quoteAmount)).toBe(100);
+    expect(booking.status).toBe('PENDING');
+    expect(rows('WaitlistEntry')[0]).toMatchObject({ status: 'CLAIMED', bookingId: booking.id, claimToken: null });
+    expect(seatsBooked()).toBe(4);
+  });
+
+  it('expires unclaimed offers and passes the seats on', async () => {
+    seedWaitlistEntry(tour, departure, { userId: user.id, adults: 2, email: 'hanna@example.com' });
+    seedWaitlistEntry(tour, departure, { adults: 2, email: 'dawit@example.com' });
+    await releaseSeats();
+    const token = claimToken('hanna@example.com');
+    await testPrisma.waitlistEntry.updateMany({
+      where: { status: 'OFFERED' },
+      data: { offerExpiresAt: daysFromNow(-1) },
+    });
+
+    expect(await WaitlistService.expireOffers()).toBe(1);
+
+    expect(entryStatuses()).toEqual(['EXPIRED', 'OFFERED']);
+    expect(seatsBooked()).toBe(4);
+    await expect(WaitlistService.getOfferByToken(token)).rejects.toThrow(NotFoundError);
+  });
+
+  it('releases the seats of an expired offer when nobody else is waiting', async () => {
+    seedWaitlistEntry(tour, departure, { userId: user.id, adults: 2, email: 'hanna@example.com' });
+    await releaseSeats();
+    await testPrisma.waitlistEntry.updateMany({ data: { offerExpiresAt: daysFromNow(-1) } });
+
+    await WaitlistService.expireOffers();
+
+    expect(entryStatuses()).toEqual(['EXPIRED']);
+    expect(seatsBooked()).toBe(2);
+  });
+});
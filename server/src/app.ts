@@ -21,6 +21,12 @@ import transportRoutes from './routes/transport.routes';
 import marketplaceRoutes from './routes/marketplace.routes';
 import aiRoutes from './routes/ai.routes';
 import mapRoutes from './routes/map.routes';
+import currencyRoutes from './routes/currency.routes';
+import notificationRoutes from './routes/notification.routes';
+import cartRoutes from './routes/cart.routes';
+import checkoutRoutes from './routes/checkout.routes';
+import wishlistRoutes from './routes/wishlist.routes';
+import campaignRoutes from './routes/campaign.routes';
 
 // Load environment variables
 config();
@@ -92,7 +98,8 @@ app.use(cors({
   ],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Cart-Token'],
+  exposedHeaders: ['Content-Disposition'],
 }));
 
 // Body parsing middleware
@@ -137,6 +144,12 @@ app.use(`${API_PREFIX}/transport`, transportRoutes);
 app.use(`${API_PREFIX}/marketplace`, marketplaceRoutes);
 app.use(`${API_PREFIX}/ai`, aiRoutes);
 app.use(`${API_PREFIX}/map`, mapRoutes);
+app.use(`${API_PREFIX}/currencies`, currencyRoutes);
+app.use(`${API_PREFIX}/notifications`, notificationRoutes);
+app.use(`${API_PREFIX}/cart`, cartRoutes);
+app.use(`${API_PREFIX}/checkout`, checkoutRoutes);
+app.use(`${API_PREFIX}/wishlist`, wishlistRoutes);
+app.use(`${API_PREFIX}/campaigns`, campaignRoutes);
 
 // API documentation endpoint
 app.get(`${API_PREFIX}/docs`, (req: Request, res: Response) => {
@@ -159,7 +172,13 @@ app.get(`${API_PREFIX}/docs`, (req: Request, res: Response) => {
       transport: `${API_PREFIX}/transport`,
       marketplace: `${API_PREFIX}/marketplace`,
       ai: `${API_PREFIX}/ai`,
-      map: `${API_PREFIX}/map`
+      map: `${API_PREFIX}/map`,
+      currencies: `${API_PREFIX}/currencies`,
+      notifications: `${API_PREFIX}/notifications`,
+      cart: `${API_PREFIX}/cart`,
+      checkout: `${API_PREFIX}/checkout`,
+      wishlist: `${API_PREFIX}/wishlist`,
+      campaigns: `${API_PREFIX}/campaigns`
     }
   });
 });
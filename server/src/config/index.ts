@@ -47,6 +47,17 @@ export const config = {
     user: process.env.EMAIL_USER || '',
     pass: process.env.EMAIL_PASS || '',
     from: process.env.EMAIL_FROM || 'noreply@ethioai.com',
+    // Shared secret bounce and complaint webhooks send as ?token= or X-Webhook-Token
+    webhookSecret: process.env.EMAIL_WEBHOOK_SECRET || '',
+  },
+
+  // Email outbox delivery configuration
+  emailOutbox: {
+    maxAttempts: parseInt(process.env.EMAIL_OUTBOX_MAX_ATTEMPTS || '6', 10),
+    retryBaseMs: parseInt(process.env.EMAIL_OUTBOX_RETRY_BASE_MS || '60000', 10), // 1 minute, doubled per attempt
+    retryMaxMs: parseInt(process.env.EMAIL_OUTBOX_RETRY_MAX_MS || '21600000', 10), // 6 hours
+    batchSize: parseInt(process.env.EMAIL_OUTBOX_BATCH_SIZE || '50', 10),
+    sweepIntervalMs: parseInt(process.env.EMAIL_OUTBOX_SWEEP_INTERVAL_MS || '15000', 10), // 15 seconds
   },
 
   // File upload configuration
@@ -74,6 +85,28 @@ export const config = {
       publicKey: process.env.CHAPA_PUBLIC_KEY || '',
       webhookSecret: process.env.CHAPA_WEBHOOK_SECRET || '',
     },
+    telebirr: {
+      baseUrl: process.env.TELEBIRR_BASE_URL || 'https://developerportal.ethiotelebirr.et:38443/apiaccess/payment/gateway',
+      webBaseUrl: process.env.TELEBIRR_WEB_BASE_URL || 'https://developerportal.ethiotelebirr.et:38443/payment/web/paygate?',
+      fabricAppId: process.env.TELEBIRR_FABRIC_APP_ID || '',
+      appSecret: process.env.TELEBIRR_APP_SECRET || '',
+      merchantAppId: process.env.TELEBIRR_MERCHANT_APP_ID || '',
+      merchantCode: process.env.TELEBIRR_MERCHANT_CODE || '',
+      privateKey: process.env.TELEBIRR_PRIVATE_KEY?.replace(/\\n/g, '\n') || '',
+      publicKey: process.env.TELEBIRR_PUBLIC_KEY?.replace(/\\n/g, '\n') || '',
+    },
+    cbeBirr: {
+      baseUrl: process.env.CBE_BIRR_BASE_URL || '',
+      merchantId: process.env.CBE_BIRR_MERCHANT_ID || '',
+      apiKey: process.env.CBE_BIRR_API_KEY || '',
+      secret: process.env.CBE_BIRR_SECRET || '',
+    },
+    // Gateways served by the local sandbox instead of the real API, e.g. "TELEBIRR,CBE_BIRR"; never in production
+    sandbox: (process.env.PAYMENT_SANDBOX_PROVIDERS || '').split(',').map((method) => method.trim().toUpperCase()).filter(Boolean),
+    // Signs sandbox webhooks; required when any gateway is sandboxed
+    sandboxSecret: process.env.PAYMENT_SANDBOX_SECRET || '',
+    // Public URL of the webhook routes, where gateways send payment notifications
+    webhookUrl: process.env.PAYMENT_WEBHOOK_URL || `http://localhost:${process.env.PORT || '5000'}/api/webhooks`,
   },
 
   // Firebase configuration
@@ -83,6 +116,20 @@ export const config = {
     clientEmail: process.env.FIREBASE_CLIENT_EMAIL || '',
   },
 
+  // Notification delivery configuration
+  notifications: {
+    sms: {
+      provider: process.env.SMS_PROVIDER || 'fake', // fake
+      senderId: process.env.SMS_SENDER_ID || 'EthioAI',
+    },
+    webPush: {
+      publicKey: process.env.VAPID_PUBLIC_KEY || '',
+      privateKey: process.env.VAPID_PRIVATE_KEY || '',
+      subject: process.env.VAPID_SUBJECT || 'mailto:admin@ethioai.com',
+      ttlSeconds: parseInt(process.env.WEB_PUSH_TTL_SECONDS || '86400', 10), // 1 day
+    },
+  },
+
   // Security configuration
   security: {
     bcryptSaltRounds: parseInt(process.env.BCRYPT_SALT_ROUNDS || '12', 10),
@@ -119,6 +166,12 @@ export const config = {
       model: process.env.GOOGLE_AI_MODEL || 'gemini-1.5-flash',
     },
 
+    // Scripted replies from fixture files, for development and tests without network
+    offline: {
+      enabled: process.env.AI_OFFLINE === 'true', // Only the fixtures answer
+      fixturesDir: process.env.AI_OFFLINE_FIXTURES_DIR || 'data/ai-fixtures',
+    },
+
     // Azure OpenAI
     azure: {
       apiKey: process.env.AZURE_OPENAI_API_KEY || '',
@@ -149,6 +202,17 @@ export const config = {
     },
   },
 
+  // Retrieval of cultural articles and tour descriptions for chat answers
+  retrieval: {
+    embeddingProvider: process.env.RETRIEVAL_EMBEDDING_PROVIDER || 'local', // local, openai
+    embeddingModel: process.env.RETRIEVAL_EMBEDDING_MODEL || 'text-embedding-3-small',
+    chunkSize: parseInt(process.env.RETRIEVAL_CHUNK_SIZE || '800', 10), // Characters
+    chunkOverlap: parseInt(process.env.RETRIEVAL_CHUNK_OVERLAP || '150', 10), // Characters
+    topK: parseInt(process.env.RETRIEVAL_TOP_K || '4', 10),
+    minScore: parseFloat(process.env.RETRIEVAL_MIN_SCORE || '0.2'), // Cosine similarity
+    refreshIntervalMs: parseInt(process.env.RETRIEVAL_REFRESH_INTERVAL_MS || '900000', 10), // 15 minutes
+  },
+
   // External APIs
   external: {
     mapbox: {
@@ -165,6 +229,54 @@ export const config = {
     },
   },
 
+  // Waitlist configuration
+  waitlist: {
+    offerWindowHours: parseInt(process.env.WAITLIST_OFFER_WINDOW_HOURS || '24', 10),
+    sweepIntervalMs: parseInt(process.env.WAITLIST_SWEEP_INTERVAL_MS || '60000', 10), // 1 minute
+  },
+
+  // Checkout configuration
+  checkout: {
+    sessionTtlMinutes: parseInt(process.env.CHECKOUT_SESSION_TTL_MINUTES || '30', 10),
+    sweepIntervalMs: parseInt(process.env.CHECKOUT_SWEEP_INTERVAL_MS || '60000', 10), // 1 minute
+  },
+
+  // Currency configuration
+  currency: {
+    supported: (process.env.SUPPORTED_CURRENCIES || 'USD,ETB,EUR,GBP').split(',').map((code) => code.trim().toUpperCase()),
+    default: (process.env.DEFAULT_CURRENCY || 'USD').toUpperCase(),
+    rateProvider: process.env.CURRENCY_RATE_PROVIDER || 'file', // file, http
+    ratesFile: process.env.CURRENCY_RATES_FILE || 'data/exchange-rates.json',
+    ratesApiUrl: process.env.CURRENCY_RATES_API_URL || 'https://v6.exchangerate-api.com/v6',
+    refreshIntervalMs: parseInt(process.env.CURRENCY_REFRESH_INTERVAL_MS || '3600000', 10), // 1 hour
+    quoteTtlMinutes: parseInt(process.env.CURRENCY_QUOTE_TTL_MINUTES || '30', 10),
+  },
+
+  // Trip lifecycle notification configuration
+  tripNotifications: {
+    checklistDaysBefore: parseInt(process.env.TRIP_CHECKLIST_DAYS_BEFORE || '7', 10),
+    meetingPointHoursBefore: parseInt(process.env.TRIP_MEETING_POINT_HOURS_BEFORE || '24', 10),
+    weatherHoursBefore: parseInt(process.env.TRIP_WEATHER_HOURS_BEFORE || '48', 10),
+    reviewHoursAfter: parseInt(process.env.TRIP_REVIEW_HOURS_AFTER || '24', 10),
+    reviewWindowDays: parseInt(process.env.TRIP_REVIEW_WINDOW_DAYS || '14', 10),
+    weatherProvider: process.env.TRIP_WEATHER_PROVIDER || 'open-meteo', // open-meteo, none
+    weatherApiUrl: process.env.TRIP_WEATHER_API_URL || 'https://api.open-meteo.com/v1/forecast',
+    sweepIntervalMs: parseInt(process.env.TRIP_NOTIFICATION_SWEEP_INTERVAL_MS || '300000', 10), // 5 minutes
+  },
+
+  // Notification campaign configuration
+  campaigns: {
+    // Public URL of the campaign tracking routes, linked from campaign notifications
+    trackingUrl: process.env.CAMPAIGN_TRACKING_URL || `http://localhost:${process.env.PORT || '5000'}/api/campaigns/track`,
+    batchSize: parseInt(process.env.CAMPAIGN_BATCH_SIZE || '500', 10), // Per sweep when not throttled
+    sweepIntervalMs: parseInt(process.env.CAMPAIGN_SWEEP_INTERVAL_MS || '60000', 10), // 1 minute
+  },
+
+  // Collaborative itinerary editing configuration
+  collaboration: {
+    lockTtlMs: parseInt(process.env.COLLABORATION_LOCK_TTL_MS || '120000', 10), // 2 minutes
+  },
+
   // Admin configuration
   admin: {
     emails: process.env.ADMIN_EMAILS?.split(',') || ['admin@ethioai.com'],
@@ -190,6 +302,19 @@ if (missingEnvVars.length > 0) {
   process.exit(1);
 }
 
+// A sandbox completes any payment it is asked to verify, so it must never take real customers
+if (config.payment.sandbox.length > 0) {
+  if (config.server.nodeEnv === 'production') {
+    console.error('PAYMENT_SANDBOX_PROVIDERS must be empty in production:', config.payment.sandbox);
+    process.exit(1);
+  }
+
+  if (!config.payment.sandboxSecret) {
+    console.error('PAYMENT_SANDBOX_SECRET is required when PAYMENT_SANDBOX_PROVIDERS is set');
+    process.exit(1);
+  }
+}
+
 // Warn about missing optional but important configuration
 const importantEnvVars = [
   'EMAIL_HOST',
@@ -1,7 +1,7 @@
 import { Queue, Worker, QueueOptions, WorkerOptions } from 'bullmq'
-import { redisClient, isRedisConnected } from './redis.config'
-import logger from '../utils/logger'
-import { NotificationJob } from '../types/notification.types'
+import { redisClient, redisConfig, isRedisConnected } from './redis.config'
+import { logger } from '../utils/logger'
+import { DeadLetterJob, NotificationJob } from '../types/notification.types'
 
 // Queue configuration with graceful fallback
 const queueOptions: QueueOptions = {
@@ -18,8 +18,13 @@ const queueOptions: QueueOptions = {
 }
 
 // Worker configuration
+// Workers block waiting for jobs, BullMQ needs their connection to retry commands indefinitely
 const workerOptions: WorkerOptions = {
-  connection: redisClient,
+  connection: {
+    ...redisConfig,
+    maxRetriesPerRequest: null,
+    enableOfflineQueue: true,
+  },
   concurrency: 10,         // Process up to 10 jobs concurrently
   maxStalledCount: 1,      // Max number of stalled jobs
   stalledInterval: 30000,  // Check for stalled jobs every 30 seconds
@@ -30,12 +35,21 @@ let notificationQueue: Queue<NotificationJob> | null = null
 let pushNotificationQueue: Queue<NotificationJob> | null = null
 let emailNotificationQueue: Queue<NotificationJob> | null = null
 let smsNotificationQueue: Queue<NotificationJob> | null = null
+// Jobs that exhausted their retries wait here for inspection and manual retry
+let deadLetterQueue: Queue<DeadLetterJob> | null = null
 
 try {
   notificationQueue = new Queue<NotificationJob>('notifications', queueOptions)
   pushNotificationQueue = new Queue<NotificationJob>('push-notifications', queueOptions)
   emailNotificationQueue = new Queue<NotificationJob>('email-notifications', queueOptions)
   smsNotificationQueue = new Queue<NotificationJob>('sms-notifications', queueOptions)
+  deadLetterQueue = new Queue<DeadLetterJob>('dead-letter-notifications', {
+    connection: redisClient,
+    defaultJobOptions: {
+      removeOnComplete: false,
+      removeOnFail: false,
+    },
+  })
   
   // Queue event handlers
   const setupQueueEvents = (queue: Queue, name: string) => {
@@ -49,13 +63,14 @@ try {
   setupQueueEvents(pushNotificationQueue, 'push-notifications')
   setupQueueEvents(emailNotificationQueue, 'email-notifications')
   setupQueueEvents(smsNotificationQueue, 'sms-notifications')
+  setupQueueEvents(deadLetterQueue, 'dead-letter-notifications')
   
   logger.info('✅ Notification queues initialized')
 } catch (error) {
   logger.warn('⚠️ Failed to initialize notification queues - continuing without queue support:', error)
 }
 
-export { notificationQueue, pushNotificationQueue, emailNotificationQueue, smsNotificationQueue }
+export { notificationQueue, pushNotificationQueue, emailNotificationQueue, smsNotificationQueue, deadLetterQueue }
 
 // Queue management utilities with graceful fallback
 export class QueueManager {
@@ -166,6 +181,8 @@ export class QueueManager {
         return emailNotificationQueue
       case 'sms-notifications':
         return smsNotificationQueue
+      case 'dead-letter-notifications':
+        return deadLetterQueue
       default:
         return null
     }
@@ -187,6 +204,7 @@ const gracefulShutdown = async () => {
     if (pushNotificationQueue) closePromises.push(pushNotificationQueue.close())
     if (emailNotificationQueue) closePromises.push(emailNotificationQueue.close())
     if (smsNotificationQueue) closePromises.push(smsNotificationQueue.close())
+    if (deadLetterQueue) closePromises.push(deadLetterQueue.close())
     
     await Promise.all(closePromises)
     logger.info('Notification queues closed')
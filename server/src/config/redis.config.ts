@@ -1,8 +1,8 @@
 import Redis from 'ioredis'
-import logger from '../utils/logger'
+import { logger } from '../utils/logger'
 
 // Redis configuration
-const redisConfig = {
+export const redisConfig = {
   host: process.env.REDIS_HOST || 'localhost',
   port: parseInt(process.env.REDIS_PORT || '6379'),
   password: process.env.REDIS_PASSWORD,
@@ -1,9 +1,38 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middlewares/auth.middleware';
 import { AdminService } from '../services/admin.service';
-import { ResponseUtil } from '../utils/response';
+import { PromoService } from '../services/promo.service';
+import { NotificationTemplateService } from '../services/notification/template.service';
+import { getCampaignService } from '../services/notification/campaign.service';
+import { EmailOutboxService } from '../services/email-outbox.service';
+import { RetrievalService } from '../services/retrieval.service';
+import { prisma } from '../utils/database';
+import { ResponseUtil, calculatePagination } from '../utils/response';
 import { log } from '../utils/logger';
 import { asyncHandler } from '../middlewares/error.middleware';
+import {
+  CreatePromoCodeInput,
+  UpdatePromoCodeInput,
+  PromoCodeQueryInput,
+  PromoReportQueryInput,
+} from '../schemas/promo.schemas';
+import {
+  CampaignAudiencePreviewInput,
+  CampaignQueryInput,
+  CreateCampaignInput,
+  CreateNotificationTemplateInput,
+  NotificationTemplateQueryInput,
+  PreviewNotificationTemplateInput,
+  RollbackNotificationTemplateInput,
+  ScheduleCampaignInput,
+  UpdateCampaignInput,
+  UpdateNotificationTemplateInput,
+} from '../schemas/notification.schemas';
+import { EmailOutboxQueryInput, EmailSuppressionQueryInput } from '../schemas/email.schemas';
+import { NotificationType, TemplateLocale } from '../types/notification.types';
+
+const templateService = new NotificationTemplateService(prisma);
+const campaignService = getCampaignService(prisma);
 
 export class AdminController {
   /**
@@ -491,4 +520,315 @@ export class AdminController {
     
     return ResponseUtil.success(res, exportResult, 'Data export completed successfully');
   });
-}
\ No newline at end of file
+
+  // Promo Code Management
+
+  /**
+   * Get promo codes
+   */
+  static getPromoCodes = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: PromoCodeQueryInput = req.query as any;
+
+    const result = await PromoService.getPromoCodes(query);
+
+    return ResponseUtil.paginated(res, result.promoCodes, result.pagination, 'Promo codes retrieved successfully');
+  });
+
+  /**
+   * Get promo code details with redemption totals
+   */
+  static getPromoCodeDetails = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { promoCodeId } = req.params;
+
+    const promoCode = await PromoService.getPromoCodeById(promoCodeId);
+
+    return ResponseUtil.success(res, { promoCode }, 'Promo code retrieved successfully');
+  });
+
+  /**
+   * Create promo code
+   */
+  static createPromoCode = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: CreatePromoCodeInput = req.body;
+    const adminId = req.userId!;
+
+    const promoCode = await PromoService.createPromoCode(data, adminId);
+
+    return ResponseUtil.created(res, { promoCode }, 'Promo code created successfully');
+  });
+
+  /**
+   * Update promo code
+   */
+  static updatePromoCode = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { promoCodeId } = req.params;
+    const data: UpdatePromoCodeInput = req.body;
+    const adminId = req.userId!;
+
+    const promoCode = await PromoService.updatePromoCode(promoCodeId, data, adminId);
+
+    return ResponseUtil.success(res, { promoCode }, 'Promo code updated successfully');
+  });
+
+  /**
+   * Delete promo code (deactivates codes that were already redeemed)
+   */
+  static deletePromoCode = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { promoCodeId } = req.params;
+    const adminId = req.userId!;
+
+    const result = await PromoService.deletePromoCode(promoCodeId, adminId);
+
+    return ResponseUtil.success(
+      res,
+      result,
+      result.deleted ? 'Promo code deleted successfully' : 'Promo code has redemptions and was deactivated'
+    );
+  });
+
+  /**
+   * Get promo redemption report grouped by campaign
+   */
+  static getPromoRedemptionReport = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: PromoReportQueryInput = req.query as any;
+
+    const campaigns = await PromoService.getRedemptionReport(query);
+
+    return ResponseUtil.success(res, { campaigns }, 'Promo redemption report retrieved successfully');
+  });
+
+  // Notification Templates
+
+  /**
+   * Get the active notification templates
+   */
+  static getNotificationTemplates = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: NotificationTemplateQueryInput = req.query as any;
+
+    const templates = await templateService.listTemplates(query);
+
+    return ResponseUtil.success(res, { templates }, 'Notification templates retrieved successfully');
+  });
+
+  /**
+   * Get every version of a notification template
+   */
+  static getNotificationTemplateVersions = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const type = req.params.type as NotificationType;
+    const locale = req.params.locale as TemplateLocale;
+
+    const versions = await templateService.getVersions(type, locale);
+
+    return ResponseUtil.success(res, { versions }, 'Notification template versions retrieved successfully');
+  });
+
+  /**
+   * Save a notification template as a new active version
+   */
+  static createNotificationTemplate = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: CreateNotificationTemplateInput = req.body;
+
+    const template = await templateService.createVersion(data, req.userId!);
+
+    return ResponseUtil.created(res, { template }, 'Notification template saved');
+  });
+
+  /**
+   * Edit the active notification template, saved as a new version
+   */
+  static updateNotificationTemplate = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const type = req.params.type as NotificationType;
+    const locale = req.params.locale as TemplateLocale;
+    const data: UpdateNotificationTemplateInput = req.body;
+
+    const template = await templateService.updateTemplate(type, locale, data, req.userId!);
+
+    return ResponseUtil.success(res, { template }, 'Notification template updated');
+  });
+
+  /**
+   * Make an earlier notification template version active again
+   */
+  static rollbackNotificationTemplate = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const type = req.params.type as NotificationType;
+    const locale = req.params.locale as TemplateLocale;
+    const data: RollbackNotificationTemplateInput = req.body;
+
+    const template = await templateService.rollback(type, locale, data.version, req.userId!);
+
+    return ResponseUtil.success(res, { template }, `Notification template rolled back to version ${data.version}`);
+  });
+
+  /**
+   * Preview a stored or draft notification template with sample data
+   */
+  static previewNotificationTemplate = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: PreviewNotificationTemplateInput = req.body;
+
+    const preview = await templateService.preview(data.type, data.locale, data.template, data.data);
+
+    return ResponseUtil.success(res, preview, 'Notification template preview rendered');
+  });
+
+  // Notification Campaigns
+
+  /**
+   * Get notification campaigns, newest first
+   */
+  static getCampaigns = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: CampaignQueryInput = req.query as any;
+
+    const result = await campaignService.listCampaigns(query);
+
+    return ResponseUtil.paginated(
+      res,
+      result.campaigns,
+      calculatePagination(query.page, query.limit, result.total),
+      'Campaigns retrieved successfully'
+    );
+  });
+
+  /**
+   * Get a notification campaign with its analytics
+   */
+  static getCampaign = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const campaign = await campaignService.getCampaign(req.params.id);
+    const analytics = await campaignService.getAnalytics(req.params.id);
+
+    return ResponseUtil.success(res, { campaign, analytics }, 'Campaign retrieved successfully');
+  });
+
+  /**
+   * Create a notification campaign as a draft
+   */
+  static createCampaign = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: CreateCampaignInput = req.body;
+
+    const campaign = await campaignService.createCampaign(data, req.userId!);
+
+    log.admin('Campaign created', req.userId!, { campaignId: campaign.id, name: campaign.name });
+
+    return ResponseUtil.created(res, { campaign }, 'Campaign created');
+  });
+
+  /**
+   * Edit a draft or scheduled notification campaign
+   */
+  static updateCampaign = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: UpdateCampaignInput = req.body;
+
+    const campaign = await campaignService.updateCampaign(req.params.id, data);
+
+    return ResponseUtil.success(res, { campaign }, 'Campaign updated');
+  });
+
+  /**
+   * Count the users a segment reaches, with a sample of them
+   */
+  static previewCampaignAudience = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: CampaignAudiencePreviewInput = req.body;
+
+    const preview = await campaignService.previewAudience(data.segment, data.sampleSize);
+
+    return ResponseUtil.success(res, preview, 'Campaign audience counted');
+  });
+
+  /**
+   * Schedule a notification campaign, or send it now
+   */
+  static scheduleCampaign = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: ScheduleCampaignInput = req.body;
+
+    const campaign = await campaignService.scheduleCampaign(req.params.id, data.scheduledAt);
+
+    log.admin('Campaign scheduled', req.userId!, { campaignId: campaign.id, scheduledAt: campaign.scheduledAt });
+
+    return ResponseUtil.success(res, { campaign }, 'Campaign scheduled');
+  });
+
+  /**
+   * Cancel a notification campaign that has not finished sending
+   */
+  static cancelCampaign = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const campaign = await campaignService.cancelCampaign(req.params.id);
+
+    log.admin('Campaign cancelled', req.userId!, { campaignId: campaign.id });
+
+    return ResponseUtil.success(res, { campaign }, 'Campaign cancelled');
+  });
+
+  /**
+   * Get delivery, open and click counts for a notification campaign
+   */
+  static getCampaignAnalytics = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const analytics = await campaignService.getAnalytics(req.params.id);
+
+    return ResponseUtil.success(res, { analytics }, 'Campaign analytics retrieved successfully');
+  });
+
+  // Email Outbox
+
+  /**
+   * Get outbox emails, newest first
+   */
+  static getOutboxEmails = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: EmailOutboxQueryInput = req.query as any;
+
+    const result = await EmailOutboxService.listEmails(query);
+
+    return ResponseUtil.paginated(res, result.emails, result.pagination, 'Outbox emails retrieved successfully');
+  });
+
+  /**
+   * Get an outbox email with its content
+   */
+  static getOutboxEmail = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const email = await EmailOutboxService.getEmail(req.params.id);
+
+    return ResponseUtil.success(res, { email }, 'Outbox email retrieved successfully');
+  });
+
+  /**
+   * Queue a copy of an outbox email
+   */
+  static resendOutboxEmail = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const email = await EmailOutboxService.resendEmail(req.params.id);
+
+    log.admin('Email resent', req.userId!, { emailId: email.id, originalId: req.params.id, to: email.to });
+
+    return ResponseUtil.created(res, { email }, 'Email queued for resending');
+  });
+
+  /**
+   * Get the addresses that bounced or complained
+   */
+  static getEmailSuppressions = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: EmailSuppressionQueryInput = req.query as any;
+
+    const result = await EmailOutboxService.listSuppressions(query);
+
+    return ResponseUtil.paginated(res, result.suppressions, result.pagination, 'Email suppressions retrieved successfully');
+  });
+
+  /**
+   * Email a suppressed address again
+   */
+  static removeEmailSuppression = asyncHandler(async (req: AuthRequest, res: Response) => {
+    await EmailOutboxService.removeSuppression(req.params.id);
+
+    log.admin('Email suppression removed', req.userId!, { suppressionId: req.params.id });
+
+    return ResponseUtil.success(res, null, 'Email suppression removed');
+  });
+
+  /**
+   * Bring the chat retrieval index up to date now instead of waiting for the refresh worker
+   */
+  static reindexRetrieval = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const result = await RetrievalService.reindex();
+
+    log.admin('Retrieval index refreshed', req.userId!, { ...result });
+
+    return ResponseUtil.success(res, result, 'Retrieval index refreshed');
+  });
+}
@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middlewares/auth.middleware';
 import { AuthService } from '../services/auth.service';
+import { CartService, CART_TOKEN_HEADER } from '../services/cart.service';
 import { ResponseUtil } from '../utils/response';
 import { log } from '../utils/logger';
 import { asyncHandler } from '../middlewares/error.middleware';
@@ -15,6 +16,22 @@ import {
 } from '../schemas/auth.schemas';
 
 export class AuthController {
+  /**
+   * Carry over the cart the user filled as a guest. Signing in must not fail because of it.
+   */
+  private static async mergeGuestCart(req: AuthRequest, userId: string): Promise<void> {
+    const guestToken = req.get(CART_TOKEN_HEADER);
+    if (!guestToken) {
+      return;
+    }
+
+    try {
+      await CartService.mergeGuestCart(guestToken, userId);
+    } catch (error: any) {
+      log.error('Failed to merge guest cart', { userId, error: error.message });
+    }
+  }
+
   /**
    * Register a new user
    */
@@ -29,6 +46,8 @@ export class AuthController {
       userAgent: req.get('User-Agent'),
     });
 
+    await AuthController.mergeGuestCart(req, result.user.id);
+
     return ResponseUtil.created(res, {
       user: result.user,
       tokens: result.tokens,
@@ -51,6 +70,8 @@ export class AuthController {
         rememberMe: data.rememberMe,
       });
 
+      await AuthController.mergeGuestCart(req, result.user.id);
+
       return ResponseUtil.success(res, {
         user: result.user,
         tokens: result.tokens,
@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middlewares/auth.middleware';
 import { BookingService } from '../services/booking.service';
+import { CancellationService } from '../services/cancellation.service';
 import { ResponseUtil } from '../utils/response';
 import { log } from '../utils/logger';
 import { asyncHandler } from '../middlewares/error.middleware';
@@ -13,6 +14,7 @@ import {
   CancelBookingInput,
   BookingStatsQueryInput
 } from '../schemas/booking.schemas';
+import { LockQuoteInput } from '../schemas/currency.schemas';
 
 export class BookingController {
   /**
@@ -90,16 +92,44 @@ export class BookingController {
     const data: CancelBookingInput = req.body;
     const userId = req.userId!;
     
-    const booking = await BookingService.cancelBooking(id, data, userId);
+    const { booking, quote, refunds } = await CancellationService.cancelBooking(id, data, userId);
     
     log.info('Booking cancelled via API', { 
       bookingId: id, 
       userId, 
       reason: data.reason,
+      refunds: refunds.length,
       ip: req.ip 
     });
 
-    return ResponseUtil.success(res, { booking }, 'Booking cancelled successfully');
+    return ResponseUtil.success(res, { booking, quote, refunds }, 'Booking cancelled successfully');
+  });
+
+  /**
+   * Show what cancelling a booking now would refund
+   * GET /api/bookings/:id/cancellation-quote
+   */
+  static getCancellationQuote = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.userId!;
+
+    const quote = await CancellationService.quoteCancellation(id, userId);
+
+    return ResponseUtil.success(res, { quote }, 'Cancellation quote retrieved successfully');
+  });
+
+  /**
+   * Lock a new price quote for a pending booking
+   * POST /api/bookings/:id/quote
+   */
+  static lockQuote = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const data: LockQuoteInput = req.body;
+    const userId = req.userId!;
+
+    const booking = await BookingService.lockQuote(id, data.currency, userId);
+
+    return ResponseUtil.success(res, { booking }, 'Price quote locked');
   });
 
   /**
@@ -130,7 +160,7 @@ export class BookingController {
   static validatePromoCode = asyncHandler(async (req: AuthRequest, res: Response) => {
     const data: ValidatePromoCodeInput = req.body;
     
-    const result = await BookingService.validatePromoCode(data);
+    const result = await BookingService.validatePromoCode(data, req.userId);
     
     if (!result.valid) {
       return ResponseUtil.badRequest(res, result.message || 'Invalid promo code');
@@ -0,0 +1,34 @@
+import { Request, Response } from 'express';
+import { getCampaignService } from '../services/notification/campaign.service';
+import { prisma } from '../utils/database';
+import { asyncHandler } from '../middlewares/error.middleware';
+
+const campaignService = getCampaignService(prisma);
+
+// 1x1 transparent GIF
+const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+export class CampaignController {
+  /**
+   * Record a campaign email being opened
+   * GET /api/campaigns/track/:id/open
+   */
+  static trackOpen = asyncHandler(async (req: Request, res: Response) => {
+    await campaignService.trackOpen(req.params.id);
+
+    res.setHeader('Content-Type', 'image/gif');
+    res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+    return res.send(TRACKING_PIXEL);
+  });
+
+  /**
+   * Record a campaign link being clicked and follow it
+   * GET /api/campaigns/track/:id/click
+   */
+  static trackClick = asyncHandler(async (req: Request, res: Response) => {
+    const url = await campaignService.trackClick(req.params.id);
+
+    res.setHeader('Cache-Control', 'no-store');
+    return res.redirect(302, url);
+  });
+}
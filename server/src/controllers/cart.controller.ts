@@ -0,0 +1,108 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { CartService, CartOwner, CART_TOKEN_HEADER } from '../services/cart.service';
+import { ResponseUtil } from '../utils/response';
+import { asyncHandler } from '../middlewares/error.middleware';
+import {
+  AddCartItemInput,
+  UpdateCartItemInput,
+  ApplyCartPromoInput,
+  CartQueryInput,
+} from '../schemas/cart.schemas';
+
+/**
+ * Signed-in users are identified by their token, guests by the cart token header
+ */
+const cartOwner = (req: AuthRequest): CartOwner => ({
+  userId: req.userId,
+  guestToken: req.get(CART_TOKEN_HEADER) || undefined,
+});
+
+export class CartController {
+  /**
+   * Get the cart, re-priced and with availability re-checked
+   * GET /api/cart
+   */
+  static getCart = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: CartQueryInput = req.query as any;
+
+    const cart = await CartService.getCart(cartOwner(req), query.currency);
+
+    return ResponseUtil.success(res, { cart }, 'Cart retrieved successfully');
+  });
+
+  /**
+   * Add a tour booking or product
+   * POST /api/cart/items
+   */
+  static addItem = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: AddCartItemInput = req.body;
+    const query: CartQueryInput = req.query as any;
+
+    const cart = await CartService.addItem(cartOwner(req), data, query.currency);
+
+    return ResponseUtil.success(res, { cart }, 'Item added to cart');
+  });
+
+  /**
+   * Update an item
+   * PATCH /api/cart/items/:id
+   */
+  static updateItem = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: UpdateCartItemInput = req.body;
+    const query: CartQueryInput = req.query as any;
+
+    const cart = await CartService.updateItem(cartOwner(req), req.params.id, data, query.currency);
+
+    return ResponseUtil.success(res, { cart }, 'Cart item updated');
+  });
+
+  /**
+   * Remove an item
+   * DELETE /api/cart/items/:id
+   */
+  static removeItem = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: CartQueryInput = req.query as any;
+
+    const cart = await CartService.removeItem(cartOwner(req), req.params.id, query.currency);
+
+    return ResponseUtil.success(res, { cart }, 'Item removed from cart');
+  });
+
+  /**
+   * Empty the cart
+   * DELETE /api/cart
+   */
+  static clearCart = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: CartQueryInput = req.query as any;
+
+    const cart = await CartService.clearCart(cartOwner(req), query.currency);
+
+    return ResponseUtil.success(res, { cart }, 'Cart cleared');
+  });
+
+  /**
+   * Apply a promo code
+   * POST /api/cart/promo
+   */
+  static applyPromoCode = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: ApplyCartPromoInput = req.body;
+    const query: CartQueryInput = req.query as any;
+
+    const cart = await CartService.applyPromoCode(cartOwner(req), data.code, query.currency);
+
+    return ResponseUtil.success(res, { cart }, 'Promo code applied');
+  });
+
+  /**
+   * Remove the promo code
+   * DELETE /api/cart/promo
+   */
+  static removePromoCode = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: CartQueryInput = req.query as any;
+
+    const cart = await CartService.removePromoCode(cartOwner(req), query.currency);
+
+    return ResponseUtil.success(res, { cart }, 'Promo code removed');
+  });
+}
@@ -10,7 +10,10 @@ import {
   UpdateMessageInput,
   CreateChatSessionInput,
   ChatFeedbackInput,
-  ChatStatsQueryInput
+  ChatStatsQueryInput,
+  ConversationQueryInput,
+  ConversationMessagesQueryInput,
+  UpdateConversationInput
 } from '../schemas/chat.schemas';
 
 export class ChatController {
@@ -26,17 +29,153 @@ export class ChatController {
     
     log.info('Chat message sent via API', { 
       userId, 
-      messageId: result.userMessage.id,
-      responseId: result.aiResponse.id,
+      conversationId: result.conversation?.id,
+      messageId: result.message.id,
       ip: req.ip 
     });
 
     return ResponseUtil.success(res, {
-      userMessage: result.userMessage,
-      aiResponse: result.aiResponse,
+      conversation: result.conversation,
+      message: result.message,
     }, 'Message sent successfully');
   });
 
+  /**
+   * Send a message and stream the AI response as Server-Sent Events:
+   * `start`, then `token` events as text arrives and a `tool` event with the cards of
+   * each catalog lookup, then `done` with the stored message.
+   * Closing the connection stops the response.
+   * POST /api/chat/messages/stream
+   */
+  static streamMessage = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: SendMessageInput = req.body;
+    const userId = req.userId; // Optional for anonymous chat
+    const abort = new AbortController();
+
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abort.abort();
+      }
+    });
+
+    const send = (event: string, payload: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+    };
+
+    try {
+      const result = await ChatService.streamMessage(data, userId, {
+        signal: abort.signal,
+        // Errors before the stream opens are still sent as normal JSON errors
+        onStart: (stream) => {
+          res.status(200);
+          res.setHeader('Content-Type', 'text/event-stream');
+          res.setHeader('Cache-Control', 'no-cache, no-transform');
+          res.setHeader('Connection', 'keep-alive');
+          res.setHeader('X-Accel-Buffering', 'no');
+          res.flushHeaders();
+          send('start', stream);
+        },
+        onToken: (text) => send('token', { text }),
+        onTool: (tool) => send('tool', tool),
+      });
+
+      log.info('Chat message streamed via API', {
+        userId,
+        conversationId: result.conversation?.id,
+        messageId: result.message?.id,
+        stopped: result.stopped,
+        ip: req.ip,
+      });
+
+      if (!result.stopped) {
+        send('done', { conversation: result.conversation, message: result.message });
+        res.end();
+      }
+    } catch (error: any) {
+      if (!res.headersSent) {
+        throw error;
+      }
+
+      log.error('Chat stream failed', { userId, error: error.message });
+      send('error', { message: 'The assistant stopped responding. Please try again.' });
+      res.end();
+    }
+  });
+
+  /**
+   * Get the current user's conversations
+   * GET /api/chat/conversations
+   */
+  static getConversations = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: ConversationQueryInput = req.query as any;
+    const userId = req.userId!;
+    
+    const result = await ChatService.getConversations(query, userId);
+    
+    return ResponseUtil.paginated(
+      res, 
+      result.conversations, 
+      result.pagination, 
+      'Conversations retrieved successfully'
+    );
+  });
+
+  /**
+   * Start an empty conversation
+   * POST /api/chat/conversations
+   */
+  static createConversation = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: CreateChatSessionInput = req.body;
+    const userId = req.userId!;
+    
+    const conversation = await ChatService.createConversation(data, userId);
+    
+    return ResponseUtil.created(res, { conversation }, 'Conversation created successfully');
+  });
+
+  /**
+   * Get a conversation with its messages, for resuming it
+   * GET /api/chat/conversations/:id
+   */
+  static getConversation = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const query: ConversationMessagesQueryInput = req.query as any;
+    const userId = req.userId!;
+    
+    const result = await ChatService.getConversation(id, userId, query);
+    
+    return ResponseUtil.success(res, result, 'Conversation retrieved successfully');
+  });
+
+  /**
+   * Rename or archive a conversation
+   * PATCH /api/chat/conversations/:id
+   */
+  static updateConversation = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const data: UpdateConversationInput = req.body;
+    const userId = req.userId!;
+    
+    const conversation = await ChatService.updateConversation(id, data, userId);
+    
+    return ResponseUtil.success(res, { conversation }, 'Conversation updated successfully');
+  });
+
+  /**
+   * Delete a conversation and its messages
+   * DELETE /api/chat/conversations/:id
+   */
+  static deleteConversation = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.userId!;
+    
+    await ChatService.deleteConversation(id, userId);
+    
+    log.info('Chat conversation deleted via API', { conversationId: id, userId, ip: req.ip });
+
+    return ResponseUtil.success(res, null, 'Conversation deleted successfully');
+  });
+
   /**
    * Get chat messages with filtering and pagination
    * GET /api/chat/messages
@@ -0,0 +1,52 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { CheckoutService } from '../services/checkout.service';
+import { ResponseUtil } from '../utils/response';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { CreateCheckoutSessionInput, PayCheckoutSessionInput } from '../schemas/checkout.schemas';
+
+export class CheckoutController {
+  /**
+   * Check out the cart, holding seats and stock until it is paid
+   * POST /api/checkout/sessions
+   */
+  static createSession = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: CreateCheckoutSessionInput = req.body;
+
+    const session = await CheckoutService.createSession(req.userId!, data);
+
+    return ResponseUtil.created(res, { session }, 'Checkout session created successfully');
+  });
+
+  /**
+   * Get a checkout session with its bookings, order and payments
+   * GET /api/checkout/sessions/:id
+   */
+  static getSession = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const session = await CheckoutService.getSession(req.params.id, req.userId!);
+
+    return ResponseUtil.success(res, { session }, 'Checkout session retrieved successfully');
+  });
+
+  /**
+   * Pay for a checkout session with any provider
+   * POST /api/checkout/sessions/:id/pay
+   */
+  static pay = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: PayCheckoutSessionInput = req.body;
+
+    const result = await CheckoutService.pay(req.params.id, data, req.userId!);
+
+    return ResponseUtil.created(res, result, 'Payment initialized successfully');
+  });
+
+  /**
+   * Abandon an unpaid checkout session, releasing its holds
+   * POST /api/checkout/sessions/:id/cancel
+   */
+  static cancelSession = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const session = await CheckoutService.cancelSession(req.params.id, req.userId!);
+
+    return ResponseUtil.success(res, { session }, 'Checkout session cancelled successfully');
+  });
+}
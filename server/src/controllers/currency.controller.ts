@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { CurrencyService } from '../services/currency.service';
+import { ResponseUtil } from '../utils/response';
+import { log } from '../utils/logger';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { config } from '../config';
+import { ConvertAmountQueryInput, ExchangeRatesQueryInput } from '../schemas/currency.schemas';
+
+export class CurrencyController {
+  /**
+   * Get supported currencies and current rates
+   * GET /api/currencies
+   */
+  static getCurrencies = asyncHandler(async (req: Request, res: Response) => {
+    const query: ExchangeRatesQueryInput = req.query as any;
+
+    const rates = await CurrencyService.getRates(query.base);
+
+    return ResponseUtil.success(res, {
+      currencies: CurrencyService.getSupportedCurrencies(),
+      default: config.currency.default,
+      ...rates,
+    }, 'Currencies retrieved successfully');
+  });
+
+  /**
+   * Convert an amount between currencies
+   * GET /api/currencies/convert
+   */
+  static convert = asyncHandler(async (req: Request, res: Response) => {
+    const query: ConvertAmountQueryInput = req.query as any;
+
+    const conversion = await CurrencyService.convert(query.amount, query.from, query.to);
+
+    return ResponseUtil.success(res, { conversion }, 'Amount converted successfully');
+  });
+
+  /**
+   * Refresh rates from the provider (admin only)
+   * POST /api/currencies/rates/refresh
+   */
+  static refreshRates = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const updated = await CurrencyService.refreshRates();
+
+    log.info('Exchange rates refreshed via API', { userId: req.userId, updated, ip: req.ip });
+
+    return ResponseUtil.success(res, { updated }, 'Exchange rates refreshed');
+  });
+}
@@ -0,0 +1,94 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { DepartureService } from '../services/departure.service';
+import { WaitlistService } from '../services/waitlist.service';
+import { ResponseUtil } from '../utils/response';
+import { log } from '../utils/logger';
+import { asyncHandler } from '../middlewares/error.middleware';
+import {
+  CreateDepartureInput,
+  UpdateDepartureInput,
+  DepartureQueryInput,
+} from '../schemas/departure.schemas';
+
+export class DepartureController {
+  /**
+   * List scheduled departures for a tour
+   * GET /api/tours/:id/departures
+   */
+  static getDepartures = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const query: DepartureQueryInput = req.query as any;
+
+    const departures = await DepartureService.listDepartures(id, query);
+
+    const result = departures.map((departure) => ({
+      ...departure,
+      spotsLeft: DepartureService.getSeatsLeft(departure),
+      bookable: DepartureService.getBookability(departure).bookable,
+    }));
+
+    return ResponseUtil.success(res, { departures: result }, 'Departures retrieved successfully');
+  });
+
+  /**
+   * Get a single departure
+   * GET /api/tours/:id/departures/:departureId
+   */
+  static getDepartureById = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id, departureId } = req.params;
+
+    const departure = await DepartureService.getDepartureById(departureId, id);
+
+    return ResponseUtil.success(res, {
+      departure: {
+        ...departure,
+        spotsLeft: DepartureService.getSeatsLeft(departure),
+        bookable: DepartureService.getBookability(departure).bookable,
+      },
+    }, 'Departure retrieved successfully');
+  });
+
+  /**
+   * Schedule a departure (Guide/Admin only)
+   * POST /api/tours/:id/departures
+   */
+  static createDeparture = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const data: CreateDepartureInput = req.body;
+
+    const departure = await DepartureService.createDeparture(id, data);
+
+    log.info('Tour departure created via API', {
+      departureId: departure.id,
+      tourId: id,
+      userId: req.userId,
+      ip: req.ip,
+    });
+
+    return ResponseUtil.created(res, { departure }, 'Departure created successfully');
+  });
+
+  /**
+   * Update a departure (Guide/Admin only)
+   * PUT /api/tours/:id/departures/:departureId
+   */
+  static updateDeparture = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id, departureId } = req.params;
+    const data: UpdateDepartureInput = req.body;
+
+    const departure = await DepartureService.updateDeparture(id, departureId, data);
+
+    log.info('Tour departure updated via API', {
+      departureId,
+      tourId: id,
+      userId: req.userId,
+      ip: req.ip,
+    });
+
+    // Added capacity or a reopened departure can serve the waitlist
+    await WaitlistService.offerReleasedSeats(departure.id);
+
+    return ResponseUtil.success(res, { departure }, 'Departure updated successfully');
+  });
+}
@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middlewares/auth.middleware';
 import { ItineraryService } from '../services/itinerary.service';
+import { ItineraryCollaborationService } from '../services/itinerary-collaboration.service';
 import { ResponseUtil } from '../utils/response';
 import { log } from '../utils/logger';
 import { asyncHandler } from '../middlewares/error.middleware';
@@ -9,16 +10,21 @@ import {
   UpdateItineraryInput, 
   ItineraryQueryInput,
   ShareItineraryInput,
+  CopyItineraryInput,
   ItineraryStatsQueryInput,
   ItineraryRecommendationInput,
   ItineraryExportInput,
-  ItineraryOptimizationInput
+  ItineraryOptimizationInput,
+  ItineraryCollaborationInput,
+  AddItineraryItemInput,
+  UpdateItineraryItemInput,
+  UpdateItineraryDayInput
 } from '../schemas/itinerary.schemas';
 
 export class ItineraryController {
   /**
    * Create itinerary
-   * POST /api/itinerary
+   * POST /api/itineraries
    */
   static createItinerary = asyncHandler(async (req: AuthRequest, res: Response) => {
     const data: CreateItineraryInput = req.body;
@@ -38,7 +44,7 @@ export class ItineraryController {
 
   /**
    * Get itineraries with filtering and pagination
-   * GET /api/itinerary
+   * GET /api/itineraries
    */
   static getItineraries = asyncHandler(async (req: AuthRequest, res: Response) => {
     const query: ItineraryQueryInput = req.query as any;
@@ -56,7 +62,7 @@ export class ItineraryController {
 
   /**
    * Get itinerary by ID or share token
-   * GET /api/itinerary/:id
+   * GET /api/itineraries/:id
    */
   static getItineraryById = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
@@ -69,14 +75,21 @@ export class ItineraryController {
 
   /**
    * Update itinerary
-   * PUT /api/itinerary/:id
+   * PUT /api/itineraries/:id
    */
   static updateItinerary = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const data: UpdateItineraryInput = req.body;
     const userId = req.userId!;
+
+    // Replacing the day plan would overwrite fields collaborators are editing right now
+    if (data.days) {
+      ItineraryCollaborationService.assertUnlocked(id, userId);
+    }
     
     const itinerary = await ItineraryService.updateItinerary(id, data, userId);
+
+    ItineraryCollaborationService.emit(id, 'itinerary:updated', { itineraryId: id, updatedBy: userId });
     
     log.info('Itinerary updated via API', { itineraryId: id, userId, ip: req.ip });
 
@@ -85,13 +98,15 @@ export class ItineraryController {
 
   /**
    * Delete itinerary
-   * DELETE /api/itinerary/:id
+   * DELETE /api/itineraries/:id
    */
   static deleteItinerary = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const userId = req.userId!;
     
     await ItineraryService.deleteItinerary(id, userId);
+
+    ItineraryCollaborationService.emit(id, 'itinerary:deleted', { itineraryId: id });
     
     log.info('Itinerary deleted via API', { itineraryId: id, userId, ip: req.ip });
 
@@ -100,7 +115,7 @@ export class ItineraryController {
 
   /**
    * Share itinerary
-   * POST /api/itinerary/:id/share
+   * POST /api/itineraries/:id/share
    */
   static shareItinerary = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
@@ -119,9 +134,150 @@ export class ItineraryController {
     return ResponseUtil.success(res, shareInfo, 'Itinerary shared successfully');
   });
 
+  /**
+   * Get the owner and collaborators of an itinerary
+   * GET /api/itineraries/:id/collaborators
+   */
+  static getCollaborators = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.userId!;
+
+    const collaborators = await ItineraryService.getCollaborators(id, userId);
+
+    return ResponseUtil.success(
+      res,
+      { collaborators, online: ItineraryCollaborationService.getParticipants(id) },
+      'Collaborators retrieved successfully'
+    );
+  });
+
+  /**
+   * Invite a collaborator or change their role
+   * POST /api/itineraries/:id/collaborators
+   */
+  static addCollaborator = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const data: ItineraryCollaborationInput = req.body;
+    const userId = req.userId!;
+
+    const collaborator = await ItineraryService.addCollaborator(id, data, userId);
+
+    ItineraryCollaborationService.updateMemberRole(id, collaborator.userId, collaborator.role);
+
+    log.info('Itinerary collaborator added via API', {
+      itineraryId: id,
+      userId,
+      collaboratorId: collaborator.userId,
+      ip: req.ip
+    });
+
+    return ResponseUtil.created(res, { collaborator }, 'Collaborator added successfully');
+  });
+
+  /**
+   * Remove a collaborator, or leave an itinerary shared with you
+   * DELETE /api/itineraries/:id/collaborators/:userId
+   */
+  static removeCollaborator = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id, userId: collaboratorId } = req.params;
+    const userId = req.userId!;
+
+    await ItineraryService.removeCollaborator(id, collaboratorId, userId);
+
+    ItineraryCollaborationService.updateMemberRole(id, collaboratorId, null);
+
+    log.info('Itinerary collaborator removed via API', { itineraryId: id, userId, collaboratorId, ip: req.ip });
+
+    return ResponseUtil.success(res, null, 'Collaborator removed successfully');
+  });
+
+  /**
+   * Add an item to a day
+   * POST /api/itineraries/:id/days/:dayNumber/items
+   */
+  static addItem = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const dayNumber = Number(req.params.dayNumber);
+    const data: AddItineraryItemInput = req.body;
+    const userId = req.userId!;
+
+    const result = await ItineraryService.addItem(id, dayNumber, data, userId);
+
+    ItineraryCollaborationService.emit(id, 'item:added', { itineraryId: id, ...result, updatedBy: userId });
+
+    return ResponseUtil.created(res, result, 'Item added successfully');
+  });
+
+  /**
+   * Update some fields of an item; fields locked by another collaborator are rejected
+   * PATCH /api/itineraries/:id/items/:itemId
+   */
+  static updateItem = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id, itemId } = req.params;
+    const data: UpdateItineraryItemInput = req.body;
+    const userId = req.userId!;
+
+    const fields = Object.keys(data).filter((field) => field !== 'dayNumber' && field !== 'position');
+    ItineraryCollaborationService.assertUnlocked(id, userId, itemId, fields);
+
+    const result = await ItineraryService.updateItem(id, itemId, data, userId);
+
+    ItineraryCollaborationService.emit(id, 'item:updated', {
+      itineraryId: id,
+      ...result,
+      fields,
+      updatedBy: userId,
+    });
+
+    return ResponseUtil.success(res, result, 'Item updated successfully');
+  });
+
+  /**
+   * Delete an item
+   * DELETE /api/itineraries/:id/items/:itemId
+   */
+  static deleteItem = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id, itemId } = req.params;
+    const userId = req.userId!;
+
+    ItineraryCollaborationService.assertUnlocked(id, userId, itemId);
+
+    const { dayNumber } = await ItineraryService.deleteItem(id, itemId, userId);
+
+    ItineraryCollaborationService.releaseTarget(id, itemId);
+    ItineraryCollaborationService.emit(id, 'item:deleted', { itineraryId: id, itemId, dayNumber, updatedBy: userId });
+
+    return ResponseUtil.success(res, null, 'Item deleted successfully');
+  });
+
+  /**
+   * Update the title or notes of a day
+   * PATCH /api/itineraries/:id/days/:dayNumber
+   */
+  static updateDay = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const dayNumber = Number(req.params.dayNumber);
+    const data: UpdateItineraryDayInput = req.body;
+    const userId = req.userId!;
+
+    ItineraryCollaborationService.assertUnlocked(id, userId, `day:${dayNumber}`, Object.keys(data));
+
+    const day = await ItineraryService.updateDay(id, dayNumber, data, userId);
+
+    ItineraryCollaborationService.emit(id, 'day:updated', {
+      itineraryId: id,
+      dayNumber,
+      title: day.title,
+      notes: day.notes,
+      updatedBy: userId,
+    });
+
+    return ResponseUtil.success(res, { day }, 'Day updated successfully');
+  });
+
   /**
    * Get itinerary recommendations
-   * POST /api/itinerary/recommendations
+   * POST /api/itineraries/recommendations
    */
   static getRecommendations = asyncHandler(async (req: AuthRequest, res: Response) => {
     const data: ItineraryRecommendationInput = req.body;
@@ -133,14 +289,18 @@ export class ItineraryController {
 
   /**
    * Optimize itinerary
-   * POST /api/itinerary/:id/optimize
+   * POST /api/itineraries/:id/optimize
    */
   static optimizeItinerary = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const data: ItineraryOptimizationInput = req.body;
     const userId = req.userId!;
     
+    ItineraryCollaborationService.assertUnlocked(id, userId);
+
     const itinerary = await ItineraryService.optimizeItinerary(id, data, userId);
+
+    ItineraryCollaborationService.emit(id, 'itinerary:updated', { itineraryId: id, updatedBy: userId });
     
     log.info('Itinerary optimized via API', { 
       itineraryId: id, 
@@ -154,64 +314,50 @@ export class ItineraryController {
 
   /**
    * Export itinerary
-   * GET /api/itinerary/:id/export
+   * GET /api/itineraries/:id/export
    */
   static exportItinerary = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const data: ItineraryExportInput = req.query as any;
     const userId = req.userId;
     
-    const exportData = await ItineraryService.exportItinerary(id, data, userId);
+    const file = await ItineraryService.exportItinerary(id, data, userId);
     
-    // Set appropriate headers for download
-    const format = data.format || 'json';
-    const filename = `itinerary-${id}-${new Date().toISOString().split('T')[0]}.${format}`;
-    
-    let contentType = 'application/json';
-    if (format === 'csv') contentType = 'text/csv';
-    else if (format === 'pdf') contentType = 'application/pdf';
-    else if (format === 'ical') contentType = 'text/calendar';
-    
-    res.setHeader('Content-Type', contentType);
-    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
     
     log.info('Itinerary exported via API', { 
       itineraryId: id, 
       userId, 
-      format,
+      format: data.format || 'json',
       ip: req.ip 
     });
 
-    return res.send(exportData);
+    return res.send(file.content);
   });
 
   /**
    * Get user's itineraries
-   * GET /api/itinerary/my-itineraries
+   * GET /api/itineraries/my-itineraries
    */
   static getMyItineraries = asyncHandler(async (req: AuthRequest, res: Response) => {
     const userId = req.userId!;
     const query: ItineraryQueryInput = req.query as any;
     
-    // Force filter to user's itineraries only
-    const userQuery = { ...query };
-    
-    const result = await ItineraryService.getItineraries(userQuery, userId);
-    
-    // Filter to only user's own itineraries
-    const userItineraries = result.itineraries.filter(itinerary => itinerary.userId === userId);
+    // The user's own itineraries and those shared with them, including private ones
+    const result = await ItineraryService.getItineraries({ ...query, isPublic: false }, userId);
     
     return ResponseUtil.paginated(
       res, 
-      userItineraries, 
-      { ...result.pagination, total: userItineraries.length }, 
+      result.itineraries, 
+      result.pagination, 
       'Your itineraries retrieved successfully'
     );
   });
 
   /**
    * Get public itineraries
-   * GET /api/itinerary/public
+   * GET /api/itineraries/public
    */
   static getPublicItineraries = asyncHandler(async (req: AuthRequest, res: Response) => {
     const query: ItineraryQueryInput = { 
@@ -231,7 +377,7 @@ export class ItineraryController {
 
   /**
    * Get shared itinerary by token
-   * GET /api/itinerary/shared/:token
+   * GET /api/itineraries/shared/:token
    */
   static getSharedItinerary = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { token } = req.params;
@@ -243,29 +389,14 @@ export class ItineraryController {
 
   /**
    * Copy/clone itinerary
-   * POST /api/itinerary/:id/copy
+   * POST /api/itineraries/:id/copy
    */
   static copyItinerary = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
-    const { title } = req.body;
+    const { title }: CopyItineraryInput = req.body;
     const userId = req.userId!;
     
-    // Get the original itinerary
-    const originalItinerary = await ItineraryService.getItineraryById(id, userId);
-    
-    // Create a copy
-    const copyData: CreateItineraryInput = {
-      title: title || `Copy of ${originalItinerary.title}`,
-      description: originalItinerary.description || undefined,
-      startDate: originalItinerary.startDate.toISOString().split('T')[0],
-      endDate: originalItinerary.endDate.toISOString().split('T')[0],
-      destinations: originalItinerary.destinations as any,
-      activities: originalItinerary.activities as any,
-      budget: originalItinerary.budget || undefined,
-      isPublic: false, // Copies are private by default
-    };
-    
-    const copiedItinerary = await ItineraryService.createItinerary(copyData, userId);
+    const copiedItinerary = await ItineraryService.copyItinerary(id, userId, title);
     
     log.info('Itinerary copied via API', { 
       originalId: id,
@@ -279,7 +410,7 @@ export class ItineraryController {
 
   /**
    * Get itinerary statistics (admin only)
-   * GET /api/itinerary/stats
+   * GET /api/itineraries/admin/stats
    */
   static getItineraryStats = asyncHandler(async (req: AuthRequest, res: Response) => {
     const query: ItineraryStatsQueryInput = req.query as any;
@@ -291,7 +422,7 @@ export class ItineraryController {
 
   /**
    * Get popular destinations from itineraries
-   * GET /api/itinerary/popular-destinations
+   * GET /api/itineraries/popular-destinations
    */
   static getPopularDestinations = asyncHandler(async (req: AuthRequest, res: Response) => {
     const limit = parseInt(req.query.limit as string) || 10;
@@ -331,19 +462,19 @@ export class ItineraryController {
 
   /**
    * Search itineraries
-   * GET /api/itinerary/search
+   * GET /api/itineraries/search
    */
   static searchItineraries = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { q: search, ...filters } = req.query;
     
     if (!search || typeof search !== 'string') {
-      return ResponseUtil.badRequest(res, 'Search query is required');
+      return ResponseUtil.error(res, 400, 'BAD_REQUEST', 'Search query is required');
     }
     
     const query: ItineraryQueryInput = {
+      ...filters as any,
       search,
       isPublic: true, // Only search public itineraries
-      ...filters as any,
     };
     
     const result = await ItineraryService.getItineraries(query);
@@ -358,7 +489,7 @@ export class ItineraryController {
 
   /**
    * Get itinerary overview/summary
-   * GET /api/itinerary/overview
+   * GET /api/itineraries/overview
    */
   static getItineraryOverview = asyncHandler(async (req: AuthRequest, res: Response) => {
     const userId = req.userId;
@@ -0,0 +1,189 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { EnhancedNotificationService } from '../services/notification/enhanced-notification.service';
+import { ResponseUtil, calculatePagination } from '../utils/response';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { prisma } from '../utils/database';
+import { config } from '../config';
+import { NotificationError } from '../types/notification.types';
+import {
+  BulkNotificationInput,
+  NotificationQueryInput,
+  PushSubscriptionRequestInput,
+  QuietHoursInput,
+  RemovePushSubscriptionInput,
+  UpdateNotificationPreferencesInput,
+} from '../schemas/notification.schemas';
+
+const notificationService = new EnhancedNotificationService(prisma);
+const preferencesService = notificationService.getPreferencesService();
+
+export class NotificationController {
+  /**
+   * Get the current user's notifications
+   * GET /api/notifications
+   */
+  static getNotifications = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const query: NotificationQueryInput = req.query as any;
+    const userId = req.userId!;
+
+    const result = await notificationService.getNotificationsEnhanced(userId, {
+      types: query.types,
+      unreadOnly: query.unreadOnly,
+      includeExpired: query.includeExpired,
+      limit: query.limit,
+      offset: (query.page - 1) * query.limit,
+    });
+
+    return ResponseUtil.success(res, {
+      notifications: result.notifications,
+      unreadCount: result.unreadCount,
+      pagination: calculatePagination(query.page, query.limit, result.total),
+    }, 'Notifications retrieved successfully');
+  });
+
+  /**
+   * Get the number of unread notifications
+   * GET /api/notifications/unread-count
+   */
+  static getUnreadCount = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const count = await notificationService.getUnreadCount(req.userId!);
+
+    return ResponseUtil.success(res, { count }, 'Unread count retrieved successfully');
+  });
+
+  /**
+   * Mark a notification as read
+   * PATCH /api/notifications/:id/read
+   */
+  static markAsRead = asyncHandler(async (req: AuthRequest, res: Response) => {
+    await notificationService.markAsRead(req.params.id, req.userId!);
+
+    return ResponseUtil.success(res, null, 'Notification marked as read');
+  });
+
+  /**
+   * Mark all notifications as read
+   * PATCH /api/notifications/read-all
+   */
+  static markAllAsRead = asyncHandler(async (req: AuthRequest, res: Response) => {
+    await notificationService.markAllAsRead(req.userId!);
+
+    return ResponseUtil.success(res, null, 'All notifications marked as read');
+  });
+
+  /**
+   * Mark several notifications as read
+   * POST /api/notifications/bulk/read
+   */
+  static bulkMarkAsRead = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: BulkNotificationInput = req.body;
+
+    const updated = await notificationService.markMultipleAsRead(data.ids, req.userId!);
+
+    return ResponseUtil.success(res, { updated }, 'Notifications marked as read');
+  });
+
+  /**
+   * Delete several notifications
+   * POST /api/notifications/bulk/delete
+   */
+  static bulkDelete = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: BulkNotificationInput = req.body;
+
+    const deleted = await notificationService.deleteMultipleNotifications(data.ids, req.userId!);
+
+    return ResponseUtil.success(res, { deleted }, 'Notifications deleted');
+  });
+
+  /**
+   * Delete a notification
+   * DELETE /api/notifications/:id
+   */
+  static deleteNotification = asyncHandler(async (req: AuthRequest, res: Response) => {
+    await notificationService.deleteNotification(req.params.id, req.userId!);
+
+    return ResponseUtil.success(res, null, 'Notification deleted');
+  });
+
+  /**
+   * Get notification preferences
+   * GET /api/notifications/preferences
+   */
+  static getPreferences = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const preferences = await preferencesService.getPreferences(req.userId!);
+
+    return ResponseUtil.success(res, { preferences }, 'Preferences retrieved successfully');
+  });
+
+  /**
+   * Update notification preferences
+   * PUT /api/notifications/preferences
+   */
+  static updatePreferences = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: UpdateNotificationPreferencesInput = req.body;
+
+    const preferences = await preferencesService.updatePreferences(req.userId!, data as any);
+
+    return ResponseUtil.success(res, { preferences }, 'Preferences updated successfully');
+  });
+
+  /**
+   * Update quiet hours
+   * PUT /api/notifications/preferences/quiet-hours
+   */
+  static updateQuietHours = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: QuietHoursInput = req.body;
+
+    const preferences = await preferencesService.updateQuietHours(req.userId!, data);
+
+    return ResponseUtil.success(res, { preferences }, 'Quiet hours updated successfully');
+  });
+
+  /**
+   * Reset notification preferences to the defaults
+   * POST /api/notifications/preferences/reset
+   */
+  static resetPreferences = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const preferences = await preferencesService.resetToDefaults(req.userId!);
+
+    return ResponseUtil.success(res, { preferences }, 'Preferences reset to defaults');
+  });
+
+  /**
+   * Get the VAPID public key browsers subscribe to Web Push with
+   * GET /api/notifications/push/public-key
+   */
+  static getPushPublicKey = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { publicKey } = config.notifications.webPush;
+    if (!publicKey) {
+      throw new NotificationError('Web Push is not configured', 'PUSH_NOT_CONFIGURED', 503);
+    }
+
+    return ResponseUtil.success(res, { publicKey }, 'Push public key retrieved successfully');
+  });
+
+  /**
+   * Register this browser's Web Push subscription
+   * POST /api/notifications/push/subscriptions
+   */
+  static registerPushSubscription = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: PushSubscriptionRequestInput = req.body;
+
+    const device = await notificationService.registerPushSubscription(req.userId!, data.subscription, data.appVersion);
+
+    return ResponseUtil.created(res, { device }, 'Push subscription registered');
+  });
+
+  /**
+   * Remove a Web Push subscription
+   * DELETE /api/notifications/push/subscriptions
+   */
+  static removePushSubscription = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: RemovePushSubscriptionInput = req.body;
+
+    await notificationService.removePushSubscription(req.userId!, data.endpoint);
+
+    return ResponseUtil.success(res, null, 'Push subscription removed');
+  });
+}
@@ -25,7 +25,7 @@ export class OrderController {
   static validateCart = asyncHandler(async (req: AuthRequest, res: Response) => {
     const data: ValidateCartInput = req.body;
     
-    const result = await OrderService.validateCart(data);
+    const result = await OrderService.validateCart(data, req.userId);
     
     if (!result.valid) {
       return ResponseUtil.badRequest(res, 'Cart validation failed', result.errors);
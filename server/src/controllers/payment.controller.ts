@@ -7,6 +7,7 @@ import { asyncHandler } from '../middlewares/error.middleware';
 import { 
   CreatePaymentIntentInput, 
   InitializeChapaPaymentInput,
+  InitializePaymentInput,
   ConfirmPaymentInput,
   PaymentQueryInput,
   RefundPaymentInput,
@@ -14,6 +15,50 @@ import {
 } from '../schemas/payment.schemas';
 
 export class PaymentController {
+  /**
+   * Get the payment providers customers can pay with
+   * GET /api/payments/providers
+   */
+  static getProviders = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const providers = PaymentService.getEnabledProviders();
+
+    return ResponseUtil.success(res, { providers }, 'Payment providers retrieved successfully');
+  });
+
+  /**
+   * Initialize a payment with any provider
+   * POST /api/payments/providers/:provider/initialize
+   */
+  static initializePayment = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const method = PaymentService.getMethodBySlug(req.params.provider);
+    const data: InitializePaymentInput = req.body;
+    const userId = req.userId!;
+
+    const result = await PaymentService.initializePayment(method, data, userId);
+
+    log.info('Payment initialized via API', {
+      paymentId: result.payment.id,
+      method,
+      userId,
+      ip: req.ip
+    });
+
+    return ResponseUtil.created(res, result, 'Payment initialized successfully');
+  });
+
+  /**
+   * Verify a payment with any provider
+   * GET /api/payments/providers/:provider/verify/:reference
+   */
+  static verifyPayment = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const method = PaymentService.getMethodBySlug(req.params.provider);
+    const userId = req.userId!;
+
+    const payment = await PaymentService.verifyPayment(method, req.params.reference, userId);
+
+    return ResponseUtil.success(res, { payment }, 'Payment verified successfully');
+  });
+
   /**
    * Create Stripe payment intent
    * POST /api/payments/stripe/create-intent
@@ -160,18 +205,19 @@ export class PaymentController {
    */
   static refundPayment = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
-    const data: RefundPaymentInput = { ...req.body, paymentId: id };
+    const data: RefundPaymentInput = req.body;
     const userId = req.userId!;
     
-    const payment = await PaymentService.refundPayment(data, userId);
+    const { payment, refund } = await PaymentService.refundPayment(id, data, userId);
     
     log.info('Payment refunded via API', { 
       paymentId: payment.id,
+      refundId: refund.id,
       userId, 
       ip: req.ip 
     });
 
-    return ResponseUtil.success(res, { payment }, 'Payment refunded successfully');
+    return ResponseUtil.success(res, { payment, refund }, 'Payment refunded successfully');
   });
 
   /**
@@ -4,55 +4,24 @@ import { ResponseUtil } from '../utils/response';
 import { log } from '../utils/logger';
 import { asyncHandler } from '../middlewares/error.middleware';
 import { prisma } from '../utils/database';
+import { DepartureService } from '../services/departure.service';
+import { TourSearchService } from '../services/tour-search.service';
+import { TourService, TOUR_DETAILS_INCLUDE } from '../services/tour.service';
+import { CancellationService } from '../services/cancellation.service';
+import { DisplayCurrencyQueryInput } from '../schemas/currency.schemas';
+import { CancellationPolicyInput } from '../schemas/cancellation.schemas';
+import { CheckAvailabilityInput, CreateTourInput, TourQueryInput, UpdateTourInput } from '../schemas/tour.schemas';
 
 export class TourController {
   /**
-   * Get all tours with filtering and pagination
+   * Get all tours with filtering, facets and pagination
    */
   static getTours = asyncHandler(async (req: AuthRequest, res: Response) => {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
-    const status = req.query.status as string || 'PUBLISHED';
-    const category = req.query.category as string;
-    const featured = req.query.featured === 'true';
-
-    const where: any = {
-      status: status
-    };
-
-    if (category) {
-      where.category = category;
-    }
-
-    if (featured) {
-      where.featured = true;
-    }
-
-    const [tours, total] = await Promise.all([
-      prisma.tour.findMany({
-        where,
-        skip,
-        take: limit,
-        orderBy: [
-          { featured: 'desc' },
-          { createdAt: 'desc' }
-        ]
-      }),
-      prisma.tour.count({ where })
-    ]);
+    const query: TourQueryInput = req.query as any;
 
-    const pages = Math.ceil(total / limit);
+    const result = await TourSearchService.search(query);
 
-    return ResponseUtil.success(res, {
-      tours,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages
-      }
-    }, 'Tours retrieved successfully');
+    return ResponseUtil.success(res, result, 'Tours retrieved successfully');
   });
 
   /**
@@ -60,10 +29,12 @@ export class TourController {
    */
   static getTourById = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
-    
+    const query: DisplayCurrencyQueryInput = req.query as any;
+
     const tour = await prisma.tour.findUnique({
       where: { id },
       include: {
+        ...TOUR_DETAILS_INCLUDE,
         reviews: {
           include: {
             user: {
@@ -72,6 +43,11 @@ export class TourController {
                 name: true,
                 avatar: true
               }
+            },
+            images: {
+              orderBy: {
+                position: 'asc'
+              }
             }
           },
           where: {
@@ -94,56 +70,33 @@ export class TourController {
       return ResponseUtil.notFound(res, 'Tour not found');
     }
 
-    return ResponseUtil.success(res, { tour }, 'Tour retrieved successfully');
+    const { reviews, ...details } = TourService.formatTour(tour);
+    const [priced] = await TourService.withDisplayPrices([details], query.currency);
+
+    return ResponseUtil.success(res, {
+      tour: {
+        ...priced,
+        reviews: reviews.map((review) => ({
+          ...review,
+          images: review.images.map((image) => image.url)
+        }))
+      }
+    }, 'Tour retrieved successfully');
   });
 
   /**
-   * Search tours
+   * Search tours by text, with the same filters, facets and sorting as the listing
    */
   static searchTours = asyncHandler(async (req: AuthRequest, res: Response) => {
-    const query = req.query.q as string;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const query: TourQueryInput = req.query as any;
 
-    if (!query) {
+    if (TourSearchService.tokenize(query.q || query.search).length === 0) {
       return ResponseUtil.error(res, 400, 'BAD_REQUEST', 'Search query is required');
     }
 
-    const where = {
-      status: 'PUBLISHED',
-      OR: [
-        { title: { contains: query, mode: 'insensitive' as const } },
-        { description: { contains: query, mode: 'insensitive' as const } },
-        { shortDescription: { contains: query, mode: 'insensitive' as const } },
-        { category: { contains: query, mode: 'insensitive' as const } }
-      ]
-    };
-
-    const [tours, total] = await Promise.all([
-      prisma.tour.findMany({
-        where,
-        skip,
-        take: limit,
-        orderBy: [
-          { featured: 'desc' },
-          { createdAt: 'desc' }
-        ]
-      }),
-      prisma.tour.count({ where })
-    ]);
-
-    const pages = Math.ceil(total / limit);
+    const result = await TourSearchService.search(query);
 
-    return ResponseUtil.success(res, {
-      tours,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages
-      }
-    }, 'Search completed');
+    return ResponseUtil.success(res, result, 'Search completed');
   });
 
   /**
@@ -157,13 +110,14 @@ export class TourController {
         status: 'PUBLISHED',
         featured: true
       },
+      include: TOUR_DETAILS_INCLUDE,
       take: limit,
       orderBy: {
         createdAt: 'desc'
       }
     });
 
-    return ResponseUtil.success(res, { tours }, 'Featured tours retrieved');
+    return ResponseUtil.success(res, { tours: tours.map((tour) => TourService.formatTour(tour)) }, 'Featured tours retrieved');
   });
 
   /**
@@ -177,6 +131,7 @@ export class TourController {
         status: 'PUBLISHED'
       },
       include: {
+        ...TOUR_DETAILS_INCLUDE,
         _count: {
           select: {
             bookings: true,
@@ -192,7 +147,7 @@ export class TourController {
       ]
     });
 
-    return ResponseUtil.success(res, { tours }, 'Popular tours retrieved');
+    return ResponseUtil.success(res, { tours: tours.map((tour) => TourService.formatTour(tour)) }, 'Popular tours retrieved');
   });
 
   /**
@@ -242,6 +197,7 @@ export class TourController {
     const [tours, total] = await Promise.all([
       prisma.tour.findMany({
         where,
+        include: TOUR_DETAILS_INCLUDE,
         skip,
         take: limit,
         orderBy: [
@@ -255,7 +211,7 @@ export class TourController {
     const pages = Math.ceil(total / limit);
 
     return ResponseUtil.success(res, {
-      tours,
+      tours: tours.map((tour) => TourService.formatTour(tour)),
       pagination: {
         page,
         limit,
@@ -270,77 +226,44 @@ export class TourController {
    */
   static checkAvailability = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
-    const { startDate, endDate, adults, children } = req.body;
+    const data: CheckAvailabilityInput = req.body;
 
-    const tour = await prisma.tour.findUnique({
-      where: { id },
-      select: {
-        id: true,
-        maxGroupSize: true,
-        status: true
-      }
-    });
+    const availability = await DepartureService.checkAvailability(id, data);
 
-    if (!tour) {
-      return ResponseUtil.notFound(res, 'Tour not found');
-    }
+    return ResponseUtil.success(res, availability, 'Availability checked');
+  });
 
-    if (tour.status !== 'PUBLISHED') {
-      return ResponseUtil.error(res, 400, 'BAD_REQUEST', 'Tour is not available for booking');
-    }
+  /**
+   * Get the cancellation policy of a tour
+   */
+  static getCancellationPolicy = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
 
-    // Parse dates properly
-    const startDateObj = new Date(startDate);
-    const endDateObj = new Date(endDate);
+    const policy = await CancellationService.getTourPolicy(id);
 
-    // Validate dates
-    if (isNaN(startDateObj.getTime()) || isNaN(endDateObj.getTime())) {
-      return ResponseUtil.error(res, 400, 'BAD_REQUEST', 'Invalid date format');
-    }
+    return ResponseUtil.success(res, { policy }, 'Cancellation policy retrieved successfully');
+  });
 
-    // Check existing bookings for the date range
-    const existingBookings = await prisma.booking.findMany({
-      where: {
-        tourId: id,
-        status: {
-          in: ['PENDING', 'CONFIRMED']
-        },
-        OR: [
-          {
-            startDate: {
-              lte: endDateObj
-            },
-            endDate: {
-              gte: startDateObj
-            }
-          }
-        ]
-      },
-      select: {
-        adults: true,
-        children: true
-      }
-    });
+  /**
+   * Set the cancellation policy of a tour (Guide/Admin only)
+   */
+  static updateCancellationPolicy = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const data: CancellationPolicyInput = req.body;
 
-    const totalBooked = existingBookings.reduce((sum, booking) => 
-      sum + booking.adults + booking.children, 0
-    );
+    const policy = await CancellationService.setTourPolicy(id, data);
 
-    const requestedSize = adults + children;
-    const available = (totalBooked + requestedSize) <= tour.maxGroupSize;
+    log.info('Cancellation policy updated via API', { tourId: id, userId: req.userId });
 
-    return ResponseUtil.success(res, { 
-      available,
-      remainingSpots: tour.maxGroupSize - totalBooked,
-      maxGroupSize: tour.maxGroupSize
-    }, 'Availability checked');
+    return ResponseUtil.success(res, { policy }, 'Cancellation policy updated successfully');
   });
 
   /**
    * Create new tour (Guide/Admin only)
    */
   static createTour = asyncHandler(async (req: AuthRequest, res: Response) => {
-    const tourData = req.body;
+    const tourData: CreateTourInput = req.body;
+    const { images, startLocation, locations, included, excluded, itinerary, tags, ...fields } = tourData;
 
     // Generate slug from title
     const slug = tourData.title
@@ -348,20 +271,15 @@ export class TourController {
       .replace(/[^a-z0-9]+/g, '-')
       .replace(/(^-|-$)/g, '');
 
-    const tour = await prisma.tour.create({
+    const created = await prisma.tour.create({
       data: {
-        ...tourData,
+        ...fields,
         slug,
-        // Convert arrays/objects to JSON strings
-        images: JSON.stringify(tourData.images || []),
-        startLocation: JSON.stringify(tourData.startLocation || {}),
-        locations: JSON.stringify(tourData.locations || []),
-        included: JSON.stringify(tourData.included || []),
-        excluded: JSON.stringify(tourData.excluded || []),
-        itinerary: JSON.stringify(tourData.itinerary || []),
-        tags: JSON.stringify(tourData.tags || [])
-      }
+        ...TourService.buildDetailsCreate({ images, startLocation, locations, included, excluded, itinerary, tags })
+      },
+      include: TOUR_DETAILS_INCLUDE
     });
+    const tour = TourService.formatTour(created);
 
     return ResponseUtil.created(res, { tour }, 'Tour created successfully');
   });
@@ -371,7 +289,8 @@ export class TourController {
    */
   static updateTour = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
-    const tourData = req.body;
+    const tourData: UpdateTourInput = req.body;
+    const { images, startLocation, locations, included, excluded, itinerary, tags, ...fields } = tourData;
 
     const existingTour = await prisma.tour.findUnique({
       where: { id }
@@ -390,21 +309,17 @@ export class TourController {
         .replace(/(^-|-$)/g, '');
     }
 
-    const tour = await prisma.tour.update({
+    // Provided detail lists replace the stored ones
+    const updated = await prisma.tour.update({
       where: { id },
       data: {
-        ...tourData,
+        ...fields,
         slug,
-        // Convert arrays/objects to JSON strings if provided
-        ...(tourData.images && { images: JSON.stringify(tourData.images) }),
-        ...(tourData.startLocation && { startLocation: JSON.stringify(tourData.startLocation) }),
-        ...(tourData.locations && { locations: JSON.stringify(tourData.locations) }),
-        ...(tourData.included && { included: JSON.stringify(tourData.included) }),
-        ...(tourData.excluded && { excluded: JSON.stringify(tourData.excluded) }),
-        ...(tourData.itinerary && { itinerary: JSON.stringify(tourData.itinerary) }),
-        ...(tourData.tags && { tags: JSON.stringify(tourData.tags) })
-      }
+        ...TourService.buildDetailsUpdate({ images, startLocation, locations, included, excluded, itinerary, tags })
+      },
+      include: TOUR_DETAILS_INCLUDE
     });
+    const tour = TourService.formatTour(updated);
 
     return ResponseUtil.success(res, { tour }, 'Tour updated successfully');
   });
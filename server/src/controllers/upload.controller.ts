@@ -364,14 +364,17 @@ export const uploadTourMedia = async (req: Request, res: Response) => {
 
     const results = await uploadTourImages(files, tourId);
 
-    // Update tour with new image URLs
-    const imageUrls = results.map(result => result.url);
-    const existingImages = tour.images || [];
-    const updatedImages = [...existingImages, ...imageUrls];
+    // Append the new images after the existing ones
+    const imageCount = await prisma.tourImage.count({
+      where: { tourId }
+    });
 
-    await prisma.tour.update({
-      where: { id: tourId },
-      data: { images: updatedImages }
+    await prisma.tourImage.createMany({
+      data: results.map((result, index) => ({
+        tourId,
+        url: result.url,
+        position: imageCount + index
+      }))
     });
 
     log.info('Tour images uploaded successfully', {
@@ -0,0 +1,82 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { WaitlistService } from '../services/waitlist.service';
+import { BookingService } from '../services/booking.service';
+import { ResponseUtil } from '../utils/response';
+import { log } from '../utils/logger';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { JoinWaitlistInput } from '../schemas/waitlist.schemas';
+
+export class WaitlistController {
+  /**
+   * Join the waitlist for a fully booked departure
+   * POST /api/bookings/waitlist
+   */
+  static joinWaitlist = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data: JoinWaitlistInput = req.body;
+
+    const entry = await WaitlistService.joinWaitlist(data, req.userId);
+
+    log.info('Waitlist joined via API', {
+      entryId: entry.id,
+      tourId: data.tourId,
+      userId: req.userId,
+      ip: req.ip,
+    });
+
+    return ResponseUtil.created(res, { entry }, 'Joined waitlist successfully');
+  });
+
+  /**
+   * Get current user's waitlist entries
+   * GET /api/bookings/waitlist/my-entries
+   */
+  static getMyWaitlist = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.userId!;
+
+    const entries = await WaitlistService.getUserWaitlist(userId);
+
+    return ResponseUtil.success(res, { entries }, 'Waitlist entries retrieved successfully');
+  });
+
+  /**
+   * Leave the waitlist
+   * DELETE /api/bookings/waitlist/:id
+   */
+  static leaveWaitlist = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.userId!;
+
+    const entry = await WaitlistService.cancelEntry(id, userId);
+
+    return ResponseUtil.success(res, { entry }, 'Left waitlist successfully');
+  });
+
+  /**
+   * Claim an offer on one of the user's own waitlist entries
+   * POST /api/bookings/waitlist/:id/claim
+   */
+  static claimOffer = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.userId!;
+
+    const entry = await WaitlistService.getOfferForUser(id, userId);
+    const booking = await BookingService.claimWaitlistOffer(entry, userId);
+
+    return ResponseUtil.created(res, { booking }, 'Waitlist offer claimed successfully');
+  });
+
+  /**
+   * Claim an offer using the link from the offer email
+   * POST /api/bookings/waitlist/offers/:token/claim
+   */
+  static claimOfferByToken = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { token } = req.params;
+    const userId = req.userId!;
+
+    const entry = await WaitlistService.getOfferByToken(token);
+    const booking = await BookingService.claimWaitlistOffer(entry, userId);
+
+    return ResponseUtil.created(res, { booking }, 'Waitlist offer claimed successfully');
+  });
+}
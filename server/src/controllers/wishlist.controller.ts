@@ -0,0 +1,37 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { WishlistService } from '../services/wishlist.service';
+import { ResponseUtil } from '../utils/response';
+import { asyncHandler } from '../middlewares/error.middleware';
+
+export class WishlistController {
+  /**
+   * Get the user's saved tours
+   * GET /api/wishlist
+   */
+  static getWishlist = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const items = await WishlistService.getWishlist(req.userId!);
+
+    return ResponseUtil.success(res, { items }, 'Wishlist retrieved successfully');
+  });
+
+  /**
+   * Save a tour
+   * PUT /api/wishlist/:id
+   */
+  static addTour = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const item = await WishlistService.addTour(req.userId!, req.params.id);
+
+    return ResponseUtil.success(res, { item }, 'Tour added to wishlist');
+  });
+
+  /**
+   * Remove a saved tour
+   * DELETE /api/wishlist/:id
+   */
+  static removeTour = asyncHandler(async (req: AuthRequest, res: Response) => {
+    await WishlistService.removeTour(req.userId!, req.params.id);
+
+    return ResponseUtil.success(res, null, 'Tour removed from wishlist');
+  });
+}
@@ -3,6 +3,33 @@ import { AdminController } from '../controllers/admin.controller';
 import { authenticate, requireRole } from '../middlewares/auth.middleware';
 import { validate } from '../middlewares/validation.middleware';
 import { z } from 'zod';
+import {
+  createPromoCodeSchema,
+  updatePromoCodeSchema,
+  promoCodeQuerySchema,
+  promoReportQuerySchema,
+  promoCodeParamsSchema,
+} from '../schemas/promo.schemas';
+import {
+  campaignAudiencePreviewSchema,
+  campaignParamsSchema,
+  campaignQuerySchema,
+  createCampaignSchema,
+  createNotificationTemplateSchema,
+  notificationTemplateParamsSchema,
+  notificationTemplateQuerySchema,
+  previewNotificationTemplateSchema,
+  rollbackNotificationTemplateSchema,
+  scheduleCampaignSchema,
+  updateCampaignSchema,
+  updateNotificationTemplateSchema,
+} from '../schemas/notification.schemas';
+import {
+  emailOutboxParamsSchema,
+  emailOutboxQuerySchema,
+  emailSuppressionParamsSchema,
+  emailSuppressionQuerySchema,
+} from '../schemas/email.schemas';
 
 const router = Router();
 
@@ -83,6 +110,142 @@ router.post('/payments/:paymentId/refund',
   AdminController.processRefund
 );
 
+/**
+ * Promo Code Management Routes
+ */
+router.get('/promo-codes',
+  validate({ query: promoCodeQuerySchema }),
+  AdminController.getPromoCodes
+);
+router.get('/promo-codes/reports/redemptions',
+  validate({ query: promoReportQuerySchema }),
+  AdminController.getPromoRedemptionReport
+);
+router.get('/promo-codes/:promoCodeId',
+  validate({ params: promoCodeParamsSchema }),
+  AdminController.getPromoCodeDetails
+);
+router.post('/promo-codes',
+  validate({ body: createPromoCodeSchema }),
+  AdminController.createPromoCode
+);
+router.put('/promo-codes/:promoCodeId',
+  validate({
+    params: promoCodeParamsSchema,
+    body: updatePromoCodeSchema
+  }),
+  AdminController.updatePromoCode
+);
+router.delete('/promo-codes/:promoCodeId',
+  validate({ params: promoCodeParamsSchema }),
+  AdminController.deletePromoCode
+);
+
+/**
+ * Notification Template Routes
+ */
+router.get('/notification-templates',
+  validate({ query: notificationTemplateQuerySchema }),
+  AdminController.getNotificationTemplates
+);
+router.post('/notification-templates',
+  validate({ body: createNotificationTemplateSchema }),
+  AdminController.createNotificationTemplate
+);
+router.post('/notification-templates/preview',
+  validate({ body: previewNotificationTemplateSchema }),
+  AdminController.previewNotificationTemplate
+);
+router.get('/notification-templates/:type/:locale',
+  validate({ params: notificationTemplateParamsSchema }),
+  AdminController.getNotificationTemplateVersions
+);
+router.put('/notification-templates/:type/:locale',
+  validate({
+    params: notificationTemplateParamsSchema,
+    body: updateNotificationTemplateSchema
+  }),
+  AdminController.updateNotificationTemplate
+);
+router.post('/notification-templates/:type/:locale/rollback',
+  validate({
+    params: notificationTemplateParamsSchema,
+    body: rollbackNotificationTemplateSchema
+  }),
+  AdminController.rollbackNotificationTemplate
+);
+
+/**
+ * Notification Campaign Routes
+ */
+router.get('/campaigns',
+  validate({ query: campaignQuerySchema }),
+  AdminController.getCampaigns
+);
+router.post('/campaigns',
+  validate({ body: createCampaignSchema }),
+  AdminController.createCampaign
+);
+router.post('/campaigns/audience-preview',
+  validate({ body: campaignAudiencePreviewSchema }),
+  AdminController.previewCampaignAudience
+);
+router.get('/campaigns/:id',
+  validate({ params: campaignParamsSchema }),
+  AdminController.getCampaign
+);
+router.put('/campaigns/:id',
+  validate({
+    params: campaignParamsSchema,
+    body: updateCampaignSchema
+  }),
+  AdminController.updateCampaign
+);
+router.post('/campaigns/:id/schedule',
+  validate({
+    params: campaignParamsSchema,
+    body: scheduleCampaignSchema
+  }),
+  AdminController.scheduleCampaign
+);
+router.post('/campaigns/:id/cancel',
+  validate({ params: campaignParamsSchema }),
+  AdminController.cancelCampaign
+);
+router.get('/campaigns/:id/analytics',
+  validate({ params: campaignParamsSchema }),
+  AdminController.getCampaignAnalytics
+);
+
+/**
+ * Email Outbox Routes
+ */
+router.get('/email-outbox',
+  validate({ query: emailOutboxQuerySchema }),
+  AdminController.getOutboxEmails
+);
+router.get('/email-outbox/:id',
+  validate({ params: emailOutboxParamsSchema }),
+  AdminController.getOutboxEmail
+);
+router.post('/email-outbox/:id/resend',
+  validate({ params: emailOutboxParamsSchema }),
+  AdminController.resendOutboxEmail
+);
+router.get('/email-suppressions',
+  validate({ query: emailSuppressionQuerySchema }),
+  AdminController.getEmailSuppressions
+);
+router.delete('/email-suppressions/:id',
+  validate({ params: emailSuppressionParamsSchema }),
+  AdminController.removeEmailSuppression
+);
+
+/**
+ * Chat Retrieval Routes
+ */
+router.post('/retrieval/reindex', AdminController.reindexRetrieval);
+
 /**
  * Review Management Routes
  */
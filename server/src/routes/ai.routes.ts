@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import rateLimit from 'express-rate-limit';
 import { googleAI } from '../server';
+import { AIService } from '../services/ai.service';
+import { ServiceUnavailableError } from '../utils/errors';
 // import { openaiClient, anthropicClient } from '../server'; // PREPARED for later
 
 const router = Router();
@@ -22,7 +24,7 @@ router.use(aiRateLimit);
 
 /**
  * POST /api/ai/chat
- * Proxy endpoint for Google AI (Gemini) chat
+ * Chat with the AI providers, Google Gemini first
  */
 router.post('/chat', async (req: Request, res: Response) => {
   try {
@@ -35,60 +37,31 @@ router.post('/chat', async (req: Request, res: Response) => {
       });
     }
 
-    if (!googleAI) {
-      return res.status(503).json({
-        success: false,
-        message: 'Google AI service is not available',
-      });
-    }
-
-    // Get the generative model
-    const model = googleAI.getGenerativeModel({ 
-      model: process.env.GOOGLE_AI_MODEL || 'gemini-1.5-flash-latest' 
-    });
-
-    // Prepare the prompt with context
-    const prompt = context 
-      ? `Context: ${context}\n\nUser: ${message}\n\nAssistant:` 
-      : message;
-
-    // Generate response
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+    const response = await AIService.generateResponse([
+      ...(context ? [{ role: 'system' as const, content: `Context: ${context}` }] : []),
+      { role: 'user', content: message },
+    ], { provider: 'google' });
 
     res.json({
       success: true,
       data: {
-        message: text,
-        provider: 'google-gemini',
-        model: process.env.GOOGLE_AI_MODEL || 'gemini-1.5-flash-latest',
-        tokensUsed: response.usageMetadata?.totalTokenCount || 0,
+        message: response.content,
+        provider: response.provider,
+        model: response.model,
+        tokensUsed: response.tokensUsed || 0,
       },
     });
 
   } catch (error: any) {
-    console.error('Google AI chat error:', error);
-    
-    // Provide a helpful fallback response for development
-    if (process.env.NODE_ENV === 'development') {
-      res.json({
-        success: true,
-        data: {
-          message: `I'm currently experiencing technical difficulties with the AI service. This is a fallback response for development. Original error: ${error.message}`,
-          provider: 'fallback-development',
-          model: 'development-fallback',
-          tokensUsed: 0,
-          note: 'This is a development fallback. In production, please ensure your Google AI API key is valid and has access to the specified model.',
-        },
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to generate AI response',
-        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
-      });
-    }
+    console.error('AI chat error:', error);
+
+    res.status(error instanceof ServiceUnavailableError ? 503 : 500).json({
+      success: false,
+      message: error instanceof ServiceUnavailableError
+        ? 'AI service is not available'
+        : 'Failed to generate AI response',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
   }
 });
 
@@ -107,68 +80,46 @@ router.post('/analyze', async (req: Request, res: Response) => {
       });
     }
 
-    if (!googleAI) {
-      return res.status(503).json({
-        success: false,
-        message: 'Google AI service is not available',
-      });
-    }
-
-    const model = googleAI.getGenerativeModel({ 
-      model: process.env.GOOGLE_AI_MODEL || 'gemini-2.0-flash' 
-    });
-
-    let prompt = '';
+    let instructions = '';
     switch (analysisType) {
       case 'sentiment':
-        prompt = `Analyze the sentiment of this text and return a JSON object with sentiment (positive/negative/neutral), confidence (0-1), and key emotions detected:\n\n"${text}"`;
+        instructions = 'Analyze the sentiment of this text and return a JSON object with sentiment (positive/negative/neutral), confidence (0-1), and key emotions detected.';
         break;
       case 'keywords':
-        prompt = `Extract the most important keywords and phrases from this text. Return a JSON array of keywords:\n\n"${text}"`;
+        instructions = 'Extract the most important keywords and phrases from this text. Return a JSON array of keywords.';
         break;
       case 'summary':
-        prompt = `Provide a concise summary of this text in 2-3 sentences:\n\n"${text}"`;
+        instructions = 'Provide a concise summary of this text in 2-3 sentences.';
         break;
       default:
-        prompt = `Analyze this text and provide insights:\n\n"${text}"`;
+        instructions = 'Analyze this text and provide insights.';
     }
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const analysisResult = response.text();
+    const response = await AIService.generateResponse([
+      { role: 'system', content: instructions },
+      { role: 'user', content: text },
+    ], { provider: 'google' });
 
     res.json({
       success: true,
       data: {
-        analysis: analysisResult,
+        analysis: response.content,
         analysisType,
-        provider: 'google-gemini',
-        tokensUsed: response.usageMetadata?.totalTokenCount || 0,
+        provider: response.provider,
+        tokensUsed: response.tokensUsed || 0,
       },
     });
 
   } catch (error: any) {
     console.error('AI analysis error:', error);
-    
-    // Provide a helpful fallback response for development
-    if (process.env.NODE_ENV === 'development') {
-      res.json({
-        success: true,
-        data: {
-          analysis: `Analysis fallback for development. Original request: "${text}" (${analysisType}). Error: ${error.message}`,
-          analysisType,
-          provider: 'fallback-development',
-          tokensUsed: 0,
-          note: 'This is a development fallback. In production, please ensure your Google AI API key is valid.',
-        },
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to analyze text',
-        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
-      });
-    }
+
+    res.status(error instanceof ServiceUnavailableError ? 503 : 500).json({
+      success: false,
+      message: error instanceof ServiceUnavailableError
+        ? 'AI service is not available'
+        : 'Failed to analyze text',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
   }
 });
 
@@ -228,6 +179,11 @@ router.get('/health', async (req: Request, res: Response) => {
         available: !!googleAI,
         model: process.env.GOOGLE_AI_MODEL || 'gemini-2.0-flash',
       },
+      // Scripted replies from fixture files
+      'offline': {
+        available: process.env.AI_OFFLINE === 'true' || (process.env.NODE_ENV || 'development') === 'development',
+        model: 'offline-fixtures',
+      },
       // PREPARED for later
       // 'openai': {
       //   available: !!openaiClient,
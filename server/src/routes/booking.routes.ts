@@ -1,6 +1,7 @@
 import { Router } from 'express';
-import { authenticate, requireRoles } from '../middlewares/auth.middleware';
+import { authenticate, optionalAuth, requireRoles } from '../middlewares/auth.middleware';
 import { BookingController } from '../controllers/booking.controller';
+import { WaitlistController } from '../controllers/waitlist.controller';
 import { validate, commonSchemas } from '../middlewares/validation.middleware';
 import { userCache, invalidateCache } from '../middlewares/cache.middleware';
 import { CacheTTL } from '../services/cache.service';
@@ -12,6 +13,8 @@ import {
   validatePromoCodeSchema,
   cancelBookingSchema,
 } from '../schemas/booking.schemas';
+import { lockQuoteSchema } from '../schemas/currency.schemas';
+import { joinWaitlistSchema, waitlistTokenParamsSchema } from '../schemas/waitlist.schemas';
 
 const router = Router();
 
@@ -55,6 +58,38 @@ router.get('/past',
   BookingController.getPastBookings
 );
 
+// Waitlist Routes (guests may join; managing entries requires an account)
+router.post('/waitlist',
+  optionalAuth,
+  validate({ body: joinWaitlistSchema }),
+  WaitlistController.joinWaitlist
+);
+
+router.get('/waitlist/my-entries',
+  authenticate,
+  WaitlistController.getMyWaitlist
+);
+
+router.post('/waitlist/offers/:token/claim',
+  authenticate,
+  validate({ params: waitlistTokenParamsSchema }),
+  invalidateCache(['bookings:*']),
+  WaitlistController.claimOfferByToken
+);
+
+router.post('/waitlist/:id/claim',
+  authenticate,
+  validate({ params: commonSchemas.uuidParam.params }),
+  invalidateCache(['bookings:*']),
+  WaitlistController.claimOffer
+);
+
+router.delete('/waitlist/:id',
+  authenticate,
+  validate({ params: commonSchemas.uuidParam.params }),
+  WaitlistController.leaveWaitlist
+);
+
 router.get('/number/:bookingNumber',
   authenticate,
   BookingController.getBookingByNumber
@@ -77,6 +112,12 @@ router.put('/:id',
   BookingController.updateBooking
 );
 
+router.get('/:id/cancellation-quote',
+  authenticate,
+  validate({ params: commonSchemas.uuidParam.params }),
+  BookingController.getCancellationQuote
+);
+
 router.post('/:id/cancel',
   authenticate,
   validate({
@@ -87,6 +128,16 @@ router.post('/:id/cancel',
   BookingController.cancelBooking
 );
 
+router.post('/:id/quote',
+  authenticate,
+  validate({
+    params: commonSchemas.uuidParam.params,
+    body: lockQuoteSchema
+  }),
+  invalidateCache((req) => [`booking:${req.params.id}:*`, 'bookings:*']),
+  BookingController.lockQuote
+);
+
 router.post('/validate-promo',
   authenticate,
   validate({ body: validatePromoCodeSchema }),
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { CampaignController } from '../controllers/campaign.controller';
+import { validate, commonSchemas } from '../middlewares/validation.middleware';
+
+const router = Router();
+
+/**
+ * Campaign Tracking Routes
+ * Public, linked from campaign notifications and prefixed with /api/campaigns/track.
+ * The id is the campaign recipient's.
+ */
+
+router.get('/track/:id/open',
+  validate({ params: commonSchemas.uuidParam.params }),
+  CampaignController.trackOpen
+);
+
+router.get('/track/:id/click',
+  validate({ params: commonSchemas.uuidParam.params }),
+  CampaignController.trackClick
+);
+
+export default router;
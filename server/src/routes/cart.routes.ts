@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { optionalAuth } from '../middlewares/auth.middleware';
+import { CartController } from '../controllers/cart.controller';
+import { validate, commonSchemas } from '../middlewares/validation.middleware';
+import {
+  addCartItemSchema,
+  updateCartItemSchema,
+  applyCartPromoSchema,
+  cartQuerySchema,
+} from '../schemas/cart.schemas';
+
+const router = Router();
+
+/**
+ * Cart Routes
+ * All routes are prefixed with /api/cart
+ *
+ * Signed-in users get their own cart; guests get one on their first write and send its
+ * token back in the X-Cart-Token header. Carts are priced on every read, so nothing is cached.
+ */
+
+router.get('/',
+  optionalAuth,
+  validate({ query: cartQuerySchema }),
+  CartController.getCart
+);
+
+router.delete('/',
+  optionalAuth,
+  validate({ query: cartQuerySchema }),
+  CartController.clearCart
+);
+
+router.post('/items',
+  optionalAuth,
+  validate({ body: addCartItemSchema, query: cartQuerySchema }),
+  CartController.addItem
+);
+
+router.patch('/items/:id',
+  optionalAuth,
+  validate({ params: commonSchemas.uuidParam.params, body: updateCartItemSchema, query: cartQuerySchema }),
+  CartController.updateItem
+);
+
+router.delete('/items/:id',
+  optionalAuth,
+  validate({ params: commonSchemas.uuidParam.params, query: cartQuerySchema }),
+  CartController.removeItem
+);
+
+router.post('/promo',
+  optionalAuth,
+  validate({ body: applyCartPromoSchema, query: cartQuerySchema }),
+  CartController.applyPromoCode
+);
+
+router.delete('/promo',
+  optionalAuth,
+  validate({ query: cartQuerySchema }),
+  CartController.removePromoCode
+);
+
+export default router;
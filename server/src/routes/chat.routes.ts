@@ -1,5 +1,15 @@
 import { Router } from 'express';
-import { optionalAuth } from '../middlewares/auth.middleware';
+import { authenticate, optionalAuth } from '../middlewares/auth.middleware';
+import { ChatController } from '../controllers/chat.controller';
+import { validate } from '../middlewares/validation.middleware';
+import {
+  sendMessageSchema,
+  createChatSessionSchema,
+  conversationQuerySchema,
+  conversationMessagesQuerySchema,
+  conversationParamsSchema,
+  updateConversationSchema,
+} from '../schemas/chat.schemas';
 import { ResponseUtil } from '../utils/response';
 
 const router = Router();
@@ -16,4 +26,49 @@ router.get('/history', optionalAuth, (req, res) => {
   ResponseUtil.success(res, { messages: [] }, 'Chat history retrieved');
 });
 
-export default router;
\ No newline at end of file
+// Messages; anonymous chats get answers but no conversation
+router.post('/messages',
+  optionalAuth,
+  validate({ body: sendMessageSchema }),
+  ChatController.sendMessage
+);
+
+// Streams the answer as Server-Sent Events
+router.post('/messages/stream',
+  optionalAuth,
+  validate({ body: sendMessageSchema }),
+  ChatController.streamMessage
+);
+
+// Conversations
+router.get('/conversations',
+  authenticate,
+  validate({ query: conversationQuerySchema }),
+  ChatController.getConversations
+);
+
+router.post('/conversations',
+  authenticate,
+  validate({ body: createChatSessionSchema }),
+  ChatController.createConversation
+);
+
+router.get('/conversations/:id',
+  authenticate,
+  validate({ params: conversationParamsSchema, query: conversationMessagesQuerySchema }),
+  ChatController.getConversation
+);
+
+router.patch('/conversations/:id',
+  authenticate,
+  validate({ params: conversationParamsSchema, body: updateConversationSchema }),
+  ChatController.updateConversation
+);
+
+router.delete('/conversations/:id',
+  authenticate,
+  validate({ params: conversationParamsSchema }),
+  ChatController.deleteConversation
+);
+
+export default router;
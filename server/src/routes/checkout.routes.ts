@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { authenticate } from '../middlewares/auth.middleware';
+import { CheckoutController } from '../controllers/checkout.controller';
+import { validate, commonSchemas } from '../middlewares/validation.middleware';
+import { createCheckoutSessionSchema, payCheckoutSessionSchema } from '../schemas/checkout.schemas';
+
+const router = Router();
+
+/**
+ * Checkout Routes
+ * All routes are prefixed with /api/checkout
+ *
+ * A checkout session turns the cart into pending bookings and an order, paid with one
+ * payment from any provider. A failed payment, a cancellation or expiry releases them all.
+ */
+
+router.post('/sessions',
+  authenticate,
+  validate({ body: createCheckoutSessionSchema }),
+  CheckoutController.createSession
+);
+
+router.get('/sessions/:id',
+  authenticate,
+  validate({ params: commonSchemas.uuidParam.params }),
+  CheckoutController.getSession
+);
+
+router.post('/sessions/:id/pay',
+  authenticate,
+  validate({ params: commonSchemas.uuidParam.params, body: payCheckoutSessionSchema }),
+  CheckoutController.pay
+);
+
+router.post('/sessions/:id/cancel',
+  authenticate,
+  validate({ params: commonSchemas.uuidParam.params }),
+  CheckoutController.cancelSession
+);
+
+export default router;
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { authenticate, requireRoles } from '../middlewares/auth.middleware';
+import { CurrencyController } from '../controllers/currency.controller';
+import { validate } from '../middlewares/validation.middleware';
+import { cache, invalidateCache } from '../middlewares/cache.middleware';
+import { CacheTTL } from '../services/cache.service';
+import { convertAmountQuerySchema, exchangeRatesQuerySchema } from '../schemas/currency.schemas';
+
+const router = Router();
+
+/**
+ * Currency Routes
+ * All routes are prefixed with /api/currencies
+ */
+
+// Public Routes
+router.get('/',
+  cache({
+    ttl: CacheTTL.SHORT,
+    keyGenerator: (req) => `currencies:${JSON.stringify(req.query)}`
+  }),
+  validate({ query: exchangeRatesQuerySchema }),
+  CurrencyController.getCurrencies
+);
+
+router.get('/convert',
+  validate({ query: convertAmountQuerySchema }),
+  CurrencyController.convert
+);
+
+// Admin Routes
+router.post('/rates/refresh',
+  authenticate,
+  requireRoles.admin,
+  invalidateCache(['currencies:*', 'tours:*', 'tour:*']),
+  CurrencyController.refreshRates
+);
+
+export default router;
@@ -1,18 +1,195 @@
 import { Router } from 'express';
-import { authenticate } from '../middlewares/auth.middleware';
-import { ResponseUtil } from '../utils/response';
+import { authenticate, optionalAuth, requireRoles } from '../middlewares/auth.middleware';
+import { ItineraryController } from '../controllers/itinerary.controller';
+import { validate, commonSchemas } from '../middlewares/validation.middleware';
+import {
+  createItinerarySchema,
+  updateItinerarySchema,
+  itineraryQuerySchema,
+  itinerarySearchQuerySchema,
+  shareItinerarySchema,
+  copyItinerarySchema,
+  itineraryStatsQuerySchema,
+  itineraryRecommendationSchema,
+  itineraryExportSchema,
+  itineraryOptimizationSchema,
+  itineraryCollaborationSchema,
+  addItineraryItemSchema,
+  updateItineraryItemSchema,
+  updateItineraryDaySchema,
+  collaboratorParamsSchema,
+  itineraryItemParamsSchema,
+  itineraryDayParamsSchema,
+} from '../schemas/itinerary.schemas';
 
 const router = Router();
 
-// Placeholder routes
-router.get('/', authenticate, (req, res) => {
-  ResponseUtil.success(res, { itineraries: [] }, 'Itineraries retrieved');
-});
+/**
+ * Itinerary Routes
+ * All routes are prefixed with /api/itineraries
+ */
 
-router.post('/', authenticate, (req, res) => {
-  ResponseUtil.created(res, { 
-    itinerary: { id: '1', ...req.body }
-  }, 'Itinerary created');
-});
+// Public routes
+router.get('/overview',
+  optionalAuth,
+  ItineraryController.getItineraryOverview
+);
 
-export default router;
\ No newline at end of file
+router.get('/public',
+  validate({ query: itineraryQuerySchema }),
+  ItineraryController.getPublicItineraries
+);
+
+router.get('/search',
+  validate({ query: itinerarySearchQuerySchema }),
+  ItineraryController.searchItineraries
+);
+
+router.get('/popular-destinations',
+  ItineraryController.getPopularDestinations
+);
+
+router.post('/recommendations',
+  validate({ body: itineraryRecommendationSchema }),
+  ItineraryController.getRecommendations
+);
+
+router.get('/shared/:token',
+  optionalAuth,
+  ItineraryController.getSharedItinerary
+);
+
+// Admin routes
+router.get('/admin/stats',
+  authenticate,
+  requireRoles.admin,
+  validate({ query: itineraryStatsQuerySchema }),
+  ItineraryController.getItineraryStats
+);
+
+// Protected routes (require authentication)
+router.get('/',
+  authenticate,
+  validate({ query: itineraryQuerySchema }),
+  ItineraryController.getItineraries
+);
+
+router.get('/my-itineraries',
+  authenticate,
+  validate({ query: itineraryQuerySchema }),
+  ItineraryController.getMyItineraries
+);
+
+router.post('/',
+  authenticate,
+  validate({ body: createItinerarySchema }),
+  ItineraryController.createItinerary
+);
+
+// Viewable by the owner, or by anyone for public itineraries and share tokens
+router.get('/:id',
+  optionalAuth,
+  ItineraryController.getItineraryById
+);
+
+router.get('/:id/export',
+  optionalAuth,
+  validate({ query: itineraryExportSchema }),
+  ItineraryController.exportItinerary
+);
+
+router.post('/:id/copy',
+  authenticate,
+  validate({ body: copyItinerarySchema }),
+  ItineraryController.copyItinerary
+);
+
+router.put('/:id',
+  authenticate,
+  validate({
+    params: commonSchemas.uuidParam.params,
+    body: updateItinerarySchema,
+  }),
+  ItineraryController.updateItinerary
+);
+
+router.delete('/:id',
+  authenticate,
+  validate({ params: commonSchemas.uuidParam.params }),
+  ItineraryController.deleteItinerary
+);
+
+router.post('/:id/share',
+  authenticate,
+  validate({
+    params: commonSchemas.uuidParam.params,
+    body: shareItinerarySchema,
+  }),
+  ItineraryController.shareItinerary
+);
+
+router.post('/:id/optimize',
+  authenticate,
+  validate({
+    params: commonSchemas.uuidParam.params,
+    body: itineraryOptimizationSchema,
+  }),
+  ItineraryController.optimizeItinerary
+);
+
+// Collaboration (owner and invited collaborators; edits require the editor role)
+router.get('/:id/collaborators',
+  authenticate,
+  validate({ params: commonSchemas.uuidParam.params }),
+  ItineraryController.getCollaborators
+);
+
+router.post('/:id/collaborators',
+  authenticate,
+  validate({
+    params: commonSchemas.uuidParam.params,
+    body: itineraryCollaborationSchema,
+  }),
+  ItineraryController.addCollaborator
+);
+
+router.delete('/:id/collaborators/:userId',
+  authenticate,
+  validate({ params: collaboratorParamsSchema }),
+  ItineraryController.removeCollaborator
+);
+
+router.post('/:id/days/:dayNumber/items',
+  authenticate,
+  validate({
+    params: itineraryDayParamsSchema,
+    body: addItineraryItemSchema,
+  }),
+  ItineraryController.addItem
+);
+
+router.patch('/:id/days/:dayNumber',
+  authenticate,
+  validate({
+    params: itineraryDayParamsSchema,
+    body: updateItineraryDaySchema,
+  }),
+  ItineraryController.updateDay
+);
+
+router.patch('/:id/items/:itemId',
+  authenticate,
+  validate({
+    params: itineraryItemParamsSchema,
+    body: updateItineraryItemSchema,
+  }),
+  ItineraryController.updateItem
+);
+
+router.delete('/:id/items/:itemId',
+  authenticate,
+  validate({ params: itineraryItemParamsSchema }),
+  ItineraryController.deleteItem
+);
+
+export default router;
@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { authenticate } from '../middlewares/auth.middleware';
+import { NotificationController } from '../controllers/notification.controller';
+import { validate, commonSchemas } from '../middlewares/validation.middleware';
+import {
+  bulkNotificationSchema,
+  notificationQuerySchema,
+  pushSubscriptionSchema,
+  quietHoursSchema,
+  removePushSubscriptionSchema,
+  updateNotificationPreferencesSchema,
+} from '../schemas/notification.schemas';
+
+const router = Router();
+
+/**
+ * Notification Routes
+ * All routes are prefixed with /api/notifications and require authentication
+ */
+router.use(authenticate);
+
+// Inbox
+router.get('/',
+  validate({ query: notificationQuerySchema }),
+  NotificationController.getNotifications
+);
+
+router.get('/unread-count',
+  NotificationController.getUnreadCount
+);
+
+router.patch('/read-all',
+  NotificationController.markAllAsRead
+);
+
+router.post('/bulk/read',
+  validate({ body: bulkNotificationSchema }),
+  NotificationController.bulkMarkAsRead
+);
+
+router.post('/bulk/delete',
+  validate({ body: bulkNotificationSchema }),
+  NotificationController.bulkDelete
+);
+
+// Preferences
+router.get('/preferences',
+  NotificationController.getPreferences
+);
+
+router.put('/preferences',
+  validate({ body: updateNotificationPreferencesSchema }),
+  NotificationController.updatePreferences
+);
+
+router.put('/preferences/quiet-hours',
+  validate({ body: quietHoursSchema }),
+  NotificationController.updateQuietHours
+);
+
+router.post('/preferences/reset',
+  NotificationController.resetPreferences
+);
+
+// Web Push subscriptions
+router.get('/push/public-key',
+  NotificationController.getPushPublicKey
+);
+
+router.post('/push/subscriptions',
+  validate({ body: pushSubscriptionSchema }),
+  NotificationController.registerPushSubscription
+);
+
+router.delete('/push/subscriptions',
+  validate({ body: removePushSubscriptionSchema }),
+  NotificationController.removePushSubscription
+);
+
+// Single notification
+router.patch('/:id/read',
+  validate({ params: commonSchemas.uuidParam.params }),
+  NotificationController.markAsRead
+);
+
+router.delete('/:id',
+  validate({ params: commonSchemas.uuidParam.params }),
+  NotificationController.deleteNotification
+);
+
+export default router;
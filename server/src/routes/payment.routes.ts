@@ -5,6 +5,9 @@ import { validate, commonSchemas } from '../middlewares/validation.middleware';
 import {
   createPaymentIntentSchema,
   initializeChapaPaymentSchema,
+  initializePaymentSchema,
+  paymentProviderParamsSchema,
+  verifyPaymentParamsSchema,
   confirmPaymentSchema,
   paymentQuerySchema,
   refundPaymentSchema,
@@ -18,6 +21,26 @@ const router = Router();
  * All routes are prefixed with /api/payments
  */
 
+// Provider routes
+router.get('/providers',
+  PaymentController.getProviders
+);
+
+router.post('/providers/:provider/initialize',
+  authenticate,
+  validate({
+    params: paymentProviderParamsSchema,
+    body: initializePaymentSchema
+  }),
+  PaymentController.initializePayment
+);
+
+router.get('/providers/:provider/verify/:reference',
+  authenticate,
+  validate({ params: verifyPaymentParamsSchema }),
+  PaymentController.verifyPayment
+);
+
 // Stripe routes
 router.post('/stripe/create-intent', 
   authenticate, 
@@ -3,9 +3,22 @@ import { authenticate, optionalAuth, AuthRequest } from '../middlewares/auth.mid
 import { ResponseUtil } from '../utils/response';
 import { prisma } from '../utils/database';
 import { asyncHandler } from '../middlewares/error.middleware';
+import { tourReviewSchema } from '../schemas/tour.schemas';
 
 const router = Router();
 
+const REVIEW_IMAGES_INCLUDE = {
+  orderBy: {
+    position: 'asc' as const
+  }
+};
+
+// Images are stored as rows but returned as a list of URLs
+const formatReview = <T extends { images: Array<{ url: string }> }>(review: T) => ({
+  ...review,
+  images: review.images.map(image => image.url)
+});
+
 // Get all reviews with optional filtering
 router.get('/', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
   const page = parseInt(req.query.page as string) || 1;
@@ -35,6 +48,7 @@ router.get('/', optionalAuth, asyncHandler(async (req: Request, res: Response) =
             avatar: true
           }
         },
+        images: REVIEW_IMAGES_INCLUDE,
         tour: {
           select: {
             id: true,
@@ -53,7 +67,7 @@ router.get('/', optionalAuth, asyncHandler(async (req: Request, res: Response) =
   const pages = Math.ceil(total / limit);
 
   ResponseUtil.success(res, {
-    reviews,
+    reviews: reviews.map(formatReview),
     pagination: {
       page,
       limit,
@@ -87,7 +101,8 @@ router.get('/tour/:tourId', optionalAuth, asyncHandler(async (req: Request, res:
             name: true,
             avatar: true
           }
-        }
+        },
+        images: REVIEW_IMAGES_INCLUDE
       },
       orderBy: {
         createdAt: 'desc'
@@ -105,7 +120,7 @@ router.get('/tour/:tourId', optionalAuth, asyncHandler(async (req: Request, res:
   const pages = Math.ceil(total / limit);
 
   ResponseUtil.success(res, {
-    reviews,
+    reviews: reviews.map(formatReview),
     pagination: {
       page,
       limit,
@@ -127,6 +142,12 @@ router.post('/', authenticate, asyncHandler(async (req: AuthRequest, res: Respon
 
   const { tourId, rating, title, comment, images } = req.body;
 
+  const parsedImages = tourReviewSchema.shape.images.safeParse(images);
+  if (!parsedImages.success) {
+    return ResponseUtil.validationError(res, parsedImages.error.errors);
+  }
+  const reviewImages = parsedImages.data || [];
+
   // Check if tour exists
   const tour = await prisma.tour.findUnique({
     where: { id: tourId }
@@ -164,7 +185,9 @@ router.post('/', authenticate, asyncHandler(async (req: AuthRequest, res: Respon
       rating,
       title,
       comment,
-      images: JSON.stringify(images || []),
+      images: {
+        create: reviewImages.map((url, position) => ({ url, position }))
+      },
       isVerified: !!booking, // Mark as verified if user has completed booking
       status: 'PENDING' // Reviews need approval
     },
@@ -176,6 +199,7 @@ router.post('/', authenticate, asyncHandler(async (req: AuthRequest, res: Respon
           avatar: true
         }
       },
+      images: REVIEW_IMAGES_INCLUDE,
       tour: {
         select: {
           id: true,
@@ -186,7 +210,7 @@ router.post('/', authenticate, asyncHandler(async (req: AuthRequest, res: Respon
     }
   });
 
-  ResponseUtil.created(res, { review }, 'Review created successfully');
+  ResponseUtil.created(res, { review: formatReview(review) }, 'Review created successfully');
 }));
 
 // Update a review (user can only update their own)
@@ -200,6 +224,12 @@ router.put('/:id', authenticate, asyncHandler(async (req: AuthRequest, res: Resp
 
   const { rating, title, comment, images } = req.body;
 
+  const parsedImages = tourReviewSchema.shape.images.safeParse(images);
+  if (!parsedImages.success) {
+    return ResponseUtil.validationError(res, parsedImages.error.errors);
+  }
+  const reviewImages = parsedImages.data || [];
+
   const existingReview = await prisma.review.findUnique({
     where: { id }
   });
@@ -218,7 +248,11 @@ router.put('/:id', authenticate, asyncHandler(async (req: AuthRequest, res: Resp
       rating,
       title,
       comment,
-      images: JSON.stringify(images || []),
+      // The new image list replaces the old one
+      images: {
+        deleteMany: {},
+        create: reviewImages.map((url, position) => ({ url, position }))
+      },
       status: 'PENDING' // Reset to pending after update
     },
     include: {
@@ -229,6 +263,7 @@ router.put('/:id', authenticate, asyncHandler(async (req: AuthRequest, res: Resp
           avatar: true
         }
       },
+      images: REVIEW_IMAGES_INCLUDE,
       tour: {
         select: {
           id: true,
@@ -239,7 +274,7 @@ router.put('/:id', authenticate, asyncHandler(async (req: AuthRequest, res: Resp
     }
   });
 
-  ResponseUtil.success(res, { review }, 'Review updated successfully');
+  ResponseUtil.success(res, { review: formatReview(review) }, 'Review updated successfully');
 }));
 
 // Delete a review (user can only delete their own)
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { TourController } from '../controllers/tour.controller';
+import { DepartureController } from '../controllers/departure.controller';
 import { authenticate, optionalAuth, requireRoles } from '../middlewares/auth.middleware';
 import { validate, commonSchemas } from '../middlewares/validation.middleware';
 import { cache, publicCache, userCache, invalidateCache } from '../middlewares/cache.middleware';
@@ -11,6 +12,14 @@ import {
   checkAvailabilitySchema,
   updateTourStatusSchema,
 } from '../schemas/tour.schemas';
+import {
+  createDepartureSchema,
+  updateDepartureSchema,
+  departureQuerySchema,
+  departureParamsSchema,
+} from '../schemas/departure.schemas';
+import { displayCurrencyQuerySchema } from '../schemas/currency.schemas';
+import { cancellationPolicySchema } from '../schemas/cancellation.schemas';
 
 const router = Router();
 
@@ -68,9 +77,10 @@ router.get('/:id',
     keyGenerator: (req) => {
       const authReq = req as any;
       const userId = authReq.userId || 'anonymous';
-      return `tour:${req.params.id}:${userId}`;
+      return `tour:${req.params.id}:${userId}:${req.query.currency || ''}`;
     }
   }),
+  validate({ query: displayCurrencyQuerySchema }),
   TourController.getTourById
 );
 
@@ -83,6 +93,29 @@ router.post('/:id/availability',
   TourController.checkAvailability
 );
 
+router.get('/:id/cancellation-policy',
+  cache({
+    ttl: CacheTTL.LONG,
+    keyGenerator: (req) => `tour:${req.params.id}:cancellation-policy`
+  }),
+  validate({ params: commonSchemas.uuidParam.params }),
+  TourController.getCancellationPolicy
+);
+
+// Scheduled departures (seat counts change often, so no caching)
+router.get('/:id/departures',
+  validate({
+    params: commonSchemas.uuidParam.params,
+    query: departureQuerySchema
+  }),
+  DepartureController.getDepartures
+);
+
+router.get('/:id/departures/:departureId',
+  validate({ params: departureParamsSchema }),
+  DepartureController.getDepartureById
+);
+
 // Protected routes (authentication required) - with cache invalidation
 router.post('/', 
   authenticate, 
@@ -111,6 +144,37 @@ router.delete('/:id',
   TourController.deleteTour
 );
 
+router.post('/:id/departures',
+  authenticate,
+  requireRoles.guideOrAdmin,
+  validate({
+    params: commonSchemas.uuidParam.params,
+    body: createDepartureSchema
+  }),
+  DepartureController.createDeparture
+);
+
+router.put('/:id/departures/:departureId',
+  authenticate,
+  requireRoles.guideOrAdmin,
+  validate({
+    params: departureParamsSchema,
+    body: updateDepartureSchema
+  }),
+  DepartureController.updateDeparture
+);
+
+router.put('/:id/cancellation-policy',
+  authenticate,
+  requireRoles.guideOrAdmin,
+  invalidateCache((req) => [`tour:${req.params.id}:*`]),
+  validate({
+    params: commonSchemas.uuidParam.params,
+    body: cancellationPolicySchema
+  }),
+  TourController.updateCancellationPolicy
+);
+
 router.patch('/:id/status', 
   authenticate, 
   requireRoles.admin,
@@ -6,22 +6,22 @@ const router = Router();
 
 /**
  * Webhook Routes
- * These routes handle payment provider webhooks
+ * These routes handle payment and email provider webhooks
  */
 
-// Stripe webhook - requires raw body for signature verification
-router.post('/stripe', 
-  express.raw({ type: 'application/json' }),
-  WebhookController.handleStripeWebhook
+// Webhook health check
+router.get('/health', WebhookController.healthCheck);
+
+// Email provider bounce and complaint webhooks (sendgrid, ses, mailgun). SNS posts JSON as text/plain.
+router.post('/email/:provider',
+  express.json({ type: ['application/json', 'text/plain'], limit: '1mb' }),
+  WebhookController.handleEmailWebhook
 );
 
-// Chapa webhook - requires raw body for signature verification
-router.post('/chapa',
+// Payment provider webhooks (stripe, chapa, telebirr, cbe-birr) - require raw body for signature verification
+router.post('/:provider',
   express.raw({ type: 'application/json' }),
-  WebhookController.handleChapaWebhook
+  WebhookController.handleProviderWebhook
 );
 
-// Webhook health check
-router.get('/health', WebhookController.healthCheck);
-
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { authenticate } from '../middlewares/auth.middleware';
+import { WishlistController } from '../controllers/wishlist.controller';
+import { validate, commonSchemas } from '../middlewares/validation.middleware';
+
+const router = Router();
+
+/**
+ * Wishlist Routes
+ * All routes are prefixed with /api/wishlist and take a tour id
+ */
+
+router.use(authenticate);
+
+router.get('/', WishlistController.getWishlist);
+
+router.put('/:id',
+  validate({ params: commonSchemas.uuidParam.params }),
+  WishlistController.addTour
+);
+
+router.delete('/:id',
+  validate({ params: commonSchemas.uuidParam.params }),
+  WishlistController.removeTour
+);
+
+export default router;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { currencyCodeSchema } from './currency.schemas';
 
 /**
  * User registration schema
@@ -64,7 +65,9 @@ export const updateProfileSchema = z.object({
   phone: z.string().optional(),
   bio: z.string().max(500, 'Bio too long').optional(),
   location: z.string().max(100, 'Location too long').optional(),
-  dateOfBirth: z.string().datetime().optional()
+  nationality: z.string().max(100, 'Nationality too long').optional(),
+  dateOfBirth: z.string().datetime().optional(),
+  preferredCurrency: currencyCodeSchema.optional()
 });
 
 /**
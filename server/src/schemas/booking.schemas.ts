@@ -1,11 +1,12 @@
 import { z } from 'zod';
+import { currencyCodeSchema } from './currency.schemas';
 
 /**
  * Booking validation schemas
  */
 
 // Participant schema
-const participantSchema = z.object({
+export const participantSchema = z.object({
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().min(1, 'Last name is required'),
   email: z.string().email('Invalid email format').optional(),
@@ -20,13 +21,16 @@ const participantSchema = z.object({
 // Create booking schema
 export const createBookingSchema = z.object({
   tourId: z.string().uuid('Invalid tour ID'),
+  departureId: z.string().uuid('Invalid departure ID').optional(),
   startDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid start date'),
   endDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid end date'),
   adults: z.number().int().min(1, 'At least one adult is required').max(50, 'Maximum 50 adults'),
   children: z.number().int().min(0, 'Children count cannot be negative').max(50, 'Maximum 50 children').default(0),
-  totalPrice: z.number().positive('Total price must be positive'),
-  discountAmount: z.number().min(0, 'Discount amount cannot be negative').optional(),
+  // The total the traveller was shown; the booking is priced from the departure and rejected if this differs
+  totalPrice: z.number().positive('Total price must be positive').optional(),
   promoCode: z.string().optional(),
+  // Currency the traveller pays in; the price is quoted and locked in it
+  currency: currencyCodeSchema.optional(),
   participants: z.array(participantSchema).min(1, 'At least one participant is required'),
   notes: z.string().max(1000, 'Notes must not exceed 1000 characters').optional(),
   specialRequests: z.string().max(1000, 'Special requests must not exceed 1000 characters').optional(),
@@ -65,7 +69,8 @@ export const updateBookingSchema = z.object({
 export const updateBookingStatusSchema = z.object({
   status: z.enum(['PENDING', 'CONFIRMED', 'CANCELLED', 'COMPLETED', 'REFUNDED']),
   reason: z.string().max(500, 'Reason must not exceed 500 characters').optional(),
-  refundAmount: z.number().min(0, 'Refund amount cannot be negative').optional(),
+  // With REFUNDED, the amount to refund in the payment currency; everything still refundable by default
+  refundAmount: z.number().positive('Refund amount must be positive').optional(),
 });
 
 // Booking query/filter schema
@@ -101,6 +106,8 @@ export const validatePromoCodeSchema = z.object({
   code: z.string().min(1, 'Promo code is required').toUpperCase(),
   tourId: z.string().uuid('Invalid tour ID').optional(),
   totalAmount: z.number().positive('Total amount must be positive'),
+  // Currency of totalAmount and of the discount returned (default currency otherwise)
+  currency: currencyCodeSchema.optional(),
 });
 
 // Cancel booking schema
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * Cancellation policy validation schemas
+ */
+
+const tierSchema = z.object({
+  minHoursBefore: z.number().int().min(0, 'Hours before the tour cannot be negative'),
+  refundPercent: z.number().min(0, 'Refund cannot be negative').max(100, 'Refund cannot exceed 100%'),
+});
+
+// Create or replace a tour's cancellation policy
+export const cancellationPolicySchema = z.object({
+  depositPercent: z.number().min(0, 'Deposit cannot be negative').max(100, 'Deposit cannot exceed 100%').default(0),
+  notes: z.string().max(2000, 'Notes must not exceed 2000 characters').optional(),
+  tiers: z.array(tierSchema).max(10, 'A policy can have at most 10 tiers'),
+}).refine(
+  (data) => new Set(data.tiers.map((tier) => tier.minHoursBefore)).size === data.tiers.length,
+  {
+    message: 'Each tier must start at a different number of hours',
+    path: ['tiers'],
+  }
+);
+
+export type CancellationPolicyInput = z.infer<typeof cancellationPolicySchema>;
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { currencyCodeSchema } from './currency.schemas';
+
+/**
+ * Cart validation schemas
+ */
+
+const addOnsSchema = z.array(z.string().min(1)).max(20, 'Maximum 20 add-ons per tour');
+
+const variantSchema = z.object({
+  color: z.string().optional(),
+  size: z.string().optional(),
+  material: z.string().optional(),
+});
+
+// A tour booking in the cart
+const tourItemSchema = z.object({
+  type: z.literal('TOUR'),
+  tourId: z.string().uuid('Invalid tour ID'),
+  departureId: z.string().uuid('Invalid departure ID').optional(),
+  startDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid start date'),
+  adults: z.number().int().min(1, 'At least one adult is required').max(50, 'Maximum 50 adults'),
+  children: z.number().int().min(0, 'Children count cannot be negative').max(50, 'Maximum 50 children').default(0),
+  addOns: addOnsSchema.default([]),
+  specialRequests: z.string().max(1000, 'Special requests must not exceed 1000 characters').optional(),
+});
+
+// A marketplace product in the cart
+const productItemSchema = z.object({
+  type: z.literal('PRODUCT'),
+  productId: z.string().uuid('Invalid product ID'),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1').max(100, 'Quantity must not exceed 100').default(1),
+  variant: variantSchema.optional(),
+});
+
+// Add item schema
+export const addCartItemSchema = z.discriminatedUnion('type', [tourItemSchema, productItemSchema]);
+
+// Update item schema; tour fields only apply to tours and quantity only to products
+export const updateCartItemSchema = z.object({
+  departureId: z.string().uuid('Invalid departure ID').optional(),
+  startDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid start date').optional(),
+  adults: z.number().int().min(1, 'At least one adult is required').max(50, 'Maximum 50 adults').optional(),
+  children: z.number().int().min(0, 'Children count cannot be negative').max(50, 'Maximum 50 children').optional(),
+  addOns: addOnsSchema.optional(),
+  specialRequests: z.string().max(1000, 'Special requests must not exceed 1000 characters').optional(),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1').max(100, 'Quantity must not exceed 100').optional(),
+  variant: variantSchema.optional(),
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'Nothing to update' }
+);
+
+// Apply promo code schema
+export const applyCartPromoSchema = z.object({
+  code: z.string().trim().min(1, 'Promo code is required').max(50, 'Promo code is too long'),
+});
+
+// Cart query schema
+export const cartQuerySchema = z.object({
+  // Currency the cart is priced in, defaults to the user's preferred currency
+  currency: currencyCodeSchema.optional(),
+});
+
+// Type exports for TypeScript
+export type AddCartItemInput = z.infer<typeof addCartItemSchema>;
+export type UpdateCartItemInput = z.infer<typeof updateCartItemSchema>;
+export type ApplyCartPromoInput = z.infer<typeof applyCartPromoSchema>;
+export type CartQueryInput = z.infer<typeof cartQuerySchema>;
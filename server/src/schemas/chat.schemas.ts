@@ -11,6 +11,8 @@ export const sendMessageSchema = z.object({
     .max(2000, 'Message must not exceed 2000 characters'),
   language: z.enum(['en', 'am', 'om']).default('en'),
   messageType: z.enum(['text', 'tour_recommendation', 'cultural_info', 'travel_advice']).default('text'),
+  // Continues a conversation; signed-in users get a new one when left out
+  conversationId: z.string().uuid('Invalid conversation ID').optional(),
   context: z.object({
     tourId: z.string().uuid('Invalid tour ID').optional(),
     location: z.string().optional(),
@@ -72,6 +74,38 @@ export const createChatSessionSchema = z.object({
   }).optional(),
 });
 
+// Conversation list query schema
+export const conversationQuerySchema = z.object({
+  page: z.string().optional().transform((val) => val ? parseInt(val, 10) : 1),
+  limit: z.string().optional().transform((val) => val ? parseInt(val, 10) : 20),
+  archived: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+  search: z.string().max(200).optional(),
+});
+
+// Conversation messages query schema, for resuming a conversation
+export const conversationMessagesQuerySchema = z.object({
+  limit: z.string().optional().transform((val) => val ? Math.min(parseInt(val, 10), 100) : 50),
+  // Loads earlier messages
+  before: z.string().datetime('Invalid date').optional().transform((val) => val ? new Date(val) : undefined),
+});
+
+// Rename or archive a conversation
+export const updateConversationSchema = z.object({
+  title: z.string()
+    .trim()
+    .min(1, 'Title cannot be empty')
+    .max(200, 'Title must not exceed 200 characters')
+    .optional(),
+  archived: z.boolean().optional(),
+}).refine((data) => data.title !== undefined || data.archived !== undefined, {
+  message: 'Nothing to update',
+});
+
+// Conversation params schema
+export const conversationParamsSchema = z.object({
+  id: z.string().uuid('Invalid conversation ID'),
+});
+
 // Chat feedback schema
 export const chatFeedbackSchema = z.object({
   messageId: z.string().uuid('Invalid message ID'),
@@ -115,6 +149,9 @@ export type SendMessageInput = z.infer<typeof sendMessageSchema>;
 export type ChatQueryInput = z.infer<typeof chatQuerySchema>;
 export type UpdateMessageInput = z.infer<typeof updateMessageSchema>;
 export type CreateChatSessionInput = z.infer<typeof createChatSessionSchema>;
+export type ConversationQueryInput = z.infer<typeof conversationQuerySchema>;
+export type ConversationMessagesQueryInput = z.infer<typeof conversationMessagesQuerySchema>;
+export type UpdateConversationInput = z.infer<typeof updateConversationSchema>;
 export type ChatFeedbackInput = z.infer<typeof chatFeedbackSchema>;
 export type ChatStatsQueryInput = z.infer<typeof chatStatsQuerySchema>;
 export type AIPromptConfigInput = z.infer<typeof aiPromptConfigSchema>;
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { currencyCodeSchema } from './currency.schemas';
+import { participantSchema } from './booking.schemas';
+import { addressSchema } from './order.schemas';
+
+/**
+ * Checkout validation schemas
+ */
+
+// Travellers and notes for one tour booking in the cart
+const checkoutBookingSchema = z.object({
+  cartItemId: z.string().uuid('Invalid cart item ID'),
+  participants: z.array(participantSchema).min(1, 'At least one participant is required'),
+  notes: z.string().max(1000, 'Notes must not exceed 1000 characters').optional(),
+});
+
+// Create checkout session schema
+export const createCheckoutSessionSchema = z.object({
+  // Currency the session is priced and paid in, defaults to the cart currency
+  currency: currencyCodeSchema.optional(),
+  bookings: z.array(checkoutBookingSchema).max(20, 'Maximum 20 tours per checkout').default([]),
+  // Required when the cart holds products
+  shippingAddress: addressSchema.optional(),
+  billingAddress: addressSchema.optional(),
+  notes: z.string().max(1000, 'Notes must not exceed 1000 characters').optional(),
+});
+
+// Pay for a checkout session schema. Customer details default to the user's profile.
+export const payCheckoutSessionSchema = z.object({
+  method: z.enum(['STRIPE', 'CHAPA', 'TELEBIRR', 'CBE_BIRR']),
+  email: z.string().email('Invalid email format').optional(),
+  firstName: z.string().min(1).optional(),
+  lastName: z.string().min(1).optional(),
+  phone: z.string().min(1).optional(),
+  returnUrl: z.string().url().optional(),
+});
+
+// Type exports for TypeScript
+export type CreateCheckoutSessionInput = z.infer<typeof createCheckoutSessionSchema>;
+export type PayCheckoutSessionInput = z.infer<typeof payCheckoutSessionSchema>;
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { config } from '../config';
+
+/**
+ * A supported ISO 4217 currency code, e.g. ETB
+ */
+export const currencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine((code) => config.currency.supported.includes(code), {
+    message: `Currency must be one of ${config.currency.supported.join(', ')}`
+  });
+
+/**
+ * Exchange rates query schema
+ */
+export const exchangeRatesQuerySchema = z.object({
+  base: currencyCodeSchema.optional()
+});
+
+/**
+ * Convert amount query schema
+ */
+export const convertAmountQuerySchema = z.object({
+  amount: z.coerce.number().nonnegative('Amount cannot be negative'),
+  from: currencyCodeSchema,
+  to: currencyCodeSchema
+});
+
+/**
+ * Display currency query schema, for endpoints that return prices
+ */
+export const displayCurrencyQuerySchema = z.object({
+  currency: currencyCodeSchema.optional()
+});
+
+/**
+ * Lock booking quote schema
+ */
+export const lockQuoteSchema = z.object({
+  currency: currencyCodeSchema
+});
+
+export type ExchangeRatesQueryInput = z.infer<typeof exchangeRatesQuerySchema>;
+export type ConvertAmountQueryInput = z.infer<typeof convertAmountQuerySchema>;
+export type DisplayCurrencyQueryInput = z.infer<typeof displayCurrencyQuerySchema>;
+export type LockQuoteInput = z.infer<typeof lockQuoteSchema>;
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+/**
+ * Tour departure validation schemas
+ */
+
+const departureStatusEnum = z.enum(['OPEN', 'CLOSED', 'GUARANTEED', 'CANCELLED']);
+
+// Create departure schema
+export const createDepartureSchema = z.object({
+  startDate: z.string().datetime('Invalid start date'),
+  endDate: z.string().datetime('Invalid end date').optional(),
+  capacity: z.number().int().positive('Capacity must be positive').optional(),
+  price: z.number().positive('Price must be positive').optional(),
+  childPrice: z.number().min(0, 'Child price cannot be negative').optional(),
+  cutoffAt: z.string().datetime('Invalid cutoff time').optional(),
+  status: departureStatusEnum.default('OPEN'),
+  notes: z.string().max(1000, 'Notes must not exceed 1000 characters').optional(),
+}).refine(
+  (data) => !data.endDate || new Date(data.startDate) < new Date(data.endDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  }
+).refine(
+  (data) => !data.cutoffAt || new Date(data.cutoffAt) <= new Date(data.startDate),
+  {
+    message: 'Cutoff time must be before the departure starts',
+    path: ['cutoffAt'],
+  }
+);
+
+// Update departure schema
+export const updateDepartureSchema = z.object({
+  startDate: z.string().datetime('Invalid start date').optional(),
+  endDate: z.string().datetime('Invalid end date').optional(),
+  capacity: z.number().int().positive('Capacity must be positive').optional(),
+  price: z.number().positive('Price must be positive').nullable().optional(),
+  childPrice: z.number().min(0, 'Child price cannot be negative').nullable().optional(),
+  cutoffAt: z.string().datetime('Invalid cutoff time').nullable().optional(),
+  status: departureStatusEnum.optional(),
+  notes: z.string().max(1000, 'Notes must not exceed 1000 characters').optional(),
+});
+
+// Departure query schema
+export const departureQuerySchema = z.object({
+  from: z.string().optional().transform((val) => val ? new Date(val) : undefined),
+  to: z.string().optional().transform((val) => val ? new Date(val) : undefined),
+  status: departureStatusEnum.optional(),
+  includeUnavailable: z.string().optional().transform((val) => val === 'true'),
+});
+
+// Departure route params
+export const departureParamsSchema = z.object({
+  id: z.string().uuid('Invalid tour ID'),
+  departureId: z.string().uuid('Invalid departure ID'),
+});
+
+// Type exports for TypeScript
+export type CreateDepartureInput = z.infer<typeof createDepartureSchema>;
+export type UpdateDepartureInput = z.infer<typeof updateDepartureSchema>;
+export type DepartureQueryInput = z.infer<typeof departureQuerySchema>;
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+/**
+ * Email outbox validation schemas
+ */
+
+// Outbox list query schema
+export const emailOutboxQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(['PENDING', 'SENDING', 'SENT', 'FAILED', 'SUPPRESSED']).optional(),
+  to: z.string().email('Invalid email address').optional(),
+});
+
+// Outbox email params schema
+export const emailOutboxParamsSchema = z.object({
+  id: z.string().uuid('Invalid email ID'),
+});
+
+// Suppression list query schema
+export const emailSuppressionQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  email: z.string().max(191).optional(),
+});
+
+// Suppression params schema
+export const emailSuppressionParamsSchema = z.object({
+  id: z.string().uuid('Invalid suppression ID'),
+});
+
+// Type exports for TypeScript
+export type EmailOutboxQueryInput = z.infer<typeof emailOutboxQuerySchema>;
+export type EmailSuppressionQueryInput = z.infer<typeof emailSuppressionQuerySchema>;
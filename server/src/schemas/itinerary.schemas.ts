@@ -51,6 +51,42 @@ const activitySchema = z.object({
   priority: z.enum(['low', 'medium', 'high']).optional().default('medium'),
 });
 
+// Day plan item schema
+const itineraryItemSchema = z.object({
+  id: z.string().optional(),
+  type: z.enum(['flight', 'hotel', 'activity', 'restaurant', 'transport', 'tour']).optional().default('activity'),
+  title: z.string().min(1, 'Item title is required').max(200, 'Title too long'),
+  description: z.string().max(1000, 'Description too long').optional(),
+  category: z.string().max(50, 'Category too long').optional(),
+  location: z.string().max(200, 'Location too long').optional(),
+  address: z.string().max(300, 'Address too long').optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Start time must be in HH:MM format').optional(),
+  endTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'End time must be in HH:MM format').optional(),
+  duration: z.number().int().min(0, 'Duration cannot be negative').optional().default(0), // in minutes
+  cost: z.number().min(0, 'Cost cannot be negative').optional().default(0),
+  currency: z.string().length(3, 'Currency must be 3 characters').optional().default('USD'),
+  notes: z.string().max(500, 'Notes too long').optional(),
+  priority: z.enum(['low', 'medium', 'high']).optional().default('medium'),
+  bookingStatus: z.enum(['pending', 'confirmed', 'cancelled']).optional().default('pending'),
+  bookingReference: z.string().max(100, 'Booking reference too long').optional(),
+  tourId: z.string().uuid('Invalid tour ID').optional(),
+});
+
+// Day plan schema (day dates follow from the trip start date and the day's position)
+const itineraryDaySchema = z.object({
+  date: z.string()
+    .refine((date) => !isNaN(Date.parse(date)), 'Invalid day date')
+    .optional(),
+  title: z.string().max(200, 'Title too long').optional(),
+  notes: z.string().max(1000, 'Notes too long').optional(),
+  items: z.array(itineraryItemSchema)
+    .max(50, 'Maximum 50 items per day')
+    .optional()
+    .default([]),
+});
+
 // Create itinerary schema
 export const createItinerarySchema = z.object({
   title: z.string()
@@ -63,9 +99,16 @@ export const createItinerarySchema = z.object({
     .refine((date) => !isNaN(Date.parse(date)), 'Invalid start date'),
   endDate: z.string()
     .refine((date) => !isNaN(Date.parse(date)), 'Invalid end date'),
+  destination: z.string()
+    .max(200, 'Destination must not exceed 200 characters')
+    .optional(),
   destinations: z.array(destinationSchema)
-    .min(1, 'At least one destination is required')
-    .max(50, 'Maximum 50 destinations allowed'),
+    .max(50, 'Maximum 50 destinations allowed')
+    .optional()
+    .default([]),
+  days: z.array(itineraryDaySchema)
+    .max(365, 'Maximum 365 days allowed')
+    .optional(),
   activities: z.array(activitySchema)
     .max(200, 'Maximum 200 activities allowed')
     .optional()
@@ -80,6 +123,12 @@ export const createItinerarySchema = z.object({
   isPublic: z.boolean()
     .optional()
     .default(false),
+  status: z.enum(['draft', 'confirmed', 'completed'])
+    .optional()
+    .default('draft'),
+  source: z.enum(['MANUAL', 'GENERATED'])
+    .optional()
+    .default('MANUAL'),
   tags: z.array(z.string().max(50, 'Tag too long'))
     .max(20, 'Maximum 20 tags allowed')
     .optional()
@@ -113,6 +162,14 @@ export const createItinerarySchema = z.object({
 // Update itinerary schema
 export const updateItinerarySchema = createItinerarySchema.partial();
 
+// Copy itinerary schema
+export const copyItinerarySchema = z.object({
+  title: z.string()
+    .min(1, 'Title is required')
+    .max(200, 'Title must not exceed 200 characters')
+    .optional(),
+});
+
 // Itinerary query schema
 export const itineraryQuerySchema = z.object({
   // Pagination
@@ -120,7 +177,7 @@ export const itineraryQuerySchema = z.object({
   limit: z.string().optional().transform((val) => val ? parseInt(val, 10) : 10),
   
   // Sorting
-  sortBy: z.enum(['createdAt', 'updatedAt', 'title', 'startDate', 'endDate', 'budget'])
+  sortBy: z.enum(['createdAt', 'updatedAt', 'title', 'startDate', 'endDate', 'budget', 'viewCount'])
     .optional()
     .default('createdAt'),
   sortOrder: z.enum(['asc', 'desc'])
@@ -131,6 +188,7 @@ export const itineraryQuerySchema = z.object({
   isPublic: z.string().optional().transform((val) => val === 'true'),
   travelStyle: z.enum(['budget', 'mid-range', 'luxury', 'backpacking', 'family', 'business', 'adventure', 'cultural', 'relaxation'])
     .optional(),
+  status: z.enum(['draft', 'confirmed', 'completed']).optional(),
   
   // Date range
   startDateFrom: z.string().optional().transform((val) => val ? new Date(val) : undefined),
@@ -161,6 +219,11 @@ export const itineraryQuerySchema = z.object({
   radiusKm: z.string().optional().transform((val) => val ? parseFloat(val) : undefined),
 });
 
+// Itinerary search schema
+export const itinerarySearchQuerySchema = itineraryQuerySchema.extend({
+  q: z.string().min(1, 'Search query is required'),
+});
+
 // Share itinerary schema
 export const shareItinerarySchema = z.object({
   shareToken: z.string()
@@ -184,13 +247,57 @@ export const shareItinerarySchema = z.object({
 export const itineraryCollaborationSchema = z.object({
   email: z.string()
     .email('Invalid email address'),
-  role: z.enum(['viewer', 'editor', 'admin'])
+  role: z.enum(['viewer', 'editor'])
     .default('viewer'),
   message: z.string()
     .max(500, 'Message too long')
     .optional(),
 });
 
+// Collaborator role change schema
+export const updateCollaboratorSchema = z.object({
+  role: z.enum(['viewer', 'editor']),
+});
+
+// Add day plan item schema
+export const addItineraryItemSchema = itineraryItemSchema.omit({ id: true }).extend({
+  position: z.number().int().min(0, 'Position cannot be negative').optional(), // appended when omitted
+});
+
+// Update day plan item schema; only the submitted fields are written
+export const updateItineraryItemSchema = itineraryItemSchema
+  .omit({ id: true })
+  .partial()
+  .extend({
+    dayNumber: z.number().int().min(1, 'Day number must be at least 1').optional(), // moves the item
+    position: z.number().int().min(0, 'Position cannot be negative').optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'No item fields to update');
+
+// Update day schema
+export const updateItineraryDaySchema = z.object({
+  title: z.string().max(200, 'Title too long').nullable().optional(),
+  notes: z.string().max(1000, 'Notes too long').nullable().optional(),
+});
+
+// Collaborator route params
+export const collaboratorParamsSchema = z.object({
+  id: z.string().uuid('Invalid itinerary ID'),
+  userId: z.string().uuid('Invalid user ID'),
+});
+
+// Day plan item route params
+export const itineraryItemParamsSchema = z.object({
+  id: z.string().uuid('Invalid itinerary ID'),
+  itemId: z.string().uuid('Invalid item ID'),
+});
+
+// Day route params
+export const itineraryDayParamsSchema = z.object({
+  id: z.string().uuid('Invalid itinerary ID'),
+  dayNumber: z.coerce.number().int().min(1, 'Day number must be at least 1'),
+});
+
 // Itinerary statistics schema
 export const itineraryStatsQuerySchema = z.object({
   startDate: z.string().optional().transform((val) => val ? new Date(val) : undefined),
@@ -245,11 +352,12 @@ export const itineraryRecommendationSchema = z.object({
 
 // Itinerary export schema
 export const itineraryExportSchema = z.object({
-  format: z.enum(['pdf', 'json', 'csv', 'ical']),
-  includeImages: z.boolean().optional().default(true),
-  includeNotes: z.boolean().optional().default(true),
-  includeActivities: z.boolean().optional().default(true),
-  includeBudget: z.boolean().optional().default(true),
+  format: z.enum(['pdf', 'json', 'csv', 'ical', 'gpx']).optional().default('json'),
+  day: z.coerce.number().int().min(1, 'Day must be at least 1').optional(), // export a single day
+  includeImages: z.string().optional().transform((val) => val !== 'false'),
+  includeNotes: z.string().optional().transform((val) => val !== 'false'),
+  includeActivities: z.string().optional().transform((val) => val !== 'false'),
+  includeBudget: z.string().optional().transform((val) => val !== 'false'),
   language: z.enum(['en', 'am', 'om']).optional().default('en'),
 });
 
@@ -290,12 +398,19 @@ export const itineraryOptimizationSchema = z.object({
 export type CreateItineraryInput = z.infer<typeof createItinerarySchema>;
 export type UpdateItineraryInput = z.infer<typeof updateItinerarySchema>;
 export type ItineraryQueryInput = z.infer<typeof itineraryQuerySchema>;
+export type CopyItineraryInput = z.infer<typeof copyItinerarySchema>;
 export type ShareItineraryInput = z.infer<typeof shareItinerarySchema>;
 export type ItineraryCollaborationInput = z.infer<typeof itineraryCollaborationSchema>;
+export type UpdateCollaboratorInput = z.infer<typeof updateCollaboratorSchema>;
+export type AddItineraryItemInput = z.infer<typeof addItineraryItemSchema>;
+export type UpdateItineraryItemInput = z.infer<typeof updateItineraryItemSchema>;
+export type UpdateItineraryDayInput = z.infer<typeof updateItineraryDaySchema>;
 export type ItineraryStatsQueryInput = z.infer<typeof itineraryStatsQuerySchema>;
 export type ItineraryRecommendationInput = z.infer<typeof itineraryRecommendationSchema>;
 export type ItineraryExportInput = z.infer<typeof itineraryExportSchema>;
 export type ItineraryImportInput = z.infer<typeof itineraryImportSchema>;
 export type ItineraryOptimizationInput = z.infer<typeof itineraryOptimizationSchema>;
 export type DestinationInput = z.infer<typeof destinationSchema>;
-export type ActivityInput = z.infer<typeof activitySchema>;
\ No newline at end of file
+export type ActivityInput = z.infer<typeof activitySchema>;
+export type ItineraryDayInput = z.infer<typeof itineraryDaySchema>;
+export type ItineraryItemInput = z.infer<typeof itineraryItemSchema>;
\ No newline at end of file
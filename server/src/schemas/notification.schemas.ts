@@ -0,0 +1,231 @@
+import { z } from 'zod';
+import {
+  CampaignStatus,
+  DeliveryChannel,
+  NotificationFrequency,
+  NotificationPriority,
+  NotificationType,
+  TEMPLATE_LOCALES,
+} from '../types/notification.types';
+
+/**
+ * Notification validation schemas
+ */
+
+const timeOfDay = z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Time must use the HH:mm format');
+
+const timezone = z.string().refine((value) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid timezone');
+
+// Inbox query schema
+export const notificationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  // Comma separated notification types
+  types: z.string().optional().transform((val) => val ? val.split(',').map((type) => type.trim()) : undefined)
+    .pipe(z.array(z.nativeEnum(NotificationType)).optional()),
+  unreadOnly: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+  includeExpired: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+// Bulk read/delete schema
+export const bulkNotificationSchema = z.object({
+  ids: z.array(z.string().uuid('Invalid notification ID')).min(1, 'At least one notification is required').max(100, 'At most 100 notifications at a time'),
+});
+
+// Quiet hours schema
+export const quietHoursSchema = z.object({
+  enabled: z.boolean(),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+  timezone: timezone.default('UTC'),
+  allowCritical: z.boolean().default(true),
+});
+
+// Update preferences schema
+export const updateNotificationPreferencesSchema = z.object({
+  channels: z.record(z.nativeEnum(NotificationType), z.array(z.nativeEnum(DeliveryChannel))).optional(),
+  quietHours: quietHoursSchema.optional(),
+  frequency: z.nativeEnum(NotificationFrequency).optional(),
+  language: z.string().min(2).max(10).optional(),
+  timezone: timezone.optional(),
+});
+
+const pushEndpoint = z.string().url('Invalid push endpoint').max(500, 'Push endpoint is too long')
+  .refine((url) => url.startsWith('https://'), 'Push endpoint must use HTTPS');
+
+// Web Push subscription schema, the browser's PushSubscription serialized as JSON
+export const pushSubscriptionSchema = z.object({
+  subscription: z.object({
+    endpoint: pushEndpoint,
+    keys: z.object({
+      p256dh: z.string().min(1).max(255),
+      auth: z.string().min(1).max(255),
+    }),
+  }),
+  appVersion: z.string().max(50).optional(),
+});
+
+// Remove Web Push subscription schema
+export const removePushSubscriptionSchema = z.object({
+  endpoint: pushEndpoint,
+});
+
+const templateLocale = z.enum(TEMPLATE_LOCALES);
+
+const templateVariableSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Variable names may only use letters, digits and underscores').max(50),
+  type: z.enum(['string', 'number', 'date', 'boolean']),
+  required: z.boolean().default(true),
+  description: z.string().max(200).optional(),
+});
+
+const templateContentSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(191),
+  content: z.string().trim().min(1, 'Content is required').max(5000),
+  emailSubject: z.string().max(191).optional(),
+  emailHtml: z.string().max(50000).optional(),
+  pushTitle: z.string().max(191).optional(),
+  pushBody: z.string().max(1000).optional(),
+  smsText: z.string().max(1000).optional(),
+  variables: z.array(templateVariableSchema).max(30).default([]),
+});
+
+const changeNote = z.string().trim().max(500).optional();
+
+// Template params schema
+export const notificationTemplateParamsSchema = z.object({
+  type: z.nativeEnum(NotificationType),
+  locale: templateLocale,
+});
+
+// Template list query schema
+export const notificationTemplateQuerySchema = z.object({
+  type: z.nativeEnum(NotificationType).optional(),
+  locale: templateLocale.optional(),
+});
+
+// Create template version schema
+export const createNotificationTemplateSchema = templateContentSchema.extend({
+  type: z.nativeEnum(NotificationType),
+  locale: templateLocale,
+  changeNote,
+});
+
+// Update template schema, saved as a new version over the active one
+export const updateNotificationTemplateSchema = templateContentSchema.partial().extend({
+  changeNote,
+}).refine(
+  (data) => Object.keys(data).some((key) => key !== 'changeNote'),
+  { message: 'Nothing to update' }
+);
+
+// Roll back template schema
+export const rollbackNotificationTemplateSchema = z.object({
+  version: z.number().int().min(1),
+});
+
+// Preview template schema; without a draft the stored template is rendered
+export const previewNotificationTemplateSchema = z.object({
+  type: z.nativeEnum(NotificationType),
+  locale: templateLocale.default('en'),
+  template: templateContentSchema.optional(),
+  data: z.record(z.any()).optional(),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must use the YYYY-MM-DD format');
+
+// Campaign audience; users must match every criterion given
+export const userSegmentSchema = z.object({
+  all: z.boolean().optional(),
+  userIds: z.array(z.string().uuid('Invalid user ID')).max(10000).optional(),
+  roles: z.array(z.enum(['USER', 'ADMIN', 'GUIDE', 'VENDOR'])).optional(),
+  locations: z.array(z.string().max(191)).max(100).optional(),
+  bookings: z.object({
+    statuses: z.array(z.enum(['PENDING', 'CONFIRMED', 'CANCELLED', 'COMPLETED', 'REFUNDED'])).optional(),
+    tourIds: z.array(z.string().uuid('Invalid tour ID')).max(100).optional(),
+    categories: z.array(z.string().max(100)).max(50).optional(),
+    startDateFrom: isoDate.optional(),
+    startDateTo: isoDate.optional(),
+    minCount: z.number().int().min(0).max(1000).optional(),
+  }).optional(),
+  nationalities: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+  languages: z.array(z.string().min(2).max(10)).max(20).optional(),
+  activeWithinDays: z.number().int().min(1).max(3650).optional(),
+  inactiveForDays: z.number().int().min(1).max(3650).optional(),
+  wishlistTourIds: z.array(z.string().uuid('Invalid tour ID')).max(100).optional(),
+  wishlistCategories: z.array(z.string().max(100)).max(50).optional(),
+}).refine(
+  (segment) => segment.all || Object.entries(segment).some(([key, value]) => key !== 'all' && value !== undefined),
+  { message: 'Choose at least one audience criterion, or set all to send to every user' }
+);
+
+const campaignContentSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(191),
+  type: z.enum([NotificationType.PROMOTIONAL, NotificationType.SYSTEM_ANNOUNCEMENT]).default(NotificationType.PROMOTIONAL),
+  title: z.string().trim().min(1, 'Title is required').max(191),
+  content: z.string().trim().min(1, 'Content is required').max(5000),
+  // App path, e.g. /tours/simien-trek, or URL the notification links to
+  url: z.string().max(1024).refine((url) => url.startsWith('/') || /^https?:\/\//.test(url), 'URL must be an app path or http(s) URL').nullable().optional(),
+  channels: z.array(z.nativeEnum(DeliveryChannel)).min(1, 'At least one channel is required'),
+  priority: z.enum(['LOW', 'NORMAL', 'HIGH']).default('NORMAL').transform((priority) => NotificationPriority[priority]),
+  segment: userSegmentSchema,
+  // Notifications a minute at most; sent as fast as the worker allows when empty
+  throttlePerMinute: z.number().int().min(1).max(10000).nullable().optional(),
+});
+
+// Campaign params schema
+export const campaignParamsSchema = z.object({
+  id: z.string().uuid('Invalid campaign ID'),
+});
+
+// Campaign list query schema
+export const campaignQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.nativeEnum(CampaignStatus).optional(),
+});
+
+// Create campaign schema, saved as a draft
+export const createCampaignSchema = campaignContentSchema;
+
+// Update campaign schema
+export const updateCampaignSchema = campaignContentSchema.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'Nothing to update' }
+);
+
+// Schedule campaign schema; without a time it is sent right away
+export const scheduleCampaignSchema = z.object({
+  scheduledAt: z.coerce.date().refine((date) => date.getTime() > Date.now() - 60 * 1000, 'Scheduled time must be in the future').optional(),
+});
+
+// Audience preview schema
+export const campaignAudiencePreviewSchema = z.object({
+  segment: userSegmentSchema,
+  sampleSize: z.number().int().min(0).max(50).default(10),
+});
+
+// Type exports for TypeScript
+export type NotificationQueryInput = z.infer<typeof notificationQuerySchema>;
+export type BulkNotificationInput = z.infer<typeof bulkNotificationSchema>;
+export type QuietHoursInput = z.infer<typeof quietHoursSchema>;
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>;
+export type PushSubscriptionRequestInput = z.infer<typeof pushSubscriptionSchema>;
+export type RemovePushSubscriptionInput = z.infer<typeof removePushSubscriptionSchema>;
+export type NotificationTemplateQueryInput = z.infer<typeof notificationTemplateQuerySchema>;
+export type CreateNotificationTemplateInput = z.infer<typeof createNotificationTemplateSchema>;
+export type UpdateNotificationTemplateInput = z.infer<typeof updateNotificationTemplateSchema>;
+export type RollbackNotificationTemplateInput = z.infer<typeof rollbackNotificationTemplateSchema>;
+export type PreviewNotificationTemplateInput = z.infer<typeof previewNotificationTemplateSchema>;
+export type CampaignQueryInput = z.infer<typeof campaignQuerySchema>;
+export type CreateCampaignInput = z.infer<typeof createCampaignSchema>;
+export type UpdateCampaignInput = z.infer<typeof updateCampaignSchema>;
+export type ScheduleCampaignInput = z.infer<typeof scheduleCampaignSchema>;
+export type CampaignAudiencePreviewInput = z.infer<typeof campaignAudiencePreviewSchema>;
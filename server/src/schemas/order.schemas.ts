@@ -19,7 +19,7 @@ const orderItemSchema = z.object({
 });
 
 // Address schema
-const addressSchema = z.object({
+export const addressSchema = z.object({
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().min(1, 'Last name is required'),
   company: z.string().optional(),
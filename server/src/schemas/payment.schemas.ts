@@ -1,22 +1,61 @@
 import { z } from 'zod';
 
+// Booking and checkout payments charge a locked quote, so only other payments need an amount
+const requireAmountWithoutBooking = {
+  check: (data: { amount?: number; bookingId?: string; checkoutSessionId?: string }) =>
+    data.amount !== undefined || !!data.bookingId || !!data.checkoutSessionId,
+  message: { message: 'Amount is required unless paying for a booking or checkout', path: ['amount'] }
+};
+
 /**
  * Create payment intent schema
  */
 export const createPaymentIntentSchema = z.object({
-  amount: z.number().positive('Amount must be positive'),
-  currency: z.string().min(3).max(3).default('USD'),
+  amount: z.number().positive('Amount must be positive').optional(),
+  currency: z.string().min(3).max(3).optional(),
+  bookingId: z.string().uuid().optional(),
+  orderId: z.string().uuid().optional(),
+  metadata: z.record(z.string()).optional()
+}).refine(requireAmountWithoutBooking.check, requireAmountWithoutBooking.message);
+
+/**
+ * Initialize payment schema, for any provider. Customer details default to the user's profile.
+ */
+export const initializePaymentSchema = z.object({
+  amount: z.number().positive('Amount must be positive').optional(),
+  currency: z.string().min(3).max(3).optional(),
   bookingId: z.string().uuid().optional(),
   orderId: z.string().uuid().optional(),
+  checkoutSessionId: z.string().uuid().optional(),
+  email: z.string().email('Invalid email format').optional(),
+  firstName: z.string().min(1).optional(),
+  lastName: z.string().min(1).optional(),
+  phone: z.string().min(1).optional(),
+  description: z.string().max(255).optional(),
+  returnUrl: z.string().url().optional(),
   metadata: z.record(z.string()).optional()
+}).refine(requireAmountWithoutBooking.check, requireAmountWithoutBooking.message);
+
+/**
+ * Payment provider route params
+ */
+export const paymentProviderParamsSchema = z.object({
+  provider: z.enum(['stripe', 'chapa', 'telebirr', 'cbe-birr'])
+});
+
+/**
+ * Verify payment route params
+ */
+export const verifyPaymentParamsSchema = paymentProviderParamsSchema.extend({
+  reference: z.string().min(1, 'Payment reference is required')
 });
 
 /**
  * Initialize Chapa payment schema
  */
 export const initializeChapaPaymentSchema = z.object({
-  amount: z.number().positive('Amount must be positive'),
-  currency: z.string().min(3).max(3).default('ETB'),
+  amount: z.number().positive('Amount must be positive').optional(),
+  currency: z.string().min(3).max(3).optional(),
   email: z.string().email('Invalid email format'),
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().min(1, 'Last name is required'),
@@ -30,7 +69,7 @@ export const initializeChapaPaymentSchema = z.object({
     description: z.string().optional(),
     logo: z.string().url().optional()
   }).optional()
-});
+}).refine(requireAmountWithoutBooking.check, requireAmountWithoutBooking.message);
 
 /**
  * Confirm payment schema
@@ -47,7 +86,7 @@ export const paymentQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(10),
   sortBy: z.enum(['createdAt', 'amount', 'status']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
-  status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'REFUNDED']).optional(),
+  status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'PARTIALLY_REFUNDED', 'REFUNDED']).optional(),
   method: z.enum(['STRIPE', 'CHAPA', 'TELEBIRR', 'CBE_BIRR']).optional(),
   userId: z.string().uuid().optional(),
   bookingId: z.string().uuid().optional(),
@@ -59,10 +98,9 @@ export const paymentQuerySchema = z.object({
 });
 
 /**
- * Refund payment schema
+ * Refund payment schema. Without an amount, whatever has not been refunded yet is refunded.
  */
 export const refundPaymentSchema = z.object({
-  paymentId: z.string().uuid('Invalid payment ID'),
   amount: z.number().positive('Refund amount must be positive').optional(),
   reason: z.string().min(1, 'Refund reason is required')
 });
@@ -78,6 +116,7 @@ export const paymentStatsQuerySchema = z.object({
 });
 
 export type CreatePaymentIntentInput = z.infer<typeof createPaymentIntentSchema>;
+export type InitializePaymentInput = z.infer<typeof initializePaymentSchema>;
 export type InitializeChapaPaymentInput = z.infer<typeof initializeChapaPaymentSchema>;
 export type ConfirmPaymentInput = z.infer<typeof confirmPaymentSchema>;
 export type PaymentQueryInput = z.infer<typeof paymentQuerySchema>;
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+
+/**
+ * Promo code validation schemas
+ */
+
+const discountTypeEnum = z.enum(['percentage', 'fixed']);
+
+const promoCodeFields = {
+  code: z.string()
+    .min(3, 'Code must be at least 3 characters')
+    .max(32, 'Code must not exceed 32 characters')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, numbers, dashes and underscores')
+    .toUpperCase(),
+  description: z.string().max(1000, 'Description must not exceed 1000 characters').optional(),
+  campaign: z.string().max(100, 'Campaign must not exceed 100 characters').optional(),
+  discountType: discountTypeEnum,
+  discountValue: z.number().positive('Discount value must be positive'),
+  maxDiscount: z.number().positive('Maximum discount must be positive').optional(),
+  minOrderAmount: z.number().min(0, 'Minimum order amount cannot be negative').optional(),
+  usageLimit: z.number().int().positive('Usage limit must be positive').optional(),
+  perUserLimit: z.number().int().positive('Per-user limit must be positive').optional(),
+  validFrom: z.string().datetime('Invalid start date'),
+  validUntil: z.string().datetime('Invalid end date'),
+  isActive: z.boolean().default(true),
+  applicableToTours: z.boolean().default(true),
+  applicableToProducts: z.boolean().default(true),
+  tourIds: z.array(z.string().uuid('Invalid tour ID')).optional(),
+  tourCategories: z.array(z.string().min(1)).optional(),
+  productIds: z.array(z.string().uuid('Invalid product ID')).optional(),
+  productCategories: z.array(z.string().min(1)).optional(),
+};
+
+// Create promo code schema
+export const createPromoCodeSchema = z.object(promoCodeFields).refine(
+  (data) => new Date(data.validFrom) < new Date(data.validUntil),
+  {
+    message: 'End date must be after start date',
+    path: ['validUntil'],
+  }
+).refine(
+  (data) => data.discountType !== 'percentage' || data.discountValue <= 100,
+  {
+    message: 'Percentage discount cannot exceed 100',
+    path: ['discountValue'],
+  }
+);
+
+// Update promo code schema (usage counters are managed by redemptions)
+export const updatePromoCodeSchema = z.object({
+  description: promoCodeFields.description.nullable(),
+  campaign: promoCodeFields.campaign.nullable(),
+  discountType: discountTypeEnum.optional(),
+  discountValue: promoCodeFields.discountValue.optional(),
+  maxDiscount: promoCodeFields.maxDiscount.nullable(),
+  minOrderAmount: promoCodeFields.minOrderAmount.nullable(),
+  usageLimit: promoCodeFields.usageLimit.nullable(),
+  perUserLimit: promoCodeFields.perUserLimit.nullable(),
+  validFrom: promoCodeFields.validFrom.optional(),
+  validUntil: promoCodeFields.validUntil.optional(),
+  isActive: z.boolean().optional(),
+  applicableToTours: z.boolean().optional(),
+  applicableToProducts: z.boolean().optional(),
+  tourIds: promoCodeFields.tourIds.nullable(),
+  tourCategories: promoCodeFields.tourCategories.nullable(),
+  productIds: promoCodeFields.productIds.nullable(),
+  productCategories: promoCodeFields.productCategories.nullable(),
+}).refine(
+  (data) => !data.validFrom || !data.validUntil || new Date(data.validFrom) < new Date(data.validUntil),
+  {
+    message: 'End date must be after start date',
+    path: ['validUntil'],
+  }
+);
+
+// Promo code query schema
+export const promoCodeQuerySchema = z.object({
+  page: z.string().optional().transform((val) => val ? parseInt(val, 10) : 1),
+  limit: z.string().optional().transform((val) => val ? parseInt(val, 10) : 20),
+  search: z.string().optional(),
+  campaign: z.string().optional(),
+  isActive: z.enum(['true', 'false']).optional().transform((val) => val === undefined ? undefined : val === 'true'),
+  sortBy: z.enum(['createdAt', 'code', 'validUntil', 'usageCount']).optional().default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+});
+
+// Redemption report query schema
+export const promoReportQuerySchema = z.object({
+  campaign: z.string().optional(),
+  from: z.string().optional().transform((val) => val ? new Date(val) : undefined),
+  to: z.string().optional().transform((val) => val ? new Date(val) : undefined),
+});
+
+// Promo code route params
+export const promoCodeParamsSchema = z.object({
+  promoCodeId: z.string().uuid('Invalid promo code ID'),
+});
+
+// Type exports for TypeScript
+export type CreatePromoCodeInput = z.infer<typeof createPromoCodeSchema>;
+export type UpdatePromoCodeInput = z.infer<typeof updatePromoCodeSchema>;
+export type PromoCodeQueryInput = z.infer<typeof promoCodeQuerySchema>;
+export type PromoReportQueryInput = z.infer<typeof promoReportQuerySchema>;
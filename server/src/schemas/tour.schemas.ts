@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { currencyCodeSchema } from './currency.schemas';
+
+// [latitude, longitude]
+const coordinatesSchema = z.tuple([
+  z.number().min(-90, 'Latitude must be between -90 and 90').max(90, 'Latitude must be between -90 and 90'),
+  z.number().min(-180, 'Longitude must be between -180 and 180').max(180, 'Longitude must be between -180 and 180')
+], { invalid_type_error: 'Coordinates must be [lat, lng]' });
 
 /**
  * Tour creation schema
@@ -7,33 +14,38 @@ export const createTourSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
   description: z.string().min(1, 'Description is required'),
   shortDescription: z.string().max(500, 'Short description too long').optional(),
-  images: z.array(z.string().url('Invalid image URL')).min(1, 'At least one image is required'),
+  images: z.array(z.string().url('Invalid image URL').max(1024, 'Image URL too long')).min(1, 'At least one image is required'),
   price: z.number().positive('Price must be positive'),
   discountPrice: z.number().positive('Discount price must be positive').optional(),
+  currency: currencyCodeSchema.optional(),
   duration: z.number().int().positive('Duration must be a positive integer'),
   maxGroupSize: z.number().int().positive('Max group size must be positive'),
   difficulty: z.enum(['Easy', 'Moderate', 'Challenging']),
   startLocation: z.object({
-    name: z.string().min(1, 'Start location name is required'),
-    coordinates: z.array(z.number()).length(2, 'Coordinates must be [lat, lng]'),
-    address: z.string().min(1, 'Start location address is required')
+    name: z.string().min(1, 'Start location name is required').max(191, 'Start location name too long'),
+    coordinates: coordinatesSchema,
+    address: z.string().min(1, 'Start location address is required').max(191, 'Start location address too long'),
+    description: z.string().optional()
   }),
   locations: z.array(z.object({
-    name: z.string().min(1, 'Location name is required'),
-    coordinates: z.array(z.number()).length(2, 'Coordinates must be [lat, lng]'),
+    name: z.string().min(1, 'Location name is required').max(191, 'Location name too long'),
+    coordinates: coordinatesSchema,
     description: z.string().optional()
   })),
-  included: z.array(z.string().min(1, 'Included item cannot be empty')),
-  excluded: z.array(z.string().min(1, 'Excluded item cannot be empty')),
+  included: z.array(z.string().min(1, 'Included item cannot be empty').max(191, 'Included item too long')),
+  excluded: z.array(z.string().min(1, 'Excluded item cannot be empty').max(191, 'Excluded item too long')),
   itinerary: z.array(z.object({
     day: z.number().int().positive('Day must be positive'),
-    title: z.string().min(1, 'Day title is required'),
+    title: z.string().min(1, 'Day title is required').max(191, 'Day title too long'),
     description: z.string().min(1, 'Day description is required'),
     activities: z.array(z.string()),
-    accommodation: z.string().optional(),
+    accommodation: z.string().max(191, 'Accommodation too long').optional(),
     meals: z.array(z.string())
-  })),
-  tags: z.array(z.string()),
+  })).refine(
+    (days) => new Set(days.map((day) => day.day)).size === days.length,
+    { message: 'Each itinerary day can only appear once' }
+  ),
+  tags: z.array(z.string().trim().min(1, 'Tag cannot be empty').max(100, 'Tag too long')),
   category: z.string().min(1, 'Category is required'),
   language: z.string().default('en'),
   metaTitle: z.string().optional(),
@@ -45,33 +57,83 @@ export const createTourSchema = z.object({
  */
 export const updateTourSchema = createTourSchema.partial();
 
+// Comma separated list, e.g. ?category=Cultural,Adventure
+const listParam = z
+  .string()
+  .optional()
+  .transform((val) => (val ? val.split(',').map((item) => item.trim()).filter(Boolean) : undefined));
+
+// ?featured=false must not coerce to true
+const booleanParam = z
+  .enum(['true', 'false'])
+  .optional()
+  .transform((val) => (val === undefined ? undefined : val === 'true'));
+
 /**
  * Tour query schema for filtering and searching
  */
 export const tourQuerySchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(100).default(10),
-  search: z.string().optional(),
-  category: z.string().optional(),
-  difficulty: z.enum(['Easy', 'Moderate', 'Challenging']).optional(),
-  minPrice: z.coerce.number().positive().optional(),
+  q: z.string().trim().max(200, 'Search query too long').optional(),
+  search: z.string().trim().max(200, 'Search query too long').optional(),
+  category: listParam,
+  difficulty: listParam,
+  language: listParam,
+  minPrice: z.coerce.number().min(0).optional(),
   maxPrice: z.coerce.number().positive().optional(),
   duration: z.coerce.number().int().positive().optional(),
-  featured: z.coerce.boolean().optional(),
-  sortBy: z.enum(['createdAt', 'price', 'duration', 'title', 'rating']).default('createdAt'),
-  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  minDuration: z.coerce.number().int().positive().optional(),
+  maxDuration: z.coerce.number().int().positive().optional(),
+  minRating: z.coerce.number().min(1).max(5).optional(),
+  featured: booleanParam,
+  // Also show prices in this currency; minPrice and maxPrice are in it (default currency otherwise)
+  currency: currencyCodeSchema.optional(),
+  // Near a point: tours whose start location is within `radius` km
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+  radius: z.coerce.number().positive().max(2000).default(100),
+  // Within a region: south,west,north,east
+  bounds: z
+    .string()
+    .optional()
+    .transform((val, ctx) => {
+      if (!val) return undefined;
+      const parts = val.split(',').map(Number);
+      if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Bounds must be south,west,north,east' });
+        return z.NEVER;
+      }
+      const [south, west, north, east] = parts;
+      return { south, west, north, east };
+    }),
+  sortBy: z.enum(['relevance', 'createdAt', 'price', 'duration', 'title', 'rating', 'popularity', 'distance']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional()
-});
+}).refine(
+  (data) => (data.latitude === undefined) === (data.longitude === undefined),
+  {
+    message: 'Latitude and longitude must be given together',
+    path: ['longitude']
+  }
+);
 
 /**
  * Check availability schema
  */
 export const checkAvailabilitySchema = z.object({
-  startDate: z.string().datetime('Invalid start date'),
+  departureId: z.string().uuid('Invalid departure ID').optional(),
+  startDate: z.string().datetime('Invalid start date').optional(),
   adults: z.number().int().min(1, 'At least 1 adult required'),
   children: z.number().int().min(0, 'Children count cannot be negative').default(0)
-});
+}).refine(
+  (data) => data.departureId || data.startDate,
+  {
+    message: 'Either a departure or a start date is required',
+    path: ['startDate']
+  }
+);
 
 /**
  * Update tour status schema (admin only)
@@ -88,7 +150,7 @@ export const tourReviewSchema = z.object({
   rating: z.number().int().min(1, 'Rating must be at least 1').max(5, 'Rating cannot exceed 5'),
   title: z.string().max(100, 'Review title too long').optional(),
   comment: z.string().min(1, 'Review comment is required').max(1000, 'Review comment too long'),
-  images: z.array(z.string().url('Invalid image URL')).optional()
+  images: z.array(z.string().url('Invalid image URL').max(1024, 'Image URL too long')).optional()
 });
 
 export type CreateTourInput = z.infer<typeof createTourSchema>;
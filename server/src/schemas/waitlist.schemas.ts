@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+/**
+ * Waitlist validation schemas
+ */
+
+// Join waitlist schema
+export const joinWaitlistSchema = z.object({
+  tourId: z.string().uuid('Invalid tour ID'),
+  departureId: z.string().uuid('Invalid departure ID').optional(),
+  date: z.string().min(1, 'Date is required').optional(),
+  name: z.string().min(2, 'Name must be at least 2 characters').max(100, 'Name must not exceed 100 characters'),
+  email: z.string().email('Invalid email format').toLowerCase(),
+  participants: z.object({
+    adults: z.number().int().min(1, 'At least 1 adult is required').max(20, 'Maximum 20 adults allowed'),
+    children: z.number().int().min(0, 'Children count cannot be negative').max(20, 'Maximum 20 children allowed').default(0),
+  }),
+}).refine(
+  (data) => data.departureId || (data.date && !isNaN(Date.parse(data.date))),
+  {
+    message: 'Either a departure or a valid date is required',
+    path: ['date'],
+  }
+);
+
+// Waitlist offer token params
+export const waitlistTokenParamsSchema = z.object({
+  token: z.string().min(32, 'Invalid claim token').max(128, 'Invalid claim token'),
+});
+
+// Type exports for TypeScript
+export type JoinWaitlistInput = z.infer<typeof joinWaitlistSchema>;
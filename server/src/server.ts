@@ -1,6 +1,15 @@
 import { config } from 'dotenv';
 import { app } from './app';
 import { log } from './utils/logger';
+import { WaitlistService } from './services/waitlist.service';
+import { CurrencyService } from './services/currency.service';
+import { CheckoutService } from './services/checkout.service';
+import { ItineraryCollaborationService } from './services/itinerary-collaboration.service';
+import { getNotificationService, getCampaignService } from './services/notification';
+import { TripNotificationService } from './services/trip-notification.service';
+import { EmailOutboxService } from './services/email-outbox.service';
+import { RetrievalService } from './services/retrieval.service';
+import { prisma } from './utils/database';
 
 // Load environment variables
 config();
@@ -134,11 +143,47 @@ const server = app.listen(PORT, () => {
   // Log active services
   if (googleAI) log.info('🤖 Google AI service: ACTIVE');
   if (osmClient) log.info('🗺️ OpenStreetMap service: ACTIVE (FREE)');
+
+  // Expire unclaimed waitlist offers and pass their seats on
+  WaitlistService.startExpiryWorker();
+
+  // Keep exchange rates fresh for price display and booking quotes
+  CurrencyService.startRefreshWorker();
+
+  // Release seats and stock held by checkouts that were never paid
+  CheckoutService.startExpiryWorker();
+
+  // Send queued emails, retrying failures with backoff
+  EmailOutboxService.startDeliveryWorker();
+
+  // Deliver queued email, SMS and push notifications
+  getNotificationService(prisma).startDeliveryWorkers();
+
+  // Send pre-trip checklists, meeting point reminders, weather heads-ups and review requests
+  TripNotificationService.startSweepWorker();
+
+  // Send scheduled notification campaigns at their throttled rate
+  getCampaignService(prisma).startSendWorker();
+
+  // Index published cultural content and tours for chat answers
+  RetrievalService.startRefreshWorker();
 });
 
+// Live channel for collaborative itinerary editing
+ItineraryCollaborationService.attach(server);
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   log.info('SIGTERM received, shutting down gracefully');
+  WaitlistService.stopExpiryWorker();
+  CurrencyService.stopRefreshWorker();
+  CheckoutService.stopExpiryWorker();
+  EmailOutboxService.stopDeliveryWorker();
+  getNotificationService(prisma).stopDeliveryWorkers();
+  TripNotificationService.stopSweepWorker();
+  getCampaignService(prisma).stopSendWorker();
+  RetrievalService.stopRefreshWorker();
+  ItineraryCollaborationService.close();
   server.close(() => {
     log.info('Process terminated');
     process.exit(0);
@@ -147,6 +192,15 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   log.info('SIGINT received, shutting down gracefully');
+  WaitlistService.stopExpiryWorker();
+  CurrencyService.stopRefreshWorker();
+  CheckoutService.stopExpiryWorker();
+  EmailOutboxService.stopDeliveryWorker();
+  getNotificationService(prisma).stopDeliveryWorkers();
+  TripNotificationService.stopSweepWorker();
+  getCampaignService(prisma).stopSendWorker();
+  RetrievalService.stopRefreshWorker();
+  ItineraryCollaborationService.close();
   server.close(() => {
     log.info('Process terminated');
     process.exit(0);
@@ -1,6 +1,7 @@
 import { PrismaClient, UserRole, BookingStatus, PaymentStatus, ReviewStatus, ContentStatus } from '@prisma/client';
 import { log } from '../utils/logger';
 import { EmailService } from './email.service';
+import { PaymentService } from './payment.service';
 import { 
   NotFoundError, 
   ForbiddenError, 
@@ -744,9 +745,22 @@ export class AdminService {
     }
   }
 
+  /**
+   * Refund all or part of a payment on behalf of an admin
+   */
+  static async processRefund(paymentId: string, amount: number | undefined, reason: string, adminId: string) {
+    try {
+      const { payment, refund } = await PaymentService.refundPayment(paymentId, { amount, reason }, adminId);
+
+      return { ...refund, payment };
+    } catch (error) {
+      log.error('Failed to process refund:', error);
+      throw error;
+    }
+  }
+
   // Placeholder methods for other functionality
   static async getPayments(page: number, limit: number, filters: any) { /* Implementation */ }
-  static async processRefund(paymentId: string, amount: number, reason: string, adminId: string) { /* Implementation */ }
   static async getReviews(page: number, limit: number, filters: any) { /* Implementation */ }
   static async moderateReview(reviewId: string, status: string, reason: string, adminId: string) { /* Implementation */ }
   static async getCulturalContent(page: number, limit: number, filters: any) { /* Implementation */ }
@@ -1,10 +1,11 @@
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { Content, FunctionDeclarationSchema, GoogleGenerativeAI } from '@google/generative-ai';
 import { config } from '../config/index';
 import { log } from '../utils/logger';
 import { ValidationError, ServiceUnavailableError } from '../utils/errors';
 import { RateLimiter } from '../utils/rate-limiter';
+import { OfflineAIProvider } from './offline-ai.service';
 
 export interface AIMessage {
   role: 'system' | 'user' | 'assistant';
@@ -20,13 +21,95 @@ export interface AIResponse {
 }
 
 export interface AIServiceOptions {
-  provider?: 'openai' | 'anthropic' | 'google' | 'azure';
+  provider?: 'openai' | 'anthropic' | 'google' | 'azure' | 'offline';
   model?: string;
   temperature?: number;
   maxTokens?: number;
   fallbackProviders?: string[];
 }
 
+/**
+ * A function the model may call, with its arguments described as JSON Schema
+ */
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Chat turns plus the tool calls of a streamed response and their results
+ */
+export type AITranscriptItem =
+  | AIMessage
+  | { role: 'assistant'; content: string; toolCalls: AIToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface AIStreamOptions extends AIServiceOptions {
+  signal?: AbortSignal; // Aborting stops generation at the provider
+  tools?: AIToolDefinition[];
+  // Runs a tool the model called; the returned text is what the model sees
+  executeTool?: (call: AIToolCall) => Promise<string>;
+  maxToolRounds?: number;
+}
+
+export interface AIStream {
+  provider: string;
+  model: string;
+  tokens: AsyncIterable<string>;
+}
+
+type AIRoundEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: AIToolCall };
+
+/**
+ * One streamed provider response; tool calls are reported once complete
+ */
+interface AIRound {
+  model: string;
+  events: AsyncIterable<AIRoundEvent>;
+}
+
+// Rounds of tool calls before the model has to answer
+const MAX_TOOL_ROUNDS = 4;
+
+const parseToolArguments = (json: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// Gemini takes OpenAPI schemas, whose type names are upper case
+const toGoogleSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) {
+    return schema.map(toGoogleSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  return Object.fromEntries(Object.entries(schema)
+    .filter(([key]) => key !== 'additionalProperties')
+    .map(([key, value]) => [
+      key,
+      key === 'type' && typeof value === 'string'
+        ? value.toUpperCase()
+        : key === 'properties' && value && typeof value === 'object'
+          ? Object.fromEntries(Object.entries(value).map(([name, property]) => [name, toGoogleSchema(property)]))
+          : key === 'enum' || key === 'required' ? value : toGoogleSchema(value),
+    ]));
+};
+
 /**
  * Enhanced AI Service with multiple providers and fallback support
  */
@@ -34,6 +117,7 @@ export class AIService {
   private static openaiClient: OpenAI | null = null;
   private static anthropicClient: Anthropic | null = null;
   private static googleClient: GoogleGenerativeAI | null = null;
+  private static offlineProvider: OfflineAIProvider | null = null;
   private static rateLimiter = new RateLimiter();
 
   /**
@@ -59,6 +143,29 @@ export class AIService {
     if (config.ai.google.apiKey && !this.googleClient) {
       this.googleClient = new GoogleGenerativeAI(config.ai.google.apiKey);
     }
+
+    // Initialize the fixture-based provider for offline mode and development
+    if ((config.ai.offline.enabled || config.server.nodeEnv === 'development') && !this.offlineProvider) {
+      this.offlineProvider = new OfflineAIProvider(config.ai.offline.fixturesDir);
+    }
+  }
+
+  /**
+   * Providers to try, the requested one first. In offline mode only the fixtures answer;
+   * in development they answer when no other provider can.
+   */
+  private static providerOrder(options: AIServiceOptions): string[] {
+    if (config.ai.offline.enabled) {
+      return ['offline'];
+    }
+
+    const providers = options.fallbackProviders || ['openai', 'anthropic', 'google'];
+    const primaryProvider = options.provider || providers[0];
+    const candidates = [primaryProvider, ...providers.filter(provider => provider !== primaryProvider)];
+
+    return config.server.nodeEnv === 'development' && !candidates.includes('offline')
+      ? [...candidates, 'offline']
+      : candidates;
   }
 
   /**
@@ -73,8 +180,8 @@ export class AIService {
     // Check rate limits
     await this.rateLimiter.checkLimit('ai-requests');
 
-    const providers = options.fallbackProviders || ['openai', 'anthropic', 'google'];
-    const primaryProvider = options.provider || providers[0];
+    const providers = this.providerOrder(options);
+    const primaryProvider = providers[0];
 
     // Try primary provider first
     try {
@@ -111,6 +218,8 @@ export class AIService {
         return this.callAnthropic(messages, options);
       case 'google':
         return this.callGoogle(messages, options);
+      case 'offline':
+        return this.callOffline(messages);
       default:
         throw new ValidationError(`Unsupported AI provider: ${provider}`);
     }
@@ -223,6 +332,410 @@ export class AIService {
     };
   }
 
+  /**
+   * Answer from the offline fixtures
+   */
+  private static async callOffline(messages: AIMessage[]): Promise<AIResponse> {
+    if (!this.offlineProvider) {
+      throw new ServiceUnavailableError('Offline AI provider not enabled');
+    }
+
+    const reply = await this.offlineProvider.reply(messages);
+
+    return {
+      content: reply.text,
+      provider: 'offline',
+      model: this.offlineProvider.model,
+      tokensUsed: 0,
+      cost: 0,
+    };
+  }
+
+  /**
+   * Open a streaming response with automatic fallback. Providers are only
+   * switched before the stream opens; errors while streaming are thrown to the reader.
+   *
+   * When tools are given, the model may call them instead of answering. Their results
+   * are sent back and generation continues with the same provider, so the tokens are
+   * the text of every round, ending with the answer.
+   */
+  static async openStream(
+    messages: AIMessage[],
+    options: AIStreamOptions = {}
+  ): Promise<AIStream> {
+    this.initializeClients();
+
+    // Check rate limits
+    await this.rateLimiter.checkLimit('ai-requests');
+
+    const candidates = this.providerOrder(options);
+    const transcript: AITranscriptItem[] = [...messages];
+
+    for (const provider of candidates) {
+      if (options.signal?.aborted) {
+        break;
+      }
+
+      try {
+        const round = await this.openRound(provider, transcript, options);
+        return {
+          provider,
+          model: round.model,
+          tokens: this.readRounds(provider, round, transcript, options),
+        };
+      } catch (error: any) {
+        log.warn(`AI provider ${provider} could not stream`, { error: error.message });
+      }
+    }
+
+    throw new ServiceUnavailableError('All AI providers are currently unavailable');
+  }
+
+  /**
+   * Yield the text of a round, then run the tools it called and read the next round
+   */
+  private static async *readRounds(
+    provider: string,
+    first: AIRound,
+    transcript: AITranscriptItem[],
+    options: AIStreamOptions
+  ): AsyncGenerator<string> {
+    const maxRounds = options.maxToolRounds ?? MAX_TOOL_ROUNDS;
+    let round = first;
+
+    for (let rounds = 1; ; rounds++) {
+      let content = '';
+      const toolCalls: AIToolCall[] = [];
+
+      for await (const event of round.events) {
+        if (event.type === 'text') {
+          content += event.text;
+          yield event.text;
+        } else {
+          toolCalls.push(event.call);
+        }
+      }
+
+      if (!toolCalls.length || !options.executeTool || options.signal?.aborted) {
+        return;
+      }
+
+      transcript.push({ role: 'assistant', content, toolCalls });
+      for (const call of toolCalls) {
+        transcript.push({
+          role: 'tool',
+          toolCallId: call.id,
+          name: call.name,
+          content: await options.executeTool(call),
+        });
+      }
+
+      log.debug('AI tool calls completed', { provider, round: rounds, tools: toolCalls.map(call => call.name) });
+
+      // The last round has no tools, so the model has to answer with what it has
+      round = await this.openRound(provider, transcript, {
+        ...options,
+        tools: rounds + 1 >= maxRounds ? undefined : options.tools,
+      });
+    }
+  }
+
+  /**
+   * Open one streamed round with a specific AI provider
+   */
+  private static async openRound(
+    provider: string,
+    transcript: AITranscriptItem[],
+    options: AIStreamOptions
+  ): Promise<AIRound> {
+    switch (provider) {
+      case 'openai':
+        return this.streamOpenAI(transcript, options);
+      case 'anthropic':
+        return this.streamAnthropic(transcript, options);
+      case 'google':
+        return this.streamGoogle(transcript, options);
+      case 'offline':
+        return this.streamOffline(transcript, options);
+      default:
+        throw new ValidationError(`Unsupported AI provider: ${provider}`);
+    }
+  }
+
+  /**
+   * Stream from OpenAI API
+   */
+  private static async streamOpenAI(
+    transcript: AITranscriptItem[],
+    options: AIStreamOptions
+  ): Promise<AIRound> {
+    if (!this.openaiClient) {
+      throw new ServiceUnavailableError('OpenAI client not initialized');
+    }
+
+    const model = options.model || config.openai.model;
+    const stream = await this.openaiClient.chat.completions.create({
+      model,
+      messages: transcript.map(item => {
+        if (item.role === 'tool') {
+          return { role: 'tool', tool_call_id: item.toolCallId, content: item.content };
+        }
+        if ('toolCalls' in item) {
+          return {
+            role: 'assistant',
+            content: item.content || null,
+            tool_calls: item.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          };
+        }
+        return { role: item.role, content: item.content };
+      }) as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+      temperature: options.temperature || config.openai.temperature,
+      max_tokens: options.maxTokens || config.openai.maxTokens,
+      stream: true,
+      ...(options.tools?.length && {
+        tools: options.tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      }),
+    }, { signal: options.signal });
+
+    return {
+      model,
+      events: (async function* (): AsyncGenerator<AIRoundEvent> {
+        // Tool calls arrive in pieces, keyed by their index in the response
+        const calls: Array<{ id: string; name: string; arguments: string }> = [];
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta;
+          if (delta?.content) {
+            yield { type: 'text', text: delta.content };
+          }
+
+          for (const part of delta?.tool_calls || []) {
+            const call = calls[part.index] || (calls[part.index] = { id: '', name: '', arguments: '' });
+            call.id = part.id || call.id;
+            call.name += part.function?.name || '';
+            call.arguments += part.function?.arguments || '';
+          }
+        }
+
+        for (const call of calls.filter(Boolean)) {
+          yield {
+            type: 'tool_call',
+            call: { id: call.id, name: call.name, arguments: parseToolArguments(call.arguments) },
+          };
+        }
+      })(),
+    };
+  }
+
+  /**
+   * Stream from Anthropic API
+   */
+  private static async streamAnthropic(
+    transcript: AITranscriptItem[],
+    options: AIStreamOptions
+  ): Promise<AIRound> {
+    if (!this.anthropicClient) {
+      throw new ServiceUnavailableError('Anthropic client not initialized');
+    }
+
+    // Tool results go back as user turns; results of the same round share one turn
+    const messages: Anthropic.MessageParam[] = [];
+    for (const item of transcript) {
+      if (item.role === 'system') {
+        continue;
+      }
+
+      if (item.role === 'tool') {
+        const result = { type: 'tool_result' as const, tool_use_id: item.toolCallId, content: item.content };
+        const previous = messages[messages.length - 1];
+        if (previous?.role === 'user' && Array.isArray(previous.content)) {
+          previous.content.push(result);
+        } else {
+          messages.push({ role: 'user', content: [result] });
+        }
+      } else if ('toolCalls' in item) {
+        messages.push({
+          role: 'assistant',
+          content: [
+            ...(item.content ? [{ type: 'text' as const, text: item.content }] : []),
+            ...item.toolCalls.map(call => ({
+              type: 'tool_use' as const,
+              id: call.id,
+              name: call.name,
+              input: call.arguments,
+            })),
+          ],
+        });
+      } else {
+        messages.push({ role: item.role, content: item.content });
+      }
+    }
+
+    const model = options.model || config.ai.anthropic.model;
+    const stream = await this.anthropicClient.messages.create({
+      model,
+      max_tokens: options.maxTokens || config.ai.anthropic.maxTokens,
+      system: transcript.find(item => item.role === 'system')?.content || '',
+      messages,
+      stream: true,
+      ...(options.tools?.length && {
+        tools: options.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+        })),
+      }),
+    }, { signal: options.signal });
+
+    return {
+      model,
+      events: (async function* (): AsyncGenerator<AIRoundEvent> {
+        let call: { id: string; name: string; input: string } | null = null;
+
+        for await (const event of stream) {
+          if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+            call = { id: event.content_block.id, name: event.content_block.name, input: '' };
+          } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            yield { type: 'text', text: event.delta.text };
+          } else if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta' && call) {
+            call.input += event.delta.partial_json;
+          } else if (event.type === 'content_block_stop' && call) {
+            yield {
+              type: 'tool_call',
+              call: { id: call.id, name: call.name, arguments: parseToolArguments(call.input) },
+            };
+            call = null;
+          }
+        }
+      })(),
+    };
+  }
+
+  /**
+   * Stream from Google Gemini API
+   */
+  private static async streamGoogle(
+    transcript: AITranscriptItem[],
+    options: AIStreamOptions
+  ): Promise<AIRound> {
+    if (!this.googleClient) {
+      throw new ServiceUnavailableError('Google AI client not initialized');
+    }
+
+    // Gemini has no tool call IDs; function responses are matched by name and order
+    const contents: Content[] = [];
+    for (const item of transcript) {
+      if (item.role === 'system') {
+        continue;
+      }
+
+      if (item.role === 'tool') {
+        const part = { functionResponse: { name: item.name, response: { result: item.content } } };
+        const previous = contents[contents.length - 1];
+        if (previous?.role === 'function') {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: 'function', parts: [part] });
+        }
+      } else if ('toolCalls' in item) {
+        contents.push({
+          role: 'model',
+          parts: [
+            ...(item.content ? [{ text: item.content }] : []),
+            ...item.toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+          ],
+        });
+      } else {
+        contents.push({ role: item.role === 'assistant' ? 'model' : 'user', parts: [{ text: item.content }] });
+      }
+    }
+
+    const modelName = options.model || config.ai.google.model;
+    const system = transcript.find(item => item.role === 'system')?.content;
+    const model = this.googleClient.getGenerativeModel({
+      model: modelName,
+      ...(system && { systemInstruction: system }),
+      ...(options.tools?.length && {
+        tools: [{
+          functionDeclarations: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: toGoogleSchema(tool.parameters) as FunctionDeclarationSchema,
+          })),
+        }],
+      }),
+    });
+
+    const result = await model.generateContentStream({ contents });
+    const signal = options.signal;
+
+    return {
+      model: modelName,
+      events: (async function* (): AsyncGenerator<AIRoundEvent> {
+        let calls = 0;
+
+        for await (const chunk of result.stream) {
+          // The Gemini client cannot abort a request, so reading stops instead
+          if (signal?.aborted) {
+            return;
+          }
+
+          for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+            if (part.text) {
+              yield { type: 'text', text: part.text };
+            } else if (part.functionCall) {
+              yield {
+                type: 'tool_call',
+                call: {
+                  id: `${part.functionCall.name}-${++calls}`,
+                  name: part.functionCall.name,
+                  arguments: (part.functionCall.args || {}) as Record<string, unknown>,
+                },
+              };
+            }
+          }
+        }
+      })(),
+    };
+  }
+
+  /**
+   * Stream from the offline fixtures, word by word like a provider would
+   */
+  private static async streamOffline(
+    transcript: AITranscriptItem[],
+    options: AIStreamOptions
+  ): Promise<AIRound> {
+    if (!this.offlineProvider) {
+      throw new ServiceUnavailableError('Offline AI provider not enabled');
+    }
+
+    const reply = await this.offlineProvider.reply(transcript, options.tools);
+
+    return {
+      model: this.offlineProvider.model,
+      events: (async function* (): AsyncGenerator<AIRoundEvent> {
+        for (const word of reply.text.match(/\S+\s*/g) || []) {
+          if (options.signal?.aborted) {
+            return;
+          }
+          yield { type: 'text', text: word };
+        }
+
+        for (const call of reply.toolCalls) {
+          yield { type: 'tool_call', call };
+        }
+      })(),
+    };
+  }
+
   /**
    * Calculate OpenAI costs (approximate)
    */
@@ -310,7 +823,7 @@ export class AIService {
   }> {
     this.initializeClients();
 
-    const providers = {};
+    const providers: Record<string, { available: boolean; model?: string; error?: string }> = {};
 
     // Test OpenAI
     try {
@@ -350,6 +863,11 @@ export class AIService {
       providers['google'] = { available: false, error: error.message };
     }
 
+    // Offline fixtures
+    providers['offline'] = this.offlineProvider
+      ? { available: true, model: this.offlineProvider.model }
+      : { available: false, error: 'Offline mode not enabled' };
+
     const available = Object.values(providers).some((p: any) => p.available);
 
     return { available, providers };
@@ -121,6 +121,11 @@ export class AuthService {
       },
     });
 
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastActiveAt: new Date() },
+    });
+
     log.auth('User logged in', user.id, { email: user.email, rememberMe: data.rememberMe });
 
     // Return user without password hash
@@ -187,6 +192,12 @@ export class AuthService {
       },
     });
 
+    // Clients refresh while in use, so this tracks activity between sign-ins
+    await prisma.user.update({
+      where: { id: storedToken.user.id },
+      data: { lastActiveAt: new Date() },
+    });
+
     log.auth('Token refreshed', storedToken.user.id);
 
     return tokens;
@@ -218,6 +229,8 @@ export class AuthService {
     if (data.phone !== undefined) updateData.phone = data.phone;
     if (data.bio !== undefined) updateData.bio = data.bio;
     if (data.location !== undefined) updateData.location = data.location;
+    if (data.nationality !== undefined) updateData.nationality = data.nationality;
+    if (data.preferredCurrency !== undefined) updateData.preferredCurrency = data.preferredCurrency;
     if (data.dateOfBirth !== undefined) {
       updateData.dateOfBirth = data.dateOfBirth ? new Date(data.dateOfBirth) : null;
     }
@@ -1,4 +1,4 @@
-import { PrismaClient, Booking, BookingStatus, Prisma } from '@prisma/client';
+import { PrismaClient, Booking, BookingStatus, Prisma, TourDeparture, WaitlistEntry } from '@prisma/client';
 import { 
   CreateBookingInput, 
   UpdateBookingInput, 
@@ -15,6 +15,14 @@ import {
 } from '../middlewares/error.middleware';
 import { calculatePagination, PaginationMeta } from '../utils/response';
 import { log } from '../utils/logger';
+import { DepartureService, SEAT_RELEASING_STATUSES } from './departure.service';
+import { WaitlistService } from './waitlist.service';
+import { TripNotificationService } from './trip-notification.service';
+import { PromoService, PromoValidationResult } from './promo.service';
+import { TOUR_COVER_IMAGE_INCLUDE } from './tour.service';
+import { CurrencyService, CurrencyConversion } from './currency.service';
+import { PaymentService, REFUNDABLE_STATUSES } from './payment.service';
+import { config } from '../config';
 
 const prisma = new PrismaClient();
 
@@ -22,7 +30,7 @@ export class BookingService {
   /**
    * Generate unique booking number
    */
-  private static async generateBookingNumber(): Promise<string> {
+  static async generateBookingNumber(): Promise<string> {
     const prefix = 'BK';
     const timestamp = Date.now().toString().slice(-8);
     const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
@@ -41,6 +49,38 @@ export class BookingService {
     return bookingNumber;
   }
 
+  /**
+   * Participant rows in the order they were entered
+   */
+  private static participantRows(participants: CreateBookingInput['participants']) {
+    return participants.map((participant, position) => ({ ...participant, position }));
+  }
+
+  /**
+   * What the traveller owes in the tour's currency
+   */
+  static getPayableAmount(booking: Pick<Booking, 'totalPrice' | 'discountAmount'>): number {
+    return Math.max(0, Number(booking.totalPrice) - Number(booking.discountAmount || 0));
+  }
+
+  /**
+   * Quote fields pricing an amount in the currency the traveller pays in, held for the quote TTL
+   */
+  private static async buildQuote(amount: number, baseCurrency: string, currency: string) {
+    const conversion = await CurrencyService.convert(amount, baseCurrency, currency);
+    const lockedAt = new Date();
+
+    return {
+      quoteCurrency: conversion.currency,
+      quoteAmount: conversion.amount,
+      quoteRate: conversion.rate,
+      quoteRateSource: conversion.source,
+      quoteRateFetchedAt: conversion.fetchedAt,
+      quoteLockedAt: lockedAt,
+      quoteExpiresAt: new Date(lockedAt.getTime() + config.currency.quoteTtlMinutes * 60 * 1000),
+    };
+  }
+
   /**
    * Create a new booking
    */
@@ -58,45 +98,37 @@ export class BookingService {
       throw new ValidationError('Tour is not available for booking');
     }
 
-    // Check availability
-    const startDate = new Date(data.startDate);
-    const endDate = new Date(data.endDate);
-
-    const conflictingBookings = await prisma.booking.findMany({
-      where: {
-        tourId: data.tourId,
-        status: { in: ['CONFIRMED', 'PENDING'] },
-        OR: [
-          {
-            startDate: { lte: endDate },
-            endDate: { gte: startDate },
-          },
-        ],
-      },
-    });
+    // Resolve the scheduled departure being booked
+    const departure = data.departureId
+      ? await DepartureService.getDepartureById(data.departureId, data.tourId)
+      : await DepartureService.findDepartureForDate(data.tourId, new Date(data.startDate));
 
-    const totalBookedParticipants = conflictingBookings.reduce(
-      (sum, booking) => sum + booking.adults + booking.children,
-      0
-    );
+    if (!departure) {
+      throw new ValidationError('No departure is scheduled for the selected date');
+    }
 
-    const remainingCapacity = tour.maxGroupSize - totalBookedParticipants;
     const requestedParticipants = data.adults + data.children;
 
-    if (requestedParticipants > remainingCapacity) {
-      throw new ValidationError(
-        `Only ${remainingCapacity} spots available for these dates`
-      );
+    // Price the booking from the departure, never from the client
+    const pricing = DepartureService.getPricing(departure, tour);
+    const totalPrice = CurrencyService.roundAmount(
+      data.adults * pricing.price + data.children * pricing.childPrice,
+      tour.currency
+    );
+
+    if (data.totalPrice !== undefined && Math.abs(data.totalPrice - totalPrice) >= 0.01) {
+      throw new ValidationError(`The price of this departure has changed to ${totalPrice} ${tour.currency}`);
     }
 
-    // Validate promo code if provided
-    let discountAmount = data.discountAmount || 0;
+    // Only a valid promo code discounts the booking
+    let discountAmount = 0;
     if (data.promoCode) {
       const promoValidation = await this.validatePromoCode({
         code: data.promoCode,
         tourId: data.tourId,
-        totalAmount: data.totalPrice,
-      });
+        totalAmount: totalPrice,
+        currency: tour.currency,
+      }, userId);
 
       if (!promoValidation.valid) {
         throw new ValidationError(promoValidation.message || 'Invalid promo code');
@@ -105,50 +137,70 @@ export class BookingService {
       discountAmount = promoValidation.discountAmount || 0;
     }
 
+    // Lock the server's price in the currency the traveller pays in; the payment charges exactly this
+    const quote = await this.buildQuote(
+      Math.max(0, totalPrice - discountAmount),
+      tour.currency,
+      data.currency || tour.currency
+    );
+
     // Generate booking number
     const bookingNumber = await this.generateBookingNumber();
 
-    // Create booking
-    const booking = await prisma.booking.create({
-      data: {
-        bookingNumber,
-        userId,
-        tourId: data.tourId,
-        startDate,
-        endDate,
-        adults: data.adults,
-        children: data.children,
-        totalPrice: data.totalPrice,
-        discountAmount,
-        promoCode: data.promoCode?.toUpperCase(),
-        participants: data.participants as any,
-        notes: data.notes,
-        specialRequests: data.specialRequests,
-        status: 'PENDING',
-      },
-      include: {
-        tour: {
-          select: {
-            title: true,
-            images: true,
-            price: true,
+    // Hold seats and create booking atomically
+    const booking = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await DepartureService.holdSeats(tx, departure.id, requestedParticipants);
+
+      return tx.booking.create({
+        data: {
+          bookingNumber,
+          userId,
+          tourId: data.tourId,
+          departureId: departure.id,
+          startDate: departure.startDate,
+          endDate: departure.endDate,
+          adults: data.adults,
+          children: data.children,
+          totalPrice,
+          discountAmount,
+          currency: tour.currency,
+          ...quote,
+          promoCode: data.promoCode?.toUpperCase(),
+          participants: {
+            create: this.participantRows(data.participants),
           },
+          notes: data.notes,
+          specialRequests: data.specialRequests,
+          status: 'PENDING',
         },
-        user: {
-          select: {
-            name: true,
-            email: true,
-            phone: true,
+        include: {
+          participants: {
+            orderBy: { position: 'asc' },
+          },
+          tour: {
+            select: {
+              title: true,
+              images: TOUR_COVER_IMAGE_INCLUDE,
+              price: true,
+            },
+          },
+          user: {
+            select: {
+              name: true,
+              email: true,
+              phone: true,
+            },
           },
         },
-      },
+      });
     });
 
     log.info('Booking created', { 
       bookingId: booking.id, 
       bookingNumber: booking.bookingNumber,
       userId, 
-      tourId: data.tourId 
+      tourId: data.tourId,
+      departureId: departure.id
     });
 
     return booking;
@@ -246,7 +298,7 @@ export class BookingService {
           tour: {
             select: {
               title: true,
-              images: true,
+              images: TOUR_COVER_IMAGE_INCLUDE,
               price: true,
               duration: true,
               category: true,
@@ -313,6 +365,11 @@ export class BookingService {
             avatar: true,
           },
         },
+        participants: {
+          orderBy: {
+            position: 'asc',
+          },
+        },
         payments: {
           orderBy: {
             createdAt: 'desc',
@@ -362,50 +419,214 @@ export class BookingService {
       );
     }
 
-    // If dates are being updated, check availability
-    if (data.startDate || data.endDate) {
-      const startDate = data.startDate ? new Date(data.startDate) : existingBooking.startDate;
-      const endDate = data.endDate ? new Date(data.endDate) : existingBooking.endDate;
+    // A new start date moves the booking onto that day's departure
+    let departure: TourDeparture | null = null;
+    let departureId = existingBooking.departureId;
+    let startDate: Date | undefined;
+    let endDate: Date | undefined;
+
+    if (data.startDate) {
+      departure = await DepartureService.findDepartureForDate(
+        existingBooking.tourId,
+        new Date(data.startDate)
+      );
+
+      if (!departure) {
+        throw new ValidationError('No departure is scheduled for the selected date');
+      }
+
+      departureId = departure.id;
+      startDate = departure.startDate;
+      endDate = departure.endDate;
+    }
+
+    const adults = data.adults ?? existingBooking.adults;
+    const children = data.children ?? existingBooking.children;
+    const previousSeats = existingBooking.adults + existingBooking.children;
+    const seats = adults + children;
+
+    // A new party or departure changes the price, so the booking is priced and quoted again
+    const repriced =
+      departureId !== existingBooking.departureId ||
+      adults !== existingBooking.adults ||
+      children !== existingBooking.children;
+
+    let pricingUpdate: Prisma.BookingUncheckedUpdateInput = {};
+
+    if (repriced) {
+      const paidPayments = await prisma.payment.count({
+        where: { bookingId: id, status: { in: REFUNDABLE_STATUSES } },
+      });
+
+      // Paid bookings would need a top-up charge or a partial refund, which updates cannot issue
+      if (existingBooking.status === 'CONFIRMED' || paidPayments > 0) {
+        throw new ValidationError(
+          'The party or departure of a paid booking cannot be changed, please cancel it and book again'
+        );
+      }
+
+      const tour = await prisma.tour.findUnique({
+        where: { id: existingBooking.tourId },
+      });
+
+      if (!tour) {
+        throw new NotFoundError('Tour not found');
+      }
+
+      if (!departure && existingBooking.departureId) {
+        departure = await DepartureService.getDepartureById(existingBooking.departureId, existingBooking.tourId);
+      }
+
+      const pricing = DepartureService.getPricing(departure, tour);
+      const totalPrice = CurrencyService.roundAmount(
+        adults * pricing.price + children * pricing.childPrice,
+        existingBooking.currency
+      );
 
-      const conflictingBookings = await prisma.booking.findMany({
-        where: {
+      // The promo discount is worked out again on the new total
+      let discountAmount = 0;
+      if (existingBooking.promoCode) {
+        const promoValidation = await this.validatePromoCode({
+          code: existingBooking.promoCode,
           tourId: existingBooking.tourId,
-          id: { not: id }, // Exclude current booking
-          status: { in: ['CONFIRMED', 'PENDING'] },
-          OR: [
-            {
-              startDate: { lte: endDate },
-              endDate: { gte: startDate },
-            },
-          ],
+          totalAmount: totalPrice,
+          currency: existingBooking.currency,
+        }, userId);
+
+        if (!promoValidation.valid) {
+          throw new ValidationError(promoValidation.message || 'Invalid promo code');
+        }
+
+        discountAmount = promoValidation.discountAmount || 0;
+      }
+
+      const quote = await this.buildQuote(
+        Math.max(0, totalPrice - discountAmount),
+        existingBooking.currency,
+        existingBooking.quoteCurrency || existingBooking.currency
+      );
+
+      pricingUpdate = { totalPrice, discountAmount, ...quote };
+    }
+
+    const booking = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Swap the seat hold when the departure or party size changes
+      if (departureId && (departureId !== existingBooking.departureId || seats !== previousSeats)) {
+        await DepartureService.releaseBookingSeats(tx, existingBooking);
+        await DepartureService.holdSeats(tx, departureId, seats);
+      }
+
+      return tx.booking.update({
+        where: { id },
+        data: {
+          ...data,
+          // A new participant list replaces the old one
+          participants: data.participants && {
+            deleteMany: {},
+            create: this.participantRows(data.participants),
+          },
+          departureId,
+          startDate,
+          endDate,
+          ...pricingUpdate,
+        },
+        include: {
+          tour: true,
+          user: true,
+          participants: {
+            orderBy: { position: 'asc' },
+          },
         },
       });
+    });
 
-      if (conflictingBookings.length > 0) {
-        throw new ValidationError('Tour is not available for the selected dates');
-      }
+    log.info('Booking updated', { bookingId: id, userId });
+
+    // Seats given up on the previous departure go to its waitlist
+    if (
+      existingBooking.departureId &&
+      (existingBooking.departureId !== departureId || seats < previousSeats)
+    ) {
+      await WaitlistService.offerReleasedSeats(existingBooking.departureId);
+    }
+
+    // Trip messages follow the new dates
+    if (startDate) {
+      await TripNotificationService.syncBooking(id);
     }
 
+    return booking;
+  }
+
+  /**
+   * Lock a fresh quote for a pending booking, e.g. after the old one expired or to pay in another currency
+   */
+  static async lockQuote(id: string, currency: string, userId: string): Promise<Booking> {
+    const existingBooking = await prisma.booking.findUnique({
+      where: { id },
+    });
+
+    if (!existingBooking) {
+      throw new NotFoundError('Booking not found');
+    }
+
+    if (existingBooking.userId !== userId) {
+      throw new ForbiddenError('You do not have permission to update this booking');
+    }
+
+    if (existingBooking.status !== 'PENDING') {
+      throw new ValidationError('Only pending bookings can be quoted');
+    }
+
+    const quote = await this.buildQuote(
+      this.getPayableAmount(existingBooking),
+      existingBooking.currency,
+      currency
+    );
+
     const booking = await prisma.booking.update({
       where: { id },
-      data: {
-        ...data,
-        startDate: data.startDate ? new Date(data.startDate) : undefined,
-        endDate: data.endDate ? new Date(data.endDate) : undefined,
-      },
-      include: {
-        tour: true,
-        user: true,
-      },
+      data: quote,
     });
 
-    log.info('Booking updated', { bookingId: id, userId });
+    log.info('Booking quote locked', {
+      bookingId: id,
+      userId,
+      currency: quote.quoteCurrency,
+      amount: quote.quoteAmount,
+      expiresAt: quote.quoteExpiresAt,
+    });
 
     return booking;
   }
 
   /**
-   * Cancel booking
+   * The quote a booking must be paid with
+   */
+  static getLockedQuote(booking: Booking): CurrencyConversion {
+    if (
+      !booking.quoteCurrency ||
+      booking.quoteAmount === null ||
+      booking.quoteRate === null ||
+      !booking.quoteExpiresAt ||
+      booking.quoteExpiresAt <= new Date()
+    ) {
+      throw new ValidationError('The price quote for this booking has expired, please request a new quote');
+    }
+
+    return {
+      amount: Number(booking.quoteAmount),
+      currency: booking.quoteCurrency,
+      baseAmount: this.getPayableAmount(booking),
+      baseCurrency: booking.currency,
+      rate: Number(booking.quoteRate),
+      source: booking.quoteRateSource || 'unknown',
+      fetchedAt: booking.quoteRateFetchedAt || booking.quoteLockedAt || new Date(),
+    };
+  }
+
+  /**
+   * Cancel booking. Refunds are issued by CancellationService.cancelBooking.
    */
   static async cancelBooking(
     id: string, 
@@ -432,17 +653,21 @@ export class BookingService {
       );
     }
 
-    // Update booking status
-    const updatedBooking = await prisma.booking.update({
-      where: { id },
-      data: {
-        status: 'CANCELLED',
-        notes: data.reason,
-      },
-      include: {
-        tour: true,
-        user: true,
-      },
+    // Update booking status and give its seats back to the departure
+    const updatedBooking = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await DepartureService.releaseBookingSeats(tx, booking);
+
+      return tx.booking.update({
+        where: { id },
+        data: {
+          status: 'CANCELLED',
+          notes: data.reason,
+        },
+        include: {
+          tour: true,
+          user: true,
+        },
+      });
     });
 
     log.info('Booking cancelled', { 
@@ -452,24 +677,77 @@ export class BookingService {
       requestRefund: data.requestRefund 
     });
 
-    // TODO: Process refund if requested
-    if (data.requestRefund) {
-      // Implement refund logic here
-      log.info('Refund requested', { bookingId: id, userId });
+    if (booking.departureId) {
+      await WaitlistService.offerReleasedSeats(booking.departureId);
     }
 
+    await TripNotificationService.syncBooking(id);
+
     return updatedBooking;
   }
 
   /**
-   * Update booking status (admin only)
+   * Refund a booking's payments through their providers, `refundAmount` (in the payment
+   * currency) or everything still refundable. Checkout payments only refund the booking's share.
+   */
+  private static async refundPayments(id: string, data: UpdateBookingStatusInput, userId: string): Promise<void> {
+    const booking = await prisma.booking.findUniqueOrThrow({
+      where: { id },
+      include: {
+        payments: { where: { status: { in: REFUNDABLE_STATUSES } } },
+        paymentAllocations: {
+          where: { payment: { status: { in: REFUNDABLE_STATUSES } } },
+          include: { payment: true },
+        },
+      },
+    });
+
+    const dues = [
+      ...booking.payments.map((payment) => ({
+        payment,
+        allocationId: undefined,
+        remaining: Number(payment.amount) - Number(payment.refundedAmount),
+      })),
+      ...booking.paymentAllocations.map((allocation) => ({
+        payment: allocation.payment,
+        allocationId: allocation.id,
+        remaining: Number(allocation.amount) - Number(allocation.refundedAmount),
+      })),
+    ].filter((due) => due.remaining > 0);
+
+    if (dues.length === 0) {
+      throw new ValidationError('This booking has no payment left to refund');
+    }
+
+    let left = data.refundAmount;
+    for (const due of dues) {
+      if (left !== undefined && left <= 0) {
+        break;
+      }
+
+      const amount = left === undefined ? undefined : Math.min(left, due.remaining);
+      await PaymentService.refundPayment(
+        due.payment.id,
+        { amount, reason: data.reason || 'Booking refunded' },
+        userId,
+        due.allocationId
+      );
+
+      if (left !== undefined) {
+        left = CurrencyService.roundAmount(left - amount!, due.payment.currency);
+      }
+    }
+  }
+
+  /**
+   * Update booking status (admin only). REFUNDED refunds the booking's payments first.
    */
   static async updateBookingStatus(
     id: string, 
     data: UpdateBookingStatusInput, 
     userId: string
   ): Promise<Booking> {
-    const booking = await prisma.booking.findUnique({
+    let booking = await prisma.booking.findUnique({
       where: { id },
     });
 
@@ -477,16 +755,38 @@ export class BookingService {
       throw new NotFoundError('Booking not found');
     }
 
-    const updatedBooking = await prisma.booking.update({
-      where: { id },
-      data: {
-        status: data.status,
-        notes: data.reason ? `${booking.notes || ''}\n\nStatus Update: ${data.reason}` : booking.notes,
-      },
-      include: {
-        tour: true,
-        user: true,
-      },
+    if (data.status === 'REFUNDED' && booking.status !== 'REFUNDED') {
+      await this.refundPayments(id, data, userId);
+      // A full refund has already released the booking
+      booking = await prisma.booking.findUniqueOrThrow({ where: { id } });
+    }
+
+    const wasReleased = SEAT_RELEASING_STATUSES.includes(booking.status);
+    const isReleased = SEAT_RELEASING_STATUSES.includes(data.status);
+
+    const updatedBooking = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Keep the departure seat count in step with the booking status
+      if (booking.departureId && !wasReleased && isReleased) {
+        await DepartureService.releaseBookingSeats(tx, booking);
+      } else if (booking.departureId && wasReleased && !isReleased) {
+        await DepartureService.holdSeats(tx, booking.departureId, booking.adults + booking.children);
+      }
+
+      if (data.status === 'CONFIRMED' && booking.status !== 'CONFIRMED') {
+        await PromoService.redeemForBooking(tx, booking);
+      }
+
+      return tx.booking.update({
+        where: { id },
+        data: {
+          status: data.status,
+          notes: data.reason ? `${booking.notes || ''}\n\nStatus Update: ${data.reason}` : booking.notes,
+        },
+        include: {
+          tour: true,
+          user: true,
+        },
+      });
     });
 
     log.info('Booking status updated by admin', { 
@@ -497,100 +797,155 @@ export class BookingService {
       reason: data.reason 
     });
 
-    // TODO: Process refund if status is REFUNDED
-    if (data.status === 'REFUNDED' && data.refundAmount) {
-      log.info('Refund processed', { 
-        bookingId: id, 
-        refundAmount: data.refundAmount 
-      });
+    if (booking.departureId && !wasReleased && isReleased) {
+      await WaitlistService.offerReleasedSeats(booking.departureId);
     }
 
+    await TripNotificationService.syncBooking(id);
+
     return updatedBooking;
   }
 
   /**
-   * Validate promo code
+   * Confirm a booking once its payment succeeds, redeeming its promo code
    */
-  static async validatePromoCode(data: ValidatePromoCodeInput): Promise<{
-    valid: boolean;
-    message?: string;
-    discountAmount?: number;
-    promoCode?: any;
-  }> {
-    const promoCode = await prisma.promoCode.findUnique({
-      where: { code: data.code },
+  static async confirmBooking(id: string): Promise<Booking> {
+    const booking = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const booking = await tx.booking.findUnique({
+        where: { id },
+      });
+
+      if (!booking) {
+        throw new NotFoundError('Booking not found');
+      }
+
+      if (booking.status === 'CONFIRMED') {
+        return booking;
+      }
+
+      await PromoService.redeemForBooking(tx, booking);
+
+      return tx.booking.update({
+        where: { id },
+        data: { status: 'CONFIRMED' },
+      });
     });
 
-    if (!promoCode) {
-      return {
-        valid: false,
-        message: 'Invalid promo code',
-      };
-    }
+    await TripNotificationService.syncBooking(id);
 
-    // Check if active
-    if (!promoCode.isActive) {
-      return {
-        valid: false,
-        message: 'Promo code is no longer active',
-      };
-    }
+    return booking;
+  }
 
-    // Check validity dates
-    const now = new Date();
-    if (now < promoCode.validFrom || now > promoCode.validUntil) {
-      return {
-        valid: false,
-        message: 'Promo code has expired or is not yet valid',
-      };
-    }
+  /**
+   * Cancel or refund a booking from payment flows, giving its departure seats back
+   */
+  static async releaseBooking(id: string, status: 'CANCELLED' | 'REFUNDED'): Promise<Booking> {
+    const booking = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const existing = await tx.booking.findUnique({
+        where: { id },
+      });
 
-    // Check usage limit
-    if (promoCode.usageLimit && promoCode.usageCount >= promoCode.usageLimit) {
-      return {
-        valid: false,
-        message: 'Promo code usage limit reached',
-      };
-    }
+      if (!existing) {
+        throw new NotFoundError('Booking not found');
+      }
+
+      await DepartureService.releaseBookingSeats(tx, existing);
+
+      return tx.booking.update({
+        where: { id },
+        data: { status },
+      });
+    });
 
-    // Check minimum order amount
-    if (promoCode.minOrderAmount && data.totalAmount < Number(promoCode.minOrderAmount)) {
-      return {
-        valid: false,
-        message: `Minimum order amount of $${promoCode.minOrderAmount} required`,
-      };
+    if (booking.departureId) {
+      await WaitlistService.offerReleasedSeats(booking.departureId);
     }
 
-    // Check if applicable to tours
-    if (data.tourId && !promoCode.applicableToTours) {
-      return {
-        valid: false,
-        message: 'Promo code not applicable to tours',
-      };
+    await TripNotificationService.syncBooking(id);
+
+    return booking;
+  }
+
+  /**
+   * Turn a waitlist offer into a pending booking.
+   * The offer already holds the seats, so no new hold is taken.
+   */
+  static async claimWaitlistOffer(entry: WaitlistEntry, userId: string): Promise<Booking> {
+    if (entry.userId && entry.userId !== userId) {
+      throw new ForbiddenError('You do not have permission to claim this offer');
     }
 
-    // Calculate discount
-    let discountAmount = 0;
-    if (promoCode.discountType === 'percentage') {
-      discountAmount = (data.totalAmount * Number(promoCode.discountValue)) / 100;
-      if (promoCode.maxDiscount) {
-        discountAmount = Math.min(discountAmount, Number(promoCode.maxDiscount));
-      }
-    } else {
-      discountAmount = Number(promoCode.discountValue);
+    const [tour, departure] = await Promise.all([
+      prisma.tour.findUnique({ where: { id: entry.tourId } }),
+      DepartureService.getDepartureById(entry.departureId, entry.tourId),
+    ]);
+
+    if (!tour) {
+      throw new NotFoundError('Tour not found');
     }
 
-    return {
-      valid: true,
-      message: 'Promo code applied successfully',
-      discountAmount,
-      promoCode: {
-        code: promoCode.code,
-        description: promoCode.description,
-        discountType: promoCode.discountType,
-        discountValue: promoCode.discountValue,
-      },
-    };
+    const pricing = DepartureService.getPricing(departure, tour);
+    const totalPrice = CurrencyService.roundAmount(
+      entry.adults * pricing.price + entry.children * pricing.childPrice,
+      tour.currency
+    );
+
+    const quote = await this.buildQuote(totalPrice, tour.currency, tour.currency);
+    const bookingNumber = await this.generateBookingNumber();
+
+    const booking = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const created = await tx.booking.create({
+        data: {
+          bookingNumber,
+          userId,
+          tourId: entry.tourId,
+          departureId: departure.id,
+          startDate: departure.startDate,
+          endDate: departure.endDate,
+          adults: entry.adults,
+          children: entry.children,
+          totalPrice,
+          currency: tour.currency,
+          ...quote,
+          status: 'PENDING',
+        },
+        include: {
+          tour: {
+            select: {
+              title: true,
+              images: TOUR_COVER_IMAGE_INCLUDE,
+              price: true,
+            },
+          },
+        },
+      });
+
+      await WaitlistService.markClaimed(tx, entry.id, created.id);
+
+      return created;
+    });
+
+    log.info('Waitlist offer claimed', {
+      bookingId: booking.id,
+      bookingNumber: booking.bookingNumber,
+      entryId: entry.id,
+      userId,
+      departureId: departure.id,
+    });
+
+    return booking;
+  }
+
+  /**
+   * Validate promo code
+   */
+  static async validatePromoCode(data: ValidatePromoCodeInput, userId?: string): Promise<PromoValidationResult> {
+    return PromoService.validatePromoCode(data.code, {
+      userId,
+      tourId: data.tourId,
+      totalAmount: data.totalAmount,
+      currency: data.currency,
+    });
   }
 
   /**
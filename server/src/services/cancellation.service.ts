@@ -0,0 +1,255 @@
+import { PrismaClient, Prisma, Booking, Refund } from '@prisma/client';
+import { NotFoundError, ForbiddenError, ValidationError } from '../middlewares/error.middleware';
+import { CancelBookingInput } from '../schemas/booking.schemas';
+import { CancellationPolicyInput } from '../schemas/cancellation.schemas';
+import { BookingService } from './booking.service';
+import { CurrencyService } from './currency.service';
+import { PaymentService, REFUNDABLE_STATUSES } from './payment.service';
+import { log } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export interface CancellationTier {
+  minHoursBefore: number;
+  refundPercent: number;
+}
+
+export interface TourCancellationPolicy {
+  tourId: string;
+  depositPercent: number;
+  notes: string | null;
+  // Highest threshold first
+  tiers: CancellationTier[];
+  isDefault: boolean;
+  // Human readable policy, one rule per line
+  summary: string[];
+}
+
+export interface CancellationRefundQuote {
+  paymentId: string;
+  // Set when the booking was paid as part of a checkout, the refund comes out of its share
+  allocationId?: string;
+  method: string;
+  currency: string;
+  paidAmount: number;
+  alreadyRefunded: number;
+  amount: number;
+}
+
+export interface CancellationQuote {
+  bookingId: string;
+  hoursBeforeStart: number;
+  refundPercent: number;
+  depositPercent: number;
+  refunds: CancellationRefundQuote[];
+  policy: TourCancellationPolicy;
+}
+
+// Applied to tours without a policy of their own
+export const DEFAULT_CANCELLATION_TIERS: CancellationTier[] = [
+  { minHoursBefore: 14 * 24, refundPercent: 100 },
+  { minHoursBefore: 7 * 24, refundPercent: 50 },
+];
+
+const describeNotice = (hours: number) =>
+  hours >= 48 && hours % 24 === 0 ? `${hours / 24} days` : `${hours} hours`;
+
+export class CancellationService {
+  /**
+   * Describe a policy, e.g. "Full refund when cancelled at least 14 days before the tour starts"
+   */
+  static describePolicy(tiers: CancellationTier[], depositPercent: number): string[] {
+    const summary = tiers.map((tier) => {
+      const refund = tier.refundPercent >= 100 ? 'Full refund' : tier.refundPercent > 0 ? `${tier.refundPercent}% refund` : 'No refund';
+      return tier.minHoursBefore > 0
+        ? `${refund} when cancelled at least ${describeNotice(tier.minHoursBefore)} before the tour starts`
+        : `${refund} when cancelled before the tour starts`;
+    });
+
+    const last = tiers[tiers.length - 1];
+    if (!last) {
+      summary.push('No refund on cancellation');
+    } else if (last.minHoursBefore > 0 && last.refundPercent > 0) {
+      summary.push(`No refund when cancelled less than ${describeNotice(last.minHoursBefore)} before the tour starts`);
+    }
+
+    if (depositPercent > 0) {
+      summary.push(`A deposit of ${depositPercent}% of the price is non-refundable`);
+    }
+
+    return summary;
+  }
+
+  /**
+   * The cancellation policy of a tour, or the default one
+   */
+  static async getTourPolicy(tourId: string): Promise<TourCancellationPolicy> {
+    const tour = await prisma.tour.findUnique({
+      where: { id: tourId },
+      select: {
+        id: true,
+        cancellationPolicy: {
+          include: { tiers: { orderBy: { minHoursBefore: 'desc' } } },
+        },
+      },
+    });
+
+    if (!tour) {
+      throw new NotFoundError('Tour not found');
+    }
+
+    const policy = tour.cancellationPolicy;
+    const tiers = policy
+      ? policy.tiers.map((tier) => ({ minHoursBefore: tier.minHoursBefore, refundPercent: Number(tier.refundPercent) }))
+      : DEFAULT_CANCELLATION_TIERS;
+    const depositPercent = policy ? Number(policy.depositPercent) : 0;
+
+    return {
+      tourId,
+      depositPercent,
+      notes: policy?.notes ?? null,
+      tiers,
+      isDefault: !policy,
+      summary: this.describePolicy(tiers, depositPercent),
+    };
+  }
+
+  /**
+   * Create or replace the cancellation policy of a tour
+   */
+  static async setTourPolicy(tourId: string, data: CancellationPolicyInput): Promise<TourCancellationPolicy> {
+    const tour = await prisma.tour.findUnique({ where: { id: tourId }, select: { id: true } });
+
+    if (!tour) {
+      throw new NotFoundError('Tour not found');
+    }
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const policy = await tx.cancellationPolicy.upsert({
+        where: { tourId },
+        create: { tourId, depositPercent: data.depositPercent, notes: data.notes },
+        update: { depositPercent: data.depositPercent, notes: data.notes ?? null },
+      });
+
+      await tx.cancellationPolicyTier.deleteMany({ where: { policyId: policy.id } });
+      await tx.cancellationPolicyTier.createMany({
+        data: data.tiers.map((tier) => ({ policyId: policy.id, ...tier })),
+      });
+    });
+
+    log.info('Cancellation policy updated', { tourId, tiers: data.tiers.length, depositPercent: data.depositPercent });
+
+    return this.getTourPolicy(tourId);
+  }
+
+  /**
+   * What cancelling a booking now would refund, per payment
+   */
+  static async quoteCancellation(bookingId: string, userId: string, now: Date = new Date()): Promise<CancellationQuote> {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        payments: { where: { status: { in: REFUNDABLE_STATUSES } } },
+        paymentAllocations: {
+          where: { payment: { status: { in: REFUNDABLE_STATUSES } } },
+          include: { payment: true },
+        },
+      },
+    });
+
+    if (!booking) {
+      throw new NotFoundError('Booking not found');
+    }
+
+    if (booking.userId !== userId) {
+      throw new ForbiddenError('You do not have permission to cancel this booking');
+    }
+
+    if (['CANCELLED', 'COMPLETED', 'REFUNDED'].includes(booking.status)) {
+      throw new ValidationError(`Cannot cancel booking with status: ${booking.status}`);
+    }
+
+    const policy = await this.getTourPolicy(booking.tourId);
+    const hoursBeforeStart = Math.max(0, Math.floor((booking.startDate.getTime() - now.getTime()) / 3600000));
+    const tier = policy.tiers.find((candidate) => hoursBeforeStart >= candidate.minHoursBefore);
+    const refundPercent = tier?.refundPercent ?? 0;
+
+    const quoteRefund = (
+      payment: { id: string; method: string; currency: string },
+      paidAmount: number,
+      alreadyRefunded: number,
+      allocationId?: string
+    ): CancellationRefundQuote => {
+      const refundable = paidAmount * (1 - policy.depositPercent / 100);
+      const entitled = CurrencyService.roundAmount(refundable * (refundPercent / 100), payment.currency);
+
+      return {
+        paymentId: payment.id,
+        ...(allocationId && { allocationId }),
+        method: payment.method,
+        currency: payment.currency,
+        paidAmount,
+        alreadyRefunded,
+        amount: Math.max(0, CurrencyService.roundAmount(entitled - alreadyRefunded, payment.currency)),
+      };
+    };
+
+    const refunds = [
+      ...booking.payments.map((payment) =>
+        quoteRefund(payment, Number(payment.amount), Number(payment.refundedAmount))
+      ),
+      // Checkout payments only refund this booking's share
+      ...booking.paymentAllocations.map((allocation) =>
+        quoteRefund(allocation.payment, Number(allocation.amount), Number(allocation.refundedAmount), allocation.id)
+      ),
+    ];
+
+    return {
+      bookingId,
+      hoursBeforeStart,
+      refundPercent,
+      depositPercent: policy.depositPercent,
+      refunds,
+      policy,
+    };
+  }
+
+  /**
+   * Cancel a booking and refund what its tour's policy allows
+   */
+  static async cancelBooking(
+    bookingId: string,
+    data: CancelBookingInput,
+    userId: string
+  ): Promise<{ booking: Booking; quote: CancellationQuote; refunds: Refund[] }> {
+    const quote = await this.quoteCancellation(bookingId, userId);
+    const booking = await BookingService.cancelBooking(bookingId, data, userId);
+    const refunds: Refund[] = [];
+
+    if (!data.requestRefund) {
+      return { booking, quote, refunds };
+    }
+
+    for (const due of quote.refunds.filter((candidate) => candidate.amount > 0)) {
+      try {
+        const result = await PaymentService.refundPayment(
+          due.paymentId,
+          { amount: due.amount, reason: `Booking cancelled: ${data.reason}` },
+          userId,
+          due.allocationId
+        );
+        refunds.push(result.refund);
+      } catch (error: any) {
+        // The booking stays cancelled; a failed refund is recorded in the ledger for an admin to retry
+        log.error('Cancellation refund failed', {
+          bookingId,
+          paymentId: due.paymentId,
+          amount: due.amount,
+          error: error.message,
+        });
+      }
+    }
+
+    return { booking, quote, refunds };
+  }
+}
@@ -0,0 +1,677 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, CartItem, TourDeparture } from '@prisma/client';
+import { AddCartItemInput, UpdateCartItemInput } from '../schemas/cart.schemas';
+import { NotFoundError, ValidationError } from '../middlewares/error.middleware';
+import { log } from '../utils/logger';
+import { config } from '../config';
+import { CurrencyService } from './currency.service';
+import { DepartureService } from './departure.service';
+import { PromoService } from './promo.service';
+
+const prisma = new PrismaClient();
+
+// Header guests send their cart token in
+export const CART_TOKEN_HEADER = 'x-cart-token';
+
+const MAX_PRODUCT_QUANTITY = 100;
+
+export interface TourAddOn {
+  id: string;
+  name: string;
+  price: number; // In the default currency, per booking
+  description: string;
+  type: 'meal' | 'transport' | 'guide';
+}
+
+// Extras a traveller can add to a tour booking
+export const TOUR_ADD_ONS: TourAddOn[] = [
+  { id: 'meal-1', name: 'Traditional Ethiopian Lunch', price: 15, description: 'Authentic injera with various wots', type: 'meal' },
+  { id: 'meal-2', name: 'Vegetarian Meal Package', price: 12, description: 'Plant-based Ethiopian cuisine', type: 'meal' },
+  { id: 'transport-1', name: 'Hotel Pickup & Drop-off', price: 25, description: 'Convenient door-to-door service', type: 'transport' },
+  { id: 'transport-2', name: 'Airport Transfer', price: 35, description: 'Direct airport transportation', type: 'transport' },
+  { id: 'guide-1', name: 'Private Tour Guide', price: 50, description: 'Dedicated personal guide', type: 'guide' },
+  { id: 'guide-2', name: 'Photography Guide', price: 40, description: 'Professional photo assistance', type: 'guide' },
+];
+
+/**
+ * Who a cart belongs to: a signed-in user, a guest holding a cart token, or both right
+ * after signing in, in which case the guest cart is merged into the user's
+ */
+export interface CartOwner {
+  userId?: string;
+  guestToken?: string;
+}
+
+type CartWithItems = Prisma.CartGetPayload<{ include: { items: true } }>;
+
+export interface PricedCartItem {
+  id: string;
+  type: 'TOUR' | 'PRODUCT';
+  name: string;
+  image: string | null;
+  // Tour bookings
+  tourId?: string;
+  tourSlug?: string;
+  departureId?: string | null;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  duration?: number;
+  adults?: number;
+  children?: number;
+  pricePerAdult?: number;
+  pricePerChild?: number;
+  addOns?: TourAddOn[];
+  specialRequests?: string | null;
+  spotsLeft?: number;
+  // Marketplace products
+  productId?: string;
+  quantity?: number;
+  unitPrice?: number;
+  variant?: Record<string, string> | null;
+  // Worked out on every read
+  total: number;
+  available: boolean;
+  issue?: string;
+}
+
+export interface CartSummary {
+  id: string | null;
+  guestToken: string | null;
+  currency: string;
+  items: PricedCartItem[];
+  itemCount: number;
+  promoCode: string | null;
+  promo: { valid: boolean; message?: string; discountAmount: number } | null;
+  subtotal: number;
+  discount: number;
+  total: number;
+  // False while any item can no longer be booked or bought
+  valid: boolean;
+  issues: string[];
+}
+
+const parseJson = <T>(value: string | null, fallback: T): T => {
+  if (!value) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+};
+
+const sameVariant = (a: string | null, b: string | null) =>
+  JSON.stringify(parseJson(a, {})) === JSON.stringify(parseJson(b, {}));
+
+const sameDay = (a: Date | null, b: Date | null) =>
+  !!a && !!b && a.toISOString().slice(0, 10) === b.toISOString().slice(0, 10);
+
+export class CartService {
+  /**
+   * Find the cart of a user or guest
+   */
+  private static async findCart(owner: CartOwner): Promise<CartWithItems | null> {
+    if (owner.userId) {
+      return prisma.cart.findUnique({
+        where: { userId: owner.userId },
+        include: { items: { orderBy: { createdAt: 'asc' } } },
+      });
+    }
+
+    if (owner.guestToken) {
+      const cart = await prisma.cart.findUnique({
+        where: { guestToken: owner.guestToken },
+        include: { items: { orderBy: { createdAt: 'asc' } } },
+      });
+
+      return cart && !cart.userId ? cart : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the cart to write to, creating it when needed. Guests get a new cart token.
+   */
+  private static async resolveCart(owner: CartOwner): Promise<CartWithItems> {
+    if (owner.userId && owner.guestToken) {
+      await this.mergeGuestCart(owner.guestToken, owner.userId);
+    }
+
+    const existing = await this.findCart(owner);
+    if (existing) {
+      return existing;
+    }
+
+    return prisma.cart.create({
+      data: owner.userId
+        ? { userId: owner.userId }
+        : { guestToken: crypto.randomBytes(24).toString('hex') },
+      include: { items: true },
+    });
+  }
+
+  /**
+   * Currency the cart is priced in: the requested one, else the user's preferred currency
+   */
+  private static async resolveCurrency(owner: CartOwner, currency?: string): Promise<string> {
+    if (currency) {
+      return currency;
+    }
+
+    if (owner.userId) {
+      const user = await prisma.user.findUnique({
+        where: { id: owner.userId },
+        select: { preferredCurrency: true },
+      });
+
+      if (user && CurrencyService.isSupported(user.preferredCurrency)) {
+        return user.preferredCurrency;
+      }
+    }
+
+    return config.currency.default;
+  }
+
+  /**
+   * Check the add-on ids a tour item asks for
+   */
+  private static checkAddOns(addOns: string[]): void {
+    const unknown = addOns.filter((id) => !TOUR_ADD_ONS.some((addOn) => addOn.id === id));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown add-ons: ${unknown.join(', ')}`);
+    }
+  }
+
+  /**
+   * Resolve the departure of a tour booking and make sure it can take the party
+   */
+  private static async checkTourBooking(
+    tourId: string,
+    params: { departureId?: string | null; startDate: Date; adults: number; children: number }
+  ): Promise<string> {
+    const availability = await DepartureService.checkAvailability(tourId, {
+      departureId: params.departureId || undefined,
+      startDate: params.startDate,
+      adults: params.adults,
+      children: params.children,
+    });
+
+    if (!availability.available || !availability.departureId) {
+      throw new ValidationError(availability.reason || 'This tour is not available on the selected date');
+    }
+
+    return availability.departureId;
+  }
+
+  /**
+   * Make sure a product can be sold in the requested quantity
+   */
+  private static async checkProduct(productId: string, quantity: number): Promise<void> {
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    if (product.status !== 'PUBLISHED') {
+      throw new ValidationError(`${product.name} is not available`);
+    }
+
+    if (product.stock < quantity) {
+      throw new ValidationError(`Only ${product.stock} of ${product.name} left in stock`);
+    }
+  }
+
+  /**
+   * Get the cart, re-priced and with availability checked again
+   */
+  static async getCart(owner: CartOwner, currency?: string): Promise<CartSummary> {
+    if (owner.userId && owner.guestToken) {
+      await this.mergeGuestCart(owner.guestToken, owner.userId);
+    }
+
+    const cart = await this.findCart(owner);
+    return this.priceCart(cart, await this.resolveCurrency(owner, currency), owner.userId);
+  }
+
+  /**
+   * Add a tour booking or product. A tour already in the cart for the same day is replaced,
+   * a product already in the cart with the same variant has its quantity increased.
+   */
+  static async addItem(owner: CartOwner, data: AddCartItemInput, currency?: string): Promise<CartSummary> {
+    const cart = await this.resolveCart(owner);
+
+    if (data.type === 'TOUR') {
+      this.checkAddOns(data.addOns);
+
+      const startDate = new Date(data.startDate);
+      const departureId = await this.checkTourBooking(data.tourId, { ...data, startDate });
+      const fields = {
+        departureId,
+        startDate,
+        adults: data.adults,
+        children: data.children,
+        addOns: JSON.stringify(data.addOns),
+        specialRequests: data.specialRequests ?? null,
+      };
+
+      const existing = cart.items.find((item) => item.tourId === data.tourId && sameDay(item.startDate, startDate));
+
+      if (existing) {
+        await prisma.cartItem.update({ where: { id: existing.id }, data: fields });
+      } else {
+        await prisma.cartItem.create({ data: { cartId: cart.id, type: 'TOUR', tourId: data.tourId, ...fields } });
+      }
+    } else {
+      const variant = data.variant ? JSON.stringify(data.variant) : null;
+      const existing = cart.items.find((item) => item.productId === data.productId && sameVariant(item.variant, variant));
+      const quantity = Math.min((existing?.quantity || 0) + data.quantity, MAX_PRODUCT_QUANTITY);
+
+      await this.checkProduct(data.productId, quantity);
+
+      if (existing) {
+        await prisma.cartItem.update({ where: { id: existing.id }, data: { quantity } });
+      } else {
+        await prisma.cartItem.create({
+          data: { cartId: cart.id, type: 'PRODUCT', productId: data.productId, quantity, variant },
+        });
+      }
+    }
+
+    return this.getCart(this.ownerOf(cart), currency);
+  }
+
+  /**
+   * Change an item's party, date, add-ons or quantity
+   */
+  static async updateItem(
+    owner: CartOwner,
+    itemId: string,
+    data: UpdateCartItemInput,
+    currency?: string
+  ): Promise<CartSummary> {
+    const cart = await this.resolveCart(owner);
+    const item = cart.items.find((cartItem) => cartItem.id === itemId);
+
+    if (!item) {
+      throw new NotFoundError('Cart item not found');
+    }
+
+    let changes: Prisma.CartItemUpdateInput;
+
+    if (item.type === 'TOUR') {
+      if (data.addOns) {
+        this.checkAddOns(data.addOns);
+      }
+
+      const dateChanged = data.startDate !== undefined || data.departureId !== undefined;
+      const startDate = data.startDate ? new Date(data.startDate) : item.startDate!;
+      const adults = data.adults ?? item.adults;
+      const children = data.children ?? item.children;
+
+      const departureId = await this.checkTourBooking(item.tourId!, {
+        departureId: data.departureId ?? (dateChanged ? null : item.departureId),
+        startDate,
+        adults,
+        children,
+      });
+
+      changes = {
+        departure: { connect: { id: departureId } },
+        startDate,
+        adults,
+        children,
+        ...(data.addOns && { addOns: JSON.stringify(data.addOns) }),
+        ...(data.specialRequests !== undefined && { specialRequests: data.specialRequests }),
+      };
+    } else {
+      const quantity = data.quantity ?? item.quantity;
+      await this.checkProduct(item.productId!, quantity);
+
+      changes = {
+        quantity,
+        ...(data.variant && { variant: JSON.stringify(data.variant) }),
+      };
+    }
+
+    await prisma.cartItem.update({ where: { id: item.id }, data: changes });
+
+    return this.getCart(this.ownerOf(cart), currency);
+  }
+
+  /**
+   * Remove an item
+   */
+  static async removeItem(owner: CartOwner, itemId: string, currency?: string): Promise<CartSummary> {
+    const cart = await this.findCart(owner);
+
+    if (!cart || !cart.items.some((item) => item.id === itemId)) {
+      throw new NotFoundError('Cart item not found');
+    }
+
+    await prisma.cartItem.delete({ where: { id: itemId } });
+
+    return this.getCart(this.ownerOf(cart), currency);
+  }
+
+  /**
+   * Empty the cart and drop its promo code
+   */
+  static async clearCart(owner: CartOwner, currency?: string): Promise<CartSummary> {
+    const cart = await this.findCart(owner);
+
+    if (cart) {
+      await prisma.$transaction([
+        prisma.cartItem.deleteMany({ where: { cartId: cart.id } }),
+        prisma.cart.update({ where: { id: cart.id }, data: { promoCode: null } }),
+      ]);
+    }
+
+    return this.getCart(owner, currency);
+  }
+
+  /**
+   * Apply a promo code after validating it against the cart
+   */
+  static async applyPromoCode(owner: CartOwner, code: string, currency?: string): Promise<CartSummary> {
+    const cart = await this.resolveCart(owner);
+
+    if (cart.items.length === 0) {
+      throw new ValidationError('Add something to your cart before applying a promo code');
+    }
+
+    const summary = await this.priceCart(
+      { ...cart, promoCode: code.toUpperCase() },
+      await this.resolveCurrency(owner, currency),
+      owner.userId
+    );
+
+    if (!summary.promo?.valid) {
+      throw new ValidationError(summary.promo?.message || 'Invalid promo code');
+    }
+
+    await prisma.cart.update({ where: { id: cart.id }, data: { promoCode: code.toUpperCase() } });
+
+    return summary;
+  }
+
+  /**
+   * Remove the promo code
+   */
+  static async removePromoCode(owner: CartOwner, currency?: string): Promise<CartSummary> {
+    const cart = await this.findCart(owner);
+
+    if (cart?.promoCode) {
+      await prisma.cart.update({ where: { id: cart.id }, data: { promoCode: null } });
+    }
+
+    return this.getCart(owner, currency);
+  }
+
+  /**
+   * Move a guest cart into a user's cart and delete it. A tour the user already has for the
+   * same day takes the guest's party, a product the user already has adds up the quantities.
+   */
+  static async mergeGuestCart(guestToken: string, userId: string): Promise<void> {
+    const guestCart = await prisma.cart.findUnique({
+      where: { guestToken },
+      include: { items: true },
+    });
+
+    if (!guestCart || guestCart.userId) {
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const userCart = await tx.cart.upsert({
+        where: { userId },
+        create: { userId, promoCode: guestCart.promoCode },
+        update: {},
+        include: { items: true },
+      });
+
+      for (const item of guestCart.items) {
+        const match = userCart.items.find((existing) =>
+          item.type === 'TOUR'
+            ? existing.tourId === item.tourId && sameDay(existing.startDate, item.startDate)
+            : existing.productId === item.productId && sameVariant(existing.variant, item.variant)
+        );
+
+        if (!match) {
+          await tx.cartItem.update({ where: { id: item.id }, data: { cartId: userCart.id } });
+        } else if (item.type === 'TOUR') {
+          await tx.cartItem.update({
+            where: { id: match.id },
+            data: {
+              departureId: item.departureId,
+              adults: item.adults,
+              children: item.children,
+              addOns: item.addOns,
+              specialRequests: item.specialRequests,
+            },
+          });
+        } else {
+          await tx.cartItem.update({
+            where: { id: match.id },
+            data: { quantity: Math.min(match.quantity + item.quantity, MAX_PRODUCT_QUANTITY) },
+          });
+        }
+      }
+
+      if (!userCart.promoCode && guestCart.promoCode) {
+        await tx.cart.update({ where: { id: userCart.id }, data: { promoCode: guestCart.promoCode } });
+      }
+
+      await tx.cart.delete({ where: { id: guestCart.id } });
+    });
+
+    log.info('Guest cart merged', { userId, guestCartId: guestCart.id, items: guestCart.items.length });
+  }
+
+  private static ownerOf(cart: CartWithItems): CartOwner {
+    return cart.userId ? { userId: cart.userId } : { guestToken: cart.guestToken! };
+  }
+
+  /**
+   * Price every item from the current tour, departure and product data, check it can still be
+   * booked or bought, and validate the promo code against the result
+   */
+  private static async priceCart(cart: CartWithItems | null, currency: string, userId?: string): Promise<CartSummary> {
+    const summary: CartSummary = {
+      id: cart?.id ?? null,
+      guestToken: cart?.guestToken ?? null,
+      currency,
+      items: [],
+      itemCount: 0,
+      promoCode: cart?.promoCode ?? null,
+      promo: null,
+      subtotal: 0,
+      discount: 0,
+      total: 0,
+      valid: true,
+      issues: [],
+    };
+
+    if (!cart || cart.items.length === 0) {
+      return summary;
+    }
+
+    const rates = new Map<string, number>([[currency, 1]]);
+    const convert = async (amount: number, from: string) => {
+      if (!rates.has(from)) {
+        rates.set(from, (await CurrencyService.getRate(from, currency)).rate);
+      }
+      return CurrencyService.roundAmount(amount * rates.get(from)!, currency);
+    };
+
+    const tourItems = cart.items.filter((item) => item.type === 'TOUR');
+    const productItems = cart.items.filter((item) => item.type === 'PRODUCT');
+
+    const [tours, departures] = await Promise.all([
+      prisma.tour.findMany({
+        where: { id: { in: tourItems.map((item) => item.tourId!) } },
+        include: { images: { orderBy: { position: 'asc' }, take: 1 } },
+      }),
+      prisma.tourDeparture.findMany({
+        where: { id: { in: tourItems.map((item) => item.departureId).filter((id): id is string => !!id) } },
+      }),
+    ]);
+    const products = productItems.length > 0
+      ? await prisma.product.findMany({
+        where: { id: { in: productItems.map((item) => item.productId!) } },
+        include: { category: { select: { slug: true } } },
+      })
+      : [];
+
+    const promoTours: Array<{ tourId: string; total: number }> = [];
+    const promoProducts: Array<{ productId: string; category?: string | null; total: number }> = [];
+
+    for (const item of cart.items) {
+      let priced: PricedCartItem;
+
+      if (item.type === 'TOUR') {
+        const tour = tours.find((candidate) => candidate.id === item.tourId);
+        if (!tour) {
+          continue;
+        }
+
+        const departure: TourDeparture | null =
+          departures.find((candidate) => candidate.id === item.departureId) ||
+          (item.startDate ? await DepartureService.findDepartureForDate(tour.id, item.startDate) : null);
+
+        const pricing = DepartureService.getPricing(departure, tour);
+        const pricePerAdult = await convert(pricing.price, tour.currency);
+        const pricePerChild = await convert(pricing.childPrice, tour.currency);
+        const addOns = await Promise.all(
+          TOUR_ADD_ONS
+            .filter((addOn) => parseJson<string[]>(item.addOns, []).includes(addOn.id))
+            .map(async (addOn) => ({ ...addOn, price: await convert(addOn.price, config.currency.default) }))
+        );
+        const total = item.adults * pricePerAdult + item.children * pricePerChild +
+          addOns.reduce((sum, addOn) => sum + addOn.price, 0);
+
+        priced = {
+          id: item.id,
+          type: 'TOUR',
+          name: tour.title,
+          image: tour.images[0]?.url ?? null,
+          tourId: tour.id,
+          tourSlug: tour.slug,
+          departureId: departure?.id ?? null,
+          startDate: departure?.startDate ?? item.startDate,
+          endDate: departure?.endDate ?? null,
+          duration: tour.duration,
+          adults: item.adults,
+          children: item.children,
+          pricePerAdult,
+          pricePerChild,
+          addOns,
+          specialRequests: item.specialRequests,
+          spotsLeft: departure ? DepartureService.getSeatsLeft(departure) : 0,
+          total: CurrencyService.roundAmount(total, currency),
+          available: true,
+        };
+
+        priced.issue = this.tourIssue(tour.status, departure, item);
+        if (!priced.issue) {
+          promoTours.push({ tourId: tour.id, total: priced.total });
+        }
+      } else {
+        const product = products.find((candidate) => candidate.id === item.productId);
+        const images = product?.images;
+
+        priced = {
+          id: item.id,
+          type: 'PRODUCT',
+          name: product?.name ?? 'Unavailable product',
+          image: Array.isArray(images) && typeof images[0] === 'string' ? images[0] : null,
+          productId: item.productId!,
+          quantity: item.quantity,
+          variant: parseJson(item.variant, null),
+          unitPrice: 0,
+          total: 0,
+          available: true,
+        };
+
+        if (!product) {
+          priced.issue = 'This product is no longer sold';
+        } else {
+          priced.unitPrice = await convert(Number(product.discountPrice || product.price), config.currency.default);
+          priced.total = CurrencyService.roundAmount(priced.unitPrice * item.quantity, currency);
+
+          if (product.status !== 'PUBLISHED') {
+            priced.issue = `${product.name} is not available`;
+          } else if (product.stock < item.quantity) {
+            priced.issue = `Only ${product.stock} of ${product.name} left in stock`;
+          } else {
+            promoProducts.push({ productId: product.id, category: product.category.slug, total: priced.total });
+          }
+        }
+      }
+
+      if (priced.issue) {
+        priced.available = false;
+        summary.issues.push(`${priced.name}: ${priced.issue}`);
+      } else {
+        summary.subtotal += priced.total;
+      }
+
+      summary.items.push(priced);
+    }
+
+    summary.itemCount = summary.items.length;
+    summary.subtotal = CurrencyService.roundAmount(summary.subtotal, currency);
+
+    if (cart.promoCode && summary.subtotal > 0) {
+      const validation = await PromoService.validatePromoCode(cart.promoCode, {
+        userId,
+        currency,
+        totalAmount: summary.subtotal,
+        tours: promoTours,
+        ...(promoProducts.length > 0 && { items: promoProducts }),
+      });
+
+      summary.promo = {
+        valid: validation.valid,
+        message: validation.message,
+        discountAmount: validation.discountAmount || 0,
+      };
+      summary.discount = validation.valid ? validation.discountAmount || 0 : 0;
+    } else if (cart.promoCode) {
+      summary.promo = { valid: false, message: 'Nothing in your cart can be discounted', discountAmount: 0 };
+    }
+
+    summary.total = CurrencyService.roundAmount(Math.max(0, summary.subtotal - summary.discount), currency);
+    summary.valid = summary.issues.length === 0;
+
+    return summary;
+  }
+
+  /**
+   * Why a tour booking in the cart cannot be booked any more, if it cannot
+   */
+  private static tourIssue(tourStatus: string, departure: TourDeparture | null, item: CartItem): string | undefined {
+    if (tourStatus !== 'PUBLISHED') {
+      return 'This tour is no longer available';
+    }
+
+    if (!departure) {
+      return 'No departure is scheduled for the selected date';
+    }
+
+    const { bookable, reason } = DepartureService.getBookability(departure);
+    if (!bookable) {
+      return reason;
+    }
+
+    const spotsLeft = DepartureService.getSeatsLeft(departure);
+    if (item.adults + item.children > spotsLeft) {
+      return `Only ${spotsLeft} spots available for this departure`;
+    }
+
+    return undefined;
+  }
+}
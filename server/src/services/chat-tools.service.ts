@@ -0,0 +1,482 @@
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { AIToolCall, AIToolDefinition } from './ai.service';
+import { BookingService } from './booking.service';
+import { DepartureService } from './departure.service';
+import { TourSearchService } from './tour-search.service';
+import { FormattedTour, TourService, TOUR_DETAILS_INCLUDE } from './tour.service';
+import { tourQuerySchema } from '../schemas/tour.schemas';
+import { log } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+/**
+ * Cards shown with an assistant response, in the shape of the client's rich chat messages
+ */
+export interface TourCardData {
+  id: string;
+  title: string;
+  description: string;
+  imageUrl: string;
+  duration: string;
+  price: number;
+  currency: string;
+  rating?: number;
+  reviewCount?: number;
+  highlights: string[];
+  location: string;
+}
+
+export interface LocationCardData {
+  name: string;
+  address: string;
+  coordinates: { lat: number; lng: number };
+  description?: string;
+}
+
+export interface ItineraryCardData {
+  title: string;
+  duration: string;
+  startDate?: string;
+  endDate?: string;
+  days: Array<{
+    day: number;
+    title: string;
+    activities: Array<{ time: string; activity: string; location: string; description?: string }>;
+  }>;
+  totalCost?: number;
+  currency?: string;
+}
+
+export type ChatAttachment =
+  | { type: 'tour'; tour: TourCardData }
+  | { type: 'location'; location: LocationCardData }
+  | { type: 'itinerary'; itinerary: ItineraryCardData };
+
+export interface ChatToolResult {
+  content: string; // What the model sees, as JSON
+  attachments: ChatAttachment[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest tour description handed to the model
+const DESCRIPTION_LENGTH = 1500;
+
+const dateParam = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates are YYYY-MM-DD')
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+const searchToursArgs = z.object({
+  query: z.string().trim().max(200).optional(),
+  category: z.string().trim().max(50).optional(),
+  maxPrice: z.number().positive().optional(),
+  minDuration: z.number().int().positive().optional(),
+  maxDuration: z.number().int().positive().optional(),
+  limit: z.number().int().min(1).max(5).default(3),
+});
+
+const tourArgs = z.object({
+  tourId: z.string().trim().min(1).max(200),
+});
+
+const availabilityArgs = z.object({
+  tourId: z.string().trim().min(1).max(200),
+  date: dateParam.optional(),
+  adults: z.number().int().min(1).max(50).default(1),
+  children: z.number().int().min(0).max(50).default(0),
+});
+
+const bookingsArgs = z.object({
+  status: z.enum(['PENDING', 'CONFIRMED', 'CANCELLED', 'COMPLETED', 'REFUNDED']).optional(),
+});
+
+const itineraryArgs = z.object({
+  tourIds: z.array(z.string().trim().min(1).max(200)).min(1).max(3),
+  startDate: dateParam.optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+const TOOL_DEFINITIONS: AIToolDefinition[] = [
+  {
+    name: 'search_tours',
+    description: 'Search published tours by keywords, category, price and duration. Use it before recommending any tour.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords, e.g. a place, activity or theme' },
+        category: { type: 'string', description: 'Tour category, e.g. Cultural, Adventure, Historical, Nature' },
+        maxPrice: { type: 'number', description: 'Highest price per adult in the tour currency' },
+        minDuration: { type: 'integer', description: 'Fewest days' },
+        maxDuration: { type: 'integer', description: 'Most days' },
+        limit: { type: 'integer', description: 'How many tours to return, 1 to 5' },
+      },
+    },
+  },
+  {
+    name: 'get_tour_details',
+    description: 'Get a tour\'s description, price, day-by-day itinerary, inclusions, locations and rating.',
+    parameters: {
+      type: 'object',
+      properties: {
+        tourId: { type: 'string', description: 'Tour ID or slug from search_tours' },
+      },
+      required: ['tourId'],
+    },
+  },
+  {
+    name: 'check_availability',
+    description: 'Check departures, seats left and prices for a tour, either on a date or the next upcoming ones.',
+    parameters: {
+      type: 'object',
+      properties: {
+        tourId: { type: 'string', description: 'Tour ID or slug' },
+        date: { type: 'string', description: 'Start date as YYYY-MM-DD; leave out for upcoming departures' },
+        adults: { type: 'integer', description: 'Number of adults, default 1' },
+        children: { type: 'integer', description: 'Number of children, default 0' },
+      },
+      required: ['tourId'],
+    },
+  },
+  {
+    name: 'get_my_bookings',
+    description: 'List the signed-in user\'s own bookings with dates, status and price.',
+    parameters: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['PENDING', 'CONFIRMED', 'CANCELLED', 'COMPLETED', 'REFUNDED'],
+          description: 'Only bookings with this status',
+        },
+      },
+    },
+  },
+  {
+    name: 'draft_itinerary',
+    description: 'Draft a day-by-day itinerary from one to three tours taken back to back. The draft is not saved.',
+    parameters: {
+      type: 'object',
+      properties: {
+        tourIds: { type: 'array', items: { type: 'string' }, description: 'Tour IDs or slugs, in travel order' },
+        startDate: { type: 'string', description: 'First day as YYYY-MM-DD' },
+        title: { type: 'string', description: 'Title for the itinerary' },
+      },
+      required: ['tourIds'],
+    },
+  },
+];
+
+const formatDays = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length)}…` : text);
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Read-only catalog and booking lookups the chat assistant can call, so answers
+ * use real tours, prices and dates. Bookings are always the caller's own.
+ */
+export class ChatToolService {
+  static readonly definitions = TOOL_DEFINITIONS;
+
+  static readonly instructions = [
+    'Use the tools to look up tours, prices, departure dates and bookings. Never make up tours, prices, dates or availability; if a tool finds nothing, say so.',
+    'The user sees a card for every tour, location and itinerary the tools return, so summarise them briefly instead of repeating every detail.',
+  ].join(' ');
+
+  /**
+   * Run a tool call for a user. Bad arguments and lookup failures are returned
+   * to the model as errors rather than thrown.
+   */
+  static async execute(call: AIToolCall, userId?: string): Promise<ChatToolResult> {
+    try {
+      const { data, attachments = [] } = await this.run(call, userId);
+      return { content: JSON.stringify(data), attachments };
+    } catch (error: any) {
+      const message = error instanceof z.ZodError
+        ? `Invalid arguments: ${error.errors.map((issue) => `${issue.path.join('.')} ${issue.message}`).join(', ')}`
+        : error.message;
+
+      log.warn('Chat tool call failed', { tool: call.name, userId, error: message });
+      return { content: JSON.stringify({ error: message }), attachments: [] };
+    }
+  }
+
+  private static async run(
+    call: AIToolCall,
+    userId?: string
+  ): Promise<{ data: unknown; attachments?: ChatAttachment[] }> {
+    switch (call.name) {
+      case 'search_tours':
+        return this.searchTours(searchToursArgs.parse(call.arguments));
+      case 'get_tour_details':
+        return this.getTourDetails(tourArgs.parse(call.arguments));
+      case 'check_availability':
+        return this.checkAvailability(availabilityArgs.parse(call.arguments));
+      case 'get_my_bookings':
+        return this.getMyBookings(bookingsArgs.parse(call.arguments), userId);
+      case 'draft_itinerary':
+        return this.draftItinerary(itineraryArgs.parse(call.arguments));
+      default:
+        throw new Error(`Unknown tool: ${call.name}`);
+    }
+  }
+
+  private static async searchTours(args: z.infer<typeof searchToursArgs>) {
+    const result = await TourSearchService.search(tourQuerySchema.parse({
+      q: args.query,
+      category: args.category,
+      maxPrice: args.maxPrice,
+      minDuration: args.minDuration,
+      maxDuration: args.maxDuration,
+      limit: args.limit,
+    }));
+
+    return {
+      data: {
+        total: result.pagination.total,
+        tours: result.tours.map((tour) => ({
+          id: tour.id,
+          slug: tour.slug,
+          title: tour.title,
+          category: tour.category,
+          difficulty: tour.difficulty,
+          durationDays: tour.duration,
+          price: Number(tour.discountPrice ?? tour.price),
+          currency: tour.currency,
+          rating: tour.averageRating,
+          reviewCount: tour.reviewCount,
+          startLocation: tour.startLocation?.name || null,
+        })),
+      },
+      attachments: result.tours.map((tour) => ({
+        type: 'tour' as const,
+        tour: this.toTourCard(tour, tour.averageRating, tour.reviewCount),
+      })),
+    };
+  }
+
+  private static async getTourDetails(args: z.infer<typeof tourArgs>) {
+    const tour = await this.findTour(args.tourId);
+    const reviews = await prisma.review.aggregate({
+      where: { tourId: tour.id, status: 'APPROVED' },
+      _avg: { rating: true },
+      _count: { _all: true },
+    });
+    const rating = reviews._avg.rating === null ? null : Math.round(reviews._avg.rating * 10) / 10;
+
+    const attachments: ChatAttachment[] = [
+      { type: 'tour', tour: this.toTourCard(tour, rating, reviews._count._all) },
+    ];
+
+    const start = tour.startLocation;
+    if (start?.coordinates) {
+      attachments.push({
+        type: 'location',
+        location: {
+          name: start.name,
+          address: start.address || start.name,
+          coordinates: { lat: start.coordinates[0], lng: start.coordinates[1] },
+          description: start.description || `Starting point of ${tour.title}`,
+        },
+      });
+    }
+
+    return {
+      data: {
+        id: tour.id,
+        slug: tour.slug,
+        title: tour.title,
+        description: truncate(tour.description, DESCRIPTION_LENGTH),
+        category: tour.category,
+        difficulty: tour.difficulty,
+        durationDays: tour.duration,
+        maxGroupSize: tour.maxGroupSize,
+        price: Number(tour.price),
+        discountPrice: tour.discountPrice === null ? null : Number(tour.discountPrice),
+        currency: tour.currency,
+        rating,
+        reviewCount: reviews._count._all,
+        startLocation: start?.name || null,
+        locations: tour.locations.map((location) => location.name),
+        included: tour.included,
+        excluded: tour.excluded,
+        itinerary: tour.itinerary.map((day) => ({
+          day: day.day,
+          title: day.title,
+          activities: day.activities,
+          accommodation: day.accommodation,
+        })),
+      },
+      attachments,
+    };
+  }
+
+  private static async checkAvailability(args: z.infer<typeof availabilityArgs>) {
+    const tour = await this.findTour(args.tourId);
+
+    if (args.date) {
+      const availability = await DepartureService.checkAvailability(tour.id, {
+        startDate: `${args.date}T00:00:00.000Z`,
+        adults: args.adults,
+        children: args.children,
+      });
+
+      return {
+        data: {
+          tour: tour.title,
+          currency: tour.currency,
+          available: availability.available,
+          reason: availability.reason || null,
+          startDate: availability.startDate,
+          endDate: availability.endDate,
+          spotsLeft: availability.spotsLeft,
+          price: availability.price,
+          childPrice: availability.childPrice,
+        },
+      };
+    }
+
+    const departures = await DepartureService.listDepartures(tour.id);
+
+    return {
+      data: {
+        tour: tour.title,
+        currency: tour.currency,
+        departures: departures
+          .filter((departure) => DepartureService.getBookability(departure).bookable)
+          .slice(0, 5)
+          .map((departure) => ({
+            startDate: toDateString(departure.startDate),
+            endDate: toDateString(departure.endDate),
+            spotsLeft: DepartureService.getSeatsLeft(departure),
+            ...DepartureService.getPricing(departure, tour),
+          })),
+      },
+    };
+  }
+
+  private static async getMyBookings(args: z.infer<typeof bookingsArgs>, userId?: string) {
+    if (!userId) {
+      return { data: { error: 'The user is not signed in. Ask them to sign in to see their bookings.' } };
+    }
+
+    const { bookings } = await BookingService.getUserBookings(userId, {
+      status: args.status,
+      sortBy: 'startDate',
+      sortOrder: 'desc',
+      limit: 10,
+    });
+
+    return {
+      data: {
+        bookings: bookings.map((booking: any) => ({
+          bookingNumber: booking.bookingNumber,
+          tour: booking.tour?.title,
+          status: booking.status,
+          startDate: toDateString(booking.startDate),
+          endDate: toDateString(booking.endDate),
+          adults: booking.adults,
+          children: booking.children,
+          totalPrice: Number(booking.totalPrice),
+          currency: booking.currency,
+        })),
+      },
+    };
+  }
+
+  private static async draftItinerary(args: z.infer<typeof itineraryArgs>) {
+    const tours = [];
+    for (const tourId of args.tourIds) {
+      tours.push(await this.findTour(tourId));
+    }
+
+    const totalDays = tours.reduce((sum, tour) => sum + tour.duration, 0);
+    const start = args.startDate ? new Date(`${args.startDate}T00:00:00.000Z`) : null;
+    const currencies = new Set(tours.map((tour) => tour.currency));
+
+    const days: ItineraryCardData['days'] = [];
+    for (const tour of tours) {
+      const location = tour.startLocation?.name || tour.title;
+
+      for (let dayNumber = 1; dayNumber <= tour.duration; dayNumber++) {
+        const day = tour.itinerary.find((item) => item.day === dayNumber);
+        const activities = day?.activities.length ? day.activities : [day?.title || `${tour.title}, day ${dayNumber}`];
+
+        days.push({
+          day: days.length + 1,
+          title: day?.title || tour.title,
+          activities: activities.map((activity, index) => ({
+            time: activities.length === 1 ? 'All day' : ['Morning', 'Afternoon', 'Evening'][Math.min(index, 2)],
+            activity,
+            location,
+            ...(index === 0 && day?.description && { description: day.description }),
+          })),
+        });
+      }
+    }
+
+    const itinerary: ItineraryCardData = {
+      title: args.title || tours.map((tour) => tour.title).join(' + '),
+      duration: formatDays(totalDays),
+      ...(start && {
+        startDate: toDateString(start),
+        endDate: toDateString(new Date(start.getTime() + (totalDays - 1) * DAY_MS)),
+      }),
+      days,
+      // Prices in different currencies are not added up
+      ...(currencies.size === 1 && {
+        totalCost: tours.reduce((sum, tour) => sum + Number(tour.discountPrice ?? tour.price), 0),
+        currency: tours[0].currency,
+      }),
+    };
+
+    return {
+      data: {
+        saved: false,
+        title: itinerary.title,
+        duration: itinerary.duration,
+        startDate: itinerary.startDate || null,
+        endDate: itinerary.endDate || null,
+        totalCostPerAdult: itinerary.totalCost ?? null,
+        currency: itinerary.currency || null,
+        days: days.map((day) => ({ day: day.day, title: day.title })),
+      },
+      attachments: [{ type: 'itinerary' as const, itinerary }],
+    };
+  }
+
+  /**
+   * A published tour by ID or slug
+   */
+  private static async findTour(idOrSlug: string): Promise<FormattedTour> {
+    const tour = await prisma.tour.findFirst({
+      where: { status: 'PUBLISHED', OR: [{ id: idOrSlug }, { slug: idOrSlug }] },
+      include: TOUR_DETAILS_INCLUDE,
+    });
+
+    if (!tour) {
+      throw new Error(`No published tour found for "${idOrSlug}"`);
+    }
+
+    return TourService.formatTour(tour);
+  }
+
+  private static toTourCard(tour: FormattedTour, rating: number | null, reviewCount: number): TourCardData {
+    return {
+      id: tour.id,
+      title: tour.title,
+      description: truncate(tour.shortDescription || tour.description, 200),
+      imageUrl: tour.images[0] || '',
+      duration: formatDays(tour.duration),
+      price: Number(tour.discountPrice ?? tour.price),
+      currency: tour.currency,
+      ...(rating !== null && { rating }),
+      ...(reviewCount > 0 && { reviewCount }),
+      highlights: tour.locations.map((location) => location.name).slice(0, 3),
+      location: tour.startLocation?.name || tour.locations[0]?.name || '',
+    };
+  }
+}
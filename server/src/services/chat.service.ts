@@ -1,13 +1,19 @@
-import { PrismaClient, ChatMessage, Prisma } from '@prisma/client';
+import { PrismaClient, ChatMessage, ChatConversation, Prisma } from '@prisma/client';
 import { 
   SendMessageInput, 
   ChatQueryInput,
   UpdateMessageInput,
   CreateChatSessionInput,
   ChatFeedbackInput,
-  ChatStatsQueryInput
+  ChatStatsQueryInput,
+  ConversationQueryInput,
+  ConversationMessagesQueryInput,
+  UpdateConversationInput
 } from '../schemas/chat.schemas';
 import { OpenAIService } from './openai.service';
+import { AIService } from './ai.service';
+import { ChatAttachment, ChatToolService } from './chat-tools.service';
+import { RetrievalService, RetrievalSourceType, RetrievedPassage } from './retrieval.service';
 import { 
   NotFoundError, 
   ValidationError, 
@@ -18,76 +24,476 @@ import { log } from '../utils/logger';
 
 const prisma = new PrismaClient();
 
+// Exchanges of a conversation sent as context with a new message
+const CONTEXT_EXCHANGES = 10;
+
+// Longest title taken from a conversation's first message
+const TITLE_LENGTH = 60;
+
+// Stored as the response when no AI provider could answer
+const FALLBACK_RESPONSE = "I apologize, but I'm having trouble processing your request right now. Please try again or rephrase your question.";
+
+/**
+ * A library source an answer cites as [index]
+ */
+export interface ChatSource {
+  index: number;
+  title: string;
+  url: string;
+  sourceType: RetrievalSourceType;
+}
+
+interface ReplyHandlers {
+  signal?: AbortSignal;
+  onStart?: (stream: { provider: string; model: string }) => void;
+  onToken: (text: string) => void;
+  // Called after each tool the model uses, with the cards it returned
+  onTool?: (tool: { name: string; attachments: ChatAttachment[] }) => void;
+}
+
 export class ChatService {
   /**
-   * Send a message and get AI response
+   * Send a message and get AI response. Signed-in users' messages belong to a
+   * conversation, which is started when no conversation ID is given.
    */
   static async sendMessage(
     data: SendMessageInput, 
     userId?: string
   ): Promise<{
-    userMessage: ChatMessage;
-    aiResponse: ChatMessage;
+    conversation: ChatConversation | null;
+    message: ChatMessage;
   }> {
-    // Validate message content
-    if (!OpenAIService.validateMessageContent(data.message)) {
-      throw new ValidationError('Invalid message content');
+    const { conversation, conversationHistory } = await this.prepareMessage(data, userId);
+
+    try {
+      const reply = await this.generateReply(data, userId, conversationHistory, { onToken: () => undefined });
+      if (reply.response || reply.details.attachments) {
+        return this.saveExchange(data, userId, conversation, reply.response, reply.details);
+      }
+    } catch (error: any) {
+      log.error('Chat response failed', { userId, error: error.message });
+    }
+
+    return this.saveExchange(data, userId, conversation, FALLBACK_RESPONSE);
+  }
+
+  /**
+   * Send a message and stream the AI response as it is generated. The exchange is
+   * stored once the stream completes; when the client stops it early, whatever was
+   * generated so far is stored and marked as stopped.
+   */
+  static async streamMessage(
+    data: SendMessageInput,
+    userId: string | undefined,
+    handlers: ReplyHandlers
+  ): Promise<{
+    conversation: ChatConversation | null;
+    message: ChatMessage | null;
+    stopped: boolean;
+  }> {
+    const { conversation, conversationHistory } = await this.prepareMessage(data, userId);
+    const { response, details } = await this.generateReply(data, userId, conversationHistory, handlers);
+    const stopped = Boolean(handlers.signal?.aborted);
+
+    if (!response && !details.attachments) {
+      log.info('Chat stream stopped before any response', { userId, conversationId: conversation?.id });
+      return { conversation, message: null, stopped };
     }
 
-    // Get conversation history for context (last 10 messages)
-    const conversationHistory = userId ? await this.getRecentMessages(userId, 10) : [];
+    const saved = await this.saveExchange(data, userId, conversation, response, {
+      ...details,
+      ...(stopped && { stopped: true }),
+    });
+
+    return { ...saved, stopped };
+  }
+
+  /**
+   * Stream a response to a message. Library passages matching the message are added
+   * to the prompt, and the sources the answer cites are stored with it. The model
+   * can call the chat tools to look up tours, availability and the user's bookings;
+   * the cards they return are stored with the response.
+   */
+  private static async generateReply(
+    data: SendMessageInput,
+    userId: string | undefined,
+    conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
+    handlers: ReplyHandlers
+  ): Promise<{
+    response: string;
+    details: { provider: string; attachments?: ChatAttachment[]; sources?: ChatSource[] };
+  }> {
+    const attachments: ChatAttachment[] = [];
+    const library = this.groupPassages(await this.findPassages(data.message));
 
-    // Generate AI response
-    const aiResponseContent = await OpenAIService.generateChatResponse(
-      data.message,
-      {
+    const system = [
+      OpenAIService.buildSystemPrompt({
         language: data.language,
         messageType: data.messageType,
         ...data.context,
-        conversationHistory: conversationHistory.map(msg => ({
-          role: msg.response ? 'assistant' : 'user',
-          content: msg.response || msg.message,
-        })),
+      }),
+      ChatToolService.instructions,
+      library.length > 0 && [
+        'Passages from the EthioAI library that may help with the latest message. Use them where they answer it and cite the source number in square brackets, e.g. [1]. Never cite a number that is not listed.',
+        ...library.map(({ source, passages }) => `[${source.index}] ${source.title}\n${passages.join('\n...\n')}`),
+      ].join('\n\n'),
+    ];
+
+    const stream = await AIService.openStream([
+      { role: 'system', content: system.filter(Boolean).join('\n\n') },
+      ...conversationHistory,
+      { role: 'user', content: data.message },
+    ], {
+      signal: handlers.signal,
+      tools: ChatToolService.definitions,
+      executeTool: async (call) => {
+        const result = await ChatToolService.execute(call, userId);
+        attachments.push(...result.attachments);
+        handlers.onTool?.({ name: call.name, attachments: result.attachments });
+        return result.content;
+      },
+    });
+
+    handlers.onStart?.({ provider: stream.provider, model: stream.model });
+
+    let response = '';
+    try {
+      for await (const text of stream.tokens) {
+        response += text;
+        handlers.onToken(text);
       }
+    } catch (error) {
+      // Providers reject the pending read when the request is aborted
+      if (!handlers.signal?.aborted) {
+        throw error;
+      }
+    }
+
+    // Citations look like [2] or [1, 3]
+    const cited = new Set(
+      Array.from(response.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g))
+        .flatMap((match) => match[1].split(',').map((number) => Number(number.trim())))
     );
+    const sources = library.map(({ source }) => source).filter((source) => cited.has(source.index));
+
+    return {
+      response,
+      details: {
+        provider: stream.provider,
+        ...(attachments.length > 0 && { attachments }),
+        ...(sources.length > 0 && { sources }),
+      },
+    };
+  }
 
-    // Save user message
-    const userMessage = await prisma.chatMessage.create({
+  /**
+   * Library passages for a message. The chat still answers, without them, when retrieval fails.
+   */
+  private static async findPassages(message: string): Promise<RetrievedPassage[]> {
+    try {
+      return await RetrievalService.search(message);
+    } catch (error: any) {
+      log.warn('Retrieving passages for chat failed', { error: error.message });
+      return [];
+    }
+  }
+
+  /**
+   * Number passages by source, so that answers cite articles and tours rather than chunks
+   */
+  private static groupPassages(passages: RetrievedPassage[]): Array<{ source: ChatSource; passages: string[] }> {
+    const groups = new Map<string, { source: ChatSource; passages: string[] }>();
+
+    for (const passage of passages) {
+      const group = groups.get(passage.url);
+      if (group) {
+        group.passages.push(passage.content);
+      } else {
+        groups.set(passage.url, {
+          source: {
+            index: groups.size + 1,
+            title: passage.title,
+            url: passage.url,
+            sourceType: passage.sourceType,
+          },
+          passages: [passage.content],
+        });
+      }
+    }
+
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Get a user's conversations, most recently active first
+   */
+  static async getConversations(
+    query: ConversationQueryInput,
+    userId: string
+  ): Promise<{
+    conversations: Array<ChatConversation & { messageCount: number }>;
+    pagination: PaginationMeta;
+  }> {
+    const { page = 1, limit = 20, archived = false, search } = query;
+
+    const where: Prisma.ChatConversationWhereInput = { userId, archived };
+
+    if (search) {
+      where.title = { contains: search };
+    }
+
+    const [conversations, total] = await Promise.all([
+      prisma.chatConversation.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { _count: { select: { messages: true } } },
+      }),
+      prisma.chatConversation.count({ where }),
+    ]);
+
+    return {
+      conversations: conversations.map(({ _count, ...conversation }) => ({
+        ...conversation,
+        messageCount: _count.messages,
+      })),
+      pagination: calculatePagination(page, limit, total),
+    };
+  }
+
+  /**
+   * Start an empty conversation
+   */
+  static async createConversation(
+    data: CreateChatSessionInput,
+    userId: string
+  ): Promise<ChatConversation> {
+    const conversation = await prisma.chatConversation.create({
       data: {
         userId,
-        message: data.message,
+        title: data.title || 'New conversation',
         language: data.language,
-        messageType: data.messageType,
-        metadata: data.context ? JSON.stringify(data.context) : null,
       },
     });
 
-    // Save AI response
-    const aiResponse = await prisma.chatMessage.create({
+    log.info('Chat conversation created', { conversationId: conversation.id, userId });
+
+    return conversation;
+  }
+
+  /**
+   * Get a conversation with its latest messages, oldest first, for resuming it
+   */
+  static async getConversation(
+    id: string,
+    userId: string,
+    query: ConversationMessagesQueryInput
+  ): Promise<{
+    conversation: ChatConversation;
+    messages: ChatMessage[];
+    hasMore: boolean;
+  }> {
+    const { limit = 50, before } = query;
+    const conversation = await this.findConversation(id, userId);
+
+    const messages = await prisma.chatMessage.findMany({
+      where: {
+        conversationId: id,
+        ...(before && { createdAt: { lt: before } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit + 1,
+    });
+
+    return {
+      conversation,
+      messages: messages.slice(0, limit).reverse(),
+      hasMore: messages.length > limit,
+    };
+  }
+
+  /**
+   * Rename or archive a conversation
+   */
+  static async updateConversation(
+    id: string,
+    data: UpdateConversationInput,
+    userId: string
+  ): Promise<ChatConversation> {
+    await this.findConversation(id, userId);
+
+    const conversation = await prisma.chatConversation.update({
+      where: { id },
       data: {
-        userId,
-        message: data.message, // Store original user message for context
-        response: aiResponseContent,
-        language: data.language,
-        messageType: data.messageType,
-        metadata: data.context ? JSON.stringify(data.context) : null,
+        title: data.title,
+        archived: data.archived,
       },
     });
 
+    log.info('Chat conversation updated', { conversationId: id, userId });
+
+    return conversation;
+  }
+
+  /**
+   * Delete a conversation and its messages
+   */
+  static async deleteConversation(id: string, userId: string): Promise<void> {
+    await this.findConversation(id, userId);
+
+    await prisma.chatConversation.delete({
+      where: { id },
+    });
+
+    log.info('Chat conversation deleted', { conversationId: id, userId });
+  }
+
+  /**
+   * Check a message and look up the conversation it continues, with that
+   * conversation's latest exchanges as context
+   */
+  private static async prepareMessage(
+    data: SendMessageInput,
+    userId?: string
+  ): Promise<{
+    conversation: ChatConversation | null;
+    conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
+  }> {
+    // Validate message content
+    if (!OpenAIService.validateMessageContent(data.message)) {
+      throw new ValidationError('Invalid message content');
+    }
+
+    if (data.conversationId && !userId) {
+      throw new ForbiddenError('Sign in to continue a conversation');
+    }
+
+    const conversation = data.conversationId
+      ? await this.findConversation(data.conversationId, userId!)
+      : null;
+
+    // Context is the conversation so far, never the user's other conversations
+    const conversationHistory = conversation
+      ? await this.getContextMessages(conversation.id)
+      : [];
+
+    return { conversation, conversationHistory };
+  }
+
+  /**
+   * Store a message and its response, starting a conversation for signed-in
+   * users who are not continuing one
+   */
+  private static async saveExchange(
+    data: SendMessageInput,
+    userId: string | undefined,
+    existing: ChatConversation | null,
+    response: string,
+    details?: Record<string, unknown>
+  ): Promise<{
+    conversation: ChatConversation | null;
+    message: ChatMessage;
+  }> {
+    let conversation = existing;
+    const metadata = data.context || details ? { ...data.context, ...details } : null;
+
+    const message = await prisma.$transaction(async (tx) => {
+      if (!conversation && userId) {
+        conversation = await tx.chatConversation.create({
+          data: {
+            userId,
+            title: this.titleFromMessage(data.message),
+            language: data.language,
+          },
+        });
+      }
+
+      // The message and its response are stored together, as one exchange
+      const created = await tx.chatMessage.create({
+        data: {
+          userId,
+          conversationId: conversation?.id,
+          message: data.message,
+          response,
+          language: data.language,
+          messageType: data.messageType,
+          metadata: metadata ? JSON.stringify(metadata) : null,
+        },
+      });
+
+      if (conversation) {
+        conversation = await tx.chatConversation.update({
+          where: { id: conversation.id },
+          data: { lastMessageAt: created.createdAt, archived: false },
+        });
+      }
+
+      return created;
+    });
+
     log.info('Chat message processed', {
       userId,
-      messageId: userMessage.id,
-      responseId: aiResponse.id,
+      conversationId: conversation?.id,
+      messageId: message.id,
       language: data.language,
       messageType: data.messageType,
     });
 
     return {
-      userMessage,
-      aiResponse,
+      conversation,
+      message,
     };
   }
 
+  /**
+   * Get a user's own conversation
+   */
+  private static async findConversation(id: string, userId: string): Promise<ChatConversation> {
+    const conversation = await prisma.chatConversation.findUnique({
+      where: { id },
+    });
+
+    // Other users' conversations are reported as missing, not forbidden
+    if (!conversation || conversation.userId !== userId) {
+      throw new NotFoundError('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  /**
+   * The latest exchanges of a conversation as chat turns, oldest first
+   */
+  private static async getContextMessages(
+    conversationId: string
+  ): Promise<Array<{ role: 'user' | 'assistant'; content: string }>> {
+    const exchanges = await prisma.chatMessage.findMany({
+      where: { conversationId },
+      orderBy: { createdAt: 'desc' },
+      take: CONTEXT_EXCHANGES,
+    });
+
+    return exchanges.reverse().flatMap(exchange => [
+      { role: 'user' as const, content: exchange.message },
+      ...(exchange.response ? [{ role: 'assistant' as const, content: exchange.response }] : []),
+    ]);
+  }
+
+  /**
+   * A conversation title from its first message
+   */
+  private static titleFromMessage(message: string): string {
+    const text = message.replace(/\s+/g, ' ').trim();
+    if (text.length <= TITLE_LENGTH) {
+      return text;
+    }
+
+    const cut = text.slice(0, TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+  }
+
   /**
    * Get chat messages with filtering and pagination
    */
@@ -176,7 +582,7 @@ export class ChatService {
   }
 
   /**
-   * Get recent messages for conversation context
+   * Get a user's recent messages across their conversations
    */
   static async getRecentMessages(
     userId: string, 
@@ -281,12 +687,13 @@ export class ChatService {
   }
 
   /**
-   * Clear all messages for a user
+   * Clear all messages and conversations for a user
    */
   static async clearUserMessages(userId: string): Promise<void> {
-    const deletedCount = await prisma.chatMessage.deleteMany({
-      where: { userId },
-    });
+    const [deletedCount] = await prisma.$transaction([
+      prisma.chatMessage.deleteMany({ where: { userId } }),
+      prisma.chatConversation.deleteMany({ where: { userId } }),
+    ]);
 
     log.info('User chat messages cleared', { 
       userId, 
@@ -501,6 +908,7 @@ export class ChatService {
       totalMessages: messages.length,
       messages: messages.map(msg => ({
         id: msg.id,
+        conversationId: msg.conversationId,
         message: msg.message,
         response: msg.response,
         language: msg.language,
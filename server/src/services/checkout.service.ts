@@ -0,0 +1,563 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { CreateCheckoutSessionInput, PayCheckoutSessionInput } from '../schemas/checkout.schemas';
+import { NotFoundError, ForbiddenError, ValidationError, ConflictError } from '../middlewares/error.middleware';
+import { log } from '../utils/logger';
+import { config } from '../config';
+import { BookingService } from './booking.service';
+import { CartService, PricedCartItem } from './cart.service';
+import { CurrencyService, ExchangeRateInfo } from './currency.service';
+import { DepartureService } from './departure.service';
+import { EmailService } from './email.service';
+import { OrderService } from './order.service';
+import { PaymentService, InitializedPayment } from './payment.service';
+import { PromoService } from './promo.service';
+import { WaitlistService } from './waitlist.service';
+
+const prisma = new PrismaClient();
+
+// Payments still waiting on the gateway
+const OPEN_PAYMENT_STATUSES = ['PENDING', 'PROCESSING'];
+
+// Ways a session ends without being paid, releasing everything it holds
+export type CheckoutReleaseStatus = 'FAILED' | 'CANCELLED' | 'EXPIRED';
+
+export const CHECKOUT_SESSION_INCLUDE = Prisma.validator<Prisma.CheckoutSessionInclude>()({
+  bookings: {
+    include: {
+      tour: { select: { title: true, slug: true } },
+      participants: { orderBy: { position: 'asc' } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  order: true,
+  payments: {
+    include: { allocations: true },
+    orderBy: { createdAt: 'desc' },
+  },
+});
+
+export type CheckoutSessionDetails = Prisma.CheckoutSessionGetPayload<{ include: typeof CHECKOUT_SESSION_INCLUDE }>;
+
+/**
+ * The share of a session's total that pays for one booking or its order
+ */
+export interface CheckoutAllocation {
+  bookingId?: string;
+  orderId?: string;
+  amount: number;
+}
+
+export class CheckoutService {
+  private static expiryTimer?: NodeJS.Timeout;
+
+  /**
+   * Split a discount across item totals in proportion to them. The last item takes the
+   * rounding remainder so the shares add up to the discount exactly.
+   */
+  private static spreadDiscount(totals: number[], discount: number, currency: string): number[] {
+    const subtotal = totals.reduce((sum, total) => sum + total, 0);
+    if (discount <= 0 || subtotal <= 0) {
+      return totals.map(() => 0);
+    }
+
+    let remaining = discount;
+    return totals.map((total, index) => {
+      const share = index === totals.length - 1
+        ? remaining
+        : CurrencyService.roundAmount(discount * (total / subtotal), currency);
+      remaining = CurrencyService.roundAmount(remaining - share, currency);
+      return share;
+    });
+  }
+
+  /**
+   * Check out the user's cart: re-price it, then hold seats for every tour and stock for every
+   * product in one transaction, so either everything is held or nothing is. The holds last
+   * until the session is paid, its payment fails, or it expires.
+   */
+  static async createSession(userId: string, data: CreateCheckoutSessionInput): Promise<CheckoutSessionDetails> {
+    const cart = await CartService.getCart({ userId }, data.currency);
+
+    if (cart.items.length === 0) {
+      throw new ValidationError('Your cart is empty');
+    }
+
+    if (!cart.valid) {
+      throw new ValidationError(`Some items in your cart can no longer be booked: ${cart.issues.join('; ')}`);
+    }
+
+    if (cart.promoCode && !cart.promo?.valid) {
+      throw new ValidationError(cart.promo?.message || 'Invalid promo code');
+    }
+
+    const { currency } = cart;
+    const tourItems = cart.items.filter((item) => item.type === 'TOUR');
+    const productItems = cart.items.filter((item) => item.type === 'PRODUCT');
+
+    const travellers = new Map(data.bookings.map((booking) => [booking.cartItemId, booking]));
+    for (const item of tourItems) {
+      const booking = travellers.get(item.id);
+
+      if (!booking) {
+        throw new ValidationError(`Traveller details are missing for ${item.name}`);
+      }
+
+      if (booking.participants.length < item.adults!) {
+        throw new ValidationError(`Add a traveller for every adult on ${item.name}`);
+      }
+    }
+
+    if (productItems.length > 0 && !data.shippingAddress) {
+      throw new ValidationError('A shipping address is required for products');
+    }
+
+    // The discount is shared by every item; products then carry the marketplace's tax and shipping
+    const discounts = this.spreadDiscount(cart.items.map((item) => item.total), cart.discount, currency);
+    const discountOf = (item: PricedCartItem) => discounts[cart.items.indexOf(item)];
+
+    const tours = await prisma.tour.findMany({
+      where: { id: { in: tourItems.map((item) => item.tourId!) } },
+      select: { id: true, currency: true },
+    });
+    const rates = new Map<string, ExchangeRateInfo>();
+    for (const tourCurrency of new Set(tours.map((tour) => tour.currency))) {
+      rates.set(tourCurrency, await CurrencyService.getRate(tourCurrency, currency));
+    }
+
+    let orderTotals: Awaited<ReturnType<typeof OrderService.validateCart>> | null = null;
+    let orderRate: ExchangeRateInfo | null = null;
+    let tax = 0;
+    let shipping = 0;
+
+    if (productItems.length > 0) {
+      orderTotals = await OrderService.validateCart({
+        items: productItems.map((item) => ({
+          productId: item.productId!,
+          quantity: item.quantity!,
+          variant: item.variant ?? undefined,
+        })),
+      }, userId);
+
+      if (!orderTotals.valid) {
+        throw new ValidationError(`Cart validation failed: ${orderTotals.errors.join(', ')}`);
+      }
+
+      // Orders are kept in the default currency, like the rest of the marketplace
+      orderRate = await CurrencyService.getRate(config.currency.default, currency);
+      tax = CurrencyService.roundAmount(orderTotals.tax * orderRate.rate, currency);
+      shipping = CurrencyService.roundAmount(orderTotals.shipping * orderRate.rate, currency);
+    }
+
+    const bookingNumbers: string[] = [];
+    for (let i = 0; i < tourItems.length; i++) {
+      bookingNumbers.push(await BookingService.generateBookingNumber());
+    }
+    const orderNumber = orderTotals ? await OrderService.generateOrderNumber() : null;
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + config.checkout.sessionTtlMinutes * 60 * 1000);
+
+    const session = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const created = await tx.checkoutSession.create({
+        data: {
+          userId,
+          currency,
+          subtotal: cart.subtotal,
+          discount: cart.discount,
+          tax,
+          shipping,
+          total: CurrencyService.roundAmount(cart.total + tax + shipping, currency),
+          promoCode: cart.promoCode,
+          expiresAt,
+        },
+      });
+
+      for (const [index, item] of tourItems.entries()) {
+        const tour = tours.find((candidate) => candidate.id === item.tourId)!;
+        const rate = rates.get(tour.currency)!;
+        const traveller = travellers.get(item.id)!;
+        const discount = discountOf(item);
+        const addOnNames = (item.addOns || []).map((addOn) => addOn.name);
+
+        await DepartureService.holdSeats(tx, item.departureId!, item.adults! + item.children!);
+
+        await tx.booking.create({
+          data: {
+            bookingNumber: bookingNumbers[index],
+            userId,
+            tourId: tour.id,
+            departureId: item.departureId,
+            checkoutSessionId: created.id,
+            startDate: item.startDate!,
+            endDate: item.endDate!,
+            adults: item.adults!,
+            children: item.children!,
+            // Kept in the tour's currency; the quote is what this booking's share of the payment is
+            totalPrice: CurrencyService.roundAmount(item.total / rate.rate, tour.currency),
+            discountAmount: CurrencyService.roundAmount(discount / rate.rate, tour.currency),
+            currency: tour.currency,
+            quoteCurrency: currency,
+            quoteAmount: CurrencyService.roundAmount(item.total - discount, currency),
+            quoteRate: rate.rate,
+            quoteRateSource: rate.source,
+            quoteRateFetchedAt: rate.fetchedAt,
+            quoteLockedAt: now,
+            quoteExpiresAt: expiresAt,
+            participants: {
+              create: traveller.participants.map((participant, position) => ({ ...participant, position })),
+            },
+            notes: [traveller.notes, addOnNames.length > 0 ? `Add-ons: ${addOnNames.join(', ')}` : null]
+              .filter(Boolean)
+              .join('\n') || null,
+            specialRequests: item.specialRequests,
+            status: 'PENDING',
+          },
+        });
+      }
+
+      if (orderTotals && orderRate) {
+        const productDiscount = productItems.reduce((sum, item) => sum + discountOf(item), 0);
+        const discount = CurrencyService.roundAmount(productDiscount / orderRate.rate, config.currency.default);
+
+        const order = await tx.order.create({
+          data: {
+            orderNumber: orderNumber!,
+            userId,
+            checkoutSessionId: created.id,
+            subtotal: orderTotals.subtotal,
+            tax: orderTotals.tax,
+            shipping: orderTotals.shipping,
+            discount,
+            total: Math.max(0, orderTotals.subtotal + orderTotals.tax + orderTotals.shipping - discount),
+            status: 'PENDING',
+            shippingAddress: JSON.stringify(data.shippingAddress),
+            billingAddress: JSON.stringify(data.billingAddress || data.shippingAddress),
+            notes: data.notes,
+          },
+        });
+
+        for (const item of orderTotals.items) {
+          await tx.orderItem.create({
+            data: {
+              orderId: order.id,
+              productId: item.productId,
+              quantity: item.quantity,
+              price: item.price,
+              total: item.total,
+              variant: item.variant || null,
+            },
+          });
+
+          // Only take stock that is still there, another checkout may have sold it meanwhile
+          const reserved = await tx.product.updateMany({
+            where: { id: item.productId, stock: { gte: item.quantity } },
+            data: { stock: { decrement: item.quantity } },
+          });
+
+          if (reserved.count === 0) {
+            throw new ConflictError(`${item.product.name} sold out while you were checking out`);
+          }
+        }
+      }
+
+      return created;
+    });
+
+    log.info('Checkout session created', {
+      sessionId: session.id,
+      userId,
+      bookings: tourItems.length,
+      products: productItems.length,
+      total: Number(session.total),
+      currency,
+    });
+
+    return this.getSession(session.id, userId);
+  }
+
+  /**
+   * Get a checkout session of the user
+   */
+  static async getSession(id: string, userId: string): Promise<CheckoutSessionDetails> {
+    const session = await prisma.checkoutSession.findUnique({
+      where: { id },
+      include: CHECKOUT_SESSION_INCLUDE,
+    });
+
+    if (!session) {
+      throw new NotFoundError('Checkout session not found');
+    }
+
+    if (session.userId !== userId) {
+      throw new ForbiddenError('You do not have permission to access this checkout');
+    }
+
+    return session;
+  }
+
+  /**
+   * Start paying for a session with any provider
+   */
+  static async pay(id: string, data: PayCheckoutSessionInput, userId: string): Promise<InitializedPayment> {
+    const session = await this.getSession(id, userId);
+
+    if (session.status !== 'PENDING') {
+      throw new ValidationError(`This checkout is ${session.status.toLowerCase()}, please check out again`);
+    }
+
+    if (session.expiresAt <= new Date()) {
+      throw new ValidationError('This checkout has expired, please check out again');
+    }
+
+    const { method, ...details } = data;
+    return PaymentService.initializePayment(method, { ...details, checkoutSessionId: id }, userId);
+  }
+
+  /**
+   * The session a payment is for, with how its total splits across the bookings and order.
+   * Each booking gets its locked quote and the order the rest, so the shares add up exactly.
+   */
+  static async getPayableSession(id: string, userId: string): Promise<{
+    session: CheckoutSessionDetails;
+    allocations: CheckoutAllocation[];
+  }> {
+    const session = await this.getSession(id, userId);
+
+    if (session.status !== 'PENDING' || session.expiresAt <= new Date()) {
+      throw new ValidationError('This checkout can no longer be paid, please check out again');
+    }
+
+    if (session.payments.some((payment) => payment.status === 'COMPLETED')) {
+      throw new ValidationError('This checkout has already been paid');
+    }
+
+    const allocations: CheckoutAllocation[] = session.bookings.map((booking) => ({
+      bookingId: booking.id,
+      amount: Number(booking.quoteAmount),
+    }));
+
+    if (session.order) {
+      const booked = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+      allocations.push({
+        orderId: session.order.id,
+        amount: CurrencyService.roundAmount(Number(session.total) - booked, session.currency),
+      });
+    }
+
+    return { session, allocations };
+  }
+
+  /**
+   * Confirm everything a paid session holds and redeem its promo code, once
+   */
+  static async completeSession(id: string): Promise<void> {
+    const session = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const updated = await tx.checkoutSession.updateMany({
+        where: { id, status: 'PENDING' },
+        data: { status: 'COMPLETED' },
+      });
+
+      // Already completed, or released before the payment came through
+      if (updated.count === 0) {
+        return null;
+      }
+
+      const completed = await tx.checkoutSession.findUniqueOrThrow({
+        where: { id },
+        include: { bookings: { orderBy: { createdAt: 'asc' } }, order: true },
+      });
+
+      await tx.booking.updateMany({
+        where: { checkoutSessionId: id, status: 'PENDING' },
+        data: { status: 'CONFIRMED' },
+      });
+
+      if (completed.order) {
+        await tx.order.update({
+          where: { id: completed.order.id },
+          data: { status: 'PROCESSING' },
+        });
+      }
+
+      // One redemption for the whole checkout, recorded against its first booking or its order
+      if (completed.promoCode) {
+        const [firstBooking] = completed.bookings;
+        await PromoService.redeem(tx, {
+          code: completed.promoCode,
+          userId: completed.userId,
+          ...(firstBooking ? { bookingId: firstBooking.id } : { orderId: completed.order?.id }),
+          discountAmount: Number(completed.discount),
+          orderAmount: Number(completed.subtotal),
+        });
+      }
+
+      return completed;
+    });
+
+    if (!session) {
+      const current = await prisma.checkoutSession.findUnique({ where: { id } });
+
+      if (current && current.status !== 'COMPLETED') {
+        log.error('Payment completed for a released checkout session', { sessionId: id, status: current.status });
+        await EmailService.sendAdminNotification(
+          'Payment Received For Released Checkout',
+          `A payment completed after checkout ${id} was ${current.status.toLowerCase()}, its holds are gone and it needs a refund`,
+          { sessionId: id, userId: current.userId, total: Number(current.total), currency: current.currency }
+        ).catch((error) => log.error('Failed to notify admins', { sessionId: id, error: error.message }));
+      }
+      return;
+    }
+
+    await CartService.clearCart({ userId: session.userId });
+
+    log.info('Checkout session completed', {
+      sessionId: id,
+      userId: session.userId,
+      bookings: session.bookings.length,
+      orderId: session.order?.id,
+    });
+  }
+
+  /**
+   * Release every seat and product a session holds and cancel its bookings and order, in one
+   * transaction. Returns false when the session was no longer pending, or when it was to expire
+   * but a payment for it is still open at the gateway.
+   */
+  static async releaseSession(id: string, status: CheckoutReleaseStatus): Promise<boolean> {
+    const departureIds = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const updated = await tx.checkoutSession.updateMany({
+        where: {
+          id,
+          status: 'PENDING',
+          ...(status === 'EXPIRED' && { payments: { none: { status: { in: OPEN_PAYMENT_STATUSES } } } }),
+        },
+        data: { status },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      const bookings = await tx.booking.findMany({
+        where: { checkoutSessionId: id },
+      });
+
+      for (const booking of bookings) {
+        await DepartureService.releaseBookingSeats(tx, booking);
+        await tx.booking.update({
+          where: { id: booking.id },
+          data: { status: 'CANCELLED' },
+        });
+      }
+
+      const order = await tx.order.findUnique({
+        where: { checkoutSessionId: id },
+      });
+
+      if (order && order.status === 'PENDING') {
+        const items = await tx.orderItem.findMany({
+          where: { orderId: order.id },
+        });
+
+        for (const item of items) {
+          await tx.product.update({
+            where: { id: item.productId },
+            data: { stock: { increment: item.quantity } },
+          });
+        }
+
+        await tx.order.update({
+          where: { id: order.id },
+          data: { status: 'CANCELLED' },
+        });
+      }
+
+      return bookings.map((booking) => booking.departureId).filter((departureId): departureId is string => !!departureId);
+    });
+
+    if (!departureIds) {
+      return false;
+    }
+
+    for (const departureId of new Set(departureIds)) {
+      await WaitlistService.offerReleasedSeats(departureId);
+    }
+
+    log.info('Checkout session released', { sessionId: id, status });
+
+    return true;
+  }
+
+  /**
+   * Abandon a session before paying, giving its holds back
+   */
+  static async cancelSession(id: string, userId: string): Promise<CheckoutSessionDetails> {
+    const session = await this.getSession(id, userId);
+
+    if (session.status !== 'PENDING') {
+      throw new ValidationError(`Cannot cancel a checkout with status: ${session.status}`);
+    }
+
+    if (session.payments.some((payment) => OPEN_PAYMENT_STATUSES.includes(payment.status))) {
+      throw new ConflictError('A payment for this checkout is in progress');
+    }
+
+    await this.releaseSession(id, 'CANCELLED');
+
+    return this.getSession(id, userId);
+  }
+
+  /**
+   * Release sessions that were not paid in time. Like cancelSession, this leaves a session alone
+   * while a payment for it is in progress: the payment's outcome completes or releases it.
+   */
+  static async expireSessions(now: Date = new Date()): Promise<number> {
+    const expired = await prisma.checkoutSession.findMany({
+      where: {
+        status: 'PENDING',
+        expiresAt: { lte: now },
+        payments: { none: { status: { in: OPEN_PAYMENT_STATUSES } } },
+      },
+      select: { id: true },
+    });
+
+    let count = 0;
+    for (const session of expired) {
+      if (await this.releaseSession(session.id, 'EXPIRED')) {
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Periodically release unpaid sessions
+   */
+  static startExpiryWorker(intervalMs: number = config.checkout.sweepIntervalMs): void {
+    if (this.expiryTimer) {
+      return;
+    }
+
+    this.expiryTimer = setInterval(() => {
+      this.expireSessions().catch((error) => {
+        log.error('Checkout expiry sweep failed', error);
+      });
+    }, intervalMs);
+
+    // Do not keep the process alive just for the sweep
+    this.expiryTimer.unref();
+
+    log.info('Checkout expiry worker started', { intervalMs });
+  }
+
+  /**
+   * Stop the expiry worker
+   */
+  static stopExpiryWorker(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,319 @@
+import fs from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import { PrismaClient, Prisma, ExchangeRate } from '@prisma/client';
+import { ValidationError } from '../middlewares/error.middleware';
+import { config } from '../config';
+import { log } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+/**
+ * Rates published by a provider: 1 `base` = rates[code] of each currency
+ */
+export interface RateSnapshot {
+  base: string;
+  rates: Record<string, number>;
+  fetchedAt: Date;
+}
+
+export interface ExchangeRateProvider {
+  readonly name: string;
+  fetchRates(base: string): Promise<RateSnapshot>;
+}
+
+export interface ExchangeRateInfo {
+  rate: number;
+  source: string;
+  fetchedAt: Date;
+}
+
+export interface CurrencyConversion extends ExchangeRateInfo {
+  amount: number;
+  currency: string;
+  baseAmount: number;
+  baseCurrency: string;
+}
+
+// Stored rates keep 8 decimal places
+const RATE_PRECISION = 8;
+
+const roundRate = (rate: number) => Number(rate.toFixed(RATE_PRECISION));
+
+/**
+ * Rates from a JSON file of the form { base, fetchedAt, rates: { CODE: rate } }, for development
+ * and tests. Rates against another base are derived through the file's own base.
+ */
+export class FileRateProvider implements ExchangeRateProvider {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async fetchRates(base: string): Promise<RateSnapshot> {
+    const contents = JSON.parse(await fs.readFile(path.resolve(this.filePath), 'utf8'));
+    const rates: Record<string, number> = contents.rates || {};
+    const fileBase = String(contents.base || 'USD').toUpperCase();
+    const baseRate = fileBase === base ? 1 : rates[base];
+
+    if (!baseRate) {
+      throw new Error(`Rates file has no rate for ${base}`);
+    }
+
+    return {
+      base,
+      rates: Object.fromEntries(
+        Object.entries(rates).map(([code, rate]) => [code.toUpperCase(), Number(rate) / baseRate])
+      ),
+      fetchedAt: contents.fetchedAt ? new Date(contents.fetchedAt) : new Date(),
+    };
+  }
+}
+
+/**
+ * Rates from exchangerate-api.com
+ */
+export class HttpRateProvider implements ExchangeRateProvider {
+  readonly name = 'exchangerate-api';
+
+  constructor(private readonly apiUrl: string, private readonly apiKey: string) {}
+
+  async fetchRates(base: string): Promise<RateSnapshot> {
+    const response = await axios.get(`${this.apiUrl}/${this.apiKey}/latest/${base}`, { timeout: 10000 });
+
+    if (response.data?.result !== 'success') {
+      throw new Error(`Rate provider error: ${response.data?.['error-type'] || 'unknown'}`);
+    }
+
+    return {
+      base,
+      rates: response.data.conversion_rates,
+      fetchedAt: new Date(response.data.time_last_update_unix * 1000),
+    };
+  }
+}
+
+export class CurrencyService {
+  private static provider?: ExchangeRateProvider;
+  private static refreshTimer?: NodeJS.Timeout;
+
+  /**
+   * Use another rate provider, e.g. a fixed one in tests
+   */
+  static setRateProvider(provider: ExchangeRateProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * The configured rate provider
+   */
+  static getRateProvider(): ExchangeRateProvider {
+    if (!this.provider) {
+      this.provider = config.currency.rateProvider === 'http'
+        ? new HttpRateProvider(config.currency.ratesApiUrl, config.external.currency.apiKey)
+        : new FileRateProvider(config.currency.ratesFile);
+    }
+    return this.provider;
+  }
+
+  static getSupportedCurrencies(): string[] {
+    return config.currency.supported;
+  }
+
+  static isSupported(currency: string): boolean {
+    return config.currency.supported.includes(currency.toUpperCase());
+  }
+
+  /**
+   * Number of decimal places a currency is charged in, e.g. 2 for USD and ETB
+   */
+  static getMinorUnits(currency: string): number {
+    try {
+      return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      return 2;
+    }
+  }
+
+  static roundAmount(amount: number, currency: string): number {
+    const factor = 10 ** this.getMinorUnits(currency);
+    return Math.round(amount * factor) / factor;
+  }
+
+  /**
+   * Fetch the latest rates from the provider and store those between supported currencies
+   */
+  static async refreshRates(): Promise<number> {
+    const provider = this.getRateProvider();
+    const base = config.currency.default;
+    const snapshot = await provider.fetchRates(base);
+
+    const quotes = Object.entries(snapshot.rates).filter(([code, rate]) =>
+      code !== base && this.isSupported(code) && Number.isFinite(rate) && rate > 0
+    );
+
+    await prisma.$transaction(
+      quotes.map(([quoteCurrency, rate]) =>
+        prisma.exchangeRate.upsert({
+          where: { baseCurrency_quoteCurrency: { baseCurrency: base, quoteCurrency } },
+          create: {
+            baseCurrency: base,
+            quoteCurrency,
+            rate: new Prisma.Decimal(roundRate(rate)),
+            source: provider.name,
+            fetchedAt: snapshot.fetchedAt,
+          },
+          update: {
+            rate: new Prisma.Decimal(roundRate(rate)),
+            source: provider.name,
+            fetchedAt: snapshot.fetchedAt,
+          },
+        })
+      )
+    );
+
+    log.info('Exchange rates refreshed', { provider: provider.name, base, count: quotes.length });
+
+    return quotes.length;
+  }
+
+  /**
+   * Rate to convert `from` into `to`, directly, inverted or through a common base currency
+   */
+  static async getRate(from: string, to: string): Promise<ExchangeRateInfo> {
+    return this.resolveRate(await this.loadRates(), from, to);
+  }
+
+  /**
+   * Convert an amount, rounded to the minor units of the target currency
+   */
+  static async convert(amount: number, from: string, to: string): Promise<CurrencyConversion> {
+    const rate = await this.getRate(from, to);
+    const currency = to.toUpperCase();
+
+    return {
+      ...rate,
+      amount: this.roundAmount(amount * rate.rate, currency),
+      currency,
+      baseAmount: amount,
+      baseCurrency: from.toUpperCase(),
+    };
+  }
+
+  /**
+   * Rates from one currency into every supported currency
+   */
+  static async getRates(base: string = config.currency.default): Promise<{
+    base: string;
+    rates: Record<string, number>;
+    fetchedAt: Date | null;
+  }> {
+    const rows = await this.loadRates();
+    const rates: Record<string, number> = {};
+    let fetchedAt: Date | null = null;
+
+    for (const currency of this.getSupportedCurrencies()) {
+      const rate = this.resolveRate(rows, base, currency);
+      rates[currency] = rate.rate;
+      if (currency !== base.toUpperCase() && (!fetchedAt || rate.fetchedAt < fetchedAt)) {
+        fetchedAt = rate.fetchedAt;
+      }
+    }
+
+    return { base: base.toUpperCase(), rates, fetchedAt };
+  }
+
+  /**
+   * Stored rates, fetched once if there are none yet
+   */
+  private static async loadRates(): Promise<ExchangeRate[]> {
+    const rows = await prisma.exchangeRate.findMany();
+    if (rows.length > 0) {
+      return rows;
+    }
+
+    await this.refreshRates();
+    return prisma.exchangeRate.findMany();
+  }
+
+  private static resolveRate(rows: ExchangeRate[], from: string, to: string): ExchangeRateInfo {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+
+    if (source === target) {
+      return { rate: 1, source: 'identity', fetchedAt: new Date() };
+    }
+
+    for (const currency of [source, target]) {
+      if (!this.isSupported(currency)) {
+        throw new ValidationError(`Currency ${currency} is not supported`);
+      }
+    }
+
+    const find = (base: string, quote: string) =>
+      rows.find((row) => row.baseCurrency === base && row.quoteCurrency === quote);
+    const rateOf = (base: string, quote: string): ExchangeRateInfo | null => {
+      const direct = find(base, quote);
+      if (direct) {
+        return { rate: Number(direct.rate), source: direct.source, fetchedAt: direct.fetchedAt };
+      }
+      const inverse = find(quote, base);
+      if (inverse) {
+        return { rate: 1 / Number(inverse.rate), source: inverse.source, fetchedAt: inverse.fetchedAt };
+      }
+      return null;
+    };
+
+    const direct = rateOf(source, target);
+    if (direct) {
+      return { ...direct, rate: roundRate(direct.rate) };
+    }
+
+    for (const base of new Set(rows.map((row) => row.baseCurrency))) {
+      const toSource = rateOf(base, source);
+      const toTarget = rateOf(base, target);
+      if (toSource && toTarget) {
+        return {
+          rate: roundRate(toTarget.rate / toSource.rate),
+          source: toTarget.source,
+          // A cross rate is only as fresh as its older leg
+          fetchedAt: toSource.fetchedAt < toTarget.fetchedAt ? toSource.fetchedAt : toTarget.fetchedAt,
+        };
+      }
+    }
+
+    throw new ValidationError(`No exchange rate from ${source} to ${target}`);
+  }
+
+  /**
+   * Start refreshing rates periodically
+   */
+  static startRefreshWorker(intervalMs: number = config.currency.refreshIntervalMs): void {
+    if (this.refreshTimer) {
+      return;
+    }
+
+    const refresh = () => {
+      this.refreshRates().catch((error) => {
+        log.error('Exchange rate refresh failed', error);
+      });
+    };
+
+    refresh();
+    this.refreshTimer = setInterval(refresh, intervalMs);
+
+    // Do not keep the process alive just for the refresh
+    this.refreshTimer.unref();
+
+    log.info('Exchange rate refresh worker started', { intervalMs });
+  }
+
+  /**
+   * Stop the refresh worker
+   */
+  static stopRefreshWorker(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,365 @@
+import { PrismaClient, Prisma, Tour, TourDeparture } from '@prisma/client';
+import {
+  CreateDepartureInput,
+  UpdateDepartureInput,
+  DepartureQueryInput,
+} from '../schemas/departure.schemas';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from '../middlewares/error.middleware';
+import { log } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// Departure statuses that still accept new bookings
+const BOOKABLE_STATUSES = ['OPEN', 'GUARANTEED'];
+
+// Booking statuses that no longer occupy seats on their departure
+export const SEAT_RELEASING_STATUSES = ['CANCELLED', 'REFUNDED'];
+
+// Children pay half the adult price unless the departure sets its own child price
+const DEFAULT_CHILD_PRICE_RATIO = 0.5;
+
+export interface DepartureAvailability {
+  available: boolean;
+  reason?: string;
+  departureId: string | null;
+  status: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  cutoffAt: Date | null;
+  capacity: number;
+  seatsBooked: number;
+  spotsLeft: number;
+  isFullyBooked: boolean;
+  price: number;
+  childPrice: number;
+}
+
+export class DepartureService {
+  /**
+   * Seats still free on a departure
+   */
+  static getSeatsLeft(departure: Pick<TourDeparture, 'capacity' | 'seatsBooked'>): number {
+    return Math.max(departure.capacity - departure.seatsBooked, 0);
+  }
+
+  /**
+   * Check whether a departure accepts bookings right now
+   */
+  static getBookability(
+    departure: Pick<TourDeparture, 'status' | 'startDate' | 'cutoffAt'>,
+    now: Date = new Date()
+  ): { bookable: boolean; reason?: string } {
+    if (!BOOKABLE_STATUSES.includes(departure.status)) {
+      return { bookable: false, reason: `Departure is ${departure.status.toLowerCase()}` };
+    }
+
+    if (departure.startDate <= now) {
+      return { bookable: false, reason: 'Departure has already started' };
+    }
+
+    if (departure.cutoffAt && departure.cutoffAt <= now) {
+      return { bookable: false, reason: 'Booking cutoff for this departure has passed' };
+    }
+
+    return { bookable: true };
+  }
+
+  /**
+   * Resolve the adult and child price for a departure
+   */
+  static getPricing(
+    departure: Pick<TourDeparture, 'price' | 'childPrice'> | null,
+    tour: Pick<Tour, 'price' | 'discountPrice'>
+  ): { price: number; childPrice: number } {
+    const basePrice = Number(tour.discountPrice ?? tour.price);
+    const price = departure?.price != null ? Number(departure.price) : basePrice;
+    const childPrice = departure?.childPrice != null
+      ? Number(departure.childPrice)
+      : price * DEFAULT_CHILD_PRICE_RATIO;
+
+    return { price, childPrice };
+  }
+
+  /**
+   * List departures for a tour
+   */
+  static async listDepartures(tourId: string, query: Partial<DepartureQueryInput> = {}): Promise<TourDeparture[]> {
+    const where: Prisma.TourDepartureWhereInput = { tourId };
+
+    where.startDate = { gte: query.from || new Date() };
+    if (query.to) {
+      where.startDate.lte = query.to;
+    }
+
+    if (query.status) {
+      where.status = query.status;
+    } else if (!query.includeUnavailable) {
+      where.status = { in: BOOKABLE_STATUSES };
+    }
+
+    return prisma.tourDeparture.findMany({
+      where,
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  /**
+   * Get a departure, optionally scoped to a tour
+   */
+  static async getDepartureById(id: string, tourId?: string, client: DbClient = prisma): Promise<TourDeparture> {
+    const departure = await client.tourDeparture.findUnique({
+      where: { id },
+    });
+
+    if (!departure || (tourId && departure.tourId !== tourId)) {
+      throw new NotFoundError('Departure not found');
+    }
+
+    return departure;
+  }
+
+  /**
+   * Find the departure of a tour that starts on the given calendar day (UTC)
+   */
+  static async findDepartureForDate(
+    tourId: string,
+    date: Date,
+    client: DbClient = prisma
+  ): Promise<TourDeparture | null> {
+    const dayStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    const departures = await client.tourDeparture.findMany({
+      where: {
+        tourId,
+        startDate: { gte: dayStart, lt: dayEnd },
+        status: { not: 'CANCELLED' },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    // Prefer a departure that can still be booked when several leave on the same day
+    return departures.find((departure) => this.getBookability(departure).bookable) || departures[0] || null;
+  }
+
+  /**
+   * Create a departure for a tour
+   */
+  static async createDeparture(tourId: string, data: CreateDepartureInput): Promise<TourDeparture> {
+    const tour = await prisma.tour.findUnique({
+      where: { id: tourId },
+      select: { id: true, duration: true, maxGroupSize: true },
+    });
+
+    if (!tour) {
+      throw new NotFoundError('Tour not found');
+    }
+
+    const startDate = new Date(data.startDate);
+    const endDate = data.endDate
+      ? new Date(data.endDate)
+      : new Date(startDate.getTime() + tour.duration * 24 * 60 * 60 * 1000);
+
+    const departure = await prisma.tourDeparture.create({
+      data: {
+        tourId,
+        startDate,
+        endDate,
+        capacity: data.capacity ?? tour.maxGroupSize,
+        price: data.price,
+        childPrice: data.childPrice,
+        cutoffAt: data.cutoffAt ? new Date(data.cutoffAt) : undefined,
+        status: data.status,
+        notes: data.notes,
+      },
+    });
+
+    log.info('Tour departure created', { departureId: departure.id, tourId, startDate });
+
+    return departure;
+  }
+
+  /**
+   * Update a departure
+   */
+  static async updateDeparture(
+    tourId: string,
+    departureId: string,
+    data: UpdateDepartureInput
+  ): Promise<TourDeparture> {
+    const existing = await this.getDepartureById(departureId, tourId);
+
+    if (data.capacity !== undefined && data.capacity < existing.seatsBooked) {
+      throw new ValidationError(
+        `Capacity cannot be lower than the ${existing.seatsBooked} seats already booked`
+      );
+    }
+
+    if ((data.startDate || data.endDate) && existing.seatsBooked > 0) {
+      throw new ValidationError('Cannot reschedule a departure that already has bookings');
+    }
+
+    const departure = await prisma.tourDeparture.update({
+      where: { id: departureId },
+      data: {
+        ...data,
+        startDate: data.startDate ? new Date(data.startDate) : undefined,
+        endDate: data.endDate ? new Date(data.endDate) : undefined,
+        cutoffAt: data.cutoffAt === null ? null : data.cutoffAt ? new Date(data.cutoffAt) : undefined,
+      },
+    });
+
+    log.info('Tour departure updated', { departureId, tourId, status: departure.status });
+
+    return departure;
+  }
+
+  /**
+   * Check availability for a departure, either by id or by start date
+   */
+  static async checkAvailability(
+    tourId: string,
+    params: { departureId?: string; startDate?: string | Date; adults: number; children?: number }
+  ): Promise<DepartureAvailability> {
+    const tour = await prisma.tour.findUnique({
+      where: { id: tourId },
+      select: { id: true, status: true, price: true, discountPrice: true },
+    });
+
+    if (!tour) {
+      throw new NotFoundError('Tour not found');
+    }
+
+    if (tour.status !== 'PUBLISHED') {
+      throw new ValidationError('Tour is not available for booking');
+    }
+
+    let departure: TourDeparture | null = null;
+    if (params.departureId) {
+      departure = await this.getDepartureById(params.departureId, tourId);
+    } else if (params.startDate) {
+      departure = await this.findDepartureForDate(tourId, new Date(params.startDate));
+    }
+
+    const requested = params.adults + (params.children || 0);
+    const pricing = this.getPricing(departure, tour);
+
+    if (!departure) {
+      return {
+        available: false,
+        reason: 'No departure is scheduled for the selected date',
+        departureId: null,
+        status: null,
+        startDate: null,
+        endDate: null,
+        cutoffAt: null,
+        capacity: 0,
+        seatsBooked: 0,
+        spotsLeft: 0,
+        isFullyBooked: false,
+        ...pricing,
+      };
+    }
+
+    const spotsLeft = this.getSeatsLeft(departure);
+    const { bookable, reason } = this.getBookability(departure);
+    const hasRoom = requested <= spotsLeft;
+
+    return {
+      available: bookable && hasRoom,
+      reason: !bookable
+        ? reason
+        : !hasRoom
+          ? `Only ${spotsLeft} spots available for this departure`
+          : undefined,
+      departureId: departure.id,
+      status: departure.status,
+      startDate: departure.startDate,
+      endDate: departure.endDate,
+      cutoffAt: departure.cutoffAt,
+      capacity: departure.capacity,
+      seatsBooked: departure.seatsBooked,
+      spotsLeft,
+      isFullyBooked: spotsLeft === 0,
+      ...pricing,
+    };
+  }
+
+  /**
+   * Atomically hold seats on a departure.
+   *
+   * The increment only applies while enough seats are left; MySQL re-evaluates the
+   * WHERE clause under the row lock, so two concurrent checkouts cannot both take
+   * the last seats.
+   */
+  static async holdSeats(tx: DbClient, departureId: string, seats: number): Promise<TourDeparture> {
+    const departure = await this.getDepartureById(departureId, undefined, tx);
+
+    const { bookable, reason } = this.getBookability(departure);
+    if (!bookable) {
+      throw new ValidationError(reason || 'Departure is not available for booking');
+    }
+
+    const result = await tx.tourDeparture.updateMany({
+      where: {
+        id: departureId,
+        status: { in: BOOKABLE_STATUSES },
+        capacity: departure.capacity,
+        seatsBooked: { lte: departure.capacity - seats },
+      },
+      data: {
+        seatsBooked: { increment: seats },
+      },
+    });
+
+    if (result.count === 0) {
+      const current = await this.getDepartureById(departureId, undefined, tx);
+      throw new ConflictError(`Only ${this.getSeatsLeft(current)} spots available for this departure`);
+    }
+
+    return this.getDepartureById(departureId, undefined, tx);
+  }
+
+  /**
+   * Return seats held on a departure to the pool
+   */
+  static async releaseSeats(tx: DbClient, departureId: string, seats: number): Promise<void> {
+    if (seats <= 0) {
+      return;
+    }
+
+    const result = await tx.tourDeparture.updateMany({
+      where: {
+        id: departureId,
+        seatsBooked: { gte: seats },
+      },
+      data: {
+        seatsBooked: { decrement: seats },
+      },
+    });
+
+    if (result.count === 0) {
+      log.warn('Departure seat release skipped, counter lower than released seats', { departureId, seats });
+    }
+  }
+
+  /**
+   * Release the seats a booking holds, if it holds any
+   */
+  static async releaseBookingSeats(
+    tx: DbClient,
+    booking: { departureId: string | null; status: string; adults: number; children: number }
+  ): Promise<void> {
+    if (!booking.departureId || SEAT_RELEASING_STATUSES.includes(booking.status)) {
+      return;
+    }
+
+    await this.releaseSeats(tx, booking.departureId, booking.adults + booking.children);
+  }
+}
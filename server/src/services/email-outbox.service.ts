@@ -0,0 +1,428 @@
+import axios from 'axios';
+import { PrismaClient, Prisma, EmailOutbox, EmailSuppression } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../middlewares/error.middleware';
+import { EmailService, EmailOptions } from './email.service';
+import { calculatePagination, PaginationMeta } from '../utils/response';
+import { config } from '../config';
+import { log } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// How long a worker may take to send one email before another worker may pick it up
+const SEND_LOCK_MS = 5 * 60 * 1000;
+
+export const EMAIL_PROVIDERS = ['sendgrid', 'ses', 'mailgun'] as const;
+export type EmailProvider = typeof EMAIL_PROVIDERS[number];
+
+/**
+ * Bounce or complaint reported by an email provider
+ */
+export interface EmailFeedbackEvent {
+  email: string;
+  reason: 'BOUNCE' | 'COMPLAINT';
+  detail?: string;
+}
+
+export interface EmailOutboxFilters {
+  status?: string;
+  to?: string;
+  page: number;
+  limit: number;
+}
+
+// Outbox listings leave out the message bodies
+const EMAIL_SUMMARY_SELECT = {
+  id: true,
+  to: true,
+  subject: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastError: true,
+  messageId: true,
+  sentAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.EmailOutboxSelect;
+
+export class EmailOutboxService {
+  private static deliveryTimer?: NodeJS.Timeout;
+  private static delivering = false;
+
+  /**
+   * Whether an address bounced or complained and is no longer emailed
+   */
+  static async isSuppressed(email: string, client: DbClient = prisma): Promise<boolean> {
+    const suppression = await client.emailSuppression.findUnique({
+      where: { email: email.trim().toLowerCase() },
+      select: { id: true },
+    });
+    return !!suppression;
+  }
+
+  /**
+   * Send the emails that are due. Failed sends are retried with exponential backoff until
+   * they run out of attempts; SMTP rejections of the address are not retried.
+   */
+  static async deliverDue(now: Date = new Date()): Promise<number> {
+    if (this.delivering) {
+      return 0;
+    }
+    this.delivering = true;
+
+    try {
+      const due = await prisma.emailOutbox.findMany({
+        where: {
+          OR: [
+            { status: 'PENDING', nextAttemptAt: { lte: now } },
+            // Left behind by a worker that stopped mid-send
+            { status: 'SENDING', lockedUntil: { lt: now } },
+          ],
+        },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: config.emailOutbox.batchSize,
+      });
+
+      let sent = 0;
+      for (const email of due) {
+        if (await this.deliver(email, now)) {
+          sent++;
+        }
+      }
+
+      return sent;
+    } finally {
+      this.delivering = false;
+    }
+  }
+
+  /**
+   * Start delivering outbox emails on an interval
+   */
+  static startDeliveryWorker(intervalMs: number = config.emailOutbox.sweepIntervalMs): void {
+    if (this.deliveryTimer) {
+      return;
+    }
+
+    this.deliveryTimer = setInterval(() => {
+      this.deliverDue().catch((error) => {
+        log.error('Email outbox delivery failed', error);
+      });
+    }, intervalMs);
+
+    // Do not keep the process alive just for the outbox
+    this.deliveryTimer.unref();
+
+    log.info('Email outbox worker started', { intervalMs });
+  }
+
+  /**
+   * Stop the delivery worker
+   */
+  static stopDeliveryWorker(): void {
+    if (this.deliveryTimer) {
+      clearInterval(this.deliveryTimer);
+      this.deliveryTimer = undefined;
+    }
+  }
+
+  /**
+   * Outbox emails, newest first
+   */
+  static async listEmails(
+    filters: EmailOutboxFilters
+  ): Promise<{ emails: Prisma.EmailOutboxGetPayload<{ select: typeof EMAIL_SUMMARY_SELECT }>[]; pagination: PaginationMeta }> {
+    const where: Prisma.EmailOutboxWhereInput = {
+      status: filters.status,
+      to: filters.to ? filters.to.trim().toLowerCase() : undefined,
+    };
+
+    const [emails, total] = await Promise.all([
+      prisma.emailOutbox.findMany({
+        where,
+        select: EMAIL_SUMMARY_SELECT,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.emailOutbox.count({ where }),
+    ]);
+
+    return { emails, pagination: calculatePagination(filters.page, filters.limit, total) };
+  }
+
+  /**
+   * An outbox email with its content
+   */
+  static async getEmail(id: string): Promise<EmailOutbox> {
+    const email = await prisma.emailOutbox.findUnique({ where: { id } });
+    if (!email) {
+      throw new NotFoundError('Email not found');
+    }
+    return email;
+  }
+
+  /**
+   * Queue a copy of an outbox email, e.g. one that failed or that the customer lost.
+   * The original keeps its status so the outbox shows what happened to it.
+   */
+  static async resendEmail(id: string): Promise<EmailOutbox> {
+    const email = await this.getEmail(id);
+
+    if (await this.isSuppressed(email.to)) {
+      throw new ValidationError(`${email.to} bounced or complained; remove its suppression before resending`);
+    }
+
+    const copy = await prisma.emailOutbox.create({
+      data: {
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        attachments: email.attachments ?? Prisma.JsonNull,
+      },
+    });
+
+    log.info('Email queued for resending', { emailId: copy.id, originalId: id, to: email.to });
+
+    return copy;
+  }
+
+  /**
+   * Addresses that are no longer emailed, newest first
+   */
+  static async listSuppressions(
+    filters: { email?: string; page: number; limit: number }
+  ): Promise<{ suppressions: EmailSuppression[]; pagination: PaginationMeta }> {
+    const where: Prisma.EmailSuppressionWhereInput = filters.email
+      ? { email: { contains: filters.email.trim().toLowerCase() } }
+      : {};
+
+    const [suppressions, total] = await Promise.all([
+      prisma.emailSuppression.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.emailSuppression.count({ where }),
+    ]);
+
+    return { suppressions, pagination: calculatePagination(filters.page, filters.limit, total) };
+  }
+
+  /**
+   * Email an address again, e.g. after the customer fixed their mailbox
+   */
+  static async removeSuppression(id: string): Promise<void> {
+    const suppression = await prisma.emailSuppression.findUnique({ where: { id } });
+    if (!suppression) {
+      throw new NotFoundError('Email suppression not found');
+    }
+
+    await prisma.emailSuppression.delete({ where: { id } });
+
+    log.info('Email suppression removed', { email: suppression.email, reason: suppression.reason });
+  }
+
+  /**
+   * Stop emailing an address, and drop the emails still waiting for it
+   */
+  static async suppress(event: EmailFeedbackEvent, provider?: string): Promise<void> {
+    const email = event.email.trim().toLowerCase();
+    const detail = event.detail?.slice(0, 1000);
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.emailSuppression.upsert({
+        where: { email },
+        create: { email, reason: event.reason, provider, detail },
+        update: { reason: event.reason, provider, detail },
+      });
+
+      await tx.emailOutbox.updateMany({
+        where: { to: email, status: 'PENDING' },
+        data: { status: 'SUPPRESSED', lastError: `Address suppressed after a ${event.reason.toLowerCase()}` },
+      });
+    });
+
+    log.warn('Email address suppressed', { email, reason: event.reason, provider });
+  }
+
+  /**
+   * Handle a bounce and complaint webhook. Returns how many addresses were suppressed.
+   * Soft bounces are left alone, the outbox retries those.
+   */
+  static async handleWebhook(provider: string, body: any): Promise<number> {
+    if (!EMAIL_PROVIDERS.includes(provider as EmailProvider)) {
+      throw new NotFoundError('Unknown email provider');
+    }
+
+    const events = await this.parseWebhook(provider as EmailProvider, body);
+    for (const event of events) {
+      await this.suppress(event, provider);
+    }
+
+    return events.length;
+  }
+
+  /**
+   * Send one outbox email, claiming it first so two workers never send it twice
+   */
+  private static async deliver(email: EmailOutbox, now: Date): Promise<boolean> {
+    const claimed = await prisma.emailOutbox.updateMany({
+      where: { id: email.id, status: email.status, lockedUntil: email.lockedUntil },
+      data: { status: 'SENDING', lockedUntil: new Date(now.getTime() + SEND_LOCK_MS) },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    if (await this.isSuppressed(email.to)) {
+      await prisma.emailOutbox.update({
+        where: { id: email.id },
+        data: { status: 'SUPPRESSED', lockedUntil: null, lastError: 'Address bounced or complained' },
+      });
+      return false;
+    }
+
+    const attempts = email.attempts + 1;
+
+    try {
+      const messageId = await EmailService.deliver(this.toEmailOptions(email));
+
+      await prisma.emailOutbox.update({
+        where: { id: email.id },
+        data: { status: 'SENT', attempts, messageId, sentAt: new Date(), lockedUntil: null, lastError: null },
+      });
+      return true;
+    } catch (error: any) {
+      // 5xx SMTP replies reject the message or address outright
+      const permanent = Number(error?.responseCode) >= 500;
+      const failed = permanent || attempts >= config.emailOutbox.maxAttempts;
+
+      await prisma.emailOutbox.update({
+        where: { id: email.id },
+        data: {
+          status: failed ? 'FAILED' : 'PENDING',
+          attempts,
+          lockedUntil: null,
+          nextAttemptAt: failed ? email.nextAttemptAt : new Date(Date.now() + this.getRetryDelay(attempts)),
+          lastError: String(error?.message || error).slice(0, 1000),
+        },
+      });
+
+      log.warn('Email delivery failed', {
+        emailId: email.id,
+        to: email.to,
+        attempts,
+        willRetry: !failed,
+        error: error?.message,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Wait before the next attempt: the base delay doubled for every failed attempt, up to the maximum
+   */
+  private static getRetryDelay(attempts: number): number {
+    return Math.min(config.emailOutbox.retryMaxMs, config.emailOutbox.retryBaseMs * 2 ** (attempts - 1));
+  }
+
+  private static toEmailOptions(email: EmailOutbox): EmailOptions {
+    const attachments = email.attachments as Array<{ filename: string; content: string; contentType?: string }> | null;
+
+    return {
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text || undefined,
+      attachments: attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content, 'base64'),
+        contentType: attachment.contentType,
+      })),
+    };
+  }
+
+  /**
+   * Bounces and complaints in a provider's webhook payload
+   */
+  private static async parseWebhook(provider: EmailProvider, body: any): Promise<EmailFeedbackEvent[]> {
+    switch (provider) {
+      // Event webhook: an array of events; "blocked" bounces are soft
+      case 'sendgrid':
+        return (Array.isArray(body) ? body : [])
+          .filter((event: any) => event?.email && (
+            (event.event === 'bounce' && event.type !== 'blocked') || event.event === 'spamreport'
+          ))
+          .map((event: any) => ({
+            email: event.email,
+            reason: event.event === 'spamreport' ? 'COMPLAINT' : 'BOUNCE',
+            detail: event.reason,
+          }));
+
+      // SES notifications delivered through an SNS topic subscription
+      case 'ses': {
+        if (body?.Type === 'SubscriptionConfirmation') {
+          await this.confirmSnsSubscription(body.SubscribeURL);
+          return [];
+        }
+
+        const message = typeof body?.Message === 'string' ? JSON.parse(body.Message) : body?.Message;
+
+        if (message?.notificationType === 'Bounce' && message.bounce?.bounceType === 'Permanent') {
+          return (message.bounce.bouncedRecipients || []).map((recipient: any) => ({
+            email: recipient.emailAddress,
+            reason: 'BOUNCE',
+            detail: recipient.diagnosticCode || message.bounce.bounceSubType,
+          }));
+        }
+
+        if (message?.notificationType === 'Complaint') {
+          return (message.complaint?.complainedRecipients || []).map((recipient: any) => ({
+            email: recipient.emailAddress,
+            reason: 'COMPLAINT',
+            detail: message.complaint.complaintFeedbackType,
+          }));
+        }
+
+        return [];
+      }
+
+      // Webhooks send one event, in "event-data"
+      case 'mailgun': {
+        const event = body?.['event-data'];
+        if (!event?.recipient) {
+          return [];
+        }
+
+        if (event.event === 'failed' && event.severity === 'permanent') {
+          return [{ email: event.recipient, reason: 'BOUNCE', detail: event['delivery-status']?.description || event.reason }];
+        }
+
+        if (event.event === 'complained') {
+          return [{ email: event.recipient, reason: 'COMPLAINT' }];
+        }
+
+        return [];
+      }
+    }
+  }
+
+  /**
+   * SNS asks for every new subscription to be confirmed by fetching its SubscribeURL
+   */
+  private static async confirmSnsSubscription(subscribeUrl: string): Promise<void> {
+    const url = new URL(subscribeUrl);
+    if (url.protocol !== 'https:' || !/^sns\.[a-z0-9-]+\.amazonaws\.com$/.test(url.hostname)) {
+      throw new ValidationError('Invalid SNS subscription URL');
+    }
+
+    await axios.get(url.toString(), { timeout: 10000 });
+
+    log.info('SNS subscription for email feedback confirmed', { topic: url.searchParams.get('TopicArn') });
+  }
+}
@@ -1,7 +1,12 @@
 import nodemailer from 'nodemailer';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { config } from '../config/index';
 import { log } from '../utils/logger';
 
+const prisma = new PrismaClient();
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
 export interface EmailOptions {
   to: string;
   subject: string;
@@ -62,59 +67,80 @@ export class EmailService {
   }
 
   /**
-   * Send email
+   * Queue an email in the outbox, from where the outbox worker sends it with retries. Pass the
+   * transaction of the change the email reports, so the email is only sent if the change is saved.
    */
-  static async sendEmail(options: EmailOptions): Promise<void> {
-    try {
-      // Skip sending emails in development if not configured
-      if (config.server.nodeEnv === 'development' && !this.transporter) {
-        log.info('Email skipped in development', {
-          to: options.to,
-          subject: options.subject
-        });
-        return;
-      }
-
-      if (!this.transporter) {
-        await this.initialize();
-      }
-
-      // If still no transporter, skip in development
-      if (!this.transporter && config.server.nodeEnv === 'development') {
-        log.info('Email skipped - no transporter available', {
-          to: options.to,
-          subject: options.subject
-        });
-        return;
-      }
-
-      const mailOptions = {
-        from: `"EthioAI Tourism" <${config.email.from}>`,
-        to: options.to,
+  static async sendEmail(options: EmailOptions, client: DbClient = prisma): Promise<void> {
+    const email = await client.emailOutbox.create({
+      data: {
+        to: options.to.trim().toLowerCase(),
         subject: options.subject,
         html: options.html,
-        text: options.text || this.stripHtml(options.html),
-        attachments: options.attachments,
-      };
+        text: options.text,
+        attachments: options.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          content: Buffer.from(attachment.content).toString('base64'),
+          contentType: attachment.contentType,
+        })),
+      },
+    });
 
-      const result = await this.transporter.sendMail(mailOptions);
-      
-      log.info('Email sent successfully', {
+    log.info('Email queued', {
+      emailId: email.id,
+      to: options.to,
+      subject: options.subject,
+    });
+  }
+
+  /**
+   * Send an email over SMTP right away. Throws when sending fails, so callers can retry.
+   * Returns the SMTP message id, or null when sending is skipped in development.
+   */
+  static async deliver(options: EmailOptions): Promise<string | null> {
+    // Skip sending emails in development if not configured
+    if (config.server.nodeEnv === 'development' && !this.transporter) {
+      log.info('Email skipped in development', {
         to: options.to,
-        subject: options.subject,
-        messageId: result.messageId,
+        subject: options.subject
       });
-    } catch (error) {
-      log.error('Failed to send email:', error, {
+      return null;
+    }
+
+    if (!this.transporter) {
+      await this.initialize();
+    }
+
+    // If still no transporter, skip in development
+    if (!this.transporter && config.server.nodeEnv === 'development') {
+      log.info('Email skipped - no transporter available', {
         to: options.to,
-        subject: options.subject,
+        subject: options.subject
       });
-      
-      // Don't throw in development
-      if (config.server.nodeEnv === 'production') {
-        throw error;
-      }
+      return null;
     }
+
+    if (!this.transporter) {
+      throw new Error('Email transport is not configured');
+    }
+
+    const mailOptions = {
+      from: `"EthioAI Tourism" <${config.email.from}>`,
+      to: options.to,
+      subject: options.subject,
+      html: options.html,
+      text: options.text || this.stripHtml(options.html),
+      attachments: options.attachments,
+    };
+
+    const result = await this.transporter.sendMail(mailOptions);
+
+    log.info('Email sent successfully', {
+      to: options.to,
+      subject: options.subject,
+      messageId: result.messageId,
+    });
+
+    return result.messageId || null;
   }
 
   /**
@@ -178,7 +204,8 @@ export class EmailService {
       endDate: string;
       totalPrice: number;
       participants: number;
-    }
+    },
+    client: DbClient = prisma
   ): Promise<void> {
     const template = this.getBookingConfirmationTemplate(name, bookingDetails);
     
@@ -187,7 +214,7 @@ export class EmailService {
       subject: template.subject,
       html: template.html,
       text: template.text,
-    });
+    }, client);
   }
 
   /**
@@ -198,7 +225,8 @@ export class EmailService {
     name: string, 
     bookingNumber: string,
     tourTitle: string,
-    refundAmount?: number
+    refundAmount?: number,
+    client: DbClient = prisma
   ): Promise<void> {
     const template = this.getBookingCancellationTemplate(name, bookingNumber, tourTitle, refundAmount);
     
@@ -207,7 +235,7 @@ export class EmailService {
       subject: template.subject,
       html: template.html,
       text: template.text,
-    });
+    }, client);
   }
 
   /**
@@ -222,10 +250,60 @@ export class EmailService {
       paymentMethod: string;
       bookingNumber: string;
       tourTitle: string;
-    }
+    },
+    client: DbClient = prisma
   ): Promise<void> {
     const template = this.getPaymentConfirmationTemplate(name, paymentDetails);
     
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+    }, client);
+  }
+
+  /**
+   * Send waitlist seat offer email
+   */
+  static async sendWaitlistOffer(
+    email: string,
+    name: string,
+    offerDetails: {
+      tourTitle: string;
+      startDate: string;
+      participants: number;
+      claimUrl: string;
+      expiresAt: string;
+    },
+    client: DbClient = prisma
+  ): Promise<void> {
+    const template = this.getWaitlistOfferTemplate(name, offerDetails);
+
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+    }, client);
+  }
+
+  /**
+   * Send itinerary collaboration invitation email
+   */
+  static async sendItineraryInvitation(
+    email: string,
+    name: string,
+    invitation: {
+      inviterName: string;
+      itineraryTitle: string;
+      role: string;
+      message?: string;
+      itineraryUrl: string;
+    }
+  ): Promise<void> {
+    const template = this.getItineraryInvitationTemplate(name, invitation);
+
     await this.sendEmail({
       to: email,
       subject: template.subject,
@@ -719,6 +797,143 @@ export class EmailService {
     return { subject, html, text };
   }
 
+  private static getWaitlistOfferTemplate(name: string, offer: any): EmailTemplate {
+    const subject = `A spot opened up - ${offer.tourTitle}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${subject}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🎟️ Your Spot Is Waiting</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${name}!</h2>
+            <p>Good news! Seats have opened up on a tour you were waitlisted for, and we're holding them for you.</p>
+
+            <p><strong>Offer Details:</strong></p>
+            <ul>
+              <li>Tour: ${offer.tourTitle}</li>
+              <li>Departure: ${offer.startDate}</li>
+              <li>Participants: ${offer.participants}</li>
+            </ul>
+
+            <div style="text-align: center;">
+              <a href="${offer.claimUrl}" class="button">Claim My Spot</a>
+            </div>
+
+            <p><strong>⏰ This offer expires on ${offer.expiresAt}.</strong> After that, the seats go to the next person on the waitlist.</p>
+
+            <p>Best regards,<br>The EthioAI Tourism Team</p>
+          </div>
+          <div class="footer">
+            <p>Contact us at <a href="mailto:support@ethioai.com">support@ethioai.com</a></p>
+            <p>© 2024 EthioAI Tourism Platform. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      A spot opened up - ${offer.tourTitle}
+
+      Hello ${name}!
+
+      Seats have opened up on a tour you were waitlisted for:
+
+      Tour: ${offer.tourTitle}
+      Departure: ${offer.startDate}
+      Participants: ${offer.participants}
+
+      Claim your spot: ${offer.claimUrl}
+
+      This offer expires on ${offer.expiresAt}. After that, the seats go to the next person on the waitlist.
+
+      Best regards,
+      The EthioAI Tourism Team
+    `;
+
+    return { subject, html, text };
+  }
+
+  private static getItineraryInvitationTemplate(name: string, invitation: any): EmailTemplate {
+    const subject = `${invitation.inviterName} invited you to plan ${invitation.itineraryTitle}`;
+    const access = invitation.role === 'editor' ? 'view and edit' : 'view';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${subject}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .message { background: white; border-left: 4px solid #667eea; padding: 10px 15px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🗺️ You're Invited to Plan a Trip</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${name}!</h2>
+            <p>${invitation.inviterName} has invited you to ${access} the itinerary <strong>${invitation.itineraryTitle}</strong>.</p>
+
+            ${invitation.message ? `<div class="message">${invitation.message}</div>` : ''}
+
+            <div style="text-align: center;">
+              <a href="${invitation.itineraryUrl}" class="button">Open Itinerary</a>
+            </div>
+
+            <p>Best regards,<br>The EthioAI Tourism Team</p>
+          </div>
+          <div class="footer">
+            <p>Contact us at <a href="mailto:support@ethioai.com">support@ethioai.com</a></p>
+            <p>© 2024 EthioAI Tourism Platform. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      ${subject}
+
+      Hello ${name}!
+
+      ${invitation.inviterName} has invited you to ${access} the itinerary ${invitation.itineraryTitle}.
+      ${invitation.message ? `\n      "${invitation.message}"\n` : ''}
+      Open the itinerary: ${invitation.itineraryUrl}
+
+      Best regards,
+      The EthioAI Tourism Team
+    `;
+
+    return { subject, html, text };
+  }
+
   private static getAdminNotificationTemplate(subject: string, message: string, data?: any): EmailTemplate {
     const html = `
       <!DOCTYPE html>
@@ -0,0 +1,171 @@
+import type OpenAI from 'openai';
+import { config } from '../config';
+import { log } from '../utils/logger';
+
+export interface EmbeddingProvider {
+  // Stored with every vector; vectors from different providers are never compared
+  readonly name: string;
+  // One unit-length vector per text, in the same order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const LOCAL_DIMENSIONS = 512;
+
+// Texts sent to a provider in one request
+const BATCH_SIZE = 64;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'from', 'have', 'has', 'had',
+  'you', 'your', 'its', 'it', 'of', 'in', 'on', 'at', 'to', 'is', 'be', 'by', 'or', 'an', 'as',
+  'what', 'which', 'who', 'how', 'when', 'where', 'why', 'can', 'do', 'does', 'about', 'tell', 'me',
+]);
+
+// Whether an optional package can be loaded
+const isInstalled = (name: string): boolean => {
+  try {
+    require.resolve(name);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const normalizeVector = (vector: number[]): number[] => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map((value) => value / length);
+};
+
+// Plural and tense endings, so "churches" and "church" count as the same word
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 5 && (word.endsWith('ing') || word.endsWith('ches') || word.endsWith('shes'))) {
+    return word.endsWith('ing') ? word.slice(0, -3) : word.slice(0, -2);
+  }
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+// 32-bit FNV-1a
+const hashFeature = (feature: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Feature-hashed counts of words and word pairs. It needs no service and gives the
+ * same vector for the same text on every run, which makes it the fallback for
+ * development and tests; it matches shared words rather than meaning.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+
+  constructor(private readonly dimensions: number = LOCAL_DIMENSIONS) {
+    this.name = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const words = text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+      .map(stem);
+
+    const counts = new Map<string, number>();
+    words.forEach((word, index) => {
+      counts.set(word, (counts.get(word) || 0) + 1);
+      if (index > 0) {
+        const pair = `${words[index - 1]} ${word}`;
+        counts.set(pair, (counts.get(pair) || 0) + 0.5);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = hashFeature(feature);
+      // The sign bit keeps colliding features from always adding up
+      vector[hash % this.dimensions] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+    }
+
+    return normalizeVector(vector);
+  }
+}
+
+/**
+ * Embeddings from the OpenAI API. The openai package is only loaded when this provider is
+ * used, so local embeddings work without it installed.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private client?: OpenAI;
+
+  constructor(private readonly apiKey: string, private readonly model: string) {
+    this.name = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.client) {
+      const { default: OpenAIClient } = await import('openai');
+      this.client = new OpenAIClient({ apiKey: this.apiKey });
+    }
+
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => normalizeVector(item.embedding));
+  }
+}
+
+export class EmbeddingService {
+  private static provider?: EmbeddingProvider;
+
+  /**
+   * Use another embedding provider, e.g. a fixed one in tests
+   */
+  static setProvider(provider: EmbeddingProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * The configured embedding provider. OpenAI without an API key or the openai package falls
+   * back to local embeddings.
+   */
+  static getProvider(): EmbeddingProvider {
+    if (!this.provider) {
+      const { embeddingProvider, embeddingModel } = config.retrieval;
+
+      if (embeddingProvider === 'openai' && config.openai.apiKey && isInstalled('openai')) {
+        this.provider = new OpenAIEmbeddingProvider(config.openai.apiKey, embeddingModel);
+      } else {
+        if (embeddingProvider !== 'local') {
+          log.warn('Embedding provider not available, using local embeddings', { provider: embeddingProvider });
+        }
+        this.provider = new LocalEmbeddingProvider();
+      }
+    }
+    return this.provider;
+  }
+
+  /**
+   * Embed texts in batches
+   */
+  static async embed(texts: string[]): Promise<number[][]> {
+    const provider = this.getProvider();
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      vectors.push(...await provider.embed(texts.slice(start, start + BATCH_SIZE)));
+    }
+
+    return vectors;
+  }
+}
@@ -0,0 +1,407 @@
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { PrismaClient } from '@prisma/client';
+import { ConflictError } from '../middlewares/error.middleware';
+import { ItineraryService, ItineraryRole } from './itinerary.service';
+import { verifyAccessToken } from '../utils/jwt';
+import { config } from '../config';
+import { log } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+const NAMESPACE = '/itineraries';
+
+const PRESENCE_COLORS = ['#3B82F6', '#10B981', '#8B5CF6', '#F59E0B', '#EF4444', '#EC4899', '#14B8A6', '#6366F1'];
+
+type Ack = (response: Record<string, any>) => void;
+
+export interface CollaborationParticipant {
+  userId: string;
+  name: string;
+  avatar: string | null;
+  color: string;
+  role: ItineraryRole;
+}
+
+/**
+ * A field being edited by one collaborator. The target is an item ID, or `day:<number>`
+ * for the fields of a day.
+ */
+export interface FieldLock {
+  targetId: string;
+  field: string;
+  userId: string;
+  name: string;
+  color: string;
+  expiresAt: Date;
+}
+
+interface HeldLock extends FieldLock {
+  socketId: string;
+  timer: NodeJS.Timeout;
+}
+
+interface SocketUser {
+  userId: string;
+  name: string;
+  avatar: string | null;
+  color: string;
+}
+
+const roomName = (itineraryId: string) => `itinerary:${itineraryId}`;
+
+const lockKey = (targetId: string, field: string) => `${targetId}:${field}`;
+
+/**
+ * Live channel for collaborative itinerary editing. Members of an itinerary join its room to
+ * see who else is there, take short-lived locks on the fields they edit, and receive the
+ * changes others save through the itinerary API.
+ */
+export class ItineraryCollaborationService {
+  private static io?: Server;
+
+  // itineraryId -> socketId -> participant
+  private static rooms = new Map<string, Map<string, CollaborationParticipant>>();
+
+  // itineraryId -> lock key -> lock
+  private static locks = new Map<string, Map<string, HeldLock>>();
+
+  private static colorFor(userId: string): string {
+    let hash = 0;
+    for (const char of userId) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+  }
+
+  /**
+   * Attach the collaboration namespace to the HTTP server
+   */
+  static attach(server: HttpServer): Server {
+    if (this.io) {
+      return this.io;
+    }
+
+    this.io = new Server(server, {
+      cors: {
+        origin: [
+          process.env.FRONTEND_URL || 'http://localhost:3002',
+          'http://localhost:3000',
+          'http://localhost:3001',
+          'http://localhost:3002',
+        ],
+        credentials: true,
+      },
+    });
+
+    const namespace = this.io.of(NAMESPACE);
+
+    // Sockets authenticate with the same access token as the REST API
+    namespace.use(async (socket, next) => {
+      try {
+        const token = socket.handshake.auth?.token;
+        if (!token) {
+          return next(new Error('Authentication required'));
+        }
+
+        const { userId } = verifyAccessToken(token);
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true, name: true, email: true, avatar: true },
+        });
+
+        if (!user) {
+          return next(new Error('Authentication required'));
+        }
+
+        const socketUser: SocketUser = {
+          userId: user.id,
+          name: user.name || user.email.split('@')[0],
+          avatar: user.avatar,
+          color: this.colorFor(user.id),
+        };
+        socket.data.user = socketUser;
+        next();
+      } catch {
+        next(new Error('Invalid token'));
+      }
+    });
+
+    namespace.on('connection', (socket) => this.handleConnection(socket));
+
+    log.info('Itinerary collaboration channel attached', { namespace: NAMESPACE });
+
+    return this.io;
+  }
+
+  /**
+   * Close the collaboration channel and drop all presence and locks
+   */
+  static async close(): Promise<void> {
+    for (const locks of this.locks.values()) {
+      locks.forEach((lock) => clearTimeout(lock.timer));
+    }
+    this.locks.clear();
+    this.rooms.clear();
+
+    if (this.io) {
+      const io = this.io;
+      this.io = undefined;
+      await new Promise<void>((resolve) => io.close(() => resolve()));
+    }
+  }
+
+  private static handleConnection(socket: Socket): void {
+    const user: SocketUser = socket.data.user;
+
+    socket.on('itinerary:join', async (payload: { itineraryId?: string }, ack?: Ack) => {
+      const respond = typeof ack === 'function' ? ack : () => undefined;
+      const itineraryId = payload?.itineraryId;
+
+      if (!itineraryId) {
+        return respond({ ok: false, error: 'Itinerary ID is required' });
+      }
+
+      try {
+        const role = await ItineraryService.getMemberRole(itineraryId, user.userId);
+        if (!role) {
+          return respond({ ok: false, error: 'You are not a collaborator on this itinerary' });
+        }
+
+        if (!this.rooms.has(itineraryId)) {
+          this.rooms.set(itineraryId, new Map());
+        }
+        this.rooms.get(itineraryId)!.set(socket.id, { ...user, role });
+
+        await socket.join(roomName(itineraryId));
+        this.emitPresence(itineraryId);
+
+        respond({
+          ok: true,
+          role,
+          participants: this.getParticipants(itineraryId),
+          locks: this.getLocks(itineraryId),
+        });
+      } catch (error) {
+        respond({ ok: false, error: (error as Error).message });
+      }
+    });
+
+    socket.on('itinerary:leave', (payload: { itineraryId?: string }) => {
+      if (payload?.itineraryId) {
+        this.leave(socket, payload.itineraryId);
+      }
+    });
+
+    // Taking a lock again renews it
+    socket.on('field:lock', (payload: { itineraryId?: string; targetId?: string; field?: string }, ack?: Ack) => {
+      const respond = typeof ack === 'function' ? ack : () => undefined;
+      const { itineraryId, targetId, field } = payload || {};
+
+      if (!itineraryId || !targetId || !field) {
+        return respond({ ok: false, error: 'Itinerary, target and field are required' });
+      }
+
+      const participant = this.rooms.get(itineraryId)?.get(socket.id);
+      if (!participant) {
+        return respond({ ok: false, error: 'Join the itinerary before editing it' });
+      }
+
+      if (participant.role === 'viewer') {
+        return respond({ ok: false, error: 'Viewers cannot edit this itinerary' });
+      }
+
+      const existing = this.locks.get(itineraryId)?.get(lockKey(targetId, field));
+      if (existing && existing.userId !== user.userId) {
+        return respond({ ok: false, error: `${existing.name} is editing this field`, lock: this.toLock(existing) });
+      }
+
+      const lock = this.holdLock(itineraryId, socket.id, user, targetId, field);
+      respond({ ok: true, lock });
+    });
+
+    socket.on('field:unlock', (payload: { itineraryId?: string; targetId?: string; field?: string }) => {
+      const { itineraryId, targetId, field } = payload || {};
+      if (!itineraryId || !targetId || !field) {
+        return;
+      }
+
+      const existing = this.locks.get(itineraryId)?.get(lockKey(targetId, field));
+      if (existing && existing.userId === user.userId) {
+        this.releaseLock(itineraryId, existing);
+      }
+    });
+
+    socket.on('disconnect', () => {
+      for (const [itineraryId, participants] of this.rooms) {
+        if (participants.has(socket.id)) {
+          this.leave(socket, itineraryId);
+        }
+      }
+    });
+  }
+
+  private static leave(socket: Socket, itineraryId: string): void {
+    const participants = this.rooms.get(itineraryId);
+    participants?.delete(socket.id);
+    if (participants && participants.size === 0) {
+      this.rooms.delete(itineraryId);
+    }
+
+    this.locks.get(itineraryId)?.forEach((lock) => {
+      if (lock.socketId === socket.id) {
+        this.releaseLock(itineraryId, lock);
+      }
+    });
+
+    socket.leave(roomName(itineraryId));
+    this.emitPresence(itineraryId);
+  }
+
+  private static holdLock(
+    itineraryId: string,
+    socketId: string,
+    user: SocketUser,
+    targetId: string,
+    field: string
+  ): FieldLock {
+    const key = lockKey(targetId, field);
+    if (!this.locks.has(itineraryId)) {
+      this.locks.set(itineraryId, new Map());
+    }
+    const locks = this.locks.get(itineraryId)!;
+
+    const previous = locks.get(key);
+    if (previous) {
+      clearTimeout(previous.timer);
+    }
+
+    // Locks of an abandoned editor lapse on their own
+    const lock: HeldLock = {
+      targetId,
+      field,
+      userId: user.userId,
+      name: user.name,
+      color: user.color,
+      socketId,
+      expiresAt: new Date(Date.now() + config.collaboration.lockTtlMs),
+      timer: setTimeout(() => this.releaseLock(itineraryId, lock), config.collaboration.lockTtlMs),
+    };
+    lock.timer.unref();
+    locks.set(key, lock);
+
+    this.emit(itineraryId, 'field:locked', { itineraryId, lock: this.toLock(lock) });
+    return this.toLock(lock);
+  }
+
+  private static releaseLock(itineraryId: string, lock: HeldLock): void {
+    const locks = this.locks.get(itineraryId);
+    const key = lockKey(lock.targetId, lock.field);
+    if (locks?.get(key) !== lock) {
+      return;
+    }
+
+    clearTimeout(lock.timer);
+    locks.delete(key);
+    if (locks.size === 0) {
+      this.locks.delete(itineraryId);
+    }
+
+    this.emit(itineraryId, 'field:unlocked', { itineraryId, targetId: lock.targetId, field: lock.field });
+  }
+
+  private static toLock({ socketId: _socketId, timer: _timer, ...lock }: HeldLock): FieldLock {
+    return lock;
+  }
+
+  private static emitPresence(itineraryId: string): void {
+    this.emit(itineraryId, 'presence:update', {
+      itineraryId,
+      participants: this.getParticipants(itineraryId),
+    });
+  }
+
+  /**
+   * People currently in an itinerary's room, once per user however many tabs they have open
+   */
+  static getParticipants(itineraryId: string): CollaborationParticipant[] {
+    const byUser = new Map<string, CollaborationParticipant>();
+    this.rooms.get(itineraryId)?.forEach((participant) => byUser.set(participant.userId, participant));
+    return Array.from(byUser.values());
+  }
+
+  static getLocks(itineraryId: string): FieldLock[] {
+    return Array.from(this.locks.get(itineraryId)?.values() || []).map((lock) => this.toLock(lock));
+  }
+
+  /**
+   * Reject a write to fields that another collaborator holds a lock on. Without fields every
+   * field of the target counts, and without a target every lock on the itinerary does.
+   */
+  static assertUnlocked(itineraryId: string, userId: string, targetId?: string, fields?: string[]): void {
+    const blocking = this.getLocks(itineraryId).find((lock) =>
+      lock.userId !== userId
+      && (!targetId || lock.targetId === targetId)
+      && (!fields || fields.includes(lock.field))
+    );
+
+    if (blocking) {
+      throw new ConflictError(`${blocking.name} is editing the ${blocking.field} of this entry`);
+    }
+  }
+
+  /**
+   * Drop all locks on a target, e.g. after the item was deleted
+   */
+  static releaseTarget(itineraryId: string, targetId: string): void {
+    this.locks.get(itineraryId)?.forEach((lock) => {
+      if (lock.targetId === targetId) {
+        this.releaseLock(itineraryId, lock);
+      }
+    });
+  }
+
+  /**
+   * Apply a role change to connected sockets; a null role removes the user from the room
+   */
+  static updateMemberRole(itineraryId: string, userId: string, role: ItineraryRole | null): void {
+    const participants = this.rooms.get(itineraryId);
+    if (!participants || !this.io) {
+      return;
+    }
+
+    const namespace = this.io.of(NAMESPACE);
+    participants.forEach((participant, socketId) => {
+      if (participant.userId !== userId) {
+        return;
+      }
+
+      const socket = namespace.sockets.get(socketId);
+      if (!role) {
+        socket?.emit('itinerary:removed', { itineraryId });
+        if (socket) {
+          this.leave(socket, itineraryId);
+        }
+        return;
+      }
+
+      participant.role = role;
+      if (role === 'viewer') {
+        this.locks.get(itineraryId)?.forEach((lock) => {
+          if (lock.socketId === socketId) {
+            this.releaseLock(itineraryId, lock);
+          }
+        });
+      }
+    });
+
+    this.emitPresence(itineraryId);
+  }
+
+  /**
+   * Send an event to everyone in an itinerary's room
+   */
+  static emit(itineraryId: string, event: string, payload: Record<string, any>): void {
+    this.io?.of(NAMESPACE).to(roomName(itineraryId)).emit(event, payload);
+  }
+}
@@ -0,0 +1,481 @@
+import PDFDocument from 'pdfkit';
+import { ValidationError } from '../middlewares/error.middleware';
+import type {
+  FormattedItinerary,
+  FormattedItineraryDay,
+  FormattedItineraryItem,
+} from './itinerary.service';
+
+export type ItineraryExportFormat = 'json' | 'csv' | 'ical' | 'pdf' | 'gpx';
+
+export interface ItineraryExportOptions {
+  includeNotes: boolean;
+  includeBudget: boolean;
+  includeActivities: boolean;
+}
+
+export interface ItineraryExportFile {
+  content: string | Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<ItineraryExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  ical: 'text/calendar; charset=utf-8',
+  pdf: 'application/pdf',
+  gpx: 'application/gpx+xml; charset=utf-8',
+};
+
+const EXTENSIONS: Record<ItineraryExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  ical: 'ics',
+  pdf: 'pdf',
+  gpx: 'gpx',
+};
+
+const ICAL_STATUS: Record<string, string> = {
+  confirmed: 'CONFIRMED',
+  pending: 'TENTATIVE',
+  cancelled: 'CANCELLED',
+};
+
+// Length given to timed items that have neither an end time nor a duration
+const DEFAULT_EVENT_MINUTES = 60;
+
+// Longest iCalendar content line in octets, excluding the line break
+const ICAL_LINE_LIMIT = 75;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Turns itineraries into downloadable files. Item times are local to the trip, so calendar
+ * events use floating times rather than being pinned to a time zone.
+ */
+export class ItineraryExportService {
+  /**
+   * Build the export file of an itinerary in the requested format
+   */
+  static async export(
+    itinerary: FormattedItinerary,
+    format: ItineraryExportFormat,
+    options: ItineraryExportOptions,
+    dayNumber?: number
+  ): Promise<ItineraryExportFile> {
+    const days = dayNumber
+      ? itinerary.days.filter((day) => day.dayNumber === dayNumber)
+      : itinerary.days;
+
+    if (dayNumber && days.length === 0) {
+      throw new ValidationError(`Day ${dayNumber} is not part of this itinerary`);
+    }
+
+    const source = {
+      ...itinerary,
+      days: options.includeActivities ? days : days.map((day) => ({ ...day, items: [] })),
+    };
+
+    let content: string | Buffer;
+    switch (format) {
+      case 'json':
+        content = this.toJson(source, options);
+        break;
+      case 'csv':
+        content = this.toCsv(source, options);
+        break;
+      case 'ical':
+        content = this.toICalendar(source, options);
+        break;
+      case 'pdf':
+        content = await this.toPdf(source, options);
+        break;
+      case 'gpx':
+        content = this.toGpx(source, options);
+        break;
+      default:
+        throw new ValidationError(`Export to ${format} is not supported`);
+    }
+
+    return {
+      content,
+      contentType: CONTENT_TYPES[format],
+      filename: `${this.slugify(itinerary.title)}${dayNumber ? `-day-${dayNumber}` : ''}.${EXTENSIONS[format]}`,
+    };
+  }
+
+  private static slugify(title: string): string {
+    const slug = title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60);
+
+    return slug || 'itinerary';
+  }
+
+  private static toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private static toMinutes(time: string | null): number | null {
+    if (!time) {
+      return null;
+    }
+
+    const [hours, minutes] = time.split(':').map(Number);
+    return isNaN(hours) || isNaN(minutes) ? null : hours * 60 + minutes;
+  }
+
+  private static formatMoney(amount: number, currency: string): string {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+
+  private static toJson(itinerary: FormattedItinerary, options: ItineraryExportOptions): string {
+    return JSON.stringify({
+      ...itinerary,
+      shareToken: undefined,
+      isOwner: undefined,
+      role: undefined,
+      budget: options.includeBudget ? itinerary.budget : undefined,
+      days: itinerary.days.map((day) => ({
+        ...day,
+        notes: options.includeNotes ? day.notes : undefined,
+        items: day.items.map((item) => ({ ...item, notes: options.includeNotes ? item.notes : undefined })),
+      })),
+    }, null, 2);
+  }
+
+  private static escapeCsv(value: unknown): string {
+    const text = value == null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private static toCsv(itinerary: FormattedItinerary, options: ItineraryExportOptions): string {
+    const header = [
+      'Day', 'Date', 'Start', 'End', 'Title', 'Type', 'Location', 'Duration (min)',
+      ...(options.includeBudget ? ['Cost', 'Currency'] : []),
+      'Booking Status',
+      ...(options.includeNotes ? ['Notes'] : []),
+    ];
+
+    const rows = itinerary.days.flatMap((day) => day.items.map((item) => [
+      day.dayNumber,
+      this.toDateString(day.date),
+      item.startTime,
+      item.endTime,
+      item.title,
+      item.type,
+      item.location,
+      item.duration,
+      ...(options.includeBudget ? [item.cost, item.currency] : []),
+      item.bookingStatus,
+      ...(options.includeNotes ? [item.notes] : []),
+    ]));
+
+    return [header, ...rows]
+      .map((row) => row.map((value) => this.escapeCsv(value)).join(','))
+      .join('\n');
+  }
+
+  private static escapeICalText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Fold a content line into chunks of at most 75 octets, continuing with a leading space
+   */
+  private static foldICalLine(line: string): string {
+    if (Buffer.byteLength(line) <= ICAL_LINE_LIMIT) {
+      return line;
+    }
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const char of line) {
+      // Continuation lines lose one octet to the leading space
+      const limit = chunks.length === 0 ? ICAL_LINE_LIMIT : ICAL_LINE_LIMIT - 1;
+      if (Buffer.byteLength(current + char) > limit) {
+        chunks.push(current);
+        current = '';
+      }
+      current += char;
+    }
+    chunks.push(current);
+
+    return chunks.join('\r\n ');
+  }
+
+  private static formatICalDate(date: Date): string {
+    return this.toDateString(date).replace(/-/g, '');
+  }
+
+  // Floating date-time: the UTC fields of the date carry the trip's local time
+  private static formatICalDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').split('.')[0];
+  }
+
+  private static formatICalTimestamp(date: Date): string {
+    return `${this.formatICalDateTime(date)}Z`;
+  }
+
+  /**
+   * Start and end of an item's event. Items without a start time become all-day events, and
+   * an end time before the start time runs past midnight.
+   */
+  private static getEventTimes(
+    day: FormattedItineraryDay,
+    item: FormattedItineraryItem
+  ): { allDay: boolean; start: Date; end: Date } {
+    const dayStart = new Date(`${this.toDateString(day.date)}T00:00:00.000Z`);
+    const startMinutes = this.toMinutes(item.startTime);
+
+    if (startMinutes === null) {
+      return { allDay: true, start: dayStart, end: new Date(dayStart.getTime() + 24 * 60 * MS_PER_MINUTE) };
+    }
+
+    let endMinutes = this.toMinutes(item.endTime) ?? startMinutes + (item.duration || DEFAULT_EVENT_MINUTES);
+    if (endMinutes <= startMinutes) {
+      endMinutes += 24 * 60;
+    }
+
+    return {
+      allDay: false,
+      start: new Date(dayStart.getTime() + startMinutes * MS_PER_MINUTE),
+      end: new Date(dayStart.getTime() + endMinutes * MS_PER_MINUTE),
+    };
+  }
+
+  /**
+   * iCalendar file with one event per itinerary item
+   */
+  private static toICalendar(itinerary: FormattedItinerary, options: ItineraryExportOptions): string {
+    const stamp = this.formatICalTimestamp(new Date());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//EthioAI Tourism//Itinerary Export//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeICalText(itinerary.title)}`,
+    ];
+
+    for (const day of itinerary.days) {
+      for (const item of day.items) {
+        const { allDay, start, end } = this.getEventTimes(day, item);
+
+        const location = [item.location, item.address].filter(Boolean).join(', ');
+        const description = [
+          item.description,
+          options.includeNotes && item.notes ? `Notes: ${item.notes}` : null,
+          options.includeBudget && item.cost > 0 ? `Cost: ${this.formatMoney(item.cost, item.currency)}` : null,
+          item.bookingReference ? `Booking reference: ${item.bookingReference}` : null,
+          `Day ${day.dayNumber} of ${itinerary.title}`,
+        ].filter(Boolean).join('\n');
+
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${item.id}@ethioai-itinerary`,
+          `DTSTAMP:${stamp}`,
+          allDay
+            ? `DTSTART;VALUE=DATE:${this.formatICalDate(start)}`
+            : `DTSTART:${this.formatICalDateTime(start)}`,
+          allDay
+            ? `DTEND;VALUE=DATE:${this.formatICalDate(end)}`
+            : `DTEND:${this.formatICalDateTime(end)}`,
+          `SUMMARY:${this.escapeICalText(item.title)}`,
+          ...(location ? [`LOCATION:${this.escapeICalText(location)}`] : []),
+          `DESCRIPTION:${this.escapeICalText(description)}`,
+          ...(item.latitude != null && item.longitude != null ? [`GEO:${item.latitude};${item.longitude}`] : []),
+          `CATEGORIES:${this.escapeICalText(item.type.toUpperCase())}`,
+          `STATUS:${ICAL_STATUS[item.bookingStatus] || 'TENTATIVE'}`,
+          'END:VEVENT'
+        );
+      }
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return `${lines.map((line) => this.foldICalLine(line)).join('\r\n')}\r\n`;
+  }
+
+  private static escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * GPX file with a waypoint per located item and a track per day joining them in order
+   */
+  private static toGpx(itinerary: FormattedItinerary, options: ItineraryExportOptions): string {
+    const located = itinerary.days.map((day) => ({
+      day,
+      items: day.items.filter((item) => item.latitude != null && item.longitude != null),
+    }));
+
+    if (located.every(({ items }) => items.length === 0)) {
+      throw new ValidationError('None of the exported items have coordinates to put on a map');
+    }
+
+    // GPX times must be UTC and item times are trip-local, so points carry the time in their
+    // description instead
+    const point = (tag: string, item: FormattedItineraryItem, indent: string) => {
+      const description = [
+        item.startTime ? `${item.startTime}${item.endTime ? ` - ${item.endTime}` : ''}` : null,
+        item.description,
+        options.includeNotes ? item.notes : null,
+      ].filter(Boolean).join('\n');
+
+      return [
+        `${indent}<${tag} lat="${item.latitude}" lon="${item.longitude}">`,
+        `${indent}  <name>${this.escapeXml(item.title)}</name>`,
+        ...(description ? [`${indent}  <desc>${this.escapeXml(description)}</desc>`] : []),
+        `${indent}  <type>${this.escapeXml(item.type)}</type>`,
+        `${indent}</${tag}>`,
+      ];
+    };
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gpx version="1.1" creator="EthioAI Tourism" xmlns="http://www.topografix.com/GPX/1/1">',
+      '  <metadata>',
+      `    <name>${this.escapeXml(itinerary.title)}</name>`,
+      ...(itinerary.description ? [`    <desc>${this.escapeXml(itinerary.description)}</desc>`] : []),
+      `    <time>${new Date().toISOString().split('.')[0]}Z</time>`,
+      '  </metadata>',
+    ];
+
+    for (const { items } of located) {
+      items.forEach((item) => lines.push(...point('wpt', item, '  ')));
+    }
+
+    for (const { day, items } of located) {
+      if (items.length === 0) {
+        continue;
+      }
+
+      lines.push(
+        '  <trk>',
+        `    <name>${this.escapeXml(`Day ${day.dayNumber}${day.title ? ` - ${day.title}` : ''}`)}</name>`,
+        `    <number>${day.dayNumber}</number>`,
+        '    <trkseg>',
+        ...items.flatMap((item) => point('trkpt', item, '      ')),
+        '    </trkseg>',
+        '  </trk>'
+      );
+    }
+
+    lines.push('</gpx>');
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Printable day-by-day plan
+   */
+  private static toPdf(itinerary: FormattedItinerary, options: ItineraryExportOptions): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: 50,
+        info: { Title: itinerary.title, Creator: 'EthioAI Tourism' },
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const formatDate = (date: Date) => date.toLocaleDateString('en-US', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: 'UTC',
+      });
+
+      // Trip summary
+      doc.font('Helvetica-Bold').fontSize(22).fillColor('#1F2937').text(itinerary.title);
+      doc.moveDown(0.3);
+      doc.font('Helvetica').fontSize(11).fillColor('#4B5563');
+      if (itinerary.destination) {
+        doc.text(`Destination: ${itinerary.destination}`);
+      }
+      doc.text(`Dates: ${formatDate(itinerary.startDate)} - ${formatDate(itinerary.endDate)} (${itinerary.durationDays} days)`);
+      doc.text(`Travelers: ${itinerary.travelers}`);
+      if (options.includeBudget) {
+        if (itinerary.budget != null) {
+          doc.text(`Budget: ${this.formatMoney(itinerary.budget, itinerary.currency)}`);
+        }
+        doc.text(`Planned cost: ${this.formatMoney(itinerary.actualCost, itinerary.currency)}`);
+      }
+      if (itinerary.description) {
+        doc.moveDown(0.5).fillColor('#374151').text(itinerary.description);
+      }
+
+      for (const day of itinerary.days) {
+        doc.moveDown(1.2);
+        doc.font('Helvetica-Bold').fontSize(15).fillColor('#1D4ED8')
+          .text(`Day ${day.dayNumber} - ${formatDate(day.date)}${day.title ? `: ${day.title}` : ''}`);
+        doc.moveTo(doc.page.margins.left, doc.y + 2)
+          .lineTo(doc.page.width - doc.page.margins.right, doc.y + 2)
+          .strokeColor('#BFDBFE')
+          .stroke();
+        doc.moveDown(0.5);
+
+        if (day.items.length === 0) {
+          doc.font('Helvetica-Oblique').fontSize(10).fillColor('#6B7280').text('Nothing planned yet.');
+        }
+
+        for (const item of day.items) {
+          const time = item.startTime
+            ? `${item.startTime}${item.endTime ? ` - ${item.endTime}` : ''}`
+            : 'Any time';
+
+          doc.moveDown(0.4);
+          doc.font('Helvetica-Bold').fontSize(11).fillColor('#111827')
+            .text(`${time}   ${item.title}`);
+
+          const details = [
+            item.type.charAt(0).toUpperCase() + item.type.slice(1),
+            [item.location, item.address].filter(Boolean).join(', '),
+            item.duration > 0 ? `${item.duration} min` : null,
+            options.includeBudget && item.cost > 0 ? this.formatMoney(item.cost, item.currency) : null,
+            `Booking: ${item.bookingStatus}${item.bookingReference ? ` (${item.bookingReference})` : ''}`,
+          ].filter(Boolean).join('  |  ');
+
+          doc.font('Helvetica').fontSize(9).fillColor('#6B7280').text(details, { indent: 12 });
+
+          if (item.description) {
+            doc.fontSize(10).fillColor('#374151').text(item.description, { indent: 12 });
+          }
+          if (options.includeNotes && item.notes) {
+            doc.font('Helvetica-Oblique').fontSize(9).fillColor('#4B5563').text(`Notes: ${item.notes}`, { indent: 12 });
+          }
+        }
+
+        if (options.includeBudget && day.totalCost > 0) {
+          doc.moveDown(0.4);
+          doc.font('Helvetica-Bold').fontSize(10).fillColor('#065F46')
+            .text(`Day total: ${this.formatMoney(day.totalCost, itinerary.currency)}`, { align: 'right' });
+        }
+
+        if (options.includeNotes && day.notes) {
+          doc.moveDown(0.4);
+          doc.font('Helvetica-Oblique').fontSize(10).fillColor('#4B5563').text(`Day notes: ${day.notes}`);
+        }
+      }
+
+      doc.end();
+    });
+  }
+}
@@ -0,0 +1,1423 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, Itinerary, ItineraryDay, ItineraryItem } from '@prisma/client';
+import {
+  CreateItineraryInput,
+  UpdateItineraryInput,
+  ItineraryQueryInput,
+  ShareItineraryInput,
+  ItineraryStatsQueryInput,
+  ItineraryRecommendationInput,
+  ItineraryExportInput,
+  ItineraryOptimizationInput,
+  ItineraryDayInput,
+  ActivityInput,
+  ItineraryCollaborationInput,
+  AddItineraryItemInput,
+  UpdateItineraryItemInput,
+  UpdateItineraryDayInput,
+} from '../schemas/itinerary.schemas';
+import {
+  NotFoundError,
+  ValidationError,
+  ForbiddenError,
+  ConflictError,
+} from '../middlewares/error.middleware';
+import { calculatePagination, PaginationMeta } from '../utils/response';
+import { config } from '../config';
+import { log } from '../utils/logger';
+import { EmailService } from './email.service';
+import { ItineraryExportService, ItineraryExportFile } from './itinerary-export.service';
+
+const prisma = new PrismaClient();
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MAX_TRIP_DAYS = 365;
+
+const MAX_PAGE_SIZE = 100;
+
+// Radius used for location filtering when the query does not set one
+const DEFAULT_NEARBY_RADIUS_KM = 50;
+
+const PRIORITY_RANK: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+// Activity types from the free-form activity list mapped onto day plan item types
+const ACTIVITY_ITEM_TYPES: Record<string, string> = {
+  transport: 'transport',
+  accommodation: 'hotel',
+  dining: 'restaurant',
+};
+
+const ITINERARY_INCLUDE = Prisma.validator<Prisma.ItineraryInclude>()({
+  days: {
+    orderBy: { dayNumber: 'asc' },
+    include: {
+      items: { orderBy: { position: 'asc' } },
+    },
+  },
+  collaborators: {
+    select: { userId: true, role: true },
+  },
+});
+
+const COLLABORATOR_USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  avatar: true,
+} satisfies Prisma.UserSelect;
+
+type ItineraryWithDays = Prisma.ItineraryGetPayload<{ include: typeof ITINERARY_INCLUDE }>;
+
+export type ItineraryRole = 'owner' | 'editor' | 'viewer';
+
+// Item fields accepted from day plan input as well as from stored items being copied
+type ItemFields = Partial<Omit<ItineraryItem, 'id' | 'dayId' | 'position' | 'cost'>> & {
+  title: string;
+  cost?: number | Prisma.Decimal;
+};
+
+export type FormattedItineraryItem = Omit<ItineraryItem, 'cost'> & { cost: number };
+
+export type FormattedItineraryDay = ItineraryDay & {
+  items: FormattedItineraryItem[];
+  totalCost: number;
+  totalDuration: number;
+};
+
+export type FormattedItinerary = Omit<
+  Itinerary,
+  'budget' | 'destinations' | 'tags' | 'preferences'
+> & {
+  budget: number | null;
+  destinations: any[];
+  tags: string[];
+  preferences: Record<string, any>;
+  days: FormattedItineraryDay[];
+  actualCost: number;
+  isOwner: boolean;
+  role: ItineraryRole;
+};
+
+export interface ItineraryCollaboratorInfo {
+  userId: string;
+  name: string | null;
+  email: string;
+  avatar: string | null;
+  role: ItineraryRole;
+  joinedAt: Date;
+}
+
+export interface ItineraryShareInfo {
+  itineraryId: string;
+  shareToken: string;
+  shareUrl: string;
+  isPublic: boolean;
+  allowComments: boolean;
+  allowCopy: boolean;
+  expiresAt: Date | null;
+}
+
+export class ItineraryService {
+  /**
+   * Parse a JSON text column, falling back when it is empty or malformed
+   */
+  private static parseJson<T>(value: string | null, fallback: T): T {
+    if (!value) {
+      return fallback;
+    }
+
+    try {
+      return JSON.parse(value) ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  /**
+   * Role of a user on an itinerary; anyone outside the trip is a viewer at most
+   */
+  static getRole(itinerary: ItineraryWithDays, userId?: string): ItineraryRole | null {
+    if (!userId) {
+      return null;
+    }
+
+    if (itinerary.userId === userId) {
+      return 'owner';
+    }
+
+    const collaborator = itinerary.collaborators.find((entry) => entry.userId === userId);
+    return collaborator ? (collaborator.role as ItineraryRole) : null;
+  }
+
+  static formatItem(item: ItineraryItem): FormattedItineraryItem {
+    return { ...item, cost: Number(item.cost) };
+  }
+
+  /**
+   * Expand JSON columns and decimals for API responses, hiding the share token from non-owners
+   */
+  static formatItinerary(itinerary: ItineraryWithDays, viewerId?: string): FormattedItinerary {
+    const { days, budget, destinations, tags, preferences, collaborators: _collaborators, ...rest } = itinerary;
+    const role = this.getRole(itinerary, viewerId) || 'viewer';
+    const isOwner = role === 'owner';
+
+    const formattedDays = days.map((day) => {
+      const items = day.items.map((item) => this.formatItem(item));
+
+      return {
+        ...day,
+        items,
+        totalCost: items.reduce((sum, item) => sum + item.cost, 0),
+        totalDuration: items.reduce((sum, item) => sum + item.duration, 0),
+      };
+    });
+
+    return {
+      ...rest,
+      shareToken: isOwner ? rest.shareToken : null,
+      budget: budget != null ? Number(budget) : null,
+      destinations: this.parseJson<any[]>(destinations, []),
+      tags: this.parseJson<string[]>(tags, []),
+      preferences: this.parseJson<Record<string, any>>(preferences, {}),
+      days: formattedDays,
+      actualCost: formattedDays.reduce((sum, day) => sum + day.totalCost, 0),
+      isOwner,
+      role,
+    };
+  }
+
+  /**
+   * Resolve trip dates and length; a day plan longer than the date range extends the end date
+   */
+  private static resolveSchedule(
+    start: string | Date,
+    end: string | Date,
+    dayCount?: number
+  ): { startDate: Date; endDate: Date; durationDays: number } {
+    const startDate = new Date(start);
+    let endDate = new Date(end);
+
+    if (endDate < startDate) {
+      throw new ValidationError('End date must be on or after the start date');
+    }
+
+    let durationDays = Math.floor((endDate.getTime() - startDate.getTime()) / MS_PER_DAY) + 1;
+
+    if (dayCount && dayCount > durationDays) {
+      durationDays = dayCount;
+      endDate = new Date(startDate.getTime() + (durationDays - 1) * MS_PER_DAY);
+    }
+
+    if (durationDays > MAX_TRIP_DAYS) {
+      throw new ValidationError(`Itineraries cannot be longer than ${MAX_TRIP_DAYS} days`);
+    }
+
+    return { startDate, endDate, durationDays };
+  }
+
+  private static getDayDate(startDate: Date, dayNumber: number): Date {
+    return new Date(startDate.getTime() + (dayNumber - 1) * MS_PER_DAY);
+  }
+
+  private static buildItem(
+    item: ItemFields,
+    position: number,
+    id?: string
+  ): Prisma.ItineraryItemCreateWithoutDayInput {
+    return {
+      id,
+      position,
+      type: item.type,
+      title: item.title,
+      description: item.description,
+      category: item.category,
+      location: item.location,
+      address: item.address,
+      latitude: item.latitude,
+      longitude: item.longitude,
+      startTime: item.startTime,
+      endTime: item.endTime,
+      duration: item.duration,
+      cost: item.cost,
+      currency: item.currency,
+      notes: item.notes,
+      priority: item.priority,
+      bookingStatus: item.bookingStatus,
+      bookingReference: item.bookingReference,
+      tourId: item.tourId,
+    };
+  }
+
+  private static activityToItem(activity: ActivityInput): ItemFields {
+    return {
+      type: ACTIVITY_ITEM_TYPES[activity.type] || 'activity',
+      title: activity.title,
+      description: activity.description,
+      category: activity.type,
+      location: activity.location?.name,
+      address: activity.location?.address,
+      latitude: activity.location?.latitude,
+      longitude: activity.location?.longitude,
+      startTime: activity.startTime,
+      endTime: activity.endTime,
+      duration: activity.duration,
+      cost: activity.cost,
+      currency: activity.currency,
+      notes: activity.notes,
+      priority: activity.priority,
+      bookingStatus: activity.isBooked ? 'confirmed' : 'pending',
+      bookingReference: activity.bookingReference,
+    };
+  }
+
+  /**
+   * Build the day rows of an itinerary. Without an explicit day plan every trip day starts
+   * empty, and loose activities are placed on the first day. Items whose ID is in
+   * `reusableIds` keep it, so collaborators editing them are not cut off by a full save.
+   */
+  private static buildDays(
+    startDate: Date,
+    durationDays: number,
+    days?: ItineraryDayInput[],
+    activities: ActivityInput[] = [],
+    reusableIds: Set<string> = new Set()
+  ): Prisma.ItineraryDayCreateWithoutItineraryInput[] {
+    if (days) {
+      return days.map((day, index) => ({
+        dayNumber: index + 1,
+        date: this.getDayDate(startDate, index + 1),
+        title: day.title,
+        notes: day.notes,
+        items: {
+          create: day.items.map((item, position) =>
+            this.buildItem(item, position, item.id && reusableIds.delete(item.id) ? item.id : undefined)
+          ),
+        },
+      }));
+    }
+
+    return Array.from({ length: durationDays }, (_, index) => ({
+      dayNumber: index + 1,
+      date: this.getDayDate(startDate, index + 1),
+      ...(index === 0 && activities.length > 0 && {
+        items: {
+          create: activities.map((activity, position) =>
+            this.buildItem(this.activityToItem(activity), position)
+          ),
+        },
+      }),
+    }));
+  }
+
+  /**
+   * Move existing days onto new trip dates, adding empty days or dropping empty trailing ones
+   */
+  private static async rescheduleDays(
+    tx: Prisma.TransactionClient,
+    itineraryId: string,
+    startDate: Date,
+    durationDays: number
+  ): Promise<void> {
+    const days = await tx.itineraryDay.findMany({
+      where: { itineraryId },
+      include: { _count: { select: { items: true } } },
+      orderBy: { dayNumber: 'asc' },
+    });
+
+    const dropped = days.filter((day) => day.dayNumber > durationDays);
+    if (dropped.some((day) => day._count.items > 0)) {
+      throw new ValidationError('Move or remove the items planned after the new end date first');
+    }
+
+    if (dropped.length > 0) {
+      await tx.itineraryDay.deleteMany({
+        where: { id: { in: dropped.map((day) => day.id) } },
+      });
+    }
+
+    const kept = days.filter((day) => day.dayNumber <= durationDays);
+    for (const day of kept) {
+      await tx.itineraryDay.update({
+        where: { id: day.id },
+        data: { date: this.getDayDate(startDate, day.dayNumber) },
+      });
+    }
+
+    const existingNumbers = new Set(kept.map((day) => day.dayNumber));
+    const missing = Array.from({ length: durationDays }, (_, index) => index + 1)
+      .filter((dayNumber) => !existingNumbers.has(dayNumber));
+
+    if (missing.length > 0) {
+      await tx.itineraryDay.createMany({
+        data: missing.map((dayNumber) => ({
+          itineraryId,
+          dayNumber,
+          date: this.getDayDate(startDate, dayNumber),
+        })),
+      });
+    }
+  }
+
+  private static serializePreferences(
+    data: Pick<UpdateItineraryInput, 'transportation' | 'accommodation' | 'preferences'>
+  ): string | undefined {
+    if (!data.transportation && !data.accommodation && !data.preferences) {
+      return undefined;
+    }
+
+    return JSON.stringify({
+      transportation: data.transportation,
+      accommodation: data.accommodation,
+      preferences: data.preferences,
+    });
+  }
+
+  /**
+   * Load an itinerary the user owns
+   */
+  private static async getOwnedItinerary(
+    id: string,
+    userId: string,
+    message: string,
+    client: DbClient = prisma
+  ): Promise<ItineraryWithDays> {
+    const itinerary = await client.itinerary.findUnique({
+      where: { id },
+      include: ITINERARY_INCLUDE,
+    });
+
+    if (!itinerary) {
+      throw new NotFoundError('Itinerary not found');
+    }
+
+    if (itinerary.userId !== userId) {
+      throw new ForbiddenError(message);
+    }
+
+    return itinerary;
+  }
+
+  /**
+   * Load an itinerary the user owns or was invited to edit
+   */
+  private static async getEditableItinerary(
+    id: string,
+    userId: string,
+    message: string,
+    client: DbClient = prisma
+  ): Promise<ItineraryWithDays> {
+    const itinerary = await client.itinerary.findUnique({
+      where: { id },
+      include: ITINERARY_INCLUDE,
+    });
+
+    if (!itinerary) {
+      throw new NotFoundError('Itinerary not found');
+    }
+
+    const role = this.getRole(itinerary, userId);
+    if (role !== 'owner' && role !== 'editor') {
+      throw new ForbiddenError(message);
+    }
+
+    return itinerary;
+  }
+
+  /**
+   * Role of a user on an itinerary, or null when they are neither its owner nor a collaborator
+   */
+  static async getMemberRole(id: string, userId: string): Promise<ItineraryRole | null> {
+    const itinerary = await prisma.itinerary.findUnique({
+      where: { id },
+      select: {
+        userId: true,
+        collaborators: { where: { userId }, select: { role: true } },
+      },
+    });
+
+    if (!itinerary) {
+      throw new NotFoundError('Itinerary not found');
+    }
+
+    if (itinerary.userId === userId) {
+      return 'owner';
+    }
+
+    return (itinerary.collaborators[0]?.role as ItineraryRole) || null;
+  }
+
+  /**
+   * Load an itinerary by ID or share token, checking that the viewer may see it
+   */
+  private static async getAccessibleItinerary(
+    idOrToken: string,
+    userId?: string
+  ): Promise<{ itinerary: ItineraryWithDays; isOwner: boolean; isMember: boolean }> {
+    const itinerary = await prisma.itinerary.findFirst({
+      where: { OR: [{ id: idOrToken }, { shareToken: idOrToken }] },
+      include: ITINERARY_INCLUDE,
+    });
+
+    if (!itinerary) {
+      throw new NotFoundError('Itinerary not found');
+    }
+
+    const role = this.getRole(itinerary, userId);
+    const isOwner = role === 'owner';
+    if (role) {
+      return { itinerary, isOwner, isMember: true };
+    }
+
+    const viaShareToken = itinerary.shareToken === idOrToken;
+    if (viaShareToken && itinerary.shareExpiresAt && itinerary.shareExpiresAt <= new Date()) {
+      throw new ForbiddenError('This share link has expired');
+    }
+
+    if (!viaShareToken && !itinerary.isPublic) {
+      throw new ForbiddenError('You do not have permission to view this itinerary');
+    }
+
+    return { itinerary, isOwner, isMember: false };
+  }
+
+  /**
+   * Create an itinerary with its day plan
+   */
+  static async createItinerary(data: CreateItineraryInput, userId: string): Promise<FormattedItinerary> {
+    const { startDate, endDate, durationDays } = this.resolveSchedule(
+      data.startDate,
+      data.endDate,
+      data.days?.length
+    );
+
+    const destinations = data.destinations || [];
+
+    const itinerary = await prisma.itinerary.create({
+      data: {
+        userId,
+        title: data.title,
+        description: data.description,
+        destination: data.destination ?? destinations[0]?.name,
+        startDate,
+        endDate,
+        durationDays,
+        travelers: data.groupSize,
+        budget: data.budget,
+        currency: data.currency,
+        status: data.status,
+        travelStyle: data.travelStyle,
+        source: data.source,
+        destinations: JSON.stringify(destinations),
+        tags: JSON.stringify(data.tags || []),
+        preferences: this.serializePreferences(data),
+        isPublic: data.isPublic,
+        days: {
+          create: this.buildDays(startDate, durationDays, data.days, data.activities),
+        },
+      },
+      include: ITINERARY_INCLUDE,
+    });
+
+    log.info('Itinerary created', { itineraryId: itinerary.id, userId, durationDays });
+
+    return this.formatItinerary(itinerary, userId);
+  }
+
+  /**
+   * List itineraries. Signed-in users see their own and those shared with them unless public
+   * ones are asked for; anonymous callers only ever see public itineraries.
+   */
+  static async getItineraries(query: Partial<ItineraryQueryInput> = {}, userId?: string): Promise<{
+    itineraries: FormattedItinerary[];
+    pagination: PaginationMeta;
+  }> {
+    const {
+      page = 1,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+      isPublic,
+      travelStyle,
+      status,
+      startDateFrom,
+      startDateTo,
+      endDateFrom,
+      endDateTo,
+      minBudget,
+      maxBudget,
+      minDuration,
+      maxDuration,
+      minGroupSize,
+      maxGroupSize,
+      search,
+      tags,
+      destinations,
+      nearLatitude,
+      nearLongitude,
+      radiusKm,
+    } = query;
+    const limit = Math.min(query.limit || 10, MAX_PAGE_SIZE);
+
+    const where: Prisma.ItineraryWhereInput = {};
+    const conditions: Prisma.ItineraryWhereInput[] = [];
+
+    if (isPublic || !userId) {
+      where.isPublic = true;
+    } else {
+      conditions.push({
+        OR: [
+          { userId },
+          { collaborators: { some: { userId } } },
+        ],
+      });
+    }
+
+    if (travelStyle) {
+      where.travelStyle = travelStyle;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (startDateFrom || startDateTo) {
+      where.startDate = {};
+      if (startDateFrom) where.startDate.gte = startDateFrom;
+      if (startDateTo) where.startDate.lte = startDateTo;
+    }
+
+    if (endDateFrom || endDateTo) {
+      where.endDate = {};
+      if (endDateFrom) where.endDate.gte = endDateFrom;
+      if (endDateTo) where.endDate.lte = endDateTo;
+    }
+
+    if (minBudget !== undefined || maxBudget !== undefined) {
+      where.budget = {};
+      if (minBudget !== undefined) where.budget.gte = minBudget;
+      if (maxBudget !== undefined) where.budget.lte = maxBudget;
+    }
+
+    if (minDuration !== undefined || maxDuration !== undefined) {
+      where.durationDays = {};
+      if (minDuration !== undefined) where.durationDays.gte = minDuration;
+      if (maxDuration !== undefined) where.durationDays.lte = maxDuration;
+    }
+
+    if (minGroupSize !== undefined || maxGroupSize !== undefined) {
+      where.travelers = {};
+      if (minGroupSize !== undefined) where.travelers.gte = minGroupSize;
+      if (maxGroupSize !== undefined) where.travelers.lte = maxGroupSize;
+    }
+
+    if (search) {
+      conditions.push({
+        OR: [
+          { title: { contains: search } },
+          { description: { contains: search } },
+          { destination: { contains: search } },
+        ],
+      });
+    }
+
+    // Tags are stored as a JSON array, so match the quoted value
+    if (tags) {
+      tags.split(',').map((tag) => tag.trim()).filter(Boolean).forEach((tag) => {
+        conditions.push({ tags: { contains: JSON.stringify(tag) } });
+      });
+    }
+
+    if (destinations) {
+      const names = destinations.split(',').map((name) => name.trim()).filter(Boolean);
+      if (names.length > 0) {
+        conditions.push({
+          OR: names.flatMap((name) => [
+            { destination: { contains: name } },
+            { destinations: { contains: name } },
+          ]),
+        });
+      }
+    }
+
+    // Bounding box around the point, matched against the coordinates of planned items
+    if (nearLatitude !== undefined && nearLongitude !== undefined) {
+      const radius = radiusKm || DEFAULT_NEARBY_RADIUS_KM;
+      const latDelta = radius / 111;
+      const lngDelta = radius / (111 * Math.max(Math.cos((nearLatitude * Math.PI) / 180), 0.01));
+
+      conditions.push({
+        days: {
+          some: {
+            items: {
+              some: {
+                latitude: { gte: nearLatitude - latDelta, lte: nearLatitude + latDelta },
+                longitude: { gte: nearLongitude - lngDelta, lte: nearLongitude + lngDelta },
+              },
+            },
+          },
+        },
+      });
+    }
+
+    if (conditions.length > 0) {
+      where.AND = conditions;
+    }
+
+    const orderBy: Prisma.ItineraryOrderByWithRelationInput = { [sortBy]: sortOrder };
+
+    const [itineraries, total] = await Promise.all([
+      prisma.itinerary.findMany({
+        where,
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit,
+        include: ITINERARY_INCLUDE,
+      }),
+      prisma.itinerary.count({ where }),
+    ]);
+
+    return {
+      itineraries: itineraries.map((itinerary) => this.formatItinerary(itinerary, userId)),
+      pagination: calculatePagination(page, limit, total),
+    };
+  }
+
+  /**
+   * Get an itinerary by ID or share token; views by anyone outside the trip are counted
+   */
+  static async getItineraryById(idOrToken: string, userId?: string): Promise<FormattedItinerary> {
+    const { itinerary, isMember } = await this.getAccessibleItinerary(idOrToken, userId);
+
+    if (!isMember) {
+      // Keep updatedAt untouched, it tracks edits rather than views
+      await prisma.itinerary.update({
+        where: { id: itinerary.id },
+        data: { viewCount: { increment: 1 }, updatedAt: itinerary.updatedAt },
+      });
+      itinerary.viewCount += 1;
+    }
+
+    return this.formatItinerary(itinerary, userId);
+  }
+
+  /**
+   * Update an itinerary. A submitted day plan replaces the stored one, keeping the IDs of
+   * items it still contains; changing only the dates moves the existing days onto the new range.
+   */
+  static async updateItinerary(
+    id: string,
+    data: UpdateItineraryInput,
+    userId: string
+  ): Promise<FormattedItinerary> {
+    const existing = await this.getEditableItinerary(id, userId, 'You do not have permission to update this itinerary');
+
+    if (data.isPublic !== undefined && existing.userId !== userId) {
+      throw new ForbiddenError('Only the owner can change the visibility of this itinerary');
+    }
+
+    const existingItemIds = new Set(existing.days.flatMap((day) => day.items.map((item) => item.id)));
+
+    const { startDate, endDate, durationDays } = this.resolveSchedule(
+      data.startDate ?? existing.startDate,
+      data.endDate ?? existing.endDate,
+      data.days?.length
+    );
+    const datesChanged = startDate.getTime() !== existing.startDate.getTime()
+      || durationDays !== existing.durationDays;
+
+    const itinerary = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      if (data.days) {
+        await tx.itineraryDay.deleteMany({ where: { itineraryId: id } });
+      } else if (datesChanged) {
+        await this.rescheduleDays(tx, id, startDate, durationDays);
+      }
+
+      return tx.itinerary.update({
+        where: { id },
+        data: {
+          title: data.title,
+          description: data.description,
+          destination: data.destination,
+          startDate,
+          endDate,
+          durationDays,
+          travelers: data.groupSize,
+          budget: data.budget,
+          currency: data.currency,
+          status: data.status,
+          travelStyle: data.travelStyle,
+          isPublic: data.isPublic,
+          ...(data.destinations && { destinations: JSON.stringify(data.destinations) }),
+          ...(data.tags && { tags: JSON.stringify(data.tags) }),
+          preferences: this.serializePreferences(data),
+          ...(data.days && {
+            days: { create: this.buildDays(startDate, durationDays, data.days, [], existingItemIds) },
+          }),
+        },
+        include: ITINERARY_INCLUDE,
+      });
+    });
+
+    log.info('Itinerary updated', { itineraryId: id, userId, replacedDays: !!data.days });
+
+    return this.formatItinerary(itinerary, userId);
+  }
+
+  /**
+   * Delete an itinerary with its days and items
+   */
+  static async deleteItinerary(id: string, userId: string): Promise<void> {
+    await this.getOwnedItinerary(id, userId, 'You do not have permission to delete this itinerary');
+
+    await prisma.itinerary.delete({ where: { id } });
+
+    log.info('Itinerary deleted', { itineraryId: id, userId });
+  }
+
+  /**
+   * Create or update the share link of an itinerary
+   */
+  static async shareItinerary(
+    id: string,
+    data: ShareItineraryInput,
+    userId: string
+  ): Promise<ItineraryShareInfo> {
+    const existing = await this.getOwnedItinerary(id, userId, 'You do not have permission to share this itinerary');
+
+    const expiresAt = data.expiresAt ? new Date(data.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new ValidationError('Share expiration must be in the future');
+    }
+
+    let shareToken = existing.shareToken;
+    if (data.shareToken && data.shareToken !== existing.shareToken) {
+      const taken = await prisma.itinerary.findUnique({
+        where: { shareToken: data.shareToken },
+        select: { id: true },
+      });
+
+      if (taken) {
+        throw new ConflictError('This share token is already in use');
+      }
+
+      shareToken = data.shareToken;
+    }
+
+    const itinerary = await prisma.itinerary.update({
+      where: { id },
+      data: {
+        shareToken: shareToken || crypto.randomBytes(16).toString('hex'),
+        shareExpiresAt: expiresAt,
+        isPublic: data.isPublic,
+        allowComments: data.allowComments,
+        allowCopy: data.allowCopy,
+      },
+    });
+
+    log.info('Itinerary share settings updated', { itineraryId: id, userId, isPublic: itinerary.isPublic });
+
+    return {
+      itineraryId: itinerary.id,
+      shareToken: itinerary.shareToken!,
+      shareUrl: `${config.client.url}/itinerary/shared/${itinerary.shareToken}`,
+      isPublic: itinerary.isPublic,
+      allowComments: itinerary.allowComments,
+      allowCopy: itinerary.allowCopy,
+      expiresAt: itinerary.shareExpiresAt,
+    };
+  }
+
+  /**
+   * Copy an itinerary the user can see into a private draft of their own
+   */
+  static async copyItinerary(idOrToken: string, userId: string, title?: string): Promise<FormattedItinerary> {
+    const { itinerary: original, isOwner } = await this.getAccessibleItinerary(idOrToken, userId);
+
+    if (!isOwner && !original.allowCopy) {
+      throw new ForbiddenError('The owner of this itinerary does not allow copies');
+    }
+
+    // Bookings belong to the original traveller, so copied items start unbooked
+    const copy = await prisma.itinerary.create({
+      data: {
+        userId,
+        title: title || `Copy of ${original.title}`,
+        description: original.description,
+        destination: original.destination,
+        startDate: original.startDate,
+        endDate: original.endDate,
+        durationDays: original.durationDays,
+        travelers: original.travelers,
+        budget: original.budget,
+        currency: original.currency,
+        travelStyle: original.travelStyle,
+        source: 'COPY',
+        copiedFromId: original.id,
+        destinations: original.destinations,
+        tags: original.tags,
+        preferences: original.preferences,
+        days: {
+          create: original.days.map((day) => ({
+            dayNumber: day.dayNumber,
+            date: day.date,
+            title: day.title,
+            notes: day.notes,
+            items: {
+              create: day.items.map((item) => this.buildItem({
+                ...item,
+                bookingStatus: 'pending',
+                bookingReference: null,
+              }, item.position)),
+            },
+          })),
+        },
+      },
+      include: ITINERARY_INCLUDE,
+    });
+
+    log.info('Itinerary copied', { originalId: original.id, copyId: copy.id, userId });
+
+    return this.formatItinerary(copy, userId);
+  }
+
+  /**
+   * List the owner and invited collaborators of an itinerary
+   */
+  static async getCollaborators(id: string, userId: string): Promise<ItineraryCollaboratorInfo[]> {
+    const itinerary = await prisma.itinerary.findUnique({
+      where: { id },
+      select: {
+        userId: true,
+        createdAt: true,
+        user: { select: COLLABORATOR_USER_SELECT },
+        collaborators: {
+          orderBy: { createdAt: 'asc' },
+          include: { user: { select: COLLABORATOR_USER_SELECT } },
+        },
+      },
+    });
+
+    if (!itinerary) {
+      throw new NotFoundError('Itinerary not found');
+    }
+
+    const isMember = itinerary.userId === userId
+      || itinerary.collaborators.some((collaborator) => collaborator.userId === userId);
+    if (!isMember) {
+      throw new ForbiddenError('You do not have permission to view the collaborators of this itinerary');
+    }
+
+    return [
+      {
+        userId: itinerary.user.id,
+        name: itinerary.user.name,
+        email: itinerary.user.email,
+        avatar: itinerary.user.avatar,
+        role: 'owner',
+        joinedAt: itinerary.createdAt,
+      },
+      ...itinerary.collaborators.map((collaborator) => ({
+        userId: collaborator.user.id,
+        name: collaborator.user.name,
+        email: collaborator.user.email,
+        avatar: collaborator.user.avatar,
+        role: collaborator.role as ItineraryRole,
+        joinedAt: collaborator.createdAt,
+      })),
+    ];
+  }
+
+  /**
+   * Invite a registered user to an itinerary, or change the role of an existing collaborator
+   */
+  static async addCollaborator(
+    id: string,
+    data: ItineraryCollaborationInput,
+    userId: string
+  ): Promise<ItineraryCollaboratorInfo> {
+    const itinerary = await this.getOwnedItinerary(id, userId, 'Only the owner can invite collaborators');
+
+    const invitee = await prisma.user.findUnique({
+      where: { email: data.email.toLowerCase() },
+      select: COLLABORATOR_USER_SELECT,
+    });
+
+    if (!invitee) {
+      throw new NotFoundError('No user is registered with this email address');
+    }
+
+    if (invitee.id === itinerary.userId) {
+      throw new ValidationError('The owner of an itinerary cannot be invited to it');
+    }
+
+    const collaborator = await prisma.itineraryCollaborator.upsert({
+      where: { itineraryId_userId: { itineraryId: id, userId: invitee.id } },
+      create: { itineraryId: id, userId: invitee.id, role: data.role, invitedById: userId },
+      update: { role: data.role },
+    });
+
+    log.info('Itinerary collaborator added', { itineraryId: id, userId, collaboratorId: invitee.id, role: data.role });
+
+    const inviter = await prisma.user.findUnique({ where: { id: userId }, select: { name: true, email: true } });
+
+    // The invitation stands even if the notice cannot be delivered
+    EmailService.sendItineraryInvitation(invitee.email, invitee.name || 'Traveler', {
+      inviterName: inviter?.name || inviter?.email || 'A fellow traveler',
+      itineraryTitle: itinerary.title,
+      role: data.role,
+      message: data.message,
+      itineraryUrl: `${config.client.url}/itinerary/${id}`,
+    }).catch((error) => {
+      log.error('Failed to send itinerary invitation', { itineraryId: id, collaboratorId: invitee.id, error });
+    });
+
+    return {
+      userId: invitee.id,
+      name: invitee.name,
+      email: invitee.email,
+      avatar: invitee.avatar,
+      role: collaborator.role as ItineraryRole,
+      joinedAt: collaborator.createdAt,
+    };
+  }
+
+  /**
+   * Remove a collaborator; the owner can remove anyone and collaborators can leave themselves
+   */
+  static async removeCollaborator(id: string, collaboratorId: string, userId: string): Promise<void> {
+    const itinerary = await prisma.itinerary.findUnique({ where: { id }, select: { userId: true } });
+
+    if (!itinerary) {
+      throw new NotFoundError('Itinerary not found');
+    }
+
+    if (itinerary.userId !== userId && collaboratorId !== userId) {
+      throw new ForbiddenError('Only the owner can remove other collaborators');
+    }
+
+    const { count } = await prisma.itineraryCollaborator.deleteMany({
+      where: { itineraryId: id, userId: collaboratorId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError('Collaborator not found');
+    }
+
+    log.info('Itinerary collaborator removed', { itineraryId: id, userId, collaboratorId });
+  }
+
+  /**
+   * Store the item order of a day as consecutive positions
+   */
+  private static async writePositions(tx: Prisma.TransactionClient, itemIds: string[]): Promise<void> {
+    for (const [position, itemId] of itemIds.entries()) {
+      await tx.itineraryItem.update({ where: { id: itemId }, data: { position } });
+    }
+  }
+
+  /**
+   * Order of a day's items with one item placed at a position (appended when none is given)
+   */
+  private static async orderWithItem(
+    tx: Prisma.TransactionClient,
+    dayId: string,
+    itemId: string,
+    position?: number
+  ): Promise<string[]> {
+    const items = await tx.itineraryItem.findMany({
+      where: { dayId, id: { not: itemId } },
+      orderBy: { position: 'asc' },
+      select: { id: true },
+    });
+
+    const ordered = items.map((item) => item.id);
+    ordered.splice(position ?? ordered.length, 0, itemId);
+    return ordered;
+  }
+
+  private static async touchItinerary(tx: Prisma.TransactionClient, id: string): Promise<void> {
+    await tx.itinerary.update({ where: { id }, data: { updatedAt: new Date() } });
+  }
+
+  /**
+   * Add an item to one day of an itinerary
+   */
+  static async addItem(
+    id: string,
+    dayNumber: number,
+    data: AddItineraryItemInput,
+    userId: string
+  ): Promise<{ dayNumber: number; item: FormattedItineraryItem; order: string[] }> {
+    const itinerary = await this.getEditableItinerary(id, userId, 'You do not have permission to edit this itinerary');
+
+    const day = itinerary.days.find((entry) => entry.dayNumber === dayNumber);
+    if (!day) {
+      throw new NotFoundError(`Day ${dayNumber} is not part of this itinerary`);
+    }
+
+    const { position, ...fields } = data;
+
+    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const item = await tx.itineraryItem.create({
+        data: { ...this.buildItem(fields, day.items.length), day: { connect: { id: day.id } } },
+      });
+
+      const order = await this.orderWithItem(tx, day.id, item.id, position);
+      await this.writePositions(tx, order);
+      await this.touchItinerary(tx, id);
+
+      return { item: { ...item, position: order.indexOf(item.id) }, order };
+    });
+
+    log.info('Itinerary item added', { itineraryId: id, userId, itemId: result.item.id, dayNumber });
+
+    return { dayNumber, item: this.formatItem(result.item), order: result.order };
+  }
+
+  /**
+   * Update the submitted fields of an item, optionally moving it to another day or position.
+   * Fields that were not submitted are left alone, so collaborators editing different fields
+   * of the same item do not overwrite each other.
+   */
+  static async updateItem(
+    id: string,
+    itemId: string,
+    data: UpdateItineraryItemInput,
+    userId: string
+  ): Promise<{ dayNumber: number; previousDayNumber: number; item: FormattedItineraryItem; order: string[] }> {
+    const itinerary = await this.getEditableItinerary(id, userId, 'You do not have permission to edit this itinerary');
+
+    const sourceDay = itinerary.days.find((day) => day.items.some((item) => item.id === itemId));
+    if (!sourceDay) {
+      throw new NotFoundError('Itinerary item not found');
+    }
+
+    const { dayNumber = sourceDay.dayNumber, position, ...fields } = data;
+    const targetDay = itinerary.days.find((day) => day.dayNumber === dayNumber);
+    if (!targetDay) {
+      throw new NotFoundError(`Day ${dayNumber} is not part of this itinerary`);
+    }
+
+    const moved = targetDay.id !== sourceDay.id;
+
+    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.itineraryItem.update({
+        where: { id: itemId },
+        data: { ...fields, dayId: targetDay.id },
+      });
+
+      let order = targetDay.items.map((item) => item.id);
+      if (moved || position !== undefined) {
+        order = await this.orderWithItem(tx, targetDay.id, itemId, position);
+        await this.writePositions(tx, order);
+      }
+
+      if (moved) {
+        await this.writePositions(
+          tx,
+          sourceDay.items.filter((item) => item.id !== itemId).map((item) => item.id)
+        );
+      }
+
+      await this.touchItinerary(tx, id);
+
+      const item = await tx.itineraryItem.findUniqueOrThrow({ where: { id: itemId } });
+      return { item, order };
+    });
+
+    log.info('Itinerary item updated', { itineraryId: id, userId, itemId, fields: Object.keys(data) });
+
+    return {
+      dayNumber,
+      previousDayNumber: sourceDay.dayNumber,
+      item: this.formatItem(result.item),
+      order: result.order,
+    };
+  }
+
+  /**
+   * Remove an item from an itinerary
+   */
+  static async deleteItem(id: string, itemId: string, userId: string): Promise<{ dayNumber: number }> {
+    const itinerary = await this.getEditableItinerary(id, userId, 'You do not have permission to edit this itinerary');
+
+    const day = itinerary.days.find((entry) => entry.items.some((item) => item.id === itemId));
+    if (!day) {
+      throw new NotFoundError('Itinerary item not found');
+    }
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.itineraryItem.delete({ where: { id: itemId } });
+      await this.writePositions(tx, day.items.filter((item) => item.id !== itemId).map((item) => item.id));
+      await this.touchItinerary(tx, id);
+    });
+
+    log.info('Itinerary item deleted', { itineraryId: id, userId, itemId, dayNumber: day.dayNumber });
+
+    return { dayNumber: day.dayNumber };
+  }
+
+  /**
+   * Update the title or notes of one day
+   */
+  static async updateDay(
+    id: string,
+    dayNumber: number,
+    data: UpdateItineraryDayInput,
+    userId: string
+  ): Promise<ItineraryDay> {
+    const itinerary = await this.getEditableItinerary(id, userId, 'You do not have permission to edit this itinerary');
+
+    const day = itinerary.days.find((entry) => entry.dayNumber === dayNumber);
+    if (!day) {
+      throw new NotFoundError(`Day ${dayNumber} is not part of this itinerary`);
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.itineraryDay.update({
+        where: { id: day.id },
+        data: { title: data.title, notes: data.notes },
+      }),
+      prisma.itinerary.update({ where: { id }, data: { updatedAt: new Date() } }),
+    ]);
+
+    log.info('Itinerary day updated', { itineraryId: id, userId, dayNumber });
+
+    return updated;
+  }
+
+  /**
+   * Recommend public itineraries matching the traveller's preferences
+   */
+  static async getRecommendations(data: ItineraryRecommendationInput): Promise<FormattedItinerary[]> {
+    const where: Prisma.ItineraryWhereInput = { isPublic: true };
+
+    if (data.travelStyle) {
+      where.travelStyle = data.travelStyle;
+    }
+
+    if (data.duration) {
+      where.durationDays = { gte: Math.max(data.duration - 2, 1), lte: data.duration + 2 };
+    }
+
+    if (data.budget !== undefined) {
+      where.OR = [{ budget: null }, { budget: { lte: data.budget } }];
+    }
+
+    const candidates = await prisma.itinerary.findMany({
+      where,
+      orderBy: { viewCount: 'desc' },
+      take: MAX_PAGE_SIZE,
+      include: ITINERARY_INCLUDE,
+    });
+
+    const normalize = (values?: string[]) => (values || []).map((value) => value.toLowerCase());
+    const preferred = normalize(data.preferredDestinations);
+    const avoided = normalize(data.avoidDestinations);
+    const interests = normalize(data.interests);
+
+    return candidates
+      .map((itinerary) => this.formatItinerary(itinerary))
+      .map((itinerary) => {
+        const places = [
+          itinerary.destination,
+          ...itinerary.destinations.map((destination) => destination?.name),
+        ].filter(Boolean).map((place: string) => place.toLowerCase());
+        const tags = normalize(itinerary.tags);
+
+        return {
+          itinerary,
+          avoided: places.some((place) => avoided.some((name) => place.includes(name))),
+          score: places.filter((place) => preferred.some((name) => place.includes(name))).length * 2
+            + tags.filter((tag) => interests.includes(tag)).length,
+        };
+      })
+      .filter((candidate) => !candidate.avoided)
+      .sort((a, b) => b.score - a.score || b.itinerary.viewCount - a.itinerary.viewCount)
+      .slice(0, data.limit)
+      .map((candidate) => candidate.itinerary);
+  }
+
+  private static compareStartTimes(a: ItineraryItem, b: ItineraryItem): number {
+    if (a.startTime && b.startTime) return a.startTime.localeCompare(b.startTime);
+    if (a.startTime) return -1;
+    if (b.startTime) return 1;
+    return a.position - b.position;
+  }
+
+  private static comparePriority(a: ItineraryItem, b: ItineraryItem): number {
+    return (PRIORITY_RANK[a.priority] ?? 1) - (PRIORITY_RANK[b.priority] ?? 1);
+  }
+
+  /**
+   * Visit located items nearest-first from the first one; items without coordinates keep
+   * their order at the end of the day
+   */
+  private static orderByDistance(items: ItineraryItem[]): ItineraryItem[] {
+    const located = items.filter((item) => item.latitude != null && item.longitude != null);
+    const unlocated = items.filter((item) => item.latitude == null || item.longitude == null);
+    const route: ItineraryItem[] = [];
+
+    let current = located.shift();
+    while (current) {
+      route.push(current);
+      const from = current;
+      located.sort((a, b) =>
+        Math.hypot(a.latitude! - from.latitude!, a.longitude! - from.longitude!)
+        - Math.hypot(b.latitude! - from.latitude!, b.longitude! - from.longitude!)
+      );
+      current = located.shift();
+    }
+
+    return [...route, ...unlocated];
+  }
+
+  private static formatTime(minutes: number): string {
+    const clamped = Math.min(minutes, 23 * 60 + 59);
+    return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+  }
+
+  /**
+   * Reorder the items of every day for the chosen goal and, when a preferred start time is
+   * given, lay them out back to back from that time
+   */
+  static async optimizeItinerary(
+    id: string,
+    data: ItineraryOptimizationInput,
+    userId: string
+  ): Promise<FormattedItinerary> {
+    const itinerary = await this.getEditableItinerary(id, userId, 'You do not have permission to optimize this itinerary');
+    const { constraints } = data;
+
+    const updates: { id: string; position: number; startTime?: string; endTime?: string }[] = [];
+
+    for (const day of itinerary.days) {
+      let ordered = [...day.items];
+
+      if (data.optimizeFor === 'distance') {
+        ordered = this.orderByDistance(ordered);
+      } else if (data.optimizeFor === 'time') {
+        ordered.sort((a, b) => this.compareStartTimes(a, b));
+      } else if (data.optimizeFor === 'cost') {
+        ordered.sort((a, b) => this.comparePriority(a, b) || Number(a.cost) - Number(b.cost));
+      } else {
+        ordered.sort((a, b) => this.comparePriority(a, b) || this.compareStartTimes(a, b));
+      }
+
+      const [startHours, startMinutes] = (constraints?.preferredStartTime || '').split(':').map(Number);
+      let clock = constraints?.preferredStartTime && !isNaN(startHours) && !isNaN(startMinutes)
+        ? startHours * 60 + startMinutes
+        : null;
+
+      ordered.forEach((item, position) => {
+        if (clock === null) {
+          updates.push({ id: item.id, position });
+          return;
+        }
+
+        const startTime = this.formatTime(clock);
+        clock += item.duration;
+        updates.push({ id: item.id, position, startTime, endTime: this.formatTime(clock) });
+        clock += constraints?.breakDuration || 0;
+      });
+    }
+
+    await prisma.$transaction(
+      updates.map(({ id: itemId, ...fields }) =>
+        prisma.itineraryItem.update({ where: { id: itemId }, data: fields })
+      )
+    );
+
+    log.info('Itinerary optimized', { itineraryId: id, userId, optimizeFor: data.optimizeFor });
+
+    const optimized = await this.getEditableItinerary(id, userId, 'You do not have permission to view this itinerary');
+    return this.formatItinerary(optimized, userId);
+  }
+
+  /**
+   * Export an itinerary as JSON, CSV, iCalendar, PDF or GPX, optionally limited to one day
+   */
+  static async exportItinerary(
+    idOrToken: string,
+    data: Partial<ItineraryExportInput>,
+    userId?: string
+  ): Promise<ItineraryExportFile> {
+    const { itinerary } = await this.getAccessibleItinerary(idOrToken, userId);
+
+    return ItineraryExportService.export(
+      this.formatItinerary(itinerary, userId),
+      data.format || 'json',
+      {
+        includeNotes: data.includeNotes !== false,
+        includeBudget: data.includeBudget !== false,
+        includeActivities: data.includeActivities !== false,
+      },
+      data.day
+    );
+  }
+
+  /**
+   * Get itinerary statistics
+   */
+  static async getItineraryStats(query: Partial<ItineraryStatsQueryInput> = {}): Promise<any> {
+    const where: Prisma.ItineraryWhereInput = {};
+
+    if (query.userId) {
+      where.userId = query.userId;
+    }
+
+    if (query.travelStyle) {
+      where.travelStyle = query.travelStyle;
+    }
+
+    if (query.isPublic !== undefined) {
+      where.isPublic = query.isPublic;
+    }
+
+    if (query.startDate || query.endDate) {
+      where.createdAt = {};
+      if (query.startDate) where.createdAt.gte = query.startDate;
+      if (query.endDate) where.createdAt.lte = query.endDate;
+    }
+
+    const [
+      totalItineraries,
+      publicItineraries,
+      draftItineraries,
+      confirmedItineraries,
+      completedItineraries,
+      generatedItineraries,
+      copiedItineraries,
+      aggregates,
+    ] = await Promise.all([
+      prisma.itinerary.count({ where }),
+      prisma.itinerary.count({ where: { ...where, isPublic: true } }),
+      prisma.itinerary.count({ where: { ...where, status: 'draft' } }),
+      prisma.itinerary.count({ where: { ...where, status: 'confirmed' } }),
+      prisma.itinerary.count({ where: { ...where, status: 'completed' } }),
+      prisma.itinerary.count({ where: { ...where, source: 'GENERATED' } }),
+      prisma.itinerary.count({ where: { ...where, source: 'COPY' } }),
+      prisma.itinerary.aggregate({
+        where,
+        _avg: { durationDays: true, travelers: true, budget: true },
+        _sum: { viewCount: true },
+      }),
+    ]);
+
+    return {
+      totalItineraries,
+      publicItineraries,
+      draftItineraries,
+      confirmedItineraries,
+      completedItineraries,
+      generatedItineraries,
+      copiedItineraries,
+      averageDuration: aggregates._avg.durationDays || 0,
+      averageTravelers: aggregates._avg.travelers || 0,
+      averageBudget: Number(aggregates._avg.budget || 0),
+      totalViews: aggregates._sum.viewCount || 0,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import { PrismaClient, Prisma } from '@prisma/client'
+import {
+  UserSegment,
+  BookingHistoryCriteria,
+  AudiencePreview
+} from '../../types/notification.types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Booking states that count as booking history when a segment does not say
+const DEFAULT_BOOKING_STATUSES = ['CONFIRMED', 'COMPLETED']
+
+// Resolves user segments for broadcasts and campaigns
+export class AudienceService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Number of users in the segment and a few of them, for checking a segment before sending
+  async preview(segment: UserSegment, sampleSize: number = 10): Promise<AudiencePreview> {
+    const where = await this.buildWhere(segment)
+
+    const [size, sample] = await Promise.all([
+      this.prisma.user.count({ where }),
+      this.prisma.user.findMany({
+        where,
+        select: { id: true, name: true, email: true },
+        orderBy: { createdAt: 'desc' },
+        take: sampleSize,
+      }),
+    ])
+
+    return { size, sample }
+  }
+
+  async resolveUserIds(segment: UserSegment): Promise<string[]> {
+    const users = await this.prisma.user.findMany({
+      where: await this.buildWhere(segment),
+      select: { id: true },
+    })
+
+    return users.map(user => user.id)
+  }
+
+  async buildWhere(segment: UserSegment, now: Date = new Date()): Promise<Prisma.UserWhereInput> {
+    const conditions: Prisma.UserWhereInput[] = []
+
+    if (segment.userIds) {
+      conditions.push({ id: { in: segment.userIds } })
+    }
+
+    if (segment.roles?.length) {
+      conditions.push({ role: { in: segment.roles } })
+    }
+
+    if (segment.locations?.length) {
+      conditions.push({ location: { in: segment.locations } })
+    }
+
+    if (segment.bookings) {
+      conditions.push(await this.bookingHistoryWhere(segment.bookings))
+    }
+
+    if (segment.nationalities?.length) {
+      conditions.push({
+        OR: [
+          { nationality: { in: segment.nationalities } },
+          {
+            nationality: null,
+            bookings: {
+              some: { participants: { some: { position: 0, nationality: { in: segment.nationalities } } } },
+            },
+          },
+        ],
+      })
+    }
+
+    if (segment.languages?.length) {
+      const languages = segment.languages.map(language => language.toLowerCase())
+      conditions.push({
+        OR: [
+          { notificationPreference: { language: { in: languages } } },
+          ...(languages.includes('en') ? [{ notificationPreference: null }] : []),
+        ],
+      })
+    }
+
+    if (segment.activeWithinDays !== undefined) {
+      conditions.push({ lastActiveAt: { gte: new Date(now.getTime() - segment.activeWithinDays * DAY_MS) } })
+    }
+
+    if (segment.inactiveForDays !== undefined) {
+      conditions.push({
+        OR: [
+          { lastActiveAt: { lt: new Date(now.getTime() - segment.inactiveForDays * DAY_MS) } },
+          { lastActiveAt: null },
+        ],
+      })
+    }
+
+    if (segment.wishlistTourIds?.length || segment.wishlistCategories?.length) {
+      conditions.push({
+        wishlistItems: {
+          some: {
+            OR: [
+              ...(segment.wishlistTourIds?.length ? [{ tourId: { in: segment.wishlistTourIds } }] : []),
+              ...(segment.wishlistCategories?.length ? [{ tour: { category: { in: segment.wishlistCategories } } }] : []),
+            ],
+          },
+        },
+      })
+    }
+
+    // Nobody, rather than everybody, when a segment is left empty by mistake
+    if (conditions.length === 0) {
+      return segment.all ? {} : { id: { in: [] } }
+    }
+
+    return { AND: conditions }
+  }
+
+  private async bookingHistoryWhere(criteria: BookingHistoryCriteria): Promise<Prisma.UserWhereInput> {
+    const bookingWhere: Prisma.BookingWhereInput = {
+      status: { in: criteria.statuses?.length ? criteria.statuses : DEFAULT_BOOKING_STATUSES },
+    }
+
+    if (criteria.tourIds?.length) {
+      bookingWhere.tourId = { in: criteria.tourIds }
+    }
+
+    if (criteria.categories?.length) {
+      bookingWhere.tour = { category: { in: criteria.categories } }
+    }
+
+    if (criteria.startDateFrom || criteria.startDateTo) {
+      bookingWhere.startDate = {
+        ...(criteria.startDateFrom && { gte: new Date(criteria.startDateFrom) }),
+        ...(criteria.startDateTo && { lte: new Date(criteria.startDateTo) }),
+      }
+    }
+
+    const minCount = criteria.minCount ?? 1
+
+    if (minCount === 0) {
+      return { bookings: { none: bookingWhere } }
+    }
+
+    if (minCount === 1) {
+      return { bookings: { some: bookingWhere } }
+    }
+
+    // Relation filters cannot count, so users with enough bookings are looked up first
+    const counts = await this.prisma.booking.groupBy({
+      by: ['userId'],
+      where: bookingWhere,
+      _count: { _all: true },
+      having: { userId: { _count: { gte: minCount } } },
+    })
+
+    return { id: { in: counts.map(count => count.userId) } }
+  }
+}
@@ -13,9 +13,13 @@ import {
   DeliveryChannel,
   NotificationType,
   NotificationPriority,
-  NotificationStatus
+  NotificationStatus,
+  DeviceRegistration,
+  Platform,
+  PushSubscriptionInput
 } from '../../types/notification.types'
-import logger from '../../utils/logger'
+import { AudienceService } from './audience.service'
+import { logger } from '../../utils/logger'
 
 export class BaseNotificationService implements INotificationService {
   constructor(protected prisma: PrismaClient) {}
@@ -74,7 +78,7 @@ export class BaseNotificationService implements INotificationService {
         skip: filters.offset || 0,
       })
 
-      return notifications.map(this.mapPrismaNotification)
+      return notifications.map(notification => this.mapPrismaNotification(notification))
     } catch (error) {
       logger.error('Error fetching notifications:', error)
       throw new NotificationError('Failed to fetch notifications', 'FETCH_FAILED')
@@ -99,6 +103,15 @@ export class BaseNotificationService implements INotificationService {
         },
       })
 
+      // Reading a campaign's notification in the app counts as opening it
+      const campaignRecipientId = (notification.data as any)?.campaignRecipientId
+      if (typeof campaignRecipientId === 'string') {
+        await this.prisma.campaignRecipient.updateMany({
+          where: { id: campaignRecipientId, openedAt: null },
+          data: { openedAt: new Date() },
+        })
+      }
+
       logger.info(`Notification ${notificationId} marked as read for user ${userId}`)
     } catch (error) {
       if (error instanceof NotFoundError) throw error
@@ -127,6 +140,22 @@ export class BaseNotificationService implements INotificationService {
     }
   }
 
+  // Unread notifications that have not expired, for the inbox badge
+  async getUnreadCount(userId: string): Promise<number> {
+    try {
+      return await this.prisma.notification.count({
+        where: {
+          userId,
+          status: { not: 'READ' },
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+      })
+    } catch (error) {
+      logger.error('Error getting unread count:', error)
+      throw new NotificationError('Failed to get unread count', 'COUNT_FAILED')
+    }
+  }
+
   async deleteNotification(notificationId: string, userId: string): Promise<void> {
     try {
       const notification = await this.prisma.notification.findFirst({
@@ -149,16 +178,71 @@ export class BaseNotificationService implements INotificationService {
     }
   }
 
+  // Web Push subscriptions are keyed by their endpoint, a browser that subscribes again moves to the current user
+  async registerPushSubscription(
+    userId: string,
+    subscription: PushSubscriptionInput,
+    appVersion?: string
+  ): Promise<Omit<DeviceRegistration, 'deviceToken' | 'userId' | 'updatedAt'>> {
+    try {
+      const device = await this.prisma.deviceRegistration.upsert({
+        where: { deviceToken: subscription.endpoint },
+        create: {
+          userId,
+          deviceToken: subscription.endpoint,
+          platform: Platform.WEB,
+          p256dh: subscription.keys.p256dh,
+          auth: subscription.keys.auth,
+          appVersion,
+        },
+        update: {
+          userId,
+          p256dh: subscription.keys.p256dh,
+          auth: subscription.keys.auth,
+          appVersion,
+          isActive: true,
+          lastUsed: new Date(),
+        },
+      })
+
+      logger.info(`Push subscription ${device.id} registered for user ${userId}`)
+      return {
+        id: device.id,
+        platform: device.platform as Platform,
+        appVersion: device.appVersion ?? undefined,
+        isActive: device.isActive,
+        lastUsed: device.lastUsed,
+        createdAt: device.createdAt,
+      }
+    } catch (error) {
+      logger.error('Error registering push subscription:', error)
+      throw new NotificationError('Failed to register push subscription', 'DEVICE_REGISTRATION_FAILED')
+    }
+  }
+
+  async removePushSubscription(userId: string, endpoint: string): Promise<void> {
+    try {
+      await this.prisma.deviceRegistration.deleteMany({
+        where: { userId, deviceToken: endpoint },
+      })
+
+      logger.info(`Push subscription removed for user ${userId}`)
+    } catch (error) {
+      logger.error('Error removing push subscription:', error)
+      throw new NotificationError('Failed to remove push subscription', 'DELETE_FAILED')
+    }
+  }
+
   async updatePreferences(
     userId: string,
     preferences: Partial<NotificationPreferences>
   ): Promise<NotificationPreferences> {
     try {
-      const existingPrefs = await this.prisma.notificationPreferences.findUnique({
+      const existingPrefs = await this.prisma.notificationPreference.findUnique({
         where: { userId },
       })
 
-      const updatedPrefs = await this.prisma.notificationPreferences.upsert({
+      const updatedPrefs = await this.prisma.notificationPreference.upsert({
         where: { userId },
         create: {
           userId,
@@ -187,13 +271,13 @@ export class BaseNotificationService implements INotificationService {
 
   async getPreferences(userId: string): Promise<NotificationPreferences> {
     try {
-      let preferences = await this.prisma.notificationPreferences.findUnique({
+      let preferences = await this.prisma.notificationPreference.findUnique({
         where: { userId },
       })
 
       // Create default preferences if none exist
       if (!preferences) {
-        preferences = await this.prisma.notificationPreferences.create({
+        preferences = await this.prisma.notificationPreference.create({
           data: {
             userId,
             channels: this.getDefaultChannelPreferences(),
@@ -270,6 +354,19 @@ export class BaseNotificationService implements INotificationService {
     }
   }
 
+  protected mapPriorityFromPrismaEnum(priority: string): NotificationPriority {
+    switch (priority) {
+      case 'LOW':
+        return NotificationPriority.LOW
+      case 'HIGH':
+        return NotificationPriority.HIGH
+      case 'CRITICAL':
+        return NotificationPriority.CRITICAL
+      default:
+        return NotificationPriority.NORMAL
+    }
+  }
+
   protected determineEffectiveChannels(
     request: CreateNotificationRequest,
     preferences: NotificationPreferences
@@ -298,7 +395,7 @@ export class BaseNotificationService implements INotificationService {
 
     const now = new Date()
     const currentTime = now.toLocaleTimeString('en-US', {
-      hour12: false,
+      hourCycle: 'h23', // hour12: false formats midnight as 24:00
       timeZone: preferences.timezone,
     }).slice(0, 5) // HH:mm format
 
@@ -317,6 +414,9 @@ export class BaseNotificationService implements INotificationService {
       [NotificationType.BOOKING_CONFIRMATION]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL],
       [NotificationType.BOOKING_REMINDER]: [DeliveryChannel.IN_APP, DeliveryChannel.PUSH],
       [NotificationType.BOOKING_CANCELLED]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL],
+      [NotificationType.TRIP_CHECKLIST]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL],
+      [NotificationType.TRIP_WEATHER]: [DeliveryChannel.IN_APP, DeliveryChannel.PUSH],
+      [NotificationType.REVIEW_REQUEST]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL],
       [NotificationType.PAYMENT_SUCCESS]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL],
       [NotificationType.PAYMENT_FAILED]: [DeliveryChannel.IN_APP, DeliveryChannel.PUSH, DeliveryChannel.EMAIL],
       [NotificationType.CHAT_MESSAGE]: [DeliveryChannel.IN_APP, DeliveryChannel.PUSH],
@@ -328,31 +428,7 @@ export class BaseNotificationService implements INotificationService {
   }
 
   protected async getAudienceUserIds(audience: UserSegment): Promise<string[]> {
-    if (audience.all) {
-      const users = await this.prisma.user.findMany({
-        select: { id: true },
-      })
-      return users.map(user => user.id)
-    }
-
-    if (audience.userIds) {
-      return audience.userIds
-    }
-
-    const where: any = {}
-    if (audience.roles) {
-      where.role = { in: audience.roles }
-    }
-    if (audience.locations) {
-      where.location = { in: audience.locations }
-    }
-
-    const users = await this.prisma.user.findMany({
-      where,
-      select: { id: true },
-    })
-
-    return users.map(user => user.id)
+    return new AudienceService(this.prisma).resolveUserIds(audience)
   }
 
   protected mapPrismaNotification(notification: any): Notification {
@@ -364,7 +440,7 @@ export class BaseNotificationService implements INotificationService {
       content: notification.content,
       data: notification.data,
       channels: notification.channels,
-      priority: notification.priority,
+      priority: this.mapPriorityFromPrismaEnum(notification.priority),
       status: notification.status,
       readAt: notification.readAt,
       createdAt: notification.createdAt,
@@ -377,7 +453,8 @@ export class BaseNotificationService implements INotificationService {
   protected mapPrismaPreferences(preferences: any): NotificationPreferences {
     return {
       userId: preferences.userId,
-      channels: preferences.channels,
+      // Types added after the preferences were saved get their default channels
+      channels: { ...this.getDefaultChannelPreferences(), ...preferences.channels },
       quietHours: preferences.quietHours,
       frequency: preferences.frequency,
       language: preferences.language,
@@ -0,0 +1,410 @@
+import { PrismaClient } from '@prisma/client'
+import { AudienceService } from './audience.service'
+import { NotificationPreferencesService } from './preferences.service'
+import { getNotificationService } from './notification.service'
+import {
+  Campaign,
+  CampaignAnalytics,
+  CampaignContent,
+  CampaignRecipientStatus,
+  CampaignStatus,
+  AudiencePreview,
+  DeliveryChannel,
+  NotificationPriority,
+  NotificationType,
+  UserSegment,
+  NotificationError,
+  NotFoundError,
+  ValidationError
+} from '../../types/notification.types'
+import { config } from '../../config'
+import { logger } from '../../utils/logger'
+
+// Recipients are written in chunks so large audiences stay within query size limits
+const RECIPIENT_CHUNK_SIZE = 1000
+
+export interface CampaignFilters {
+  status?: CampaignStatus
+  page: number
+  limit: number
+}
+
+// Admin campaigns: a notification sent to a user segment, now or later, at a limited rate
+export class CampaignService {
+  private audienceService: AudienceService
+  private preferencesService: NotificationPreferencesService
+  private sendTimer?: NodeJS.Timeout
+  private sending = false
+
+  constructor(private prisma: PrismaClient) {
+    this.audienceService = new AudienceService(prisma)
+    this.preferencesService = new NotificationPreferencesService(prisma)
+  }
+
+  async listCampaigns(filters: CampaignFilters): Promise<{ campaigns: Campaign[], total: number }> {
+    const where = filters.status ? { status: filters.status } : {}
+
+    const [campaigns, total] = await Promise.all([
+      this.prisma.campaign.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      this.prisma.campaign.count({ where }),
+    ])
+
+    return { campaigns: campaigns.map(campaign => this.mapCampaign(campaign)), total }
+  }
+
+  async getCampaign(id: string): Promise<Campaign> {
+    const campaign = await this.prisma.campaign.findUnique({ where: { id } })
+    if (!campaign) {
+      throw new NotFoundError('Campaign not found')
+    }
+
+    return this.mapCampaign(campaign)
+  }
+
+  async createCampaign(request: CampaignContent, createdById: string): Promise<Campaign> {
+    const campaign = await this.prisma.campaign.create({
+      data: {
+        ...this.toPrismaContent(request),
+        name: request.name,
+        title: request.title,
+        content: request.content,
+        channels: request.channels as any, // Cast to JSON
+        segment: request.segment as any, // Cast to JSON
+        createdById,
+      },
+    })
+
+    logger.info(`Campaign created: ${campaign.id}`, { name: campaign.name, createdById })
+    return this.mapCampaign(campaign)
+  }
+
+  // Drafts and scheduled campaigns can be edited until they start sending
+  async updateCampaign(id: string, request: Partial<CampaignContent>): Promise<Campaign> {
+    await this.getEditableCampaign(id)
+
+    const campaign = await this.prisma.campaign.update({
+      where: { id },
+      data: this.toPrismaContent(request),
+    })
+
+    return this.mapCampaign(campaign)
+  }
+
+  async previewAudience(segment: UserSegment, sampleSize?: number): Promise<AudiencePreview> {
+    return this.audienceService.preview(segment, sampleSize)
+  }
+
+  // Send at the given time, or as soon as the worker runs when no time is given
+  async scheduleCampaign(id: string, scheduledAt?: Date): Promise<Campaign> {
+    await this.getEditableCampaign(id)
+
+    const campaign = await this.prisma.campaign.update({
+      where: { id },
+      data: { status: CampaignStatus.SCHEDULED, scheduledAt: scheduledAt || new Date() },
+    })
+
+    logger.info(`Campaign ${id} scheduled for ${campaign.scheduledAt?.toISOString()}`)
+    return this.mapCampaign(campaign)
+  }
+
+  // Stops a campaign. Notifications already sent stay sent; pending recipients are left unsent.
+  async cancelCampaign(id: string): Promise<Campaign> {
+    const existing = await this.getCampaign(id)
+    if (existing.status === CampaignStatus.SENT || existing.status === CampaignStatus.CANCELLED) {
+      throw new ValidationError(`Campaign is already ${existing.status.toLowerCase()}`)
+    }
+
+    const campaign = await this.prisma.campaign.update({
+      where: { id },
+      data: { status: CampaignStatus.CANCELLED, completedAt: new Date() },
+    })
+
+    logger.info(`Campaign ${id} cancelled`)
+    return this.mapCampaign(campaign)
+  }
+
+  async getAnalytics(id: string): Promise<CampaignAnalytics> {
+    const campaign = await this.getCampaign(id)
+
+    const [byStatus, opened, clicked] = await Promise.all([
+      this.prisma.campaignRecipient.groupBy({
+        by: ['status'],
+        where: { campaignId: id },
+        _count: { _all: true },
+      }),
+      this.prisma.campaignRecipient.count({ where: { campaignId: id, openedAt: { not: null } } }),
+      this.prisma.campaignRecipient.count({ where: { campaignId: id, clickedAt: { not: null } } }),
+    ])
+
+    const countOf = (status: CampaignRecipientStatus) =>
+      byStatus.find(group => group.status === status)?._count._all || 0
+    const sent = countOf(CampaignRecipientStatus.SENT)
+
+    return {
+      audienceSize: campaign.audienceSize,
+      pending: countOf(CampaignRecipientStatus.PENDING),
+      sent,
+      suppressed: countOf(CampaignRecipientStatus.SUPPRESSED),
+      failed: countOf(CampaignRecipientStatus.FAILED),
+      opened,
+      clicked,
+      openRate: sent ? opened / sent : 0,
+      clickRate: sent ? clicked / sent : 0,
+    }
+  }
+
+  // Record an email or in-app open. Unknown recipients are ignored, as tracking links are public.
+  async trackOpen(recipientId: string): Promise<void> {
+    await this.prisma.campaignRecipient.updateMany({
+      where: { id: recipientId, openedAt: null },
+      data: { openedAt: new Date() },
+    })
+  }
+
+  // Record a click and return where it leads. A click also counts as an open, since images are often blocked.
+  async trackClick(recipientId: string): Promise<string> {
+    const recipient = await this.prisma.campaignRecipient.findUnique({
+      where: { id: recipientId },
+      include: { campaign: { select: { url: true } } },
+    })
+
+    if (!recipient) {
+      return config.client.url
+    }
+
+    const now = new Date()
+    await this.prisma.campaignRecipient.update({
+      where: { id: recipientId },
+      data: {
+        clickedAt: recipient.clickedAt || now,
+        openedAt: recipient.openedAt || now,
+      },
+    })
+
+    const url = recipient.campaign.url
+    if (!url) {
+      return config.client.url
+    }
+    return url.startsWith('http') ? url : `${config.client.url}${url}`
+  }
+
+  // Start campaigns that are due, then send the next batch of every campaign in progress
+  async processDueCampaigns(now: Date = new Date()): Promise<void> {
+    if (this.sending) {
+      return
+    }
+    this.sending = true
+
+    try {
+      const due = await this.prisma.campaign.findMany({
+        where: { status: CampaignStatus.SCHEDULED, scheduledAt: { lte: now } },
+        select: { id: true },
+      })
+
+      for (const { id } of due) {
+        await this.startCampaign(id, now)
+      }
+
+      const inProgress = await this.prisma.campaign.findMany({
+        where: { status: CampaignStatus.SENDING },
+      })
+
+      for (const campaign of inProgress) {
+        await this.sendBatch(this.mapCampaign(campaign))
+      }
+    } finally {
+      this.sending = false
+    }
+  }
+
+  startSendWorker(intervalMs: number = config.campaigns.sweepIntervalMs): void {
+    if (this.sendTimer) {
+      return
+    }
+
+    this.sendTimer = setInterval(() => {
+      this.processDueCampaigns().catch((error) => {
+        logger.error('Campaign send run failed:', error)
+      })
+    }, intervalMs)
+
+    // Do not keep the process alive just for campaigns
+    this.sendTimer.unref()
+
+    logger.info('Campaign worker started', { intervalMs })
+  }
+
+  stopSendWorker(): void {
+    if (this.sendTimer) {
+      clearInterval(this.sendTimer)
+      this.sendTimer = undefined
+    }
+  }
+
+  // Fix the audience when sending starts, so users who join the segment later do not get a half-sent campaign
+  private async startCampaign(id: string, now: Date): Promise<void> {
+    const claimed = await this.prisma.campaign.updateMany({
+      where: { id, status: CampaignStatus.SCHEDULED },
+      data: { status: CampaignStatus.SENDING, startedAt: now },
+    })
+    if (claimed.count === 0) {
+      return
+    }
+
+    const campaign = await this.getCampaign(id)
+    const userIds = await this.audienceService.resolveUserIds(campaign.segment)
+
+    for (let i = 0; i < userIds.length; i += RECIPIENT_CHUNK_SIZE) {
+      await this.prisma.campaignRecipient.createMany({
+        data: userIds.slice(i, i + RECIPIENT_CHUNK_SIZE).map(userId => ({ campaignId: id, userId })),
+        skipDuplicates: true,
+      })
+    }
+
+    await this.prisma.campaign.update({
+      where: { id },
+      data: { audienceSize: userIds.length },
+    })
+
+    logger.info(`Campaign ${id} started`, { audienceSize: userIds.length })
+  }
+
+  private async sendBatch(campaign: Campaign): Promise<void> {
+    const recipients = await this.prisma.campaignRecipient.findMany({
+      where: { campaignId: campaign.id, status: CampaignRecipientStatus.PENDING },
+      orderBy: { createdAt: 'asc' },
+      take: this.getBatchSize(campaign),
+    })
+
+    if (recipients.length === 0) {
+      await this.prisma.campaign.updateMany({
+        where: { id: campaign.id, status: CampaignStatus.SENDING },
+        data: { status: CampaignStatus.SENT, completedAt: new Date() },
+      })
+      logger.info(`Campaign ${campaign.id} sent`)
+      return
+    }
+
+    const preferences = await this.preferencesService.getBatchPreferences(recipients.map(recipient => recipient.userId))
+    const notificationService = getNotificationService(this.prisma)
+
+    for (const recipient of recipients) {
+      const userPreferences = preferences.get(recipient.userId)
+      const channels = userPreferences
+        ? this.preferencesService.determineEffectiveChannels(userPreferences, campaign.type, campaign.channels, campaign.priority)
+        : campaign.channels
+
+      if (channels.length === 0) {
+        await this.updateRecipient(recipient.id, { status: CampaignRecipientStatus.SUPPRESSED })
+        continue
+      }
+
+      // Claim the recipient first so a slow run overlapping the next one cannot send twice
+      const claimed = await this.prisma.campaignRecipient.updateMany({
+        where: { id: recipient.id, status: CampaignRecipientStatus.PENDING },
+        data: { status: CampaignRecipientStatus.SENT, sentAt: new Date() },
+      })
+      if (claimed.count === 0) {
+        continue
+      }
+
+      try {
+        const notification = await notificationService.createNotification({
+          userId: recipient.userId,
+          type: campaign.type,
+          title: campaign.title,
+          content: campaign.content,
+          channels,
+          priority: campaign.priority,
+          data: {
+            campaignId: campaign.id,
+            campaignRecipientId: recipient.id,
+            url: campaign.url ? `${config.campaigns.trackingUrl}/${recipient.id}/click` : undefined,
+            openTrackingUrl: `${config.campaigns.trackingUrl}/${recipient.id}/open`,
+          },
+        })
+
+        await this.updateRecipient(recipient.id, { notificationId: notification.id })
+      } catch (error) {
+        logger.error(`Campaign ${campaign.id} failed for recipient ${recipient.id}:`, error)
+        await this.updateRecipient(recipient.id, {
+          status: CampaignRecipientStatus.FAILED,
+          sentAt: null,
+          error: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+        })
+      }
+    }
+  }
+
+  // Recipients per worker run. Throttled campaigns send their per-minute rate spread over the run interval.
+  private getBatchSize(campaign: Campaign): number {
+    if (!campaign.throttlePerMinute) {
+      return config.campaigns.batchSize
+    }
+    return Math.max(1, Math.floor(campaign.throttlePerMinute * config.campaigns.sweepIntervalMs / 60000))
+  }
+
+  private async updateRecipient(id: string, data: { status?: CampaignRecipientStatus, notificationId?: string, sentAt?: Date | null, error?: string }) {
+    await this.prisma.campaignRecipient.update({ where: { id }, data })
+  }
+
+  private async getEditableCampaign(id: string): Promise<Campaign> {
+    const campaign = await this.getCampaign(id)
+    if (campaign.status !== CampaignStatus.DRAFT && campaign.status !== CampaignStatus.SCHEDULED) {
+      throw new NotificationError(`A ${campaign.status.toLowerCase()} campaign can no longer be changed`, 'CAMPAIGN_LOCKED', 409)
+    }
+    return campaign
+  }
+
+  private toPrismaContent(request: Partial<CampaignContent>) {
+    return {
+      name: request.name,
+      type: request.type,
+      title: request.title,
+      content: request.content,
+      url: request.url,
+      channels: request.channels as any, // Cast to JSON
+      priority: request.priority !== undefined ? NotificationPriority[request.priority] : undefined,
+      segment: request.segment as any, // Cast to JSON
+      throttlePerMinute: request.throttlePerMinute,
+    }
+  }
+
+  private mapCampaign(campaign: any): Campaign {
+    return {
+      id: campaign.id,
+      name: campaign.name,
+      type: campaign.type as NotificationType,
+      title: campaign.title,
+      content: campaign.content,
+      url: campaign.url,
+      channels: campaign.channels as DeliveryChannel[],
+      priority: NotificationPriority[campaign.priority as keyof typeof NotificationPriority] || NotificationPriority.NORMAL,
+      segment: campaign.segment as UserSegment,
+      throttlePerMinute: campaign.throttlePerMinute,
+      status: campaign.status as CampaignStatus,
+      scheduledAt: campaign.scheduledAt,
+      audienceSize: campaign.audienceSize,
+      startedAt: campaign.startedAt,
+      completedAt: campaign.completedAt,
+      createdById: campaign.createdById,
+      createdAt: campaign.createdAt,
+      updatedAt: campaign.updatedAt,
+    }
+  }
+}
+
+// Export singleton instance
+let campaignServiceInstance: CampaignService | null = null
+
+export const getCampaignService = (prisma: PrismaClient): CampaignService => {
+  if (!campaignServiceInstance) {
+    campaignServiceInstance = new CampaignService(prisma)
+  }
+  return campaignServiceInstance
+}
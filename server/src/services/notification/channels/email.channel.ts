@@ -0,0 +1,47 @@
+import { PrismaClient } from '@prisma/client'
+import { EmailService } from '../../email.service'
+import { EmailOutboxService } from '../../email-outbox.service'
+import { NotificationTemplateService } from '../template.service'
+import {
+  ChannelDeliveryResult,
+  ChannelProcessor,
+  DeliveryChannel,
+  NotificationJob,
+  PermanentDeliveryError
+} from '../../../types/notification.types'
+
+export class EmailChannelProcessor implements ChannelProcessor {
+  readonly channel = DeliveryChannel.EMAIL
+
+  constructor(
+    private prisma: PrismaClient,
+    private templates: NotificationTemplateService = new NotificationTemplateService(prisma)
+  ) {}
+
+  async deliver(job: NotificationJob): Promise<ChannelDeliveryResult> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: job.userId },
+      select: { email: true },
+    })
+
+    if (!user?.email) {
+      throw new PermanentDeliveryError(`User ${job.userId} has no email address`, 'NO_EMAIL_ADDRESS')
+    }
+
+    if (await EmailOutboxService.isSuppressed(user.email)) {
+      throw new PermanentDeliveryError(`${user.email} bounced or complained`, 'EMAIL_SUPPRESSED')
+    }
+
+    const rendered = await this.templates.renderJob(job)
+
+    // Sent directly, the notification queue already retries failed deliveries
+    await EmailService.deliver({
+      to: user.email,
+      subject: rendered.emailSubject,
+      html: rendered.emailHtml,
+      text: rendered.content,
+    })
+
+    return { recipients: 1 }
+  }
+}
@@ -0,0 +1,5 @@
+// Channel Processor Exports
+export { EmailChannelProcessor } from './email.channel'
+export { SmsChannelProcessor, FakeSmsProvider, createSmsProvider } from './sms.channel'
+export type { SmsProvider, SmsMessage, SmsSendResult, SentSms } from './sms.channel'
+export { WebPushChannelProcessor } from './push.channel'
@@ -0,0 +1,122 @@
+import { DeviceRegistration, PrismaClient } from '@prisma/client'
+import webpush, { WebPushError } from 'web-push'
+import { config } from '../../../config'
+import { NotificationTemplateService } from '../template.service'
+import {
+  ChannelDeliveryResult,
+  ChannelProcessor,
+  DeliveryChannel,
+  NotificationError,
+  NotificationJob,
+  NotificationPriority,
+  PermanentDeliveryError,
+  Platform,
+  PushResult
+} from '../../../types/notification.types'
+import { logger } from '../../../utils/logger'
+
+// Push services answer these when a subscription has expired or been revoked
+const GONE_STATUS_CODES = [404, 410]
+
+export class WebPushChannelProcessor implements ChannelProcessor {
+  readonly channel = DeliveryChannel.PUSH
+
+  constructor(
+    private prisma: PrismaClient,
+    private templates: NotificationTemplateService = new NotificationTemplateService(prisma)
+  ) {}
+
+  static isConfigured(): boolean {
+    const { publicKey, privateKey } = config.notifications.webPush
+    return Boolean(publicKey && privateKey)
+  }
+
+  async deliver(job: NotificationJob): Promise<ChannelDeliveryResult> {
+    if (!WebPushChannelProcessor.isConfigured()) {
+      throw new PermanentDeliveryError('Web Push is not configured', 'PUSH_NOT_CONFIGURED')
+    }
+
+    const devices = await this.prisma.deviceRegistration.findMany({
+      where: {
+        userId: job.userId,
+        platform: Platform.WEB,
+        isActive: true,
+        p256dh: { not: null },
+        auth: { not: null },
+      },
+    })
+
+    if (devices.length === 0) {
+      throw new PermanentDeliveryError(`User ${job.userId} has no active push subscriptions`, 'NO_PUSH_SUBSCRIPTIONS')
+    }
+
+    const rendered = await this.templates.renderJob(job)
+    const payload = JSON.stringify({
+      id: job.id,
+      type: job.type,
+      title: rendered.pushTitle,
+      body: rendered.pushBody,
+      data: job.payload.data,
+    })
+
+    const results = await Promise.all(devices.map(device => this.sendToDevice(device, payload, job.priority)))
+
+    const invalidTokens = results.flatMap(result => result.invalidTokens || [])
+    if (invalidTokens.length > 0) {
+      await this.deactivateDevices(invalidTokens)
+    }
+
+    const delivered = devices.filter((_, index) => results[index].success)
+    if (delivered.length > 0) {
+      await this.prisma.deviceRegistration.updateMany({
+        where: { id: { in: delivered.map(device => device.id) } },
+        data: { lastUsed: new Date() },
+      })
+
+      return { recipients: delivered.length }
+    }
+
+    const failure = results.find(result => !result.invalidTokens)
+    if (!failure) {
+      throw new PermanentDeliveryError(`Every push subscription of user ${job.userId} is invalid`, 'INVALID_PUSH_TOKENS')
+    }
+
+    throw new NotificationError(`Web Push failed: ${failure.error}`, 'PUSH_FAILED')
+  }
+
+  private async sendToDevice(device: DeviceRegistration, payload: string, priority: number): Promise<PushResult> {
+    const { publicKey, privateKey, subject, ttlSeconds } = config.notifications.webPush
+
+    try {
+      await webpush.sendNotification(
+        {
+          endpoint: device.deviceToken,
+          keys: { p256dh: device.p256dh!, auth: device.auth! },
+        },
+        payload,
+        {
+          vapidDetails: { subject, publicKey, privateKey },
+          TTL: ttlSeconds,
+          urgency: priority >= NotificationPriority.HIGH ? 'high' : 'normal',
+        }
+      )
+
+      return { success: true }
+    } catch (error) {
+      if (error instanceof WebPushError && GONE_STATUS_CODES.includes(error.statusCode)) {
+        return { success: false, error: error.message, invalidTokens: [device.deviceToken] }
+      }
+
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  private async deactivateDevices(deviceTokens: string[]): Promise<void> {
+    await this.prisma.deviceRegistration.updateMany({
+      where: { deviceToken: { in: deviceTokens } },
+      data: { isActive: false },
+    })
+
+    logger.info(`Deactivated ${deviceTokens.length} expired push subscriptions`)
+  }
+}
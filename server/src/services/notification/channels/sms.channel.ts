@@ -0,0 +1,108 @@
+import { PrismaClient } from '@prisma/client'
+import { randomUUID } from 'crypto'
+import { config } from '../../../config'
+import { NotificationTemplateService } from '../template.service'
+import {
+  ChannelDeliveryResult,
+  ChannelProcessor,
+  DeliveryChannel,
+  NotificationError,
+  NotificationJob,
+  PermanentDeliveryError
+} from '../../../types/notification.types'
+import { logger } from '../../../utils/logger'
+
+// Longest body we send, three concatenated SMS segments
+const MAX_SMS_LENGTH = 459
+
+export interface SmsMessage {
+  to: string
+  body: string
+  senderId: string
+}
+
+export interface SmsSendResult {
+  messageId: string
+}
+
+export interface SmsProvider {
+  readonly name: string
+  send(message: SmsMessage): Promise<SmsSendResult>
+}
+
+export interface SentSms extends SmsMessage {
+  messageId: string
+  sentAt: Date
+}
+
+// Keeps messages in memory instead of sending them, for development and local testing
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = 'fake'
+  readonly sent: SentSms[] = []
+
+  constructor(private maxKept: number = 100) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const messageId = `fake_sms_${randomUUID()}`
+
+    this.sent.push({ ...message, messageId, sentAt: new Date() })
+    if (this.sent.length > this.maxKept) {
+      this.sent.shift()
+    }
+
+    logger.info(`Fake SMS ${messageId} to ${message.to}: ${message.body}`)
+    return { messageId }
+  }
+}
+
+export const createSmsProvider = (name: string = config.notifications.sms.provider): SmsProvider => {
+  switch (name) {
+    case 'fake':
+      if (config.server.nodeEnv === 'production') {
+        logger.warn('Using the fake SMS provider in production, SMS notifications will not be sent')
+      }
+      return new FakeSmsProvider()
+    default:
+      throw new NotificationError(`Unknown SMS provider: ${name}`, 'SMS_PROVIDER_UNKNOWN')
+  }
+}
+
+export class SmsChannelProcessor implements ChannelProcessor {
+  readonly channel = DeliveryChannel.SMS
+
+  constructor(
+    private prisma: PrismaClient,
+    private templates: NotificationTemplateService = new NotificationTemplateService(prisma),
+    private provider: SmsProvider = createSmsProvider()
+  ) {}
+
+  async deliver(job: NotificationJob): Promise<ChannelDeliveryResult> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: job.userId },
+      select: { phone: true },
+    })
+
+    if (!user?.phone) {
+      throw new PermanentDeliveryError(`User ${job.userId} has no phone number`, 'NO_PHONE_NUMBER')
+    }
+
+    const to = user.phone.replace(/[\s()-]/g, '')
+    if (!/^\+?[0-9]{7,15}$/.test(to)) {
+      throw new PermanentDeliveryError(`User ${job.userId} has an invalid phone number`, 'INVALID_PHONE_NUMBER')
+    }
+
+    const rendered = await this.templates.renderJob(job)
+
+    const { messageId } = await this.provider.send({
+      to,
+      body: this.truncate(rendered.smsText),
+      senderId: config.notifications.sms.senderId,
+    })
+
+    return { recipients: 1, messageId }
+  }
+
+  private truncate(body: string): string {
+    return body.length > MAX_SMS_LENGTH ? `${body.slice(0, MAX_SMS_LENGTH - 3)}...` : body
+  }
+}
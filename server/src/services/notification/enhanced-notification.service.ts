@@ -11,7 +11,7 @@ import {
   NotificationError,
   ValidationError
 } from '../../types/notification.types'
-import logger from '../../utils/logger'
+import { logger } from '../../utils/logger'
 
 export class EnhancedNotificationService extends BaseNotificationService {
   private preferencesService: NotificationPreferencesService
@@ -145,6 +145,9 @@ export class EnhancedNotificationService extends BaseNotificationService {
       [NotificationType.BOOKING_CONFIRMATION]: [], // All channels allowed
       [NotificationType.BOOKING_REMINDER]: [], // All channels allowed
       [NotificationType.BOOKING_CANCELLED]: [], // All channels allowed
+      [NotificationType.TRIP_CHECKLIST]: [], // All channels allowed
+      [NotificationType.TRIP_WEATHER]: [], // All channels allowed
+      [NotificationType.REVIEW_REQUEST]: [DeliveryChannel.SMS], // SMS not appropriate for review requests
       [NotificationType.PAYMENT_SUCCESS]: [], // All channels allowed
       [NotificationType.PAYMENT_FAILED]: [], // All channels allowed
       [NotificationType.SYSTEM_ANNOUNCEMENT]: [DeliveryChannel.SMS], // SMS not appropriate for announcements
@@ -228,6 +231,9 @@ export class EnhancedNotificationService extends BaseNotificationService {
       [NotificationType.BOOKING_CONFIRMATION]: 168, // 7 days
       [NotificationType.BOOKING_REMINDER]: 24,    // 1 day
       [NotificationType.BOOKING_CANCELLED]: 168,  // 7 days
+      [NotificationType.TRIP_CHECKLIST]: 168,     // 7 days
+      [NotificationType.TRIP_WEATHER]: 48,        // 2 days
+      [NotificationType.REVIEW_REQUEST]: 336,     // 14 days
       [NotificationType.PAYMENT_SUCCESS]: 168,    // 7 days
       [NotificationType.PAYMENT_FAILED]: 72,      // 3 days
       [NotificationType.SYSTEM_ANNOUNCEMENT]: 168, // 7 days
@@ -317,7 +323,7 @@ export class EnhancedNotificationService extends BaseNotificationService {
       })
 
       return {
-        notifications: notifications.map(this.mapPrismaNotification),
+        notifications: notifications.map(notification => this.mapPrismaNotification(notification)),
         total,
         unreadCount
       }
@@ -2,6 +2,10 @@
 export { NotificationService, getNotificationService } from './notification.service'
 export { BaseNotificationService } from './base.service'
 export { NotificationQueueService } from './queue.service'
+export { NotificationTemplateService } from './template.service'
+export { AudienceService } from './audience.service'
+export { CampaignService, getCampaignService } from './campaign.service'
+export * from './channels'
 
 // Re-export types
 export * from '../../types/notification.types'
@@ -1,21 +1,30 @@
 import { PrismaClient } from '@prisma/client'
 import { BaseNotificationService } from './base.service'
 import { NotificationQueueService } from './queue.service'
+import { NotificationTemplateService } from './template.service'
 import {
   CreateNotificationRequest,
+  CreateTemplatedNotificationRequest,
   Notification,
+  TemplateData,
   NotificationJob,
   DeliveryChannel,
-  NotificationError
+  DeliveryRecorder,
+  ChannelDeliveryState,
+  NotificationStatus,
+  NotificationError,
+  NotFoundError
 } from '../../types/notification.types'
-import logger from '../../utils/logger'
+import { logger } from '../../utils/logger'
 
-export class NotificationService extends BaseNotificationService {
+export class NotificationService extends BaseNotificationService implements DeliveryRecorder {
   private queueService: NotificationQueueService
+  private templateService: NotificationTemplateService
 
   constructor(prisma: PrismaClient) {
     super(prisma)
-    this.queueService = new NotificationQueueService()
+    this.queueService = new NotificationQueueService(prisma, this)
+    this.templateService = new NotificationTemplateService(prisma)
   }
 
   async createNotification(request: CreateNotificationRequest): Promise<Notification> {
@@ -24,7 +33,7 @@ export class NotificationService extends BaseNotificationService {
       const notification = await super.createNotification(request)
 
       // Queue the notification for delivery
-      await this.queueNotificationForDelivery(notification)
+      await this.queueNotificationForDelivery(notification, request.templateData)
 
       return notification
     } catch (error) {
@@ -33,7 +42,18 @@ export class NotificationService extends BaseNotificationService {
     }
   }
 
-  private async queueNotificationForDelivery(notification: Notification): Promise<void> {
+  // Create a notification from its type's template, rendered in the user's language
+  async createFromTemplate(request: CreateTemplatedNotificationRequest): Promise<Notification> {
+    const rendered = await this.templateService.renderForUser(request.type, request.userId, request.templateData)
+
+    return this.createNotification({
+      ...request,
+      title: rendered.title,
+      content: rendered.content,
+    })
+  }
+
+  private async queueNotificationForDelivery(notification: Notification, templateData?: TemplateData): Promise<void> {
     try {
       // Create notification job
       const job: NotificationJob = {
@@ -45,6 +65,7 @@ export class NotificationService extends BaseNotificationService {
           title: notification.title,
           content: notification.content,
           data: notification.data,
+          templateData,
         },
         priority: notification.priority,
         delay: notification.scheduledAt ? 
@@ -101,6 +122,7 @@ export class NotificationService extends BaseNotificationService {
             title: notification.title,
             content: notification.content,
             data: notification.data,
+            templateData: request.templateData,
           },
           priority: notification.priority,
           delay: notification.scheduledAt ? 
@@ -144,36 +166,35 @@ export class NotificationService extends BaseNotificationService {
     logger.info('Old notification jobs cleaned up')
   }
 
-  // Utility method to get unread count for a user
-  async getUnreadCount(userId: string): Promise<number> {
-    try {
-      const count = await this.prisma.notification.count({
-        where: {
-          userId,
-          status: { not: 'READ' },
-        },
-      })
-      return count
-    } catch (error) {
-      logger.error('Error getting unread count:', error)
-      throw new NotificationError('Failed to get unread count', 'COUNT_FAILED')
-    }
+  // Delivery workers processing the channel queues
+  startDeliveryWorkers(): void {
+    this.queueService.startWorkers()
+  }
+
+  async stopDeliveryWorkers(): Promise<void> {
+    await this.queueService.stopWorkers()
+  }
+
+  async getDeadLetterJobs(start?: number, end?: number) {
+    return this.queueService.getDeadLetterJobs(start, end)
+  }
+
+  async retryDeadLetterJob(jobId: string) {
+    return this.queueService.retryDeadLetterJob(jobId)
   }
 
   // Method to mark notifications as delivered (called by queue processors)
   async markAsDelivered(notificationId: string, channel: DeliveryChannel): Promise<void> {
     try {
-      await this.prisma.notification.update({
-        where: { id: notificationId },
-        data: {
-          status: 'DELIVERED',
-          updatedAt: new Date(),
-        },
+      await this.recordDeliveryState(notificationId, channel, {
+        status: NotificationStatus.DELIVERED,
+        at: new Date().toISOString(),
       })
 
       logger.info(`Notification ${notificationId} marked as delivered via ${channel}`)
     } catch (error) {
       logger.error(`Error marking notification ${notificationId} as delivered:`, error)
+      if (error instanceof NotificationError) throw error
       throw new NotificationError('Failed to mark notification as delivered', 'UPDATE_FAILED')
     }
   }
@@ -181,25 +202,47 @@ export class NotificationService extends BaseNotificationService {
   // Method to mark notifications as failed (called by queue processors)
   async markAsFailed(notificationId: string, channel: DeliveryChannel, error: string): Promise<void> {
     try {
-      await this.prisma.notification.update({
-        where: { id: notificationId },
-        data: {
-          status: 'FAILED',
-          data: {
-            error,
-            failedChannel: channel,
-            failedAt: new Date().toISOString(),
-          },
-          updatedAt: new Date(),
-        },
+      await this.recordDeliveryState(notificationId, channel, {
+        status: NotificationStatus.FAILED,
+        at: new Date().toISOString(),
+        error,
       })
 
       logger.error(`Notification ${notificationId} marked as failed via ${channel}: ${error}`)
     } catch (updateError) {
       logger.error(`Error marking notification ${notificationId} as failed:`, updateError)
+      if (updateError instanceof NotificationError) throw updateError
       throw new NotificationError('Failed to mark notification as failed', 'UPDATE_FAILED')
     }
   }
+
+  // Each channel records its own state under data.delivery, merged in place so channels finishing
+  // at the same time do not overwrite each other. A notification is delivered once any channel
+  // delivers it, and only failed while none has.
+  private async recordDeliveryState(
+    notificationId: string,
+    channel: DeliveryChannel,
+    state: ChannelDeliveryState
+  ): Promise<void> {
+    const patch = JSON.stringify({ delivery: { [channel]: state } })
+
+    const updated = await this.prisma.$executeRaw`
+      UPDATE notifications
+      SET data = JSON_MERGE_PATCH(COALESCE(data, JSON_OBJECT()), CAST(${patch} AS JSON)),
+        status = CASE
+          WHEN status = 'READ' THEN status
+          WHEN ${state.status} = 'DELIVERED' THEN 'DELIVERED'
+          WHEN status = 'DELIVERED' THEN status
+          ELSE 'FAILED'
+        END,
+        updatedAt = NOW(3)
+      WHERE id = ${notificationId}
+    `
+
+    if (updated === 0) {
+      throw new NotFoundError(`Notification ${notificationId} not found`)
+    }
+  }
 }
 
 // Export singleton instance
@@ -10,7 +10,7 @@ import {
   NotificationError,
   ValidationError
 } from '../../types/notification.types'
-import logger from '../../utils/logger'
+import { logger } from '../../utils/logger'
 
 export class NotificationPreferencesService {
   constructor(private prisma: PrismaClient) {}
@@ -18,7 +18,7 @@ export class NotificationPreferencesService {
   // Get user preferences with defaults if not found
   async getPreferences(userId: string): Promise<NotificationPreferences> {
     try {
-      let preferences = await this.prisma.notificationPreferences.findUnique({
+      let preferences = await this.prisma.notificationPreference.findUnique({
         where: { userId }
       })
 
@@ -60,7 +60,7 @@ export class NotificationPreferencesService {
       }
 
       // Update preferences in database
-      const updatedPreferences = await this.prisma.notificationPreferences.upsert({
+      const updatedPreferences = await this.prisma.notificationPreference.upsert({
         where: { userId },
         update: {
           channels: mergedChannels as any,
@@ -154,7 +154,7 @@ export class NotificationPreferencesService {
       // Convert current time to user's timezone
       const userTime = new Intl.DateTimeFormat('en-US', {
         timeZone: userTimezone,
-        hour12: false,
+        hourCycle: 'h23', // hour12: false formats midnight as 24:00
         hour: '2-digit',
         minute: '2-digit'
       }).format(now)
@@ -227,7 +227,7 @@ export class NotificationPreferencesService {
   // Reset preferences to defaults
   async resetToDefaults(userId: string): Promise<NotificationPreferences> {
     try {
-      await this.prisma.notificationPreferences.delete({
+      await this.prisma.notificationPreference.deleteMany({
         where: { userId }
       })
 
@@ -244,7 +244,7 @@ export class NotificationPreferencesService {
   // Get preferences for multiple users (for batch operations)
   async getBatchPreferences(userIds: string[]): Promise<Map<string, NotificationPreferences>> {
     try {
-      const preferences = await this.prisma.notificationPreferences.findMany({
+      const preferences = await this.prisma.notificationPreference.findMany({
         where: { userId: { in: userIds } }
       })
 
@@ -275,7 +275,7 @@ export class NotificationPreferencesService {
     const defaultChannels = this.getDefaultChannelPreferences()
     const defaultQuietHours = this.getDefaultQuietHours()
 
-    return await this.prisma.notificationPreferences.create({
+    return await this.prisma.notificationPreference.create({
       data: {
         userId,
         channels: defaultChannels as any,
@@ -292,6 +292,9 @@ export class NotificationPreferencesService {
       [NotificationType.BOOKING_CONFIRMATION]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL, DeliveryChannel.PUSH],
       [NotificationType.BOOKING_REMINDER]: [DeliveryChannel.IN_APP, DeliveryChannel.PUSH],
       [NotificationType.BOOKING_CANCELLED]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL, DeliveryChannel.PUSH],
+      [NotificationType.TRIP_CHECKLIST]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL],
+      [NotificationType.TRIP_WEATHER]: [DeliveryChannel.IN_APP, DeliveryChannel.PUSH],
+      [NotificationType.REVIEW_REQUEST]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL],
       [NotificationType.PAYMENT_SUCCESS]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL],
       [NotificationType.PAYMENT_FAILED]: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL, DeliveryChannel.PUSH],
       [NotificationType.CHAT_MESSAGE]: [DeliveryChannel.IN_APP, DeliveryChannel.PUSH],
@@ -387,7 +390,8 @@ export class NotificationPreferencesService {
   private mapPrismaPreferences(prismaPreferences: any): NotificationPreferences {
     return {
       userId: prismaPreferences.userId,
-      channels: prismaPreferences.channels as ChannelPreferences,
+      // Types added after the preferences were saved get their default channels
+      channels: { ...this.getDefaultChannelPreferences(), ...prismaPreferences.channels } as ChannelPreferences,
       quietHours: prismaPreferences.quietHours as QuietHours | undefined,
       frequency: prismaPreferences.frequency as NotificationFrequency,
       language: prismaPreferences.language,
@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client'
 import { EnhancedNotificationService } from './enhanced-notification.service'
 import { NotificationPreferencesService } from './preferences.service'
+import { NotificationTemplateService } from './template.service'
+import { AudienceService } from './audience.service'
 import {
   CreateNotificationRequest,
   Notification,
@@ -13,15 +15,19 @@ import {
   UserSegment,
   NotificationError
 } from '../../types/notification.types'
-import logger from '../../utils/logger'
+import { logger } from '../../utils/logger'
 
 export class NotificationProcessorService {
   private notificationService: EnhancedNotificationService
   private preferencesService: NotificationPreferencesService
+  private templateService: NotificationTemplateService
+  private audienceService: AudienceService
 
   constructor(prisma: PrismaClient) {
     this.notificationService = new EnhancedNotificationService(prisma)
     this.preferencesService = new NotificationPreferencesService(prisma)
+    this.templateService = new NotificationTemplateService(prisma)
+    this.audienceService = new AudienceService(prisma)
   }
 
   // Process a single notification with full preference application
@@ -254,75 +260,28 @@ export class NotificationProcessorService {
     }
   }
 
-  // Apply content localization based on user preferences
+  // Render templated notifications in the user's language
   private async applyContentLocalization(
     request: CreateNotificationRequest,
     preferences: NotificationPreferences
   ): Promise<Partial<CreateNotificationRequest>> {
-    // If user's language is English or no localization needed, return as-is
-    if (preferences.language === 'en') {
+    if (!request.templateData) {
       return {}
     }
 
-    // For now, we'll just add a language indicator to the data
-    // In a full implementation, this would use a translation service
-    const localizedData = {
-      ...request.data,
-      originalLanguage: 'en',
-      targetLanguage: preferences.language,
-      localizationApplied: true
-    }
-
-    // In a real implementation, you would:
-    // 1. Look up translated templates
-    // 2. Apply translation service
-    // 3. Format content for the target locale
+    const rendered = await this.templateService.render(request.type, preferences.language, request.templateData, {
+      timeZone: preferences.timezone,
+    })
 
     return {
-      data: localizedData
+      title: rendered.title,
+      content: rendered.content,
     }
   }
 
   // Resolve audience segment to user IDs
   private async resolveAudience(audience: UserSegment): Promise<string[]> {
-    if (audience.userIds) {
-      return audience.userIds
-    }
-
-    if (audience.all) {
-      // Get all active users
-      const users = await this.notificationService['prisma'].user.findMany({
-        select: { id: true }
-      })
-      return users.map(user => user.id)
-    }
-
-    const userIds: string[] = []
-
-    // Filter by roles if specified
-    if (audience.roles && audience.roles.length > 0) {
-      const usersByRole = await this.notificationService['prisma'].user.findMany({
-        where: {
-          role: { in: audience.roles as any[] }
-        },
-        select: { id: true }
-      })
-      userIds.push(...usersByRole.map(user => user.id))
-    }
-
-    // Filter by locations if specified (this would need location data in user model)
-    if (audience.locations && audience.locations.length > 0) {
-      const usersByLocation = await this.notificationService['prisma'].user.findMany({
-        where: {
-          location: { in: audience.locations }
-        },
-        select: { id: true }
-      })
-      userIds.push(...usersByLocation.map(user => user.id))
-    }
-
-    // Remove duplicates
-    return [...new Set(userIds)]
+    return this.audienceService.resolveUserIds(audience)
   }
 
   // Get notification service for external access
@@ -1,19 +1,37 @@
-import { Job } from 'bullmq'
+import { Job, UnrecoverableError, Worker } from 'bullmq'
+import { PrismaClient } from '@prisma/client'
 import {
   notificationQueue,
   pushNotificationQueue,
   emailNotificationQueue,
   smsNotificationQueue,
+  deadLetterQueue,
+  workerOptions,
   QueueManager
 } from '../../config/queue.config'
+import { redisClient, isRedisConnected } from '../../config/redis.config'
 import {
   NotificationJob,
   QueueStats,
   DeliveryChannel,
   NotificationError,
-  NotificationPriority
+  NotificationPriority,
+  ChannelProcessor,
+  DeliveryRecorder,
+  DeadLetterJob,
+  PermanentDeliveryError
 } from '../../types/notification.types'
-import logger from '../../utils/logger'
+import { EmailChannelProcessor, SmsChannelProcessor, WebPushChannelProcessor } from './channels'
+import { NotificationTemplateService } from './template.service'
+import { logger } from '../../utils/logger'
+
+// Queue each channel's jobs are processed from
+const CHANNEL_QUEUES: Record<DeliveryChannel, string> = {
+  [DeliveryChannel.IN_APP]: 'notifications',
+  [DeliveryChannel.PUSH]: 'push-notifications',
+  [DeliveryChannel.EMAIL]: 'email-notifications',
+  [DeliveryChannel.SMS]: 'sms-notifications',
+}
 
 export interface QueueService {
   addNotificationJob(notification: NotificationJob): Promise<Job>
@@ -24,6 +42,20 @@ export interface QueueService {
 }
 
 export class NotificationQueueService implements QueueService {
+  private processors: Map<DeliveryChannel, ChannelProcessor>
+  private workers: Worker<NotificationJob>[] = []
+  private waitingForRedis = false
+
+  constructor(prisma: PrismaClient, private recorder: DeliveryRecorder) {
+    const templates = new NotificationTemplateService(prisma)
+    const processors: ChannelProcessor[] = [
+      new EmailChannelProcessor(prisma, templates),
+      new SmsChannelProcessor(prisma, templates),
+      new WebPushChannelProcessor(prisma, templates),
+    ]
+    this.processors = new Map(processors.map(processor => [processor.channel, processor]))
+  }
+
   async addNotificationJob(notification: NotificationJob): Promise<Job> {
     try {
       // Determine which queues to use based on channels
@@ -82,28 +114,138 @@ export class NotificationQueueService implements QueueService {
     }
   }
 
-  async processJob(job: Job): Promise<void> {
-    try {
-      const notification = job.data as NotificationJob
-      logger.info(`Processing notification job ${job.id} for user ${notification.userId}`)
+  async processJob(job: Job<NotificationJob>): Promise<void> {
+    const notification = job.data
+    const channel = this.getChannelForQueue(job.queueName)
+    logger.info(`Processing ${channel} notification job ${job.id} for user ${notification.userId}`)
 
-      // Job processing will be implemented by specific channel processors
-      // This is a placeholder for the base processing logic
-      
-      // Update job progress
-      await job.updateProgress(50)
-      
-      // Simulate processing time
-      await new Promise(resolve => setTimeout(resolve, 100))
-      
-      // Mark as completed
-      await job.updateProgress(100)
-      
-      logger.info(`Completed notification job ${job.id}`)
+    // In-app notifications are stored when they are created, there is nothing more to send
+    const processor = this.processors.get(channel)
+
+    try {
+      if (processor) {
+        const result = await processor.deliver(notification)
+        logger.info(`Delivered notification ${notification.id} via ${channel} to ${result.recipients} recipient(s)`)
+      }
     } catch (error) {
-      logger.error(`Error processing job ${job.id}:`, error)
+      await this.handleDeliveryFailure(job, channel, error)
+      return
+    }
+
+    // Delivery already happened, failing the job here would only send it again
+    await this.recorder.markAsDelivered(notification.id, channel).catch(() => undefined)
+    await job.updateProgress(100)
+  }
+
+  // Retries transient failures until the job runs out of attempts, then records the failure and dead-letters it
+  private async handleDeliveryFailure(job: Job<NotificationJob>, channel: DeliveryChannel, error: unknown): Promise<never> {
+    const message = error instanceof Error ? error.message : String(error)
+    const attempts = job.opts.attempts ?? 1
+    const attempt = job.attemptsMade + 1
+
+    if (!(error instanceof PermanentDeliveryError) && attempt < attempts) {
+      logger.warn(`Notification job ${job.id} failed on attempt ${attempt} of ${attempts}, retrying: ${message}`)
       throw error
     }
+
+    await this.recorder.markAsFailed(job.data.id, channel, message).catch(() => undefined)
+    await this.moveToDeadLetter(job, channel, message)
+
+    throw new UnrecoverableError(message)
+  }
+
+  private async moveToDeadLetter(job: Job<NotificationJob>, channel: DeliveryChannel, error: string): Promise<void> {
+    if (!deadLetterQueue) {
+      logger.error(`Dead letter queue unavailable, dropping failed notification job ${job.id}`)
+      return
+    }
+
+    const deadLetter: DeadLetterJob = {
+      jobId: String(job.id),
+      queue: job.queueName,
+      channel,
+      notification: job.data,
+      error,
+      attemptsMade: job.attemptsMade + 1,
+      failedAt: new Date().toISOString(),
+    }
+
+    try {
+      await deadLetterQueue.add(`${channel}-dead-letter`, deadLetter, { jobId: `${job.queueName}-${job.id}` })
+      logger.warn(`Moved notification job ${job.id} to the dead letter queue: ${error}`)
+    } catch (deadLetterError) {
+      logger.error(`Error moving notification job ${job.id} to the dead letter queue:`, deadLetterError)
+    }
+  }
+
+  // Workers
+  startWorkers(): void {
+    if (this.workers.length > 0 || this.waitingForRedis) {
+      return
+    }
+
+    // Workers cannot do anything until Redis is up, start them once it is
+    if (!isRedisConnected()) {
+      this.waitingForRedis = true
+      redisClient.once('ready', () => {
+        this.waitingForRedis = false
+        this.startWorkers()
+      })
+      logger.info('Notification workers will start once Redis is ready')
+      return
+    }
+
+    for (const queueName of Object.values(CHANNEL_QUEUES)) {
+      const worker = new Worker<NotificationJob>(queueName, job => this.processJob(job), workerOptions)
+
+      worker.on('error', (error) => {
+        logger.error(`Notification worker ${queueName} error:`, error)
+      })
+
+      this.workers.push(worker)
+    }
+
+    logger.info(`Started ${this.workers.length} notification workers`)
+  }
+
+  async stopWorkers(): Promise<void> {
+    const workers = this.workers
+    this.workers = []
+
+    await Promise.all(workers.map(worker => worker.close()))
+    if (workers.length > 0) {
+      logger.info('Notification workers stopped')
+    }
+  }
+
+  async getDeadLetterJobs(start: number = 0, end: number = 49): Promise<DeadLetterJob[]> {
+    if (!deadLetterQueue) {
+      return []
+    }
+
+    const jobs = await deadLetterQueue.getJobs(['waiting'], start, end)
+    return jobs.map(job => job.data)
+  }
+
+  // Sends a dead-lettered notification through its channel again with a fresh set of attempts
+  async retryDeadLetterJob(jobId: string): Promise<Job> {
+    const deadLetter = deadLetterQueue ? await deadLetterQueue.getJob(jobId) : undefined
+    if (!deadLetter) {
+      throw new NotificationError('Dead letter job not found', 'JOB_NOT_FOUND', 404)
+    }
+
+    const { notification, channel } = deadLetter.data
+    const queue = this.getQueueForChannel(channel)
+    if (!queue) {
+      throw new NotificationError('Notification queues are unavailable', 'QUEUE_UNAVAILABLE', 503)
+    }
+
+    const job = await queue.add(`${channel}-notification`, notification, this.getJobOptions(notification))
+
+    await deadLetter.remove()
+    logger.info(`Requeued dead letter job ${jobId} as ${job.id}`)
+
+    return job
   }
 
   async retryFailedJob(jobId: string): Promise<void> {
@@ -192,6 +334,14 @@ export class NotificationQueueService implements QueueService {
   }
 
   // Helper methods
+  private getChannelForQueue(queueName: string): DeliveryChannel {
+    const entry = Object.entries(CHANNEL_QUEUES).find(([, name]) => name === queueName)
+    if (!entry) {
+      throw new UnrecoverableError(`No notification channel for queue ${queueName}`)
+    }
+    return entry[0] as DeliveryChannel
+  }
+
   private getQueueForChannel(channel: DeliveryChannel) {
     switch (channel) {
       case DeliveryChannel.PUSH:
@@ -311,6 +461,8 @@ export class NotificationQueueService implements QueueService {
           id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
           payload: {
             ...firstNotification.payload,
+            // The summary replaces each notification's own template
+            templateData: undefined,
             title: `${groupNotifications.length} notifications`,
             content: `You have ${groupNotifications.length} new notifications`,
             data: {
@@ -0,0 +1,133 @@
+import { NotificationType, TemplateContent } from '../../types/notification.types'
+
+// English templates used until an admin saves one for the type, and for locales without their own
+export const DEFAULT_TEMPLATES: Record<NotificationType, TemplateContent> = {
+  [NotificationType.BOOKING_CONFIRMATION]: {
+    title: 'Booking confirmed',
+    content: 'Your booking {{bookingNumber}} for {{tourTitle}} on {{startDate}} is confirmed.',
+    emailSubject: 'Booking confirmed: {{tourTitle}}',
+    smsText: 'EthioAI: booking {{bookingNumber}} for {{tourTitle}} on {{startDate}} is confirmed.',
+    variables: [
+      { name: 'bookingNumber', type: 'string', required: true },
+      { name: 'tourTitle', type: 'string', required: true },
+      { name: 'startDate', type: 'date', required: true },
+    ],
+  },
+  [NotificationType.BOOKING_REMINDER]: {
+    title: 'Your trip is coming up',
+    content: '{{tourTitle}} starts on {{startDate}}. Meet at {{meetingPoint}}. Booking {{bookingNumber}}.',
+    emailSubject: 'Reminder: {{tourTitle}} on {{startDate}}',
+    smsText: 'EthioAI: {{tourTitle}} starts on {{startDate}}. Meet at {{meetingPoint}}. Booking {{bookingNumber}}.',
+    variables: [
+      { name: 'bookingNumber', type: 'string', required: true },
+      { name: 'tourTitle', type: 'string', required: true },
+      { name: 'startDate', type: 'date', required: true },
+      { name: 'meetingPoint', type: 'string', required: true, description: 'Name and address of the tour\'s starting point' },
+    ],
+  },
+  [NotificationType.BOOKING_CANCELLED]: {
+    title: 'Booking cancelled',
+    content: 'Your booking {{bookingNumber}} for {{tourTitle}} has been cancelled.',
+    emailSubject: 'Booking cancelled: {{tourTitle}}',
+    smsText: 'EthioAI: booking {{bookingNumber}} for {{tourTitle}} has been cancelled.',
+    variables: [
+      { name: 'bookingNumber', type: 'string', required: true },
+      { name: 'tourTitle', type: 'string', required: true },
+    ],
+  },
+  [NotificationType.TRIP_CHECKLIST]: {
+    title: 'Get ready for {{tourTitle}}',
+    content: '{{tourTitle}} starts on {{startDate}}. Before you go: {{checklist}}',
+    emailSubject: 'Your checklist for {{tourTitle}}',
+    smsText: 'EthioAI: {{tourTitle}} starts on {{startDate}}. Before you go: {{checklist}}',
+    variables: [
+      { name: 'bookingNumber', type: 'string', required: true },
+      { name: 'tourTitle', type: 'string', required: true },
+      { name: 'startDate', type: 'date', required: true },
+      { name: 'checklist', type: 'string', required: true, description: 'Things to prepare, e.g. Bring a passport or national ID' },
+    ],
+  },
+  [NotificationType.TRIP_WEATHER]: {
+    title: 'Weather for {{tourTitle}}',
+    content: 'Forecast for {{startDate}}: {{forecast}}, {{minTemperature}} to {{maxTemperature}} °C with a {{rainChance}}% chance of rain.',
+    emailSubject: 'Weather for {{tourTitle}} on {{startDate}}',
+    smsText: 'EthioAI: {{startDate}} forecast for {{tourTitle}}: {{forecast}}, {{minTemperature}}-{{maxTemperature}} °C, {{rainChance}}% rain.',
+    variables: [
+      { name: 'tourTitle', type: 'string', required: true },
+      { name: 'startDate', type: 'date', required: true },
+      { name: 'forecast', type: 'string', required: true, description: 'Summary, e.g. Light rain' },
+      { name: 'minTemperature', type: 'number', required: true },
+      { name: 'maxTemperature', type: 'number', required: true },
+      { name: 'rainChance', type: 'number', required: true, description: 'Chance of rain in percent' },
+    ],
+  },
+  [NotificationType.REVIEW_REQUEST]: {
+    title: 'How was {{tourTitle}}?',
+    content: 'Thanks for travelling with us. Share a review of {{tourTitle}} to help other travellers.',
+    emailSubject: 'How was {{tourTitle}}?',
+    variables: [
+      { name: 'tourTitle', type: 'string', required: true },
+    ],
+  },
+  [NotificationType.PAYMENT_SUCCESS]: {
+    title: 'Payment received',
+    content: 'We received your payment of {{amount}}. Reference {{reference}}.',
+    emailSubject: 'Payment received',
+    smsText: 'EthioAI: payment of {{amount}} received. Ref {{reference}}.',
+    variables: [
+      { name: 'amount', type: 'string', required: true, description: 'Amount with currency, e.g. ETB 1,200.00' },
+      { name: 'reference', type: 'string', required: true },
+    ],
+  },
+  [NotificationType.PAYMENT_FAILED]: {
+    title: 'Payment failed',
+    content: 'Your payment of {{amount}} could not be completed. Please try again.',
+    emailSubject: 'Payment failed',
+    smsText: 'EthioAI: your payment of {{amount}} failed. Please try again.',
+    variables: [
+      { name: 'amount', type: 'string', required: true, description: 'Amount with currency, e.g. ETB 1,200.00' },
+    ],
+  },
+  [NotificationType.CHAT_MESSAGE]: {
+    title: 'New message from {{senderName}}',
+    content: '{{preview}}',
+    variables: [
+      { name: 'senderName', type: 'string', required: true },
+      { name: 'preview', type: 'string', required: true },
+    ],
+  },
+  [NotificationType.CHAT_MENTION]: {
+    title: '{{senderName}} mentioned you',
+    content: '{{preview}}',
+    variables: [
+      { name: 'senderName', type: 'string', required: true },
+      { name: 'preview', type: 'string', required: true },
+    ],
+  },
+  [NotificationType.SYSTEM_ANNOUNCEMENT]: {
+    title: '{{headline}}',
+    content: '{{message}}',
+    variables: [
+      { name: 'headline', type: 'string', required: true },
+      { name: 'message', type: 'string', required: true },
+    ],
+  },
+  [NotificationType.SECURITY_ALERT]: {
+    title: 'Security alert',
+    content: '{{event}} on {{occurredAt}}. If this was not you, reset your password.',
+    emailSubject: 'Security alert on your EthioAI account',
+    smsText: 'EthioAI security alert: {{event}} on {{occurredAt}}.',
+    variables: [
+      { name: 'event', type: 'string', required: true, description: 'What happened, e.g. New sign-in from Chrome on Windows' },
+      { name: 'occurredAt', type: 'date', required: true },
+    ],
+  },
+  [NotificationType.PROMOTIONAL]: {
+    title: '{{headline}}',
+    content: '{{message}}',
+    variables: [
+      { name: 'headline', type: 'string', required: true },
+      { name: 'message', type: 'string', required: true },
+    ],
+  },
+}
@@ -0,0 +1,456 @@
+import { PrismaClient, NotificationTemplate as PrismaNotificationTemplate } from '@prisma/client'
+import { config } from '../../config'
+import { DEFAULT_TEMPLATES } from './template.defaults'
+import {
+  CreateTemplateRequest,
+  DEFAULT_TEMPLATE_LOCALE,
+  NotificationJob,
+  NotificationTemplate,
+  NotificationType,
+  NotFoundError,
+  RenderedTemplate,
+  TEMPLATE_LOCALES,
+  TemplateContent,
+  TemplateData,
+  TemplateLocale,
+  TemplateVariable,
+  UpdateTemplateRequest,
+  ValidationError
+} from '../../types/notification.types'
+import { logger } from '../../utils/logger'
+
+// {{variableName}}
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+const TEXT_FIELDS = ['title', 'content', 'emailSubject', 'emailHtml', 'pushTitle', 'pushBody', 'smsText'] as const
+
+export interface RenderOptions {
+  timeZone?: string
+  // App path or URL the email links to
+  link?: string
+  // Image URL that records the email being opened, for campaigns
+  openTrackingUrl?: string
+}
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+// Standard email layout around a notification's email body
+export const renderEmailLayout = (subject: string, bodyHtml: string, link?: string, openTrackingUrl?: string): string => {
+  const href = link && !link.startsWith('http') ? `${config.client.url}${link}` : link
+
+  return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${escapeHtml(subject)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 10px; }
+          .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="content">
+            <h2>${escapeHtml(subject)}</h2>
+            ${bodyHtml}
+            ${href ? `<a href="${escapeHtml(href)}" class="button">View details</a>` : ''}
+          </div>
+          <div class="footer">
+            <p>You can change which notifications you receive by email in your notification preferences.</p>
+          </div>
+        </div>
+        ${openTrackingUrl ? `<img src="${escapeHtml(openTrackingUrl)}" width="1" height="1" alt="" style="display:block;border:0;">` : ''}
+      </body>
+      </html>
+    `
+}
+
+const textToHtml = (text: string): string => `<p>${escapeHtml(text).replace(/\n/g, '<br>')}</p>`
+
+const placeholdersOf = (text: string): string[] => {
+  const names: string[] = []
+  text.replace(PLACEHOLDER, (match, name: string) => {
+    names.push(name)
+    return match
+  })
+  return names
+}
+
+const interpolate = (text: string, values: Record<string, string>, html: boolean): string =>
+  text.replace(PLACEHOLDER, (_, name: string) => {
+    const value = values[name] ?? ''
+    return html ? escapeHtml(value) : value
+  })
+
+const isValidValue = (variable: TemplateVariable, value: unknown): boolean => {
+  switch (variable.type) {
+    case 'string':
+      return typeof value === 'string' || typeof value === 'number'
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'date':
+      return (value instanceof Date || typeof value === 'string' || typeof value === 'number') &&
+        !isNaN(new Date(value).getTime())
+    case 'boolean':
+      return typeof value === 'boolean'
+    default:
+      return false
+  }
+}
+
+const formatValue = (variable: TemplateVariable, value: any, locale: string, timeZone?: string): string => {
+  switch (variable.type) {
+    case 'number':
+      return new Intl.NumberFormat(locale).format(value)
+    case 'date':
+      return new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'short', day: 'numeric', timeZone })
+        .format(new Date(value))
+    default:
+      return String(value)
+  }
+}
+
+const sampleValue = (variable: TemplateVariable): unknown => {
+  switch (variable.type) {
+    case 'number':
+      return 2
+    case 'date':
+      return new Date().toISOString()
+    case 'boolean':
+      return true
+    default:
+      return `[${variable.name}]`
+  }
+}
+
+// Preference languages may carry a region, e.g. am-ET; locales without templates render in English
+export const toTemplateLocale = (language?: string | null): TemplateLocale => {
+  const primary = (language || '').split(/[-_]/)[0].toLowerCase()
+  return (TEMPLATE_LOCALES as readonly string[]).includes(primary) ? primary as TemplateLocale : DEFAULT_TEMPLATE_LOCALE
+}
+
+export class NotificationTemplateService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Active version of every stored template
+  async listTemplates(filters: { type?: NotificationType, locale?: TemplateLocale } = {}): Promise<NotificationTemplate[]> {
+    const templates = await this.prisma.notificationTemplate.findMany({
+      where: { isActive: true, type: filters.type, locale: filters.locale },
+      orderBy: [{ type: 'asc' }, { locale: 'asc' }],
+    })
+
+    return templates.map(template => this.mapTemplate(template))
+  }
+
+  // Every version of a template, newest first
+  async getVersions(type: NotificationType, locale: TemplateLocale): Promise<NotificationTemplate[]> {
+    const templates = await this.prisma.notificationTemplate.findMany({
+      where: { type, locale },
+      orderBy: { version: 'desc' },
+    })
+
+    return templates.map(template => this.mapTemplate(template))
+  }
+
+  // Save a template as a new version and make it the active one
+  async createVersion(request: CreateTemplateRequest, authorId?: string): Promise<NotificationTemplate> {
+    this.validateContent(request)
+
+    const template = await this.prisma.$transaction(async (tx) => {
+      const latest = await tx.notificationTemplate.findFirst({
+        where: { type: request.type, locale: request.locale },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      })
+
+      await tx.notificationTemplate.updateMany({
+        where: { type: request.type, locale: request.locale, isActive: true },
+        data: { isActive: false },
+      })
+
+      // Two admins saving at once collide on the version number and the second save fails
+      return tx.notificationTemplate.create({
+        data: {
+          type: request.type,
+          locale: request.locale,
+          title: request.title,
+          content: request.content,
+          emailSubject: request.emailSubject || null,
+          emailHtml: request.emailHtml || null,
+          pushTitle: request.pushTitle || null,
+          pushBody: request.pushBody || null,
+          smsText: request.smsText || null,
+          variables: request.variables as any,
+          version: (latest?.version ?? 0) + 1,
+          isActive: true,
+          createdById: authorId,
+          changeNote: request.changeNote,
+        },
+      })
+    })
+
+    logger.info(`Notification template ${request.type}/${request.locale} saved as version ${template.version}`, {
+      authorId,
+    })
+    return this.mapTemplate(template)
+  }
+
+  // Apply changes to the active version, or the built-in default when there is none, as a new version
+  async updateTemplate(
+    type: NotificationType,
+    locale: TemplateLocale,
+    changes: UpdateTemplateRequest,
+    authorId?: string
+  ): Promise<NotificationTemplate> {
+    const active = await this.prisma.notificationTemplate.findFirst({
+      where: { type, locale, isActive: true },
+    })
+    const base = active ? this.toContent(this.mapTemplate(active)) : DEFAULT_TEMPLATES[type]
+
+    return this.createVersion({ ...base, ...changes, type, locale }, authorId)
+  }
+
+  // Make an earlier version the active one again
+  async rollback(
+    type: NotificationType,
+    locale: TemplateLocale,
+    version: number,
+    authorId?: string
+  ): Promise<NotificationTemplate> {
+    const target = await this.prisma.notificationTemplate.findUnique({
+      where: { type_locale_version: { type, locale, version } },
+    })
+
+    if (!target) {
+      throw new NotFoundError(`Version ${version} of the ${type}/${locale} template not found`)
+    }
+
+    const template = await this.prisma.$transaction(async (tx) => {
+      await tx.notificationTemplate.updateMany({
+        where: { type, locale, isActive: true },
+        data: { isActive: false },
+      })
+
+      return tx.notificationTemplate.update({
+        where: { id: target.id },
+        data: { isActive: true },
+      })
+    })
+
+    logger.info(`Notification template ${type}/${locale} rolled back to version ${version}`, { authorId })
+    return this.mapTemplate(template)
+  }
+
+  // Render the active template for the locale, falling back to English and then the built-in default
+  async render(
+    type: NotificationType,
+    locale: string,
+    data: TemplateData,
+    options: RenderOptions = {}
+  ): Promise<RenderedTemplate> {
+    const resolved = await this.resolve(type, toTemplateLocale(locale))
+    return this.renderContent(resolved.content, resolved.locale, resolved.version, data, options)
+  }
+
+  // Render in the user's language and timezone
+  async renderForUser(
+    type: NotificationType,
+    userId: string,
+    data: TemplateData,
+    options: RenderOptions = {}
+  ): Promise<RenderedTemplate> {
+    const preference = await this.prisma.notificationPreference.findUnique({
+      where: { userId },
+      select: { language: true, timezone: true },
+    })
+
+    return this.render(type, preference?.language || DEFAULT_TEMPLATE_LOCALE, data, {
+      timeZone: preference?.timezone || undefined,
+      ...options,
+    })
+  }
+
+  // Channel content for a queued job. Jobs created from a template render it in the user's
+  // language, others, or ones the template can no longer render, use their own title and content.
+  async renderJob(job: NotificationJob): Promise<RenderedTemplate> {
+    const link = typeof job.payload.data?.url === 'string' ? job.payload.data.url : undefined
+    const openTrackingUrl = typeof job.payload.data?.openTrackingUrl === 'string' ? job.payload.data.openTrackingUrl : undefined
+
+    if (job.payload.templateData) {
+      try {
+        return await this.renderForUser(job.type, job.userId, job.payload.templateData, { link, openTrackingUrl })
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error
+        logger.warn(`Template for notification ${job.id} no longer renders, sending its stored text: ${error.message}`)
+      }
+    }
+
+    const plain: TemplateContent = { title: job.payload.title, content: job.payload.content, variables: [] }
+    return this.renderContent(plain, DEFAULT_TEMPLATE_LOCALE, null, {}, { link, openTrackingUrl })
+  }
+
+  // Render a stored template, or an unsaved draft, with sample values for any variable not given
+  async preview(
+    type: NotificationType,
+    locale: TemplateLocale,
+    draft?: TemplateContent,
+    data: TemplateData = {}
+  ): Promise<{ rendered: RenderedTemplate, data: TemplateData }> {
+    let resolved: { content: TemplateContent, locale: string, version: number | null }
+    if (draft) {
+      this.validateContent(draft)
+      resolved = { content: draft, locale, version: null }
+    } else {
+      resolved = await this.resolve(type, locale)
+    }
+
+    const sample = Object.fromEntries(resolved.content.variables.map(variable => [variable.name, sampleValue(variable)]))
+    const previewData = { ...sample, ...data }
+
+    return {
+      rendered: this.renderContent(resolved.content, resolved.locale, resolved.version, previewData),
+      data: previewData,
+    }
+  }
+
+  private async resolve(
+    type: NotificationType,
+    locale: TemplateLocale
+  ): Promise<{ content: TemplateContent, locale: string, version: number }> {
+    const locales = locale === DEFAULT_TEMPLATE_LOCALE ? [locale] : [locale, DEFAULT_TEMPLATE_LOCALE]
+
+    const templates = await this.prisma.notificationTemplate.findMany({
+      where: { type, locale: { in: locales }, isActive: true },
+    })
+
+    for (const candidate of locales) {
+      const template = templates.find(t => t.locale === candidate)
+      if (template) {
+        return { content: this.toContent(this.mapTemplate(template)), locale: template.locale, version: template.version }
+      }
+    }
+
+    return { content: DEFAULT_TEMPLATES[type], locale: DEFAULT_TEMPLATE_LOCALE, version: 0 }
+  }
+
+  private renderContent(
+    content: TemplateContent,
+    locale: string,
+    version: number | null,
+    data: TemplateData,
+    options: RenderOptions = {}
+  ): RenderedTemplate {
+    const values = this.formatData(content.variables, data, locale, options.timeZone)
+    const render = (text: string) => interpolate(text, values, false)
+
+    const title = render(content.title)
+    const body = render(content.content)
+    const emailSubject = content.emailSubject ? render(content.emailSubject) : title
+    const emailBody = content.emailHtml ? interpolate(content.emailHtml, values, true) : textToHtml(body)
+
+    return {
+      locale,
+      version,
+      title,
+      content: body,
+      emailSubject,
+      emailHtml: renderEmailLayout(emailSubject, emailBody, options.link, options.openTrackingUrl),
+      pushTitle: content.pushTitle ? render(content.pushTitle) : title,
+      pushBody: content.pushBody ? render(content.pushBody) : body,
+      smsText: content.smsText ? render(content.smsText) : `${title}: ${body}`,
+    }
+  }
+
+  // Check the data against the template's variables and format each value for the locale
+  private formatData(
+    variables: TemplateVariable[],
+    data: TemplateData,
+    locale: string,
+    timeZone?: string
+  ): Record<string, string> {
+    const missing = variables
+      .filter(variable => variable.required && (data[variable.name] === undefined || data[variable.name] === null))
+      .map(variable => variable.name)
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing template variables: ${missing.join(', ')}`)
+    }
+
+    const values: Record<string, string> = {}
+    for (const variable of variables) {
+      const value = data[variable.name]
+      if (value === undefined || value === null) continue
+
+      if (!isValidValue(variable, value)) {
+        throw new ValidationError(`Template variable ${variable.name} must be a ${variable.type}`)
+      }
+      values[variable.name] = formatValue(variable, value, locale, timeZone)
+    }
+
+    return values
+  }
+
+  // Every placeholder must be a declared variable, declared once
+  private validateContent(content: TemplateContent): void {
+    const names = content.variables.map(variable => variable.name)
+    const duplicates = names.filter((name, index) => names.indexOf(name) !== index)
+    if (duplicates.length > 0) {
+      throw new ValidationError(`Template variables declared more than once: ${[...new Set(duplicates)].join(', ')}`)
+    }
+
+    const undeclared = new Set<string>()
+    for (const field of TEXT_FIELDS) {
+      for (const name of placeholdersOf(content[field] || '')) {
+        if (!names.includes(name)) undeclared.add(name)
+      }
+    }
+    if (undeclared.size > 0) {
+      throw new ValidationError(`Template uses undeclared variables: ${[...undeclared].join(', ')}`)
+    }
+  }
+
+  private toContent(template: NotificationTemplate): TemplateContent {
+    return {
+      title: template.title,
+      content: template.content,
+      emailSubject: template.emailSubject,
+      emailHtml: template.emailHtml,
+      pushTitle: template.pushTitle,
+      pushBody: template.pushBody,
+      smsText: template.smsText,
+      variables: template.variables,
+    }
+  }
+
+  private mapTemplate(template: PrismaNotificationTemplate): NotificationTemplate {
+    return {
+      id: template.id,
+      type: template.type as NotificationType,
+      locale: template.locale,
+      title: template.title,
+      content: template.content,
+      emailSubject: template.emailSubject ?? undefined,
+      emailHtml: template.emailHtml ?? undefined,
+      pushTitle: template.pushTitle ?? undefined,
+      pushBody: template.pushBody ?? undefined,
+      smsText: template.smsText ?? undefined,
+      variables: (template.variables as unknown as TemplateVariable[]) ?? [],
+      version: template.version,
+      isActive: template.isActive,
+      createdById: template.createdById ?? undefined,
+      changeNote: template.changeNote ?? undefined,
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    }
+  }
+}
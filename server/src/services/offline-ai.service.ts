@@ -0,0 +1,155 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { AIToolCall, AIToolDefinition, AITranscriptItem } from './ai.service';
+
+/**
+ * A scripted reply. Patterns are case-insensitive regular expressions; every pattern
+ * given has to match, and a rule without patterns matches anything.
+ */
+export interface OfflineRule {
+  name: string;
+  // Matched against the system prompt
+  system?: string;
+  // Matched against the latest user message; its named groups can be used as placeholders
+  message?: string;
+  // Called before answering when the request offers these tools
+  toolCalls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+  // The answer; `{{message}}` and `{{group}}` placeholders are filled in, here and in tool arguments
+  response: string;
+}
+
+export interface OfflineReply {
+  rule: string;
+  text: string;
+  toolCalls: AIToolCall[];
+}
+
+interface CompiledRule extends OfflineRule {
+  systemPattern?: RegExp;
+  messagePattern?: RegExp;
+}
+
+interface Fixtures {
+  rules: CompiledRule[];
+  fallback?: string;
+}
+
+const fill = (value: unknown, values: Record<string, string>): unknown => {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{(\w+)\}\}/g, (_placeholder, key: string) => values[key] ?? '');
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => fill(item, values));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item, values)]));
+  }
+  return value;
+};
+
+/**
+ * Replies from JSON fixture files of the form { rules: OfflineRule[], default? }, read in
+ * file name order; the first matching rule answers and `default` answers when none does.
+ * The same request always gets the same reply, so chat, tool use and text analysis can
+ * run in development and tests without network.
+ */
+export class OfflineAIProvider {
+  readonly name = 'offline';
+  readonly model = 'offline-fixtures';
+  private fixtures?: Promise<Fixtures>;
+
+  constructor(private readonly fixturesDir: string) {}
+
+  /**
+   * The reply to a transcript. A rule's tool calls are made once per user message, and
+   * only for the tools the request offers; once their results are in, the rule answers.
+   */
+  async reply(transcript: AITranscriptItem[], tools: AIToolDefinition[] = []): Promise<OfflineReply> {
+    const { rules, fallback } = await this.load();
+
+    const system = transcript
+      .filter((item) => item.role === 'system')
+      .map((item) => item.content)
+      .join('\n');
+    const lastUser = transcript.map((item) => item.role).lastIndexOf('user');
+    const message = lastUser === -1 ? '' : transcript[lastUser].content;
+    const toolsUsed = transcript.slice(lastUser + 1).some((item) => item.role === 'tool');
+    const offered = new Set(tools.map((tool) => tool.name));
+
+    for (const rule of rules) {
+      if (rule.systemPattern && !rule.systemPattern.test(system)) {
+        continue;
+      }
+
+      const match = rule.messagePattern ? rule.messagePattern.exec(message) : null;
+      if (rule.messagePattern && !match) {
+        continue;
+      }
+
+      const values: Record<string, string> = { message };
+      for (const [key, value] of Object.entries(match?.groups || {})) {
+        if (value !== undefined) values[key] = value;
+      }
+
+      const calls = toolsUsed ? [] : (rule.toolCalls || []).filter((call) => offered.has(call.name));
+      if (calls.length > 0) {
+        return {
+          rule: rule.name,
+          text: '',
+          toolCalls: calls.map((call, index) => ({
+            id: `offline-${index + 1}`,
+            name: call.name,
+            arguments: fill(call.arguments || {}, values) as Record<string, unknown>,
+          })),
+        };
+      }
+
+      return { rule: rule.name, text: fill(rule.response, values) as string, toolCalls: [] };
+    }
+
+    if (fallback === undefined) {
+      throw new Error('No offline AI fixture matches the request');
+    }
+
+    return { rule: 'default', text: fallback, toolCalls: [] };
+  }
+
+  private load(): Promise<Fixtures> {
+    if (!this.fixtures) {
+      // Read once; a failed read is tried again on the next request
+      this.fixtures = this.readFixtures().catch((error) => {
+        this.fixtures = undefined;
+        throw error;
+      });
+    }
+    return this.fixtures;
+  }
+
+  private async readFixtures(): Promise<Fixtures> {
+    const dir = path.resolve(this.fixturesDir);
+    const files = (await fs.readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+    const fixtures: Fixtures = { rules: [] };
+
+    for (const file of files) {
+      const contents = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+
+      for (const rule of (contents.rules || []) as OfflineRule[]) {
+        try {
+          fixtures.rules.push({
+            ...rule,
+            systemPattern: rule.system ? new RegExp(rule.system, 'i') : undefined,
+            messagePattern: rule.message ? new RegExp(rule.message, 'i') : undefined,
+          });
+        } catch (error: any) {
+          throw new Error(`Offline AI fixture ${file} has a bad pattern in rule ${rule.name}: ${error.message}`);
+        }
+      }
+
+      if (typeof contents.default === 'string') {
+        fixtures.fallback = contents.default;
+      }
+    }
+
+    return fixtures;
+  }
+}
@@ -167,7 +167,7 @@ export class OpenAIService {
   /**
    * Build system prompt based on context
    */
-  private static buildSystemPrompt(context?: any): string {
+  static buildSystemPrompt(context?: any): string {
     const language = context?.language || 'en';
     const messageType = context?.messageType || 'text';
 
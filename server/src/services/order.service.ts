@@ -15,6 +15,7 @@ import {
 } from '../middlewares/error.middleware';
 import { calculatePagination, PaginationMeta } from '../utils/response';
 import { log } from '../utils/logger';
+import { PromoService } from './promo.service';
 
 const prisma = new PrismaClient();
 
@@ -22,7 +23,7 @@ export class OrderService {
   /**
    * Generate unique order number
    */
-  private static async generateOrderNumber(): Promise<string> {
+  static async generateOrderNumber(): Promise<string> {
     const prefix = 'ORD';
     const timestamp = Date.now().toString().slice(-8);
     const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
@@ -44,7 +45,7 @@ export class OrderService {
   /**
    * Validate cart items and calculate totals
    */
-  static async validateCart(data: ValidateCartInput): Promise<{
+  static async validateCart(data: ValidateCartInput, userId?: string): Promise<{
     valid: boolean;
     items: any[];
     subtotal: number;
@@ -64,6 +65,7 @@ export class OrderService {
         where: { id: item.productId },
         include: {
           vendor: true,
+          category: true,
         },
       });
 
@@ -103,27 +105,23 @@ export class OrderService {
     // Calculate shipping (free for orders over $100)
     const shipping = subtotal > 100 ? 0 : 10;
 
-    // Calculate discount (promo code validation would go here)
+    // Calculate discount
     let discount = 0;
-    if (data.promoCode) {
-      const promoCode = await prisma.promoCode.findUnique({
-        where: { code: data.promoCode.toUpperCase() },
+    if (data.promoCode && validatedItems.length > 0) {
+      const promoValidation = await PromoService.validatePromoCode(data.promoCode, {
+        userId,
+        totalAmount: subtotal,
+        items: validatedItems.map((item) => ({
+          productId: item.productId,
+          category: item.product.category.slug,
+          total: item.total,
+        })),
       });
 
-      if (promoCode && promoCode.isActive && promoCode.applicableToProducts) {
-        const now = new Date();
-        if (now >= promoCode.validFrom && now <= promoCode.validUntil) {
-          if (!promoCode.minOrderAmount || subtotal >= Number(promoCode.minOrderAmount)) {
-            if (promoCode.discountType === 'percentage') {
-              discount = (subtotal * Number(promoCode.discountValue)) / 100;
-              if (promoCode.maxDiscount) {
-                discount = Math.min(discount, Number(promoCode.maxDiscount));
-              }
-            } else {
-              discount = Number(promoCode.discountValue);
-            }
-          }
-        }
+      if (promoValidation.valid) {
+        discount = promoValidation.discountAmount || 0;
+      } else {
+        errors.push(promoValidation.message || 'Invalid promo code');
       }
     }
 
@@ -149,7 +147,7 @@ export class OrderService {
     const cartValidation = await this.validateCart({
       items: data.items,
       promoCode: data.promoCode,
-    });
+    }, userId);
 
     if (!cartValidation.valid) {
       throw new ValidationError(`Cart validation failed: ${cartValidation.errors.join(', ')}`);
@@ -169,6 +167,7 @@ export class OrderService {
           tax: cartValidation.tax,
           shipping: cartValidation.shipping,
           discount: cartValidation.discount,
+          promoCode: data.promoCode?.toUpperCase(),
           total: cartValidation.total,
           status: 'PENDING',
           shippingAddress: data.shippingAddress,
@@ -539,21 +538,28 @@ export class OrderService {
       throw new NotFoundError('Order not found');
     }
 
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: {
-        status: data.status,
-        trackingNumber: data.trackingNumber,
-        notes: data.reason ? `${order.notes || ''}\n\nStatus Update: ${data.reason}` : order.notes,
-      },
-      include: {
-        items: {
-          include: {
-            product: true,
+    const updatedOrder = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Payment received: the order's promo code now counts as redeemed
+      if (order.status === 'PENDING' && data.status === 'PROCESSING') {
+        await PromoService.redeemForOrder(tx, order);
+      }
+
+      return tx.order.update({
+        where: { id },
+        data: {
+          status: data.status,
+          trackingNumber: data.trackingNumber,
+          notes: data.reason ? `${order.notes || ''}\n\nStatus Update: ${data.reason}` : order.notes,
+        },
+        include: {
+          items: {
+            include: {
+              product: true,
+            },
           },
+          user: true,
         },
-        user: true,
-      },
+      });
     });
 
     log.info('Order status updated', {
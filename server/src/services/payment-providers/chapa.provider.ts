@@ -0,0 +1,131 @@
+import axios from 'axios';
+import { IncomingHttpHeaders } from 'http';
+import { ValidationError } from '../../middlewares/error.middleware';
+import {
+  PaymentProvider,
+  PaymentProviderProfile,
+  GatewayPaymentRequest,
+  GatewayPayment,
+  GatewayPaymentState,
+  GatewayRefundRequest,
+  GatewayRefund,
+  GatewayWebhookEvent,
+  WebhookSignatureError,
+  getHeader,
+  hmacSha256,
+  signaturesMatch,
+  parseJsonBody,
+} from './provider';
+
+const CHAPA_API_URL = 'https://api.chapa.co/v1';
+
+export const CHAPA_PROFILE: PaymentProviderProfile = {
+  method: 'CHAPA',
+  slug: 'chapa',
+  name: 'Chapa',
+  description: 'Ethiopian bank cards, mobile money and bank transfers',
+  type: 'bank_transfer',
+  currencies: ['ETB', 'USD'],
+  flow: 'redirect',
+};
+
+/**
+ * Hosted checkout through Chapa
+ */
+export class ChapaPaymentProvider implements PaymentProvider {
+  readonly profile = CHAPA_PROFILE;
+  readonly sandbox = false;
+
+  constructor(private readonly secretKey: string, private readonly webhookSecret: string) {}
+
+  isEnabled(): boolean {
+    return !!this.secretKey;
+  }
+
+  private headers() {
+    return {
+      Authorization: `Bearer ${this.secretKey}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  async initialize(request: GatewayPaymentRequest): Promise<GatewayPayment> {
+    if (!request.customer.email) {
+      throw new ValidationError('An email address is required to pay with Chapa');
+    }
+
+    const response = await axios.post(
+      `${CHAPA_API_URL}/transaction/initialize`,
+      {
+        amount: request.amount,
+        currency: request.currency,
+        email: request.customer.email,
+        first_name: request.customer.firstName,
+        last_name: request.customer.lastName,
+        phone_number: request.customer.phone,
+        tx_ref: request.reference,
+        callback_url: request.notifyUrl,
+        return_url: request.returnUrl,
+        customization: {
+          description: request.description,
+        },
+        meta: request.metadata,
+      },
+      { headers: this.headers() }
+    );
+
+    if (response.data.status !== 'success') {
+      throw new Error(response.data.message || 'Failed to initialize Chapa payment');
+    }
+
+    return {
+      externalId: request.reference,
+      checkoutUrl: response.data.data.checkout_url,
+      raw: response.data,
+    };
+  }
+
+  async verify(externalId: string): Promise<GatewayPaymentState> {
+    const response = await axios.get(`${CHAPA_API_URL}/transaction/verify/${externalId}`, { headers: this.headers() });
+    const status = response.data.data?.status;
+
+    if (response.data.status === 'success' && status === 'success') {
+      return { externalId, status: 'COMPLETED', raw: response.data };
+    }
+
+    if (status === 'failed') {
+      return { externalId, status: 'FAILED', failureReason: response.data.message || 'Payment failed', raw: response.data };
+    }
+
+    return { externalId, status: 'PENDING', raw: response.data };
+  }
+
+  async refund(_request: GatewayRefundRequest): Promise<GatewayRefund> {
+    // Chapa has no refund API: the refund is paid out manually and recorded in the ledger
+    return { gatewayRefundId: null, status: 'SUCCEEDED' };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayWebhookEvent {
+    if (!this.webhookSecret) {
+      throw new Error('Chapa webhook secret not configured');
+    }
+
+    const signature = getHeader(headers, 'x-chapa-signature') || getHeader(headers, 'chapa-signature');
+    if (!signaturesMatch(signature, hmacSha256(this.webhookSecret, rawBody))) {
+      throw new WebhookSignatureError('Chapa');
+    }
+
+    const data = parseJsonBody(rawBody);
+    const state = { externalId: data.tx_ref, raw: data };
+
+    return {
+      type: data.event,
+      payment: data.event === 'charge.success'
+        ? { ...state, status: 'COMPLETED' }
+        : data.event === 'charge.failed'
+          ? { ...state, status: 'FAILED', failureReason: data.message || 'Payment failed' }
+          : undefined,
+      raw: data,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { config } from '../../config';
+import { PaymentGateway, PaymentProvider } from './provider';
+import { StripePaymentProvider, STRIPE_PROFILE } from './stripe.provider';
+import { ChapaPaymentProvider, CHAPA_PROFILE } from './chapa.provider';
+import { TelebirrPaymentProvider, TELEBIRR_PROFILE } from './telebirr.provider';
+import { CbeBirrPaymentProvider, CBE_BIRR_PROFILE } from './cbe-birr.provider';
+import { SandboxPaymentProvider } from './sandbox.provider';
+
+export * from './provider';
+export { StripePaymentProvider, STRIPE_PROFILE } from './stripe.provider';
+export { ChapaPaymentProvider, CHAPA_PROFILE } from './chapa.provider';
+export { TelebirrPaymentProvider, TELEBIRR_PROFILE } from './telebirr.provider';
+export { CbeBirrPaymentProvider, CBE_BIRR_PROFILE } from './cbe-birr.provider';
+export { SandboxPaymentProvider } from './sandbox.provider';
+
+const PROFILES = {
+  STRIPE: STRIPE_PROFILE,
+  CHAPA: CHAPA_PROFILE,
+  TELEBIRR: TELEBIRR_PROFILE,
+  CBE_BIRR: CBE_BIRR_PROFILE,
+};
+
+/**
+ * The configured provider of a gateway: its sandbox when listed in PAYMENT_SANDBOX_PROVIDERS
+ * outside production, otherwise the real adapter
+ */
+export const createPaymentProvider = (method: PaymentGateway): PaymentProvider => {
+  const { payment } = config;
+
+  if (payment.sandbox.includes(method) && config.server.nodeEnv !== 'production') {
+    return new SandboxPaymentProvider(PROFILES[method], payment.sandboxSecret);
+  }
+
+  switch (method) {
+    case 'STRIPE':
+      return new StripePaymentProvider(payment.stripe.secretKey, payment.stripe.webhookSecret);
+    case 'CHAPA':
+      return new ChapaPaymentProvider(payment.chapa.secretKey, payment.chapa.webhookSecret);
+    case 'TELEBIRR':
+      return new TelebirrPaymentProvider(payment.telebirr);
+    case 'CBE_BIRR':
+      return new CbeBirrPaymentProvider(payment.cbeBirr);
+  }
+};
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+export type PaymentGateway = 'STRIPE' | 'CHAPA' | 'TELEBIRR' | 'CBE_BIRR';
+
+export const PAYMENT_GATEWAYS: PaymentGateway[] = ['STRIPE', 'CHAPA', 'TELEBIRR', 'CBE_BIRR'];
+
+/**
+ * What the client needs to know to offer a provider
+ */
+export interface PaymentProviderProfile {
+  method: PaymentGateway;
+  // URL segment of the provider's routes, e.g. "cbe-birr"
+  slug: string;
+  name: string;
+  description: string;
+  type: 'card' | 'mobile_money' | 'bank_transfer';
+  // Currencies the gateway settles in, the first one is the default
+  currencies: string[];
+  // "client": confirmed in the browser with a client secret, "redirect": paid on the gateway's checkout page
+  flow: 'client' | 'redirect';
+}
+
+export type GatewayPaymentStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+export interface GatewayPaymentRequest {
+  // Our reference for the payment, unique across gateways
+  reference: string;
+  amount: number;
+  currency: string;
+  description: string;
+  customer: {
+    email?: string;
+    firstName?: string;
+    lastName?: string;
+    phone?: string;
+  };
+  // Where the gateway posts payment notifications
+  notifyUrl: string;
+  // Where the customer lands after a redirect checkout
+  returnUrl: string;
+  metadata: Record<string, string>;
+}
+
+export interface GatewayPayment {
+  // Stored as Payment.paymentId and used to verify and refund the payment
+  externalId: string;
+  checkoutUrl?: string;
+  clientSecret?: string;
+  raw: unknown;
+}
+
+export interface GatewayPaymentState {
+  externalId: string;
+  status: GatewayPaymentStatus;
+  failureReason?: string;
+  raw: unknown;
+}
+
+export interface GatewayRefundRequest {
+  externalId: string;
+  // Our refund id, sent as the idempotency key where the gateway supports one
+  refundId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+}
+
+export interface GatewayRefund {
+  gatewayRefundId: string | null;
+  status: 'PENDING' | 'SUCCEEDED';
+}
+
+export interface GatewayWebhookEvent {
+  id?: string;
+  type: string;
+  // Set when the event changes the status of a payment
+  payment?: GatewayPaymentState;
+  raw: any;
+}
+
+/**
+ * A payment gateway. Adapters throw plain errors for gateway failures, PaymentService wraps them.
+ */
+export interface PaymentProvider {
+  readonly profile: PaymentProviderProfile;
+  readonly sandbox: boolean;
+  isEnabled(): boolean;
+  initialize(request: GatewayPaymentRequest): Promise<GatewayPayment>;
+  verify(externalId: string): Promise<GatewayPaymentState>;
+  refund(request: GatewayRefundRequest): Promise<GatewayRefund>;
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayWebhookEvent;
+}
+
+/**
+ * A webhook whose signature does not match, answered with 401
+ */
+export class WebhookSignatureError extends Error {
+  constructor(provider: string) {
+    super(`Invalid ${provider} webhook signature`);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+export const getHeader = (headers: IncomingHttpHeaders, name: string): string =>
+  String([headers[name]].flat()[0] || '');
+
+export const hmacSha256 = (secret: string, payload: string | Buffer): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+/**
+ * Compare hex signatures in constant time
+ */
+export const signaturesMatch = (provided: string, expected: string): boolean => {
+  const a = Buffer.from(provided, 'hex');
+  const b = Buffer.from(expected, 'hex');
+  return a.length > 0 && a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+export const parseJsonBody = (rawBody: Buffer): any => {
+  try {
+    return JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    throw new Error('Webhook body is not valid JSON');
+  }
+};
@@ -0,0 +1,135 @@
+import { IncomingHttpHeaders } from 'http';
+import {
+  PaymentProvider,
+  PaymentProviderProfile,
+  GatewayPaymentRequest,
+  GatewayPayment,
+  GatewayPaymentState,
+  GatewayPaymentStatus,
+  GatewayRefundRequest,
+  GatewayRefund,
+  GatewayWebhookEvent,
+  WebhookSignatureError,
+  getHeader,
+  hmacSha256,
+  signaturesMatch,
+  parseJsonBody,
+} from './provider';
+
+const STATUSES: GatewayPaymentStatus[] = ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'];
+
+interface SandboxPayment {
+  amount: number;
+  currency: string;
+  refunded: number;
+  status: GatewayPaymentStatus;
+  failureReason?: string;
+}
+
+/**
+ * A local stand-in for a gateway, for development and tests. Nothing leaves the process:
+ * payments succeed when first verified unless settled otherwise, refunds always succeed, and
+ * webhooks are signed with an HMAC-SHA256 of the body in the `x-sandbox-signature` header.
+ */
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly sandbox = true;
+  private readonly payments = new Map<string, SandboxPayment>();
+
+  constructor(readonly profile: PaymentProviderProfile, private readonly secret: string = 'sandbox') {}
+
+  isEnabled(): boolean {
+    return true;
+  }
+
+  /**
+   * Sign a webhook body the way the sandbox expects
+   */
+  sign(body: string): string {
+    return hmacSha256(this.secret, body);
+  }
+
+  /**
+   * Decide how a sandbox payment ends, e.g. to test a declined payment
+   */
+  settle(externalId: string, status: GatewayPaymentStatus, failureReason?: string): void {
+    const payment = this.payments.get(externalId);
+    if (!payment) {
+      throw new Error(`Unknown sandbox payment ${externalId}`);
+    }
+    payment.status = status;
+    payment.failureReason = failureReason;
+  }
+
+  async initialize(request: GatewayPaymentRequest): Promise<GatewayPayment> {
+    this.payments.set(request.reference, {
+      amount: request.amount,
+      currency: request.currency,
+      refunded: 0,
+      status: 'PENDING',
+    });
+
+    const result: GatewayPayment = { externalId: request.reference, raw: { sandbox: true, ...request } };
+
+    if (this.profile.flow === 'client') {
+      result.clientSecret = `${request.reference}_secret_sandbox`;
+    } else {
+      const separator = request.returnUrl.includes('?') ? '&' : '?';
+      result.checkoutUrl = `${request.returnUrl}${separator}sandbox=true`;
+    }
+
+    return result;
+  }
+
+  async verify(externalId: string): Promise<GatewayPaymentState> {
+    const payment = this.payments.get(externalId);
+
+    if (!payment) {
+      return { externalId, status: 'FAILED', failureReason: 'Unknown sandbox payment', raw: { sandbox: true } };
+    }
+
+    if (payment.status === 'PENDING') {
+      payment.status = 'COMPLETED';
+    }
+
+    return {
+      externalId,
+      status: payment.status,
+      failureReason: payment.failureReason,
+      raw: { sandbox: true, ...payment },
+    };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefund> {
+    const payment = this.payments.get(request.externalId);
+
+    if (payment) {
+      payment.refunded += request.amount;
+    }
+
+    return { gatewayRefundId: `sandbox-refund-${request.refundId}`, status: 'SUCCEEDED' };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayWebhookEvent {
+    if (!signaturesMatch(getHeader(headers, 'x-sandbox-signature'), this.sign(rawBody.toString('utf8')))) {
+      throw new WebhookSignatureError(`${this.profile.name} sandbox`);
+    }
+
+    const data = parseJsonBody(rawBody);
+
+    if (!STATUSES.includes(data.status)) {
+      throw new Error(`Unknown sandbox payment status ${data.status}`);
+    }
+
+    const payment = this.payments.get(data.reference);
+    if (payment) {
+      payment.status = data.status;
+      payment.failureReason = data.failureReason;
+    }
+
+    return {
+      type: `payment.${data.status.toLowerCase()}`,
+      payment: { externalId: data.reference, status: data.status, failureReason: data.failureReason, raw: data },
+      raw: data,
+    };
+  }
+}
@@ -0,0 +1,146 @@
+import Stripe from 'stripe';
+import { IncomingHttpHeaders } from 'http';
+import { CurrencyService } from '../currency.service';
+import {
+  PaymentProvider,
+  PaymentProviderProfile,
+  GatewayPaymentRequest,
+  GatewayPayment,
+  GatewayPaymentState,
+  GatewayRefundRequest,
+  GatewayRefund,
+  GatewayWebhookEvent,
+  WebhookSignatureError,
+  getHeader,
+} from './provider';
+
+export const STRIPE_PROFILE: PaymentProviderProfile = {
+  method: 'STRIPE',
+  slug: 'stripe',
+  name: 'Credit/Debit Card',
+  description: 'Visa, Mastercard, American Express',
+  type: 'card',
+  currencies: ['USD', 'EUR', 'GBP', 'ETB'],
+  flow: 'client',
+};
+
+const toMinorUnits = (amount: number, currency: string) =>
+  Math.round(amount * 10 ** CurrencyService.getMinorUnits(currency));
+
+const intentState = (intent: Stripe.PaymentIntent): GatewayPaymentState => {
+  const state = { externalId: intent.id, raw: intent };
+
+  switch (intent.status) {
+    case 'succeeded':
+      return { ...state, status: 'COMPLETED' };
+    case 'processing':
+      return { ...state, status: 'PROCESSING' };
+    case 'canceled':
+      return { ...state, status: 'FAILED', failureReason: 'Payment cancelled' };
+    case 'requires_payment_method':
+      // A new intent also requires a payment method, it has only failed once an attempt was declined
+      return intent.last_payment_error
+        ? { ...state, status: 'FAILED', failureReason: intent.last_payment_error.message || 'Payment failed' }
+        : { ...state, status: 'PENDING' };
+    default:
+      return { ...state, status: 'PENDING' };
+  }
+};
+
+/**
+ * Card payments through Stripe payment intents
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly profile = STRIPE_PROFILE;
+  readonly sandbox = false;
+  private readonly stripe: Stripe | null;
+
+  constructor(secretKey: string, private readonly webhookSecret: string) {
+    this.stripe = secretKey ? new Stripe(secretKey, { apiVersion: '2023-10-16' }) : null;
+  }
+
+  isEnabled(): boolean {
+    return !!this.stripe;
+  }
+
+  private client(): Stripe {
+    if (!this.stripe) {
+      throw new Error('Stripe is not configured');
+    }
+    return this.stripe;
+  }
+
+  async initialize(request: GatewayPaymentRequest): Promise<GatewayPayment> {
+    const intent = await this.client().paymentIntents.create({
+      amount: toMinorUnits(request.amount, request.currency),
+      currency: request.currency.toLowerCase(),
+      description: request.description,
+      receipt_email: request.customer.email,
+      metadata: { ...request.metadata, reference: request.reference },
+      automatic_payment_methods: {
+        enabled: true,
+      },
+    }, { idempotencyKey: request.reference });
+
+    return {
+      externalId: intent.id,
+      clientSecret: intent.client_secret!,
+      raw: intent,
+    };
+  }
+
+  async verify(externalId: string): Promise<GatewayPaymentState> {
+    return intentState(await this.client().paymentIntents.retrieve(externalId));
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefund> {
+    const refund = await this.client().refunds.create({
+      payment_intent: request.externalId,
+      amount: toMinorUnits(request.amount, request.currency),
+      reason: 'requested_by_customer',
+      metadata: {
+        refundId: request.refundId,
+        reason: request.reason,
+      },
+    }, { idempotencyKey: request.refundId });
+
+    if (refund.status === 'failed' || refund.status === 'canceled') {
+      throw new Error(`Stripe refund ${refund.status}`);
+    }
+
+    return {
+      gatewayRefundId: refund.id,
+      status: refund.status === 'succeeded' ? 'SUCCEEDED' : 'PENDING',
+    };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayWebhookEvent {
+    if (!this.webhookSecret) {
+      throw new Error('Stripe webhook secret not configured');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.client().webhooks.constructEvent(rawBody, getHeader(headers, 'stripe-signature'), this.webhookSecret);
+    } catch (error: any) {
+      if (error instanceof Stripe.errors.StripeSignatureVerificationError) {
+        throw new WebhookSignatureError('Stripe');
+      }
+      throw error;
+    }
+
+    const isIntentEvent = [
+      'payment_intent.succeeded',
+      'payment_intent.payment_failed',
+      'payment_intent.canceled',
+      'payment_intent.processing',
+    ].includes(event.type);
+
+    return {
+      id: event.id,
+      type: event.type,
+      payment: isIntentEvent ? intentState(event.data.object as Stripe.PaymentIntent) : undefined,
+      raw: event,
+    };
+  }
+}
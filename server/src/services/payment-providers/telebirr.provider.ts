@@ -0,0 +1,238 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import {
+  PaymentProvider,
+  PaymentProviderProfile,
+  GatewayPaymentRequest,
+  GatewayPayment,
+  GatewayPaymentState,
+  GatewayPaymentStatus,
+  GatewayRefundRequest,
+  GatewayRefund,
+  GatewayWebhookEvent,
+  WebhookSignatureError,
+  parseJsonBody,
+} from './provider';
+
+export const TELEBIRR_PROFILE: PaymentProviderProfile = {
+  method: 'TELEBIRR',
+  slug: 'telebirr',
+  name: 'Telebirr',
+  description: 'Ethio telecom mobile money',
+  type: 'mobile_money',
+  currencies: ['ETB'],
+  flow: 'redirect',
+};
+
+export interface TelebirrOptions {
+  baseUrl: string;
+  webBaseUrl: string;
+  fabricAppId: string;
+  appSecret: string;
+  merchantAppId: string;
+  merchantCode: string;
+  privateKey: string;
+  publicKey: string;
+}
+
+// Fabric tokens last an hour, renew them a little early
+const TOKEN_TTL_MS = 50 * 60 * 1000;
+
+// Order statuses returned by queryOrder
+const ORDER_STATUSES: Record<string, GatewayPaymentStatus> = {
+  PAY_SUCCESS: 'COMPLETED',
+  PAYING: 'PROCESSING',
+  PAY_FAILED: 'FAILED',
+  ORDER_CLOSED: 'FAILED',
+};
+
+// Trade statuses sent in payment notifications
+const TRADE_STATUSES: Record<string, GatewayPaymentStatus> = {
+  Completed: 'COMPLETED',
+  Paying: 'PROCESSING',
+  Failure: 'FAILED',
+  Expired: 'FAILED',
+};
+
+const SIGN_OPTIONS = { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 };
+
+/**
+ * The string Telebirr signs: every field but the signature, biz_content flattened, sorted by name
+ */
+const signingString = (fields: Record<string, any>): string => {
+  const { biz_content: bizContent, ...rest } = fields;
+  const flat: Record<string, any> = { ...rest, ...(bizContent || {}) };
+
+  return Object.keys(flat)
+    .filter((key) => !['sign', 'sign_type'].includes(key) && flat[key] !== undefined && flat[key] !== '')
+    .sort()
+    .map((key) => `${key}=${typeof flat[key] === 'object' ? JSON.stringify(flat[key]) : flat[key]}`)
+    .join('&');
+};
+
+/**
+ * Web checkout through the Telebirr H5 C2B API. Requests are signed with the merchant's RSA key
+ * and notifications verified with Telebirr's public key.
+ */
+export class TelebirrPaymentProvider implements PaymentProvider {
+  readonly profile = TELEBIRR_PROFILE;
+  readonly sandbox = false;
+  private token?: { value: string; expiresAt: number };
+
+  constructor(private readonly options: TelebirrOptions) {}
+
+  isEnabled(): boolean {
+    const { fabricAppId, appSecret, merchantAppId, merchantCode, privateKey } = this.options;
+    return !!(fabricAppId && appSecret && merchantAppId && merchantCode && privateKey);
+  }
+
+  private sign(fields: Record<string, any>): string {
+    return crypto.sign('sha256', Buffer.from(signingString(fields)), { key: this.options.privateKey, ...SIGN_OPTIONS })
+      .toString('base64');
+  }
+
+  private async fabricToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    const response = await axios.post(
+      `${this.options.baseUrl}/payment/v1/token`,
+      { appSecret: this.options.appSecret },
+      { headers: { 'X-APP-Key': this.options.fabricAppId } }
+    );
+
+    if (!response.data.token) {
+      throw new Error('Telebirr did not issue a fabric token');
+    }
+
+    this.token = { value: response.data.token, expiresAt: Date.now() + TOKEN_TTL_MS };
+    return this.token.value;
+  }
+
+  /**
+   * Call a merchant API method and return its biz_content
+   */
+  private async call(path: string, method: string, bizContent: Record<string, any>): Promise<any> {
+    const request: Record<string, any> = {
+      timestamp: Math.floor(Date.now() / 1000).toString(),
+      nonce_str: crypto.randomBytes(16).toString('hex'),
+      method,
+      version: '1.0',
+      biz_content: {
+        appid: this.options.merchantAppId,
+        merch_code: this.options.merchantCode,
+        ...bizContent,
+      },
+      sign_type: 'SHA256WithRSA',
+    };
+    request.sign = this.sign(request);
+
+    const response = await axios.post(`${this.options.baseUrl}/payment/v1/merchant/${path}`, request, {
+      headers: {
+        'X-APP-Key': this.options.fabricAppId,
+        Authorization: await this.fabricToken(),
+      },
+    });
+
+    if (response.data.result !== 'SUCCESS') {
+      throw new Error(`Telebirr ${method} failed: ${response.data.msg || response.data.errorMsg || 'unknown error'}`);
+    }
+
+    return response.data.biz_content;
+  }
+
+  async initialize(request: GatewayPaymentRequest): Promise<GatewayPayment> {
+    const order = await this.call('preOrder', 'payment.preorder', {
+      notify_url: request.notifyUrl,
+      redirect_url: request.returnUrl,
+      trade_type: 'Checkout',
+      business_type: 'BuyGoods',
+      merch_order_id: request.reference,
+      title: request.description.slice(0, 64),
+      total_amount: request.amount.toFixed(2),
+      trans_currency: request.currency,
+      timeout_express: '120m',
+    });
+
+    const checkout: Record<string, any> = {
+      appid: this.options.merchantAppId,
+      merch_code: this.options.merchantCode,
+      nonce_str: crypto.randomBytes(16).toString('hex'),
+      prepay_id: order.prepay_id,
+      timestamp: Math.floor(Date.now() / 1000).toString(),
+    };
+    const query = `${signingString(checkout)}&sign=${encodeURIComponent(this.sign(checkout))}` +
+      '&sign_type=SHA256WithRSA&version=1.0&trade_type=Checkout';
+
+    return {
+      externalId: request.reference,
+      checkoutUrl: `${this.options.webBaseUrl}${query}`,
+      raw: order,
+    };
+  }
+
+  async verify(externalId: string): Promise<GatewayPaymentState> {
+    const order = await this.call('queryOrder', 'payment.queryorder', { merch_order_id: externalId });
+    const status = ORDER_STATUSES[order.order_status] || 'PENDING';
+
+    return {
+      externalId,
+      status,
+      failureReason: status === 'FAILED' ? `Telebirr order ${order.order_status}` : undefined,
+      raw: order,
+    };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefund> {
+    const refund = await this.call('refund', 'payment.refund', {
+      merch_order_id: request.externalId,
+      refund_request_no: request.refundId,
+      refund_reason: request.reason.slice(0, 64),
+      actual_amount: request.amount.toFixed(2),
+      trans_currency: request.currency,
+    });
+
+    if (refund.refund_status === 'REFUND_FAILED') {
+      throw new Error('Telebirr refund failed');
+    }
+
+    return {
+      gatewayRefundId: refund.refund_order_id || null,
+      status: refund.refund_status === 'REFUND_SUCCESS' ? 'SUCCEEDED' : 'PENDING',
+    };
+  }
+
+  parseWebhook(rawBody: Buffer, _headers: IncomingHttpHeaders): GatewayWebhookEvent {
+    if (!this.options.publicKey) {
+      throw new Error('Telebirr public key not configured');
+    }
+
+    const data = parseJsonBody(rawBody);
+    const valid = typeof data.sign === 'string' && crypto.verify(
+      'sha256',
+      Buffer.from(signingString(data)),
+      { key: this.options.publicKey, ...SIGN_OPTIONS },
+      Buffer.from(data.sign, 'base64')
+    );
+
+    if (!valid) {
+      throw new WebhookSignatureError('Telebirr');
+    }
+
+    const status = TRADE_STATUSES[data.trade_status] || 'PENDING';
+
+    return {
+      id: data.payment_order_id,
+      type: `trade.${String(data.trade_status).toLowerCase()}`,
+      payment: {
+        externalId: data.merch_order_id,
+        status,
+        failureReason: status === 'FAILED' ? `Telebirr payment ${data.trade_status}` : undefined,
+        raw: data,
+      },
+      raw: data,
+    };
+  }
+}
@@ -1,9 +1,9 @@
-import { PrismaClient, Payment, PaymentStatus, PaymentMethod, Prisma } from '@prisma/client';
-import Stripe from 'stripe';
-import axios from 'axios';
+import { PrismaClient, Payment, Prisma, Booking, Refund } from '@prisma/client';
+import { IncomingHttpHeaders } from 'http';
 import { 
   CreatePaymentIntentInput, 
   InitializeChapaPaymentInput,
+  InitializePaymentInput,
   ConfirmPaymentInput,
   PaymentQueryInput,
   RefundPaymentInput,
@@ -12,6 +12,7 @@ import {
 import { 
   NotFoundError, 
   ValidationError,
+  ConflictError,
   AppError 
 } from '../middlewares/error.middleware';
 
@@ -24,34 +25,157 @@ export class PaymentError extends AppError {
 import { calculatePagination, PaginationMeta } from '../utils/response';
 import { log } from '../utils/logger';
 import { config } from '../config/index';
+import { BookingService } from './booking.service';
+import { CheckoutService, CheckoutAllocation } from './checkout.service';
+import { CurrencyService, CurrencyConversion } from './currency.service';
+import { EmailService } from './email.service';
+import {
+  PaymentGateway,
+  PaymentProvider,
+  PaymentProviderProfile,
+  GatewayPayment,
+  GatewayPaymentState,
+  GatewayWebhookEvent,
+  PAYMENT_GATEWAYS,
+  createPaymentProvider,
+} from './payment-providers';
 
 const prisma = new PrismaClient();
 
-// Initialize Stripe only if key is provided
-let stripe: Stripe | null = null;
+// Payments that can still be (further) refunded
+export const REFUNDABLE_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED'];
 
-if (config.payment.stripe.secretKey) {
-  stripe = new Stripe(config.payment.stripe.secretKey, {
-    apiVersion: '2023-10-16',
-  });
-} else {
-  console.warn('⚠️ Stripe secret key not provided - Stripe payments disabled');
+// Payments still waiting on the gateway
+const OPEN_STATUSES = ['PENDING', 'PROCESSING'];
+
+interface PaymentCharge {
+  amount: number;
+  currency: string;
+  conversion?: CurrencyConversion;
+}
+
+export interface InitializedPayment {
+  payment: Payment;
+  reference: string;
+  checkoutUrl?: string;
+  clientSecret?: string;
+}
+
+export interface EnabledPaymentProvider extends PaymentProviderProfile {
+  sandbox: boolean;
 }
 
 export class PaymentService {
+  private static providers = new Map<PaymentGateway, PaymentProvider>();
+
   /**
-   * Create Stripe payment intent
+   * Use another provider for a gateway, e.g. a sandbox in tests
    */
-  static async createStripePaymentIntent(
-    data: CreatePaymentIntentInput,
-    userId: string
-  ): Promise<{ clientSecret: string; paymentIntentId: string; payment: Payment }> {
-    if (!stripe) {
-      throw new PaymentError('Stripe is not configured');
+  static setProvider(provider: PaymentProvider): void {
+    this.providers.set(provider.profile.method, provider);
+  }
+
+  /**
+   * The configured provider of a payment method
+   */
+  static getProvider(method: string): PaymentProvider {
+    if (!PAYMENT_GATEWAYS.includes(method as PaymentGateway)) {
+      throw new ValidationError(`Unsupported payment method: ${method}`);
     }
-    // Verify booking or order exists
+
+    let provider = this.providers.get(method as PaymentGateway);
+    if (!provider) {
+      provider = createPaymentProvider(method as PaymentGateway);
+      this.providers.set(method as PaymentGateway, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * The payment method of a provider's URL segment, e.g. CBE_BIRR for "cbe-birr"
+   */
+  static getMethodBySlug(slug: string): PaymentGateway {
+    const method = slug.toUpperCase().replace(/-/g, '_');
+
+    if (!PAYMENT_GATEWAYS.includes(method as PaymentGateway)) {
+      throw new NotFoundError(`Unknown payment provider: ${slug}`);
+    }
+    return method as PaymentGateway;
+  }
+
+  /**
+   * Providers customers can currently pay with
+   */
+  static getEnabledProviders(): EnabledPaymentProvider[] {
+    return PAYMENT_GATEWAYS
+      .map((method) => this.getProvider(method))
+      .filter((provider) => provider.isEnabled())
+      .map((provider) => ({ ...provider.profile, sandbox: provider.sandbox }));
+  }
+
+  private static getEnabledProvider(method: string): PaymentProvider {
+    const provider = this.getProvider(method);
+
+    if (!provider.isEnabled()) {
+      throw new PaymentError(`${provider.profile.name} payments are not available`);
+    }
+    return provider;
+  }
+
+  /**
+   * What a payment charges: a booking's locked quote, otherwise the amount the client sent
+   */
+  private static resolveCharge(
+    data: { amount?: number; currency?: string },
+    booking: Booking | null,
+    defaultCurrency: string
+  ): PaymentCharge {
+    if (!booking) {
+      return { amount: data.amount!, currency: (data.currency || defaultCurrency).toUpperCase() };
+    }
+
+    const quote = BookingService.getLockedQuote(booking);
+
+    if (data.currency && data.currency.toUpperCase() !== quote.currency) {
+      throw new ValidationError(
+        `This booking is quoted in ${quote.currency}, request a new quote to pay in ${data.currency.toUpperCase()}`
+      );
+    }
+
+    if (data.amount !== undefined && CurrencyService.roundAmount(data.amount, quote.currency) !== quote.amount) {
+      throw new ValidationError('Payment amount does not match the booking quote');
+    }
+
+    return { amount: quote.amount, currency: quote.currency, conversion: quote };
+  }
+
+  /**
+   * Conversion columns recorded on a payment for reconciliation
+   */
+  private static conversionFields(conversion?: CurrencyConversion) {
+    if (!conversion) {
+      return {};
+    }
+
+    return {
+      baseAmount: conversion.baseAmount,
+      baseCurrency: conversion.baseCurrency,
+      exchangeRate: conversion.rate,
+      rateSource: conversion.source,
+      rateFetchedAt: conversion.fetchedAt,
+    };
+  }
+
+  /**
+   * The booking being paid for, after checking the booking or order belongs to the user
+   */
+  private static async loadPayable(
+    data: { bookingId?: string; orderId?: string },
+    userId: string
+  ): Promise<Booking | null> {
+    let booking: Booking | null = null;
     if (data.bookingId) {
-      const booking = await prisma.booking.findUnique({
+      booking = await prisma.booking.findUnique({
         where: { id: data.bookingId },
       });
 
@@ -90,284 +214,435 @@ export class PaymentService {
       }
     }
 
+    return booking;
+  }
+
+  /**
+   * Start a payment with a provider. Client-flow providers return a client secret to confirm
+   * the payment in the browser, redirect-flow providers a checkout URL.
+   */
+  static async initializePayment(
+    method: string,
+    data: InitializePaymentInput,
+    userId: string
+  ): Promise<InitializedPayment> {
+    const provider = this.getEnabledProvider(method);
+    const { profile } = provider;
+    const booking = await this.loadPayable(data, userId);
+    let charge = this.resolveCharge(data, booking, profile.currencies[0]);
+    let description = booking ? `Booking ${booking.bookingNumber}` : 'EthioAI Tourism payment';
+
+    // A checkout session is charged in full and the payment split across what it holds
+    let allocations: CheckoutAllocation[] = [];
+    if (data.checkoutSessionId) {
+      const payable = await CheckoutService.getPayableSession(data.checkoutSessionId, userId);
+      charge = { amount: Number(payable.session.total), currency: payable.session.currency };
+      allocations = payable.allocations;
+      description = `Checkout of ${allocations.length} item${allocations.length === 1 ? '' : 's'}`;
+    }
+
+    if (!profile.currencies.includes(charge.currency)) {
+      throw new ValidationError(`${profile.name} only accepts ${profile.currencies.join(' or ')} payments`);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true, email: true, phone: true },
+    });
+    const [firstName, ...lastNames] = (user?.name || '').split(' ');
+
+    // Generate unique transaction reference
+    const reference = `${profile.method}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+
+    let gatewayPayment: GatewayPayment;
     try {
-      // Create Stripe payment intent
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(data.amount * 100), // Convert to cents
-        currency: data.currency.toLowerCase(),
+      gatewayPayment = await provider.initialize({
+        reference,
+        amount: charge.amount,
+        currency: charge.currency,
+        description: data.description || description,
+        customer: {
+          email: data.email || user?.email,
+          firstName: data.firstName || firstName || undefined,
+          lastName: data.lastName || lastNames.join(' ') || undefined,
+          phone: data.phone || user?.phone || undefined,
+        },
+        notifyUrl: `${config.payment.webhookUrl}/${profile.slug}`,
+        returnUrl: data.returnUrl || `${config.client.url}/payment/callback?provider=${profile.slug}&reference=${reference}`,
         metadata: {
           userId,
           bookingId: data.bookingId || '',
           orderId: data.orderId || '',
+          checkoutSessionId: data.checkoutSessionId || '',
           ...data.metadata,
         },
-        automatic_payment_methods: {
-          enabled: true,
-        },
-      });
-
-      // Create payment record in database
-      const payment = await prisma.payment.create({
-        data: {
-          paymentId: paymentIntent.id,
-          userId,
-          bookingId: data.bookingId,
-          orderId: data.orderId,
-          amount: data.amount,
-          currency: data.currency,
-          method: 'STRIPE',
-          status: 'PENDING',
-          gatewayResponse: paymentIntent as any,
-        },
       });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      log.error('Failed to initialize payment', { method: profile.method, error: error.message, userId });
+      throw new PaymentError(`Failed to initialize payment: ${error.message}`);
+    }
 
-      log.info('Stripe payment intent created', {
-        paymentId: payment.id,
-        paymentIntentId: paymentIntent.id,
+    // Create payment record in database
+    const payment = await prisma.payment.create({
+      data: {
+        paymentId: gatewayPayment.externalId,
         userId,
-        amount: data.amount,
-      });
+        bookingId: data.bookingId,
+        orderId: data.orderId,
+        checkoutSessionId: data.checkoutSessionId,
+        amount: charge.amount,
+        currency: charge.currency,
+        ...this.conversionFields(charge.conversion),
+        method: profile.method,
+        status: 'PENDING',
+        gatewayResponse: JSON.stringify(gatewayPayment.raw),
+        ...(allocations.length > 0 && { allocations: { create: allocations } }),
+      },
+    });
 
-      return {
-        clientSecret: paymentIntent.client_secret!,
-        paymentIntentId: paymentIntent.id,
-        payment,
-      };
-    } catch (error: any) {
-      log.error('Failed to create Stripe payment intent', { error: error.message, userId });
-      throw new PaymentError(`Failed to create payment intent: ${error.message}`);
-    }
+    log.info('Payment initialized', {
+      paymentId: payment.id,
+      method: profile.method,
+      reference: gatewayPayment.externalId,
+      sandbox: provider.sandbox,
+      userId,
+      amount: charge.amount,
+      currency: charge.currency,
+    });
+
+    return {
+      payment,
+      reference: gatewayPayment.externalId,
+      checkoutUrl: gatewayPayment.checkoutUrl,
+      clientSecret: gatewayPayment.clientSecret,
+    };
   }
 
   /**
-   * Initialize Chapa payment
+   * Ask the provider for the status of a payment and record it
    */
-  static async initializeChapaPayment(
-    data: InitializeChapaPaymentInput,
-    userId: string
-  ): Promise<{ checkoutUrl: string; txRef: string; payment: Payment }> {
-    // Verify booking or order exists
-    if (data.bookingId) {
-      const booking = await prisma.booking.findUnique({
-        where: { id: data.bookingId },
-      });
-
-      if (!booking) {
-        throw new NotFoundError('Booking not found');
-      }
+  static async verifyPayment(method: string, reference: string, userId: string): Promise<Payment> {
+    const payment = await prisma.payment.findUnique({
+      where: { paymentId: reference },
+    });
 
-      if (booking.userId !== userId) {
-        throw new ValidationError('You do not have permission to pay for this booking');
-      }
+    if (!payment || payment.method !== method) {
+      throw new NotFoundError('Payment not found');
     }
 
-    if (data.orderId) {
-      const order = await prisma.order.findUnique({
-        where: { id: data.orderId },
-      });
-
-      if (!order) {
-        throw new NotFoundError('Order not found');
-      }
-
-      if (order.userId !== userId) {
-        throw new ValidationError('You do not have permission to pay for this order');
-      }
+    if (payment.userId !== userId) {
+      throw new ValidationError('You do not have permission to access this payment');
     }
 
+    const provider = this.getEnabledProvider(method);
+
+    let state: GatewayPaymentState;
     try {
-      // Generate unique transaction reference
-      const txRef = `CHAPA-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+      state = await provider.verify(reference);
+    } catch (error: any) {
+      log.error('Failed to verify payment', { method, error: error.message, userId });
+      throw new PaymentError(`Failed to verify payment: ${error.message}`);
+    }
 
-      // Initialize Chapa payment
-      const response = await axios.post(
-        'https://api.chapa.co/v1/transaction/initialize',
-        {
-          amount: data.amount,
-          currency: data.currency,
-          email: data.email,
-          first_name: data.firstName,
-          last_name: data.lastName,
-          phone_number: data.phone,
-          tx_ref: txRef,
-          callback_url: data.callbackUrl || `${config.client.url}/payment/callback`,
-          return_url: data.returnUrl,
-          customization: data.customization,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${config.payment.chapa.secretKey}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+    const updatedPayment = await this.applyGatewayState(payment, state);
 
-      if (response.data.status !== 'success') {
-        throw new PaymentError('Failed to initialize Chapa payment');
-      }
+    log.info('Payment verified', {
+      paymentId: payment.id,
+      method,
+      status: updatedPayment.status,
+      userId,
+    });
 
-      // Create payment record in database
-      const payment = await prisma.payment.create({
-        data: {
-          paymentId: txRef,
-          userId,
-          bookingId: data.bookingId,
-          orderId: data.orderId,
-          amount: data.amount,
-          currency: data.currency,
-          method: 'CHAPA',
-          status: 'PENDING',
-          gatewayResponse: response.data as any,
-        },
-      });
+    return updatedPayment;
+  }
 
-      log.info('Chapa payment initialized', {
-        paymentId: payment.id,
-        txRef,
-        userId,
-        amount: data.amount,
+  /**
+   * Verify a webhook with its provider and apply the payment status it reports.
+   * Throws WebhookSignatureError when the signature does not match.
+   */
+  static async handleWebhook(
+    method: PaymentGateway,
+    rawBody: Buffer,
+    headers: IncomingHttpHeaders
+  ): Promise<GatewayWebhookEvent> {
+    const event = this.getProvider(method).parseWebhook(rawBody, headers);
+
+    if (event.payment) {
+      const payment = await prisma.payment.findUnique({
+        where: { paymentId: event.payment.externalId },
       });
 
-      return {
-        checkoutUrl: response.data.data.checkout_url,
-        txRef,
-        payment,
-      };
-    } catch (error: any) {
-      log.error('Failed to initialize Chapa payment', { error: error.message, userId });
-      throw new PaymentError(`Failed to initialize payment: ${error.message}`);
+      if (!payment || payment.method !== method) {
+        log.error('Payment not found for webhook event', {
+          method,
+          type: event.type,
+          reference: event.payment.externalId,
+        });
+      } else {
+        await this.applyGatewayState(payment, event.payment);
+      }
     }
+
+    return event;
   }
 
   /**
-   * Confirm Stripe payment
+   * Record a status reported by the gateway. Only open payments change, so repeated webhooks and
+   * verifications confirm or release the booking or checkout and email the customer once.
    */
-  static async confirmStripePayment(
-    data: ConfirmPaymentInput,
-    userId: string
-  ): Promise<Payment> {
-    if (!stripe) {
-      throw new PaymentError('Stripe is not configured');
+  private static async applyGatewayState(payment: Payment, state: GatewayPaymentState): Promise<Payment> {
+    if (!OPEN_STATUSES.includes(payment.status) || state.status === payment.status) {
+      return payment;
     }
-    try {
-      // Retrieve payment intent from Stripe
-      const paymentIntent = await stripe.paymentIntents.retrieve(data.paymentIntentId);
 
-      // Find payment in database
-      const payment = await prisma.payment.findUnique({
-        where: { paymentId: data.paymentIntentId },
+    const updated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const result = await tx.payment.updateMany({
+        where: { id: payment.id, status: payment.status },
+        data: {
+          status: state.status,
+          failureReason: state.status === 'FAILED' ? state.failureReason || 'Payment failed' : null,
+          gatewayResponse: JSON.stringify(state.raw),
+        },
       });
 
-      if (!payment) {
-        throw new NotFoundError('Payment not found');
+      // Queued with the status change, so the customer hears about every saved outcome exactly once
+      if (result.count > 0 && (state.status === 'COMPLETED' || state.status === 'FAILED')) {
+        await this.queuePaymentEmails(payment.id, tx);
       }
 
-      if (payment.userId !== userId) {
-        throw new ValidationError('You do not have permission to access this payment');
-      }
+      return result;
+    });
 
-      // Update payment status based on Stripe status
-      let status: PaymentStatus = 'PENDING';
-      if (paymentIntent.status === 'succeeded') {
-        status = 'COMPLETED';
-      } else if (paymentIntent.status === 'processing') {
-        status = 'PROCESSING';
-      } else if (paymentIntent.status === 'canceled' || paymentIntent.status === 'requires_payment_method') {
-        status = 'FAILED';
-      }
+    // Another webhook or verification got there first
+    if (updated.count === 0) {
+      return prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+    }
 
-      const updatedPayment = await prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          status,
-          gatewayResponse: paymentIntent as any,
-        },
-      });
+    if (payment.checkoutSessionId && state.status === 'COMPLETED') {
+      await CheckoutService.completeSession(payment.checkoutSessionId);
+    } else if (payment.checkoutSessionId && state.status === 'FAILED') {
+      await CheckoutService.releaseSession(payment.checkoutSessionId, 'FAILED');
+    } else if (payment.bookingId && state.status === 'COMPLETED') {
+      await BookingService.confirmBooking(payment.bookingId);
+    } else if (payment.bookingId && state.status === 'FAILED') {
+      await BookingService.releaseBooking(payment.bookingId, 'CANCELLED');
+    }
 
-      // Update booking status if payment is completed
-      if (status === 'COMPLETED' && payment.bookingId) {
-        await prisma.booking.update({
-          where: { id: payment.bookingId },
-          data: { status: 'CONFIRMED' },
-        });
+    log.info('Payment status updated', {
+      paymentId: payment.id,
+      method: payment.method,
+      from: payment.status,
+      to: state.status,
+    });
+
+    return prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+  }
+
+  /**
+   * Queue emails to the customer about a booking or checkout payment that completed or failed
+   */
+  private static async queuePaymentEmails(paymentId: string, tx: Prisma.TransactionClient): Promise<void> {
+    const payment = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: {
+        booking: {
+          include: {
+            user: true,
+            tour: true
+          }
+        },
+        checkoutSession: {
+          include: {
+            bookings: { include: { tour: true } },
+            order: true
+          }
+        },
+        user: true
       }
+    });
 
-      log.info('Stripe payment confirmed', {
-        paymentId: payment.id,
-        status,
-        userId,
-      });
+    if (payment.checkoutSession) {
+      await this.queueCheckoutPaymentEmails(payment, tx);
+      return;
+    }
 
-      return updatedPayment;
-    } catch (error: any) {
-      log.error('Failed to confirm Stripe payment', { error: error.message, userId });
-      throw new PaymentError(`Failed to confirm payment: ${error.message}`);
+    if (!payment.booking) {
+      return;
+    }
+
+    if (payment.status === 'FAILED') {
+      const reason = payment.failureReason || 'Payment processing error';
+
+      await EmailService.sendEmail({
+        to: payment.user.email,
+        subject: 'Payment Failed - Booking Cancelled',
+        html: `
+          <h2>Payment Failed</h2>
+          <p>Hello ${payment.user.name || 'Customer'},</p>
+          <p>Unfortunately, your payment for booking ${payment.booking.bookingNumber} has failed.</p>
+          <p><strong>Reason:</strong> ${reason}</p>
+          <p>Your booking has been cancelled. Please try booking again or contact support if you need assistance.</p>
+          <p>Best regards,<br>The EthioAI Tourism Team</p>
+        `,
+        text: `Payment failed for booking ${payment.booking.bookingNumber}. Reason: ${reason}`
+      }, tx);
+      return;
     }
+
+    await EmailService.sendBookingConfirmation(
+      payment.booking.user.email,
+      payment.booking.user.name || 'Customer',
+      {
+        bookingNumber: payment.booking.bookingNumber,
+        tourTitle: payment.booking.tour.title,
+        startDate: payment.booking.startDate.toDateString(),
+        endDate: payment.booking.endDate.toDateString(),
+        totalPrice: Number(payment.booking.totalPrice),
+        participants: payment.booking.adults + payment.booking.children
+      },
+      tx
+    );
+
+    await EmailService.sendPaymentConfirmation(
+      payment.user.email,
+      payment.user.name || 'Customer',
+      {
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        paymentMethod: payment.method,
+        bookingNumber: payment.booking.bookingNumber,
+        tourTitle: payment.booking.tour.title
+      },
+      tx
+    );
   }
 
   /**
-   * Verify Chapa payment
+   * Queue emails to the customer about a checkout payment: one confirmation per booking and one
+   * for the payment as a whole
    */
-  static async verifyChapaPayment(txRef: string, userId: string): Promise<Payment> {
-    try {
-      // Verify payment with Chapa
-      const response = await axios.get(
-        `https://api.chapa.co/v1/transaction/verify/${txRef}`,
+  private static async queueCheckoutPaymentEmails(
+    payment: Payment & {
+      user: { email: string; name: string | null };
+      checkoutSession: Prisma.CheckoutSessionGetPayload<{
+        include: { bookings: { include: { tour: true } }; order: true };
+      }> | null;
+    },
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    const session = payment.checkoutSession!;
+    const references = [
+      ...session.bookings.map((booking) => booking.bookingNumber),
+      ...(session.order ? [session.order.orderNumber] : []),
+    ].join(', ');
+
+    if (payment.status === 'FAILED') {
+      const reason = payment.failureReason || 'Payment processing error';
+
+      await EmailService.sendEmail({
+        to: payment.user.email,
+        subject: 'Payment Failed - Checkout Cancelled',
+        html: `
+          <h2>Payment Failed</h2>
+          <p>Hello ${payment.user.name || 'Customer'},</p>
+          <p>Unfortunately, your payment for ${references} has failed.</p>
+          <p><strong>Reason:</strong> ${reason}</p>
+          <p>Nothing has been booked or ordered. Your cart is still saved, please check out again or contact support if you need assistance.</p>
+          <p>Best regards,<br>The EthioAI Tourism Team</p>
+        `,
+        text: `Payment failed for ${references}. Reason: ${reason}`
+      }, tx);
+      return;
+    }
+
+    for (const booking of session.bookings) {
+      await EmailService.sendBookingConfirmation(
+        payment.user.email,
+        payment.user.name || 'Customer',
         {
-          headers: {
-            Authorization: `Bearer ${config.payment.chapa.secretKey}`,
-          },
-        }
+          bookingNumber: booking.bookingNumber,
+          tourTitle: booking.tour.title,
+          startDate: booking.startDate.toDateString(),
+          endDate: booking.endDate.toDateString(),
+          totalPrice: Number(booking.totalPrice),
+          participants: booking.adults + booking.children
+        },
+        tx
       );
+    }
 
-      // Find payment in database
-      const payment = await prisma.payment.findUnique({
-        where: { paymentId: txRef },
-      });
-
-      if (!payment) {
-        throw new NotFoundError('Payment not found');
-      }
+    await EmailService.sendPaymentConfirmation(
+      payment.user.email,
+      payment.user.name || 'Customer',
+      {
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        paymentMethod: payment.method,
+        bookingNumber: references,
+        tourTitle: [
+          ...session.bookings.map((booking) => booking.tour.title),
+          ...(session.order ? ['Marketplace order'] : []),
+        ].join(', ')
+      },
+      tx
+    );
+  }
 
-      if (payment.userId !== userId) {
-        throw new ValidationError('You do not have permission to access this payment');
-      }
+  /**
+   * Create Stripe payment intent
+   */
+  static async createStripePaymentIntent(
+    data: CreatePaymentIntentInput,
+    userId: string
+  ): Promise<{ clientSecret: string; paymentIntentId: string; payment: Payment }> {
+    const result = await this.initializePayment('STRIPE', data, userId);
 
-      // Update payment status based on Chapa status
-      let status: PaymentStatus = 'PENDING';
-      if (response.data.status === 'success' && response.data.data.status === 'success') {
-        status = 'COMPLETED';
-      } else if (response.data.data.status === 'failed') {
-        status = 'FAILED';
-      }
+    return {
+      clientSecret: result.clientSecret!,
+      paymentIntentId: result.reference,
+      payment: result.payment,
+    };
+  }
 
-      const updatedPayment = await prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          status,
-          gatewayResponse: response.data as any,
-        },
-      });
+  /**
+   * Initialize Chapa payment
+   */
+  static async initializeChapaPayment(
+    data: InitializeChapaPaymentInput,
+    userId: string
+  ): Promise<{ checkoutUrl: string; txRef: string; payment: Payment }> {
+    const { callbackUrl, customization, ...rest } = data;
+    const result = await this.initializePayment('CHAPA', {
+      ...rest,
+      description: customization?.description,
+      returnUrl: data.returnUrl || callbackUrl,
+    }, userId);
 
-      // Update booking status if payment is completed
-      if (status === 'COMPLETED' && payment.bookingId) {
-        await prisma.booking.update({
-          where: { id: payment.bookingId },
-          data: { status: 'CONFIRMED' },
-        });
-      }
+    return {
+      checkoutUrl: result.checkoutUrl!,
+      txRef: result.reference,
+      payment: result.payment,
+    };
+  }
 
-      log.info('Chapa payment verified', {
-        paymentId: payment.id,
-        status,
-        userId,
-      });
+  /**
+   * Confirm Stripe payment
+   */
+  static async confirmStripePayment(
+    data: ConfirmPaymentInput,
+    userId: string
+  ): Promise<Payment> {
+    return this.verifyPayment('STRIPE', data.paymentIntentId, userId);
+  }
 
-      return updatedPayment;
-    } catch (error: any) {
-      log.error('Failed to verify Chapa payment', { error: error.message, userId });
-      throw new PaymentError(`Failed to verify payment: ${error.message}`);
-    }
+  /**
+   * Verify Chapa payment
+   */
+  static async verifyChapaPayment(txRef: string, userId: string): Promise<Payment> {
+    return this.verifyPayment('CHAPA', txRef, userId);
   }
 
   /**
@@ -504,6 +779,9 @@ export class PaymentService {
           },
         },
         order: true,
+        refunds: {
+          orderBy: { createdAt: 'desc' },
+        },
       },
     });
 
@@ -537,92 +815,165 @@ export class PaymentService {
   }
 
   /**
-   * Refund payment
+   * Refund all or part of a payment. Refunds accumulate in the ledger until the full amount has
+   * been returned, at which point the payment is REFUNDED and its booking released. A checkout
+   * payment can be refunded from one allocation, e.g. when a single booking is cancelled.
    */
-  static async refundPayment(data: RefundPaymentInput, userId: string): Promise<Payment> {
+  static async refundPayment(
+    paymentId: string,
+    data: RefundPaymentInput,
+    actorId: string,
+    allocationId?: string
+  ): Promise<{ payment: Payment; refund: Refund }> {
     const payment = await prisma.payment.findUnique({
-      where: { id: data.paymentId },
+      where: { id: paymentId },
+      include: { allocations: true },
     });
 
     if (!payment) {
       throw new NotFoundError('Payment not found');
     }
 
-    if (payment.status !== 'COMPLETED') {
+    if (!REFUNDABLE_STATUSES.includes(payment.status)) {
       throw new ValidationError('Only completed payments can be refunded');
     }
 
-    try {
-      let refundAmount = data.amount || Number(payment.amount);
-
-      if (payment.method === 'STRIPE') {
-        // Create Stripe refund
-        const refund = await stripe.refunds.create({
-          payment_intent: payment.paymentId,
-          amount: data.amount ? Math.round(data.amount * 100) : undefined,
-          reason: 'requested_by_customer',
-          metadata: {
-            reason: data.reason,
-            userId,
-          },
-        });
+    const allocation = allocationId
+      ? payment.allocations.find((candidate) => candidate.id === allocationId)
+      : undefined;
 
-        // Update payment status
-        const updatedPayment = await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            status: 'REFUNDED',
-            failureReason: data.reason,
-            gatewayResponse: { ...payment.gatewayResponse, refund } as any,
-          },
-        });
+    if (allocationId && !allocation) {
+      throw new NotFoundError('Payment allocation not found');
+    }
 
-        // Update booking status if applicable
-        if (payment.bookingId) {
-          await prisma.booking.update({
-            where: { id: payment.bookingId },
-            data: { status: 'REFUNDED' },
-          });
-        }
+    const provider = this.getEnabledProvider(payment.method);
 
-        log.info('Stripe payment refunded', {
-          paymentId: payment.id,
-          refundAmount,
-          userId,
-        });
+    const remaining = CurrencyService.roundAmount(
+      Math.min(
+        Number(payment.amount) - Number(payment.refundedAmount),
+        allocation ? Number(allocation.amount) - Number(allocation.refundedAmount) : Infinity
+      ),
+      payment.currency
+    );
+    const amount = CurrencyService.roundAmount(data.amount ?? remaining, payment.currency);
 
-        return updatedPayment;
-      } else if (payment.method === 'CHAPA') {
-        // Chapa doesn't have direct refund API, mark as refunded
-        const updatedPayment = await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            status: 'REFUNDED',
-            failureReason: data.reason,
-          },
+    if (remaining <= 0) {
+      throw new ValidationError('Payment has already been refunded in full');
+    }
+
+    if (amount > remaining) {
+      throw new ValidationError(`At most ${remaining} ${payment.currency} can still be refunded`);
+    }
+
+    // Reserve the amount before calling the gateway so concurrent refunds cannot exceed the payment
+    const refund = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const reserved = await tx.payment.updateMany({
+        where: { id: payment.id, refundedAmount: payment.refundedAmount },
+        data: { refundedAmount: { increment: amount } },
+      });
+
+      if (reserved.count === 0) {
+        throw new ConflictError('Payment was refunded at the same time, please try again');
+      }
+
+      if (allocation) {
+        const reservedShare = await tx.paymentAllocation.updateMany({
+          where: { id: allocation.id, refundedAmount: allocation.refundedAmount },
+          data: { refundedAmount: { increment: amount } },
         });
 
-        if (payment.bookingId) {
-          await prisma.booking.update({
-            where: { id: payment.bookingId },
-            data: { status: 'REFUNDED' },
-          });
+        if (reservedShare.count === 0) {
+          throw new ConflictError('Payment was refunded at the same time, please try again');
         }
+      }
 
-        log.info('Chapa payment marked as refunded', {
+      return tx.refund.create({
+        data: {
           paymentId: payment.id,
-          refundAmount,
-          userId,
-        });
+          amount,
+          currency: payment.currency,
+          reason: data.reason,
+          requestedById: actorId,
+        },
+      });
+    });
 
-        return updatedPayment;
-      }
+    let status: string;
+    let gatewayRefundId: string | null;
 
-      throw new ValidationError('Unsupported payment method for refund');
+    try {
+      ({ status, gatewayRefundId } = await provider.refund({
+        externalId: payment.paymentId,
+        refundId: refund.id,
+        amount,
+        currency: payment.currency,
+        reason: data.reason,
+      }));
     } catch (error: any) {
-      log.error('Failed to refund payment', { error: error.message, paymentId: payment.id });
+      await prisma.$transaction([
+        prisma.refund.update({
+          where: { id: refund.id },
+          data: { status: 'FAILED', failureReason: error.message },
+        }),
+        prisma.payment.update({
+          where: { id: payment.id },
+          data: { refundedAmount: { decrement: amount } },
+        }),
+        ...(allocation
+          ? [prisma.paymentAllocation.update({
+            where: { id: allocation.id },
+            data: { refundedAmount: { decrement: amount } },
+          })]
+          : []),
+      ]);
+
+      log.error('Failed to refund payment', { error: error.message, paymentId: payment.id, refundId: refund.id });
       throw new PaymentError(`Failed to refund payment: ${error.message}`);
     }
+
+    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const updatedRefund = await tx.refund.update({
+        where: { id: refund.id },
+        data: { status, gatewayRefundId },
+      });
+
+      const current = await tx.payment.findUniqueOrThrow({
+        where: { id: payment.id },
+      });
+
+      const updatedPayment = await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: Number(current.refundedAmount) >= Number(current.amount) ? 'REFUNDED' : 'PARTIALLY_REFUNDED',
+        },
+      });
+
+      return { payment: updatedPayment, refund: updatedRefund };
+    });
+
+    if (result.payment.status === 'REFUNDED' && payment.bookingId) {
+      await BookingService.releaseBooking(payment.bookingId, 'REFUNDED');
+    }
+
+    // A fully refunded checkout releases every booking it paid for
+    if (result.payment.status === 'REFUNDED' && payment.checkoutSessionId) {
+      for (const share of payment.allocations.filter((candidate) => candidate.bookingId)) {
+        await BookingService.releaseBooking(share.bookingId!, 'REFUNDED');
+      }
+    }
+
+    log.info('Payment refunded', {
+      paymentId: payment.id,
+      refundId: refund.id,
+      allocationId,
+      method: payment.method,
+      amount,
+      currency: payment.currency,
+      status: result.payment.status,
+      actorId,
+    });
+
+    return result;
   }
 
   /**
@@ -650,6 +1001,8 @@ export class PaymentService {
       completedPayments,
       failedPayments,
       refundedPayments,
+      partiallyRefundedPayments,
+      totalRefunded,
       totalRevenue,
       stripeRevenue,
       chapaRevenue,
@@ -658,6 +1011,11 @@ export class PaymentService {
       prisma.payment.count({ where: { ...where, status: 'COMPLETED' } }),
       prisma.payment.count({ where: { ...where, status: 'FAILED' } }),
       prisma.payment.count({ where: { ...where, status: 'REFUNDED' } }),
+      prisma.payment.count({ where: { ...where, status: 'PARTIALLY_REFUNDED' } }),
+      prisma.payment.aggregate({
+        where,
+        _sum: { refundedAmount: true },
+      }),
       prisma.payment.aggregate({
         where: { ...where, status: 'COMPLETED' },
         _sum: { amount: true },
@@ -677,6 +1035,8 @@ export class PaymentService {
       completedPayments,
       failedPayments,
       refundedPayments,
+      partiallyRefundedPayments,
+      totalRefunded: totalRefunded._sum.refundedAmount || 0,
       totalRevenue: totalRevenue._sum.amount || 0,
       stripeRevenue: stripeRevenue._sum.amount || 0,
       chapaRevenue: chapaRevenue._sum.amount || 0,
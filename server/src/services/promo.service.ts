@@ -0,0 +1,712 @@
+import { PrismaClient, Prisma, PromoCode } from '@prisma/client';
+import {
+  CreatePromoCodeInput,
+  UpdatePromoCodeInput,
+  PromoCodeQueryInput,
+  PromoReportQueryInput,
+} from '../schemas/promo.schemas';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from '../middlewares/error.middleware';
+import { calculatePagination, PaginationMeta } from '../utils/response';
+import { log } from '../utils/logger';
+import { config } from '../config';
+import { CurrencyService } from './currency.service';
+
+const prisma = new PrismaClient();
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// Scope columns stored as JSON string arrays
+const SCOPE_FIELDS = ['tourIds', 'tourCategories', 'productIds', 'productCategories'] as const;
+
+export interface PromoContext {
+  userId?: string;
+  // Currency of every amount here and of the discount returned; the default currency when not given
+  currency?: string;
+  totalAmount: number;
+  tourId?: string;
+  // Tour bookings of a cart; tours out of the code's scope are left out of the discount
+  tours?: Array<{ tourId: string; total: number }>;
+  items?: Array<{ productId: string; category?: string | null; total: number }>;
+}
+
+export interface PromoValidationResult {
+  valid: boolean;
+  message?: string;
+  discountAmount?: number;
+  promoCode?: {
+    code: string;
+    description: string | null;
+    discountType: string;
+    discountValue: Prisma.Decimal;
+  };
+}
+
+export type FormattedPromoCode = Omit<PromoCode, typeof SCOPE_FIELDS[number]> & {
+  tourIds: string[];
+  tourCategories: string[];
+  productIds: string[];
+  productCategories: string[];
+};
+
+export class PromoService {
+  /**
+   * Parse a JSON scope column, treating empty or malformed values as unrestricted
+   */
+  private static parseScope(value: string | null): string[] {
+    if (!value) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Serialize a scope list for storage; an empty list means no restriction
+   */
+  private static serializeScope(value: string[] | null | undefined): string | null | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    return value && value.length > 0 ? JSON.stringify(value) : null;
+  }
+
+  /**
+   * Expand scope columns into arrays for API responses
+   */
+  static formatPromoCode(promoCode: PromoCode): FormattedPromoCode {
+    return {
+      ...promoCode,
+      tourIds: this.parseScope(promoCode.tourIds),
+      tourCategories: this.parseScope(promoCode.tourCategories),
+      productIds: this.parseScope(promoCode.productIds),
+      productCategories: this.parseScope(promoCode.productCategories),
+    };
+  }
+
+  /**
+   * Validate a promo code against a booking or cart and calculate the discount. Fixed discounts,
+   * caps and minimums are in the default currency, so the amounts are compared in it.
+   */
+  static async validatePromoCode(code: string, context: PromoContext): Promise<PromoValidationResult> {
+    const promoCode = await prisma.promoCode.findUnique({
+      where: { code: code.toUpperCase() },
+    });
+
+    if (!promoCode) {
+      return {
+        valid: false,
+        message: 'Invalid promo code',
+      };
+    }
+
+    // Check if active
+    if (!promoCode.isActive) {
+      return {
+        valid: false,
+        message: 'Promo code is no longer active',
+      };
+    }
+
+    // Check validity dates
+    const now = new Date();
+    if (now < promoCode.validFrom || now > promoCode.validUntil) {
+      return {
+        valid: false,
+        message: 'Promo code has expired or is not yet valid',
+      };
+    }
+
+    // Check usage limit
+    if (promoCode.usageLimit && promoCode.usageCount >= promoCode.usageLimit) {
+      return {
+        valid: false,
+        message: 'Promo code usage limit reached',
+      };
+    }
+
+    // Check per-user limit
+    if (promoCode.perUserLimit && context.userId) {
+      const userRedemptions = await prisma.promoRedemption.count({
+        where: { promoCodeId: promoCode.id, userId: context.userId },
+      });
+
+      if (userRedemptions >= promoCode.perUserLimit) {
+        return {
+          valid: false,
+          message: 'You have already used this promo code the maximum number of times',
+        };
+      }
+    }
+
+    const baseCurrency = config.currency.default;
+    const currency = context.currency || baseCurrency;
+    const toBase = currency === baseCurrency ? 1 : (await CurrencyService.getRate(currency, baseCurrency)).rate;
+    const inBase = (amount: number) => CurrencyService.roundAmount(amount * toBase, baseCurrency);
+
+    // Check minimum order amount
+    if (promoCode.minOrderAmount && inBase(context.totalAmount) < Number(promoCode.minOrderAmount)) {
+      return {
+        valid: false,
+        message: `Minimum order amount of ${Number(promoCode.minOrderAmount)} ${baseCurrency} required`,
+      };
+    }
+
+    // Work out which part of the amount the code applies to
+    let eligibleAmount = context.totalAmount;
+
+    if (context.tourId) {
+      const scopeError = await this.checkTourScope(promoCode, context.tourId);
+      if (scopeError) {
+        return { valid: false, message: scopeError };
+      }
+    }
+
+    if (context.tours || context.items) {
+      const eligibleTotals: number[] = [];
+      let scopeError = 'Promo code not applicable to the items in your cart';
+
+      for (const line of context.tours || []) {
+        const tourError = await this.checkTourScope(promoCode, line.tourId);
+        if (tourError) {
+          scopeError = tourError;
+        } else {
+          eligibleTotals.push(line.total);
+        }
+      }
+
+      if (context.items && !promoCode.applicableToProducts) {
+        scopeError = 'Promo code not applicable to products';
+      } else if (context.items) {
+        const productIds = this.parseScope(promoCode.productIds);
+        const productCategories = this.parseScope(promoCode.productCategories);
+        const eligibleItems = context.items.filter((item) =>
+          (productIds.length === 0 || productIds.includes(item.productId)) &&
+          (productCategories.length === 0 || (!!item.category && productCategories.includes(item.category)))
+        );
+
+        eligibleTotals.push(...eligibleItems.map((item) => item.total));
+      }
+
+      if (eligibleTotals.length === 0) {
+        return {
+          valid: false,
+          message: scopeError,
+        };
+      }
+
+      eligibleAmount = eligibleTotals.reduce((sum, total) => sum + total, 0);
+    }
+
+    // Calculate discount
+    let discountAmount = 0;
+    if (promoCode.discountType === 'percentage') {
+      discountAmount = (inBase(eligibleAmount) * Number(promoCode.discountValue)) / 100;
+      if (promoCode.maxDiscount) {
+        discountAmount = Math.min(discountAmount, Number(promoCode.maxDiscount));
+      }
+    } else {
+      discountAmount = Number(promoCode.discountValue);
+    }
+
+    if (currency !== baseCurrency) {
+      discountAmount = (await CurrencyService.convert(discountAmount, baseCurrency, currency)).amount;
+    }
+
+    // Never discount more than the eligible amount
+    discountAmount = CurrencyService.roundAmount(Math.min(discountAmount, eligibleAmount), currency);
+
+    return {
+      valid: true,
+      message: 'Promo code applied successfully',
+      discountAmount,
+      promoCode: {
+        code: promoCode.code,
+        description: promoCode.description,
+        discountType: promoCode.discountType,
+        discountValue: promoCode.discountValue,
+      },
+    };
+  }
+
+  /**
+   * Check tour restrictions, returning an error message when the tour is out of scope
+   */
+  private static async checkTourScope(promoCode: PromoCode, tourId: string): Promise<string | null> {
+    if (!promoCode.applicableToTours) {
+      return 'Promo code not applicable to tours';
+    }
+
+    const tourIds = this.parseScope(promoCode.tourIds);
+    if (tourIds.length > 0 && !tourIds.includes(tourId)) {
+      return 'Promo code not applicable to this tour';
+    }
+
+    const tourCategories = this.parseScope(promoCode.tourCategories);
+    if (tourCategories.length > 0) {
+      const tour = await prisma.tour.findUnique({
+        where: { id: tourId },
+        select: { category: true },
+      });
+
+      if (!tour || !tourCategories.includes(tour.category)) {
+        return 'Promo code not applicable to this tour category';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Record a redemption and count it against the code's limits.
+   *
+   * The usage counter is bumped with a conditional UPDATE, so concurrent confirmations
+   * cannot push a code past its usage limit. The same row lock serializes the per-user
+   * check. Returns false when the code can no longer be redeemed; the booking or order
+   * has already been paid at this point, so callers log rather than fail.
+   */
+  static async redeem(
+    tx: DbClient,
+    params: {
+      code: string;
+      userId: string;
+      bookingId?: string;
+      orderId?: string;
+      discountAmount: number;
+      orderAmount: number;
+    }
+  ): Promise<boolean> {
+    const promoCode = await tx.promoCode.findUnique({
+      where: { code: params.code.toUpperCase() },
+    });
+
+    if (!promoCode) {
+      log.warn('Promo redemption skipped, code not found', { code: params.code });
+      return false;
+    }
+
+    // Confirmation can be reported more than once (webhook and client verify)
+    const existing = await tx.promoRedemption.findFirst({
+      where: params.bookingId ? { bookingId: params.bookingId } : { orderId: params.orderId },
+    });
+
+    if (existing) {
+      return true;
+    }
+
+    const updated = await tx.$executeRaw`
+      UPDATE promo_codes
+      SET usageCount = usageCount + 1, updatedAt = NOW(3)
+      WHERE id = ${promoCode.id} AND (usageLimit IS NULL OR usageCount < usageLimit)
+    `;
+
+    if (updated === 0) {
+      log.warn('Promo redemption skipped, usage limit reached', {
+        code: promoCode.code,
+        bookingId: params.bookingId,
+        orderId: params.orderId,
+      });
+      return false;
+    }
+
+    if (promoCode.perUserLimit) {
+      const userRedemptions = await tx.promoRedemption.count({
+        where: { promoCodeId: promoCode.id, userId: params.userId },
+      });
+
+      if (userRedemptions >= promoCode.perUserLimit) {
+        await tx.promoCode.update({
+          where: { id: promoCode.id },
+          data: { usageCount: { decrement: 1 } },
+        });
+
+        log.warn('Promo redemption skipped, per-user limit reached', {
+          code: promoCode.code,
+          userId: params.userId,
+        });
+        return false;
+      }
+    }
+
+    await tx.promoRedemption.create({
+      data: {
+        promoCodeId: promoCode.id,
+        userId: params.userId,
+        bookingId: params.bookingId,
+        orderId: params.orderId,
+        discountAmount: params.discountAmount,
+        orderAmount: params.orderAmount,
+      },
+    });
+
+    log.info('Promo code redeemed', {
+      code: promoCode.code,
+      userId: params.userId,
+      bookingId: params.bookingId,
+      orderId: params.orderId,
+    });
+
+    return true;
+  }
+
+  /**
+   * Redeem the promo code of a confirmed booking, if it used one
+   */
+  static async redeemForBooking(
+    tx: DbClient,
+    booking: {
+      id: string;
+      userId: string;
+      promoCode: string | null;
+      discountAmount: Prisma.Decimal | null;
+      totalPrice: Prisma.Decimal;
+    }
+  ): Promise<boolean> {
+    if (!booking.promoCode) {
+      return false;
+    }
+
+    return this.redeem(tx, {
+      code: booking.promoCode,
+      userId: booking.userId,
+      bookingId: booking.id,
+      discountAmount: Number(booking.discountAmount || 0),
+      orderAmount: Number(booking.totalPrice),
+    });
+  }
+
+  /**
+   * Redeem the promo code of a confirmed order, if it used one
+   */
+  static async redeemForOrder(
+    tx: DbClient,
+    order: {
+      id: string;
+      userId: string;
+      promoCode: string | null;
+      discount: Prisma.Decimal;
+      total: Prisma.Decimal;
+    }
+  ): Promise<boolean> {
+    if (!order.promoCode) {
+      return false;
+    }
+
+    return this.redeem(tx, {
+      code: order.promoCode,
+      userId: order.userId,
+      orderId: order.id,
+      discountAmount: Number(order.discount),
+      orderAmount: Number(order.total),
+    });
+  }
+
+  /**
+   * Create a promo code
+   */
+  static async createPromoCode(data: CreatePromoCodeInput, adminId: string): Promise<FormattedPromoCode> {
+    const existing = await prisma.promoCode.findUnique({
+      where: { code: data.code },
+    });
+
+    if (existing) {
+      throw new ConflictError('A promo code with this code already exists');
+    }
+
+    const promoCode = await prisma.promoCode.create({
+      data: {
+        ...data,
+        validFrom: new Date(data.validFrom),
+        validUntil: new Date(data.validUntil),
+        tourIds: this.serializeScope(data.tourIds),
+        tourCategories: this.serializeScope(data.tourCategories),
+        productIds: this.serializeScope(data.productIds),
+        productCategories: this.serializeScope(data.productCategories),
+        createdById: adminId,
+      },
+    });
+
+    log.admin('Promo code created', adminId, { promoCodeId: promoCode.id, code: promoCode.code });
+
+    return this.formatPromoCode(promoCode);
+  }
+
+  /**
+   * Update a promo code
+   */
+  static async updatePromoCode(
+    id: string,
+    data: UpdatePromoCodeInput,
+    adminId: string
+  ): Promise<FormattedPromoCode> {
+    const existing = await prisma.promoCode.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Promo code not found');
+    }
+
+    const validFrom = data.validFrom ? new Date(data.validFrom) : existing.validFrom;
+    const validUntil = data.validUntil ? new Date(data.validUntil) : existing.validUntil;
+    if (validFrom >= validUntil) {
+      throw new ValidationError('End date must be after start date');
+    }
+
+    const discountType = data.discountType ?? existing.discountType;
+    const discountValue = data.discountValue ?? Number(existing.discountValue);
+    if (discountType === 'percentage' && discountValue > 100) {
+      throw new ValidationError('Percentage discount cannot exceed 100');
+    }
+
+    if (data.usageLimit && data.usageLimit < existing.usageCount) {
+      throw new ValidationError(
+        `Usage limit cannot be lower than the ${existing.usageCount} redemptions already made`
+      );
+    }
+
+    const promoCode = await prisma.promoCode.update({
+      where: { id },
+      data: {
+        ...data,
+        validFrom: data.validFrom ? validFrom : undefined,
+        validUntil: data.validUntil ? validUntil : undefined,
+        tourIds: this.serializeScope(data.tourIds),
+        tourCategories: this.serializeScope(data.tourCategories),
+        productIds: this.serializeScope(data.productIds),
+        productCategories: this.serializeScope(data.productCategories),
+      },
+    });
+
+    log.admin('Promo code updated', adminId, { promoCodeId: id, code: promoCode.code });
+
+    return this.formatPromoCode(promoCode);
+  }
+
+  /**
+   * Get promo codes with filtering and pagination
+   */
+  static async getPromoCodes(query: PromoCodeQueryInput): Promise<{
+    promoCodes: FormattedPromoCode[];
+    pagination: PaginationMeta;
+  }> {
+    const {
+      page = 1,
+      limit = 20,
+      search,
+      campaign,
+      isActive,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+    } = query;
+
+    const where: Prisma.PromoCodeWhereInput = {};
+
+    if (search) {
+      where.OR = [
+        { code: { contains: search.toUpperCase() } },
+        { description: { contains: search } },
+      ];
+    }
+
+    if (campaign) {
+      where.campaign = campaign;
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive;
+    }
+
+    const [promoCodes, total] = await Promise.all([
+      prisma.promoCode.findMany({
+        where,
+        orderBy: { [sortBy]: sortOrder },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.promoCode.count({ where }),
+    ]);
+
+    return {
+      promoCodes: promoCodes.map((promoCode) => this.formatPromoCode(promoCode)),
+      pagination: calculatePagination(page, limit, total),
+    };
+  }
+
+  /**
+   * Get a promo code with its redemption totals
+   */
+  static async getPromoCodeById(id: string): Promise<FormattedPromoCode & {
+    stats: { redemptions: number; totalDiscount: number; totalRevenue: number; uniqueUsers: number };
+  }> {
+    const promoCode = await prisma.promoCode.findUnique({
+      where: { id },
+    });
+
+    if (!promoCode) {
+      throw new NotFoundError('Promo code not found');
+    }
+
+    const [totals, users] = await Promise.all([
+      prisma.promoRedemption.aggregate({
+        where: { promoCodeId: id },
+        _count: { _all: true },
+        _sum: { discountAmount: true, orderAmount: true },
+      }),
+      prisma.promoRedemption.groupBy({
+        by: ['userId'],
+        where: { promoCodeId: id },
+      }),
+    ]);
+
+    return {
+      ...this.formatPromoCode(promoCode),
+      stats: {
+        redemptions: totals._count._all,
+        totalDiscount: Number(totals._sum.discountAmount || 0),
+        totalRevenue: Number(totals._sum.orderAmount || 0),
+        uniqueUsers: users.length,
+      },
+    };
+  }
+
+  /**
+   * Delete a promo code. Codes that were already redeemed are deactivated instead,
+   * so their redemptions stay in the campaign reports.
+   */
+  static async deletePromoCode(id: string, adminId: string): Promise<{ deleted: boolean }> {
+    const promoCode = await prisma.promoCode.findUnique({
+      where: { id },
+      include: { _count: { select: { redemptions: true } } },
+    });
+
+    if (!promoCode) {
+      throw new NotFoundError('Promo code not found');
+    }
+
+    if (promoCode._count.redemptions > 0) {
+      await prisma.promoCode.update({
+        where: { id },
+        data: { isActive: false },
+      });
+
+      log.admin('Promo code deactivated', adminId, { promoCodeId: id, code: promoCode.code });
+
+      return { deleted: false };
+    }
+
+    await prisma.promoCode.delete({
+      where: { id },
+    });
+
+    log.admin('Promo code deleted', adminId, { promoCodeId: id, code: promoCode.code });
+
+    return { deleted: true };
+  }
+
+  /**
+   * Redemption report grouped by campaign, with a per-code breakdown
+   */
+  static async getRedemptionReport(query: PromoReportQueryInput = {}): Promise<Array<{
+    campaign: string | null;
+    redemptions: number;
+    uniqueUsers: number;
+    totalDiscount: number;
+    totalRevenue: number;
+    codes: Array<{
+      promoCodeId: string;
+      code: string;
+      redemptions: number;
+      totalDiscount: number;
+      totalRevenue: number;
+    }>;
+  }>> {
+    const where: Prisma.PromoRedemptionWhereInput = {};
+
+    if (query.from || query.to) {
+      where.createdAt = {};
+      if (query.from) where.createdAt.gte = query.from;
+      if (query.to) where.createdAt.lte = query.to;
+    }
+
+    if (query.campaign) {
+      where.promoCode = { campaign: query.campaign };
+    }
+
+    const [byCode, byUser] = await Promise.all([
+      prisma.promoRedemption.groupBy({
+        by: ['promoCodeId'],
+        where,
+        _count: { _all: true },
+        _sum: { discountAmount: true, orderAmount: true },
+      }),
+      prisma.promoRedemption.groupBy({
+        by: ['promoCodeId', 'userId'],
+        where,
+      }),
+    ]);
+
+    const promoCodes = await prisma.promoCode.findMany({
+      where: { id: { in: byCode.map((row) => row.promoCodeId) } },
+      select: { id: true, code: true, campaign: true },
+    });
+    const promoCodeMap = new Map(promoCodes.map((promoCode) => [promoCode.id, promoCode]));
+
+    const campaigns = new Map<string | null, {
+      campaign: string | null;
+      redemptions: number;
+      users: Set<string>;
+      totalDiscount: number;
+      totalRevenue: number;
+      codes: Array<{ promoCodeId: string; code: string; redemptions: number; totalDiscount: number; totalRevenue: number }>;
+    }>();
+
+    const getCampaign = (campaign: string | null) => {
+      let entry = campaigns.get(campaign);
+      if (!entry) {
+        entry = { campaign, redemptions: 0, users: new Set(), totalDiscount: 0, totalRevenue: 0, codes: [] };
+        campaigns.set(campaign, entry);
+      }
+      return entry;
+    };
+
+    for (const row of byCode) {
+      const promoCode = promoCodeMap.get(row.promoCodeId);
+      const entry = getCampaign(promoCode?.campaign ?? null);
+      const totalDiscount = Number(row._sum.discountAmount || 0);
+      const totalRevenue = Number(row._sum.orderAmount || 0);
+
+      entry.redemptions += row._count._all;
+      entry.totalDiscount += totalDiscount;
+      entry.totalRevenue += totalRevenue;
+      entry.codes.push({
+        promoCodeId: row.promoCodeId,
+        code: promoCode?.code ?? 'UNKNOWN',
+        redemptions: row._count._all,
+        totalDiscount,
+        totalRevenue,
+      });
+    }
+
+    for (const row of byUser) {
+      getCampaign(promoCodeMap.get(row.promoCodeId)?.campaign ?? null).users.add(row.userId);
+    }
+
+    return Array.from(campaigns.values())
+      .map(({ users, codes, ...entry }) => ({
+        ...entry,
+        uniqueUsers: users.size,
+        codes: codes.sort((a, b) => b.redemptions - a.redemptions),
+      }))
+      .sort((a, b) => b.redemptions - a.redemptions);
+  }
+}
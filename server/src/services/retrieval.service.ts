@@ -0,0 +1,346 @@
+import { createHash } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../config';
+import { log } from '../utils/logger';
+import { EmbeddingService } from './embedding.service';
+import { TOUR_DETAILS_INCLUDE, TourService } from './tour.service';
+
+const prisma = new PrismaClient();
+
+export type RetrievalSourceType = 'cultural' | 'tour';
+
+export interface RetrievedPassage {
+  sourceType: RetrievalSourceType;
+  sourceId: string;
+  title: string;
+  url: string;
+  content: string;
+  score: number;
+}
+
+export interface ReindexResult {
+  indexed: number;
+  unchanged: number;
+  removed: number;
+  failed: number;
+  chunks: number;
+}
+
+interface SourceDocument {
+  sourceType: RetrievalSourceType;
+  sourceId: string;
+  title: string;
+  url: string;
+  language: string;
+  text: string;
+}
+
+interface IndexedChunk extends Omit<RetrievedPassage, 'score'> {
+  vector: number[];
+}
+
+// Client routes of the cultural content types
+const CULTURAL_PATHS: Record<string, string> = {
+  article: '/cultural/article',
+  recipe: '/cultural/recipe',
+  artifact: '/cultural/artifact',
+};
+
+const sourceKey = (source: { sourceType: string; sourceId: string }) => `${source.sourceType}:${source.sourceId}`;
+
+const stripMarkup = (text: string): string =>
+  text
+    .replace(/<\/(p|div|h[1-6]|li|br)>|<br\s*\/?>/gi, '\n\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/[#*_`>~]+/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1');
+
+// Unit-length vectors, so the dot product is the cosine similarity
+const similarity = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+};
+
+export class RetrievalService {
+  private static refreshTimer?: NodeJS.Timeout;
+
+  // Chunks of the current embedding provider, loaded on the first search after a change to the index
+  private static cache: { provider: string; chunks: IndexedChunk[] } | null = null;
+
+  /**
+   * Split text into passages of about `size` characters at paragraph and sentence ends.
+   * Each passage repeats the last `overlap` characters of the one before it.
+   */
+  static chunkText(
+    text: string,
+    size: number = config.retrieval.chunkSize,
+    overlap: number = config.retrieval.chunkOverlap
+  ): string[] {
+    const pieces = text
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .flatMap((paragraph) => {
+        if (paragraph.length <= size) return [paragraph];
+        // Sentence ends, including the Ethiopic full stop
+        const sentences = paragraph.match(/[^.!?።]+[.!?።]*/g) || [paragraph];
+        return sentences.map((sentence) => sentence.trim()).filter(Boolean);
+      })
+      .flatMap((piece) => {
+        if (piece.length <= size) return [piece];
+        const parts: string[] = [];
+        let part = '';
+        for (const word of piece.split(' ')) {
+          if (part && part.length + word.length + 1 > size) {
+            parts.push(part);
+            part = '';
+          }
+          part = part ? `${part} ${word}` : word;
+        }
+        return part ? [...parts, part] : parts;
+      });
+
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 1 > size) {
+        chunks.push(current);
+        const space = current.indexOf(' ', current.length - overlap);
+        const tail = overlap > 0 && space !== -1 ? current.slice(space + 1) : '';
+        current = tail && tail.length + piece.length + 1 <= size ? tail : '';
+      }
+      current = current ? `${current} ${piece}` : piece;
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Bring the index up to date with published cultural content and tours. Sources whose text,
+   * chunking and embedding provider are unchanged are skipped; unpublished sources are removed.
+   */
+  static async reindex(): Promise<ReindexResult> {
+    const provider = EmbeddingService.getProvider();
+    const sources = await this.loadSources();
+
+    // Every indexed source has a chunk at position 0 carrying the hash of what was embedded
+    const existing = await prisma.retrievalChunk.findMany({
+      where: { position: 0 },
+      select: { sourceType: true, sourceId: true, sourceHash: true },
+    });
+    const hashes = new Map(existing.map((chunk) => [sourceKey(chunk), chunk.sourceHash]));
+
+    const result: ReindexResult = { indexed: 0, unchanged: 0, removed: 0, failed: 0, chunks: 0 };
+
+    for (const source of sources) {
+      const sourceHash = createHash('sha256')
+        .update([
+          provider.name,
+          `${config.retrieval.chunkSize}/${config.retrieval.chunkOverlap}`,
+          source.title,
+          source.url,
+          source.language,
+          source.text,
+        ].join('\n'))
+        .digest('hex');
+
+      if (hashes.get(sourceKey(source)) === sourceHash) {
+        result.unchanged++;
+        continue;
+      }
+
+      try {
+        const passages = this.chunkText(source.text);
+        // The title gives passages from the middle of a text their subject
+        const vectors = await EmbeddingService.embed(passages.map((passage) => `${source.title}\n${passage}`));
+
+        await prisma.$transaction([
+          prisma.retrievalChunk.deleteMany({ where: { sourceType: source.sourceType, sourceId: source.sourceId } }),
+          prisma.retrievalChunk.createMany({
+            data: passages.map((content, position) => ({
+              sourceType: source.sourceType,
+              sourceId: source.sourceId,
+              position,
+              title: source.title,
+              url: source.url,
+              language: source.language,
+              content,
+              sourceHash,
+              embeddingProvider: provider.name,
+              embedding: vectors[position],
+            })),
+          }),
+        ]);
+
+        result.indexed++;
+        result.chunks += passages.length;
+      } catch (error) {
+        result.failed++;
+        log.error('Indexing source for retrieval failed', error, { source: sourceKey(source) });
+      }
+    }
+
+    const live = new Set(sources.map(sourceKey));
+    const stale = existing.filter((chunk) => !live.has(sourceKey(chunk)));
+
+    for (const sourceType of new Set(stale.map((chunk) => chunk.sourceType))) {
+      const { count } = await prisma.retrievalChunk.deleteMany({
+        where: {
+          sourceType,
+          sourceId: { in: stale.filter((chunk) => chunk.sourceType === sourceType).map((chunk) => chunk.sourceId) },
+        },
+      });
+      result.removed += count;
+    }
+
+    if (result.indexed > 0 || result.removed > 0) {
+      this.cache = null;
+    }
+
+    log.info('Retrieval index refreshed', { provider: provider.name, ...result });
+
+    return result;
+  }
+
+  /**
+   * Indexed passages most similar to a query, best first
+   */
+  static async search(
+    query: string,
+    options: { limit?: number; minScore?: number; sourceTypes?: RetrievalSourceType[] } = {}
+  ): Promise<RetrievedPassage[]> {
+    const { limit = config.retrieval.topK, minScore = config.retrieval.minScore, sourceTypes } = options;
+
+    const chunks = await this.loadChunks();
+    if (chunks.length === 0 || !query.trim()) {
+      return [];
+    }
+
+    const [vector] = await EmbeddingService.embed([query]);
+
+    return chunks
+      .filter((chunk) => !sourceTypes || sourceTypes.includes(chunk.sourceType))
+      .map((chunk) => ({ chunk, score: similarity(vector, chunk.vector) }))
+      .filter(({ score }) => score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk: { vector: _vector, ...passage }, score }) => ({
+        ...passage,
+        score: Math.round(score * 1000) / 1000,
+      }));
+  }
+
+  /**
+   * Keep the index up to date on an interval
+   */
+  static startRefreshWorker(intervalMs: number = config.retrieval.refreshIntervalMs): void {
+    if (this.refreshTimer) {
+      return;
+    }
+
+    const refresh = () => {
+      this.reindex().catch((error) => {
+        log.error('Retrieval index refresh failed', error);
+      });
+    };
+
+    refresh();
+    this.refreshTimer = setInterval(refresh, intervalMs);
+
+    // Do not keep the process alive just for the refresh
+    this.refreshTimer.unref();
+
+    log.info('Retrieval index refresh worker started', { intervalMs });
+  }
+
+  /**
+   * Stop the refresh worker
+   */
+  static stopRefreshWorker(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
+  private static async loadSources(): Promise<SourceDocument[]> {
+    const [articles, tours] = await Promise.all([
+      prisma.culturalContent.findMany({
+        where: { status: 'PUBLISHED' },
+        select: { id: true, title: true, excerpt: true, content: true, type: true, language: true },
+      }),
+      prisma.tour.findMany({
+        where: { status: 'PUBLISHED' },
+        include: TOUR_DETAILS_INCLUDE,
+      }),
+    ]);
+
+    const culturalSources = articles
+      .filter((article) => CULTURAL_PATHS[article.type])
+      .map((article): SourceDocument => ({
+        sourceType: 'cultural',
+        sourceId: article.id,
+        title: article.title,
+        url: `${CULTURAL_PATHS[article.type]}/${article.id}`,
+        language: article.language,
+        text: [article.excerpt, stripMarkup(article.content)].filter(Boolean).join('\n\n'),
+      }));
+
+    const tourSources = tours.map((row): SourceDocument => {
+      const tour = TourService.formatTour(row);
+      const places = [tour.startLocation, ...tour.locations]
+        .filter((location): location is NonNullable<typeof location> => location !== null)
+        .map((location) => (location.description ? `${location.name}: ${location.description}` : location.name));
+
+      return {
+        sourceType: 'tour',
+        sourceId: tour.id,
+        title: tour.title,
+        url: `/tours/${tour.id}`,
+        language: tour.language,
+        text: [
+          tour.shortDescription,
+          tour.description,
+          `${tour.duration} days, ${tour.difficulty.toLowerCase()} difficulty, ${tour.category}.`,
+          ...tour.itinerary.map((day) => `Day ${day.day}: ${day.title}. ${day.description}`),
+          places.length ? `Places visited: ${places.join('; ')}` : null,
+        ]
+          .filter(Boolean)
+          .join('\n\n'),
+      };
+    });
+
+    return [...culturalSources, ...tourSources];
+  }
+
+  private static async loadChunks(): Promise<IndexedChunk[]> {
+    const provider = EmbeddingService.getProvider().name;
+
+    if (this.cache?.provider !== provider) {
+      const rows = await prisma.retrievalChunk.findMany({
+        where: { embeddingProvider: provider },
+        select: { sourceType: true, sourceId: true, title: true, url: true, content: true, embedding: true },
+      });
+
+      this.cache = {
+        provider,
+        chunks: rows.map(({ embedding, sourceType, ...row }) => ({
+          ...row,
+          sourceType: sourceType as RetrievalSourceType,
+          vector: Array.isArray(embedding) ? (embedding as number[]) : [],
+        })),
+      };
+    }
+
+    return this.cache.chunks;
+  }
+}
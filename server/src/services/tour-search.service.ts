@@ -0,0 +1,512 @@
+import { PrismaClient, TourStop } from '@prisma/client';
+import { config } from '../config';
+import { TourQueryInput } from '../schemas/tour.schemas';
+import { CurrencyService } from './currency.service';
+import { SEAT_RELEASING_STATUSES } from './departure.service';
+import { FormattedTour, TourDisplayPrice, TourService, TOUR_DETAILS_INCLUDE } from './tour.service';
+
+const prisma = new PrismaClient();
+
+export type TourSortField = NonNullable<TourQueryInput['sortBy']>;
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * A range facet; `max` is null for the open-ended top bucket
+ */
+export interface RangeFacetValue {
+  key: string;
+  label: string;
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface TourFacets {
+  category: FacetValue[];
+  difficulty: FacetValue[];
+  language: FacetValue[];
+  duration: RangeFacetValue[];
+  price: RangeFacetValue[];
+}
+
+export interface TourSearchStats {
+  averageRating: number | null;
+  reviewCount: number;
+  bookingCount: number;
+  distanceKm: number | null;
+  relevance: number | null;
+}
+
+export interface TourSearchResult {
+  tours: Array<FormattedTour & TourSearchStats & TourDisplayPrice>;
+  facets: TourFacets;
+  // The currency of the price filter, price facets and price sorting
+  priceCurrency: string;
+  sortBy: TourSortField;
+  sortOrder: 'asc' | 'desc';
+  sortOptions: TourSortField[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+type FacetName = 'category' | 'difficulty' | 'language' | 'duration' | 'price' | 'rating';
+
+interface Candidate extends Omit<TourSearchStats, 'relevance'> {
+  id: string;
+  title: string;
+  category: string;
+  difficulty: string;
+  language: string;
+  duration: number;
+  price: number;
+  featured: boolean;
+  createdAt: Date;
+  relevance: number;
+}
+
+const DURATION_BUCKETS = [
+  { key: '1-3', label: '1-3 days', min: 1, max: 3 },
+  { key: '4-7', label: '4-7 days', min: 4, max: 7 },
+  { key: '8-14', label: '8-14 days', min: 8, max: 14 },
+  { key: '15+', label: '15+ days', min: 15, max: null },
+];
+
+// In the search's price currency; bounds are inclusive to match the minPrice/maxPrice filter
+const PRICE_RANGES = [
+  { key: '0-500', label: 'Under 500', min: 0, max: 500 },
+  { key: '500-1000', label: '500 - 1,000', min: 500, max: 1000 },
+  { key: '1000-2000', label: '1,000 - 2,000', min: 1000, max: 2000 },
+  { key: '2000+', label: '2,000+', min: 2000, max: null },
+];
+
+// How much a query term counts depending on where it is found
+const FIELD_WEIGHTS = {
+  title: 10,
+  tags: 6,
+  category: 4,
+  locations: 3,
+  shortDescription: 3,
+  description: 1,
+};
+
+const TITLE_PHRASE_BONUS = 5;
+
+const MAX_QUERY_TERMS = 8;
+
+const EARTH_RADIUS_KM = 6371;
+
+const DEFAULT_SORT_ORDER: Record<TourSortField, 'asc' | 'desc'> = {
+  relevance: 'desc',
+  createdAt: 'desc',
+  price: 'asc',
+  duration: 'asc',
+  title: 'asc',
+  rating: 'desc',
+  popularity: 'desc',
+  distance: 'asc',
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const inRange = (value: number, min?: number, max?: number | null) =>
+  (min === undefined || value >= min) && (max === undefined || max === null || value <= max);
+
+/**
+ * Search, filter, facet and sort published tours.
+ *
+ * The database narrows tours down to those matching every query term; scoring, geo filtering,
+ * facet counts and sorting then run over a light projection of the matches.
+ */
+export class TourSearchService {
+  /**
+   * Split a query into lowercase terms
+   */
+  static tokenize(query?: string): string[] {
+    if (!query) return [];
+    const terms = query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((term) => term.length > 1);
+    return Array.from(new Set(terms)).slice(0, MAX_QUERY_TERMS);
+  }
+
+  /**
+   * Great-circle distance between two [lat, lng] points in kilometres
+   */
+  static distanceKm(from: [number, number], to: [number, number]): number {
+    const dLat = toRadians(to[0] - from[0]);
+    const dLng = toRadians(to[1] - from[1]);
+    const a = Math.sin(dLat / 2) ** 2
+      + Math.cos(toRadians(from[0])) * Math.cos(toRadians(to[0])) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  }
+
+  /**
+   * Start coordinates of a tour as [lat, lng], if its start stop has them
+   */
+  static getStartCoordinates(stops: Array<Pick<TourStop, 'isStart' | 'latitude' | 'longitude'>>): [number, number] | null {
+    const start = stops.find((stop) => stop.isStart);
+    if (!start || start.latitude === null || start.longitude === null) {
+      return null;
+    }
+    return [start.latitude, start.longitude];
+  }
+
+  static async search(query: TourQueryInput): Promise<TourSearchResult> {
+    const terms = this.tokenize(query.q || query.search);
+    const point: [number, number] | null = query.latitude !== undefined && query.longitude !== undefined
+      ? [query.latitude, query.longitude]
+      : null;
+
+    // MySQL's default collation makes `contains` case-insensitive
+    const rows = await prisma.tour.findMany({
+      where: {
+        status: 'PUBLISHED',
+        ...(query.featured !== undefined && { featured: query.featured }),
+        AND: terms.map((term) => ({
+          OR: [
+            { title: { contains: term } },
+            { shortDescription: { contains: term } },
+            { description: { contains: term } },
+            { tags: { some: { name: { contains: term } } } },
+            { category: { contains: term } },
+            { stops: { some: { isStart: false, OR: [{ name: { contains: term } }, { description: { contains: term } }] } } },
+          ],
+        })),
+      },
+      select: {
+        id: true,
+        title: true,
+        shortDescription: true,
+        description: true,
+        tags: { select: { name: true } },
+        stops: { select: { isStart: true, name: true, description: true, latitude: true, longitude: true } },
+        category: true,
+        difficulty: true,
+        language: true,
+        duration: true,
+        price: true,
+        discountPrice: true,
+        currency: true,
+        featured: true,
+        createdAt: true,
+      },
+    });
+
+    const stats = await this.getStats(rows.map((row) => row.id));
+
+    // Tours are priced in different currencies, so prices are compared in one: one rate per tour currency
+    const priceCurrency = query.currency || config.currency.default;
+    const rates = new Map<string, number>();
+    for (const from of new Set(rows.map((row) => row.currency))) {
+      rates.set(from, from === priceCurrency ? 1 : (await CurrencyService.getRate(from, priceCurrency)).rate);
+    }
+
+    const candidates: Candidate[] = [];
+    for (const row of rows) {
+      const coordinates = this.getStartCoordinates(row.stops);
+      const distanceKm = point && coordinates ? this.distanceKm(point, coordinates) : null;
+
+      if (point && (distanceKm === null || distanceKm > query.radius)) continue;
+      if (query.bounds && !this.withinBounds(coordinates, query.bounds)) continue;
+
+      const tourStats = stats.get(row.id);
+      candidates.push({
+        id: row.id,
+        title: row.title,
+        category: row.category,
+        difficulty: row.difficulty,
+        language: row.language,
+        duration: row.duration,
+        price: CurrencyService.roundAmount(Number(row.discountPrice ?? row.price) * rates.get(row.currency)!, priceCurrency),
+        featured: row.featured,
+        createdAt: row.createdAt,
+        distanceKm: distanceKm === null ? null : Math.round(distanceKm * 10) / 10,
+        relevance: this.score(row, terms, query.q || query.search),
+        averageRating: tourStats?.averageRating ?? null,
+        reviewCount: tourStats?.reviewCount ?? 0,
+        bookingCount: tourStats?.bookingCount ?? 0,
+      });
+    }
+
+    const filters = this.buildFilters(query);
+    const passes = (candidate: Candidate, except?: FacetName) =>
+      (Object.keys(filters) as FacetName[]).every((name) => name === except || filters[name]!(candidate));
+
+    const facets = this.buildFacets(candidates, passes);
+    const matches = candidates.filter((candidate) => passes(candidate));
+
+    const sortOptions = (Object.keys(DEFAULT_SORT_ORDER) as TourSortField[]).filter((field) =>
+      (field !== 'relevance' || terms.length > 0) && (field !== 'distance' || point !== null)
+    );
+    const defaultSort: TourSortField = terms.length > 0 ? 'relevance' : point ? 'distance' : 'createdAt';
+    const sortBy = query.sortBy && sortOptions.includes(query.sortBy) ? query.sortBy : defaultSort;
+    const sortOrder = query.sortOrder || DEFAULT_SORT_ORDER[sortBy];
+    // The plain listing shows featured tours first, as it always has
+    const featuredFirst = !query.sortBy && sortBy === 'createdAt';
+    matches.sort((a, b) =>
+      (featuredFirst ? Number(b.featured) - Number(a.featured) : 0) || this.compare(a, b, sortBy, sortOrder)
+    );
+
+    const skip = (query.page - 1) * query.limit;
+    const pageMatches = matches.slice(skip, skip + query.limit);
+    const tours = await prisma.tour.findMany({
+      where: { id: { in: pageMatches.map((match) => match.id) } },
+      include: TOUR_DETAILS_INCLUDE,
+    });
+    const toursById = new Map(tours.map((tour) => [tour.id, tour]));
+
+    const pageTours = pageMatches
+      .filter((match) => toursById.has(match.id))
+      .map((match) => ({
+        ...TourService.formatTour(toursById.get(match.id)!),
+        averageRating: match.averageRating,
+        reviewCount: match.reviewCount,
+        bookingCount: match.bookingCount,
+        distanceKm: match.distanceKm,
+        relevance: terms.length > 0 ? match.relevance : null,
+      }));
+
+    return {
+      tours: await TourService.withDisplayPrices(pageTours, query.currency),
+      facets,
+      priceCurrency,
+      sortBy,
+      sortOrder,
+      sortOptions,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total: matches.length,
+        pages: Math.ceil(matches.length / query.limit),
+      },
+    };
+  }
+
+  /**
+   * Average approved rating, review count and live booking count per tour
+   */
+  private static async getStats(tourIds: string[]) {
+    const stats = new Map<string, { averageRating: number | null; reviewCount: number; bookingCount: number }>();
+    if (tourIds.length === 0) {
+      return stats;
+    }
+
+    const [reviews, bookings] = await Promise.all([
+      prisma.review.groupBy({
+        by: ['tourId'],
+        where: { tourId: { in: tourIds }, status: 'APPROVED' },
+        _avg: { rating: true },
+        _count: { rating: true },
+      }),
+      prisma.booking.groupBy({
+        by: ['tourId'],
+        where: { tourId: { in: tourIds }, status: { notIn: SEAT_RELEASING_STATUSES } },
+        _count: { tourId: true },
+      }),
+    ]);
+
+    const entry = (tourId: string) => {
+      if (!stats.has(tourId)) {
+        stats.set(tourId, { averageRating: null, reviewCount: 0, bookingCount: 0 });
+      }
+      return stats.get(tourId)!;
+    };
+
+    reviews.forEach((review) => {
+      if (!review.tourId) return;
+      const tourStats = entry(review.tourId);
+      tourStats.averageRating = review._avg.rating === null ? null : Math.round(review._avg.rating * 10) / 10;
+      tourStats.reviewCount = review._count.rating;
+    });
+    bookings.forEach((booking) => {
+      entry(booking.tourId).bookingCount = booking._count.tourId;
+    });
+
+    return stats;
+  }
+
+  private static withinBounds(
+    coordinates: [number, number] | null,
+    bounds: NonNullable<TourQueryInput['bounds']>
+  ): boolean {
+    if (!coordinates) return false;
+    const [lat, lng] = coordinates;
+    if (lat < bounds.south || lat > bounds.north) return false;
+
+    // A region crossing the antimeridian has west > east
+    return bounds.west <= bounds.east
+      ? lng >= bounds.west && lng <= bounds.east
+      : lng >= bounds.west || lng <= bounds.east;
+  }
+
+  private static score(
+    row: {
+      title: string;
+      shortDescription: string | null;
+      description: string;
+      tags: Array<{ name: string }>;
+      stops: Array<Pick<TourStop, 'isStart' | 'name' | 'description'>>;
+      category: string;
+    },
+    terms: string[],
+    phrase?: string
+  ): number {
+    if (terms.length === 0) return 0;
+
+    const fields: Record<keyof typeof FIELD_WEIGHTS, string> = {
+      title: row.title.toLowerCase(),
+      tags: row.tags.map((tag) => tag.name).join(' ').toLowerCase(),
+      category: row.category.toLowerCase(),
+      locations: row.stops
+        .filter((stop) => !stop.isStart)
+        .map((stop) => `${stop.name} ${stop.description || ''}`)
+        .join(' ')
+        .toLowerCase(),
+      shortDescription: (row.shortDescription || '').toLowerCase(),
+      description: row.description.toLowerCase(),
+    };
+
+    let score = 0;
+    for (const term of terms) {
+      for (const field of Object.keys(FIELD_WEIGHTS) as Array<keyof typeof FIELD_WEIGHTS>) {
+        if (fields[field].includes(term)) {
+          score += FIELD_WEIGHTS[field];
+        }
+      }
+    }
+
+    if (phrase && terms.length > 1 && fields.title.includes(phrase.trim().toLowerCase())) {
+      score += TITLE_PHRASE_BONUS;
+    }
+
+    return score;
+  }
+
+  private static buildFilters(query: TourQueryInput): Partial<Record<FacetName, (candidate: Candidate) => boolean>> {
+    const filters: Partial<Record<FacetName, (candidate: Candidate) => boolean>> = {};
+    const oneOf = (values?: string[]) => {
+      const lowered = values?.map((value) => value.toLowerCase());
+      return (value: string) => !lowered || lowered.length === 0 || lowered.includes(value.toLowerCase());
+    };
+
+    if (query.category?.length) {
+      const matches = oneOf(query.category);
+      filters.category = (candidate) => matches(candidate.category);
+    }
+    if (query.difficulty?.length) {
+      const matches = oneOf(query.difficulty);
+      filters.difficulty = (candidate) => matches(candidate.difficulty);
+    }
+    if (query.language?.length) {
+      const matches = oneOf(query.language);
+      filters.language = (candidate) => matches(candidate.language);
+    }
+    if (query.duration !== undefined || query.minDuration !== undefined || query.maxDuration !== undefined) {
+      filters.duration = (candidate) =>
+        (query.duration === undefined || candidate.duration === query.duration)
+        && inRange(candidate.duration, query.minDuration, query.maxDuration);
+    }
+    if (query.minPrice !== undefined || query.maxPrice !== undefined) {
+      filters.price = (candidate) => inRange(candidate.price, query.minPrice, query.maxPrice);
+    }
+    if (query.minRating !== undefined) {
+      filters.rating = (candidate) => candidate.averageRating !== null && candidate.averageRating >= query.minRating!;
+    }
+
+    return filters;
+  }
+
+  /**
+   * Facet counts are disjunctive: each facet is counted with every other filter applied but not
+   * its own, so picking one category still shows how many tours the other categories have.
+   */
+  private static buildFacets(
+    candidates: Candidate[],
+    passes: (candidate: Candidate, except?: FacetName) => boolean
+  ): TourFacets {
+    const countValues = (facet: 'category' | 'difficulty' | 'language'): FacetValue[] => {
+      const counts = new Map<string, FacetValue>();
+      for (const candidate of candidates) {
+        const key = candidate[facet].toLowerCase();
+        if (!counts.has(key)) {
+          counts.set(key, { value: candidate[facet], count: 0 });
+        }
+        if (passes(candidate, facet)) {
+          counts.get(key)!.count++;
+        }
+      }
+      return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    };
+
+    const countRanges = (
+      facet: 'duration' | 'price',
+      ranges: Array<Omit<RangeFacetValue, 'count'>>
+    ): RangeFacetValue[] => {
+      const remaining = candidates.filter((candidate) => passes(candidate, facet));
+      return ranges.map((range) => ({
+        ...range,
+        count: remaining.filter((candidate) => inRange(candidate[facet], range.min, range.max)).length,
+      }));
+    };
+
+    return {
+      category: countValues('category'),
+      difficulty: countValues('difficulty'),
+      language: countValues('language'),
+      duration: countRanges('duration', DURATION_BUCKETS),
+      price: countRanges('price', PRICE_RANGES),
+    };
+  }
+
+  private static compare(a: Candidate, b: Candidate, sortBy: TourSortField, sortOrder: 'asc' | 'desc'): number {
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    let result = 0;
+
+    switch (sortBy) {
+      case 'relevance':
+        result = a.relevance - b.relevance;
+        break;
+      case 'price':
+        result = a.price - b.price;
+        break;
+      case 'duration':
+        result = a.duration - b.duration;
+        break;
+      case 'title':
+        result = a.title.localeCompare(b.title);
+        break;
+      case 'rating':
+        // Unrated tours go last whichever way the list is sorted
+        if (a.averageRating === null || b.averageRating === null) {
+          if (a.averageRating !== b.averageRating) {
+            return a.averageRating === null ? 1 : -1;
+          }
+        } else {
+          result = a.averageRating - b.averageRating || a.reviewCount - b.reviewCount;
+        }
+        break;
+      case 'popularity':
+        result = a.bookingCount - b.bookingCount || a.reviewCount - b.reviewCount;
+        break;
+      case 'distance':
+        result = (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity);
+        break;
+      case 'createdAt':
+        result = a.createdAt.getTime() - b.createdAt.getTime();
+        break;
+    }
+
+    if (result !== 0) {
+      return result * direction;
+    }
+
+    // Ties go to featured tours, then the newest
+    return Number(b.featured) - Number(a.featured) || b.createdAt.getTime() - a.createdAt.getTime();
+  }
+}
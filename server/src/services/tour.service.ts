@@ -0,0 +1,240 @@
+import { Prisma, Tour, TourStop } from '@prisma/client';
+import { CreateTourInput } from '../schemas/tour.schemas';
+import { CurrencyService } from './currency.service';
+
+type TourDetailsInput = Pick<
+  CreateTourInput,
+  'images' | 'startLocation' | 'locations' | 'included' | 'excluded' | 'itinerary' | 'tags'
+>;
+
+/**
+ * Everything a tour page shows besides the tour row itself, in display order
+ */
+export const TOUR_DETAILS_INCLUDE = Prisma.validator<Prisma.TourInclude>()({
+  images: { orderBy: { position: 'asc' } },
+  stops: { orderBy: [{ isStart: 'desc' }, { position: 'asc' }] },
+  days: { orderBy: { dayNumber: 'asc' } },
+  inclusions: { orderBy: { position: 'asc' } },
+  tags: { orderBy: { name: 'asc' } },
+});
+
+/**
+ * Just the cover image, for bookings, waitlists and other lists that show a thumbnail
+ */
+export const TOUR_COVER_IMAGE_INCLUDE = Prisma.validator<Prisma.TourImageFindManyArgs>()({
+  select: { url: true },
+  orderBy: { position: 'asc' },
+  take: 1,
+});
+
+type TourWithDetails = Prisma.TourGetPayload<{ include: typeof TOUR_DETAILS_INCLUDE }>;
+
+export interface TourLocation {
+  name: string;
+  description: string | null;
+  address: string | null;
+  coordinates: [number, number] | null;
+}
+
+export interface TourItineraryDay {
+  day: number;
+  title: string;
+  description: string;
+  activities: string[];
+  meals: string[];
+  accommodation: string | null;
+}
+
+export interface TourDetails {
+  images: string[];
+  startLocation: TourLocation | null;
+  locations: TourLocation[];
+  included: string[];
+  excluded: string[];
+  itinerary: TourItineraryDay[];
+  tags: string[];
+}
+
+/**
+ * A tour's prices in the currency the visitor browses in
+ */
+export interface TourDisplayPrice {
+  displayCurrency: string;
+  displayPrice: number;
+  displayDiscountPrice: number | null;
+  exchangeRate: number;
+}
+
+export type FormattedTour<T extends TourWithDetails = TourWithDetails> =
+  Omit<T, 'images' | 'stops' | 'days' | 'inclusions' | 'tags'> & TourDetails;
+
+const toStrings = (value: Prisma.JsonValue): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const toLocation = (stop: TourStop): TourLocation => ({
+  name: stop.name,
+  description: stop.description,
+  address: stop.address,
+  coordinates: stop.latitude !== null && stop.longitude !== null ? [stop.latitude, stop.longitude] : null,
+});
+
+export class TourService {
+  /**
+   * Flatten a tour's detail rows into the shape the API has always returned
+   */
+  static formatTour<T extends TourWithDetails>(tour: T): FormattedTour<T> {
+    const { images, stops, days, inclusions, tags, ...rest } = tour;
+    const start = stops.find((stop) => stop.isStart);
+
+    return {
+      ...rest,
+      images: images.map((image) => image.url),
+      startLocation: start ? toLocation(start) : null,
+      locations: stops.filter((stop) => !stop.isStart).map(toLocation),
+      included: inclusions.filter((inclusion) => inclusion.included).map((inclusion) => inclusion.item),
+      excluded: inclusions.filter((inclusion) => !inclusion.included).map((inclusion) => inclusion.item),
+      itinerary: days.map((day) => ({
+        day: day.dayNumber,
+        title: day.title,
+        description: day.description,
+        activities: toStrings(day.activities),
+        meals: toStrings(day.meals),
+        accommodation: day.accommodation,
+      })),
+      tags: tags.map((tag) => tag.name),
+    };
+  }
+
+  /**
+   * Add prices converted into a display currency, or each tour's own currency when none is given.
+   * The tour's own price fields are left untouched.
+   */
+  static async withDisplayPrices<T extends Pick<Tour, 'price' | 'discountPrice' | 'currency'>>(
+    tours: T[],
+    currency?: string
+  ): Promise<Array<T & TourDisplayPrice>> {
+    // One rate per distinct tour currency
+    const rates = new Map<string, number>();
+    for (const from of new Set(tours.map((tour) => tour.currency))) {
+      const to = currency || from;
+      rates.set(from, from === to ? 1 : (await CurrencyService.getRate(from, to)).rate);
+    }
+
+    return tours.map((tour) => {
+      const displayCurrency = currency || tour.currency;
+      const exchangeRate = rates.get(tour.currency)!;
+
+      return {
+        ...tour,
+        displayCurrency,
+        displayPrice: CurrencyService.roundAmount(Number(tour.price) * exchangeRate, displayCurrency),
+        displayDiscountPrice: tour.discountPrice === null
+          ? null
+          : CurrencyService.roundAmount(Number(tour.discountPrice) * exchangeRate, displayCurrency),
+        exchangeRate,
+      };
+    });
+  }
+
+  /**
+   * Nested writes creating the detail rows of a new tour
+   */
+  static buildDetailsCreate(data: TourDetailsInput) {
+    return {
+      images: { create: this.imageRows(data.images) },
+      stops: { create: [this.startStopRow(data.startLocation), ...this.locationRows(data.locations)] },
+      days: { create: this.dayRows(data.itinerary) },
+      inclusions: { create: [...this.inclusionRows(data.included, true), ...this.inclusionRows(data.excluded, false)] },
+      tags: { create: this.tagRows(data.tags) },
+    } satisfies Partial<Prisma.TourCreateInput>;
+  }
+
+  /**
+   * Nested writes replacing the detail rows an update provides; the rest are left alone
+   */
+  static buildDetailsUpdate(data: Partial<TourDetailsInput>) {
+    return {
+      ...(data.images && {
+        images: { deleteMany: {}, create: this.imageRows(data.images) },
+      }),
+      ...((data.startLocation || data.locations) && {
+        stops: {
+          deleteMany: data.startLocation && data.locations ? {} : { isStart: !!data.startLocation },
+          create: [
+            ...(data.startLocation ? [this.startStopRow(data.startLocation)] : []),
+            ...(data.locations ? this.locationRows(data.locations) : []),
+          ],
+        },
+      }),
+      ...(data.itinerary && {
+        days: { deleteMany: {}, create: this.dayRows(data.itinerary) },
+      }),
+      ...((data.included || data.excluded) && {
+        inclusions: {
+          deleteMany: data.included && data.excluded ? {} : { included: !!data.included },
+          create: [
+            ...(data.included ? this.inclusionRows(data.included, true) : []),
+            ...(data.excluded ? this.inclusionRows(data.excluded, false) : []),
+          ],
+        },
+      }),
+      ...(data.tags && {
+        tags: { deleteMany: {}, create: this.tagRows(data.tags) },
+      }),
+    } satisfies Partial<Prisma.TourUpdateInput>;
+  }
+
+  private static imageRows(images: string[]) {
+    return images.map((url, position) => ({ url, position }));
+  }
+
+  private static startStopRow(location: CreateTourInput['startLocation']) {
+    return {
+      isStart: true,
+      name: location.name,
+      description: location.description,
+      address: location.address,
+      latitude: location.coordinates[0],
+      longitude: location.coordinates[1],
+      position: 0,
+    };
+  }
+
+  private static locationRows(locations: CreateTourInput['locations']) {
+    return locations.map((location, index) => ({
+      name: location.name,
+      description: location.description,
+      latitude: location.coordinates[0],
+      longitude: location.coordinates[1],
+      position: index + 1,
+    }));
+  }
+
+  private static dayRows(itinerary: CreateTourInput['itinerary']) {
+    return itinerary.map((day) => ({
+      dayNumber: day.day,
+      title: day.title,
+      description: day.description,
+      activities: day.activities,
+      meals: day.meals,
+      accommodation: day.accommodation,
+    }));
+  }
+
+  private static inclusionRows(items: string[], included: boolean) {
+    return items.map((item, position) => ({ item, included, position }));
+  }
+
+  /**
+   * Tags are a tour's primary key together with the name, so repeats are dropped whatever their case
+   */
+  private static tagRows(tags: string[]) {
+    const seen = new Set<string>();
+    return tags.filter((tag) => {
+      const key = tag.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }).map((name) => ({ name }));
+  }
+}
@@ -0,0 +1,453 @@
+import { PrismaClient, Prisma, Booking, TripNotification } from '@prisma/client';
+import { getNotificationService } from './notification';
+import { NotificationPreferencesService } from './notification/preferences.service';
+import {
+  NotificationType,
+  NotificationPriority,
+  NotificationFrequency,
+  DeliveryChannel,
+  TemplateData,
+} from '../types/notification.types';
+import { WeatherService } from './weather.service';
+import { config } from '../config';
+import { log } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export const TRIP_NOTIFICATION_KINDS = ['CHECKLIST', 'MEETING_POINT', 'WEATHER', 'REVIEW_REQUEST'] as const;
+export type TripNotificationKind = typeof TRIP_NOTIFICATION_KINDS[number];
+
+// Bookings whose trip messages stay scheduled; any other status cancels the pending ones
+const SCHEDULED_STATUSES = ['CONFIRMED', 'COMPLETED'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Messages handled per sweep
+const SWEEP_BATCH_SIZE = 100;
+
+// A message being sent is held this long, so another server's sweep does not send it too
+const CLAIM_MS = 10 * 60 * 1000;
+
+// How often a message waiting out quiet hours checks them again
+const QUIET_HOURS_RETRY_MS = 30 * 60 * 1000;
+
+// Minimum time between trip messages for users who asked for fewer notifications
+const FREQUENCY_SPACING_MS: Record<NotificationFrequency, number> = {
+  [NotificationFrequency.IMMEDIATE]: 0,
+  [NotificationFrequency.HOURLY]: HOUR_MS,
+  [NotificationFrequency.DAILY]: DAY_MS,
+};
+
+const KIND_SETTINGS: Record<TripNotificationKind, {
+  type: NotificationType;
+  priority: NotificationPriority;
+  channels: DeliveryChannel[];
+}> = {
+  CHECKLIST: {
+    type: NotificationType.TRIP_CHECKLIST,
+    priority: NotificationPriority.NORMAL,
+    channels: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL, DeliveryChannel.PUSH],
+  },
+  MEETING_POINT: {
+    type: NotificationType.BOOKING_REMINDER,
+    priority: NotificationPriority.HIGH,
+    channels: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL, DeliveryChannel.PUSH, DeliveryChannel.SMS],
+  },
+  WEATHER: {
+    type: NotificationType.TRIP_WEATHER,
+    priority: NotificationPriority.NORMAL,
+    channels: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL, DeliveryChannel.PUSH],
+  },
+  REVIEW_REQUEST: {
+    type: NotificationType.REVIEW_REQUEST,
+    priority: NotificationPriority.LOW,
+    channels: [DeliveryChannel.IN_APP, DeliveryChannel.EMAIL, DeliveryChannel.PUSH],
+  },
+};
+
+const TRIP_BOOKING_INCLUDE = Prisma.validator<Prisma.BookingInclude>()({
+  tour: {
+    include: {
+      stops: { orderBy: { position: 'asc' } },
+      inclusions: { where: { included: false }, orderBy: { position: 'asc' } },
+    },
+  },
+});
+
+type TripBooking = Prisma.BookingGetPayload<{ include: typeof TRIP_BOOKING_INCLUDE }>;
+
+export class TripNotificationService {
+  private static sweepTimer?: NodeJS.Timeout;
+  private static preferences = new NotificationPreferencesService(prisma);
+
+  /**
+   * When each trip message is due: the checklist, meeting point reminder and weather heads-up
+   * before the start date, the review request after the end date
+   */
+  static getSchedule(booking: Pick<Booking, 'startDate' | 'endDate'>): Record<TripNotificationKind, Date> {
+    const { checklistDaysBefore, meetingPointHoursBefore, weatherHoursBefore, reviewHoursAfter } = config.tripNotifications;
+    const start = booking.startDate.getTime();
+
+    return {
+      CHECKLIST: new Date(start - checklistDaysBefore * DAY_MS),
+      MEETING_POINT: new Date(start - meetingPointHoursBefore * HOUR_MS),
+      WEATHER: new Date(start - weatherHoursBefore * HOUR_MS),
+      REVIEW_REQUEST: new Date(booking.endDate.getTime() + reviewHoursAfter * HOUR_MS),
+    };
+  }
+
+  /**
+   * Bring a booking's trip messages in line with its status and dates: schedule them once it
+   * is confirmed, move pending ones when its dates change and cancel them when it is cancelled
+   * or refunded. Failures are logged rather than thrown, since this runs after the booking
+   * change has been committed; messages are checked against the booking again before sending.
+   */
+  static async syncBooking(bookingId: string): Promise<void> {
+    try {
+      const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: { tripNotifications: true },
+      });
+
+      if (!booking) {
+        return;
+      }
+
+      if (!SCHEDULED_STATUSES.includes(booking.status)) {
+        await this.cancelForBooking(bookingId, `Booking ${booking.status.toLowerCase()}`);
+        return;
+      }
+
+      const schedule = this.getSchedule(booking);
+      const now = new Date();
+
+      const missing = TRIP_NOTIFICATION_KINDS.filter(
+        (kind) => !booking.tripNotifications.some((notification) => notification.kind === kind)
+      );
+
+      if (missing.length > 0) {
+        await prisma.tripNotification.createMany({
+          data: missing.map((kind) => ({
+            bookingId,
+            kind,
+            scheduledFor: schedule[kind],
+            nextAttemptAt: schedule[kind],
+          })),
+          // Scheduled by another request or the sweep in the meantime
+          skipDuplicates: true,
+        });
+      }
+
+      for (const notification of booking.tripNotifications) {
+        const scheduledFor = schedule[notification.kind as TripNotificationKind];
+        const moved = notification.scheduledFor.getTime() !== scheduledFor.getTime();
+
+        // Messages come back after a reinstated booking, or when the trip moved and they are due again
+        const reopen = notification.status === 'CANCELLED' ||
+          (moved && notification.status !== 'PENDING' && scheduledFor > now);
+
+        if (!moved && !reopen) {
+          continue;
+        }
+
+        await prisma.tripNotification.update({
+          where: { id: notification.id },
+          data: {
+            scheduledFor,
+            nextAttemptAt: scheduledFor,
+            ...(reopen && { status: 'PENDING', sentAt: null, notificationId: null, reason: null }),
+          },
+        });
+      }
+
+      if (missing.length > 0) {
+        log.info('Trip notifications scheduled', { bookingId, kinds: missing });
+      }
+    } catch (error) {
+      log.error('Failed to schedule trip notifications', { bookingId, error });
+    }
+  }
+
+  /**
+   * Cancel a booking's trip messages that have not been sent yet
+   */
+  static async cancelForBooking(bookingId: string, reason: string): Promise<number> {
+    const result = await prisma.tripNotification.updateMany({
+      where: { bookingId, status: 'PENDING' },
+      data: { status: 'CANCELLED', reason },
+    });
+
+    if (result.count > 0) {
+      log.info('Trip notifications cancelled', { bookingId, count: result.count, reason });
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Schedule confirmed bookings that have no trip messages yet, then send the messages that are due
+   */
+  static async runSweep(now: Date = new Date()): Promise<{ scheduled: number; sent: number }> {
+    const { reviewHoursAfter, reviewWindowDays } = config.tripNotifications;
+
+    const unscheduled = await prisma.booking.findMany({
+      where: {
+        status: { in: SCHEDULED_STATUSES },
+        endDate: { gte: new Date(now.getTime() - reviewHoursAfter * HOUR_MS - reviewWindowDays * DAY_MS) },
+        tripNotifications: { none: {} },
+      },
+      select: { id: true },
+      take: SWEEP_BATCH_SIZE,
+    });
+
+    for (const booking of unscheduled) {
+      await this.syncBooking(booking.id);
+    }
+
+    const due = await prisma.tripNotification.findMany({
+      where: {
+        status: 'PENDING',
+        nextAttemptAt: { lte: now },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: SWEEP_BATCH_SIZE,
+    });
+
+    let sent = 0;
+
+    for (const notification of due) {
+      const claimed = await prisma.tripNotification.updateMany({
+        where: { id: notification.id, status: 'PENDING', nextAttemptAt: notification.nextAttemptAt },
+        data: { nextAttemptAt: new Date(now.getTime() + CLAIM_MS) },
+      });
+
+      // Cancelled, moved or claimed by another server in the meantime
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      try {
+        if (await this.deliver(notification, now)) {
+          sent++;
+        }
+      } catch (error) {
+        // The claim lapses and the next sweep tries again
+        log.error('Failed to send trip notification', { tripNotificationId: notification.id, error });
+      }
+    }
+
+    return { scheduled: unscheduled.length, sent };
+  }
+
+  /**
+   * Start the background sweep that schedules and sends trip messages
+   */
+  static startSweepWorker(intervalMs: number = config.tripNotifications.sweepIntervalMs): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.runSweep().catch((error) => {
+        log.error('Trip notification sweep failed', error);
+      });
+    }, intervalMs);
+
+    // Do not keep the process alive just for the sweep
+    this.sweepTimer.unref();
+
+    log.info('Trip notification worker started', { intervalMs });
+  }
+
+  /**
+   * Stop the sweep worker
+   */
+  static stopSweepWorker(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  /**
+   * Send a due message, or put it off while the user is in quiet hours or was messaged too
+   * recently for their frequency setting. Returns whether it was sent.
+   */
+  private static async deliver(notification: TripNotification, now: Date): Promise<boolean> {
+    const kind = notification.kind as TripNotificationKind;
+    const booking = await prisma.booking.findUniqueOrThrow({
+      where: { id: notification.bookingId },
+      include: TRIP_BOOKING_INCLUDE,
+    });
+
+    // The booking changed without its messages being updated
+    const schedule = this.getSchedule(booking);
+    if (!SCHEDULED_STATUSES.includes(booking.status) || schedule[kind].getTime() !== notification.scheduledFor.getTime()) {
+      await this.syncBooking(booking.id);
+      return false;
+    }
+
+    // Pre-trip messages are no use once the trip has started
+    const deadline = kind === 'REVIEW_REQUEST'
+      ? new Date(schedule.REVIEW_REQUEST.getTime() + config.tripNotifications.reviewWindowDays * DAY_MS)
+      : booking.startDate;
+
+    if (now >= deadline) {
+      return this.skip(notification, 'Too late to send');
+    }
+
+    // A booking made at the last minute gets the meeting point reminder instead of the checklist
+    if (kind === 'CHECKLIST' && now >= schedule.MEETING_POINT) {
+      return this.skip(notification, 'Superseded by the meeting point reminder');
+    }
+
+    if (kind === 'REVIEW_REQUEST') {
+      const reviews = await prisma.review.count({
+        where: { userId: booking.userId, tourId: booking.tourId },
+      });
+
+      if (reviews > 0) {
+        return this.skip(notification, 'Tour already reviewed');
+      }
+    }
+
+    const { type, priority, channels: requestedChannels } = KIND_SETTINGS[kind];
+    const preferences = await this.preferences.getPreferences(booking.userId);
+
+    if (this.preferences.isInQuietHours(preferences, priority)) {
+      return this.defer(notification, new Date(now.getTime() + QUIET_HOURS_RETRY_MS), 'quiet hours');
+    }
+
+    // Spaced out after the user's last trip message, unless waiting would make it too late
+    const spacing = FREQUENCY_SPACING_MS[preferences.frequency] || 0;
+    if (spacing > 0) {
+      const lastSent = await prisma.tripNotification.findFirst({
+        where: {
+          status: 'SENT',
+          sentAt: { gt: new Date(now.getTime() - spacing) },
+          booking: { userId: booking.userId },
+        },
+        orderBy: { sentAt: 'desc' },
+      });
+
+      const waitUntil = lastSent?.sentAt && new Date(lastSent.sentAt.getTime() + spacing);
+      if (waitUntil && waitUntil < deadline) {
+        return this.defer(notification, waitUntil, 'notification frequency');
+      }
+    }
+
+    const channels = this.preferences.determineEffectiveChannels(preferences, type, requestedChannels, priority);
+    if (channels.length === 0) {
+      return this.skip(notification, 'Turned off in notification preferences');
+    }
+
+    const templateData = await this.buildTemplateData(kind, booking);
+    if (!templateData) {
+      return this.skip(notification, 'No forecast for the meeting point');
+    }
+
+    const sent = await getNotificationService(prisma).createFromTemplate({
+      userId: booking.userId,
+      type,
+      channels,
+      priority,
+      templateData,
+      data: {
+        bookingId: booking.id,
+        tripNotificationId: notification.id,
+        url: kind === 'REVIEW_REQUEST' ? `/tours/${booking.tourId}` : '/bookings',
+      },
+    });
+
+    await prisma.tripNotification.update({
+      where: { id: notification.id },
+      data: { status: 'SENT', sentAt: now, notificationId: sent.id },
+    });
+
+    log.info('Trip notification sent', { bookingId: booking.id, kind, notificationId: sent.id });
+    return true;
+  }
+
+  /**
+   * Variables of the message's template. Null for a weather heads-up without a forecast.
+   */
+  private static async buildTemplateData(kind: TripNotificationKind, booking: TripBooking): Promise<TemplateData | null> {
+    const trip = {
+      bookingNumber: booking.bookingNumber,
+      tourTitle: booking.tour.title,
+      startDate: booking.startDate,
+    };
+
+    switch (kind) {
+      case 'CHECKLIST':
+        return { ...trip, checklist: this.buildChecklist(booking) };
+      case 'MEETING_POINT':
+        return { ...trip, meetingPoint: this.describeMeetingPoint(booking) };
+      case 'WEATHER': {
+        const start = booking.tour.stops.find((stop) => stop.isStart && stop.latitude != null && stop.longitude != null) ||
+          booking.tour.stops.find((stop) => stop.latitude != null && stop.longitude != null);
+
+        if (!start) {
+          return null;
+        }
+
+        const forecast = await WeatherService.getDailyForecast(start.latitude!, start.longitude!, booking.startDate);
+        if (!forecast) {
+          return null;
+        }
+
+        return {
+          tourTitle: trip.tourTitle,
+          startDate: trip.startDate,
+          forecast: forecast.summary,
+          minTemperature: forecast.minTemperature,
+          maxTemperature: forecast.maxTemperature,
+          rainChance: forecast.rainChance,
+        };
+      }
+      case 'REVIEW_REQUEST':
+        return { tourTitle: trip.tourTitle };
+    }
+  }
+
+  private static buildChecklist(booking: TripBooking): string {
+    const items = ['bring a passport or national ID for every traveller'];
+
+    if (booking.tour.inclusions.length > 0) {
+      items.push(`plan for what is not included (${booking.tour.inclusions.map((inclusion) => inclusion.item).join(', ')})`);
+    }
+
+    items.push(`find your meeting point: ${this.describeMeetingPoint(booking)}`);
+
+    return `${items.join('; ')}.`;
+  }
+
+  private static describeMeetingPoint(booking: TripBooking): string {
+    const start = booking.tour.stops.find((stop) => stop.isStart) || booking.tour.stops[0];
+
+    return start
+      ? [start.name, start.address].filter(Boolean).join(', ')
+      : 'see your booking details';
+  }
+
+  private static async defer(notification: TripNotification, nextAttemptAt: Date, reason: string): Promise<boolean> {
+    await prisma.tripNotification.update({
+      where: { id: notification.id },
+      data: { nextAttemptAt },
+    });
+
+    log.debug('Trip notification deferred', { tripNotificationId: notification.id, nextAttemptAt, reason });
+    return false;
+  }
+
+  private static async skip(notification: TripNotification, reason: string): Promise<boolean> {
+    await prisma.tripNotification.update({
+      where: { id: notification.id },
+      data: { status: 'SKIPPED', reason },
+    });
+
+    log.info('Trip notification skipped', { tripNotificationId: notification.id, kind: notification.kind, reason });
+    return false;
+  }
+}
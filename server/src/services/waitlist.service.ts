@@ -0,0 +1,465 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, WaitlistEntry } from '@prisma/client';
+import { JoinWaitlistInput } from '../schemas/waitlist.schemas';
+import {
+  NotFoundError,
+  ValidationError,
+  ForbiddenError,
+  ConflictError,
+} from '../middlewares/error.middleware';
+import { DepartureService } from './departure.service';
+import { TOUR_COVER_IMAGE_INCLUDE } from './tour.service';
+import { EmailService } from './email.service';
+import { config } from '../config';
+import { log } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// Entries that still occupy a place in the queue or hold seats
+const ACTIVE_STATUSES = ['WAITING', 'OFFERED'];
+
+export type WaitlistEntryWithPosition = WaitlistEntry & { position: number | null };
+
+export class WaitlistService {
+  private static expiryTimer?: NodeJS.Timeout;
+
+  /**
+   * Hash a claim token for storage, so a leaked database row cannot be used to claim seats
+   */
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Check that an entry belongs to the user, either directly or through a guest entry
+   * joined with the user's email
+   */
+  private static async assertOwner(entry: WaitlistEntry, userId: string, message: string): Promise<void> {
+    if (entry.userId === userId) {
+      return;
+    }
+
+    if (!entry.userId) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true },
+      });
+
+      if (user && user.email.toLowerCase() === entry.email) {
+        return;
+      }
+    }
+
+    throw new ForbiddenError(message);
+  }
+
+  /**
+   * Position of a waiting entry in its departure queue (1-based), null once it left the queue
+   */
+  static async getPosition(
+    entry: Pick<WaitlistEntry, 'departureId' | 'status' | 'createdAt'>,
+    client: DbClient = prisma
+  ): Promise<number | null> {
+    if (entry.status !== 'WAITING') {
+      return null;
+    }
+
+    const ahead = await client.waitlistEntry.count({
+      where: {
+        departureId: entry.departureId,
+        status: 'WAITING',
+        createdAt: { lt: entry.createdAt },
+      },
+    });
+
+    return ahead + 1;
+  }
+
+  /**
+   * Join the waitlist of a tour departure
+   */
+  static async joinWaitlist(data: JoinWaitlistInput, userId?: string): Promise<WaitlistEntryWithPosition> {
+    const departure = data.departureId
+      ? await DepartureService.getDepartureById(data.departureId, data.tourId)
+      : await DepartureService.findDepartureForDate(data.tourId, new Date(data.date as string));
+
+    if (!departure) {
+      throw new ValidationError('No departure is scheduled for the selected date');
+    }
+
+    if (departure.status === 'CANCELLED' || departure.startDate <= new Date()) {
+      throw new ValidationError('This departure is no longer accepting waitlist entries');
+    }
+
+    const seats = data.participants.adults + data.participants.children;
+    if (seats > departure.capacity) {
+      throw new ValidationError(`This departure only has ${departure.capacity} seats in total`);
+    }
+
+    const existing = await prisma.waitlistEntry.findFirst({
+      where: {
+        departureId: departure.id,
+        email: data.email,
+        status: { in: ACTIVE_STATUSES },
+      },
+    });
+
+    if (existing) {
+      throw new ConflictError('You are already on the waitlist for this departure');
+    }
+
+    const entry = await prisma.waitlistEntry.create({
+      data: {
+        tourId: data.tourId,
+        departureId: departure.id,
+        userId,
+        name: data.name,
+        email: data.email,
+        adults: data.participants.adults,
+        children: data.participants.children,
+      },
+    });
+
+    log.info('Waitlist entry created', { entryId: entry.id, departureId: departure.id, userId, seats });
+
+    // Seats may already be free (e.g. released while the customer was filling in the form)
+    await this.offerReleasedSeats(departure.id);
+
+    const current = await prisma.waitlistEntry.findUniqueOrThrow({ where: { id: entry.id } });
+
+    return { ...current, position: await this.getPosition(current) };
+  }
+
+  /**
+   * Get the waitlist entries of a user, including entries joined as a guest with the same email
+   */
+  static async getUserWaitlist(userId: string): Promise<WaitlistEntryWithPosition[]> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const entries = await prisma.waitlistEntry.findMany({
+      where: {
+        OR: [{ userId }, { userId: null, email: user.email.toLowerCase() }],
+      },
+      include: {
+        tour: {
+          select: {
+            id: true,
+            title: true,
+            slug: true,
+            images: TOUR_COVER_IMAGE_INCLUDE,
+          },
+        },
+        departure: {
+          select: {
+            id: true,
+            startDate: true,
+            endDate: true,
+            status: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return Promise.all(
+      entries.map(async (entry) => ({ ...entry, position: await this.getPosition(entry) }))
+    );
+  }
+
+  /**
+   * Leave the waitlist, handing any offered seats to the next entry
+   */
+  static async cancelEntry(id: string, userId: string): Promise<WaitlistEntry> {
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id },
+    });
+
+    if (!entry) {
+      throw new NotFoundError('Waitlist entry not found');
+    }
+
+    await this.assertOwner(entry, userId, 'You do not have permission to modify this waitlist entry');
+
+    if (!ACTIVE_STATUSES.includes(entry.status)) {
+      throw new ValidationError(`Cannot leave waitlist with status: ${entry.status}`);
+    }
+
+    const cancelled = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const result = await tx.waitlistEntry.updateMany({
+        where: { id, status: entry.status },
+        data: { status: 'CANCELLED', claimToken: null },
+      });
+
+      if (result.count === 0) {
+        throw new ConflictError('Waitlist entry was updated, please try again');
+      }
+
+      if (entry.status === 'OFFERED') {
+        await DepartureService.releaseSeats(tx, entry.departureId, entry.adults + entry.children);
+      }
+
+      return tx.waitlistEntry.findUniqueOrThrow({ where: { id } });
+    });
+
+    log.info('Waitlist entry cancelled', { entryId: id, userId, previousStatus: entry.status });
+
+    if (entry.status === 'OFFERED') {
+      await this.offerReleasedSeats(entry.departureId);
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Look up an open offer by its claim token
+   */
+  static async getOfferByToken(token: string, client: DbClient = prisma): Promise<WaitlistEntry> {
+    const entry = await client.waitlistEntry.findUnique({
+      where: { claimToken: this.hashToken(token) },
+    });
+
+    if (!entry) {
+      throw new NotFoundError('Waitlist offer not found');
+    }
+
+    if (entry.status !== 'OFFERED' || !entry.offerExpiresAt || entry.offerExpiresAt <= new Date()) {
+      throw new ValidationError('This waitlist offer has expired');
+    }
+
+    return entry;
+  }
+
+  /**
+   * Look up an open offer on one of the user's own entries
+   */
+  static async getOfferForUser(id: string, userId: string): Promise<WaitlistEntry> {
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id },
+    });
+
+    if (!entry) {
+      throw new NotFoundError('Waitlist offer not found');
+    }
+
+    await this.assertOwner(entry, userId, 'You do not have permission to claim this offer');
+
+    if (entry.status !== 'OFFERED' || !entry.offerExpiresAt || entry.offerExpiresAt <= new Date()) {
+      throw new ValidationError('This waitlist offer has expired');
+    }
+
+    return entry;
+  }
+
+  /**
+   * Mark an offer as claimed. The seats held for the offer now belong to the booking.
+   */
+  static async markClaimed(tx: DbClient, entryId: string, bookingId: string): Promise<void> {
+    const result = await tx.waitlistEntry.updateMany({
+      where: {
+        id: entryId,
+        status: 'OFFERED',
+        offerExpiresAt: { gt: new Date() },
+      },
+      data: {
+        status: 'CLAIMED',
+        claimToken: null,
+        bookingId,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new ConflictError('This waitlist offer has expired');
+    }
+  }
+
+  /**
+   * Offer freed seats on a departure to the waitlist, oldest entry first.
+   *
+   * Entries whose party no longer fits are skipped until enough seats free up, so a large
+   * group does not block everyone behind it. Offered seats are held on the departure until
+   * the offer is claimed or expires. Failures are logged rather than thrown, since this runs
+   * after the cancellation that freed the seats has already been committed.
+   */
+  static async offerReleasedSeats(departureId: string): Promise<number> {
+    let offers = 0;
+
+    try {
+      const skipped: string[] = [];
+
+      for (;;) {
+        const departure = await DepartureService.getDepartureById(departureId);
+        const spotsLeft = DepartureService.getSeatsLeft(departure);
+
+        if (spotsLeft === 0 || !DepartureService.getBookability(departure).bookable) {
+          break;
+        }
+
+        const candidates = await prisma.waitlistEntry.findMany({
+          where: { departureId, status: 'WAITING', id: { notIn: skipped } },
+          orderBy: { createdAt: 'asc' },
+        });
+
+        const next = candidates.find((entry) => entry.adults + entry.children <= spotsLeft);
+        if (!next) {
+          break;
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+        const now = new Date();
+        const offerExpiresAt = new Date(now.getTime() + config.waitlist.offerWindowHours * 60 * 60 * 1000);
+
+        try {
+          await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await DepartureService.holdSeats(tx, departureId, next.adults + next.children);
+
+            const result = await tx.waitlistEntry.updateMany({
+              where: { id: next.id, status: 'WAITING' },
+              data: {
+                status: 'OFFERED',
+                claimToken: this.hashToken(token),
+                offeredAt: now,
+                offerExpiresAt,
+              },
+            });
+
+            // Another worker got to this entry first; roll back the seat hold
+            if (result.count === 0) {
+              throw new ConflictError('Waitlist entry already offered');
+            }
+
+            await this.queueOfferEmail(tx, next, departure.startDate, token, offerExpiresAt);
+          });
+        } catch (error) {
+          if (error instanceof ConflictError) {
+            skipped.push(next.id);
+            continue;
+          }
+          throw error;
+        }
+
+        offers++;
+        log.info('Waitlist offer made', { entryId: next.id, departureId, offerExpiresAt });
+      }
+    } catch (error) {
+      log.error('Failed to offer released seats to waitlist', error, { departureId });
+    }
+
+    return offers;
+  }
+
+  /**
+   * Expire offers that were not claimed in time and pass their seats on
+   */
+  static async expireOffers(now: Date = new Date()): Promise<number> {
+    const expired = await prisma.waitlistEntry.findMany({
+      where: {
+        status: 'OFFERED',
+        offerExpiresAt: { lte: now },
+      },
+    });
+
+    const departureIds = new Set<string>();
+    let count = 0;
+
+    for (const entry of expired) {
+      const released = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const result = await tx.waitlistEntry.updateMany({
+          where: { id: entry.id, status: 'OFFERED' },
+          data: { status: 'EXPIRED', claimToken: null },
+        });
+
+        // Claimed or cancelled in the meantime
+        if (result.count === 0) {
+          return false;
+        }
+
+        await DepartureService.releaseSeats(tx, entry.departureId, entry.adults + entry.children);
+        return true;
+      });
+
+      if (released) {
+        count++;
+        departureIds.add(entry.departureId);
+        log.info('Waitlist offer expired', { entryId: entry.id, departureId: entry.departureId });
+      }
+    }
+
+    // Entries still waiting when their departure leaves will never be offered
+    await prisma.waitlistEntry.updateMany({
+      where: {
+        status: 'WAITING',
+        departure: { startDate: { lte: now } },
+      },
+      data: { status: 'EXPIRED' },
+    });
+
+    for (const departureId of departureIds) {
+      await this.offerReleasedSeats(departureId);
+    }
+
+    return count;
+  }
+
+  /**
+   * Periodically expire unclaimed offers
+   */
+  static startExpiryWorker(intervalMs: number = config.waitlist.sweepIntervalMs): void {
+    if (this.expiryTimer) {
+      return;
+    }
+
+    this.expiryTimer = setInterval(() => {
+      this.expireOffers().catch((error) => {
+        log.error('Waitlist expiry sweep failed', error);
+      });
+    }, intervalMs);
+
+    // Do not keep the process alive just for the sweep
+    this.expiryTimer.unref();
+
+    log.info('Waitlist expiry worker started', { intervalMs });
+  }
+
+  /**
+   * Stop the expiry worker
+   */
+  static stopExpiryWorker(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+  }
+
+  /**
+   * Queue the email with an offer's claim link, in the transaction that makes the offer
+   */
+  private static async queueOfferEmail(
+    tx: Prisma.TransactionClient,
+    entry: WaitlistEntry,
+    startDate: Date,
+    token: string,
+    expiresAt: Date
+  ): Promise<void> {
+    const tour = await tx.tour.findUnique({
+      where: { id: entry.tourId },
+      select: { title: true },
+    });
+
+    await EmailService.sendWaitlistOffer(entry.email, entry.name, {
+      tourTitle: tour?.title || 'your tour',
+      startDate: startDate.toDateString(),
+      participants: entry.adults + entry.children,
+      claimUrl: `${config.client.url}/bookings?waitlistOffer=${token}`,
+      expiresAt: expiresAt.toUTCString(),
+    }, tx);
+  }
+}
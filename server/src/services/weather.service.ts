@@ -0,0 +1,112 @@
+import axios from 'axios';
+import { config } from '../config';
+import { log } from '../utils/logger';
+
+/**
+ * Forecast for one day at a location
+ */
+export interface DailyForecast {
+  date: string; // YYYY-MM-DD
+  summary: string;
+  minTemperature: number; // °C
+  maxTemperature: number; // °C
+  rainChance: number; // Percent
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  // Null when the provider has no forecast for the day, e.g. too far ahead
+  getDailyForecast(latitude: number, longitude: number, date: Date): Promise<DailyForecast | null>;
+}
+
+// WMO weather interpretation codes used by Open-Meteo
+const WEATHER_CODES: Array<[number[], string]> = [
+  [[0], 'Clear sky'],
+  [[1, 2], 'Partly cloudy'],
+  [[3], 'Overcast'],
+  [[45, 48], 'Fog'],
+  [[51, 53, 55, 56, 57], 'Drizzle'],
+  [[61, 80], 'Light rain'],
+  [[63, 81], 'Rain'],
+  [[65, 82, 66, 67], 'Heavy rain'],
+  [[71, 73, 75, 77, 85, 86], 'Snow'],
+  [[95, 96, 99], 'Thunderstorms'],
+];
+
+export const describeWeatherCode = (code: number): string =>
+  WEATHER_CODES.find(([codes]) => codes.includes(code))?.[1] || 'Mixed conditions';
+
+/**
+ * Forecasts from open-meteo.com, which needs no API key and covers the next 16 days
+ */
+export class OpenMeteoWeatherProvider implements WeatherProvider {
+  readonly name = 'open-meteo';
+
+  constructor(private readonly apiUrl: string) {}
+
+  async getDailyForecast(latitude: number, longitude: number, date: Date): Promise<DailyForecast | null> {
+    const day = date.toISOString().slice(0, 10);
+    const response = await axios.get(this.apiUrl, {
+      params: {
+        latitude,
+        longitude,
+        daily: 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max',
+        timezone: 'auto',
+        start_date: day,
+        end_date: day,
+      },
+      timeout: 10000,
+    });
+
+    const daily = response.data?.daily;
+    if (!daily?.time?.length || daily.temperature_2m_max?.[0] == null) {
+      return null;
+    }
+
+    return {
+      date: day,
+      summary: describeWeatherCode(Number(daily.weather_code?.[0])),
+      minTemperature: Math.round(daily.temperature_2m_min[0]),
+      maxTemperature: Math.round(daily.temperature_2m_max[0]),
+      rainChance: Math.round(daily.precipitation_probability_max?.[0] ?? 0),
+    };
+  }
+}
+
+export class WeatherService {
+  private static provider?: WeatherProvider | null;
+
+  /**
+   * Use another weather provider, e.g. a fixed one in tests. Null turns forecasts off.
+   */
+  static setProvider(provider: WeatherProvider | null): void {
+    this.provider = provider;
+  }
+
+  /**
+   * The configured weather provider, or null when forecasts are turned off
+   */
+  static getProvider(): WeatherProvider | null {
+    if (this.provider === undefined) {
+      this.provider = config.tripNotifications.weatherProvider === 'open-meteo'
+        ? new OpenMeteoWeatherProvider(config.tripNotifications.weatherApiUrl)
+        : null;
+    }
+    return this.provider;
+  }
+
+  /**
+   * Forecast for a day at a location. Null when there is no provider or no forecast yet;
+   * provider errors are thrown so callers can try again later.
+   */
+  static async getDailyForecast(latitude: number, longitude: number, date: Date): Promise<DailyForecast | null> {
+    const provider = this.getProvider();
+    if (!provider) {
+      return null;
+    }
+
+    const forecast = await provider.getDailyForecast(latitude, longitude, date);
+    log.debug('Weather forecast fetched', { provider: provider.name, latitude, longitude, date: forecast?.date });
+    return forecast;
+  }
+}
@@ -0,0 +1,70 @@
+import { PrismaClient, WishlistItem } from '@prisma/client';
+import { NotFoundError } from '../middlewares/error.middleware';
+import { TOUR_COVER_IMAGE_INCLUDE } from './tour.service';
+import { log } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+const WISHLIST_TOUR_INCLUDE = {
+  tour: {
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      price: true,
+      discountPrice: true,
+      currency: true,
+      duration: true,
+      category: true,
+      images: TOUR_COVER_IMAGE_INCLUDE,
+    },
+  },
+};
+
+export class WishlistService {
+  /**
+   * A user's saved tours, most recently saved first
+   */
+  static async getWishlist(userId: string) {
+    return prisma.wishlistItem.findMany({
+      where: { userId },
+      include: WISHLIST_TOUR_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Save a published tour. Saving it again is a no-op.
+   */
+  static async addTour(userId: string, tourId: string): Promise<WishlistItem> {
+    const tour = await prisma.tour.findFirst({
+      where: { id: tourId, status: 'PUBLISHED' },
+      select: { id: true },
+    });
+
+    if (!tour) {
+      throw new NotFoundError('Tour not found');
+    }
+
+    const item = await prisma.wishlistItem.upsert({
+      where: { userId_tourId: { userId, tourId } },
+      create: { userId, tourId },
+      update: {},
+    });
+
+    log.info('Tour added to wishlist', { userId, tourId });
+
+    return item;
+  }
+
+  /**
+   * Remove a saved tour
+   */
+  static async removeTour(userId: string, tourId: string): Promise<void> {
+    await prisma.wishlistItem.deleteMany({
+      where: { userId, tourId },
+    });
+
+    log.info('Tour removed from wishlist', { userId, tourId });
+  }
+}
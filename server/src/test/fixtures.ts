@@ -0,0 +1,105 @@
+import type { Booking, Prisma, Tour, TourDeparture, User, WaitlistEntry } from '@prisma/client';
+import { seed } from './prisma';
+import { PaymentService } from '../services/payment.service';
+import { SandboxPaymentProvider, STRIPE_PROFILE } from '../services/payment-providers';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Fields to override on a seeded row; the fake stores decimals as plain numbers
+ */
+export type SeedData<T> = {
+  [K in keyof T]?: T[K] extends Prisma.Decimal ? number : T[K] extends Prisma.Decimal | null ? number | null : T[K];
+};
+
+export const daysFromNow = (days: number): Date => new Date(Date.now() + days * DAY);
+
+export const seedUser = (data: SeedData<User> = {}): User =>
+  seed<User>('User', {
+    email: `traveller-${Math.random().toString(36).slice(2, 8)}@example.com`,
+    passwordHash: 'hash',
+    name: 'Abebe Kebede',
+    ...data,
+  });
+
+export const seedTour = (data: SeedData<Tour> = {}): Tour =>
+  seed<Tour>('Tour', {
+    title: 'Simien Mountains Trek',
+    slug: `simien-${Math.random().toString(36).slice(2, 8)}`,
+    description: 'Four days in the Simien Mountains',
+    price: 100,
+    currency: 'USD',
+    duration: 4,
+    maxGroupSize: 12,
+    difficulty: 'MODERATE',
+    category: 'ADVENTURE',
+    status: 'PUBLISHED',
+    ...data,
+  });
+
+export const seedDeparture = (tour: Tour, data: SeedData<TourDeparture> = {}): TourDeparture =>
+  seed<TourDeparture>('TourDeparture', {
+    tourId: tour.id,
+    startDate: daysFromNow(30),
+    endDate: daysFromNow(34),
+    capacity: 10,
+    seatsBooked: 0,
+    status: 'OPEN',
+    ...data,
+  });
+
+/**
+ * A pending booking quoted in the tour's currency. Its seats are counted on the departure by the caller.
+ */
+export const seedBooking = (
+  user: User,
+  tour: Tour,
+  departure: TourDeparture,
+  data: SeedData<Booking> = {}
+): Booking =>
+  seed<Booking>('Booking', {
+    bookingNumber: `BK${Math.random().toString().slice(2, 13)}`,
+    userId: user.id,
+    tourId: tour.id,
+    departureId: departure.id,
+    startDate: departure.startDate,
+    endDate: departure.endDate,
+    adults: 2,
+    children: 0,
+    totalPrice: 200,
+    discountAmount: 0,
+    currency: tour.currency,
+    quoteCurrency: tour.currency,
+    quoteAmount: 200,
+    quoteRate: 1,
+    quoteRateSource: 'identity',
+    quoteLockedAt: new Date(),
+    quoteExpiresAt: daysFromNow(1),
+    status: 'PENDING',
+    ...data,
+  });
+
+export const seedWaitlistEntry = (
+  tour: Tour,
+  departure: TourDeparture,
+  data: SeedData<WaitlistEntry> = {}
+): WaitlistEntry =>
+  seed<WaitlistEntry>('WaitlistEntry', {
+    tourId: tour.id,
+    departureId: departure.id,
+    name: 'Hanna Tesfaye',
+    email: 'hanna@example.com',
+    adults: 2,
+    children: 0,
+    status: 'WAITING',
+    ...data,
+  });
+
+/**
+ * Take card payments through the sandbox, so payments complete when verified
+ */
+export const useSandboxPayments = (): SandboxPaymentProvider => {
+  const provider = new SandboxPaymentProvider(STRIPE_PROFILE);
+  PaymentService.setProvider(provider);
+  return provider;
+};
@@ -0,0 +1,463 @@
+import { randomUUID } from 'crypto';
+import type { Prisma as PrismaNamespace, PrismaClient } from '@prisma/client';
+
+// The real module, this file stands in for its PrismaClient
+const { Prisma } = jest.requireActual<typeof import('@prisma/client')>('@prisma/client');
+
+type Row = Record<string, any>;
+type Field = PrismaNamespace.DMMF.Field;
+type Model = PrismaNamespace.DMMF.Model;
+
+const models = new Map<string, Model>(Prisma.dmmf.datamodel.models.map((model) => [model.name, model]));
+const tables = new Map<string, Row[]>();
+
+const delegateName = (model: string) => model.charAt(0).toLowerCase() + model.slice(1);
+
+const rowsOf = (model: string): Row[] => {
+  let rows = tables.get(model);
+  if (!rows) {
+    rows = [];
+    tables.set(model, rows);
+  }
+  return rows;
+};
+
+const fieldOf = (model: string, name: string): Field | undefined =>
+  models.get(model)!.fields.find((field) => field.name === name);
+
+// Decimals are kept as numbers, dates as copies
+const toStored = (value: any): any => {
+  if (Prisma.Decimal.isDecimal(value)) {
+    return Number(value);
+  }
+  if (value instanceof Date) {
+    return new Date(value);
+  }
+  return value;
+};
+
+const sameValue = (a: any, b: any): boolean => {
+  if (a instanceof Date || b instanceof Date) {
+    return a != null && b != null && new Date(a).getTime() === new Date(b).getTime();
+  }
+  if (Prisma.Decimal.isDecimal(a) || Prisma.Decimal.isDecimal(b) || (typeof a === 'number' && typeof b === 'number')) {
+    return a != null && b != null && Number(a) === Number(b);
+  }
+  return a === b;
+};
+
+const compare = (a: any, b: any): number =>
+  a instanceof Date || b instanceof Date ? new Date(a).getTime() - new Date(b).getTime() : Number(a) - Number(b);
+
+/**
+ * The other side of a relation: the rows it points at, by the foreign key on either side
+ */
+const related = (model: string, field: Field, row: Row): Row[] => {
+  const target = rowsOf(field.type);
+
+  if (field.relationFromFields && field.relationFromFields.length > 0) {
+    return target.filter((candidate) =>
+      field.relationFromFields!.every((from, i) =>
+        row[from] != null && sameValue(row[from], candidate[field.relationToFields![i]])
+      )
+    );
+  }
+
+  const opposite = models.get(field.type)!.fields.find((candidate) =>
+    candidate.relationName === field.relationName &&
+    candidate !== field &&
+    !!candidate.relationFromFields &&
+    candidate.relationFromFields.length > 0
+  );
+
+  if (!opposite) {
+    return [];
+  }
+
+  return target.filter((candidate) =>
+    opposite.relationFromFields!.every((from, i) => sameValue(candidate[from], row[opposite.relationToFields![i]]))
+  );
+};
+
+const matchesScalar = (value: any, filter: any): boolean => {
+  if (filter === null || typeof filter !== 'object' || filter instanceof Date || Prisma.Decimal.isDecimal(filter)) {
+    return filter === null ? value == null : sameValue(value, filter);
+  }
+
+  return Object.entries(filter).every(([op, operand]: [string, any]) => {
+    switch (op) {
+      case 'equals':
+        return matchesScalar(value, operand);
+      case 'not':
+        return !matchesScalar(value, operand);
+      case 'in':
+        return operand.some((candidate: any) => sameValue(value, candidate));
+      case 'notIn':
+        return !operand.some((candidate: any) => sameValue(value, candidate));
+      case 'lt':
+        return value != null && compare(value, operand) < 0;
+      case 'lte':
+        return value != null && compare(value, operand) <= 0;
+      case 'gt':
+        return value != null && compare(value, operand) > 0;
+      case 'gte':
+        return value != null && compare(value, operand) >= 0;
+      case 'contains':
+        return typeof value === 'string' && value.includes(operand);
+      case 'mode':
+        return true;
+      default:
+        throw new Error(`Unsupported filter ${op} in the test database`);
+    }
+  });
+};
+
+const matches = (model: string, row: Row, where: Row = {}): boolean =>
+  Object.entries(where).every(([key, filter]) => {
+    if (filter === undefined) {
+      return true;
+    }
+    if (key === 'AND') {
+      return [filter].flat().every((part: Row) => matches(model, row, part));
+    }
+    if (key === 'OR') {
+      return filter.some((part: Row) => matches(model, row, part));
+    }
+    if (key === 'NOT') {
+      return ![filter].flat().some((part: Row) => matches(model, row, part));
+    }
+
+    const field = fieldOf(model, key);
+
+    // Compound unique keys, e.g. baseCurrency_quoteCurrency
+    if (!field) {
+      return matches(model, row, filter);
+    }
+
+    if (field.kind !== 'object') {
+      return matchesScalar(row[key], filter);
+    }
+
+    const rows = related(model, field, row);
+
+    if (field.isList) {
+      return Object.entries(filter).every(([op, nested]: [string, any]) => {
+        switch (op) {
+          case 'some':
+            return rows.some((candidate) => matches(field.type, candidate, nested));
+          case 'none':
+            return !rows.some((candidate) => matches(field.type, candidate, nested));
+          case 'every':
+            return rows.every((candidate) => matches(field.type, candidate, nested));
+          default:
+            throw new Error(`Unsupported relation filter ${op} in the test database`);
+        }
+      });
+    }
+
+    if (filter === null) {
+      return rows.length === 0;
+    }
+    if ('is' in filter || 'isNot' in filter) {
+      return 'is' in filter
+        ? (filter.is === null ? rows.length === 0 : rows.some((candidate) => matches(field.type, candidate, filter.is)))
+        : !rows.some((candidate) => matches(field.type, candidate, filter.isNot));
+    }
+    return rows.some((candidate) => matches(field.type, candidate, filter));
+  });
+
+const sortRows = (rows: Row[], orderBy?: Row | Row[]): Row[] => {
+  const orders = [orderBy || []].flat();
+
+  return [...rows].sort((a, b) => {
+    for (const order of orders) {
+      const [[key, direction]] = Object.entries(order);
+      if (typeof direction !== 'string') {
+        continue;
+      }
+      const result = a[key] === b[key] ? 0 : compare(a[key], b[key]) || String(a[key]).localeCompare(String(b[key]));
+      if (result !== 0) {
+        return direction === 'desc' ? -result : result;
+      }
+    }
+    return 0;
+  });
+};
+
+/**
+ * A copy of a row with the relations an include or select asks for
+ */
+const shape = (model: string, row: Row, args: Row = {}): Row => {
+  const { select, include } = args;
+  const result: Row = select ? {} : { ...row };
+
+  for (const [key, option] of Object.entries<any>(select || include || {})) {
+    if (!option) {
+      continue;
+    }
+
+    const field = fieldOf(model, key);
+    if (!field || field.kind !== 'object') {
+      result[key] = row[key];
+      continue;
+    }
+
+    const nested = option === true ? {} : option;
+    let rows = related(model, field, row).filter((candidate) => matches(field.type, candidate, nested.where));
+
+    if (field.isList) {
+      rows = sortRows(rows, nested.orderBy);
+      if (nested.take !== undefined) {
+        rows = rows.slice(0, nested.take);
+      }
+      result[key] = rows.map((candidate) => shape(field.type, candidate, nested));
+    } else {
+      result[key] = rows[0] ? shape(field.type, rows[0], nested) : null;
+    }
+  }
+
+  return result;
+};
+
+const defaultValue = (field: Field): any => {
+  if (field.isUpdatedAt) {
+    return new Date();
+  }
+
+  const value: any = field.default;
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value === 'object' && value !== null && 'name' in value) {
+    return value.name === 'now' ? new Date() : randomUUID();
+  }
+  return field.type === 'Decimal' ? Number(value) : value;
+};
+
+/**
+ * Apply scalar writes and nested relation writes to a row
+ */
+const write = (model: string, row: Row, data: Row): void => {
+  const nestedWrites: Array<[Field, Row]> = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const field = fieldOf(model, key);
+    if (!field) {
+      throw new Error(`Unknown field ${model}.${key} in the test database`);
+    }
+
+    if (field.kind === 'object') {
+      nestedWrites.push([field, value]);
+    } else if (value !== null && typeof value === 'object' && !(value instanceof Date) && !Prisma.Decimal.isDecimal(value) && field.type !== 'Json') {
+      if ('set' in value) row[key] = toStored(value.set);
+      if ('increment' in value) row[key] = Number(row[key]) + Number(value.increment);
+      if ('decrement' in value) row[key] = Number(row[key]) - Number(value.decrement);
+    } else {
+      row[key] = toStored(value);
+    }
+  }
+
+  for (const [field, operations] of nestedWrites) {
+    if (operations.connect) {
+      const [target] = rowsOf(field.type).filter((candidate) => matches(field.type, candidate, operations.connect));
+      field.relationFromFields!.forEach((from, i) => {
+        row[from] = target[field.relationToFields![i]];
+      });
+    }
+
+    if (field.isList) {
+      const opposite = models.get(field.type)!.fields.find((candidate) =>
+        candidate.relationName === field.relationName && candidate !== field
+      )!;
+      const link = Object.fromEntries(
+        opposite.relationFromFields!.map((from, i) => [from, row[opposite.relationToFields![i]]])
+      );
+
+      if (operations.deleteMany) {
+        const children = rowsOf(field.type);
+        const doomed = related(model, field, row).filter((candidate) =>
+          matches(field.type, candidate, operations.deleteMany)
+        );
+        tables.set(field.type, children.filter((candidate) => !doomed.includes(candidate)));
+      }
+
+      for (const child of [operations.create || []].flat()) {
+        insert(field.type, { ...child, ...link });
+      }
+    }
+  }
+};
+
+const insert = (model: string, data: Row): Row => {
+  const row: Row = {};
+
+  for (const field of models.get(model)!.fields) {
+    if (field.kind !== 'object') {
+      row[field.name] = defaultValue(field);
+    }
+  }
+
+  // Scalars first so nested creates can link to the new row's id
+  const scalars = Object.fromEntries(Object.entries(data).filter(([key]) => fieldOf(model, key)?.kind !== 'object'));
+  const relations = Object.fromEntries(Object.entries(data).filter(([key]) => fieldOf(model, key)?.kind === 'object'));
+
+  write(model, row, scalars);
+  rowsOf(model).push(row);
+  write(model, row, relations);
+
+  return row;
+};
+
+const find = (model: string, args: Row = {}): Row[] => {
+  let rows = sortRows(rowsOf(model).filter((row) => matches(model, row, args.where)), args.orderBy);
+
+  if (args.skip) {
+    rows = rows.slice(args.skip);
+  }
+  if (args.take !== undefined) {
+    rows = rows.slice(0, args.take);
+  }
+  return rows;
+};
+
+const notFound = (model: string) =>
+  new Prisma.PrismaClientKnownRequestError(`No ${model} found`, { code: 'P2025', clientVersion: 'test' });
+
+// Every query yields once, so concurrent callers interleave the way they would against a database
+const tick = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+const delegate = (model: string) => ({
+  async findUnique(args: Row) {
+    await tick();
+    const [row] = find(model, args);
+    return row ? shape(model, row, args) : null;
+  },
+  async findUniqueOrThrow(args: Row) {
+    await tick();
+    const [row] = find(model, args);
+    if (!row) throw notFound(model);
+    return shape(model, row, args);
+  },
+  async findFirst(args: Row = {}) {
+    await tick();
+    const [row] = find(model, args);
+    return row ? shape(model, row, args) : null;
+  },
+  async findFirstOrThrow(args: Row = {}) {
+    await tick();
+    const [row] = find(model, args);
+    if (!row) throw notFound(model);
+    return shape(model, row, args);
+  },
+  async findMany(args: Row = {}) {
+    await tick();
+    return find(model, args).map((row) => shape(model, row, args));
+  },
+  async count(args: Row = {}) {
+    await tick();
+    return find(model, { where: args.where }).length;
+  },
+  async create(args: Row) {
+    await tick();
+    return shape(model, insert(model, args.data), args);
+  },
+  async createMany(args: Row) {
+    await tick();
+    [args.data].flat().forEach((data: Row) => insert(model, data));
+    return { count: [args.data].flat().length };
+  },
+  async update(args: Row) {
+    await tick();
+    const [row] = find(model, { where: args.where });
+    if (!row) throw notFound(model);
+    write(model, row, args.data);
+    return shape(model, row, args);
+  },
+  async updateMany(args: Row) {
+    await tick();
+    const rows = find(model, { where: args.where });
+    rows.forEach((row) => write(model, row, args.data));
+    return { count: rows.length };
+  },
+  async upsert(args: Row) {
+    await tick();
+    const [row] = find(model, { where: args.where });
+    if (!row) {
+      return shape(model, insert(model, args.create), args);
+    }
+    write(model, row, args.update);
+    return shape(model, row, args);
+  },
+  async delete(args: Row) {
+    await tick();
+    const [row] = find(model, { where: args.where });
+    if (!row) throw notFound(model);
+    tables.set(model, rowsOf(model).filter((candidate) => candidate !== row));
+    return shape(model, row, args);
+  },
+  async deleteMany(args: Row = {}) {
+    await tick();
+    const doomed = find(model, { where: args.where });
+    tables.set(model, rowsOf(model).filter((candidate) => !doomed.includes(candidate)));
+    return { count: doomed.length };
+  },
+});
+
+/**
+ * An in-memory stand-in for PrismaClient with the queries the services use. Transactions run
+ * their callback without isolation, which is enough for guarded updateMany reservations.
+ */
+const client: Row = {
+  $connect: async () => undefined,
+  $disconnect: async () => undefined,
+  $on: () => undefined,
+  $use: () => undefined,
+  $transaction: async (arg: any) => {
+    if (typeof arg === 'function') {
+      return arg(client);
+    }
+    const results = [];
+    for (const query of arg) {
+      results.push(await query);
+    }
+    return results;
+  },
+  $executeRaw: async () => {
+    throw new Error('Raw queries are not supported by the test database');
+  },
+  $queryRaw: async () => {
+    throw new Error('Raw queries are not supported by the test database');
+  },
+};
+
+for (const model of models.keys()) {
+  client[delegateName(model)] = delegate(model);
+}
+
+export const testPrisma = client as unknown as PrismaClient;
+
+/**
+ * The @prisma/client module with PrismaClient replaced, for jest.mock
+ */
+export const prismaModuleMock = () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => testPrisma),
+});
+
+/**
+ * Insert a row with the schema's defaults, for arranging a test
+ */
+export const seed = <T extends Row = Row>(model: string, data: Row): T => ({ ...insert(model, data) }) as T;
+
+/**
+ * The stored rows of a model, for assertions
+ */
+export const rows = (model: string): Row[] => rowsOf(model).map((row) => ({ ...row }));
+
+export const resetTestPrisma = (): void => {
+  tables.clear();
+};
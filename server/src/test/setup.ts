@@ -0,0 +1,5 @@
+// Tests never read a developer's secrets; config only needs the required variables to be set
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
+// Keep the services' info logs out of the test output
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
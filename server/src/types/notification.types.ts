@@ -1,9 +1,13 @@
 // Notification System Types and Interfaces
+import { AppError } from '../middlewares/error.middleware'
 
 export enum NotificationType {
   BOOKING_CONFIRMATION = 'BOOKING_CONFIRMATION',
   BOOKING_REMINDER = 'BOOKING_REMINDER',
   BOOKING_CANCELLED = 'BOOKING_CANCELLED',
+  TRIP_CHECKLIST = 'TRIP_CHECKLIST',
+  TRIP_WEATHER = 'TRIP_WEATHER',
+  REVIEW_REQUEST = 'REVIEW_REQUEST',
   PAYMENT_SUCCESS = 'PAYMENT_SUCCESS',
   PAYMENT_FAILED = 'PAYMENT_FAILED',
   CHAT_MESSAGE = 'CHAT_MESSAGE',
@@ -69,6 +73,13 @@ export interface CreateNotificationRequest {
   priority: NotificationPriority
   scheduledAt?: Date
   expiresAt?: Date
+  // Variables of the type's template, channels render it in the user's language when set
+  templateData?: TemplateData
+}
+
+// A notification whose title and content come from its type's template
+export interface CreateTemplatedNotificationRequest extends Omit<CreateNotificationRequest, 'title' | 'content' | 'templateData'> {
+  templateData: TemplateData
 }
 
 export interface NotificationFilters {
@@ -97,6 +108,9 @@ export interface ChannelPreferences {
   [NotificationType.BOOKING_CONFIRMATION]: DeliveryChannel[]
   [NotificationType.BOOKING_REMINDER]: DeliveryChannel[]
   [NotificationType.BOOKING_CANCELLED]: DeliveryChannel[]
+  [NotificationType.TRIP_CHECKLIST]: DeliveryChannel[]
+  [NotificationType.TRIP_WEATHER]: DeliveryChannel[]
+  [NotificationType.REVIEW_REQUEST]: DeliveryChannel[]
   [NotificationType.PAYMENT_SUCCESS]: DeliveryChannel[]
   [NotificationType.PAYMENT_FAILED]: DeliveryChannel[]
   [NotificationType.CHAT_MESSAGE]: DeliveryChannel[]
@@ -133,6 +147,15 @@ export interface DeviceRegistration {
   updatedAt: Date
 }
 
+// Web Push subscription, as serialized by the browser's PushSubscription
+export interface PushSubscriptionInput {
+  endpoint: string
+  keys: {
+    p256dh: string
+    auth: string
+  }
+}
+
 // Push Notifications
 export interface PushNotification {
   deviceTokens: string[]
@@ -158,6 +181,10 @@ export interface PushResult {
 }
 
 // Templates
+export const TEMPLATE_LOCALES = ['en', 'am', 'om', 'ti'] as const
+export type TemplateLocale = typeof TEMPLATE_LOCALES[number]
+export const DEFAULT_TEMPLATE_LOCALE: TemplateLocale = 'en'
+
 export interface NotificationTemplate {
   id: string
   type: NotificationType
@@ -165,11 +192,15 @@ export interface NotificationTemplate {
   title: string
   content: string
   emailSubject?: string
+  emailHtml?: string
   pushTitle?: string
   pushBody?: string
+  smsText?: string
   variables: TemplateVariable[]
   version: number
   isActive: boolean
+  createdById?: string
+  changeNote?: string
   createdAt: Date
   updatedAt: Date
 }
@@ -185,33 +216,40 @@ export interface TemplateData {
   [key: string]: any
 }
 
+// Template output for every channel; version 0 is the built-in default and null an unsaved draft
 export interface RenderedTemplate {
+  locale: string
+  version: number | null
   title: string
   content: string
-  emailSubject?: string
-  pushTitle?: string
-  pushBody?: string
+  emailSubject: string
+  emailHtml: string
+  pushTitle: string
+  pushBody: string
+  smsText: string
 }
 
-export interface CreateTemplateRequest {
-  type: NotificationType
-  locale: string
+// The text fields a template version is made of
+export interface TemplateContent {
   title: string
   content: string
   emailSubject?: string
+  emailHtml?: string
   pushTitle?: string
   pushBody?: string
+  smsText?: string
   variables: TemplateVariable[]
 }
 
-export interface UpdateTemplateRequest {
-  title?: string
-  content?: string
-  emailSubject?: string
-  pushTitle?: string
-  pushBody?: string
-  variables?: TemplateVariable[]
-  isActive?: boolean
+export interface CreateTemplateRequest extends TemplateContent {
+  type: NotificationType
+  locale: TemplateLocale
+  changeNote?: string
+}
+
+// Changes to the active version, saved as a new version
+export interface UpdateTemplateRequest extends Partial<TemplateContent> {
+  changeNote?: string
 }
 
 // Queue System
@@ -234,6 +272,39 @@ export interface NotificationPayload {
   templateData?: TemplateData
 }
 
+// Channel Delivery
+export interface ChannelDeliveryResult {
+  recipients: number
+  messageId?: string
+}
+
+export interface ChannelProcessor {
+  readonly channel: DeliveryChannel
+  deliver(job: NotificationJob): Promise<ChannelDeliveryResult>
+}
+
+export interface DeliveryRecorder {
+  markAsDelivered(notificationId: string, channel: DeliveryChannel): Promise<void>
+  markAsFailed(notificationId: string, channel: DeliveryChannel, error: string): Promise<void>
+}
+
+export interface ChannelDeliveryState {
+  status: NotificationStatus.DELIVERED | NotificationStatus.FAILED
+  at: string
+  error?: string
+}
+
+// A job that ran out of attempts or failed in a way retrying cannot fix
+export interface DeadLetterJob {
+  jobId: string
+  queue: string
+  channel: DeliveryChannel
+  notification: NotificationJob
+  error: string
+  attemptsMade: number
+  failedAt: string
+}
+
 export interface QueueStats {
   waiting: number
   active: number
@@ -263,11 +334,94 @@ export interface BroadcastMessage {
   priority: NotificationPriority
 }
 
+// Users a broadcast or campaign goes to. Users must match every criterion given, and any value
+// of a list. A segment without criteria matches nobody unless `all` is set.
 export interface UserSegment {
   userIds?: string[]
   roles?: string[]
   locations?: string[]
   all?: boolean
+  bookings?: BookingHistoryCriteria
+  // Profile nationality, or the lead traveller's on a booking for users who have not set one
+  nationalities?: string[]
+  // Notification language; users without preferences count as English
+  languages?: string[]
+  // Signed in or refreshed their session within this many days
+  activeWithinDays?: number
+  // Not signed in for at least this many days, including users who never have
+  inactiveForDays?: number
+  // Saved any of these tours, or a tour in any of these categories
+  wishlistTourIds?: string[]
+  wishlistCategories?: string[]
+}
+
+export interface BookingHistoryCriteria {
+  // Only bookings in these states count; CONFIRMED and COMPLETED when not given
+  statuses?: string[]
+  tourIds?: string[]
+  categories?: string[]
+  // Trip start date range, ISO dates
+  startDateFrom?: string
+  startDateTo?: string
+  // At least this many matching bookings; 0 selects users without any
+  minCount?: number
+}
+
+export interface AudiencePreview {
+  size: number
+  sample: Array<{ id: string, name: string | null, email: string }>
+}
+
+export enum CampaignStatus {
+  DRAFT = 'DRAFT',
+  SCHEDULED = 'SCHEDULED',
+  SENDING = 'SENDING',
+  SENT = 'SENT',
+  CANCELLED = 'CANCELLED'
+}
+
+export enum CampaignRecipientStatus {
+  PENDING = 'PENDING',
+  SENT = 'SENT',
+  SUPPRESSED = 'SUPPRESSED',
+  FAILED = 'FAILED'
+}
+
+export interface CampaignContent {
+  name: string
+  type: NotificationType
+  title: string
+  content: string
+  url?: string | null
+  channels: DeliveryChannel[]
+  priority: NotificationPriority
+  segment: UserSegment
+  throttlePerMinute?: number | null
+}
+
+export interface Campaign extends CampaignContent {
+  id: string
+  status: CampaignStatus
+  scheduledAt: Date | null
+  audienceSize: number | null
+  startedAt: Date | null
+  completedAt: Date | null
+  createdById: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CampaignAnalytics {
+  audienceSize: number | null
+  pending: number
+  sent: number
+  suppressed: number
+  failed: number
+  opened: number
+  clicked: number
+  // Shares of the sent notifications, 0 to 1
+  openRate: number
+  clickRate: number
 }
 
 // WebSocket Events
@@ -280,17 +434,26 @@ export interface SocketEvents {
 }
 
 // Error Types
-export class NotificationError extends Error {
+// Built on AppError so the API error handler answers with the right status and code
+export class NotificationError extends AppError {
   constructor(
     message: string,
-    public code: string,
-    public statusCode: number = 500
+    code: string,
+    statusCode: number = 500
   ) {
-    super(message)
+    super(message, statusCode, code)
     this.name = 'NotificationError'
   }
 }
 
+// Delivery failures that retrying cannot fix, such as a user without a phone number
+export class PermanentDeliveryError extends NotificationError {
+  constructor(message: string, code: string = 'DELIVERY_FAILED') {
+    super(message, code, 422)
+    this.name = 'PermanentDeliveryError'
+  }
+}
+
 export class ValidationError extends NotificationError {
   constructor(message: string) {
     super(message, 'VALIDATION_ERROR', 400)